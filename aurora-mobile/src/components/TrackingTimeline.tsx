@@ -0,0 +1,176 @@
+import React from 'react';
+import {View, Text, StyleSheet} from 'react-native';
+
+import {Colors, Spacing, Typography} from '../constants/Colors';
+import type {Shipment, ShipmentStatus} from '../store/slices/ordersSlice';
+
+const STATUS_LABELS: Record<ShipmentStatus, string> = {
+  pending: 'Awaiting shipment',
+  label_created: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery exception',
+};
+
+const STATUS_COLORS: Record<ShipmentStatus, string> = {
+  pending: Colors.warning,
+  label_created: Colors.secondary,
+  in_transit: Colors.info,
+  out_for_delivery: Colors.primary,
+  delivered: Colors.success,
+  exception: Colors.error,
+};
+
+interface TrackingTimelineProps {
+  shipment: Shipment;
+}
+
+/**
+ * Tracking history for one shipment, newest event first
+ */
+const TrackingTimeline: React.FC<TrackingTimelineProps> = ({shipment}) => {
+  const events = [...shipment.events].reverse();
+  const digital = shipment.fulfillmentType === 'digital';
+  const title = digital
+    ? 'Digital delivery'
+    : shipment.carrier
+    ? `${shipment.carrier}${shipment.service ? ` ${shipment.service}` : ''}`
+    : 'Shipment';
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text style={styles.carrier}>{title}</Text>
+          {shipment.trackingNumber && (
+            <Text style={styles.meta}>{shipment.trackingNumber}</Text>
+          )}
+          {shipment.status !== 'delivered' && shipment.estimatedDelivery && (
+            <Text style={styles.meta}>
+              Estimated delivery{' '}
+              {new Date(shipment.estimatedDelivery).toLocaleDateString()}
+            </Text>
+          )}
+        </View>
+        <Text
+          style={[styles.badge, {color: STATUS_COLORS[shipment.status]}]}>
+          {digital && shipment.status === 'delivered'
+            ? 'Available'
+            : STATUS_LABELS[shipment.status]}
+        </Text>
+      </View>
+
+      {shipment.items.map(item => (
+        <Text key={item.productId} style={styles.item}>
+          {item.quantity} × {item.name}
+        </Text>
+      ))}
+
+      {events.length === 0 ? (
+        <Text style={styles.meta}>
+          {shipment.status === 'pending'
+            ? 'Tracking details will appear once this shipment leaves the warehouse.'
+            : 'No tracking updates yet.'}
+        </Text>
+      ) : (
+        events.map((event, index) => (
+          <View
+            key={`${event.status}-${event.occurredAt}`}
+            style={styles.event}>
+            <View style={styles.rail}>
+              <View
+                style={[
+                  styles.dot,
+                  {
+                    backgroundColor:
+                      index === 0 ? STATUS_COLORS[event.status] : Colors.border,
+                  },
+                ]}
+              />
+              {index < events.length - 1 && <View style={styles.line} />}
+            </View>
+            <View style={styles.eventBody}>
+              <Text
+                style={[
+                  styles.description,
+                  index > 0 && {color: Colors.textSecondary},
+                ]}>
+                {event.description}
+              </Text>
+              <Text style={styles.meta}>
+                {new Date(event.occurredAt).toLocaleString()}
+                {event.location ? ` · ${event.location}` : ''}
+              </Text>
+            </View>
+          </View>
+        ))
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.md,
+  },
+  headerText: {
+    flex: 1,
+  },
+  carrier: {
+    ...Typography.h3,
+    color: Colors.text,
+  },
+  badge: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  item: {
+    ...Typography.body,
+    color: Colors.text,
+    marginBottom: Spacing.xs,
+  },
+  event: {
+    flexDirection: 'row',
+  },
+  rail: {
+    alignItems: 'center',
+    width: 20,
+    marginRight: Spacing.sm,
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 4,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: Colors.border,
+  },
+  eventBody: {
+    flex: 1,
+    paddingBottom: Spacing.md,
+  },
+  description: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  meta: {
+    ...Typography.small,
+    color: Colors.textSecondary,
+  },
+});
+
+export default TrackingTimeline;
@@ -1,4 +1,10 @@
-export const API_BASE_URL = 'http://localhost:3000/api';
+// Versioned mobile API (src/app/api/mobile/v1 in the web app). Every endpoint
+// below is served under this prefix; protected ones take the access token
+// from /auth/login as a Bearer token.
+export const API_BASE_URL = 'http://localhost:3000/api/mobile/v1';
+
+// Stripe publishable key for saving cards and 3D Secure
+export const STRIPE_PUBLISHABLE_KEY = 'pk_test_...';
 
 export const API_ENDPOINTS = {
   // Auth endpoints
@@ -10,22 +16,36 @@ export const API_ENDPOINTS = {
   PRODUCTS: '/products',
   PRODUCT_BY_ID: (id: string) => `/products/${id}`,
   SEARCH_PRODUCTS: '/products/search',
+  SEARCH_CLICK: '/products/search/click',
   
-  // Cart endpoints
+  // Cart endpoints (guests send their cart session as x-cart-session)
   CART: '/cart',
-  ADD_TO_CART: '/cart/add',
-  UPDATE_CART: '/cart/update',
-  REMOVE_FROM_CART: '/cart/remove',
+  CART_ITEMS: '/cart/items',
+  CART_ITEM: (productId: string, variantId?: string) =>
+    `/cart/items/${encodeURIComponent(productId)}${
+      variantId ? `?variantId=${encodeURIComponent(variantId)}` : ''
+    }`,
+  CART_MERGE: '/cart/merge',
   
   // Order endpoints
   ORDERS: '/orders',
   ORDER_BY_ID: (id: string) => `/orders/${id}`,
+  ORDER_TRACKING: (id: string) => `/orders/${id}/tracking`,
+  ORDER_RETURNS: (id: string) => `/orders/${id}/returns`,
+  ORDER_REORDER: (id: string) => `/orders/${id}/reorder`,
   CREATE_ORDER: '/orders/create',
   
+  // Saved card endpoints (send the user token as a Bearer token)
+  PAYMENT_METHODS: '/payment-methods',
+  PAYMENT_METHOD_BY_ID: (id: string) => `/payment-methods/${id}`,
+  PAY_WITH_SAVED_CARD: '/payments/saved-card',
+  
   // Analytics endpoints
-  ANALYTICS: '/analytics',
   TRACK_EVENT: '/analytics/track',
   
   // Push notifications
   REGISTER_PUSH_TOKEN: '/notifications/register',
+  NOTIFICATION_PREFERENCES: '/notifications/preferences',
+  PRODUCT_ALERTS: '/notifications/alerts',
+  PRODUCT_ALERT: (id: string) => `/notifications/alerts/${id}`,
 };
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, {useEffect} from 'react';
 import {createStackNavigator} from '@react-navigation/stack';
 import {
   createBottomTabNavigator,
@@ -8,7 +8,8 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import type {RouteProp} from '@react-navigation/native';
 
 import {Colors} from '../constants/Colors';
-import {useAppSelector} from '../store/hooks';
+import {useAppDispatch, useAppSelector} from '../store/hooks';
+import {fetchCart, mergeGuestCart} from '../store/slices/cartSlice';
 import type {RootState} from '../store/store';
 
 // Auth Screens
@@ -26,6 +27,7 @@ import CheckoutScreen from '../screens/checkout/CheckoutScreen';
 import ProfileScreen from '../screens/profile/ProfileScreen';
 import OrdersScreen from '../screens/orders/OrdersScreen';
 import OrderDetailScreen from '../screens/orders/OrderDetailScreen';
+import ReturnRequestScreen from '../screens/orders/ReturnRequestScreen';
 import NotificationsScreen from '../screens/notifications/NotificationsScreen';
 import SettingsScreen from '../screens/settings/SettingsScreen';
 
@@ -36,6 +38,7 @@ export type RootStackParamList = {
   Search: undefined;
   Checkout: undefined;
   OrderDetail: {orderId: string};
+  ReturnRequest: {orderId: string};
   Notifications: undefined;
   Settings: undefined;
   BiometricSetup: undefined;
@@ -132,8 +135,18 @@ const MainTabs = () => {
 };
 
 const AppNavigator: React.FC = () => {
+  const dispatch = useAppDispatch();
   const isAuthenticated = useAppSelector(selectIsAuthenticated);
 
+  // Signing in moves the guest cart into the account's cart
+  useEffect(() => {
+    if (isAuthenticated) {
+      dispatch(mergeGuestCart());
+    } else {
+      dispatch(fetchCart());
+    }
+  }, [dispatch, isAuthenticated]);
+
   return (
     <Stack.Navigator
       screenOptions={{
@@ -176,6 +189,11 @@ const AppNavigator: React.FC = () => {
             component={OrderDetailScreen}
             options={{title: 'Order Details'}}
           />
+          <Stack.Screen 
+            name="ReturnRequest" 
+            component={ReturnRequestScreen}
+            options={{title: 'Request a Return'}}
+          />
           <Stack.Screen 
             name="Notifications" 
             component={NotificationsScreen}
@@ -3,22 +3,70 @@ import PushNotification, {
   type PushNotification as PushNotificationEvent,
 } from 'react-native-push-notification';
 
+import {useAppDispatch, useAppSelector} from '../store/hooks';
+import {
+  addNotification,
+  fetchNotificationPreferences,
+  registerPushToken,
+  setPermissionGranted,
+  setPushToken,
+  type Notification,
+} from '../store/slices/notificationsSlice';
+
 interface NotificationProviderProps {
   children: React.ReactNode;
 }
 
+// Maps the server's notification category to the in-app notification type
+const notificationType = (category: unknown): Notification['type'] =>
+  category === 'back_in_stock' || category === 'price_drop' ? 'promotion' : 'order';
+
 const NotificationProvider: React.FC<NotificationProviderProps> = ({children}) => {
+  const dispatch = useAppDispatch();
+  const isAuthenticated = useAppSelector(state => state.auth.isAuthenticated);
+  const {pushToken, registered} = useAppSelector(state => state.notifications);
+
   useEffect(() => {
     PushNotification.configure({
-      onRegister: () => {
-        // Registration handled elsewhere in the app if needed
+      onRegister: token => {
+        dispatch(setPushToken(token.token));
       },
       onNotification: (notification: PushNotificationEvent) => {
+        dispatch(
+          addNotification({
+            title: notification.title || '',
+            body: typeof notification.message === 'string' ? notification.message : '',
+            type: notificationType(notification.data?.category),
+            data: notification.data,
+          }),
+        );
         notification.finish?.(PushNotification.FetchResult.NoData);
       },
       requestPermissions: false,
     });
-  }, []);
+  }, [dispatch]);
+
+  // Ask for permission once signed in, since notifications are per account
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    PushNotification.requestPermissions()
+      .then(permissions => {
+        dispatch(setPermissionGranted(!!permissions.alert));
+      })
+      .catch(() => {
+        dispatch(setPermissionGranted(false));
+      });
+    dispatch(fetchNotificationPreferences());
+  }, [dispatch, isAuthenticated]);
+
+  useEffect(() => {
+    if (isAuthenticated && pushToken && !registered) {
+      dispatch(registerPushToken(pushToken));
+    }
+  }, [dispatch, isAuthenticated, pushToken, registered]);
 
   return <>{children}</>;
 };
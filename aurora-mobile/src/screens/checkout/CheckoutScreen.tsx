@@ -1,24 +1,371 @@
-import React from 'react';
-import {View, Text, StyleSheet} from 'react-native';
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import type {StackNavigationProp} from '@react-navigation/stack';
+import {useStripe} from '@stripe/stripe-react-native';
+
+import {API_BASE_URL, API_ENDPOINTS} from '../../config/api';
+import {Colors, Spacing, Typography} from '../../constants/Colors';
+import type {RootStackParamList} from '../../navigation/AppNavigator';
+import {useAppDispatch, useAppSelector} from '../../store/hooks';
+import {clearCart, syncClearCart} from '../../store/slices/cartSlice';
+
+export interface SavedCard {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  isDefault: boolean;
+}
+
+export const formatCardLabel = (card: SavedCard) =>
+  `${card.brand.charAt(0).toUpperCase()}${card.brand.slice(1)} •••• ${card.last4}`;
 
 const CheckoutScreen: React.FC = () => {
+  const navigation =
+    useNavigation<StackNavigationProp<RootStackParamList, 'Checkout'>>();
+  const dispatch = useAppDispatch();
+  const {initPaymentSheet, presentPaymentSheet, handleNextAction} =
+    useStripe();
+  const {items, total} = useAppSelector(state => state.cart);
+  const {user, token} = useAppSelector(state => state.auth);
+
+  const [cards, setCards] = useState<SavedCard[]>([]);
+  const [cardId, setCardId] = useState<string | null>(null);
+  const [address, setAddress] = useState({
+    street: '',
+    city: '',
+    state: '',
+    postalCode: '',
+    country: '',
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const authHeaders = token ? {Authorization: `Bearer ${token}`} : undefined;
+
+  const loadCards = useCallback(async () => {
+    if (!token) {
+      setIsLoading(false);
+      return;
+    }
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}${API_ENDPOINTS.PAYMENT_METHODS}`,
+        {headers: {Authorization: `Bearer ${token}`}},
+      );
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      setCards(result.data);
+      setCardId(
+        current =>
+          current ||
+          result.data.find((card: SavedCard) => card.isDefault)?.id ||
+          null,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load cards');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadCards();
+  }, [loadCards]);
+
+  // Saves a card with the Stripe PaymentSheet; it then shows up in the list
+  const addCard = async () => {
+    try {
+      setError(null);
+      const response = await fetch(
+        `${API_BASE_URL}${API_ENDPOINTS.PAYMENT_METHODS}`,
+        {method: 'POST', headers: authHeaders},
+      );
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      const init = await initPaymentSheet({
+        merchantDisplayName: 'Aurora Commerce',
+        setupIntentClientSecret: result.data.clientSecret,
+      });
+      if (init.error) {
+        throw new Error(init.error.message);
+      }
+
+      const presented = await presentPaymentSheet();
+      if (!presented.error) {
+        await loadCards();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save card');
+    }
+  };
+
+  const placeOrder = async () => {
+    if (!cardId || !user) {
+      return;
+    }
+    if (!address.street || !address.city || !address.country) {
+      setError('Enter the address to ship your order to');
+      return;
+    }
+
+    try {
+      setIsPlacing(true);
+      setError(null);
+
+      const draftResponse = await fetch(
+        `${API_BASE_URL}${API_ENDPOINTS.CREATE_ORDER}`,
+        {
+          method: 'POST',
+          headers: {'Content-Type': 'application/json', ...authHeaders},
+          body: JSON.stringify({
+            items: items.map(item => ({
+              productId: item.productId,
+              name: item.name,
+              price: item.price,
+              quantity: item.quantity,
+            })),
+            customer: {
+              name: user.name,
+              email: user.email,
+              address: address.street,
+              city: address.city,
+              state: address.state,
+              postalCode: address.postalCode,
+              country: address.country,
+            },
+            total,
+          }),
+        },
+      );
+      const draft = await draftResponse.json();
+      if (!draftResponse.ok) {
+        throw new Error(draft.error || 'Failed to create order');
+      }
+
+      const payResponse = await fetch(
+        `${API_BASE_URL}${API_ENDPOINTS.PAY_WITH_SAVED_CARD}`,
+        {
+          method: 'POST',
+          headers: {'Content-Type': 'application/json', ...authHeaders},
+          body: JSON.stringify({orderId: draft.orderId, paymentMethodId: cardId}),
+        },
+      );
+      const payment = await payResponse.json();
+      if (!payment.success) {
+        throw new Error(payment.error);
+      }
+
+      // The bank wants the customer to authenticate (3D Secure)
+      if (payment.data.status === 'requires_action') {
+        const action = await handleNextAction(payment.data.clientSecret);
+        if (action.error) {
+          throw new Error(action.error.message);
+        }
+      }
+
+      dispatch(clearCart());
+      dispatch(syncClearCart());
+      Alert.alert('Order placed', 'Thanks! We will email your confirmation.');
+      navigation.replace('OrderDetail', {orderId: draft.orderId});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Payment failed');
+    } finally {
+      setIsPlacing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={Colors.primary} />
+      </View>
+    );
+  }
+
+  if (!token) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.empty}>Sign in to check out with a saved card.</Text>
+      </View>
+    );
+  }
+
   return (
-    <View style={styles.container}>
-      <Text style={styles.text}>Checkout Screen Placeholder</Text>
-    </View>
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Checkout</Text>
+      <Text style={styles.subtitle}>
+        {items.length} item(s) · ${total.toFixed(2)} before tax
+      </Text>
+
+      <Text style={styles.section}>Shipping address</Text>
+      {(
+        [
+          ['street', 'Street address'],
+          ['city', 'City'],
+          ['state', 'State / Region'],
+          ['postalCode', 'Postal code'],
+          ['country', 'Country'],
+        ] as Array<[keyof typeof address, string]>
+      ).map(([field, placeholder]) => (
+        <TextInput
+          key={field}
+          style={styles.input}
+          placeholder={placeholder}
+          placeholderTextColor={Colors.textLight}
+          value={address[field]}
+          onChangeText={value =>
+            setAddress(current => ({...current, [field]: value}))
+          }
+        />
+      ))}
+
+      <Text style={styles.section}>Pay with</Text>
+      {cards.map(card => (
+        <TouchableOpacity
+          key={card.id}
+          style={[styles.card, cardId === card.id && styles.cardSelected]}
+          onPress={() => setCardId(card.id)}>
+          <Text style={styles.cardLabel}>{formatCardLabel(card)}</Text>
+          <Text style={styles.cardExpiry}>
+            {String(card.expMonth).padStart(2, '0')}/{card.expYear}
+            {card.isDefault ? ' · Default' : ''}
+          </Text>
+        </TouchableOpacity>
+      ))}
+      <TouchableOpacity style={styles.addCard} onPress={addCard}>
+        <Text style={styles.addCardText}>+ Add a card</Text>
+      </TouchableOpacity>
+
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <TouchableOpacity
+        style={[
+          styles.submit,
+          (isPlacing || !cardId || items.length === 0) && styles.submitDisabled,
+        ]}
+        onPress={placeOrder}
+        disabled={isPlacing || !cardId || items.length === 0}>
+        {isPlacing ? (
+          <ActivityIndicator color={Colors.background} />
+        ) : (
+          <Text style={styles.submitText}>Place order</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  centered: {
     flex: 1,
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: '#0f172a',
+    padding: Spacing.lg,
+    backgroundColor: Colors.surface,
+  },
+  title: {
+    ...Typography.h2,
+    color: Colors.text,
+  },
+  subtitle: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.lg,
+  },
+  section: {
+    ...Typography.body,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  input: {
+    ...Typography.body,
+    color: Colors.text,
+    backgroundColor: Colors.card,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  card: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    backgroundColor: Colors.card,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  cardSelected: {
+    borderColor: Colors.primary,
+  },
+  cardLabel: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  cardExpiry: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  addCard: {
+    paddingVertical: Spacing.sm,
+  },
+  addCardText: {
+    ...Typography.body,
+    color: Colors.primary,
+  },
+  empty: {
+    ...Typography.body,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  error: {
+    ...Typography.body,
+    color: Colors.error,
+    marginTop: Spacing.md,
+  },
+  submit: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+    marginTop: Spacing.lg,
+  },
+  submitDisabled: {
+    opacity: 0.5,
   },
-  text: {
-    color: '#f8fafc',
-    fontSize: 18,
+  submitText: {
+    ...Typography.body,
+    color: Colors.background,
+    fontWeight: '600',
   },
 });
 
@@ -1,24 +1,246 @@
-import React from 'react';
-import {View, Text, StyleSheet} from 'react-native';
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  useNavigation,
+  useRoute,
+  type RouteProp,
+} from '@react-navigation/native';
+import type {StackNavigationProp} from '@react-navigation/stack';
+import {useStripe} from '@stripe/stripe-react-native';
+
+import TrackingTimeline from '../../components/TrackingTimeline';
+import {API_BASE_URL, API_ENDPOINTS} from '../../config/api';
+import {Colors, Spacing, Typography} from '../../constants/Colors';
+import type {RootStackParamList} from '../../navigation/AppNavigator';
+import {useAppSelector} from '../../store/hooks';
+import type {Shipment} from '../../store/slices/ordersSlice';
+
+interface OrderTracking {
+  orderId: string;
+  orderStatus: string;
+  shipments: Shipment[];
+}
+
+const ORDER_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  confirmed: 'Confirmed',
+  processing: 'Preparing your order',
+  partially_shipped: 'Partially shipped',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  returned: 'Returned',
+  refunded: 'Refunded',
+};
+
+// The return window itself is checked on the return screen
+const RETURNABLE_STATUSES = ['partially_shipped', 'shipped', 'delivered'];
 
 const OrderDetailScreen: React.FC = () => {
+  const route = useRoute<RouteProp<RootStackParamList, 'OrderDetail'>>();
+  const navigation =
+    useNavigation<StackNavigationProp<RootStackParamList, 'OrderDetail'>>();
+  const {orderId} = route.params;
+
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isReordering, setIsReordering] = useState(false);
+  const token = useAppSelector(state => state.auth.token);
+  const {handleNextAction} = useStripe();
+
+  const loadTracking = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(
+        `${API_BASE_URL}${API_ENDPOINTS.ORDER_TRACKING(orderId)}`,
+        {headers: {Authorization: `Bearer ${token}`}},
+      );
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      setTracking(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tracking');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orderId, token]);
+
+  useEffect(() => {
+    loadTracking();
+  }, [loadTracking]);
+
+  // Same items at today's prices, charged to the default saved card
+  const buyAgain = async () => {
+    try {
+      setIsReordering(true);
+      const response = await fetch(
+        `${API_BASE_URL}${API_ENDPOINTS.ORDER_REORDER(orderId)}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({}),
+        },
+      );
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      if (result.data.status === 'requires_action') {
+        const action = await handleNextAction(result.data.clientSecret);
+        if (action.error) {
+          throw new Error(action.error.message);
+        }
+      }
+
+      navigation.push('OrderDetail', {orderId: result.data.orderId});
+    } catch (err) {
+      Alert.alert(
+        'Could not place order',
+        err instanceof Error ? err.message : 'Please try again',
+      );
+    } finally {
+      setIsReordering(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={Colors.primary} />
+      </View>
+    );
+  }
+
   return (
-    <View style={styles.container}>
-      <Text style={styles.text}>Order Detail Placeholder</Text>
-    </View>
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl refreshing={false} onRefresh={loadTracking} />
+      }>
+      <Text style={styles.title}>Order {orderId}</Text>
+
+      {error ? (
+        <Text style={styles.error}>{error}</Text>
+      ) : (
+        tracking && (
+          <>
+            <Text style={styles.status}>
+              {ORDER_STATUS_LABELS[tracking.orderStatus] || tracking.orderStatus}
+            </Text>
+
+            {tracking.shipments.length === 0 ? (
+              <Text style={styles.empty}>
+                Tracking details will appear here once your order has been
+                handed to the carrier.
+              </Text>
+            ) : (
+              tracking.shipments.map(shipment => (
+                <TrackingTimeline
+                  key={shipment.id}
+                  shipment={shipment}
+                />
+              ))
+            )}
+
+            {RETURNABLE_STATUSES.includes(tracking.orderStatus) && (
+              <TouchableOpacity
+                style={styles.returnButton}
+                onPress={() => navigation.navigate('ReturnRequest', {orderId})}>
+                <Text style={styles.returnButtonText}>Request a return</Text>
+              </TouchableOpacity>
+            )}
+
+            {token && (
+              <TouchableOpacity
+                style={styles.reorderButton}
+                onPress={buyAgain}
+                disabled={isReordering}>
+                {isReordering ? (
+                  <ActivityIndicator color={Colors.background} />
+                ) : (
+                  <Text style={styles.reorderButtonText}>Buy again</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </>
+        )
+      )}
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  centered: {
     flex: 1,
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: '#0f172a',
+    backgroundColor: Colors.surface,
+  },
+  title: {
+    ...Typography.h2,
+    color: Colors.text,
+    marginBottom: Spacing.xs,
+  },
+  status: {
+    ...Typography.body,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.lg,
+  },
+  empty: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  error: {
+    ...Typography.body,
+    color: Colors.error,
+  },
+  returnButton: {
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderRadius: 8,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+    marginTop: Spacing.lg,
+  },
+  returnButtonText: {
+    ...Typography.body,
+    color: Colors.primary,
+  },
+  reorderButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingVertical: Spacing.sm,
+    alignItems: 'center',
+    marginTop: Spacing.sm,
   },
-  text: {
-    color: '#f8fafc',
-    fontSize: 18,
+  reorderButtonText: {
+    ...Typography.body,
+    color: Colors.background,
   },
 });
 
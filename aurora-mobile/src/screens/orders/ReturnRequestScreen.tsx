@@ -0,0 +1,434 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  useNavigation,
+  useRoute,
+  type RouteProp,
+} from '@react-navigation/native';
+import type {StackNavigationProp} from '@react-navigation/stack';
+import {launchImageLibrary, type Asset} from 'react-native-image-picker';
+
+import {API_BASE_URL, API_ENDPOINTS} from '../../config/api';
+import {Colors, Spacing, Typography} from '../../constants/Colors';
+import type {RootStackParamList} from '../../navigation/AppNavigator';
+import {useAppSelector} from '../../store/hooks';
+
+type ReturnReason =
+  | 'damaged'
+  | 'defective'
+  | 'wrong_item'
+  | 'not_as_described'
+  | 'no_longer_needed'
+  | 'other';
+
+interface ReturnableItem {
+  productId: string;
+  name: string;
+  returnableQuantity: number;
+}
+
+interface ReturnEligibility {
+  eligible: boolean;
+  reason?: string;
+  returnBy?: string;
+  items: ReturnableItem[];
+}
+
+const REASONS: Array<{id: ReturnReason; label: string}> = [
+  {id: 'damaged', label: 'Arrived damaged'},
+  {id: 'defective', label: "Defective or doesn't work"},
+  {id: 'wrong_item', label: 'Wrong item sent'},
+  {id: 'not_as_described', label: 'Not as described'},
+  {id: 'no_longer_needed', label: 'No longer needed'},
+  {id: 'other', label: 'Other'},
+];
+
+const MAX_PHOTOS = 5;
+
+const ReturnRequestScreen: React.FC = () => {
+  const route = useRoute<RouteProp<RootStackParamList, 'ReturnRequest'>>();
+  const navigation =
+    useNavigation<StackNavigationProp<RootStackParamList, 'ReturnRequest'>>();
+  const {orderId} = route.params;
+
+  const [eligibility, setEligibility] = useState<ReturnEligibility | null>(
+    null,
+  );
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reasons, setReasons] = useState<Record<string, ReturnReason>>({});
+  const [comments, setComments] = useState('');
+  const [photos, setPhotos] = useState<Asset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const token = useAppSelector(state => state.auth.token);
+
+  const loadEligibility = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}${API_ENDPOINTS.ORDER_RETURNS(orderId)}`,
+        {headers: {Authorization: `Bearer ${token}`}},
+      );
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      setEligibility(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load order');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orderId, token]);
+
+  useEffect(() => {
+    loadEligibility();
+  }, [loadEligibility]);
+
+  const changeQuantity = (item: ReturnableItem, delta: number) => {
+    setQuantities(current => ({
+      ...current,
+      [item.productId]: Math.min(
+        item.returnableQuantity,
+        Math.max(0, (current[item.productId] || 0) + delta),
+      ),
+    }));
+  };
+
+  const addPhotos = async () => {
+    const result = await launchImageLibrary({
+      mediaType: 'photo',
+      selectionLimit: MAX_PHOTOS - photos.length,
+      quality: 0.7,
+    });
+    if (result.assets) {
+      setPhotos(current => [...current, ...result.assets!].slice(0, MAX_PHOTOS));
+    }
+  };
+
+  const submitReturn = async () => {
+    const items = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([productId, quantity]) => ({
+        productId,
+        quantity,
+        reason: reasons[productId] || 'no_longer_needed',
+      }));
+
+    if (items.length === 0) {
+      setError('Choose at least one item to return');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const form = new FormData();
+      form.append('items', JSON.stringify(items));
+      if (comments) {
+        form.append('comments', comments);
+      }
+      photos.forEach(photo => {
+        form.append('photos', {
+          uri: photo.uri,
+          name: photo.fileName || 'photo.jpg',
+          type: photo.type || 'image/jpeg',
+        } as any);
+      });
+
+      const response = await fetch(
+        `${API_BASE_URL}${API_ENDPOINTS.ORDER_RETURNS(orderId)}`,
+        {
+          method: 'POST',
+          headers: {Authorization: `Bearer ${token}`},
+          body: form,
+        },
+      );
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      Alert.alert(
+        'Return requested',
+        `We'll email your return label for ${result.data.rma_number} once it's approved.`,
+      );
+      navigation.goBack();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request return');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={Colors.primary} />
+      </View>
+    );
+  }
+
+  if (!eligibility?.eligible) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.empty}>
+          {error || eligibility?.reason || 'This order cannot be returned'}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Return items</Text>
+      {eligibility.returnBy && (
+        <Text style={styles.subtitle}>
+          Return by {new Date(eligibility.returnBy).toLocaleDateString()}
+        </Text>
+      )}
+
+      {eligibility.items
+        .filter(item => item.returnableQuantity > 0)
+        .map(item => (
+          <View key={item.productId} style={styles.item}>
+            <View style={styles.itemRow}>
+              <Text style={styles.itemName}>{item.name}</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity onPress={() => changeQuantity(item, -1)}>
+                  <Text style={styles.stepperButton}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperValue}>
+                  {quantities[item.productId] || 0}
+                </Text>
+                <TouchableOpacity onPress={() => changeQuantity(item, 1)}>
+                  <Text style={styles.stepperButton}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            {(quantities[item.productId] || 0) > 0 && (
+              <View style={styles.reasons}>
+                {REASONS.map(reason => {
+                  const selected =
+                    (reasons[item.productId] || 'no_longer_needed') ===
+                    reason.id;
+                  return (
+                    <TouchableOpacity
+                      key={reason.id}
+                      style={[styles.reason, selected && styles.reasonSelected]}
+                      onPress={() =>
+                        setReasons(current => ({
+                          ...current,
+                          [item.productId]: reason.id,
+                        }))
+                      }>
+                      <Text
+                        style={[
+                          styles.reasonText,
+                          selected && styles.reasonTextSelected,
+                        ]}>
+                        {reason.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </View>
+        ))}
+
+      <TextInput
+        style={styles.comments}
+        placeholder="Anything else we should know?"
+        placeholderTextColor={Colors.textLight}
+        value={comments}
+        onChangeText={setComments}
+        multiline
+      />
+
+      <View style={styles.photos}>
+        {photos.map(photo => (
+          <Image key={photo.uri} source={{uri: photo.uri}} style={styles.photo} />
+        ))}
+        {photos.length < MAX_PHOTOS && (
+          <TouchableOpacity style={styles.addPhoto} onPress={addPhotos}>
+            <Text style={styles.addPhotoText}>+ Photo</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <TouchableOpacity
+        style={[styles.submit, isSubmitting && styles.submitDisabled]}
+        onPress={submitReturn}
+        disabled={isSubmitting}>
+        {isSubmitting ? (
+          <ActivityIndicator color={Colors.background} />
+        ) : (
+          <Text style={styles.submitText}>Submit return request</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.lg,
+    backgroundColor: Colors.surface,
+  },
+  title: {
+    ...Typography.h2,
+    color: Colors.text,
+  },
+  subtitle: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.lg,
+  },
+  item: {
+    backgroundColor: Colors.card,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  itemName: {
+    ...Typography.body,
+    color: Colors.text,
+    flex: 1,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    ...Typography.h3,
+    color: Colors.primary,
+    paddingHorizontal: Spacing.sm,
+  },
+  stepperValue: {
+    ...Typography.body,
+    color: Colors.text,
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  reasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: Spacing.sm,
+  },
+  reason: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 16,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    marginRight: Spacing.xs,
+    marginBottom: Spacing.xs,
+  },
+  reasonSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  reasonText: {
+    ...Typography.small,
+    color: Colors.textSecondary,
+  },
+  reasonTextSelected: {
+    color: Colors.background,
+  },
+  comments: {
+    ...Typography.body,
+    backgroundColor: Colors.card,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: Spacing.sm,
+    minHeight: 80,
+    color: Colors.text,
+    marginTop: Spacing.md,
+  },
+  photos: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: Spacing.md,
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    marginRight: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  addPhoto: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addPhotoText: {
+    ...Typography.small,
+    color: Colors.textSecondary,
+  },
+  empty: {
+    ...Typography.body,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  error: {
+    ...Typography.caption,
+    color: Colors.error,
+    marginTop: Spacing.sm,
+  },
+  submit: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+    marginTop: Spacing.lg,
+  },
+  submitDisabled: {
+    opacity: 0.6,
+  },
+  submitText: {
+    ...Typography.body,
+    fontWeight: '600',
+    color: Colors.background,
+  },
+});
+
+export default ReturnRequestScreen;
@@ -1,24 +1,304 @@
-import React from 'react';
-import {View, Text, StyleSheet} from 'react-native';
+import React, {useEffect, useState} from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useRoute, type RouteProp} from '@react-navigation/native';
+
+import {Colors, Spacing, Typography} from '../../constants/Colors';
+import type {RootStackParamList} from '../../navigation/AppNavigator';
+import {useAppDispatch, useAppSelector} from '../../store/hooks';
+import {addToCart, syncAddToCart} from '../../store/slices/cartSlice';
+import {
+  clearCurrentProduct,
+  fetchProductById,
+  type Product,
+  type ProductVariant,
+} from '../../store/slices/productsSlice';
+
+type Selection = Record<string, string>;
+
+// Same rules as productVariants.ts in the web app
+const findVariant = (
+  product: Product,
+  selection: Selection,
+): ProductVariant | null => {
+  const options = product.options || [];
+  if (options.some(option => !selection[option.name])) {
+    return null;
+  }
+  return (
+    product.variants?.find(variant =>
+      options.every(
+        option => variant.options[option.name] === selection[option.name],
+      ),
+    ) || null
+  );
+};
+
+const isValueAvailable = (
+  product: Product,
+  selection: Selection,
+  optionName: string,
+  value: string,
+) =>
+  (product.variants || []).some(
+    variant =>
+      variant.stock > 0 &&
+      variant.options[optionName] === value &&
+      Object.entries(selection).every(
+        ([name, selected]) =>
+          name === optionName || !selected || variant.options[name] === selected,
+      ),
+  );
+
+const variantTitle = (product: Product, variant: ProductVariant) =>
+  (product.options || [])
+    .map(option => variant.options[option.name])
+    .filter(Boolean)
+    .join(' / ');
+
+// Opens on the first variant in stock
+const defaultSelection = (product: Product): Selection => {
+  const variants = product.variants || [];
+  const variant = variants.find(current => current.stock > 0) || variants[0];
+  return variant ? {...variant.options} : {};
+};
 
 const ProductDetailScreen: React.FC = () => {
+  const route = useRoute<RouteProp<RootStackParamList, 'ProductDetail'>>();
+  const {productId} = route.params;
+  const dispatch = useAppDispatch();
+  const {currentProduct: product, isLoading, error} = useAppSelector(
+    state => state.products,
+  );
+
+  const [selection, setSelection] = useState<Selection>({});
+
+  useEffect(() => {
+    dispatch(fetchProductById(productId));
+    return () => {
+      dispatch(clearCurrentProduct());
+    };
+  }, [dispatch, productId]);
+
+  useEffect(() => {
+    if (product) {
+      setSelection(defaultSelection(product));
+    }
+  }, [product]);
+
+  if (!product) {
+    return (
+      <View style={styles.centered}>
+        {isLoading ? (
+          <ActivityIndicator color={Colors.primary} />
+        ) : (
+          <Text style={styles.error}>{error || 'Product not found'}</Text>
+        )}
+      </View>
+    );
+  }
+
+  const hasVariants = !!product.variants && product.variants.length > 0;
+  const variant = hasVariants ? findVariant(product, selection) : null;
+  const price = variant ? variant.price : product.price;
+  const stock = variant ? variant.stock : product.stock;
+  const unavailable = hasVariants && !variant;
+  const soldOut = unavailable || stock <= 0;
+
+  const handleAddToCart = () => {
+    dispatch(
+      addToCart({
+        productId: product.id,
+        variantId: variant?.id,
+        variantTitle: variant ? variantTitle(product, variant) : undefined,
+        name: product.name,
+        price,
+        quantity: 1,
+        imageUrl: variant?.imageUrl || product.imageUrl,
+      }),
+    );
+    dispatch(
+      syncAddToCart({productId: product.id, variantId: variant?.id, quantity: 1}),
+    );
+  };
+
   return (
-    <View style={styles.container}>
-      <Text style={styles.text}>Product Detail Placeholder</Text>
-    </View>
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Image
+        source={{uri: variant?.imageUrl || product.imageUrl}}
+        style={styles.image}
+      />
+      <Text style={styles.name}>{product.name}</Text>
+      <Text style={styles.description}>{product.description}</Text>
+
+      {(product.options || []).map(option => (
+        <View key={option.name} style={styles.option}>
+          <Text style={styles.optionLabel}>
+            {option.name}: {selection[option.name] || 'Choose'}
+          </Text>
+          <View style={styles.chips}>
+            {option.values.map(value => {
+              const selected = selection[option.name] === value;
+              const available = isValueAvailable(
+                product,
+                selection,
+                option.name,
+                value,
+              );
+              return (
+                <TouchableOpacity
+                  key={value}
+                  onPress={() =>
+                    setSelection(current => ({...current, [option.name]: value}))
+                  }
+                  style={[styles.chip, selected && styles.chipSelected]}>
+                  <Text
+                    style={[
+                      styles.chipText,
+                      selected && styles.chipTextSelected,
+                      !available && styles.chipTextUnavailable,
+                    ]}>
+                    {value}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+
+      {unavailable ? (
+        <Text style={styles.meta}>This combination isn't available</Text>
+      ) : (
+        <>
+          <Text style={styles.price}>${price.toFixed(2)}</Text>
+          <Text style={[styles.meta, stock <= 0 && styles.outOfStock]}>
+            {stock > 10
+              ? 'In stock'
+              : stock > 0
+              ? `Only ${stock} left`
+              : 'Out of stock'}
+            {variant ? ` · SKU ${variant.sku}` : ''}
+          </Text>
+        </>
+      )}
+
+      <TouchableOpacity
+        style={[styles.button, soldOut && styles.buttonDisabled]}
+        onPress={handleAddToCart}
+        disabled={soldOut}>
+        <Text style={styles.buttonText}>
+          {soldOut ? 'Out of stock' : 'Add to cart'}
+        </Text>
+      </TouchableOpacity>
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  centered: {
     flex: 1,
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: '#0f172a',
+    backgroundColor: Colors.surface,
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 1,
+    borderRadius: 8,
+    marginBottom: Spacing.md,
+  },
+  name: {
+    ...Typography.h2,
+    color: Colors.text,
+  },
+  description: {
+    ...Typography.body,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+  option: {
+    marginTop: Spacing.md,
+  },
+  optionLabel: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 16,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    marginRight: Spacing.xs,
+    marginBottom: Spacing.xs,
+    backgroundColor: Colors.card,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.background,
+  },
+  chipTextUnavailable: {
+    textDecorationLine: 'line-through',
+    opacity: 0.5,
+  },
+  price: {
+    ...Typography.h2,
+    color: Colors.success,
+    marginTop: Spacing.md,
+  },
+  meta: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginTop: Spacing.xs,
+  },
+  outOfStock: {
+    color: Colors.error,
+  },
+  button: {
+    backgroundColor: Colors.primary,
+    borderRadius: 8,
+    paddingVertical: Spacing.md,
+    alignItems: 'center',
+    marginTop: Spacing.lg,
+  },
+  buttonDisabled: {
+    backgroundColor: Colors.textLight,
+  },
+  buttonText: {
+    ...Typography.body,
+    color: Colors.background,
+    fontWeight: '600',
   },
-  text: {
-    color: '#f8fafc',
-    fontSize: 18,
+  error: {
+    ...Typography.body,
+    color: Colors.error,
   },
 });
 
@@ -1,10 +1,256 @@
-import React from 'react';
-import {View, Text, StyleSheet} from 'react-native';
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useNavigation} from '@react-navigation/native';
+import type {StackNavigationProp} from '@react-navigation/stack';
+
+import {Colors, Spacing, Typography} from '../../constants/Colors';
+import type {RootStackParamList} from '../../navigation/AppNavigator';
+import {useAppDispatch, useAppSelector} from '../../store/hooks';
+import {
+  DEFAULT_PRICE_RANGE,
+  clearSearchResults,
+  recordSearchClick,
+  searchProducts,
+  setFilters,
+  type FacetCount,
+  type HighlightSegment,
+  type Product,
+  type SearchSort,
+} from '../../store/slices/productsSlice';
+
+const SEARCH_DELAY_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+const SORT_OPTIONS: Array<{value: SearchSort; label: string}> = [
+  {value: 'relevance', label: 'Best match'},
+  {value: 'price_asc', label: 'Price ↑'},
+  {value: 'price_desc', label: 'Price ↓'},
+  {value: 'newest', label: 'Newest'},
+  {value: 'rating', label: 'Top rated'},
+];
+
+// Price facet values are "<min>-<max>", max empty for the top bucket
+const toPriceRange = (value: string): [number, number] => {
+  const [min, max] = value.split('-');
+  return [Number(min), max ? Number(max) : DEFAULT_PRICE_RANGE[1]];
+};
+
+const Highlighted: React.FC<{segments: HighlightSegment[]}> = ({segments}) => (
+  <>
+    {segments.map((segment, index) => (
+      <Text
+        key={index}
+        style={segment.highlight ? styles.highlight : undefined}>
+        {segment.text}
+      </Text>
+    ))}
+  </>
+);
 
 const SearchScreen: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const navigation =
+    useNavigation<StackNavigationProp<RootStackParamList, 'Search'>>();
+  const {
+    searchResults,
+    searchHighlights,
+    searchFacets,
+    searchTotal,
+    filters,
+    isLoading,
+    error,
+  } = useAppSelector(state => state.products);
+
+  const [query, setQuery] = useState('');
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Search again when the query (debounced) or a filter changes
+  useEffect(() => {
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+    if (query.trim().length < MIN_QUERY_LENGTH) {
+      dispatch(clearSearchResults());
+      return;
+    }
+    debounceRef.current = setTimeout(() => {
+      dispatch(searchProducts(query.trim()));
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      if (debounceRef.current) {
+        clearTimeout(debounceRef.current);
+      }
+    };
+  }, [dispatch, query, filters]);
+
+  const toggleCategory = (facet: FacetCount) =>
+    dispatch(
+      setFilters({
+        category: filters.category === facet.value ? '' : facet.value,
+      }),
+    );
+
+  const togglePrice = (facet: FacetCount) => {
+    const range = toPriceRange(facet.value);
+    const selected =
+      filters.priceRange[0] === range[0] && filters.priceRange[1] === range[1];
+    dispatch(setFilters({priceRange: selected ? DEFAULT_PRICE_RANGE : range}));
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, selected && styles.chipSelected]}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const openProduct = (product: Product, position: number) => {
+    dispatch(recordSearchClick({productId: product.id, position}));
+    navigation.navigate('ProductDetail', {productId: product.id});
+  };
+
+  const renderProduct = ({item, index}: {item: Product; index: number}) => {
+    const highlights = searchHighlights[item.id];
+    return (
+      <TouchableOpacity
+        style={styles.result}
+        onPress={() => openProduct(item, index + 1)}>
+        <Image source={{uri: item.imageUrl}} style={styles.image} />
+        <View style={styles.resultText}>
+          <Text style={styles.name} numberOfLines={1}>
+            {highlights ? <Highlighted segments={highlights.name} /> : item.name}
+          </Text>
+          <Text style={styles.snippet} numberOfLines={2}>
+            {highlights ? (
+              <Highlighted segments={highlights.description} />
+            ) : (
+              item.description
+            )}
+          </Text>
+          <Text style={styles.meta}>
+            ${item.price.toFixed(2)}
+            {item.reviews > 0 ? ` · ★ ${item.rating} (${item.reviews})` : ''}
+            {item.stock <= 0 ? ' · Out of stock' : ''}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const showFacets = !!searchFacets && query.trim().length >= MIN_QUERY_LENGTH;
+
   return (
     <View style={styles.container}>
-      <Text style={styles.text}>Search Screen Placeholder</Text>
+      <TextInput
+        style={styles.input}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search products"
+        placeholderTextColor={Colors.textLight}
+        autoCorrect={false}
+        autoFocus
+        returnKeyType="search"
+        clearButtonMode="while-editing"
+      />
+
+      {showFacets && searchFacets && (
+        <View style={styles.facets}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {SORT_OPTIONS.map(option =>
+              renderChip(
+                option.value,
+                option.label,
+                filters.sort === option.value,
+                () => dispatch(setFilters({sort: option.value})),
+              ),
+            )}
+          </ScrollView>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {searchFacets.category.map(facet =>
+              renderChip(
+                `category-${facet.value}`,
+                `${facet.label} (${facet.count})`,
+                filters.category === facet.value,
+                () => toggleCategory(facet),
+              ),
+            )}
+            {searchFacets.price.map(facet =>
+              renderChip(
+                `price-${facet.value}`,
+                `${facet.label} (${facet.count})`,
+                filters.priceRange[0] === toPriceRange(facet.value)[0] &&
+                  filters.priceRange[1] === toPriceRange(facet.value)[1],
+                () => togglePrice(facet),
+              ),
+            )}
+            {searchFacets.rating[0] &&
+              renderChip(
+                'rating',
+                `${searchFacets.rating[0].label} (${searchFacets.rating[0].count})`,
+                filters.rating > 0,
+                () =>
+                  dispatch(
+                    setFilters({
+                      rating:
+                        filters.rating > 0
+                          ? 0
+                          : Number(searchFacets.rating[0].value),
+                    }),
+                  ),
+              )}
+            {renderChip(
+              'in-stock',
+              `In stock (${searchFacets.inStock})`,
+              filters.inStock,
+              () => dispatch(setFilters({inStock: !filters.inStock})),
+            )}
+          </ScrollView>
+          <Text style={styles.total}>
+            {searchTotal} result{searchTotal !== 1 ? 's' : ''}
+          </Text>
+        </View>
+      )}
+
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <FlatList
+        data={searchResults}
+        keyExtractor={item => item.id}
+        renderItem={renderProduct}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator color={Colors.primary} style={styles.loading} />
+          ) : query.trim().length >= MIN_QUERY_LENGTH ? (
+            <Text style={styles.empty}>
+              No products found for "{query.trim()}"
+            </Text>
+          ) : (
+            <Text style={styles.empty}>Type at least two letters to search</Text>
+          )
+        }
+      />
     </View>
   );
 };
@@ -12,13 +258,98 @@ const SearchScreen: React.FC = () => {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    alignItems: 'center',
-    justifyContent: 'center',
-    backgroundColor: '#0f172a',
+    backgroundColor: Colors.surface,
+  },
+  input: {
+    ...Typography.body,
+    color: Colors.text,
+    backgroundColor: Colors.card,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    margin: Spacing.md,
+  },
+  facets: {
+    paddingLeft: Spacing.md,
+    gap: Spacing.sm,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 16,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    marginRight: Spacing.xs,
+    backgroundColor: Colors.card,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    ...Typography.caption,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.background,
+  },
+  total: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  list: {
+    padding: Spacing.md,
+  },
+  result: {
+    flexDirection: 'row',
+    backgroundColor: Colors.card,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  image: {
+    width: 64,
+    height: 64,
+    borderRadius: 6,
+    marginRight: Spacing.sm,
+  },
+  resultText: {
+    flex: 1,
+  },
+  name: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  snippet: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+  },
+  meta: {
+    ...Typography.caption,
+    color: Colors.text,
+    marginTop: Spacing.xs,
+  },
+  highlight: {
+    fontWeight: 'bold',
+    color: Colors.primaryDark,
+  },
+  error: {
+    ...Typography.body,
+    color: Colors.error,
+    marginHorizontal: Spacing.md,
+  },
+  empty: {
+    ...Typography.body,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginTop: Spacing.xl,
   },
-  text: {
-    color: '#f8fafc',
-    fontSize: 18,
+  loading: {
+    marginTop: Spacing.xl,
   },
 });
 
@@ -1,24 +1,130 @@
 import React from 'react';
-import {View, Text, StyleSheet} from 'react-native';
+import {ScrollView, StyleSheet, Switch, Text, View} from 'react-native';
+
+import {Colors, Spacing, Typography} from '../../constants/Colors';
+import {useAppDispatch, useAppSelector} from '../../store/hooks';
+import {
+  updateNotificationPreference,
+  type NotificationCategory,
+} from '../../store/slices/notificationsSlice';
+
+const NOTIFICATION_SETTINGS: {
+  category: NotificationCategory;
+  label: string;
+  description: string;
+}[] = [
+  {
+    category: 'order_updates',
+    label: 'Order updates',
+    description: 'Payment confirmations, cancellations, returns and refunds',
+  },
+  {
+    category: 'shipping',
+    label: 'Shipping',
+    description: 'When your order ships, is out for delivery or arrives',
+  },
+  {
+    category: 'back_in_stock',
+    label: 'Back in stock',
+    description: 'Products you asked about are available again',
+  },
+  {
+    category: 'price_drop',
+    label: 'Price drops',
+    description: 'Products you are watching get cheaper',
+  },
+];
 
 const SettingsScreen: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const isAuthenticated = useAppSelector(state => state.auth.isAuthenticated);
+  const {preferences, permissionGranted, error} = useAppSelector(
+    state => state.notifications,
+  );
+
   return (
-    <View style={styles.container}>
-      <Text style={styles.text}>Settings Screen Placeholder</Text>
-    </View>
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Notifications</Text>
+      {!isAuthenticated ? (
+        <Text style={styles.hint}>Sign in to choose which notifications you get.</Text>
+      ) : (
+        <>
+          {!permissionGranted && (
+            <Text style={styles.hint}>
+              Notifications are turned off for this app in your device settings.
+            </Text>
+          )}
+          {NOTIFICATION_SETTINGS.map(setting => (
+            <View key={setting.category} style={styles.row}>
+              <View style={styles.rowText}>
+                <Text style={styles.label}>{setting.label}</Text>
+                <Text style={styles.description}>{setting.description}</Text>
+              </View>
+              <Switch
+                value={preferences[setting.category]}
+                onValueChange={enabled =>
+                  dispatch(
+                    updateNotificationPreference({
+                      category: setting.category,
+                      enabled,
+                    }),
+                  )
+                }
+                trackColor={{false: Colors.border, true: Colors.primary}}
+              />
+            </View>
+          ))}
+          {error && <Text style={styles.error}>{error}</Text>}
+        </>
+      )}
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
     flex: 1,
+    backgroundColor: Colors.surface,
+  },
+  content: {
+    padding: Spacing.md,
+  },
+  title: {
+    ...Typography.h2,
+    color: Colors.text,
+    marginBottom: Spacing.md,
+  },
+  hint: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
+    marginBottom: Spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
     alignItems: 'center',
-    justifyContent: 'center',
-    backgroundColor: '#0f172a',
+    backgroundColor: Colors.card,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
+  label: {
+    ...Typography.body,
+    color: Colors.text,
+  },
+  description: {
+    ...Typography.caption,
+    color: Colors.textSecondary,
   },
-  text: {
-    color: '#f8fafc',
-    fontSize: 18,
+  error: {
+    ...Typography.body,
+    color: Colors.error,
+    marginTop: Spacing.md,
   },
 });
 
@@ -5,8 +5,9 @@ import {
   type ActionReducerMapBuilder,
 } from '@reduxjs/toolkit';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import {API_BASE_URL} from '../../config/api';
+import {API_BASE_URL, API_ENDPOINTS} from '../../config/api';
 import type {Draft} from 'immer';
+import {unregisterPushToken, type NotificationsState} from './notificationsSlice';
 
 interface User {
   id: string;
@@ -15,11 +16,24 @@ interface User {
   avatar?: string;
 }
 
+// What /auth/login, /auth/register and /auth/refresh return. The access
+// token expires at `expiresAt` (Unix seconds); the refresh token gets a new
+// pair and works only once.
+interface AuthSession {
+  user: User;
+  token: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
+  expiresAt: number | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  needsConfirmation: boolean;
   error: string | null;
   biometricEnabled: boolean;
 }
@@ -27,64 +41,139 @@ interface AuthState {
 const initialState: AuthState = {
   user: null,
   token: null,
+  refreshToken: null,
+  expiresAt: null,
   isLoading: false,
   isAuthenticated: false,
+  needsConfirmation: false,
   error: null,
   biometricEnabled: false,
 };
 
+const SESSION_KEYS = ['userToken', 'refreshToken', 'tokenExpiresAt', 'user'];
+
 const getErrorMessage = (error: unknown): string =>
   error instanceof Error ? error.message : 'Unknown error';
 
+const authRequest = async <T>(path: string, body: unknown, fallback: string): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || fallback);
+  }
+  return data as T;
+};
+
+const storeSession = async (session: AuthSession) => {
+  await AsyncStorage.multiSet([
+    ['userToken', session.token],
+    ['refreshToken', session.refreshToken],
+    ['tokenExpiresAt', String(session.expiresAt)],
+    ['user', JSON.stringify(session.user)],
+  ]);
+};
+
+const exchangeRefreshToken = async (refreshToken: string): Promise<AuthSession> => {
+  const session = await authRequest<AuthSession>(
+    API_ENDPOINTS.REFRESH_TOKEN,
+    {refreshToken},
+    'Session expired, please sign in again',
+  );
+  await storeSession(session);
+  return session;
+};
+
 export const loginUser = createAsyncThunk<
-  {user: User; token: string},
+  AuthSession,
   {email: string; password: string},
   {rejectValue: string}
 >(
   'auth/loginUser',
   async (credentials, {rejectWithValue}) => {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(credentials),
-      });
+      const session = await authRequest<AuthSession>(
+        API_ENDPOINTS.LOGIN,
+        credentials,
+        'Login failed',
+      );
+      await storeSession(session);
+      return session;
+    } catch (error) {
+      return rejectWithValue(getErrorMessage(error));
+    }
+  },
+);
 
-      if (!response.ok) {
-        throw new Error('Login failed');
+// Signs the user in straight away, unless the account must be confirmed by
+// email first
+export const registerUser = createAsyncThunk<
+  AuthSession | {user: User; needsConfirmation: true},
+  {email: string; password: string; name?: string},
+  {rejectValue: string}
+>(
+  'auth/registerUser',
+  async (details, {rejectWithValue}) => {
+    try {
+      const result = await authRequest<
+        AuthSession | {user: User; needsConfirmation: true}
+      >(API_ENDPOINTS.REGISTER, details, 'Registration failed');
+      if ('token' in result) {
+        await storeSession(result);
       }
+      return result;
+    } catch (error) {
+      return rejectWithValue(getErrorMessage(error));
+    }
+  },
+);
 
-      const data = (await response.json()) as {user: User; token: string};
-
-      await AsyncStorage.setItem('userToken', data.token);
-      await AsyncStorage.setItem('user', JSON.stringify(data.user));
+// Swaps the refresh token for a new access token; call it when a request
+// comes back 401 or the token is about to expire
+export const refreshSession = createAsyncThunk<
+  AuthSession,
+  void,
+  {state: {auth: AuthState}; rejectValue: string}
+>(
+  'auth/refreshSession',
+  async (_unused, {getState, rejectWithValue}) => {
+    try {
+      const refreshToken =
+        getState().auth.refreshToken ?? (await AsyncStorage.getItem('refreshToken'));
+      if (!refreshToken) {
+        throw new Error('No stored credentials');
+      }
 
-      return data;
+      return await exchangeRefreshToken(refreshToken);
     } catch (error) {
+      await AsyncStorage.multiRemove(SESSION_KEYS);
       return rejectWithValue(getErrorMessage(error));
     }
   },
 );
 
+// After a successful biometric check the stored refresh token is exchanged
+// for a fresh access token, so an expired one is never reused
 export const biometricLogin = createAsyncThunk<
-  {user: User; token: string},
+  AuthSession,
   void,
   {rejectValue: string}
 >(
   'auth/biometricLogin',
   async (_unused, {rejectWithValue}) => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
-      const userStr = await AsyncStorage.getItem('user');
-
-      if (!token || !userStr) {
+      const refreshToken = await AsyncStorage.getItem('refreshToken');
+      if (!refreshToken) {
         throw new Error('No stored credentials');
       }
 
-      const user = JSON.parse(userStr) as User;
-      return {user, token};
+      return await exchangeRefreshToken(refreshToken);
     } catch (error) {
       return rejectWithValue(getErrorMessage(error));
     }
@@ -94,10 +183,12 @@ export const biometricLogin = createAsyncThunk<
 export const logoutUser = createAsyncThunk<
   void,
   void,
-  {rejectValue: string}
->('auth/logoutUser', async (_unused, {rejectWithValue}) => {
+  {state: {auth: AuthState; notifications: NotificationsState}; rejectValue: string}
+>('auth/logoutUser', async (_unused, {dispatch, rejectWithValue}) => {
   try {
-    await AsyncStorage.multiRemove(['userToken', 'user']);
+    // Stop this device getting the user's notifications while the token still works
+    await dispatch(unregisterPushToken());
+    await AsyncStorage.multiRemove(SESSION_KEYS);
   } catch (error) {
     return rejectWithValue(getErrorMessage(error));
   }
@@ -122,6 +213,24 @@ const authSlice = createSlice({
     },
   },
   extraReducers: (builder: ActionReducerMapBuilder<AuthState>) => {
+    const applySession = (state: Draft<AuthState>, session: AuthSession) => {
+      state.user = session.user;
+      state.token = session.token;
+      state.refreshToken = session.refreshToken;
+      state.expiresAt = session.expiresAt;
+      state.isAuthenticated = true;
+      state.needsConfirmation = false;
+      state.error = null;
+    };
+
+    const clearSession = (state: Draft<AuthState>) => {
+      state.user = null;
+      state.token = null;
+      state.refreshToken = null;
+      state.expiresAt = null;
+      state.isAuthenticated = false;
+    };
+
     builder
       .addCase(loginUser.pending, (state) => {
         state.isLoading = true;
@@ -129,26 +238,41 @@ const authSlice = createSlice({
       })
       .addCase(loginUser.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.user = action.payload.user;
-        state.token = action.payload.token;
-        state.isAuthenticated = true;
-        state.error = null;
+        applySession(state, action.payload);
       })
       .addCase(loginUser.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload ?? 'Login failed';
         state.isAuthenticated = false;
       })
-      .addCase(biometricLogin.fulfilled, (state, action) => {
-        state.user = action.payload.user;
-        state.token = action.payload.token;
-        state.isAuthenticated = true;
+      .addCase(registerUser.pending, (state) => {
+        state.isLoading = true;
         state.error = null;
       })
+      .addCase(registerUser.fulfilled, (state, action) => {
+        state.isLoading = false;
+        if ('token' in action.payload) {
+          applySession(state, action.payload);
+        } else {
+          state.needsConfirmation = true;
+        }
+      })
+      .addCase(registerUser.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload ?? 'Registration failed';
+      })
+      .addCase(refreshSession.fulfilled, (state, action) => {
+        applySession(state, action.payload);
+      })
+      .addCase(refreshSession.rejected, (state, action) => {
+        clearSession(state);
+        state.error = action.payload ?? 'Session expired, please sign in again';
+      })
+      .addCase(biometricLogin.fulfilled, (state, action) => {
+        applySession(state, action.payload);
+      })
       .addCase(logoutUser.fulfilled, (state) => {
-        state.user = null;
-        state.token = null;
-        state.isAuthenticated = false;
+        clearSession(state);
         state.error = null;
       })
       .addCase(logoutUser.rejected, (state, action) => {
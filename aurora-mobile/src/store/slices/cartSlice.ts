@@ -1,26 +1,57 @@
 import {
   createSlice,
   createAsyncThunk,
+  isAnyOf,
   PayloadAction,
   type ActionReducerMapBuilder,
 } from '@reduxjs/toolkit';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type {Draft} from 'immer';
+import {API_BASE_URL, API_ENDPOINTS} from '../../config/api';
 
 export interface CartItem {
   id: string;
   productId: string;
+  // Set for products sold in variants (e.g. colour and size)
+  variantId?: string;
+  variantTitle?: string;
   name: string;
   price: number;
   quantity: number;
   imageUrl: string;
 }
 
+// Changes the server made while re-validating prices and stock
+export interface CartAdjustment {
+  productId: string;
+  variantId?: string;
+  name: string;
+  type: 'price_changed' | 'quantity_reduced' | 'removed';
+  previous?: number;
+  current?: number;
+  message: string;
+}
+
+interface ServerCart {
+  items: Array<{
+    productId: string;
+    variantId?: string;
+    variantTitle?: string;
+    name: string;
+    price: number;
+    quantity: number;
+    imageUrl: string;
+  }>;
+  adjustments: CartAdjustment[];
+}
+
 interface CartState {
   items: CartItem[];
   total: number;
   itemCount: number;
+  adjustments: CartAdjustment[];
   isLoading: boolean;
+  isSyncing: boolean;
   error: string | null;
 }
 
@@ -28,10 +59,19 @@ const initialState: CartState = {
   items: [],
   total: 0,
   itemCount: 0,
+  adjustments: [],
   isLoading: false,
+  isSyncing: false,
   error: null,
 };
 
+// Guest carts are keyed by a session id the server hands out on first use
+export const CART_SESSION_KEY = 'cartSession';
+export const CART_SESSION_HEADER = 'x-cart-session';
+
+// Only the token is needed here; importing RootState would be circular
+type AuthTokenState = {auth: {token: string | null}};
+
 const calculateTotal = (items: CartItem[]) =>
   items.reduce((total, item) => total + item.price * item.quantity, 0);
 
@@ -41,6 +81,137 @@ const calculateItemCount = (items: CartItem[]) =>
 const getErrorMessage = (error: unknown): string =>
   error instanceof Error ? error.message : 'Unknown error';
 
+const cartRequest = async (
+  path: string,
+  token: string | null,
+  init: RequestInit = {},
+): Promise<ServerCart> => {
+  const sessionId = await AsyncStorage.getItem(CART_SESSION_KEY);
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? {Authorization: `Bearer ${token}`} : {}),
+      ...(sessionId ? {[CART_SESSION_HEADER]: sessionId} : {}),
+    },
+  });
+
+  const newSessionId = response.headers.get(CART_SESSION_HEADER);
+  if (newSessionId) {
+    await AsyncStorage.setItem(CART_SESSION_KEY, newSessionId);
+  }
+
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || 'Cart request failed');
+  }
+  return result.data as ServerCart;
+};
+
+// The server's prices and quantities replace the local lines
+const applyServerCart = (state: Draft<CartState>, cart: ServerCart) => {
+  state.items = cart.items.map((line) => ({
+    id: line.variantId ? `${line.productId}:${line.variantId}` : line.productId,
+    productId: line.productId,
+    variantId: line.variantId,
+    variantTitle: line.variantTitle,
+    name: line.name,
+    price: line.price,
+    quantity: line.quantity,
+    imageUrl: line.imageUrl,
+  }));
+  state.adjustments = cart.adjustments;
+  state.total = calculateTotal(state.items);
+  state.itemCount = calculateItemCount(state.items);
+};
+
+export const fetchCart = createAsyncThunk<
+  ServerCart,
+  void,
+  {state: AuthTokenState; rejectValue: string}
+>('cart/fetch', async (_unused, {getState, rejectWithValue}) => {
+  try {
+    return await cartRequest(API_ENDPOINTS.CART, getState().auth.token);
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
+export const syncAddToCart = createAsyncThunk<
+  ServerCart,
+  {productId: string; variantId?: string; quantity: number},
+  {state: AuthTokenState; rejectValue: string}
+>('cart/syncAdd', async (item, {getState, rejectWithValue}) => {
+  try {
+    return await cartRequest(API_ENDPOINTS.CART_ITEMS, getState().auth.token, {
+      method: 'POST',
+      body: JSON.stringify(item),
+    });
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
+export const syncUpdateQuantity = createAsyncThunk<
+  ServerCart,
+  {productId: string; variantId?: string; quantity: number},
+  {state: AuthTokenState; rejectValue: string}
+>('cart/syncUpdate', async ({productId, variantId, quantity}, {getState, rejectWithValue}) => {
+  try {
+    return await cartRequest(
+      API_ENDPOINTS.CART_ITEM(productId, variantId),
+      getState().auth.token,
+      {
+        method: quantity > 0 ? 'PATCH' : 'DELETE',
+        body: quantity > 0 ? JSON.stringify({quantity}) : undefined,
+      },
+    );
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
+export const syncClearCart = createAsyncThunk<
+  ServerCart,
+  void,
+  {state: AuthTokenState; rejectValue: string}
+>('cart/syncClear', async (_unused, {getState, rejectWithValue}) => {
+  try {
+    return await cartRequest(API_ENDPOINTS.CART, getState().auth.token, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
+// After sign-in: moves the guest cart (and any offline lines) into the user's cart
+export const mergeGuestCart = createAsyncThunk<
+  ServerCart,
+  void,
+  {state: AuthTokenState & {cart: CartState}; rejectValue: string}
+>('cart/mergeGuest', async (_unused, {getState, rejectWithValue}) => {
+  try {
+    const {auth, cart} = getState();
+    const merged = await cartRequest(API_ENDPOINTS.CART_MERGE, auth.token, {
+      method: 'POST',
+      body: JSON.stringify({
+        items: cart.items.map((item) => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          price: item.price,
+          name: item.name,
+        })),
+      }),
+    });
+    await AsyncStorage.removeItem(CART_SESSION_KEY);
+    return merged;
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
 export const loadCartFromStorage = createAsyncThunk<
   CartItem[],
   void,
@@ -76,7 +247,9 @@ const cartSlice = createSlice({
       action: PayloadAction<Omit<CartItem, 'id'>>,
     ) => {
       const existingItem = state.items.find(
-        (item) => item.productId === action.payload.productId,
+        (item) =>
+          item.productId === action.payload.productId &&
+          (item.variantId || null) === (action.payload.variantId || null),
       );
 
       if (existingItem) {
@@ -115,6 +288,9 @@ const cartSlice = createSlice({
       state.total = 0;
       state.itemCount = 0;
     },
+    dismissAdjustments: (state: Draft<CartState>) => {
+      state.adjustments = [];
+    },
   },
   extraReducers: (builder: ActionReducerMapBuilder<CartState>) => {
     builder
@@ -146,9 +322,57 @@ const cartSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload ?? 'Failed to save cart';
       });
+
+    // Local changes are made first; the server response then replaces them.
+    // When the server can't be reached the local cart is kept as it is.
+    builder
+      .addMatcher(
+        isAnyOf(
+          fetchCart.pending,
+          syncAddToCart.pending,
+          syncUpdateQuantity.pending,
+          syncClearCart.pending,
+          mergeGuestCart.pending,
+        ),
+        (state) => {
+          state.isSyncing = true;
+        },
+      )
+      .addMatcher(
+        isAnyOf(
+          fetchCart.fulfilled,
+          syncAddToCart.fulfilled,
+          syncUpdateQuantity.fulfilled,
+          syncClearCart.fulfilled,
+          mergeGuestCart.fulfilled,
+        ),
+        (state, action) => {
+          state.isSyncing = false;
+          state.error = null;
+          applyServerCart(state, action.payload);
+        },
+      )
+      .addMatcher(
+        isAnyOf(
+          fetchCart.rejected,
+          syncAddToCart.rejected,
+          syncUpdateQuantity.rejected,
+          syncClearCart.rejected,
+          mergeGuestCart.rejected,
+        ),
+        (state, action) => {
+          state.isSyncing = false;
+          state.error = action.payload ?? 'Failed to sync cart';
+        },
+      );
   },
 });
 
-export const {addToCart, removeFromCart, updateQuantity, clearCart} =
-  cartSlice.actions;
+export const {
+  addToCart,
+  removeFromCart,
+  updateQuantity,
+  clearCart,
+  dismissAdjustments,
+} = cartSlice.actions;
 export default cartSlice.reducer;
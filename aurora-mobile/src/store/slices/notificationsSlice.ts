@@ -1,5 +1,12 @@
-import {createSlice, PayloadAction} from '@reduxjs/toolkit';
+import {
+  createSlice,
+  createAsyncThunk,
+  PayloadAction,
+  type ActionReducerMapBuilder,
+} from '@reduxjs/toolkit';
+import {Platform} from 'react-native';
 import type {Draft} from 'immer';
+import {API_BASE_URL, API_ENDPOINTS} from '../../config/api';
 
 export interface Notification {
   id: string;
@@ -11,11 +18,26 @@ export interface Notification {
   data?: Record<string, unknown>;
 }
 
-interface NotificationsState {
+// Categories the server sends push notifications for
+export type NotificationCategory =
+  | 'order_updates'
+  | 'shipping'
+  | 'back_in_stock'
+  | 'price_drop';
+
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+export type ProductAlertType = 'back_in_stock' | 'price_drop';
+
+export interface NotificationsState {
   notifications: Notification[];
   unreadCount: number;
   pushToken: string | null;
   permissionGranted: boolean;
+  // The push token has been stored on the server for the signed-in user
+  registered: boolean;
+  preferences: NotificationPreferences;
+  error: string | null;
 }
 
 const initialState: NotificationsState = {
@@ -23,8 +45,134 @@ const initialState: NotificationsState = {
   unreadCount: 0,
   pushToken: null,
   permissionGranted: false,
+  registered: false,
+  preferences: {
+    order_updates: true,
+    shipping: true,
+    back_in_stock: true,
+    price_drop: true,
+  },
+  error: null,
 };
 
+// Only the token is needed here; importing RootState would be circular
+type AuthTokenState = {auth: {token: string | null}};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const notificationsRequest = async <T>(
+  path: string,
+  token: string | null,
+  init: RequestInit = {},
+): Promise<T> => {
+  if (!token) {
+    throw new Error('Sign in to manage notifications');
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Notification request failed');
+  }
+  return data as T;
+};
+
+export const registerPushToken = createAsyncThunk<
+  void,
+  string,
+  {state: AuthTokenState; rejectValue: string}
+>('notifications/registerPushToken', async (pushToken, {getState, rejectWithValue}) => {
+  try {
+    await notificationsRequest(API_ENDPOINTS.REGISTER_PUSH_TOKEN, getState().auth.token, {
+      method: 'POST',
+      body: JSON.stringify({
+        token: pushToken,
+        platform: Platform.OS === 'ios' ? 'ios' : 'android',
+      }),
+    });
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
+// Call before signing out, while the access token is still valid
+export const unregisterPushToken = createAsyncThunk<
+  void,
+  void,
+  {state: AuthTokenState & {notifications: NotificationsState}; rejectValue: string}
+>('notifications/unregisterPushToken', async (_unused, {getState, rejectWithValue}) => {
+  const {auth, notifications} = getState();
+  if (!auth.token || !notifications.pushToken) {
+    return;
+  }
+
+  try {
+    await notificationsRequest(API_ENDPOINTS.REGISTER_PUSH_TOKEN, auth.token, {
+      method: 'DELETE',
+      body: JSON.stringify({token: notifications.pushToken}),
+    });
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
+export const fetchNotificationPreferences = createAsyncThunk<
+  NotificationPreferences,
+  void,
+  {state: AuthTokenState; rejectValue: string}
+>('notifications/fetchPreferences', async (_unused, {getState, rejectWithValue}) => {
+  try {
+    return await notificationsRequest<NotificationPreferences>(
+      API_ENDPOINTS.NOTIFICATION_PREFERENCES,
+      getState().auth.token,
+    );
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
+// The switch flips straight away and flips back if the server refuses
+export const updateNotificationPreference = createAsyncThunk<
+  NotificationPreferences,
+  {category: NotificationCategory; enabled: boolean},
+  {state: AuthTokenState; rejectValue: string}
+>(
+  'notifications/updatePreference',
+  async ({category, enabled}, {getState, rejectWithValue}) => {
+    try {
+      return await notificationsRequest<NotificationPreferences>(
+        API_ENDPOINTS.NOTIFICATION_PREFERENCES,
+        getState().auth.token,
+        {method: 'PUT', body: JSON.stringify({[category]: enabled})},
+      );
+    } catch (error) {
+      return rejectWithValue(getErrorMessage(error));
+    }
+  },
+);
+
+export const createProductAlert = createAsyncThunk<
+  void,
+  {productId: string; type: ProductAlertType},
+  {state: AuthTokenState; rejectValue: string}
+>('notifications/createProductAlert', async (alert, {getState, rejectWithValue}) => {
+  try {
+    await notificationsRequest(API_ENDPOINTS.PRODUCT_ALERTS, getState().auth.token, {
+      method: 'POST',
+      body: JSON.stringify(alert),
+    });
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
 const notificationsSlice = createSlice({
   name: 'notifications',
   initialState,
@@ -80,6 +228,9 @@ const notificationsSlice = createSlice({
       state: Draft<NotificationsState>,
       action: PayloadAction<string | null>,
     ) => {
+      if (state.pushToken !== action.payload) {
+        state.registered = false;
+      }
       state.pushToken = action.payload;
     },
     setPermissionGranted: (
@@ -89,6 +240,41 @@ const notificationsSlice = createSlice({
       state.permissionGranted = action.payload;
     },
   },
+  extraReducers: (builder: ActionReducerMapBuilder<NotificationsState>) => {
+    builder
+      .addCase(registerPushToken.fulfilled, (state) => {
+        state.registered = true;
+        state.error = null;
+      })
+      .addCase(registerPushToken.rejected, (state, action) => {
+        state.registered = false;
+        state.error = action.payload ?? 'Failed to register for notifications';
+      })
+      .addCase(unregisterPushToken.fulfilled, (state) => {
+        state.registered = false;
+      })
+      .addCase(fetchNotificationPreferences.fulfilled, (state, action) => {
+        state.preferences = action.payload;
+        state.error = null;
+      })
+      .addCase(fetchNotificationPreferences.rejected, (state, action) => {
+        state.error = action.payload ?? 'Failed to load notification settings';
+      })
+      .addCase(updateNotificationPreference.pending, (state, action) => {
+        state.preferences[action.meta.arg.category] = action.meta.arg.enabled;
+      })
+      .addCase(updateNotificationPreference.fulfilled, (state, action) => {
+        state.preferences = action.payload;
+        state.error = null;
+      })
+      .addCase(updateNotificationPreference.rejected, (state, action) => {
+        state.preferences[action.meta.arg.category] = !action.meta.arg.enabled;
+        state.error = action.payload ?? 'Failed to save notification settings';
+      })
+      .addCase(createProductAlert.rejected, (state, action) => {
+        state.error = action.payload ?? 'Failed to create alert';
+      });
+  },
 });
 
 export const {
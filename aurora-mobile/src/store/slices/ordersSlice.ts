@@ -1,5 +1,11 @@
-import {createSlice, PayloadAction} from '@reduxjs/toolkit';
+import {
+  createSlice,
+  createAsyncThunk,
+  PayloadAction,
+  type ActionReducerMapBuilder,
+} from '@reduxjs/toolkit';
 import type {Draft} from 'immer';
+import {API_BASE_URL, API_ENDPOINTS} from '../../config/api';
 
 export interface OrderItem {
   id: string;
@@ -8,20 +14,58 @@ export interface OrderItem {
   price: number;
 }
 
+export type ShipmentStatus =
+  | 'pending'
+  | 'label_created'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception';
+
+export interface TrackingEvent {
+  status: ShipmentStatus;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+}
+
+export interface ShipmentItem {
+  productId: string;
+  name: string;
+  quantity: number;
+}
+
+export interface Shipment {
+  id: string;
+  fulfillmentType: 'physical' | 'digital';
+  carrier: string | null;
+  service: string | null;
+  trackingNumber: string | null;
+  status: ShipmentStatus;
+  items: ShipmentItem[];
+  estimatedDelivery: string | null;
+  events: TrackingEvent[];
+}
+
 export interface Order {
   id: string;
   status:
     | 'pending'
-    | 'confirmed'
+    | 'paid'
     | 'processing'
+    | 'partially_shipped'
     | 'shipped'
     | 'delivered'
-    | 'cancelled';
+    | 'cancelled'
+    | 'returned'
+    | 'refunded';
   total: number;
+  currency: string;
   items: OrderItem[];
   createdAt: string;
   estimatedDelivery?: string;
   trackingNumber?: string;
+  shipments?: Shipment[];
 }
 
 interface OrdersState {
@@ -38,6 +82,58 @@ const initialState: OrdersState = {
   error: null,
 };
 
+// Only the token is needed here; importing RootState would be circular
+type AuthTokenState = {auth: {token: string | null}};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+const ordersRequest = async <T>(path: string, token: string | null): Promise<T> => {
+  if (!token) {
+    throw new Error('Sign in to see your orders');
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    headers: {Authorization: `Bearer ${token}`},
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch orders');
+  }
+  return data as T;
+};
+
+export const fetchOrders = createAsyncThunk<
+  {orders: Order[]},
+  void,
+  {state: AuthTokenState; rejectValue: string}
+>('orders/fetchOrders', async (_unused, {getState, rejectWithValue}) => {
+  try {
+    return await ordersRequest<{orders: Order[]}>(
+      API_ENDPOINTS.ORDERS,
+      getState().auth.token,
+    );
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
+// The order with its shipments and tracking events
+export const fetchOrderById = createAsyncThunk<
+  Order,
+  string,
+  {state: AuthTokenState; rejectValue: string}
+>('orders/fetchOrderById', async (id, {getState, rejectWithValue}) => {
+  try {
+    return await ordersRequest<Order>(
+      API_ENDPOINTS.ORDER_BY_ID(id),
+      getState().auth.token,
+    );
+  } catch (error) {
+    return rejectWithValue(getErrorMessage(error));
+  }
+});
+
 const ordersSlice = createSlice({
   name: 'orders',
   initialState,
@@ -76,6 +172,37 @@ const ordersSlice = createSlice({
       state.error = action.payload;
     },
   },
+  extraReducers: (builder: ActionReducerMapBuilder<OrdersState>) => {
+    builder
+      .addCase(fetchOrders.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchOrders.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.orders = action.payload.orders;
+      })
+      .addCase(fetchOrders.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload ?? 'Failed to fetch orders';
+      })
+      .addCase(fetchOrderById.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchOrderById.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.currentOrder = action.payload;
+        const index = state.orders.findIndex((entry) => entry.id === action.payload.id);
+        if (index >= 0) {
+          state.orders[index] = action.payload;
+        }
+      })
+      .addCase(fetchOrderById.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload ?? 'Failed to fetch order';
+      });
+  },
 });
 
 export const {
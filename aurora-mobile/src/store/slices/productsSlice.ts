@@ -4,9 +4,28 @@ import {
   PayloadAction,
   type ActionReducerMapBuilder,
 } from '@reduxjs/toolkit';
-import {API_BASE_URL} from '../../config/api';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {API_BASE_URL, API_ENDPOINTS} from '../../config/api';
+import {CART_SESSION_HEADER, CART_SESSION_KEY} from './cartSlice';
 import type {Draft} from 'immer';
 
+// e.g. {name: 'Size', values: ['S', 'M', 'L']}
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+// One purchasable combination of option values, with its own SKU, price and stock
+export interface ProductVariant {
+  id: string;
+  sku: string;
+  options: Record<string, string>;
+  price: number;
+  stock: number;
+  imageUrl?: string;
+  images?: string[];
+}
+
 export interface Product {
   id: string;
   name: string;
@@ -18,12 +37,53 @@ export interface Product {
   rating: number;
   reviews: number;
   isActive: boolean;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
+}
+
+export type SearchSort =
+  | 'relevance'
+  | 'price_asc'
+  | 'price_desc'
+  | 'newest'
+  | 'rating';
+
+// A piece of a product name or description; matched words are highlighted
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHighlights {
+  name: HighlightSegment[];
+  description: HighlightSegment[];
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
 }
 
+// Result counts per filter value (see productSearch.ts in the web app)
+export interface SearchFacets {
+  category: FacetCount[];
+  price: FacetCount[];
+  rating: FacetCount[];
+  inStock: number;
+}
+
+export const DEFAULT_PRICE_RANGE: [number, number] = [0, 1000];
+
 interface ProductsState {
   products: Product[];
   featuredProducts: Product[];
   searchResults: Product[];
+  searchHighlights: Record<string, SearchHighlights>;
+  searchFacets: SearchFacets | null;
+  searchTotal: number;
+  // Id of the logged search, sent back with result taps
+  searchId: string | null;
   currentProduct: Product | null;
   isLoading: boolean;
   error: string | null;
@@ -32,6 +92,8 @@ interface ProductsState {
     category: string;
     priceRange: [number, number];
     rating: number;
+    inStock: boolean;
+    sort: SearchSort;
   };
 }
 
@@ -42,20 +104,37 @@ interface ProductsResponse {
 
 interface SearchResponse {
   products?: Product[];
+  highlights?: Record<string, SearchHighlights>;
+  facets?: SearchFacets;
+  total?: number;
+  searchId?: string | null;
 }
 
+// Only the search filters and the token are needed here; importing
+// RootState would be circular
+type SearchRequestState = {
+  products: Pick<ProductsState, 'filters' | 'searchId'>;
+  auth: {token: string | null};
+};
+
 const initialState: ProductsState = {
   products: [],
   featuredProducts: [],
   searchResults: [],
+  searchHighlights: {},
+  searchFacets: null,
+  searchTotal: 0,
+  searchId: null,
   currentProduct: null,
   isLoading: false,
   error: null,
   searchQuery: '',
   filters: {
     category: '',
-    priceRange: [0, 1000],
+    priceRange: DEFAULT_PRICE_RANGE,
     rating: 0,
+    inStock: false,
+    sort: 'relevance',
   },
 };
 
@@ -79,6 +158,16 @@ const serializeParams = (
 const getErrorMessage = (error: unknown): string =>
   error instanceof Error ? error.message : 'Unknown error';
 
+const getSearcherHeaders = async (
+  token: string | null,
+): Promise<Record<string, string>> => {
+  const sessionId = await AsyncStorage.getItem(CART_SESSION_KEY);
+  return {
+    ...(token ? {Authorization: `Bearer ${token}`} : {}),
+    ...(sessionId ? {[CART_SESSION_HEADER]: sessionId} : {}),
+  };
+};
+
 export const fetchProducts = createAsyncThunk<
   ProductsResponse,
   {category?: string; limit?: number} | undefined,
@@ -87,8 +176,8 @@ export const fetchProducts = createAsyncThunk<
   try {
     const query = serializeParams(params);
     const url = query
-      ? `${API_BASE_URL}/products?${query}`
-      : `${API_BASE_URL}/products`;
+      ? `${API_BASE_URL}${API_ENDPOINTS.PRODUCTS}?${query}`
+      : `${API_BASE_URL}${API_ENDPOINTS.PRODUCTS}`;
 
     const response = await fetch(url);
     if (!response.ok) {
@@ -100,14 +189,43 @@ export const fetchProducts = createAsyncThunk<
   }
 });
 
+const serializeSearchParams = (
+  query: string,
+  filters: ProductsState['filters'],
+): string => {
+  const searchParams = new URLSearchParams();
+  searchParams.set('q', query);
+  searchParams.set('sort', filters.sort);
+  if (filters.category) {
+    searchParams.set('category', filters.category);
+  }
+  if (filters.priceRange[0] > DEFAULT_PRICE_RANGE[0]) {
+    searchParams.set('minPrice', String(filters.priceRange[0]));
+  }
+  if (filters.priceRange[1] < DEFAULT_PRICE_RANGE[1]) {
+    searchParams.set('maxPrice', String(filters.priceRange[1]));
+  }
+  if (filters.rating > 0) {
+    searchParams.set('minRating', String(filters.rating));
+  }
+  if (filters.inStock) {
+    searchParams.set('inStock', 'true');
+  }
+  return searchParams.toString();
+};
+
+// Searches with the current filters
 export const searchProducts = createAsyncThunk<
   SearchResponse,
   string,
-  {rejectValue: string}
->('products/searchProducts', async (query, {rejectWithValue}) => {
+  {state: SearchRequestState; rejectValue: string}
+>('products/searchProducts', async (query, {getState, rejectWithValue}) => {
   try {
+    const params = serializeSearchParams(query, getState().products.filters);
+    // Who searched, so search analytics can match the search to an order
     const response = await fetch(
-      `${API_BASE_URL}/products/search?q=${encodeURIComponent(query)}`,
+      `${API_BASE_URL}${API_ENDPOINTS.SEARCH_PRODUCTS}?${params}`,
+      {headers: await getSearcherHeaders(getState().auth.token)},
     );
     if (!response.ok) {
       throw new Error('Failed to search products');
@@ -118,13 +236,34 @@ export const searchProducts = createAsyncThunk<
   }
 });
 
+// Tells search analytics which result was tapped; failures are ignored
+export const recordSearchClick = createAsyncThunk<
+  void,
+  {productId: string; position: number},
+  {state: SearchRequestState}
+>('products/recordSearchClick', async ({productId, position}, {getState}) => {
+  const {searchId} = getState().products;
+  if (!searchId) {
+    return;
+  }
+  try {
+    await fetch(`${API_BASE_URL}${API_ENDPOINTS.SEARCH_CLICK}`, {
+      method: 'POST',
+      headers: {'Content-Type': 'application/json'},
+      body: JSON.stringify({searchId, productId, position}),
+    });
+  } catch {
+    // Analytics only
+  }
+});
+
 export const fetchProductById = createAsyncThunk<
   Product,
   string,
   {rejectValue: string}
 >('products/fetchProductById', async (id, {rejectWithValue}) => {
   try {
-    const response = await fetch(`${API_BASE_URL}/products/${id}`);
+    const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.PRODUCT_BY_ID(id)}`);
     if (!response.ok) {
       throw new Error('Failed to fetch product');
     }
@@ -140,6 +279,10 @@ const productsSlice = createSlice({
   reducers: {
     clearSearchResults: (state: Draft<ProductsState>) => {
       state.searchResults = [];
+      state.searchHighlights = {};
+      state.searchFacets = null;
+      state.searchTotal = 0;
+      state.searchId = null;
       state.searchQuery = '';
     },
     setSearchQuery: (state: Draft<ProductsState>, action: PayloadAction<string>) => {
@@ -170,13 +313,22 @@ const productsSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload ?? 'Failed to fetch products';
       })
-      .addCase(searchProducts.pending, (state) => {
+      .addCase(searchProducts.pending, (state, action) => {
         state.isLoading = true;
         state.error = null;
+        state.searchQuery = action.meta.arg;
       })
       .addCase(searchProducts.fulfilled, (state, action) => {
+        // A slower response for an earlier query
+        if (action.meta.arg !== state.searchQuery) {
+          return;
+        }
         state.isLoading = false;
         state.searchResults = action.payload.products ?? [];
+        state.searchHighlights = action.payload.highlights ?? {};
+        state.searchFacets = action.payload.facets ?? null;
+        state.searchTotal = action.payload.total ?? 0;
+        state.searchId = action.payload.searchId ?? null;
       })
       .addCase(searchProducts.rejected, (state, action) => {
         state.isLoading = false;
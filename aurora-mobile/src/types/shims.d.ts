@@ -15,6 +15,10 @@ declare module 'react-native-push-notification' {
   export type FetchResult = 'NoData' | 'ResultFailed' | 'ResultNewData';
 
   export interface PushNotification {
+    title?: string;
+    message?: string | object;
+    data?: Record<string, unknown>;
+    userInteraction?: boolean;
     finish?(fetchResult?: FetchResult): void;
   }
 
@@ -26,6 +30,7 @@ declare module 'react-native-push-notification' {
 
   interface PushNotificationAPI {
     configure(options: ConfigureOptions): void;
+    requestPermissions(): Promise<{alert?: boolean; badge?: boolean; sound?: boolean}>;
     FetchResult: {
       NoData: FetchResult;
       ResultFailed: FetchResult;
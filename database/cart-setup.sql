@@ -0,0 +1,24 @@
+-- Server Cart Setup for Aurora Commerce
+-- One cart row per signed-in user or guest session, holding its lines in
+-- `items`. Used by src/services/cart.ts. Run after core-ecommerce-setup.sql.
+
+-- 1. ONE CART PER OWNER
+-- Guest carts are keyed by the cart session cookie and moved onto the
+-- user's cart when they sign in
+CREATE UNIQUE INDEX IF NOT EXISTS idx_carts_one_per_user ON public.carts(user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_carts_one_per_session ON public.carts(session_id) WHERE user_id IS NULL;
+
+-- 2. CONCURRENCY
+-- Every write bumps the version; writers that read an older version retry
+ALTER TABLE public.carts ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.carts.items IS 'Cart lines: [{ productId, name, price, quantity, imageUrl, isDigital }] with prices in the base currency';
+COMMENT ON COLUMN public.carts.version IS 'Incremented on every write (optimistic concurrency)';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Server cart setup completed successfully!';
+    RAISE NOTICE 'Indexes created: idx_carts_one_per_user, idx_carts_one_per_session';
+    RAISE NOTICE 'Columns added: carts.version';
+END $$;
@@ -0,0 +1,161 @@
+-- Coupon and Promo Code Setup for Aurora Commerce
+-- Used by src/services/coupons.ts, /api/coupons/validate and the checkout flow
+
+-- 1. COUPONS TABLE
+CREATE TABLE IF NOT EXISTS public.coupons (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code VARCHAR(50) UNIQUE NOT NULL CHECK (code = UPPER(code)),
+    description TEXT,
+
+    -- Discount
+    discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed_amount', 'free_shipping')),
+    discount_value DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+
+    -- Eligibility
+    min_subtotal DECIMAL(10,2) CHECK (min_subtotal >= 0), -- Minimum spend on qualifying items
+    product_ids TEXT[], -- Restrict to these products
+    categories TEXT[], -- Restrict to these product categories
+
+    -- Limits (usage_limit = 1 for single-use codes, NULL for unlimited)
+    usage_limit INTEGER CHECK (usage_limit > 0),
+    usage_count INTEGER NOT NULL DEFAULT 0 CHECK (usage_count >= 0),
+    per_customer_limit INTEGER CHECK (per_customer_limit > 0),
+    starts_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT check_coupon_usage CHECK (usage_limit IS NULL OR usage_count <= usage_limit)
+);
+
+-- 2. COUPON_REDEMPTIONS TABLE
+-- One row per order that used a coupon
+CREATE TABLE IF NOT EXISTS public.coupon_redemptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    coupon_id UUID NOT NULL REFERENCES public.coupons(id) ON DELETE CASCADE,
+    code VARCHAR(50) NOT NULL,
+    order_id TEXT NOT NULL,
+    customer_email VARCHAR(255) NOT NULL,
+    discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_coupon_order UNIQUE (coupon_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupons_code ON public.coupons(code);
+CREATE INDEX IF NOT EXISTS idx_coupons_active ON public.coupons(is_active);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon ON public.coupon_redemptions(coupon_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_email ON public.coupon_redemptions(coupon_id, LOWER(customer_email));
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_order ON public.coupon_redemptions(order_id);
+
+CREATE TRIGGER update_coupons_updated_at BEFORE UPDATE ON public.coupons FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. ATOMIC ORDER + REDEMPTION
+-- Inserts the order (only the columns present in p_order, so table defaults apply)
+-- and records the redemption in the same transaction. The coupon row is locked
+-- so concurrent checkouts cannot exceed usage limits.
+CREATE OR REPLACE FUNCTION public.create_order_with_coupon(
+    p_order JSONB,
+    p_coupon_code TEXT,
+    p_customer_email TEXT,
+    p_discount_amount DECIMAL
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_coupon public.coupons%ROWTYPE;
+    v_customer_uses INTEGER;
+    v_columns TEXT;
+    v_order_id TEXT;
+BEGIN
+    SELECT * INTO v_coupon FROM public.coupons WHERE code = UPPER(p_coupon_code) FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_coupon.is_active OR (v_coupon.starts_at IS NOT NULL AND v_coupon.starts_at > NOW()) THEN
+        RAISE EXCEPTION 'COUPON_INVALID';
+    END IF;
+
+    IF v_coupon.expires_at IS NOT NULL AND v_coupon.expires_at < NOW() THEN
+        RAISE EXCEPTION 'COUPON_EXPIRED';
+    END IF;
+
+    IF v_coupon.usage_limit IS NOT NULL AND v_coupon.usage_count >= v_coupon.usage_limit THEN
+        RAISE EXCEPTION 'COUPON_USAGE_LIMIT_REACHED';
+    END IF;
+
+    IF v_coupon.per_customer_limit IS NOT NULL THEN
+        SELECT COUNT(*) INTO v_customer_uses
+        FROM public.coupon_redemptions
+        WHERE coupon_id = v_coupon.id AND LOWER(customer_email) = LOWER(p_customer_email);
+
+        IF v_customer_uses >= v_coupon.per_customer_limit THEN
+            RAISE EXCEPTION 'COUPON_CUSTOMER_LIMIT_REACHED';
+        END IF;
+    END IF;
+
+    SELECT string_agg(quote_ident(key), ', ') INTO v_columns FROM jsonb_object_keys(p_order) AS key;
+
+    EXECUTE format(
+        'INSERT INTO public.orders (%s) SELECT %s FROM jsonb_populate_record(NULL::public.orders, $1) RETURNING id::text',
+        v_columns, v_columns
+    ) INTO v_order_id USING p_order;
+
+    INSERT INTO public.coupon_redemptions (coupon_id, code, order_id, customer_email, discount_amount)
+    VALUES (v_coupon.id, v_coupon.code, v_order_id, LOWER(p_customer_email), p_discount_amount);
+
+    UPDATE public.coupons SET usage_count = usage_count + 1 WHERE id = v_coupon.id;
+
+    RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Redemptions store the email lower-case so per-customer counts can match it exactly
+UPDATE public.coupon_redemptions SET customer_email = LOWER(customer_email) WHERE customer_email <> LOWER(customer_email);
+
+-- 4. RELEASE A REDEMPTION
+-- Called when an order is cancelled (including abandoned checkouts whose
+-- session expired): the code's use is given back to the usage limits
+CREATE OR REPLACE FUNCTION public.release_coupon_redemption(p_order_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_redemption public.coupon_redemptions%ROWTYPE;
+    v_released INTEGER := 0;
+BEGIN
+    FOR v_redemption IN
+        DELETE FROM public.coupon_redemptions WHERE order_id = p_order_id RETURNING *
+    LOOP
+        UPDATE public.coupons SET usage_count = GREATEST(usage_count - 1, 0) WHERE id = v_redemption.coupon_id;
+        v_released := v_released + 1;
+    END LOOP;
+
+    RETURN v_released;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable Row Level Security (RLS)
+-- Coupons are only read through the service role so codes cannot be enumerated
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON FUNCTION public.create_order_with_coupon(JSONB, TEXT, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_coupon_redemption(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Sample codes for testing (optional - remove in production)
+INSERT INTO public.coupons (code, description, discount_type, discount_value, min_subtotal, usage_limit, per_customer_limit, expires_at) VALUES
+('WELCOME10', '10% off your first order', 'percentage', 10, NULL, NULL, 1, NULL),
+('SAVE20', '$20 off orders over $100', 'fixed_amount', 20, 100, 500, NULL, NOW() + INTERVAL '90 days'),
+('SHIPFREE', 'Free shipping', 'free_shipping', 0, 50, NULL, NULL, NULL)
+ON CONFLICT (code) DO NOTHING;
+
+COMMENT ON TABLE public.coupons IS 'Discount codes customers can enter at checkout';
+COMMENT ON TABLE public.coupon_redemptions IS 'Records each order that redeemed a coupon';
+COMMENT ON COLUMN public.coupons.usage_limit IS 'Total redemptions allowed (1 = single-use, NULL = unlimited)';
+COMMENT ON COLUMN public.coupons.per_customer_limit IS 'Redemptions allowed per customer email (NULL = unlimited)';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Coupon tables created successfully!';
+    RAISE NOTICE 'Tables created: coupons, coupon_redemptions';
+    RAISE NOTICE 'Functions created: create_order_with_coupon, release_coupon_redemption';
+END $$;
@@ -0,0 +1,40 @@
+-- Currency Setup for Aurora Commerce
+-- Exchange rates used by src/services/exchangeRates.ts and the settlement columns on orders
+
+-- Units of each currency per one unit of the base currency (USD)
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+    currency VARCHAR(3) PRIMARY KEY,
+    rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.exchange_rates (currency, rate) VALUES
+    ('USD', 1),
+    ('EUR', 0.92),
+    ('GBP', 0.79),
+    ('CAD', 1.36),
+    ('AUD', 1.52),
+    ('JPY', 150)
+ON CONFLICT (currency) DO NOTHING;
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view exchange rates" ON public.exchange_rates;
+CREATE POLICY "Anyone can view exchange rates" ON public.exchange_rates
+    FOR SELECT USING (true);
+
+-- orders.currency holds the presentment currency the customer paid in;
+-- these columns record the base currency amount it settles as
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS settlement_currency VARCHAR(3) DEFAULT 'USD';
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18,8) DEFAULT 1;
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS settlement_total DECIMAL(10,2);
+
+COMMENT ON TABLE public.exchange_rates IS 'Exchange rates from the base currency, refreshed by an external job or by hand';
+COMMENT ON COLUMN public.orders.exchange_rate IS 'Rate from settlement_currency to currency at the time the order was placed';
+COMMENT ON COLUMN public.orders.settlement_total IS 'Order total in settlement_currency';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Currency setup complete: exchange_rates table and orders settlement columns added';
+END $$;
@@ -0,0 +1,100 @@
+-- Digital Downloads Setup for Aurora Commerce
+-- Download entitlements for paid digital order lines, the per-download log
+-- and the private bucket the files are served from. Used by
+-- src/services/digitalDownloads.ts.
+
+-- 1. DOWNLOAD_ENTITLEMENTS TABLE
+-- One per digital line of a paid order, created by the plan_shipments
+-- fulfillment step
+CREATE TABLE IF NOT EXISTS public.download_entitlements (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id TEXT NOT NULL,
+    product_id TEXT NOT NULL,
+    product_name VARCHAR(255),
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    customer_email VARCHAR(255), -- Stored lower-cased
+    download_count INTEGER NOT NULL DEFAULT 0 CHECK (download_count >= 0),
+    max_downloads INTEGER NOT NULL DEFAULT 5 CHECK (max_downloads > 0),
+    expires_at TIMESTAMP WITH TIME ZONE, -- NULL: never expires
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason TEXT,
+    last_downloaded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_download_entitlements_user ON public.download_entitlements(user_id);
+CREATE INDEX IF NOT EXISTS idx_download_entitlements_email ON public.download_entitlements(customer_email) WHERE user_id IS NULL;
+
+CREATE TRIGGER update_download_entitlements_updated_at BEFORE UPDATE ON public.download_entitlements FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. DOWNLOAD_LOG TABLE
+CREATE TABLE IF NOT EXISTS public.download_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    entitlement_id UUID NOT NULL REFERENCES public.download_entitlements(id) ON DELETE CASCADE,
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_download_log_entitlement ON public.download_log(entitlement_id, created_at DESC);
+
+-- 3. RECORD A DOWNLOAD
+-- Counts and logs one download if the entitlement is usable: not revoked,
+-- not expired and under its limit. Returns false otherwise. The row lock
+-- keeps parallel requests from going over the limit.
+CREATE OR REPLACE FUNCTION public.record_download(
+    p_entitlement_id UUID,
+    p_ip_address VARCHAR,
+    p_user_agent TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE public.download_entitlements
+    SET download_count = download_count + 1,
+        last_downloaded_at = NOW()
+    WHERE id = p_entitlement_id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > NOW())
+      AND download_count < max_downloads;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO public.download_log (entitlement_id, ip_address, user_agent)
+    VALUES (p_entitlement_id, p_ip_address, p_user_agent);
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.record_download(UUID, VARCHAR, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 4. DIGITAL DOWNLOADS BUCKET
+-- Private. Upload each product's file to a folder named after the product
+-- id, e.g. 7/web-design-course.zip; the newest file in the folder is served.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('digital-downloads', 'digital-downloads', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.download_entitlements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.download_log ENABLE ROW LEVEL SECURITY;
+
+-- Customers can see their own entitlements; downloads go through the API
+CREATE POLICY "Users can view own download entitlements" ON public.download_entitlements
+    FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.download_entitlements IS 'Right to download a purchased digital product, served through signed /api/downloads/[token] links';
+COMMENT ON TABLE public.download_log IS 'One row per download with the client IP and user agent';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Digital downloads setup completed successfully!';
+    RAISE NOTICE 'Tables created: download_entitlements, download_log';
+    RAISE NOTICE 'Function created: record_download';
+    RAISE NOTICE 'Storage bucket created: digital-downloads';
+END $$;
@@ -0,0 +1,83 @@
+-- Fulfillment Job Queue Setup for Aurora Commerce
+-- Durable queue used by src/services/fulfillmentQueue.ts and /api/fulfillment/worker
+
+-- 1. FULFILLMENT_JOBS TABLE
+-- One row per fulfillment step of an order. Failed jobs are retried with
+-- exponential backoff; after max_attempts they move to the dead-letter list
+-- (status = 'dead') until an admin requeues them.
+CREATE TABLE IF NOT EXISTS public.fulfillment_jobs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id TEXT NOT NULL,
+    job_type VARCHAR(50) NOT NULL CHECK (job_type IN ('reserve_inventory', 'notify_erp', 'purchase_label')),
+    idempotency_key VARCHAR(255) UNIQUE NOT NULL, -- "<order_id>:<job_type>", so a step is only queued once
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+    -- Processing state
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+    max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+    run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    locked_by TEXT,
+    last_error TEXT,
+    result JSONB,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_fulfillment_jobs_runnable ON public.fulfillment_jobs(run_after) WHERE status IN ('pending', 'failed');
+CREATE INDEX IF NOT EXISTS idx_fulfillment_jobs_status ON public.fulfillment_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_fulfillment_jobs_order ON public.fulfillment_jobs(order_id);
+
+CREATE TRIGGER update_fulfillment_jobs_updated_at BEFORE UPDATE ON public.fulfillment_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. CLAIM JOBS
+-- Locks up to p_limit due jobs for one worker. SKIP LOCKED lets several
+-- workers run side by side; jobs left 'running' by a crashed worker are
+-- picked up again once p_lock_timeout has passed.
+CREATE OR REPLACE FUNCTION public.claim_fulfillment_jobs(
+    p_worker_id TEXT,
+    p_limit INTEGER DEFAULT 10,
+    p_lock_timeout INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.fulfillment_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.fulfillment_jobs AS jobs
+    SET status = 'running',
+        attempts = jobs.attempts + 1,
+        locked_at = NOW(),
+        locked_by = p_worker_id
+    WHERE jobs.id IN (
+        SELECT id FROM public.fulfillment_jobs
+        WHERE (status IN ('pending', 'failed') AND run_after <= NOW())
+           OR (status = 'running' AND locked_at < NOW() - p_lock_timeout)
+        ORDER BY run_after
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING jobs.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable Row Level Security (RLS)
+-- Jobs are only read and written through the service role
+ALTER TABLE public.fulfillment_jobs ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON FUNCTION public.claim_fulfillment_jobs(TEXT, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Draft orders keep the shipping address for fulfillment after payment
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS shipping_address JSONB;
+
+COMMENT ON TABLE public.fulfillment_jobs IS 'Durable fulfillment steps with retries; status dead is the dead-letter list';
+COMMENT ON COLUMN public.fulfillment_jobs.idempotency_key IS 'Unique per order and step, so enqueueing twice is a no-op';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Fulfillment job queue created successfully!';
+    RAISE NOTICE 'Tables created: fulfillment_jobs';
+    RAISE NOTICE 'Function created: claim_fulfillment_jobs';
+END $$;
@@ -0,0 +1,313 @@
+-- Multi-Warehouse Inventory Setup for Aurora Commerce
+-- Stock per warehouse location, checkout reservations with a TTL and an
+-- append-only movement ledger. Used by src/services/inventory.ts.
+
+-- 1. WAREHOUSES TABLE
+-- Stock locations. Allocation prefers warehouses in the destination
+-- country, then the lowest priority number.
+CREATE TABLE IF NOT EXISTS public.warehouses (
+    id VARCHAR(50) PRIMARY KEY, -- e.g. 'main'; also used as shipments.warehouse_id
+    name VARCHAR(255) NOT NULL,
+    street VARCHAR(255),
+    city VARCHAR(100),
+    state VARCHAR(100),
+    postal_code VARCHAR(20),
+    country VARCHAR(2) NOT NULL DEFAULT 'US',
+    priority INTEGER NOT NULL DEFAULT 100,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.warehouses (id, name, country, priority) VALUES
+    ('main', 'Main Warehouse', 'US', 10)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. INVENTORY_LEVELS TABLE
+-- On-hand and reserved quantity of each product at each warehouse.
+-- Available = on_hand - reserved and never goes negative.
+CREATE TABLE IF NOT EXISTS public.inventory_levels (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id TEXT NOT NULL,
+    warehouse_id VARCHAR(50) NOT NULL REFERENCES public.warehouses(id) ON DELETE CASCADE,
+    on_hand INTEGER NOT NULL DEFAULT 0 CHECK (on_hand >= 0),
+    reserved INTEGER NOT NULL DEFAULT 0 CHECK (reserved >= 0),
+    available INTEGER GENERATED ALWAYS AS (on_hand - reserved) STORED,
+    reorder_point INTEGER NOT NULL DEFAULT 10 CHECK (reorder_point >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_inventory_level UNIQUE (product_id, warehouse_id),
+    CONSTRAINT reserved_within_on_hand CHECK (reserved <= on_hand)
+);
+
+-- 3. INVENTORY_RESERVATIONS TABLE
+-- Stock held for an order. Created at checkout as 'active' with an expiry;
+-- committed on payment, released on cancellation or session expiry.
+CREATE TABLE IF NOT EXISTS public.inventory_reservations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id TEXT NOT NULL,
+    product_id TEXT NOT NULL,
+    warehouse_id VARCHAR(50) NOT NULL REFERENCES public.warehouses(id),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'committed', 'released', 'expired')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    stripe_session_id VARCHAR(255),
+    committed_at TIMESTAMP WITH TIME ZONE,
+    released_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 4. INVENTORY_MOVEMENTS TABLE
+-- Ledger of every change to on_hand or reserved
+CREATE TABLE IF NOT EXISTS public.inventory_movements (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id TEXT NOT NULL,
+    warehouse_id VARCHAR(50) NOT NULL REFERENCES public.warehouses(id),
+    movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('receipt', 'adjustment', 'reservation', 'release', 'commit', 'return', 'transfer')),
+    on_hand_change INTEGER NOT NULL DEFAULT 0,
+    reserved_change INTEGER NOT NULL DEFAULT 0,
+    on_hand_after INTEGER NOT NULL,
+    reserved_after INTEGER NOT NULL,
+    reference_type VARCHAR(50), -- 'order', 'manual_adjustment', ...
+    reference_id TEXT,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_levels_product ON public.inventory_levels(product_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_order ON public.inventory_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_expiry ON public.inventory_reservations(expires_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product ON public.inventory_movements(product_id, warehouse_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_created ON public.inventory_movements(created_at DESC);
+
+CREATE TRIGGER update_warehouses_updated_at BEFORE UPDATE ON public.warehouses FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_inventory_levels_updated_at BEFORE UPDATE ON public.inventory_levels FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_inventory_reservations_updated_at BEFORE UPDATE ON public.inventory_reservations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. RESERVE STOCK FOR AN ORDER
+-- p_allocations: [{ "product_id": "...", "warehouse_id": "...", "quantity": 2 }, ...]
+-- All or nothing: if any line is short the whole reservation is rolled back
+-- with an 'insufficient_stock' error.
+CREATE OR REPLACE FUNCTION public.reserve_order_inventory(
+    p_order_id TEXT,
+    p_allocations JSONB,
+    p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER AS $$
+DECLARE
+    allocation JSONB;
+    level public.inventory_levels%ROWTYPE;
+    reserved_count INTEGER := 0;
+BEGIN
+    -- Already reserved (e.g. a retried checkout request)
+    IF EXISTS (
+        SELECT 1 FROM public.inventory_reservations
+        WHERE order_id = p_order_id AND status IN ('active', 'committed')
+    ) THEN
+        RETURN 0;
+    END IF;
+
+    FOR allocation IN SELECT * FROM jsonb_array_elements(p_allocations) LOOP
+        UPDATE public.inventory_levels
+        SET reserved = reserved + (allocation->>'quantity')::INTEGER
+        WHERE product_id = allocation->>'product_id'
+          AND warehouse_id = allocation->>'warehouse_id'
+          AND on_hand - reserved >= (allocation->>'quantity')::INTEGER
+        RETURNING * INTO level;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'insufficient_stock: product % at warehouse %',
+                allocation->>'product_id', allocation->>'warehouse_id';
+        END IF;
+
+        INSERT INTO public.inventory_reservations (order_id, product_id, warehouse_id, quantity, expires_at)
+        VALUES (p_order_id, level.product_id, level.warehouse_id, (allocation->>'quantity')::INTEGER, p_expires_at);
+
+        INSERT INTO public.inventory_movements (product_id, warehouse_id, movement_type, reserved_change, on_hand_after, reserved_after, reference_type, reference_id)
+        VALUES (level.product_id, level.warehouse_id, 'reservation', (allocation->>'quantity')::INTEGER, level.on_hand, level.reserved, 'order', p_order_id);
+
+        reserved_count := reserved_count + 1;
+    END LOOP;
+
+    RETURN reserved_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. COMMIT RESERVATIONS (ON PAYMENT)
+-- Reserved stock leaves on_hand. Idempotent: committed reservations are skipped.
+CREATE OR REPLACE FUNCTION public.commit_order_inventory(p_order_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    reservation public.inventory_reservations%ROWTYPE;
+    level public.inventory_levels%ROWTYPE;
+    committed_count INTEGER := 0;
+BEGIN
+    FOR reservation IN
+        SELECT * FROM public.inventory_reservations
+        WHERE order_id = p_order_id AND status = 'active'
+        FOR UPDATE
+    LOOP
+        UPDATE public.inventory_levels
+        SET on_hand = on_hand - reservation.quantity,
+            reserved = reserved - reservation.quantity
+        WHERE product_id = reservation.product_id AND warehouse_id = reservation.warehouse_id
+        RETURNING * INTO level;
+
+        UPDATE public.inventory_reservations
+        SET status = 'committed', committed_at = NOW()
+        WHERE id = reservation.id;
+
+        INSERT INTO public.inventory_movements (product_id, warehouse_id, movement_type, on_hand_change, reserved_change, on_hand_after, reserved_after, reference_type, reference_id)
+        VALUES (reservation.product_id, reservation.warehouse_id, 'commit', -reservation.quantity, -reservation.quantity, level.on_hand, level.reserved, 'order', p_order_id);
+
+        committed_count := committed_count + 1;
+    END LOOP;
+
+    RETURN committed_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. RELEASE RESERVATIONS (CANCELLATION / EXPIRY)
+-- Only active reservations are released; committed stock comes back through returns
+CREATE OR REPLACE FUNCTION public.release_order_inventory(
+    p_order_id TEXT,
+    p_status VARCHAR(20) DEFAULT 'released'
+)
+RETURNS INTEGER AS $$
+DECLARE
+    reservation public.inventory_reservations%ROWTYPE;
+    level public.inventory_levels%ROWTYPE;
+    released_count INTEGER := 0;
+BEGIN
+    IF p_status NOT IN ('released', 'expired') THEN
+        RAISE EXCEPTION 'Invalid release status: %', p_status;
+    END IF;
+
+    FOR reservation IN
+        SELECT * FROM public.inventory_reservations
+        WHERE order_id = p_order_id AND status = 'active'
+        FOR UPDATE
+    LOOP
+        UPDATE public.inventory_levels
+        SET reserved = reserved - reservation.quantity
+        WHERE product_id = reservation.product_id AND warehouse_id = reservation.warehouse_id
+        RETURNING * INTO level;
+
+        UPDATE public.inventory_reservations
+        SET status = p_status, released_at = NOW()
+        WHERE id = reservation.id;
+
+        INSERT INTO public.inventory_movements (product_id, warehouse_id, movement_type, reserved_change, on_hand_after, reserved_after, reference_type, reference_id, notes)
+        VALUES (reservation.product_id, reservation.warehouse_id, 'release', -reservation.quantity, level.on_hand, level.reserved, 'order', p_order_id, p_status);
+
+        released_count := released_count + 1;
+    END LOOP;
+
+    RETURN released_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. EXPIRE STALE RESERVATIONS
+-- Run by the fulfillment worker; returns the number of orders released
+CREATE OR REPLACE FUNCTION public.expire_inventory_reservations()
+RETURNS INTEGER AS $$
+DECLARE
+    expired_order TEXT;
+    expired_count INTEGER := 0;
+BEGIN
+    FOR expired_order IN
+        SELECT DISTINCT order_id FROM public.inventory_reservations
+        WHERE status = 'active' AND expires_at < NOW()
+    LOOP
+        PERFORM public.release_order_inventory(expired_order, 'expired');
+        expired_count := expired_count + 1;
+    END LOOP;
+
+    RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 9. MANUAL ADJUSTMENTS
+-- Receipts, counts and write-offs from the inventory dashboard
+CREATE OR REPLACE FUNCTION public.adjust_inventory(
+    p_product_id TEXT,
+    p_warehouse_id VARCHAR(50),
+    p_quantity_change INTEGER,
+    p_movement_type VARCHAR(20) DEFAULT 'adjustment',
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS public.inventory_levels AS $$
+DECLARE
+    level public.inventory_levels%ROWTYPE;
+BEGIN
+    IF p_movement_type NOT IN ('receipt', 'adjustment', 'return', 'transfer') THEN
+        RAISE EXCEPTION 'Invalid movement type: %', p_movement_type;
+    END IF;
+
+    INSERT INTO public.inventory_levels (product_id, warehouse_id, on_hand)
+    VALUES (p_product_id, p_warehouse_id, GREATEST(p_quantity_change, 0))
+    ON CONFLICT (product_id, warehouse_id)
+    DO UPDATE SET on_hand = public.inventory_levels.on_hand + p_quantity_change
+    RETURNING * INTO level;
+
+    INSERT INTO public.inventory_movements (product_id, warehouse_id, movement_type, on_hand_change, on_hand_after, reserved_after, reference_type, notes)
+    VALUES (p_product_id, p_warehouse_id, p_movement_type, p_quantity_change, level.on_hand, level.reserved, 'manual_adjustment', p_notes);
+
+    RETURN level;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 10. INVENTORY BY LOCATION VIEW
+-- One row per product and warehouse for the inventory dashboard
+CREATE OR REPLACE VIEW public.inventory_by_location AS
+SELECT
+    levels.id,
+    levels.product_id,
+    COALESCE(products.name, levels.product_id) AS product_name,
+    products.sku,
+    levels.warehouse_id,
+    warehouses.name AS warehouse_name,
+    levels.on_hand,
+    levels.reserved,
+    levels.available,
+    levels.reorder_point,
+    CASE
+        WHEN levels.available <= 0 THEN 'out_of_stock'
+        WHEN levels.available <= levels.reorder_point / 2 THEN 'critical'
+        WHEN levels.available <= levels.reorder_point THEN 'low'
+        ELSE 'normal'
+    END AS stock_status,
+    levels.updated_at
+FROM public.inventory_levels AS levels
+JOIN public.warehouses AS warehouses ON warehouses.id = levels.warehouse_id
+LEFT JOIN public.products AS products ON products.id::text = levels.product_id;
+
+-- Enable Row Level Security (RLS)
+-- Inventory is read and written through the API with the service role
+ALTER TABLE public.warehouses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON FUNCTION public.reserve_order_inventory(TEXT, JSONB, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.commit_order_inventory(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_order_inventory(TEXT, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.expire_inventory_reservations() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.adjust_inventory(TEXT, VARCHAR, INTEGER, VARCHAR, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON public.inventory_by_location FROM anon, authenticated;
+
+COMMENT ON TABLE public.warehouses IS 'Stock locations that orders are allocated and shipped from';
+COMMENT ON TABLE public.inventory_levels IS 'On-hand and reserved stock per product and warehouse';
+COMMENT ON TABLE public.inventory_reservations IS 'Stock held for orders: active until committed on payment or released on cancellation/expiry';
+COMMENT ON TABLE public.inventory_movements IS 'Ledger of every change to on-hand or reserved stock';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Inventory tables created successfully!';
+    RAISE NOTICE 'Tables created: warehouses, inventory_levels, inventory_reservations, inventory_movements';
+    RAISE NOTICE 'Functions created: reserve_order_inventory, commit_order_inventory, release_order_inventory, expire_inventory_reservations, adjust_inventory';
+    RAISE NOTICE 'Views created: inventory_by_location';
+END $$;
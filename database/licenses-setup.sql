@@ -0,0 +1,207 @@
+-- Software Licenses Setup for Aurora Commerce
+-- License keys for software sold as digital products: which products need a
+-- key, pools of pre-generated vendor keys, the keys issued to orders and the
+-- devices they are activated on. Used by src/services/licenses.ts.
+
+-- 1. LICENSE_PRODUCTS TABLE
+-- Products that come with a license key. 'generated' keys are signed by the
+-- store (LICENSE_SIGNING_PRIVATE_KEY) and can be checked offline; 'pool'
+-- keys are taken from license_key_pool.
+CREATE TABLE IF NOT EXISTS public.license_products (
+    product_id TEXT PRIMARY KEY,
+    key_source VARCHAR(20) NOT NULL DEFAULT 'generated' CHECK (key_source IN ('generated', 'pool')),
+    seats INTEGER NOT NULL DEFAULT 1 CHECK (seats > 0), -- Per unit bought
+    valid_days INTEGER CHECK (valid_days > 0), -- NULL: perpetual
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_license_products_updated_at BEFORE UPDATE ON public.license_products FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Example: the meditation app on /digital-products, 3 devices per copy
+-- INSERT INTO public.license_products (product_id, key_source, seats) VALUES ('10', 'generated', 3);
+
+-- 2. LICENSE_KEY_POOL TABLE
+-- Keys bought from or generated by the software vendor, handed out in order
+CREATE TABLE IF NOT EXISTS public.license_key_pool (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id TEXT NOT NULL REFERENCES public.license_products(product_id) ON DELETE CASCADE,
+    license_key VARCHAR(255) NOT NULL UNIQUE,
+    assigned_order_id TEXT,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_license_key_pool_available ON public.license_key_pool(product_id, created_at) WHERE assigned_at IS NULL;
+
+-- 3. LICENSES TABLE
+-- One live license per order line; a re-issued license points at the one
+-- it replaces
+CREATE TABLE IF NOT EXISTS public.licenses (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id TEXT NOT NULL,
+    product_id TEXT NOT NULL,
+    product_name VARCHAR(255),
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    customer_email VARCHAR(255), -- Stored lower-cased
+    license_key TEXT NOT NULL UNIQUE,
+    key_source VARCHAR(20) NOT NULL CHECK (key_source IN ('generated', 'pool')),
+    seats INTEGER NOT NULL CHECK (seats > 0),
+    expires_at TIMESTAMP WITH TIME ZONE, -- NULL: perpetual
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason TEXT,
+    replaces_license_id UUID REFERENCES public.licenses(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_licenses_live ON public.licenses(order_id, product_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_licenses_order ON public.licenses(order_id);
+CREATE INDEX IF NOT EXISTS idx_licenses_user ON public.licenses(user_id);
+CREATE INDEX IF NOT EXISTS idx_licenses_email ON public.licenses(customer_email) WHERE user_id IS NULL;
+
+CREATE TRIGGER update_licenses_updated_at BEFORE UPDATE ON public.licenses FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 4. LICENSE_ACTIVATIONS TABLE
+-- Each active row uses one seat; deactivating frees it
+CREATE TABLE IF NOT EXISTS public.license_activations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    license_id UUID NOT NULL REFERENCES public.licenses(id) ON DELETE CASCADE,
+    device_id VARCHAR(255) NOT NULL,
+    device_name VARCHAR(255),
+    ip_address VARCHAR(64),
+    activated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    deactivated_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_license_activations_active ON public.license_activations(license_id, device_id) WHERE deactivated_at IS NULL;
+
+-- 5. CLAIM A POOL KEY
+-- Assigns the oldest free key of a product to an order and returns it, or
+-- NULL when the pool is empty. A key already assigned to the order but not
+-- yet on a license (an earlier attempt that failed) is returned again.
+CREATE OR REPLACE FUNCTION public.claim_license_key(
+    p_product_id TEXT,
+    p_order_id TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_key TEXT;
+BEGIN
+    SELECT pool.license_key INTO v_key
+    FROM public.license_key_pool pool
+    WHERE pool.product_id = p_product_id
+      AND pool.assigned_order_id = p_order_id
+      AND NOT EXISTS (SELECT 1 FROM public.licenses l WHERE l.license_key = pool.license_key)
+    LIMIT 1;
+
+    IF v_key IS NOT NULL THEN
+        RETURN v_key;
+    END IF;
+
+    UPDATE public.license_key_pool
+    SET assigned_order_id = p_order_id,
+        assigned_at = NOW()
+    WHERE id = (
+        SELECT id FROM public.license_key_pool
+        WHERE product_id = p_product_id AND assigned_at IS NULL
+        ORDER BY created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING license_key INTO v_key;
+
+    RETURN v_key;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. ACTIVATE A LICENSE ON A DEVICE
+-- Takes a seat for the device, or refreshes last_seen_at when it already
+-- has one. The row lock keeps parallel activations from going over the
+-- seat limit.
+CREATE OR REPLACE FUNCTION public.activate_license(
+    p_license_key TEXT,
+    p_device_id VARCHAR,
+    p_device_name VARCHAR,
+    p_ip_address VARCHAR
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_license public.licenses%ROWTYPE;
+    v_activation_id UUID;
+    v_seats_used INTEGER;
+BEGIN
+    SELECT * INTO v_license FROM public.licenses WHERE license_key = p_license_key FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'License not found';
+    END IF;
+    IF v_license.revoked_at IS NOT NULL THEN
+        RAISE EXCEPTION 'License has been revoked';
+    END IF;
+    IF v_license.expires_at IS NOT NULL AND v_license.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'License has expired';
+    END IF;
+
+    UPDATE public.license_activations
+    SET last_seen_at = NOW(),
+        device_name = COALESCE(p_device_name, device_name),
+        ip_address = p_ip_address
+    WHERE license_id = v_license.id AND device_id = p_device_id AND deactivated_at IS NULL
+    RETURNING id INTO v_activation_id;
+
+    IF v_activation_id IS NULL THEN
+        SELECT COUNT(*) INTO v_seats_used
+        FROM public.license_activations
+        WHERE license_id = v_license.id AND deactivated_at IS NULL;
+
+        IF v_seats_used >= v_license.seats THEN
+            RAISE EXCEPTION 'No seats left on this license';
+        END IF;
+
+        INSERT INTO public.license_activations (license_id, device_id, device_name, ip_address)
+        VALUES (v_license.id, p_device_id, p_device_name, p_ip_address)
+        RETURNING id INTO v_activation_id;
+    END IF;
+
+    SELECT COUNT(*) INTO v_seats_used
+    FROM public.license_activations
+    WHERE license_id = v_license.id AND deactivated_at IS NULL;
+
+    RETURN jsonb_build_object(
+        'activation_id', v_activation_id,
+        'license_id', v_license.id,
+        'product_id', v_license.product_id,
+        'seats', v_license.seats,
+        'seats_used', v_seats_used,
+        'expires_at', v_license.expires_at
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.claim_license_key(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.activate_license(TEXT, VARCHAR, VARCHAR, VARCHAR) FROM PUBLIC, anon, authenticated;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.license_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.license_key_pool ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.licenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.license_activations ENABLE ROW LEVEL SECURITY;
+
+-- Customers can see their own licenses; activation goes through the API
+CREATE POLICY "Users can view own licenses" ON public.licenses
+    FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.license_products IS 'Software products that are issued a license key on purchase, with the seats per copy';
+COMMENT ON TABLE public.license_key_pool IS 'Pre-generated vendor keys, assigned to orders oldest first';
+COMMENT ON TABLE public.licenses IS 'License keys issued to orders; revoked on refund and re-issued by support';
+COMMENT ON TABLE public.license_activations IS 'Devices a license is activated on; active rows count against the seats';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Software licenses setup completed successfully!';
+    RAISE NOTICE 'Tables created: license_products, license_key_pool, licenses, license_activations';
+    RAISE NOTICE 'Functions created: claim_license_key, activate_license';
+END $$;
@@ -0,0 +1,36 @@
+-- Mobile API Setup for Aurora Commerce
+-- Push notification device tokens registered by aurora-mobile through
+-- POST /api/mobile/v1/notifications/register. Used by
+-- src/services/deviceTokens.ts.
+
+-- 1. DEVICE_TOKENS TABLE
+-- A token belongs to one installation of the app; when another user signs
+-- in on the same device the token moves to them
+CREATE TABLE IF NOT EXISTS public.device_tokens (
+    token VARCHAR(512) PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    platform VARCHAR(10) NOT NULL CHECK (platform IN ('ios', 'android')),
+    app_version VARCHAR(50),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_tokens_user ON public.device_tokens(user_id);
+
+CREATE TRIGGER update_device_tokens_updated_at BEFORE UPDATE ON public.device_tokens FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.device_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own devices; writes go through the service role
+CREATE POLICY "Users can view own device tokens" ON public.device_tokens
+    FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.device_tokens IS 'Push notification tokens of the mobile app, per user and platform';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Mobile API setup completed successfully!';
+    RAISE NOTICE 'Tables created: device_tokens';
+END $$;
@@ -0,0 +1,63 @@
+-- Order Lifecycle Setup for Aurora Commerce
+-- Canonical order statuses and the append-only order history written by
+-- src/services/orderLifecycle.ts. Run after returns-setup.sql.
+
+-- 1. CANONICAL ORDER STATUSES
+-- 'confirmed' was an older name for 'paid'
+UPDATE public.orders SET status = 'paid' WHERE status = 'confirmed';
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_status_check CHECK (status IN ('pending', 'paid', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled', 'returned', 'refunded'));
+
+-- 2. ORDER_EVENTS TABLE
+-- One row per status change or payment event (created, status_changed,
+-- payment_failed, partially_refunded, dispute_opened, ...)
+CREATE TABLE IF NOT EXISTS public.order_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL,
+    from_status VARCHAR(50),
+    to_status VARCHAR(50),
+    actor VARCHAR(255) NOT NULL DEFAULT 'system', -- 'stripe', 'fulfillment', 'customer', 'system' or a staff email
+    reason TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order ON public.order_events(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_events_type ON public.order_events(event_type);
+
+-- 3. APPEND-ONLY
+-- History rows are never edited; they go only when their order is deleted
+CREATE OR REPLACE FUNCTION public.prevent_order_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM public.orders WHERE id = OLD.order_id) THEN
+        RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'order_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS order_events_append_only ON public.order_events;
+CREATE TRIGGER order_events_append_only BEFORE UPDATE OR DELETE ON public.order_events FOR EACH ROW EXECUTE FUNCTION public.prevent_order_event_changes();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.order_events ENABLE ROW LEVEL SECURITY;
+
+-- Customers can see the history of their own orders; writes come from the server
+CREATE POLICY "Users can view own order events" ON public.order_events
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.orders WHERE orders.id = order_events.order_id AND orders.user_id = auth.uid())
+    );
+
+COMMENT ON TABLE public.order_events IS 'Append-only order history shown as the order timeline in the admin dashboard';
+COMMENT ON COLUMN public.order_events.actor IS 'Who caused the event: stripe, fulfillment, customer, system or the email of the staff member';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Order lifecycle setup completed successfully!';
+    RAISE NOTICE 'Tables created: order_events';
+    RAISE NOTICE 'Constraint updated: orders_status_check (confirmed orders migrated to paid)';
+END $$;
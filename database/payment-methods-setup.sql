@@ -0,0 +1,35 @@
+-- Saved Payment Methods Setup for Aurora Commerce
+-- Links signed-in customers to the Stripe customer their cards are saved on.
+-- Cards themselves (and which one is the default) live in Stripe. Used by
+-- src/services/paymentMethods.ts.
+
+-- 1. STRIPE_CUSTOMERS TABLE
+CREATE TABLE IF NOT EXISTS public.stripe_customers (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    stripe_customer_id VARCHAR(255) NOT NULL UNIQUE,
+    email VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_stripe_customers_updated_at BEFORE UPDATE ON public.stripe_customers FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. ORDER OWNERSHIP
+-- Orders paid with a saved card record the customer who placed them
+CREATE INDEX IF NOT EXISTS idx_orders_user_id ON public.orders(user_id) WHERE user_id IS NOT NULL;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.stripe_customers ENABLE ROW LEVEL SECURITY;
+
+-- Customers can see their own mapping; writes go through the service role
+CREATE POLICY "Users can view own Stripe customer" ON public.stripe_customers
+    FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.stripe_customers IS 'Stripe customer that holds each user''s saved cards';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Saved payment methods setup completed successfully!';
+    RAISE NOTICE 'Tables created: stripe_customers';
+END $$;
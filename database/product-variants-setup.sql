@@ -0,0 +1,89 @@
+-- Product Variants Setup for Aurora Commerce
+-- Option/variant data for products sold in e.g. colours and sizes, used by
+-- src/services/productVariants.ts. Run after inventory-setup.sql,
+-- purchasing-setup.sql and split-shipments-setup.sql.
+
+-- 1. PRODUCT OPTIONS AND VARIANTS
+-- options:  [{ "name": "Size", "values": ["S", "M", "L"] }, ...]
+-- variants: [{ "id": "...", "sku": "...", "options": { "Size": "M" },
+--              "price": 29.99, "stock": 20, "imageUrl": "...", "images": [...] }, ...]
+-- Options were an object before; products without variants use an empty array.
+ALTER TABLE public.products ALTER COLUMN options SET DEFAULT '[]'::jsonb;
+UPDATE public.products SET options = '[]'::jsonb WHERE options = '{}'::jsonb;
+
+ALTER TABLE public.products DROP CONSTRAINT IF EXISTS products_variants_is_array;
+ALTER TABLE public.products ADD CONSTRAINT products_variants_is_array CHECK (jsonb_typeof(variants) = 'array');
+
+-- 2. ORDER ITEMS
+-- product_sku and variant_title already exist; this records which variant was bought
+ALTER TABLE public.order_items ADD COLUMN IF NOT EXISTS variant_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_variant_id ON public.order_items(variant_id) WHERE variant_id IS NOT NULL;
+
+-- 3. SHIPMENT ITEMS
+ALTER TABLE public.shipment_items ADD COLUMN IF NOT EXISTS variant_id TEXT;
+ALTER TABLE public.shipment_items ADD COLUMN IF NOT EXISTS sku VARCHAR(100);
+ALTER TABLE public.shipment_items ADD COLUMN IF NOT EXISTS variant_title VARCHAR(255);
+
+-- 4. INVENTORY BY LOCATION VIEW
+-- Variants are stocked under their variant id: show them with the product
+-- name, option values and the variant's SKU (new columns go last)
+CREATE OR REPLACE VIEW public.inventory_by_location AS
+SELECT
+    levels.id,
+    levels.product_id,
+    COALESCE(
+        products.name,
+        variant_products.name || ' - ' || variant_products.variant_title,
+        levels.product_id
+    ) AS product_name,
+    COALESCE(products.sku, (variant_products.variant->>'sku')::VARCHAR(100)) AS sku,
+    levels.warehouse_id,
+    warehouses.name AS warehouse_name,
+    levels.on_hand,
+    levels.reserved,
+    levels.available,
+    levels.reorder_point,
+    CASE
+        WHEN levels.available <= 0 THEN 'out_of_stock'
+        WHEN levels.available <= levels.reorder_point / 2 THEN 'critical'
+        WHEN levels.available <= levels.reorder_point THEN 'low'
+        ELSE 'normal'
+    END AS stock_status,
+    levels.updated_at,
+    levels.reorder_quantity,
+    variant_products.product_id AS variant_of
+FROM public.inventory_levels AS levels
+JOIN public.warehouses AS warehouses ON warehouses.id = levels.warehouse_id
+LEFT JOIN public.products AS products ON products.id::text = levels.product_id
+LEFT JOIN LATERAL (
+    SELECT
+        candidates.id::text AS product_id,
+        candidates.name,
+        variant,
+        (
+            SELECT string_agg(variant->'options'->>(option->>'name'), ' / ' ORDER BY position)
+            FROM jsonb_array_elements(candidates.options) WITH ORDINALITY AS product_options(option, position)
+            WHERE jsonb_typeof(candidates.options) = 'array'
+        ) AS variant_title
+    FROM public.products AS candidates
+    CROSS JOIN jsonb_array_elements(candidates.variants) AS variant
+    WHERE products.id IS NULL AND variant->>'id' = levels.product_id
+    LIMIT 1
+) AS variant_products ON true;
+
+REVOKE ALL ON public.inventory_by_location FROM anon, authenticated;
+
+COMMENT ON COLUMN public.products.options IS 'Option names and their values, e.g. [{"name": "Size", "values": ["S", "M"]}]';
+COMMENT ON COLUMN public.products.variants IS 'Purchasable option combinations, each with its own id, sku, price, stock and images';
+COMMENT ON COLUMN public.order_items.variant_id IS 'Variant bought, for products with variants';
+COMMENT ON COLUMN public.shipment_items.variant_id IS 'Variant packed, for products with variants';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Product variants set up successfully!';
+    RAISE NOTICE 'Columns added: order_items.variant_id, shipment_items.variant_id, shipment_items.sku, shipment_items.variant_title';
+    RAISE NOTICE 'Constraints added: products_variants_is_array';
+    RAISE NOTICE 'Views updated: inventory_by_location';
+END $$;
@@ -0,0 +1,74 @@
+-- Promotions Engine Setup for Aurora Commerce
+-- Rule definitions read by src/services/promotions.ts and evaluated by src/services/pricing.ts
+-- Merchandisers can add, schedule and retire promotions here without a deploy
+
+-- 1. PROMOTIONS TABLE
+CREATE TABLE IF NOT EXISTS public.promotions (
+    id VARCHAR(100) PRIMARY KEY, -- Stable slug, e.g. 'bulk-discount-200'
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+
+    -- Effect
+    effect_type VARCHAR(20) NOT NULL CHECK (effect_type IN ('percentage', 'fixed_amount', 'buy_x_get_y', 'free_shipping')),
+    effect_value DECIMAL(10,2) CHECK (effect_value >= 0), -- Percent, amount off, or BOGO discount percent
+    buy_quantity INTEGER CHECK (buy_quantity > 0), -- buy_x_get_y only
+    get_quantity INTEGER CHECK (get_quantity > 0), -- buy_x_get_y only
+
+    -- Conditions
+    min_subtotal DECIMAL(10,2) CHECK (min_subtotal >= 0),
+    min_quantity INTEGER CHECK (min_quantity > 0),
+    categories TEXT[], -- Scope to these product categories
+    tags TEXT[], -- Scope to products with any of these tags
+    customer_tiers TEXT[], -- bronze, silver, gold, platinum
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+
+    -- Stacking
+    priority INTEGER NOT NULL DEFAULT 0, -- Higher runs first
+    is_exclusive BOOLEAN NOT NULL DEFAULT false, -- Exclusive promotions never combine with others
+    is_active BOOLEAN NOT NULL DEFAULT true,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT check_promotion_window CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at),
+    CONSTRAINT check_buy_x_get_y CHECK (effect_type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_active ON public.promotions(is_active, priority DESC);
+CREATE INDEX IF NOT EXISTS idx_promotions_window ON public.promotions(starts_at, ends_at);
+
+CREATE TRIGGER update_promotions_updated_at BEFORE UPDATE ON public.promotions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+-- Active promotions are public so the storefront can display them
+CREATE POLICY "Active promotions are viewable by everyone" ON public.promotions
+    FOR SELECT USING (is_active = true);
+
+GRANT SELECT ON public.promotions TO anon, authenticated;
+
+-- Seed the built-in promotions (equivalent to DEFAULT_PROMOTIONS in pricing.ts)
+INSERT INTO public.promotions (id, name, description, effect_type, effect_value, min_subtotal, min_quantity, customer_tiers, priority, is_exclusive) VALUES
+('bulk-discount-200', 'Bulk Order Discount', 'Get 10% off orders over $200', 'percentage', 10, 200, NULL, NULL, 0, true),
+('loyalty-discount-100', 'Loyalty Customer Discount', 'Get 5% off orders over $100 (loyalty members)', 'percentage', 5, 100, NULL, ARRAY['silver', 'gold', 'platinum'], 0, true),
+('free-shipping-150', 'Free Shipping', 'Free shipping on orders over $150', 'free_shipping', NULL, 150, NULL, NULL, 0, true),
+('quantity-discount-3', 'Volume Discount', 'Buy 3+ items and get 15% off', 'percentage', 15, NULL, 3, NULL, 0, true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Example: scheduled, stackable category BOGO (disabled by default)
+INSERT INTO public.promotions (id, name, description, effect_type, effect_value, buy_quantity, get_quantity, categories, priority, is_exclusive, is_active) VALUES
+('clothing-bogo', 'Clothing BOGO', 'Buy one clothing item, get one free', 'buy_x_get_y', 100, 1, 1, ARRAY['Clothing'], 10, false, false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE public.promotions IS 'Data-driven promotion rules evaluated by the pricing engine';
+COMMENT ON COLUMN public.promotions.priority IS 'Evaluation order; higher priority promotions are applied first';
+COMMENT ON COLUMN public.promotions.is_exclusive IS 'Exclusive promotions only apply when no other promotion has been applied, and block later ones';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Promotions table created successfully!';
+    RAISE NOTICE 'Built-in promotions seeded: bulk-discount-200, loyalty-discount-100, free-shipping-150, quantity-discount-3';
+END $$;
@@ -0,0 +1,206 @@
+-- Purchasing Setup for Aurora Commerce
+-- Suppliers, per-product supplier terms and purchase orders used by
+-- src/services/purchaseOrders.ts. Run after inventory-setup.sql.
+
+-- 1. SUPPLIERS TABLE
+CREATE TABLE IF NOT EXISTS public.suppliers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    contact_name VARCHAR(255),
+    email VARCHAR(255),
+    phone VARCHAR(50),
+    address TEXT,
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+    default_lead_time_days INTEGER NOT NULL DEFAULT 14 CHECK (default_lead_time_days >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 2. PRODUCT_SUPPLIERS TABLE
+-- Who a product is bought from, at what cost and lead time. The preferred
+-- supplier receives auto-generated purchase orders.
+CREATE TABLE IF NOT EXISTS public.product_suppliers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id TEXT NOT NULL,
+    supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+    supplier_sku VARCHAR(100),
+    unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+    lead_time_days INTEGER CHECK (lead_time_days >= 0), -- NULL uses the supplier default
+    min_order_quantity INTEGER NOT NULL DEFAULT 1 CHECK (min_order_quantity > 0),
+    is_preferred BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_product_supplier UNIQUE (product_id, supplier_id)
+);
+
+-- Only one preferred supplier per product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_suppliers_preferred ON public.product_suppliers(product_id) WHERE is_preferred;
+
+-- 3. REORDER QUANTITY
+-- How much to order when a location drops to its reorder point
+-- (NULL orders up to twice the reorder point)
+ALTER TABLE public.inventory_levels ADD COLUMN IF NOT EXISTS reorder_quantity INTEGER CHECK (reorder_quantity > 0);
+
+-- Expose it on the dashboard view (new columns go last)
+CREATE OR REPLACE VIEW public.inventory_by_location AS
+SELECT
+    levels.id,
+    levels.product_id,
+    COALESCE(products.name, levels.product_id) AS product_name,
+    products.sku,
+    levels.warehouse_id,
+    warehouses.name AS warehouse_name,
+    levels.on_hand,
+    levels.reserved,
+    levels.available,
+    levels.reorder_point,
+    CASE
+        WHEN levels.available <= 0 THEN 'out_of_stock'
+        WHEN levels.available <= levels.reorder_point / 2 THEN 'critical'
+        WHEN levels.available <= levels.reorder_point THEN 'low'
+        ELSE 'normal'
+    END AS stock_status,
+    levels.updated_at,
+    levels.reorder_quantity
+FROM public.inventory_levels AS levels
+JOIN public.warehouses AS warehouses ON warehouses.id = levels.warehouse_id
+LEFT JOIN public.products AS products ON products.id::text = levels.product_id;
+
+-- 4. PURCHASE_ORDERS TABLE
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    po_number VARCHAR(50) UNIQUE NOT NULL,
+    supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+    warehouse_id VARCHAR(50) NOT NULL REFERENCES public.warehouses(id), -- Deliver to
+    status VARCHAR(30) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+    source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'auto')),
+    currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+    subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+    expected_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 5. PURCHASE_ORDER_LINES TABLE
+CREATE TABLE IF NOT EXISTS public.purchase_order_lines (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+    product_id TEXT NOT NULL,
+    supplier_sku VARCHAR(100),
+    description VARCHAR(255),
+    quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+    quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+    unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT received_within_ordered CHECK (quantity_received <= quantity_ordered),
+    CONSTRAINT unique_purchase_order_product UNIQUE (purchase_order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_suppliers_product ON public.product_suppliers(product_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON public.purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON public.purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_po ON public.purchase_order_lines(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_product ON public.purchase_order_lines(product_id);
+
+CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON public.suppliers FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_product_suppliers_updated_at BEFORE UPDATE ON public.product_suppliers FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON public.purchase_orders FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_purchase_order_lines_updated_at BEFORE UPDATE ON public.purchase_order_lines FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 6. RECEIVE A PURCHASE ORDER
+-- p_lines: [{ "line_id": "...", "quantity": 5 }, ...]
+-- Adds the received quantities to on-hand stock at the PO's warehouse,
+-- writes 'receipt' movements to the inventory ledger and moves the PO to
+-- partially_received or received. All or nothing.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+    p_purchase_order_id UUID,
+    p_lines JSONB,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS public.purchase_orders AS $$
+DECLARE
+    po public.purchase_orders%ROWTYPE;
+    received JSONB;
+    line public.purchase_order_lines%ROWTYPE;
+    level public.inventory_levels%ROWTYPE;
+    quantity INTEGER;
+BEGIN
+    SELECT * INTO po FROM public.purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id;
+    END IF;
+    IF po.status NOT IN ('sent', 'partially_received') THEN
+        RAISE EXCEPTION 'Purchase order % is %, only sent orders can be received', po.po_number, po.status;
+    END IF;
+
+    FOR received IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        quantity := (received->>'quantity')::INTEGER;
+        CONTINUE WHEN quantity IS NULL OR quantity <= 0;
+
+        UPDATE public.purchase_order_lines
+        SET quantity_received = quantity_received + quantity
+        WHERE id = (received->>'line_id')::UUID
+          AND purchase_order_id = po.id
+          AND quantity_received + quantity <= quantity_ordered
+        RETURNING * INTO line;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Cannot receive % more of line % on %', quantity, received->>'line_id', po.po_number;
+        END IF;
+
+        INSERT INTO public.inventory_levels (product_id, warehouse_id, on_hand)
+        VALUES (line.product_id, po.warehouse_id, quantity)
+        ON CONFLICT (product_id, warehouse_id)
+        DO UPDATE SET on_hand = public.inventory_levels.on_hand + quantity
+        RETURNING * INTO level;
+
+        INSERT INTO public.inventory_movements (product_id, warehouse_id, movement_type, on_hand_change, on_hand_after, reserved_after, reference_type, reference_id, notes)
+        VALUES (line.product_id, po.warehouse_id, 'receipt', quantity, level.on_hand, level.reserved, 'purchase_order', po.po_number, p_notes);
+    END LOOP;
+
+    UPDATE public.purchase_orders
+    SET status = CASE
+            WHEN NOT EXISTS (
+                SELECT 1 FROM public.purchase_order_lines
+                WHERE purchase_order_id = po.id AND quantity_received < quantity_ordered
+            ) THEN 'received'
+            ELSE 'partially_received'
+        END,
+        received_at = NOW()
+    WHERE id = po.id
+    RETURNING * INTO po;
+
+    RETURN po;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Enable Row Level Security (RLS)
+-- Purchasing is managed through the admin API with the service role
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON FUNCTION public.receive_purchase_order(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.suppliers IS 'Vendors that stock is bought from';
+COMMENT ON TABLE public.product_suppliers IS 'Supplier cost, lead time and minimum order quantity per product';
+COMMENT ON TABLE public.purchase_orders IS 'Purchase orders: draft -> sent -> partially_received/received, or cancelled';
+COMMENT ON COLUMN public.purchase_orders.source IS 'auto when drafted from a low_stock/critical_stock inventory alert';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Purchasing tables created successfully!';
+    RAISE NOTICE 'Tables created: suppliers, product_suppliers, purchase_orders, purchase_order_lines';
+    RAISE NOTICE 'Function created: receive_purchase_order';
+END $$;
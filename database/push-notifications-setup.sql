@@ -0,0 +1,54 @@
+-- Push Notifications Setup for Aurora Commerce
+-- Per-category notification settings and back-in-stock / price-drop alerts
+-- for the mobile app. Device tokens live in device_tokens
+-- (database/mobile-api-setup.sql). Used by src/services/pushNotifications.ts.
+
+-- 1. NOTIFICATION_PREFERENCES TABLE
+-- No row means every category is on
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    order_updates BOOLEAN NOT NULL DEFAULT TRUE,
+    shipping BOOLEAN NOT NULL DEFAULT TRUE,
+    back_in_stock BOOLEAN NOT NULL DEFAULT TRUE,
+    price_drop BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_notification_preferences_updated_at BEFORE UPDATE ON public.notification_preferences FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. PRODUCT_ALERTS TABLE
+-- Each alert fires once (notified_at); signing up again re-arms it
+CREATE TABLE IF NOT EXISTS public.product_alerts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    product_id VARCHAR(255) NOT NULL,
+    alert_type VARCHAR(20) NOT NULL CHECK (alert_type IN ('back_in_stock', 'price_drop')),
+    price_at_signup DECIMAL(10,2), -- Base currency; a price_drop alert fires below this
+    notified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, product_id, alert_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_alerts_pending ON public.product_alerts(created_at) WHERE notified_at IS NULL;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own settings and alerts; writes go through the service role
+CREATE POLICY "Users can view own notification preferences" ON public.notification_preferences
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own product alerts" ON public.product_alerts
+    FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.notification_preferences IS 'Push notification categories each user has turned on or off';
+COMMENT ON TABLE public.product_alerts IS 'Back-in-stock and price-drop alerts, sent by the fulfillment worker';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Push notifications setup completed successfully!';
+    RAISE NOTICE 'Tables created: notification_preferences, product_alerts';
+END $$;
@@ -0,0 +1,83 @@
+-- Staff Roles and Audit Log Setup for Aurora Commerce
+-- Roles that unlock the admin dashboards and APIs (src/services/roles.ts)
+-- and the audit log of privileged actions (src/services/auditLog.ts)
+
+-- 1. STAFF_ROLES TABLE
+-- A user can hold several roles; customers have none
+CREATE TABLE IF NOT EXISTS public.staff_roles (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'admin', 'fulfillment', 'support', 'marketing')),
+    user_email VARCHAR(255),
+    granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_roles_role ON public.staff_roles(role);
+
+-- 2. FIND A USER BY EMAIL
+-- Used when an owner grants a role to an email address
+CREATE OR REPLACE FUNCTION public.find_user_id_by_email(p_email VARCHAR)
+RETURNS UUID AS $$
+    SELECT id FROM auth.users WHERE lower(email) = lower(p_email) LIMIT 1;
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+REVOKE ALL ON FUNCTION public.find_user_id_by_email(VARCHAR) FROM PUBLIC, anon, authenticated;
+
+-- 3. AUDIT_LOG TABLE
+-- One row per privileged action (order status changes, refunds, role
+-- changes, cache purges, entity blocks ...). Append-only.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    actor_email VARCHAR(255), -- Kept when the staff account is deleted
+    action VARCHAR(100) NOT NULL, -- '<resource>.<action>', e.g. 'order.update_status'
+    resource_type VARCHAR(50) NOT NULL,
+    resource_id VARCHAR(255),
+    metadata JSONB NOT NULL DEFAULT '{}',
+    ip_address VARCHAR(64),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created ON public.audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON public.audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_resource ON public.audit_log(resource_type, resource_id);
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Deleting a staff account nulls actor_id; everything else is refused
+    IF TG_OP = 'UPDATE' AND NEW.actor_id IS NULL AND OLD.actor_id IS NOT NULL
+       AND (to_jsonb(NEW) - 'actor_id') = (to_jsonb(OLD) - 'actor_id') THEN
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON public.audit_log;
+CREATE TRIGGER audit_log_append_only BEFORE UPDATE OR DELETE ON public.audit_log FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Enable Row Level Security (RLS)
+-- Both tables are read and written by the server with the service role only
+ALTER TABLE public.staff_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.staff_roles IS 'Staff roles; permissions per role are defined in src/services/roles.ts';
+COMMENT ON TABLE public.audit_log IS 'Append-only log of privileged admin actions, listed by GET /api/admin/audit-log';
+
+-- 4. FIRST OWNER
+-- Roles are managed by owners (POST /api/admin/staff), so the first owner is
+-- added by hand once they have signed up:
+--
+--   INSERT INTO public.staff_roles (user_id, role, user_email)
+--   SELECT id, 'owner', email FROM auth.users WHERE email = 'you@example.com';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Staff roles and audit log setup completed successfully!';
+    RAISE NOTICE 'Tables created: staff_roles, audit_log';
+    RAISE NOTICE 'Function created: find_user_id_by_email';
+    RAISE NOTICE 'Add the first owner with the INSERT in section 4';
+END $$;
@@ -0,0 +1,171 @@
+-- Returns (RMA) Setup for Aurora Commerce
+-- Return requests per order line, return labels, receipt with restocking
+-- and refunds. Used by src/services/returns.ts. Run after inventory-setup.sql
+-- and stripe-events-setup.sql.
+
+-- 1. RETURN_REQUESTS TABLE
+CREATE TABLE IF NOT EXISTS public.return_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    rma_number VARCHAR(50) UNIQUE NOT NULL,
+    order_id TEXT NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    customer_email VARCHAR(255),
+    status VARCHAR(20) NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'approved', 'rejected', 'received', 'refunded', 'cancelled')),
+    customer_comments TEXT,
+    photo_paths TEXT[] NOT NULL DEFAULT '{}', -- Objects in the return-photos storage bucket
+    warehouse_id VARCHAR(50) REFERENCES public.warehouses(id), -- Where the parcel is sent back to
+
+    -- Return label
+    carrier VARCHAR(50),
+    service VARCHAR(100),
+    tracking_number VARCHAR(255),
+    label_id VARCHAR(255),
+    label_format VARCHAR(10),
+    label_data TEXT,
+    label_url TEXT,
+
+    -- Refund
+    refund_amount DECIMAL(10,2),
+    refund_currency VARCHAR(3),
+    stripe_refund_id VARCHAR(255),
+
+    admin_notes TEXT,
+    rejection_reason TEXT,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE,
+    refunded_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 2. RETURN_ITEMS TABLE
+CREATE TABLE IF NOT EXISTS public.return_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    return_id UUID NOT NULL REFERENCES public.return_requests(id) ON DELETE CASCADE,
+    order_id TEXT NOT NULL,
+    product_id TEXT NOT NULL,
+    product_name VARCHAR(255),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_price DECIMAL(10,2) NOT NULL DEFAULT 0, -- Base currency, as stored on the order
+    reason VARCHAR(30) NOT NULL CHECK (reason IN ('damaged', 'defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other')),
+    reason_details TEXT,
+    quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+    quantity_restocked INTEGER NOT NULL DEFAULT 0 CHECK (quantity_restocked >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT received_within_requested CHECK (quantity_received <= quantity),
+    CONSTRAINT restocked_within_received CHECK (quantity_restocked <= quantity_received)
+);
+
+CREATE INDEX IF NOT EXISTS idx_return_requests_order ON public.return_requests(order_id);
+CREATE INDEX IF NOT EXISTS idx_return_requests_status ON public.return_requests(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_return_items_return ON public.return_items(return_id);
+CREATE INDEX IF NOT EXISTS idx_return_items_order ON public.return_items(order_id);
+
+CREATE TRIGGER update_return_requests_updated_at BEFORE UPDATE ON public.return_requests FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_return_items_updated_at BEFORE UPDATE ON public.return_items FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. RETURNED ORDER STATUS
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_status_check CHECK (status IN ('pending', 'paid', 'confirmed', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled', 'returned', 'refunded'));
+
+-- 4. RECEIVE A RETURN
+-- p_items: [{ "item_id": "...", "quantity_received": 2, "quantity_restocked": 1 }, ...]
+-- Records what came back, puts resellable units back on hand at the
+-- return's warehouse with 'return' movements in the inventory ledger and
+-- marks the return received. All or nothing.
+CREATE OR REPLACE FUNCTION public.receive_return(
+    p_return_id UUID,
+    p_items JSONB
+)
+RETURNS public.return_requests AS $$
+DECLARE
+    rma public.return_requests%ROWTYPE;
+    received JSONB;
+    item public.return_items%ROWTYPE;
+    level public.inventory_levels%ROWTYPE;
+    restock INTEGER;
+BEGIN
+    SELECT * INTO rma FROM public.return_requests WHERE id = p_return_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Return % not found', p_return_id;
+    END IF;
+    IF rma.status <> 'approved' THEN
+        RAISE EXCEPTION 'Return % is %, only approved returns can be received', rma.rma_number, rma.status;
+    END IF;
+
+    FOR received IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+        restock := COALESCE((received->>'quantity_restocked')::INTEGER, 0);
+
+        UPDATE public.return_items
+        SET quantity_received = (received->>'quantity_received')::INTEGER,
+            quantity_restocked = restock
+        WHERE id = (received->>'item_id')::UUID
+          AND return_id = rma.id
+        RETURNING * INTO item;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Item % is not part of return %', received->>'item_id', rma.rma_number;
+        END IF;
+
+        -- Only products whose stock is tracked at this warehouse are restocked
+        IF restock > 0 AND rma.warehouse_id IS NOT NULL THEN
+            UPDATE public.inventory_levels
+            SET on_hand = on_hand + restock
+            WHERE product_id = item.product_id AND warehouse_id = rma.warehouse_id
+            RETURNING * INTO level;
+
+            IF FOUND THEN
+                INSERT INTO public.inventory_movements (product_id, warehouse_id, movement_type, on_hand_change, on_hand_after, reserved_after, reference_type, reference_id, notes)
+                VALUES (item.product_id, rma.warehouse_id, 'return', restock, level.on_hand, level.reserved, 'return', rma.rma_number, item.reason);
+            END IF;
+        END IF;
+    END LOOP;
+
+    UPDATE public.return_requests
+    SET status = 'received', received_at = NOW()
+    WHERE id = rma.id
+    RETURNING * INTO rma;
+
+    RETURN rma;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. RETURN PHOTOS BUCKET
+-- Private; admins view photos through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('return-photos', 'return-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.return_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.return_items ENABLE ROW LEVEL SECURITY;
+
+-- Customers can see their own returns; all writes go through the API
+CREATE POLICY "Users can view own returns" ON public.return_requests
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own return items" ON public.return_items
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.return_requests
+            WHERE return_requests.id = return_items.return_id
+            AND return_requests.user_id = auth.uid()
+        )
+    );
+
+REVOKE ALL ON FUNCTION public.receive_return(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.return_requests IS 'Return merchandise authorizations: requested -> approved -> received -> refunded, or rejected/cancelled';
+COMMENT ON COLUMN public.return_items.unit_price IS 'Base currency; refunds are converted with the order exchange rate';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Returns tables created successfully!';
+    RAISE NOTICE 'Tables created: return_requests, return_items';
+    RAISE NOTICE 'Function created: receive_return';
+    RAISE NOTICE 'Storage bucket created: return-photos';
+END $$;
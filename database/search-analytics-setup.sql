@@ -0,0 +1,233 @@
+-- Search Analytics Setup for Aurora Commerce
+-- Every storefront and app search with its result count, the results that
+-- were clicked and the orders that followed, for popular-search suggestions
+-- and the search report on /admin/analytics. Used by
+-- src/services/searchAnalytics.ts.
+
+-- 1. SEARCH_QUERIES TABLE
+-- One row per search. Searches typed in quick succession by the same
+-- session ("hea", "headph", "headphones") are folded into one row by
+-- log_search_query so partial queries don't crowd the report.
+CREATE TABLE IF NOT EXISTS public.search_queries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    query TEXT NOT NULL, -- As typed
+    normalized_query TEXT NOT NULL, -- Lowercased, single spaces; what the report groups by
+    result_count INTEGER NOT NULL DEFAULT 0 CHECK (result_count >= 0),
+    all_terms_matched BOOLEAN NOT NULL DEFAULT true, -- false when results only matched some words
+    filters JSONB DEFAULT '{}'::jsonb,
+    source VARCHAR(20) NOT NULL DEFAULT 'web' CHECK (source IN ('web', 'mobile')),
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    session_id VARCHAR(255), -- Guest cart session (aurora_cart_session cookie or x-cart-session header)
+    order_id TEXT, -- First order that bought a product clicked from this search
+    converted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.search_queries ADD COLUMN IF NOT EXISTS all_terms_matched BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_search_queries_created ON public.search_queries(created_at);
+CREATE INDEX IF NOT EXISTS idx_search_queries_normalized ON public.search_queries(normalized_query, created_at);
+CREATE INDEX IF NOT EXISTS idx_search_queries_user ON public.search_queries(user_id, created_at) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_search_queries_session ON public.search_queries(session_id, created_at) WHERE session_id IS NOT NULL;
+
+CREATE TRIGGER update_search_queries_updated_at BEFORE UPDATE ON public.search_queries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. SEARCH_CLICKS TABLE
+-- Results opened from a search; position is 1-based
+CREATE TABLE IF NOT EXISTS public.search_clicks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    search_id UUID NOT NULL REFERENCES public.search_queries(id) ON DELETE CASCADE,
+    product_id TEXT NOT NULL,
+    position INTEGER CHECK (position > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_clicks_search ON public.search_clicks(search_id);
+CREATE INDEX IF NOT EXISTS idx_search_clicks_product ON public.search_clicks(product_id);
+
+-- 3. LOG A SEARCH
+-- Inserts the search and returns its id. When the same session searched
+-- within the last 30 seconds for a prefix or extension of this query (the
+-- customer is still typing, or changed a filter) and hasn't clicked a
+-- result yet, that row is updated instead.
+DROP FUNCTION IF EXISTS public.log_search_query(TEXT, TEXT, INTEGER, JSONB, VARCHAR, UUID, VARCHAR);
+CREATE OR REPLACE FUNCTION public.log_search_query(
+    p_query TEXT,
+    p_normalized_query TEXT,
+    p_result_count INTEGER,
+    p_all_terms_matched BOOLEAN,
+    p_filters JSONB,
+    p_source VARCHAR,
+    p_user_id UUID,
+    p_session_id VARCHAR
+)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID;
+BEGIN
+    IF p_user_id IS NOT NULL OR p_session_id IS NOT NULL THEN
+        SELECT q.id INTO v_id
+        FROM public.search_queries q
+        WHERE q.created_at > NOW() - INTERVAL '30 seconds'
+          AND q.source = p_source
+          AND (q.user_id = p_user_id OR q.session_id = p_session_id)
+          AND (starts_with(p_normalized_query, q.normalized_query) OR starts_with(q.normalized_query, p_normalized_query))
+          AND NOT EXISTS (SELECT 1 FROM public.search_clicks c WHERE c.search_id = q.id)
+        ORDER BY q.created_at DESC
+        LIMIT 1
+        FOR UPDATE;
+
+        IF v_id IS NOT NULL THEN
+            UPDATE public.search_queries
+            SET query = p_query,
+                normalized_query = p_normalized_query,
+                result_count = p_result_count,
+                all_terms_matched = p_all_terms_matched,
+                filters = COALESCE(p_filters, '{}'::jsonb),
+                created_at = NOW()
+            WHERE id = v_id;
+            RETURN v_id;
+        END IF;
+    END IF;
+
+    INSERT INTO public.search_queries (query, normalized_query, result_count, all_terms_matched, filters, source, user_id, session_id)
+    VALUES (p_query, p_normalized_query, p_result_count, p_all_terms_matched, COALESCE(p_filters, '{}'::jsonb), p_source, p_user_id, p_session_id)
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. ATTRIBUTE AN ORDER TO SEARCHES
+-- Marks the customer's searches from the last p_window_days whose clicked
+-- results are in the order as converted. Returns how many were marked.
+CREATE OR REPLACE FUNCTION public.attribute_search_conversions(
+    p_order_id TEXT,
+    p_user_id UUID,
+    p_session_id VARCHAR,
+    p_product_ids TEXT[],
+    p_window_days INTEGER DEFAULT 7
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF p_user_id IS NULL AND p_session_id IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    UPDATE public.search_queries q
+    SET order_id = p_order_id,
+        converted_at = NOW()
+    WHERE q.converted_at IS NULL
+      AND q.created_at > NOW() - make_interval(days => p_window_days)
+      AND (q.user_id = p_user_id OR q.session_id = p_session_id)
+      AND EXISTS (
+          SELECT 1 FROM public.search_clicks c
+          WHERE c.search_id = q.id AND c.product_id = ANY(p_product_ids)
+      );
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. POPULAR SEARCHES
+-- Queries that found something for every word, by how many users or
+-- sessions searched them; feeds the search box completions. Searches with
+-- neither can't be told apart and aren't counted, and a query needs
+-- p_min_sessions different searchers before it is returned
+DROP FUNCTION IF EXISTS public.popular_search_queries(TIMESTAMP WITH TIME ZONE, INTEGER);
+CREATE OR REPLACE FUNCTION public.popular_search_queries(
+    p_since TIMESTAMP WITH TIME ZONE,
+    p_min_sessions INTEGER DEFAULT 3,
+    p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (query TEXT, searches BIGINT) AS $$
+    SELECT q.normalized_query,
+           COUNT(DISTINCT COALESCE(q.user_id::text, q.session_id))
+    FROM public.search_queries q
+    WHERE q.created_at >= p_since
+      AND q.result_count > 0
+      AND q.all_terms_matched
+      AND (q.user_id IS NOT NULL OR q.session_id IS NOT NULL)
+    GROUP BY q.normalized_query
+    HAVING COUNT(DISTINCT COALESCE(q.user_id::text, q.session_id)) >= p_min_sessions
+    ORDER BY 2 DESC, q.normalized_query
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- 6. SEARCH REPORT
+-- Totals, top searches and zero-result searches since p_since
+CREATE OR REPLACE FUNCTION public.search_report(
+    p_since TIMESTAMP WITH TIME ZONE,
+    p_limit INTEGER DEFAULT 20
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_summary JSONB;
+    v_top JSONB;
+    v_zero JSONB;
+BEGIN
+    SELECT jsonb_build_object(
+        'searches', COUNT(*),
+        'zero_result_searches', COUNT(*) FILTER (WHERE q.result_count = 0),
+        'searches_with_clicks', COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM public.search_clicks c WHERE c.search_id = q.id)),
+        'converted_searches', COUNT(*) FILTER (WHERE q.converted_at IS NOT NULL),
+        'orders', COUNT(DISTINCT q.order_id)
+    ) INTO v_summary
+    FROM public.search_queries q
+    WHERE q.created_at >= p_since;
+
+    SELECT COALESCE(jsonb_agg(row_to_json(top)::jsonb), '[]'::jsonb) INTO v_top
+    FROM (
+        SELECT q.normalized_query AS query,
+               COUNT(*) AS searches,
+               ROUND(AVG(q.result_count), 1) AS avg_results,
+               COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM public.search_clicks c WHERE c.search_id = q.id)) AS searches_with_clicks,
+               COUNT(*) FILTER (WHERE q.converted_at IS NOT NULL) AS converted_searches,
+               MAX(q.created_at) AS last_searched_at
+        FROM public.search_queries q
+        WHERE q.created_at >= p_since
+        GROUP BY q.normalized_query
+        ORDER BY COUNT(*) DESC, q.normalized_query
+        LIMIT p_limit
+    ) top;
+
+    SELECT COALESCE(jsonb_agg(row_to_json(zero)::jsonb), '[]'::jsonb) INTO v_zero
+    FROM (
+        SELECT q.normalized_query AS query,
+               COUNT(*) AS searches,
+               MAX(q.created_at) AS last_searched_at
+        FROM public.search_queries q
+        WHERE q.created_at >= p_since AND q.result_count = 0
+        GROUP BY q.normalized_query
+        ORDER BY COUNT(*) DESC, MAX(q.created_at) DESC
+        LIMIT p_limit
+    ) zero;
+
+    RETURN jsonb_build_object('summary', v_summary, 'top_queries', v_top, 'zero_result_queries', v_zero);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.log_search_query(TEXT, TEXT, INTEGER, BOOLEAN, JSONB, VARCHAR, UUID, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.attribute_search_conversions(TEXT, UUID, VARCHAR, TEXT[], INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.popular_search_queries(TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.search_report(TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Enable Row Level Security (RLS)
+-- No policies: searches are only read and written with the service role
+ALTER TABLE public.search_queries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.search_clicks ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.search_queries IS 'Storefront and app searches with their result counts and the orders they led to';
+COMMENT ON TABLE public.search_clicks IS 'Search results customers opened, with their position in the results';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Search analytics setup completed successfully!';
+    RAISE NOTICE 'Tables created: search_queries, search_clicks';
+    RAISE NOTICE 'Functions created: log_search_query, attribute_search_conversions, popular_search_queries, search_report';
+END $$;
@@ -0,0 +1,17 @@
+-- Shipping Setup for Aurora Commerce
+-- Product weights and dimensions used for carrier rating in src/services/carriers.ts
+
+-- Billable weight is the greater of actual weight and dimensional weight (L x W x H / 5000)
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS weight_kg DECIMAL(8,3) CHECK (weight_kg >= 0);
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS length_cm DECIMAL(8,2) CHECK (length_cm >= 0);
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS width_cm DECIMAL(8,2) CHECK (width_cm >= 0);
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS height_cm DECIMAL(8,2) CHECK (height_cm >= 0);
+
+COMMENT ON COLUMN public.products.weight_kg IS 'Shipping weight in kg; products without one are rated at 0.5 kg';
+COMMENT ON COLUMN public.products.length_cm IS 'Packed length in cm, used with width_cm and height_cm for dimensional weight';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Shipping columns added: products.weight_kg, length_cm, width_cm, height_cm';
+END $$;
@@ -0,0 +1,59 @@
+-- Split Shipments Setup for Aurora Commerce
+-- An order has many shipments, each with its own line items, warehouse,
+-- carrier and tracking. Used by src/services/shipments.ts.
+-- Run after tracking-setup.sql and fulfillment-jobs-setup.sql.
+
+-- 1. SHIPMENTS: FULFILLMENT TYPE AND WAREHOUSE
+-- Shipments are planned before a label is bought (status 'pending'), and
+-- digital shipments never get a carrier or tracking number
+ALTER TABLE public.shipments ADD COLUMN IF NOT EXISTS fulfillment_type VARCHAR(20) NOT NULL DEFAULT 'physical' CHECK (fulfillment_type IN ('physical', 'digital'));
+ALTER TABLE public.shipments ADD COLUMN IF NOT EXISTS warehouse_id VARCHAR(50);
+ALTER TABLE public.shipments ALTER COLUMN carrier DROP NOT NULL;
+ALTER TABLE public.shipments ALTER COLUMN tracking_number DROP NOT NULL;
+ALTER TABLE public.shipments ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE public.shipments DROP CONSTRAINT IF EXISTS shipments_status_check;
+ALTER TABLE public.shipments ADD CONSTRAINT shipments_status_check CHECK (status IN ('pending', 'label_created', 'in_transit', 'out_for_delivery', 'delivered', 'exception'));
+
+-- 2. SHIPMENT_ITEMS TABLE
+-- The order lines (and quantities) packed into each shipment
+CREATE TABLE IF NOT EXISTS public.shipment_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    shipment_id UUID NOT NULL REFERENCES public.shipments(id) ON DELETE CASCADE,
+    order_id TEXT NOT NULL,
+    product_id TEXT NOT NULL,
+    product_name VARCHAR(255),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_price DECIMAL(10,2),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipment_items_shipment ON public.shipment_items(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_items_order ON public.shipment_items(order_id);
+
+-- 3. ORDERS: PARTIALLY SHIPPED
+-- Order status is derived from its shipments (see updateOrderFromShipments)
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_status_check CHECK (status IN ('pending', 'paid', 'confirmed', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled', 'refunded'));
+
+-- 4. FULFILLMENT JOBS: ONE LABEL JOB PER SHIPMENT
+ALTER TABLE public.fulfillment_jobs ADD COLUMN IF NOT EXISTS shipment_id UUID REFERENCES public.shipments(id) ON DELETE CASCADE;
+ALTER TABLE public.fulfillment_jobs DROP CONSTRAINT IF EXISTS fulfillment_jobs_job_type_check;
+ALTER TABLE public.fulfillment_jobs ADD CONSTRAINT fulfillment_jobs_job_type_check CHECK (job_type IN ('plan_shipments', 'reserve_inventory', 'notify_erp', 'purchase_label'));
+
+CREATE INDEX IF NOT EXISTS idx_fulfillment_jobs_shipment ON public.fulfillment_jobs(shipment_id);
+
+-- Enable Row Level Security (RLS)
+-- Shipment items are served through the API with the service role
+ALTER TABLE public.shipment_items ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.shipment_items IS 'Order lines packed into each shipment; an order line can be split across shipments';
+COMMENT ON COLUMN public.shipments.fulfillment_type IS 'digital shipments are delivered as soon as they are planned';
+COMMENT ON COLUMN public.fulfillment_jobs.shipment_id IS 'Set on purchase_label jobs, one per physical shipment';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Split shipments set up successfully!';
+    RAISE NOTICE 'Tables created: shipment_items';
+    RAISE NOTICE 'Columns added: shipments.fulfillment_type, shipments.warehouse_id, fulfillment_jobs.shipment_id';
+END $$;
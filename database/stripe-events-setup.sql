@@ -0,0 +1,120 @@
+-- Stripe Events Setup for Aurora Commerce
+-- Idempotent webhook event store, payment columns on orders and the
+-- subscription mirror kept in sync by src/services/stripeWebhookHandlers.ts
+
+-- 1. STRIPE_EVENTS TABLE
+-- One row per Stripe event id. Duplicate deliveries of a processed event
+-- are no-ops; failed runs keep their payload so they can be replayed.
+CREATE TABLE IF NOT EXISTS public.stripe_events (
+    id VARCHAR(255) PRIMARY KEY, -- Stripe event id (evt_...)
+    event_type VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed', 'ignored')),
+    payload JSONB NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    last_error TEXT,
+    livemode BOOLEAN NOT NULL DEFAULT false,
+    stripe_created_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON public.stripe_events(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_type ON public.stripe_events(event_type);
+
+CREATE TRIGGER update_stripe_events_updated_at BEFORE UPDATE ON public.stripe_events FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. CLAIM AN EVENT FOR PROCESSING
+-- Returns true when the caller should run the handler: the event is new,
+-- it failed before, or a previous run has been stuck in processing for
+-- 10 minutes (crashed worker). p_force claims processed events too (replay).
+CREATE OR REPLACE FUNCTION public.claim_stripe_event(
+    p_id VARCHAR,
+    p_event_type VARCHAR,
+    p_payload JSONB,
+    p_livemode BOOLEAN DEFAULT false,
+    p_stripe_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_force BOOLEAN DEFAULT false
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    claimed_id VARCHAR;
+BEGIN
+    INSERT INTO public.stripe_events (id, event_type, payload, livemode, stripe_created_at)
+    VALUES (p_id, p_event_type, p_payload, p_livemode, p_stripe_created_at)
+    ON CONFLICT (id) DO UPDATE
+    SET status = 'processing',
+        attempts = public.stripe_events.attempts + 1,
+        last_error = NULL
+    WHERE public.stripe_events.status = 'failed'
+       OR (public.stripe_events.status = 'processing' AND public.stripe_events.updated_at < NOW() - INTERVAL '10 minutes')
+       OR p_force
+    RETURNING id INTO claimed_id;
+
+    RETURN claimed_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. PAYMENT COLUMNS ON ORDERS
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS amount_refunded DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS payment_error TEXT;
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS dispute_status VARCHAR(50); -- Stripe dispute status, NULL when never disputed
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS disputed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_financial_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_financial_status_check CHECK (financial_status IN ('pending', 'paid', 'partially_paid', 'failed', 'refunded', 'partially_refunded', 'disputed'));
+
+CREATE INDEX IF NOT EXISTS idx_orders_payment_intent ON public.orders(payment_intent);
+
+-- 4. SUBSCRIPTIONS TABLE
+-- Mirror of Stripe subscriptions, updated from customer.subscription.* and
+-- invoice.* events
+CREATE TABLE IF NOT EXISTS public.subscriptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    stripe_subscription_id VARCHAR(255) UNIQUE NOT NULL,
+    stripe_customer_id VARCHAR(255) NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    customer_email VARCHAR(255),
+    status VARCHAR(30) NOT NULL CHECK (status IN ('incomplete', 'incomplete_expired', 'trialing', 'active', 'past_due', 'canceled', 'unpaid', 'paused')),
+    stripe_price_id VARCHAR(255),
+    product_id TEXT,
+    quantity INTEGER NOT NULL DEFAULT 1,
+    current_period_start TIMESTAMP WITH TIME ZONE,
+    current_period_end TIMESTAMP WITH TIME ZONE,
+    trial_end TIMESTAMP WITH TIME ZONE,
+    cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+    canceled_at TIMESTAMP WITH TIME ZONE,
+    pause_collection JSONB,
+    latest_invoice_id VARCHAR(255),
+    last_payment_error TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_customer ON public.subscriptions(stripe_customer_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user ON public.subscriptions(user_id);
+
+CREATE TRIGGER update_subscriptions_updated_at BEFORE UPDATE ON public.subscriptions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Customers can see their own subscriptions; writes come from webhooks
+CREATE POLICY "Users can view own subscriptions" ON public.subscriptions
+    FOR SELECT USING (auth.uid() = user_id);
+
+REVOKE ALL ON FUNCTION public.claim_stripe_event(VARCHAR, VARCHAR, JSONB, BOOLEAN, TIMESTAMP WITH TIME ZONE, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.stripe_events IS 'Processed Stripe webhook events; failed events are replayable from /api/admin/stripe-events';
+COMMENT ON TABLE public.subscriptions IS 'Stripe subscriptions synced from webhook events';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Stripe event tables created successfully!';
+    RAISE NOTICE 'Tables created: stripe_events, subscriptions';
+    RAISE NOTICE 'Function created: claim_stripe_event';
+END $$;
@@ -0,0 +1,65 @@
+-- Subscriptions Setup for Aurora Commerce
+-- Subscription plans on products and the recurring orders created for each
+-- paid invoice. Used by src/services/subscriptions.ts. Run after
+-- stripe-events-setup.sql (which creates the subscriptions mirror table).
+
+-- 1. SUBSCRIPTION_PLANS TABLE
+-- A product can be sold on several plans ("Monthly", "Every 3 months").
+-- Prices are in the base currency and converted at checkout unless the
+-- plan is linked to a fixed Stripe price.
+CREATE TABLE IF NOT EXISTS public.subscription_plans (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id TEXT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    billing_interval VARCHAR(10) NOT NULL CHECK (billing_interval IN ('day', 'week', 'month', 'year')),
+    interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+    trial_days INTEGER NOT NULL DEFAULT 0 CHECK (trial_days >= 0),
+    price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+    stripe_price_id VARCHAR(255), -- Optional: bill a price managed in Stripe instead
+    active BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_plans_product ON public.subscription_plans(product_id, sort_order) WHERE active;
+
+CREATE TRIGGER update_subscription_plans_updated_at BEFORE UPDATE ON public.subscription_plans FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. SUBSCRIPTION COLUMNS
+-- Plan, currency and the address recurring orders ship to (collected at checkout)
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS plan_id UUID REFERENCES public.subscription_plans(id) ON DELETE SET NULL;
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS customer_name VARCHAR(255);
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS shipping_address JSONB;
+
+-- Emails are stored lower-cased so manage links can match them exactly
+UPDATE public.subscriptions SET customer_email = LOWER(customer_email) WHERE customer_email <> LOWER(customer_email);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_email ON public.subscriptions(customer_email);
+
+-- 3. RECURRING ORDERS
+-- One order per paid invoice; the unique invoice id makes webhook retries safe
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS subscription_id VARCHAR(255); -- Stripe subscription id
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS stripe_invoice_id VARCHAR(255);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_stripe_invoice ON public.orders(stripe_invoice_id) WHERE stripe_invoice_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_subscription ON public.orders(subscription_id) WHERE subscription_id IS NOT NULL;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.subscription_plans ENABLE ROW LEVEL SECURITY;
+
+-- Active plans are shown on product pages
+CREATE POLICY "Anyone can view active subscription plans" ON public.subscription_plans
+    FOR SELECT USING (active);
+
+COMMENT ON TABLE public.subscription_plans IS 'Recurring purchase options per product; price in the base currency';
+COMMENT ON COLUMN public.orders.stripe_invoice_id IS 'Set on orders created for a paid subscription invoice';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Subscription plans created successfully!';
+    RAISE NOTICE 'Tables created: subscription_plans';
+    RAISE NOTICE 'Columns added: subscriptions.plan_id, currency, customer_name, shipping_address; orders.subscription_id, stripe_invoice_id';
+END $$;
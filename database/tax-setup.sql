@@ -0,0 +1,19 @@
+-- Tax Setup for Aurora Commerce
+-- Columns used by the TaxProvider in src/services/tax.ts
+
+-- Product tax category (standard, clothing, books, food, exempt) drives reduced and zero rates
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS tax_category VARCHAR(20) DEFAULT 'standard'
+    CHECK (tax_category IN ('standard', 'clothing', 'books', 'food', 'exempt'));
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS is_digital BOOLEAN DEFAULT false;
+
+-- Itemised tax lines returned by the provider, alongside the existing tax_amount total
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS tax_lines JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.products.tax_category IS 'Tax category used for reduced or zero-rated products';
+COMMENT ON COLUMN public.orders.tax_lines IS 'Itemised tax lines: jurisdiction, name, rate, taxable amount and tax amount';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Tax columns added: products.tax_category, products.is_digital, orders.tax_lines';
+END $$;
@@ -0,0 +1,63 @@
+-- Shipment Tracking Setup for Aurora Commerce
+-- Shipments and normalized carrier tracking events, used by src/services/tracking.ts
+-- and /api/tracking/webhook
+
+-- 1. SHIPMENTS TABLE
+-- One row per shipping label bought for an order
+CREATE TABLE IF NOT EXISTS public.shipments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id TEXT NOT NULL,
+    carrier VARCHAR(50) NOT NULL,
+    service VARCHAR(100),
+    tracking_number VARCHAR(255) UNIQUE NOT NULL,
+    label_id VARCHAR(255),
+    label_format VARCHAR(10),
+    label_data TEXT, -- Inline label document (ZPL)
+    label_url VARCHAR(500),
+    shipping_cost DECIMAL(10,2),
+    status VARCHAR(30) NOT NULL DEFAULT 'label_created' CHECK (status IN ('label_created', 'in_transit', 'out_for_delivery', 'delivered', 'exception')),
+    estimated_delivery TIMESTAMP WITH TIME ZONE,
+    shipped_at TIMESTAMP WITH TIME ZONE,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 2. TRACKING_EVENTS TABLE
+-- Carrier scans normalized to a fixed set of statuses. Carriers resend
+-- events, so the same status at the same time is only stored once.
+CREATE TABLE IF NOT EXISTS public.tracking_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    shipment_id UUID NOT NULL REFERENCES public.shipments(id) ON DELETE CASCADE,
+    order_id TEXT NOT NULL,
+    status VARCHAR(30) NOT NULL CHECK (status IN ('label_created', 'in_transit', 'out_for_delivery', 'delivered', 'exception')),
+    carrier_status VARCHAR(100), -- Status code as sent by the carrier
+    description TEXT,
+    location VARCHAR(255),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_tracking_event UNIQUE (shipment_id, status, occurred_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_order ON public.shipments(order_id);
+CREATE INDEX IF NOT EXISTS idx_shipments_open ON public.shipments(updated_at) WHERE status NOT IN ('delivered');
+CREATE INDEX IF NOT EXISTS idx_tracking_events_shipment ON public.tracking_events(shipment_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_tracking_events_order ON public.tracking_events(order_id);
+
+CREATE TRIGGER update_shipments_updated_at BEFORE UPDATE ON public.shipments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+-- Tracking is served through the API with the service role
+ALTER TABLE public.shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tracking_events ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.shipments IS 'Shipping labels bought for orders; status follows the latest tracking event';
+COMMENT ON TABLE public.tracking_events IS 'Normalized carrier tracking events: label_created, in_transit, out_for_delivery, delivered, exception';
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE 'Tracking tables created successfully!';
+    RAISE NOTICE 'Tables created: shipments, tracking_events';
+END $$;
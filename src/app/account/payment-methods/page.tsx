@@ -0,0 +1,23 @@
+import React from 'react';
+import { Metadata } from 'next';
+import SavedCards from '../../../components/SavedCards';
+
+export const metadata: Metadata = {
+  title: 'Saved Cards | Aurora Commerce',
+  description: 'Manage the cards saved to your Aurora Commerce account.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function PaymentMethodsPage() {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">Saved Cards</h1>
+        <SavedCards />
+      </div>
+    </main>
+  );
+}
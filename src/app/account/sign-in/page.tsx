@@ -0,0 +1,25 @@
+import React, { Suspense } from 'react';
+import { Metadata } from 'next';
+import SignInForm from '../../../components/SignInForm';
+
+export const metadata: Metadata = {
+  title: 'Sign In | Aurora Commerce',
+  description: 'Sign in to your Aurora Commerce account or create one.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function SignInPage() {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-md mx-auto px-4 py-12 sm:px-6 lg:px-8">
+        {/* SignInForm reads ?next= from the URL */}
+        <Suspense>
+          <SignInForm />
+        </Suspense>
+      </div>
+    </main>
+  );
+}
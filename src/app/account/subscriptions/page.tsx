@@ -0,0 +1,27 @@
+import React from 'react';
+import { Metadata } from 'next';
+import MySubscriptions from '../../../components/MySubscriptions';
+
+export const metadata: Metadata = {
+  title: 'My Subscriptions | Aurora Commerce',
+  description: 'Pause, skip, change or cancel your Aurora Commerce subscriptions.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function SubscriptionsPage({
+  searchParams,
+}: {
+  searchParams: { token?: string; subscribed?: string };
+}) {
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-8">My Subscriptions</h1>
+        <MySubscriptions token={searchParams.token} justSubscribed={searchParams.subscribed === '1'} />
+      </div>
+    </main>
+  );
+}
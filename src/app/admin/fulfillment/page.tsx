@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import FulfillmentJobsDashboard from '@/components/FulfillmentJobsDashboard';
+
+export const metadata: Metadata = {
+  title: 'Fulfillment Jobs - Aurora Commerce Admin',
+  description: 'Monitor the fulfillment job queue and requeue failed jobs for Aurora Commerce.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function FulfillmentAdminPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <FulfillmentJobsDashboard />
+    </div>
+  );
+}
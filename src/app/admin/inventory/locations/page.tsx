@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import AdvancedInventoryDashboard from '@/components/AdvancedInventoryDashboard';
+
+export const metadata: Metadata = {
+  title: 'Inventory by Location - Aurora Commerce Admin',
+  description: 'Available, reserved and on-hand stock per warehouse for Aurora Commerce.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function InventoryLocationsAdminPage() {
+  return <AdvancedInventoryDashboard />;
+}
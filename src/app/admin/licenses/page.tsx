@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import LicensesDashboard from '@/components/LicensesDashboard';
+
+export const metadata: Metadata = {
+  title: 'Licenses - Aurora Commerce Admin',
+  description: 'Software license keys, device activations and key pools for Aurora Commerce.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function LicensesAdminPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <LicensesDashboard />
+    </div>
+  );
+}
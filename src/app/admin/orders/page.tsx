@@ -343,6 +343,7 @@ export default function AdminOrdersPage() {
           loading={loading}
           onUpdatePriority={updateOrderPriority}
           onBulkUpdatePriority={bulkUpdatePriority}
+          onStatusChanged={fetchOrders}
         />
       </div>
     </div>
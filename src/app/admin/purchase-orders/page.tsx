@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import PurchaseOrdersDashboard from '@/components/PurchaseOrdersDashboard';
+
+export const metadata: Metadata = {
+  title: 'Purchase Orders - Aurora Commerce Admin',
+  description: 'Draft, send and receive supplier purchase orders for Aurora Commerce.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function PurchaseOrdersAdminPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <PurchaseOrdersDashboard />
+    </div>
+  );
+}
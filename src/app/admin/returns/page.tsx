@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import ReturnsDashboard from '@/components/ReturnsDashboard';
+
+export const metadata: Metadata = {
+  title: 'Returns - Aurora Commerce Admin',
+  description: 'Return requests, return labels and refunds for Aurora Commerce.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function ReturnsAdminPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ReturnsDashboard />
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Metadata } from 'next';
+import StripeEventsDashboard from '@/components/StripeEventsDashboard';
+
+export const metadata: Metadata = {
+  title: 'Stripe Events - Aurora Commerce Admin',
+  description: 'Stripe webhook deliveries and failed event replay for Aurora Commerce.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function StripeEventsAdminPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <StripeEventsDashboard />
+    </div>
+  );
+}
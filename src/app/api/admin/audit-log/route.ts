@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listAuditLog } from '../../../../services/auditLog';
+import { withPermission } from '../../../../lib/adminAuth';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const entries = await listAuditLog({
+      actorId: searchParams.get('actor') || undefined,
+      resourceType: searchParams.get('resource_type') || undefined,
+      resourceId: searchParams.get('resource_id') || undefined,
+      limit: parseInt(searchParams.get('limit') || '100'),
+    });
+
+    return NextResponse.json({ success: true, data: { entries } });
+
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('audit:read')(handleGet);
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  resetDownloadCount,
+  restoreDownloadAccess,
+  revokeDownloadAccess
+} from '../../../../../services/digitalDownloads';
+import { withPermission } from '../../../../../lib/adminAuth';
+
+/**
+ * Actions:
+ * - reset: sets the download count back to zero (and extends expired access)
+ * - revoke: { reason? } stops the links working
+ * - restore: undoes a revoke
+ */
+async function handlePatch(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { action, reason } = (await request.json().catch(() => null)) ?? {};
+
+  try {
+    switch (action) {
+      case 'reset':
+        return NextResponse.json({ success: true, data: await resetDownloadCount(params.id) });
+
+      case 'revoke':
+        return NextResponse.json({ success: true, data: await revokeDownloadAccess(params.id, reason) });
+
+      case 'restore':
+        return NextResponse.json({ success: true, data: await restoreDownloadAccess(params.id) });
+
+      default:
+        return NextResponse.json(
+          { success: false, error: 'Invalid action' },
+          { status: 400 }
+        );
+    }
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update download';
+    if (message !== 'Download not found') {
+      console.error('Error updating download:', error);
+    }
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: message === 'Download not found' ? 404 : 500 }
+    );
+  }
+}
+
+export const PATCH = withPermission('orders:write', { audit: 'download' })(handlePatch);
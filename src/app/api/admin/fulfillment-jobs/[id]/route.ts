@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requeueFulfillmentJob } from '../../../../../services/fulfillmentQueue';
+import { withPermission } from '../../../../../lib/adminAuth';
+
+async function handlePatch(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { action } = await request.json();
+
+    if (action !== 'requeue') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    const result = await requeueFulfillmentJob(params.id);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error updating fulfillment job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update fulfillment job' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = withPermission('fulfillment:manage', { audit: 'fulfillment_job' })(handlePatch);
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  FulfillmentJobStatus,
+  getFulfillmentJobCounts,
+  listFulfillmentJobs
+} from '../../../../services/fulfillmentQueue';
+import { withPermission } from '../../../../lib/adminAuth';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as FulfillmentJobStatus | null;
+
+    const [jobs, counts] = await Promise.all([
+      listFulfillmentJobs({
+        status: status || undefined,
+        orderId: searchParams.get('order_id') || undefined,
+        limit: parseInt(searchParams.get('limit') || '100'),
+      }),
+      getFulfillmentJobCounts(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { jobs, counts },
+    });
+
+  } catch (error) {
+    console.error('Error fetching fulfillment jobs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch fulfillment jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('fulfillment:manage')(handleGet);
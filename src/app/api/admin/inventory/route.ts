@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  adjustInventory,
+  getInventoryByLocation,
+  listInventoryMovements,
+  listWarehouses,
+  updateReorderSettings
+} from '../../../../services/inventory';
+import { withPermission } from '../../../../lib/adminAuth';
+
+const ADJUSTMENT_TYPES = ['receipt', 'adjustment', 'return', 'transfer'] as const;
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const [levels, warehouses, movements] = await Promise.all([
+      getInventoryByLocation({
+        warehouseId: searchParams.get('warehouse_id') || undefined,
+        productId: searchParams.get('product_id') || undefined,
+      }),
+      listWarehouses(),
+      listInventoryMovements(parseInt(searchParams.get('movements') || '50')),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { levels, warehouses, movements },
+    });
+
+  } catch (error) {
+    console.error('Error fetching inventory:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch inventory' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const { productId, warehouseId, quantityChange, movementType = 'adjustment', notes } = await request.json();
+
+    if (!productId || !warehouseId || !Number.isInteger(quantityChange) || quantityChange === 0) {
+      return NextResponse.json(
+        { success: false, error: 'productId, warehouseId and a non-zero integer quantityChange are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!ADJUSTMENT_TYPES.includes(movementType)) {
+      return NextResponse.json(
+        { success: false, error: `movementType must be one of ${ADJUSTMENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await adjustInventory(productId, warehouseId, quantityChange, movementType, notes);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.level });
+
+  } catch (error) {
+    console.error('Error adjusting inventory:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to adjust inventory' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handlePatch(request: NextRequest) {
+  try {
+    const { productId, warehouseId, reorderPoint, reorderQuantity = null } = await request.json();
+
+    if (!productId || !warehouseId || !Number.isInteger(reorderPoint) || reorderPoint < 0) {
+      return NextResponse.json(
+        { success: false, error: 'productId, warehouseId and a non-negative integer reorderPoint are required' },
+        { status: 400 }
+      );
+    }
+
+    if (reorderQuantity !== null && (!Number.isInteger(reorderQuantity) || reorderQuantity <= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'reorderQuantity must be a positive integer or null' },
+        { status: 400 }
+      );
+    }
+
+    const level = await updateReorderSettings(productId, warehouseId, reorderPoint, reorderQuantity);
+    return NextResponse.json({ success: true, data: level });
+
+  } catch (error) {
+    console.error('Error updating reorder settings:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update reorder settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('inventory:read')(handleGet);
+export const POST = withPermission('inventory:write', { audit: 'inventory' })(handlePost);
+export const PATCH = withPermission('inventory:write', { audit: 'inventory' })(handlePatch);
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deactivateActivation, reissueLicense, revokeLicense } from '../../../../../services/licenses';
+import { withPermission } from '../../../../../lib/adminAuth';
+
+const LICENSE_ERROR_STATUS: Record<string, number> = {
+  'License not found': 404,
+  'Activation not found': 404
+};
+
+/**
+ * Actions:
+ * - revoke: { reason? } the key stops activating
+ * - reissue: { reason? } revokes the key and emails the customer a new one
+ * - deactivate_device: { activationId } frees a seat
+ */
+async function handlePatch(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { action, reason, activationId } = (await request.json().catch(() => null)) ?? {};
+
+  try {
+    switch (action) {
+      case 'revoke':
+        return NextResponse.json({ success: true, data: await revokeLicense(params.id, reason) });
+
+      case 'reissue':
+        return NextResponse.json({ success: true, data: await reissueLicense(params.id, reason) });
+
+      case 'deactivate_device':
+        if (!activationId) {
+          return NextResponse.json(
+            { success: false, error: 'activationId is required' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, data: await deactivateActivation(activationId) });
+
+      default:
+        return NextResponse.json(
+          { success: false, error: 'Invalid action' },
+          { status: 400 }
+        );
+    }
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update license';
+    const status = LICENSE_ERROR_STATUS[message];
+    if (!status) {
+      console.error('Error updating license:', error);
+    }
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: status || 500 }
+    );
+  }
+}
+
+export const PATCH = withPermission('orders:write', { audit: 'license' })(handlePatch);
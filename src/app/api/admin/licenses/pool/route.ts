@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addPoolKeys, getPoolSummary } from '../../../../../services/licenses';
+import { withPermission } from '../../../../../lib/adminAuth';
+
+/**
+ * Licensed products with how many pool keys are free and assigned
+ */
+async function handleGet() {
+  try {
+    return NextResponse.json({ success: true, data: await getPoolSummary() });
+
+  } catch (error) {
+    console.error('Error fetching license pools:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch license pools' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Body: { productId, keys: string[] }. Adds vendor keys to the product's pool.
+ */
+async function handlePost(request: NextRequest) {
+  const { productId, keys } = (await request.json().catch(() => null)) ?? {};
+
+  if (!productId || !Array.isArray(keys)) {
+    return NextResponse.json(
+      { success: false, error: 'productId and keys are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ success: true, data: { added: await addPoolKeys(String(productId), keys.map(String)) } });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to add license keys';
+    const notSetUp = message.endsWith('is not set up for license keys');
+    if (!notSetUp) {
+      console.error('Error adding license keys:', error);
+    }
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: notSetUp ? 400 : 500 }
+    );
+  }
+}
+
+export const GET = withPermission('catalog:manage')(handleGet);
+export const POST = withPermission('catalog:manage', { audit: 'license_pool' })(handlePost);
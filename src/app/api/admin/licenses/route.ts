@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchLicenses } from '../../../../services/licenses';
+import { withPermission } from '../../../../lib/adminAuth';
+
+/**
+ * Licenses with their activations, newest first. `q` matches an order id,
+ * an exact key or part of the customer's email.
+ */
+async function handleGet(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get('q') || '';
+    return NextResponse.json({ success: true, data: await searchLicenses(query) });
+
+  } catch (error) {
+    console.error('Error fetching licenses:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch licenses' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('orders:read')(handleGet);
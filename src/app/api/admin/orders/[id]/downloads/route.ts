@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderDownloads, resendDownloadLinks } from '../../../../../../services/digitalDownloads';
+import { withPermission } from '../../../../../../lib/adminAuth';
+
+/**
+ * The order's download entitlements with their most recent downloads
+ */
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    return NextResponse.json({ success: true, data: await getOrderDownloads(params.id) });
+
+  } catch (error) {
+    console.error('Error fetching order downloads:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch downloads' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Actions:
+ * - resend: emails fresh links for the order's usable downloads
+ */
+async function handlePost(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { action } = (await request.json().catch(() => null)) ?? {};
+  if (action !== 'resend') {
+    return NextResponse.json(
+      { success: false, error: 'Invalid action' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ success: true, data: { sent: await resendDownloadLinks(params.id) } });
+
+  } catch (error) {
+    console.error('Error resending download links:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to resend download links' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('orders:read')(handleGet);
+export const POST = withPermission('orders:write', { audit: 'download' })(handlePost);
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderTimeline } from '../../../../../../services/orderLifecycle';
+import { withPermission } from '../../../../../../lib/adminAuth';
+
+/**
+ * The order's status history with the statuses it can move to next
+ */
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const timeline = await getOrderTimeline(params.id);
+    if (!timeline) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: timeline });
+
+  } catch (error) {
+    console.error('Error fetching order events:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch order history' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('orders:read')(handleGet);
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import OrderPrioritizationService from '../../../../../lib/order-prioritization';
+import { isOrderStatus } from '../../../../../services/orderStatus';
+import { StaffUser, withPermission } from '../../../../../lib/adminAuth';
 
-export async function GET(
+async function handleGet(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
@@ -33,9 +35,10 @@ export async function GET(
   }
 }
 
-export async function PATCH(
+async function handlePatch(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: { id: string } },
+  staff: StaffUser
 ) {
   try {
     const body = await request.json();
@@ -45,18 +48,25 @@ export async function PATCH(
 
     switch (action) {
       case 'update_status':
-        if (!updateData.status) {
+        if (!isOrderStatus(updateData.status)) {
           return NextResponse.json(
-            { success: false, error: 'Status is required' },
+            { success: false, error: 'A valid status is required' },
             { status: 400 }
           );
         }
         result = await OrderPrioritizationService.updateOrderStatus(
           params.id,
           updateData.status,
-          updateData.changed_by || 'admin',
+          staff.email,
           updateData.reason
         );
+        // The lifecycle refused the move (or the order is gone)
+        if (!result.success) {
+          return NextResponse.json(
+            { success: false, error: result.error },
+            { status: result.error === 'Order not found' ? 404 : 409 }
+          );
+        }
         break;
 
       case 'update_priority':
@@ -99,4 +109,7 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPermission('orders:read')(handleGet);
+export const PATCH = withPermission('orders:write', { audit: 'order' })(handlePatch);
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPurchaseOrder,
+  purchaseOrderToCsv,
+  purchaseOrderToPdf
+} from '../../../../../../services/purchaseOrders';
+import { withPermission } from '../../../../../../lib/adminAuth';
+
+/**
+ * Download a purchase order to send to the supplier: ?format=csv|pdf
+ */
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const format = new URL(request.url).searchParams.get('format') || 'pdf';
+
+    if (format !== 'csv' && format !== 'pdf') {
+      return NextResponse.json(
+        { success: false, error: 'format must be csv or pdf' },
+        { status: 400 }
+      );
+    }
+
+    const order = await getPurchaseOrder(params.id);
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Purchase order not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = format === 'csv' ? purchaseOrderToCsv(order) : new Uint8Array(purchaseOrderToPdf(order));
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/pdf',
+        'Content-Disposition': `attachment; filename="${order.po_number}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error exporting purchase order:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export purchase order' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('purchasing:manage')(handleGet);
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPurchaseOrder,
+  receivePurchaseOrder,
+  updateDraftLineQuantity,
+  updatePurchaseOrderStatus
+} from '../../../../../services/purchaseOrders';
+import { withPermission } from '../../../../../lib/adminAuth';
+
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const order = await getPurchaseOrder(params.id);
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'Purchase order not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: order });
+
+  } catch (error) {
+    console.error('Error fetching purchase order:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch purchase order' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Actions:
+ * - send / cancel
+ * - receive: { lines?: [{ lineId, quantity }], notes? } (omit lines to receive everything outstanding)
+ * - update_line: { lineId, quantity } on drafts (0 removes the line)
+ */
+async function handlePatch(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { action, lines, lineId, quantity, notes } = (await request.json().catch(() => null)) ?? {};
+
+  try {
+    switch (action) {
+      case 'send':
+        return NextResponse.json({ success: true, data: await updatePurchaseOrderStatus(params.id, 'sent') });
+
+      case 'cancel':
+        return NextResponse.json({ success: true, data: await updatePurchaseOrderStatus(params.id, 'cancelled') });
+
+      case 'receive':
+        if (lines !== undefined && (!Array.isArray(lines) || !lines.every((line: any) =>
+          line.lineId && Number.isInteger(line.quantity) && line.quantity >= 0
+        ))) {
+          return NextResponse.json(
+            { success: false, error: 'lines must be a list of { lineId, quantity }' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, data: await receivePurchaseOrder(params.id, lines, notes) });
+
+      case 'update_line':
+        if (!lineId || !Number.isInteger(quantity) || quantity < 0) {
+          return NextResponse.json(
+            { success: false, error: 'lineId and a non-negative integer quantity are required' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, data: await updateDraftLineQuantity(params.id, lineId, quantity) });
+
+      default:
+        return NextResponse.json(
+          { success: false, error: 'Invalid action' },
+          { status: 400 }
+        );
+    }
+
+  } catch (error) {
+    console.error('Error updating purchase order:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to update purchase order' },
+      { status: 409 }
+    );
+  }
+}
+
+export const GET = withPermission('purchasing:manage')(handleGet);
+export const PATCH = withPermission('purchasing:manage', { audit: 'purchase_order' })(handlePatch);
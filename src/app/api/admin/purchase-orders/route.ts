@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  PurchaseOrderStatus,
+  createPurchaseOrder,
+  listPurchaseOrders,
+  listSuppliers,
+  replenishFromOpenAlerts
+} from '../../../../services/purchaseOrders';
+import { withPermission } from '../../../../lib/adminAuth';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as PurchaseOrderStatus | null;
+
+    const [orders, suppliers] = await Promise.all([
+      listPurchaseOrders({
+        status: status || undefined,
+        supplierId: searchParams.get('supplier_id') || undefined,
+        limit: parseInt(searchParams.get('limit') || '100'),
+      }),
+      listSuppliers(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { orders, suppliers },
+    });
+
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch purchase orders' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Draft POs for every open low/critical stock alert
+    if (body.action === 'replenish') {
+      const result = await replenishFromOpenAlerts();
+      return NextResponse.json({ success: true, data: result });
+    }
+
+    const { supplierId, warehouseId, lines, notes } = body;
+    const validLines = Array.isArray(lines) && lines.length > 0 && lines.every((line: any) =>
+      line.productId && Number.isInteger(line.quantity) && line.quantity > 0
+    );
+
+    if (!supplierId || !warehouseId || !validLines) {
+      return NextResponse.json(
+        { success: false, error: 'supplierId, warehouseId and lines with productId and a positive integer quantity are required' },
+        { status: 400 }
+      );
+    }
+
+    const order = await createPurchaseOrder({ supplierId, warehouseId, lines, notes });
+    return NextResponse.json({ success: true, data: order }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating purchase order:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create purchase order' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('purchasing:manage')(handleGet);
+export const POST = withPermission('purchasing:manage', { audit: 'purchase_order' })(handlePost);
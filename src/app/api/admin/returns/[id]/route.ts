@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  approveReturn,
+  receiveReturn,
+  refundReturn,
+  rejectReturn
+} from '../../../../../services/returns';
+import { withPermission } from '../../../../../lib/adminAuth';
+
+/**
+ * Actions:
+ * - approve: { warehouseId?, notes? } buys the return label and emails it
+ * - reject: { reason }
+ * - receive: { items?: [{ itemId, quantityReceived, quantityRestocked }] } (omit items to receive and restock everything)
+ * - refund: { amount?, manual? } (amount defaults to the value of the received items)
+ */
+async function handlePatch(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { action, warehouseId, notes, reason, items, amount, manual } = (await request.json().catch(() => null)) ?? {};
+
+  try {
+    switch (action) {
+      case 'approve':
+        return NextResponse.json({ success: true, data: await approveReturn(params.id, { warehouseId, notes }) });
+
+      case 'reject':
+        if (!reason) {
+          return NextResponse.json(
+            { success: false, error: 'A rejection reason is required' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, data: await rejectReturn(params.id, reason) });
+
+      case 'receive':
+        if (items !== undefined && (!Array.isArray(items) || !items.every((item: any) =>
+          item.itemId &&
+          Number.isInteger(item.quantityReceived) && item.quantityReceived >= 0 &&
+          Number.isInteger(item.quantityRestocked) && item.quantityRestocked >= 0 &&
+          item.quantityRestocked <= item.quantityReceived
+        ))) {
+          return NextResponse.json(
+            { success: false, error: 'items must be a list of { itemId, quantityReceived, quantityRestocked }' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, data: await receiveReturn(params.id, items) });
+
+      case 'refund':
+        if (amount !== undefined && (typeof amount !== 'number' || amount < 0)) {
+          return NextResponse.json(
+            { success: false, error: 'amount must be a non-negative number' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, data: await refundReturn(params.id, { amount, manual: Boolean(manual) }) });
+
+      default:
+        return NextResponse.json(
+          { success: false, error: 'Invalid action' },
+          { status: 400 }
+        );
+    }
+
+  } catch (error) {
+    console.error('Error updating return:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to update return' },
+      { status: 409 }
+    );
+  }
+}
+
+export const PATCH = withPermission('returns:manage', { audit: 'return' })(handlePatch);
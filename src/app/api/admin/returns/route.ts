@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ReturnStatus,
+  getReturnCounts,
+  getReturnPhotoUrls,
+  listReturns
+} from '../../../../services/returns';
+import { withPermission } from '../../../../lib/adminAuth';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as ReturnStatus | null;
+
+    const [returns, counts] = await Promise.all([
+      listReturns({
+        status: status || undefined,
+        limit: parseInt(searchParams.get('limit') || '100'),
+      }),
+      getReturnCounts(),
+    ]);
+
+    const withPhotos = await Promise.all(returns.map(async rma => ({
+      ...rma,
+      photo_urls: await getReturnPhotoUrls(rma.photo_paths || []),
+    })));
+
+    return NextResponse.json({
+      success: true,
+      data: { returns: withPhotos, counts },
+    });
+
+  } catch (error) {
+    console.error('Error fetching returns:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch returns' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('returns:manage')(handleGet);
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { grantRole, isStaffRole, listStaffRoles, revokeRole } from '../../../../services/roles';
+import { StaffUser, auditStaffAction, withPermission } from '../../../../lib/adminAuth';
+
+const STAFF_ERROR_STATUS: Record<string, number> = {
+  'No account exists for this email': 404,
+  'The last owner cannot be removed': 409
+};
+
+function staffErrorResponse(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : '';
+  const status = STAFF_ERROR_STATUS[message];
+  if (!status) {
+    console.error(`${fallback}:`, error);
+  }
+  return NextResponse.json(
+    { success: false, error: status ? message : fallback },
+    { status: status || 500 }
+  );
+}
+
+async function handleGet() {
+  try {
+    const roles = await listStaffRoles();
+    return NextResponse.json({ success: true, data: { roles } });
+  } catch (error) {
+    return staffErrorResponse(error, 'Failed to fetch staff roles');
+  }
+}
+
+/**
+ * Grant a role: { email, role }
+ */
+async function handlePost(request: NextRequest, context: unknown, staff: StaffUser) {
+  try {
+    const { email, role } = await request.json();
+    if (!email || !isStaffRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'An email and a valid role are required' },
+        { status: 400 }
+      );
+    }
+
+    const assignment = await grantRole(email, role, staff.userId);
+    await auditStaffAction(request, staff, 'staff.grant', 'staff', assignment.user_id, { role, email: assignment.user_email });
+
+    return NextResponse.json({ success: true, data: assignment });
+  } catch (error) {
+    return staffErrorResponse(error, 'Failed to grant role');
+  }
+}
+
+/**
+ * Revoke a role: { userId, role }
+ */
+async function handleDelete(request: NextRequest, context: unknown, staff: StaffUser) {
+  try {
+    const { userId, role } = await request.json();
+    if (!userId || !isStaffRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'A userId and a valid role are required' },
+        { status: 400 }
+      );
+    }
+
+    const revoked = await revokeRole(userId, role);
+    if (!revoked) {
+      return NextResponse.json(
+        { success: false, error: 'The user does not have this role' },
+        { status: 404 }
+      );
+    }
+    await auditStaffAction(request, staff, 'staff.revoke', 'staff', userId, { role });
+
+    return NextResponse.json({ success: true, data: { userId, role } });
+  } catch (error) {
+    return staffErrorResponse(error, 'Failed to revoke role');
+  }
+}
+
+export const GET = withPermission('staff:manage')(handleGet);
+export const POST = withPermission('staff:manage')(handlePost);
+export const DELETE = withPermission('staff:manage')(handleDelete);
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { replayStripeEvent } from '../../../../../services/stripeEvents';
+import { withPermission } from '../../../../../lib/adminAuth';
+
+async function handlePatch(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { action } = await request.json();
+
+    if (action !== 'replay') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action' },
+        { status: 400 }
+      );
+    }
+
+    const result = await replayStripeEvent(params.id);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { status: result.status } });
+
+  } catch (error) {
+    console.error('Error replaying Stripe event:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to replay Stripe event' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = withPermission('payments:manage', { audit: 'stripe_event' })(handlePatch);
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  StripeEventStatus,
+  getStripeEventCounts,
+  listStripeEvents
+} from '../../../../services/stripeEvents';
+import { withPermission } from '../../../../lib/adminAuth';
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as StripeEventStatus | null;
+
+    const [events, counts] = await Promise.all([
+      listStripeEvents({
+        status: status || undefined,
+        eventType: searchParams.get('type') || undefined,
+        limit: parseInt(searchParams.get('limit') || '100'),
+      }),
+      getStripeEventCounts(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { events, counts },
+    });
+
+  } catch (error) {
+    console.error('Error fetching Stripe events:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch Stripe events' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('payments:manage')(handleGet);
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setPlanActive } from '../../../../../services/subscriptions';
+import { withPermission } from '../../../../../lib/adminAuth';
+
+/**
+ * Body: { active } to retire a plan or offer it again
+ */
+async function handlePatch(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { active } = await request.json();
+
+    if (typeof active !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'active must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: await setPlanActive(params.id, active) });
+
+  } catch (error) {
+    console.error('Error updating subscription plan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update subscription plan' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = withPermission('catalog:manage', { audit: 'subscription_plan' })(handlePatch);
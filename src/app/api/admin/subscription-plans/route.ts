@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPlan, listPlans } from '../../../../services/subscriptions';
+import { withPermission } from '../../../../lib/adminAuth';
+
+const INTERVALS = ['day', 'week', 'month', 'year'];
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const plans = await listPlans({
+      productId: searchParams.get('productId') || undefined,
+      includeInactive: searchParams.get('includeInactive') === 'true',
+    });
+
+    return NextResponse.json({ success: true, data: plans });
+
+  } catch (error) {
+    console.error('Error fetching subscription plans:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch subscription plans' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Body: { productId, name, interval, intervalCount?, trialDays?, price, stripePriceId?, sortOrder? }
+ */
+async function handlePost(request: NextRequest) {
+  try {
+    const plan = await request.json();
+
+    if (!plan.productId || !plan.name || !INTERVALS.includes(plan.interval) ||
+        typeof plan.price !== 'number' || plan.price < 0) {
+      return NextResponse.json(
+        { success: false, error: 'productId, name, interval (day, week, month or year) and a non-negative price are required' },
+        { status: 400 }
+      );
+    }
+    if ((plan.intervalCount !== undefined && (!Number.isInteger(plan.intervalCount) || plan.intervalCount < 1)) ||
+        (plan.trialDays !== undefined && (!Number.isInteger(plan.trialDays) || plan.trialDays < 0))) {
+      return NextResponse.json(
+        { success: false, error: 'intervalCount must be a positive integer and trialDays a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: await createPlan(plan) });
+
+  } catch (error) {
+    console.error('Error creating subscription plan:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create subscription plan' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('catalog:manage')(handleGet);
+export const POST = withPermission('catalog:manage', { audit: 'subscription_plan' })(handlePost);
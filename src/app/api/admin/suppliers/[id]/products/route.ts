@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listProductSuppliers, upsertProductSupplier } from '../../../../../../services/purchaseOrders';
+import { withPermission } from '../../../../../../lib/adminAuth';
+
+async function handleGet(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const products = await listProductSuppliers(params.id);
+    return NextResponse.json({ success: true, data: products });
+
+  } catch (error) {
+    console.error('Error fetching supplier products:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch supplier products' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Set this supplier's terms for a product: cost, lead time, minimum order
+ * quantity and whether it is the product's preferred supplier
+ */
+async function handlePut(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { productId, supplierSku, unitCost, leadTimeDays, minOrderQuantity, isPreferred } = await request.json();
+
+    if (!productId) {
+      return NextResponse.json(
+        { success: false, error: 'productId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (unitCost !== undefined && (typeof unitCost !== 'number' || unitCost < 0)) ||
+      (leadTimeDays !== undefined && leadTimeDays !== null && (!Number.isInteger(leadTimeDays) || leadTimeDays < 0)) ||
+      (minOrderQuantity !== undefined && (!Number.isInteger(minOrderQuantity) || minOrderQuantity <= 0))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'unitCost, leadTimeDays and minOrderQuantity must be non-negative numbers' },
+        { status: 400 }
+      );
+    }
+
+    const terms = await upsertProductSupplier({
+      product_id: productId,
+      supplier_id: params.id,
+      ...(supplierSku !== undefined && { supplier_sku: supplierSku }),
+      ...(unitCost !== undefined && { unit_cost: unitCost }),
+      ...(leadTimeDays !== undefined && { lead_time_days: leadTimeDays }),
+      ...(minOrderQuantity !== undefined && { min_order_quantity: minOrderQuantity }),
+      ...(isPreferred !== undefined && { is_preferred: Boolean(isPreferred) }),
+    });
+
+    return NextResponse.json({ success: true, data: terms });
+
+  } catch (error) {
+    console.error('Error saving supplier terms:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save supplier terms' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('purchasing:manage')(handleGet);
+export const PUT = withPermission('purchasing:manage', { audit: 'supplier' })(handlePut);
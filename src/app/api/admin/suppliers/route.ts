@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupplier, listSuppliers } from '../../../../services/purchaseOrders';
+import { withPermission } from '../../../../lib/adminAuth';
+
+async function handleGet() {
+  try {
+    const suppliers = await listSuppliers();
+    return NextResponse.json({ success: true, data: suppliers });
+
+  } catch (error) {
+    console.error('Error fetching suppliers:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch suppliers' },
+      { status: 500 }
+    );
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const { name, contactName, email, phone, address, currency, defaultLeadTimeDays, notes } = await request.json();
+
+    if (!name) {
+      return NextResponse.json(
+        { success: false, error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (defaultLeadTimeDays !== undefined && (!Number.isInteger(defaultLeadTimeDays) || defaultLeadTimeDays < 0)) {
+      return NextResponse.json(
+        { success: false, error: 'defaultLeadTimeDays must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const supplier = await createSupplier({
+      name,
+      contact_name: contactName || null,
+      email: email || null,
+      phone: phone || null,
+      address: address || null,
+      notes: notes || null,
+      ...(currency && { currency: String(currency).toUpperCase() }),
+      ...(defaultLeadTimeDays !== undefined && { default_lead_time_days: defaultLeadTimeDays }),
+    });
+
+    return NextResponse.json({ success: true, data: supplier }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating supplier:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create supplier' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withPermission('purchasing:manage')(handleGet);
+export const POST = withPermission('purchasing:manage', { audit: 'supplier' })(handlePost);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { withPermission } from '../../../../lib/adminAuth'
 
 export const dynamic = 'force-dynamic'
 
@@ -7,7 +8,7 @@ export const dynamic = 'force-dynamic'
  * Analytics dashboard data endpoint
  * GET /api/analytics/dashboard
  */
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url)
     const days = parseInt(searchParams.get('days') || '30') // Default to last 30 days
@@ -100,3 +101,5 @@ export async function GET(req: NextRequest) {
     }, { status: 500 })
   }
 }
+
+export const GET = withPermission('analytics:read')(handleGet)
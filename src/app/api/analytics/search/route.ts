@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withPermission } from '../../../../lib/adminAuth'
+import { getSearchReport } from '../../../../services/searchAnalytics'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Search report: top searches, zero-result searches and search-to-purchase
+ * conversion
+ * GET /api/analytics/search?days=30
+ */
+async function handleGet(req: NextRequest) {
+  try {
+    const days = Math.min(Math.max(parseInt(req.nextUrl.searchParams.get('days') || '30') || 30, 1), 365)
+    return NextResponse.json(await getSearchReport(days))
+
+  } catch (err: any) {
+    console.error('Search analytics error:', err)
+    return NextResponse.json({
+      error: err?.message || 'Server error'
+    }, { status: 500 })
+  }
+}
+
+export const GET = withPermission('analytics:read')(handleGet)
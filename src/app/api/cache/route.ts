@@ -7,8 +7,9 @@ import {
   getCacheMetrics 
 } from '../../../lib/cache/middleware';
 import { CDNManager } from '../../../lib/performance/optimization';
+import { withPermission } from '../../../lib/adminAuth';
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const action = searchParams.get('action');
 
@@ -35,7 +36,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const action = searchParams.get('action');
 
@@ -365,4 +366,7 @@ async function deleteCacheKey(body: { key: string }) {
       error: 'Failed to delete cache key',
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPermission('system:manage')(handleGet);
+export const POST = withPermission('system:manage', { audit: 'cache' })(handlePost);
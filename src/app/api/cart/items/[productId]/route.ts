@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cartErrorResponse, getCartSession, withCartSession } from '../../../../../lib/cartSession';
+import { removeCartItem, updateCartItem } from '../../../../../services/cart';
+
+/**
+ * Body: { quantity } - sets the line's quantity; 0 removes it. Lines of
+ * products with variants are addressed with ?variantId=
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { productId: string } }
+) {
+  const { quantity } = (await request.json().catch(() => null)) ?? {};
+  if (typeof quantity !== 'number') {
+    return NextResponse.json(
+      { success: false, error: 'quantity is required' },
+      { status: 400 }
+    );
+  }
+
+  const session = await getCartSession(request);
+
+  try {
+    const variantId = request.nextUrl.searchParams.get('variantId') || undefined;
+    const cart = await updateCartItem(session.owner, params.productId, quantity, variantId);
+    return withCartSession(NextResponse.json({ success: true, data: cart }), session);
+
+  } catch (error) {
+    return cartErrorResponse(error, 'Failed to update cart item');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { productId: string } }
+) {
+  const session = await getCartSession(request);
+
+  try {
+    const variantId = request.nextUrl.searchParams.get('variantId') || undefined;
+    const cart = await removeCartItem(session.owner, params.productId, variantId);
+    return withCartSession(NextResponse.json({ success: true, data: cart }), session);
+
+  } catch (error) {
+    return cartErrorResponse(error, 'Failed to remove cart item');
+  }
+}
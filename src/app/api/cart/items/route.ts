@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cartErrorResponse, getCartSession, withCartSession } from '../../../../lib/cartSession';
+import { addCartItem } from '../../../../services/cart';
+
+/**
+ * Body: { productId, variantId?, quantity? } - adds to the quantity already
+ * in the cart. variantId is required for products with variants.
+ */
+export async function POST(request: NextRequest) {
+  const { productId, variantId, quantity = 1 } = (await request.json().catch(() => null)) ?? {};
+  if (!productId || typeof productId !== 'string') {
+    return NextResponse.json(
+      { success: false, error: 'productId is required' },
+      { status: 400 }
+    );
+  }
+  if (variantId !== undefined && variantId !== null && typeof variantId !== 'string') {
+    return NextResponse.json(
+      { success: false, error: 'variantId must be a string' },
+      { status: 400 }
+    );
+  }
+
+  const session = await getCartSession(request);
+
+  try {
+    const cart = await addCartItem(session.owner, productId, Number(quantity), variantId || undefined);
+    return withCartSession(NextResponse.json({ success: true, data: cart }), session);
+
+  } catch (error) {
+    return cartErrorResponse(error, 'Failed to add item to cart');
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cartErrorResponse, clearCartSession, getCartSession } from '../../../../lib/cartSession';
+import { CartLineInput, mergeCarts } from '../../../../services/cart';
+
+/**
+ * Called right after sign-in: moves the guest cart (from the session cookie
+ * or x-cart-session header) into the user's cart and ends the guest session.
+ * Body: { items? } - lines the client held locally, used when the guest
+ * cart was never stored.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getCartSession(request);
+  if (!session.customer) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in to save your cart' },
+      { status: 401 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) ?? {};
+  const items: CartLineInput[] = Array.isArray(body.items)
+    ? body.items.map((item: CartLineInput) => ({
+        productId: String(item.productId),
+        variantId: item.variantId ? String(item.variantId) : undefined,
+        quantity: Number(item.quantity),
+        price: typeof item.price === 'number' ? item.price : undefined,
+        name: item.name
+      }))
+    : [];
+
+  try {
+    const cart = await mergeCarts(session.customer.userId, {
+      sessionId: session.sessionId || undefined,
+      items
+    });
+    return clearCartSession(NextResponse.json({ success: true, data: cart }));
+
+  } catch (error) {
+    return cartErrorResponse(error, 'Failed to merge carts');
+  }
+}
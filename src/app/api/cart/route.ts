@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cartErrorResponse, getCartSession, withCartSession } from '../../../lib/cartSession';
+import { clearCart, getCart } from '../../../services/cart';
+
+/**
+ * The caller's cart, re-validated against current prices and stock.
+ * `adjustments` lists anything that changed since it was last saved.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getCartSession(request);
+
+  try {
+    const cart = await getCart(session.owner);
+    return withCartSession(NextResponse.json({ success: true, data: cart }), session);
+
+  } catch (error) {
+    return cartErrorResponse(error, 'Failed to load cart');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await getCartSession(request);
+
+  try {
+    const cart = await clearCart(session.owner);
+    return withCartSession(NextResponse.json({ success: true, data: cart }), session);
+
+  } catch (error) {
+    return cartErrorResponse(error, 'Failed to clear cart');
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { CustomerIdentity, getSessionUser } from '../../../../lib/customerAuth';
 
 interface ChatMessage {
   id: string;
@@ -12,6 +13,7 @@ interface ChatMessage {
 
 interface ChatSession {
   id: string;
+  userId?: string; // Set when a signed-in customer started the chat
   customerEmail?: string;
   customerName?: string;
   agentId?: string;
@@ -38,17 +40,26 @@ const AUTO_RESPONSES = [
 // Generate unique IDs
 const generateId = () => `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+// Sessions started by a signed-in customer are only visible to that customer
+const findSession = (sessionId: string, user: CustomerIdentity | null): ChatSession | undefined => {
+  const session = activeSessions.get(sessionId);
+  if (session?.userId && session.userId !== user?.userId) {
+    return undefined;
+  }
+  return session;
+};
+
 // Simulate agent response
 const getAutoResponse = (userMessage: string): string => {
   const lowerMessage = userMessage.toLowerCase();
   
   // Simple keyword-based responses
-  if (lowerMessage.includes('order') || lowerMessage.includes('purchase')) {
-    return "I can help you with your order! Can you please provide your order number or email address?";
+  if (lowerMessage.includes('refund') || lowerMessage.includes('return')) {
+    return "You can start a return yourself: open your order and choose \"Request a return\". Once it's approved we'll email you a prepaid return label, and your refund is issued as soon as the parcel arrives.";
   }
   
-  if (lowerMessage.includes('refund') || lowerMessage.includes('return')) {
-    return "I understand you'd like to process a return or refund. Let me connect you with our returns specialist.";
+  if (lowerMessage.includes('order') || lowerMessage.includes('purchase')) {
+    return "I can help you with your order! Can you please provide your order number or email address?";
   }
   
   if (lowerMessage.includes('shipping') || lowerMessage.includes('delivery')) {
@@ -71,19 +82,20 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { action, sessionId, message, customerData } = body;
+    const user = await getSessionUser(request);
 
     switch (action) {
       case 'start_session':
-        return handleStartSession(customerData);
+        return handleStartSession(customerData, user);
       
       case 'send_message':
-        return handleSendMessage(sessionId, message);
+        return handleSendMessage(sessionId, message, user);
       
       case 'end_session':
-        return handleEndSession(sessionId);
+        return handleEndSession(sessionId, user);
       
       case 'get_messages':
-        return handleGetMessages(sessionId);
+        return handleGetMessages(sessionId, user);
       
       default:
         return NextResponse.json(
@@ -101,12 +113,13 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function handleStartSession(customerData: any) {
+async function handleStartSession(customerData: any, user: CustomerIdentity | null) {
   const sessionId = generateId();
   const session: ChatSession = {
     id: sessionId,
-    customerEmail: customerData?.email,
-    customerName: customerData?.name,
+    userId: user?.userId,
+    customerEmail: user?.email || customerData?.email,
+    customerName: user?.name || customerData?.name,
     startTime: new Date().toISOString(),
     isActive: true,
     messages: [],
@@ -118,7 +131,7 @@ async function handleStartSession(customerData: any) {
   const welcomeMessage: ChatMessage = {
     id: generateId(),
     sessionId,
-    text: `Welcome${customerData?.name ? `, ${customerData.name}` : ''}! You're now connected with our support team. How can we help you today?`,
+    text: `Welcome${session.customerName ? `, ${session.customerName}` : ''}! You're now connected with our support team. How can we help you today?`,
     isFromUser: false,
     timestamp: new Date().toISOString(),
     messageType: 'system',
@@ -135,7 +148,7 @@ async function handleStartSession(customerData: any) {
   });
 }
 
-async function handleSendMessage(sessionId: string, messageText: string) {
+async function handleSendMessage(sessionId: string, messageText: string, user: CustomerIdentity | null) {
   if (!sessionId || !messageText?.trim()) {
     return NextResponse.json(
       { error: 'Session ID and message are required' },
@@ -143,7 +156,7 @@ async function handleSendMessage(sessionId: string, messageText: string) {
     );
   }
 
-  const session = activeSessions.get(sessionId);
+  const session = findSession(sessionId, user);
   if (!session || !session.isActive) {
     return NextResponse.json(
       { error: 'Invalid or inactive session' },
@@ -189,8 +202,8 @@ async function handleSendMessage(sessionId: string, messageText: string) {
   });
 }
 
-async function handleEndSession(sessionId: string) {
-  const session = activeSessions.get(sessionId);
+async function handleEndSession(sessionId: string, user: CustomerIdentity | null) {
+  const session = findSession(sessionId, user);
   if (!session) {
     return NextResponse.json(
       { error: 'Session not found' },
@@ -227,8 +240,8 @@ async function handleEndSession(sessionId: string) {
   });
 }
 
-async function handleGetMessages(sessionId: string) {
-  const session = activeSessions.get(sessionId);
+async function handleGetMessages(sessionId: string, user: CustomerIdentity | null) {
+  const session = findSession(sessionId, user);
   if (!session) {
     return NextResponse.json(
       { error: 'Session not found' },
@@ -250,7 +263,7 @@ export async function GET(request: NextRequest) {
   const sessionId = url.searchParams.get('sessionId');
 
   if (sessionId) {
-    return handleGetMessages(sessionId);
+    return handleGetMessages(sessionId, await getSessionUser(request));
   }
 
   return NextResponse.json({
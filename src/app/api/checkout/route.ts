@@ -1,7 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { applyCustomPricingRules, CartItemWithPrice } from '../../../services/pricing';
-import { processExternalFulfillment, FulfillmentOrderData } from '../../../services/fulfillment';
+import { applyCustomPricingRules, CartItemWithPrice, STANDARD_SHIPPING_COST } from '../../../services/pricing';
+import { loadActivePromotions, getCustomerTier } from '../../../services/promotions';
+import { validateCoupon, createOrderWithCoupon } from '../../../services/coupons';
+import { calculateOrderTax, pricesIncludeTax } from '../../../services/tax';
+import { BASE_CURRENCY, convertFromBase, convertToBase, getExchangeRate, resolveCurrency, roundForCurrency } from '../../../services/currency';
+import { loadExchangeRates } from '../../../services/exchangeRates';
+import { processExternalFulfillment, FulfillmentOrderData, FulfillmentResult } from '../../../services/fulfillment';
+import { enqueueFulfillment } from '../../../services/fulfillmentQueue';
+import { commitOrderInventory, releaseOrderInventory, reserveOrderInventory } from '../../../services/inventory';
+import { clearCart, getCart, ServerCart } from '../../../services/cart';
+import { recordOrderEvent } from '../../../services/orderLifecycle';
+import { enrichCartItemsWithPrice, getProductById } from '../../../services/productService';
+import { attributeSearchConversions } from '../../../services/searchAnalytics';
+import { getCartSession } from '../../../lib/cartSession';
 import { createApiLogger, Logger } from '../../../lib/logger';
 
 // Create Supabase client for server-side operations
@@ -23,30 +35,15 @@ interface CheckoutRequest {
     address: {
       street: string;
       city: string;
+      state?: string;
       postalCode: string;
       country: string;
     };
   };
   paymentMethod: 'creditCard' | 'paypal';
   shippingMethod?: 'standard' | 'express' | 'overnight';
-}
-
-interface CartItem {
-  id: string;
-  user_id: string;
-  product_id: string;
-  quantity: number;
-  created_at: string;
-  updated_at: string;
-}
-
-interface Product {
-  id: string;
-  name: string;
-  price: number;
-  stock: number;
-  category: string;
-  description?: string;
+  couponCode?: string;
+  currency?: string;
 }
 
 export async function POST(request: NextRequest) {
@@ -70,13 +67,15 @@ export async function POST(request: NextRequest) {
       shippingMethod: checkoutData.shippingMethod
     });
     
-    // Step 1: Authorization - Verify user session
+    // Step 1: Authorization - Resolve whose cart is being checked out
     logger.info('auth_start', 'Starting user session verification');
     
-    // For demo purposes, we'll simulate a user session
-    // In a real app, you would get this from the session/JWT token
-    const mockUserId = 'demo-user-' + Date.now();
+    // Signed-in customers check out their own cart, guests the cart of their session cookie
+    const cartSession = await getCartSession(request);
+    const userId = cartSession.customer?.userId || null;
     const userEmail = checkoutData.customerInfo.email;
+    // Loyalty tiers and per-customer coupon limits go by the signed-in account, not the typed email
+    const accountEmail = cartSession.customer?.email || null;
     
     if (!userEmail) {
       logger.error('auth_failed', 'User session verification failed: missing email', {
@@ -90,183 +89,64 @@ export async function POST(request: NextRequest) {
     
     // Update logger context with user information
     logger.updateContext({
-      userId: mockUserId,
+      userId: userId || undefined,
       email: userEmail
     });
     
     logger.info('auth_success', 'User session verified successfully', {
-      userId: mockUserId,
+      userId,
+      guest: !userId,
       email: userEmail
     });
     
     // Step 2: Get cart items and apply custom pricing logic
     logger.info('cart_load_start', 'Starting cart retrieval and pricing calculation');
     
-    let cartItems: CartItem[] = [];
-    let products: Product[] = [];
-    
+    // getCart re-validates prices and stock, so the lines are safe to price
+    let cart: ServerCart;
     try {
-      // Try to fetch cart from Supabase
-      logger.debug('cart_fetch_attempt', 'Attempting to fetch cart from database', {
-        userId: mockUserId
-      });
-      
-      const { data: cartData, error: cartError } = await supabase
-        .from('carts')
-        .select('*')
-        .eq('user_id', mockUserId);
-      
-      if (cartError) {
-        logger.warn('cart_fetch_fallback', 'Database cart fetch failed, using mock data', {
-          error: cartError.message,
-          fallbackReason: 'supabase_not_configured'
-        });
-        // Use mock cart data for demo
-        cartItems = [
-          {
-            id: '1',
-            user_id: mockUserId,
-            product_id: '1',
-            quantity: 2,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          },
-          {
-            id: '2',
-            user_id: mockUserId,
-            product_id: '4',
-            quantity: 1,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          }
-        ];
-      } else {
-        cartItems = cartData || [];
-        logger.info('cart_fetch_success', 'Cart retrieved from database successfully', {
-          itemCount: cartItems.length
-        });
-      }
-      
-      if (cartItems.length === 0) {
-        logger.error('cart_empty', 'Checkout failed: cart is empty', {
-          userId: mockUserId
-        });
-        return NextResponse.json(
-          { error: 'Cart is empty' },
-          { status: 400 }
-        );
-      }
-      
-      logger.info('cart_loaded', 'Cart loaded successfully', {
-        itemCount: cartItems.length,
-        productIds: cartItems.map(item => item.product_id)
-      });
-      
-      // Get product details for cart items
-      const productIds = cartItems.map(item => item.product_id);
-      logger.debug('products_fetch_attempt', 'Fetching product details for cart items', {
-        productIds: productIds
-      });
-      
-      const { data: productData, error: productError } = await supabase
-        .from('products')
-        .select('*')
-        .in('id', productIds);
-      
-      if (productError) {
-        logger.warn('products_fetch_fallback', 'Database product fetch failed, using mock data', {
-          error: productError.message,
-          productIds: productIds
-        });
-        // Use mock product data
-        products = [
-          {
-            id: '1',
-            name: 'Premium Wireless Headphones',
-            price: 299.99,
-            stock: 50,
-            category: 'Electronics',
-            description: 'High-quality wireless headphones'
-          },
-          {
-            id: '4',
-            name: 'Portable Bluetooth Speaker',
-            price: 89.99,
-            stock: 75,
-            category: 'Electronics',
-            description: 'Compact Bluetooth speaker'
-          }
-        ];
-      } else {
-        products = productData || [];
-        logger.info('products_fetch_success', 'Product details retrieved successfully', {
-          productCount: products.length
-        });
-      }
-      
+      cart = await getCart(cartSession.owner);
     } catch (error) {
-      logger.warn('database_connection_failed', 'Database connection failed, using mock data', {
+      logger.error('cart_fetch_failed', 'Cart could not be loaded', {
         error: error instanceof Error ? error.message : 'Unknown error'
       });
-      // Fallback to mock data
-      cartItems = [
-        {
-          id: '1',
-          user_id: mockUserId,
-          product_id: '1',
-          quantity: 2,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        },
-        {
-          id: '2',
-          user_id: mockUserId,
-          product_id: '4',
-          quantity: 1,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }
-      ];
-      
-      products = [
-        {
-          id: '1',
-          name: 'Premium Wireless Headphones',
-          price: 299.99,
-          stock: 50,
-          category: 'Electronics',
-          description: 'High-quality wireless headphones'
-        },
-        {
-          id: '4',
-          name: 'Portable Bluetooth Speaker',
-          price: 89.99,
-          stock: 75,
-          category: 'Electronics',
-          description: 'Compact Bluetooth speaker'
-        }
-      ];
+      return NextResponse.json(
+        { error: 'Your cart could not be loaded, please try again' },
+        { status: 503 }
+      );
     }
     
+    if (cart.items.length === 0) {
+      logger.error('cart_empty', 'Checkout failed: cart is empty', {
+        userId
+      });
+      return NextResponse.json(
+        { error: 'Cart is empty' },
+        { status: 400 }
+      );
+    }
+    
+    // Prices or quantities changed since the customer last saw the cart: let them review it
+    if (cart.adjustments.length > 0) {
+      logger.warn('cart_adjusted', 'Cart changed during validation', {
+        adjustments: cart.adjustments.map(adjustment => adjustment.type)
+      });
+      return NextResponse.json(
+        { error: 'Your cart was updated, please review it', adjustments: cart.adjustments },
+        { status: 409 }
+      );
+    }
+    
+    logger.info('cart_loaded', 'Cart loaded successfully', {
+      itemCount: cart.items.length,
+      productIds: cart.items.map(item => item.productId)
+    });
+    
     // Convert to CartItemWithPrice format for pricing service
     logger.debug('cart_conversion_start', 'Converting cart items for pricing service');
-    const cartItemsWithPrice: CartItemWithPrice[] = cartItems.map(cartItem => {
-      const product = products.find(p => p.id === cartItem.product_id);
-      if (!product) {
-        logger.error('product_not_found', 'Product not found for cart item', {
-          cartItemId: cartItem.id,
-          productId: cartItem.product_id
-        });
-        throw new Error(`Product not found: ${cartItem.product_id}`);
-      }
-      
-      return {
-        productId: cartItem.product_id,
-        quantity: cartItem.quantity,
-        price: product.price,
-        name: product.name
-      };
-    });
+    const cartItemsWithPrice: CartItemWithPrice[] = enrichCartItemsWithPrice(
+      cart.items.map(item => ({ productId: item.productId, variantId: item.variantId, quantity: item.quantity }))
+    );
     
     logger.info('cart_conversion_success', 'Cart items converted for pricing', {
       itemCount: cartItemsWithPrice.length,
@@ -275,27 +155,102 @@ export async function POST(request: NextRequest) {
     
     // Apply custom pricing rules
     logger.info('pricing_rules_start', 'Applying custom pricing rules');
-    const pricingResult = applyCustomPricingRules(cartItemsWithPrice);
+    const [promotions, customerTier, rates] = await Promise.all([
+      loadActivePromotions(),
+      accountEmail ? getCustomerTier(accountEmail) : undefined,
+      loadExchangeRates()
+    ]);
+    
+    // Price the order in the customer's presentment currency
+    const currency = resolveCurrency(checkoutData.currency);
+    const exchangeRate = getExchangeRate(currency, rates);
+    const pricingContext = {
+      promotions,
+      customerTier,
+      shippingCost: STANDARD_SHIPPING_COST,
+      currency,
+      exchangeRate
+    };
+    let pricingResult = applyCustomPricingRules(cartItemsWithPrice, pricingContext);
+    
+    // Validate the customer's discount code (if any) and re-price with it
+    if (checkoutData.couponCode) {
+      logger.info('coupon_validation_start', 'Validating discount code', {
+        couponCode: checkoutData.couponCode
+      });
+      
+      const couponResult = await validateCoupon(checkoutData.couponCode, cartItemsWithPrice, accountEmail || userEmail, pricingContext);
+      if (!couponResult.valid || !couponResult.pricing) {
+        logger.warn('coupon_invalid', 'Discount code rejected', {
+          couponCode: couponResult.code,
+          reason: couponResult.error
+        });
+        return NextResponse.json(
+          { error: couponResult.error || 'Invalid discount code', success: false },
+          { status: 400 }
+        );
+      }
+      
+      pricingResult = couponResult.pricing;
+      logger.info('coupon_validated', 'Discount code applied', {
+        couponCode: couponResult.code,
+        couponDiscount: pricingResult.couponDiscount
+      });
+    }
     
     logger.info('pricing_rules_applied', 'Pricing rules applied successfully', {
       subtotal: pricingResult.subtotal,
       totalDiscount: pricingResult.totalDiscount,
       finalTotal: pricingResult.finalTotal,
+      couponCode: pricingResult.couponCode,
+      promotionsEvaluated: promotions.length,
+      customerTier,
       rulesApplied: pricingResult.rulesApplied.filter(rule => rule.applied).map(rule => ({
         name: rule.name,
-        savings: rule.savings
+        savings: rule.savings,
+        explanation: rule.explanation
       }))
     });
     
     // Calculate shipping
-    const freeShippingApplied = pricingResult.rulesApplied.some(rule => rule.id.includes('free-shipping'));
-    const shippingCost = freeShippingApplied ? 0 : 15.99;
-    const orderTotal = pricingResult.finalTotal + shippingCost;
+    const freeShippingApplied = pricingResult.freeShipping;
+    const shippingCost = freeShippingApplied ? 0 : convertFromBase(STANDARD_SHIPPING_COST, currency, rates);
     
     logger.info('shipping_calculated', 'Shipping cost calculated', {
       freeShippingApplied,
+      shippingCost
+    });
+    
+    // Calculate tax for the destination
+    const taxResult = await calculateOrderTax({
+      items: cartItemsWithPrice.map(item => ({
+        ...item,
+        price: convertFromBase(item.price, currency, rates)
+      })),
+      shippingAddress: {
+        country: checkoutData.customerInfo.address.country,
+        state: checkoutData.customerInfo.address.state,
+        postalCode: checkoutData.customerInfo.address.postalCode
+      },
       shippingCost,
-      orderTotal
+      discount: pricingResult.totalDiscount,
+      pricesIncludeTax: pricesIncludeTax(),
+      currency
+    });
+    const orderTotal = roundForCurrency(
+      pricingResult.finalTotal + shippingCost + (taxResult.pricesIncludeTax ? 0 : taxResult.totalTax),
+      currency
+    );
+    const settlementTotal = convertToBase(orderTotal, currency, rates);
+    
+    logger.info('tax_calculated', 'Tax calculated', {
+      provider: taxResult.provider,
+      totalTax: taxResult.totalTax,
+      pricesIncludeTax: taxResult.pricesIncludeTax,
+      taxLines: taxResult.lines.length,
+      orderTotal,
+      currency,
+      settlementTotal
     });
     
     // Step 3: Database Transaction - Insert order
@@ -313,10 +268,33 @@ export async function POST(request: NextRequest) {
       itemCount: cartItemsWithPrice.length
     });
     
+    // Hold stock before the order is stored; it is committed once the paid order is in
+    const reservation = await reserveOrderInventory(orderId, cartItemsWithPrice, {
+      destinationCountry: checkoutData.customerInfo.address.country
+    });
+    
+    if (!reservation.success) {
+      logger.warn('inventory_reservation_failed', 'Order not created: stock could not be reserved', {
+        orderId,
+        error: reservation.error,
+        shortfalls: reservation.shortfalls
+      });
+      return NextResponse.json(
+        { error: reservation.error || 'Insufficient stock', shortfalls: reservation.shortfalls, success: false },
+        { status: 409 }
+      );
+    }
+    
+    logger.info('inventory_reserved', 'Stock reserved for order', {
+      orderId,
+      tracked: reservation.tracked,
+      allocations: reservation.allocations.length
+    });
+    
     // Prepare order data
     const orderData = {
       id: orderId,
-      user_id: mockUserId,
+      user_id: userId,
       customer_email: userEmail,
       customer_name: checkoutData.customerInfo.name,
       shipping_address: checkoutData.customerInfo.address,
@@ -324,42 +302,118 @@ export async function POST(request: NextRequest) {
       shipping_method: checkoutData.shippingMethod || 'standard',
       subtotal: pricingResult.subtotal,
       discount_amount: pricingResult.totalDiscount,
+      discount_codes: pricingResult.couponCode ? [pricingResult.couponCode] : [],
       shipping_cost: shippingCost,
+      tax_amount: taxResult.totalTax,
+      tax_lines: taxResult.lines,
       total_amount: orderTotal,
+      currency,
+      settlement_currency: BASE_CURRENCY,
+      exchange_rate: exchangeRate,
+      settlement_total: settlementTotal,
       pricing_rules_applied: pricingResult.rulesApplied,
-      order_status: 'confirmed',
+      // Payment is taken with the order here, so it starts out paid
+      status: 'paid',
+      financial_status: 'paid',
       created_at: orderDate,
       updated_at: orderDate
     };
     
     let orderInserted = false;
     
-    try {
-      logger.debug('order_insert_attempt', 'Attempting to insert order into database');
-      const { error: orderError } = await supabase
-        .from('orders')
-        .insert([orderData]);
+    // Orders that use a coupon are inserted together with the redemption so
+    // usage limits hold; a failed redemption stops the checkout
+    if (pricingResult.couponCode) {
+      logger.debug('order_insert_attempt', 'Inserting order and redeeming discount code', {
+        couponCode: pricingResult.couponCode
+      });
+      const redemption = await createOrderWithCoupon(
+        orderData,
+        pricingResult.couponCode,
+        accountEmail || userEmail,
+        convertToBase(pricingResult.couponDiscount, currency, rates)
+      );
       
-      if (orderError) {
-        logger.warn('order_insert_failed', 'Order database insertion failed, continuing with fulfillment', {
-          error: orderError.message,
+      if (!redemption.success) {
+        await releaseOrderInventory(orderId);
+        logger.error('coupon_redemption_failed', 'Order not created: discount code could not be redeemed', {
+          couponCode: pricingResult.couponCode,
+          error: redemption.error,
           orderId
         });
-      } else {
-        orderInserted = true;
-        logger.info('order_insert_success', 'Order successfully inserted into database', {
-          orderId,
-          orderTotal
+        return NextResponse.json(
+          { error: redemption.error || 'Discount code could not be redeemed', success: false },
+          { status: 409 }
+        );
+      }
+      
+      orderInserted = true;
+      logger.info('order_insert_success', 'Order inserted and discount code redeemed', {
+        orderId,
+        orderTotal,
+        couponCode: pricingResult.couponCode
+      });
+    } else {
+      try {
+        logger.debug('order_insert_attempt', 'Attempting to insert order into database');
+        const { error: orderError } = await supabase
+          .from('orders')
+          .insert([orderData]);
+      
+        if (orderError) {
+          logger.warn('order_insert_failed', 'Order database insertion failed, continuing with fulfillment', {
+            error: orderError.message,
+            orderId
+          });
+        } else {
+          orderInserted = true;
+          logger.info('order_insert_success', 'Order successfully inserted into database', {
+            orderId,
+            orderTotal
+          });
+        }
+      } catch (error) {
+        logger.warn('order_insert_exception', 'Database transaction failed, continuing with fulfillment', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          orderId
         });
       }
-    } catch (error) {
-      logger.warn('order_insert_exception', 'Database transaction failed, continuing with fulfillment', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        orderId
+
+      // Nothing stored to hold the stock for
+      if (!orderInserted) {
+        await releaseOrderInventory(orderId);
+      }
+    }
+    
+    if (orderInserted) {
+      // The order is already paid, so its reservation must not expire
+      try {
+        await commitOrderInventory(orderId);
+      } catch (error) {
+        logger.error('inventory_commit_failed', 'Reserved stock could not be committed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          orderId
+        });
+      }
+
+      await recordOrderEvent(orderId, {
+        type: 'created',
+        toStatus: 'paid',
+        actor: userId ? 'customer' : 'guest',
+        metadata: { payment_method: checkoutData.paymentMethod }
+      });
+
+      // Orders placed here start out paid, so they skip the paid transition
+      // hooks that credit searches elsewhere
+      await attributeSearchConversions({
+        orderId,
+        userId,
+        sessionId: cartSession.sessionId,
+        productIds: cartItemsWithPrice.map(item => item.productId)
       });
     }
     
-    // Step 4: Fulfillment - Process external fulfillment
+    // Step 4: Fulfillment - Queue fulfillment jobs (shipments, inventory, ERP, shipping labels)
     logger.info('fulfillment_start', 'Starting external fulfillment processing');
     
     const fulfillmentOrderData: FulfillmentOrderData = {
@@ -369,13 +423,22 @@ export async function POST(request: NextRequest) {
         email: checkoutData.customerInfo.email,
         address: checkoutData.customerInfo.address
       },
-      items: cartItemsWithPrice.map(item => ({
-        productId: item.productId,
-        name: item.name,
-        quantity: item.quantity,
-        price: item.price
-      })),
-      orderTotal: orderTotal,
+      items: cartItemsWithPrice.map(item => {
+        const product = getProductById(item.productId);
+        return {
+          productId: item.productId,
+          variantId: item.variantId,
+          sku: item.sku,
+          variantTitle: item.variantTitle,
+          name: item.name,
+          quantity: item.quantity,
+          price: item.price,
+          isDigital: item.isDigital,
+          weight: product?.weight,
+          dimensions: product?.dimensions
+        };
+      }),
+      orderTotal: settlementTotal,
       shippingMethod: checkoutData.shippingMethod || 'standard',
       paymentMethod: checkoutData.paymentMethod,
       orderDate: new Date(orderDate)
@@ -387,71 +450,80 @@ export async function POST(request: NextRequest) {
       shippingMethod: fulfillmentOrderData.shippingMethod
     });
     
-    const fulfillmentResult = await processExternalFulfillment(fulfillmentOrderData);
+    // The worker (/api/fulfillment/worker) runs the jobs with retries and
+    // moves the order to processing/shipped as they succeed
+    const fulfillmentQueued = orderInserted && await enqueueFulfillment(fulfillmentOrderData);
+    let fulfillmentResult: FulfillmentResult | null = null;
     
-    if (!fulfillmentResult.success) {
-      logger.error('fulfillment_failed', 'External fulfillment processing failed', {
-        orderId,
-        error: fulfillmentResult.error
-      });
-      // In a real app, you might want to rollback the order or mark it as failed
+    if (fulfillmentQueued) {
+      logger.info('fulfillment_queued', 'Fulfillment jobs queued', { orderId });
     } else {
-      logger.info('fulfillment_success', 'External fulfillment processing completed successfully', {
-        orderId,
-        trackingId: fulfillmentResult.trackingId,
-        carrier: fulfillmentResult.carrier,
-        estimatedDelivery: fulfillmentResult.estimatedDelivery
-      });
-    }
-    
-    // Step 5: Clean Up - Clear user's cart
-    logger.info('cart_cleanup_start', 'Starting cart cleanup process');
-    
-    try {
-      logger.debug('cart_cleanup_attempt', 'Attempting to clear user cart from database');
-      const { error: deleteError } = await supabase
-        .from('carts')
-        .delete()
-        .eq('user_id', mockUserId);
+      // No stored order or job queue to work from: fulfil inline
+      logger.warn('fulfillment_queue_unavailable', 'Fulfillment queue unavailable, processing inline', { orderId });
+      fulfillmentResult = await processExternalFulfillment(fulfillmentOrderData);
       
-      if (deleteError) {
-        logger.warn('cart_cleanup_failed', 'Cart cleanup failed (database not configured)', {
-          error: deleteError.message,
-          userId: mockUserId
+      if (!fulfillmentResult.success) {
+        logger.error('fulfillment_failed', 'External fulfillment processing failed', {
+          orderId,
+          error: fulfillmentResult.error
         });
+        // In a real app, you might want to rollback the order or mark it as failed
       } else {
-        logger.info('cart_cleanup_success', 'Cart successfully cleared', {
-          userId: mockUserId
+        logger.info('fulfillment_success', 'External fulfillment processing completed successfully', {
+          orderId,
+          trackingId: fulfillmentResult.trackingId,
+          carrier: fulfillmentResult.carrier,
+          estimatedDelivery: fulfillmentResult.estimatedDelivery
         });
       }
+    }
+    
+    // Step 5: Clean Up - Clear the checked-out cart
+    logger.info('cart_cleanup_start', 'Starting cart cleanup process');
+    
+    try {
+      await clearCart(cartSession.owner);
+      logger.info('cart_cleanup_success', 'Cart successfully cleared', {
+        userId
+      });
     } catch (error) {
       logger.warn('cart_cleanup_exception', 'Cart cleanup failed, continuing...', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        userId: mockUserId
+        userId
       });
     }
     
+
     // Step 6: Response - Return success with order details
     logger.info('response_preparation_start', 'Preparing checkout response');
     
     const response = {
       success: true,
       orderId: orderId,
-      trackingId: fulfillmentResult.trackingId,
+      trackingId: fulfillmentResult?.trackingId,
       orderTotal: orderTotal,
-      estimatedDelivery: fulfillmentResult.estimatedDelivery,
-      carrier: fulfillmentResult.carrier,
-      shippingCost: fulfillmentResult.shippingCost,
+      currency,
+      settlementCurrency: BASE_CURRENCY,
+      settlementTotal,
+      estimatedDelivery: fulfillmentResult?.estimatedDelivery,
+      carrier: fulfillmentResult?.carrier,
+      shippingCost: fulfillmentResult?.shippingCost,
       pricingRulesApplied: pricingResult.rulesApplied.filter(rule => rule.applied),
       fulfillmentDetails: {
-        success: fulfillmentResult.success,
-        carrier: fulfillmentResult.carrier,
-        estimatedDelivery: fulfillmentResult.estimatedDelivery
+        queued: fulfillmentQueued,
+        success: fulfillmentResult ? fulfillmentResult.success : fulfillmentQueued,
+        carrier: fulfillmentResult?.carrier,
+        estimatedDelivery: fulfillmentResult?.estimatedDelivery
       },
       orderSummary: {
         subtotal: pricingResult.subtotal,
         discount: pricingResult.totalDiscount,
+        couponCode: pricingResult.couponCode,
+        couponDiscount: pricingResult.couponDiscount,
         shipping: shippingCost,
+        tax: taxResult.totalTax,
+        taxLines: taxResult.lines,
+        pricesIncludeTax: taxResult.pricesIncludeTax,
         total: orderTotal,
         items: cartItemsWithPrice
       }
@@ -460,8 +532,9 @@ export async function POST(request: NextRequest) {
     logger.completeTransaction('checkout', 'Checkout process completed successfully', {
       orderId: orderId,
       total: orderTotal,
-      trackingId: fulfillmentResult.trackingId,
-      fulfillmentSuccess: fulfillmentResult.success,
+      trackingId: fulfillmentResult?.trackingId,
+      fulfillmentQueued,
+      fulfillmentSuccess: fulfillmentResult ? fulfillmentResult.success : fulfillmentQueued,
       orderInserted: orderInserted
     });
     
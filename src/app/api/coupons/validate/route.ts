@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateCoupon } from '../../../../services/coupons';
+import { CartItemWithPrice } from '../../../../services/pricing';
+import { getProductById } from '../../../../services/productService';
+import { getCustomerTier, loadActivePromotions } from '../../../../services/promotions';
+import { getSessionUser } from '../../../../lib/customerAuth';
+
+interface ValidateCouponRequest {
+  code: string;
+  customerEmail?: string;
+  items: Array<{
+    id?: string;
+    productId?: string;
+    name: string;
+    price: number;
+    quantity: number;
+    category?: string;
+  }>;
+}
+
+/**
+ * Check a discount code against the customer's cart and return the discount it gives.
+ * This is a preview only - the code is re-validated and redeemed when the order is created.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: ValidateCouponRequest = await request.json();
+
+    if (!body.code || typeof body.code !== 'string') {
+      return NextResponse.json(
+        { valid: false, error: 'Discount code is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.items) || body.items.length === 0) {
+      return NextResponse.json(
+        { valid: false, error: 'Cart is empty' },
+        { status: 400 }
+      );
+    }
+
+    const items: CartItemWithPrice[] = body.items.map(item => {
+      const productId = item.productId || item.id || '';
+      return {
+        productId,
+        name: item.name,
+        price: Number(item.price) || 0,
+        quantity: Number(item.quantity) || 0,
+        category: item.category || getProductById(productId)?.category
+      };
+    });
+
+    // Priced like the draft order flow: after automatic promotions and the signed-in customer's tier
+    const customer = await getSessionUser(request);
+    const [promotions, customerTier] = await Promise.all([
+      loadActivePromotions(),
+      customer ? getCustomerTier(customer.email) : undefined
+    ]);
+    const result = await validateCoupon(body.code, items, customer?.email || body.customerEmail, { promotions, customerTier });
+
+    if (!result.valid) {
+      return NextResponse.json(
+        { valid: false, code: result.code, error: result.error },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      valid: true,
+      code: result.code,
+      description: result.coupon?.description,
+      discount: result.discount,
+      freeShipping: result.pricing?.freeShipping || false,
+      pricing: result.pricing
+    });
+
+  } catch (error) {
+    console.error('Error validating coupon:', error);
+    return NextResponse.json(
+      { valid: false, error: 'Failed to validate discount code' },
+      { status: 500 }
+    );
+  }
+}
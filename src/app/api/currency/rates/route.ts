@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { BASE_CURRENCY, CURRENCIES } from '../../../../services/currency';
+import { loadExchangeRates } from '../../../../services/exchangeRates';
+
+/**
+ * Supported presentment currencies and the stored FX rates the storefront
+ * uses to display prices. Checkout re-reads the rates server-side.
+ */
+export async function GET() {
+  try {
+    const rates = await loadExchangeRates();
+
+    return NextResponse.json({
+      base: BASE_CURRENCY,
+      currencies: Object.values(CURRENCIES),
+      rates
+    });
+  } catch (error) {
+    console.error('Error loading exchange rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to load exchange rates' },
+      { status: 500 }
+    );
+  }
+}
@@ -10,8 +10,9 @@ import {
   AutoScaler 
 } from '../../../lib/performance/optimization';
 import { cache } from '../../../lib/cache/redis';
+import { withPermission } from '../../../lib/adminAuth';
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const action = searchParams.get('action') || 'overview';
 
@@ -419,4 +420,6 @@ async function getScalingHistory(): Promise<Array<{timestamp: number, action: st
       reason: 'Low CPU usage: 25%',
     },
   ];
-}
\ No newline at end of file
+}
+
+export const GET = withPermission('system:manage')(handleGet);
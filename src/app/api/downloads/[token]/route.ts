@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startDownload, verifyDownloadToken } from '../../../../services/digitalDownloads';
+import { getRequestIP } from '../../../../lib/adminAuth';
+
+const DOWNLOAD_ERROR_STATUS: Record<string, number> = {
+  'Download not found': 404,
+  'Download limit reached': 403,
+  'Download access has been revoked': 403,
+  'Download access has expired': 410,
+  'This file is not available right now': 503
+};
+
+/**
+ * Signed download link (see digitalDownloads.ts). Counts and logs the
+ * download, then redirects to a storage URL that works for one minute.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const entitlementId = verifyDownloadToken(params.token);
+    if (!entitlementId) {
+      return NextResponse.json(
+        { success: false, error: 'This download link is invalid or has expired' },
+        { status: 403 }
+      );
+    }
+
+    const fileUrl = await startDownload(entitlementId, {
+      ipAddress: getRequestIP(request),
+      userAgent: request.headers.get('user-agent')
+    });
+
+    return NextResponse.redirect(fileUrl, { status: 302 });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    const status = DOWNLOAD_ERROR_STATUS[message];
+    if (!status) {
+      console.error('Error starting download:', error);
+    }
+    return NextResponse.json(
+      { success: false, error: status ? message : 'Download failed' },
+      { status: status || 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../lib/customerAuth';
+import { listCustomerDownloads } from '../../../services/digitalDownloads';
+
+/**
+ * The signed-in customer's downloads, each with a fresh signed link
+ */
+export async function GET(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in to see your downloads' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ success: true, data: await listCustomerDownloads(customer) });
+
+  } catch (error) {
+    console.error('Error fetching downloads:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch downloads' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { sendTemplateEmail, formatOrderItemsForEmail } from '../../../../lib/email'
+import { withPermission } from '../../../../lib/adminAuth'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
@@ -9,7 +10,7 @@ export const revalidate = 0
  * Abandoned cart detection and email automation
  * POST /api/email/abandoned-cart
  */
-export async function POST(req: NextRequest) {
+async function handlePost(req: NextRequest) {
   try {
     const body = await req.json()
     const { session_id, customer_email, cart_items, cart_total } = body
@@ -99,7 +100,7 @@ export async function POST(req: NextRequest) {
  * Get abandoned carts for analysis
  * GET /api/email/abandoned-cart?limit=10
  */
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url)
     const limit = parseInt(searchParams.get('limit') || '50')
@@ -149,3 +150,6 @@ export async function GET(req: NextRequest) {
     }, { status: 500 })
   }
 }
+
+export const GET = withPermission('marketing:manage')(handleGet)
+export const POST = withPermission('marketing:manage', { audit: 'email' })(handlePost)
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { sendTemplateEmail, formatOrderItemsForEmail } from '../../../../lib/email'
+import { sendTemplateEmail, formatOrderItemsForEmail, formatTaxLinesForEmail } from '../../../../lib/email'
+import { withPermission } from '../../../../lib/adminAuth'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
@@ -14,7 +15,7 @@ export interface SendEmailRequest {
  * Email sending API endpoint
  * POST /api/email/send
  */
-export async function POST(req: NextRequest) {
+async function handlePost(req: NextRequest) {
   try {
     const body: SendEmailRequest = await req.json()
     const { template, recipient, variables } = body
@@ -44,6 +45,12 @@ export async function POST(req: NextRequest) {
       variables.order_items_text = formatted.text
     }
 
+    if (template === 'order_confirmation') {
+      const formatted = formatTaxLinesForEmail(variables.tax_lines || [])
+      variables.tax_lines_html = formatted.html
+      variables.tax_lines_text = formatted.text
+    }
+
     // Special handling for abandoned cart emails
     if (template === 'abandoned_cart_reminder' && variables.cart_items) {
       const formatted = formatOrderItemsForEmail(variables.cart_items)
@@ -76,7 +83,7 @@ export async function POST(req: NextRequest) {
  * Test email endpoint - for development
  * GET /api/email/send?test=order_confirmation
  */
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url)
     const testType = searchParams.get('test')
@@ -101,7 +108,10 @@ export async function GET(req: NextRequest) {
           order_items: [
             { name: 'Test Product 1', quantity: 1, price: 49.99 },
             { name: 'Test Product 2', quantity: 2, price: 25.00 }
-          ]
+          ],
+          tax_lines_html: formatTaxLinesForEmail([
+            { id: 'us-ny:0.04', jurisdiction: 'US-NY', name: 'New York State Sales Tax', rate: 0.04, taxableAmount: 99.99, amount: 4.00 }
+          ]).html
         }
         break
       case 'abandoned_cart_reminder':
@@ -145,3 +155,6 @@ export async function GET(req: NextRequest) {
     }, { status: 500 })
   }
 }
+
+export const GET = withPermission('marketing:manage')(handleGet)
+export const POST = withPermission('marketing:manage', { audit: 'email' })(handlePost)
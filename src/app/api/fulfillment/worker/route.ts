@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runFulfillmentWorker } from '../../../../services/fulfillmentQueue';
+import { syncOpenShipments } from '../../../../services/tracking';
+import { expireInventoryReservations } from '../../../../services/inventory';
+import { cancelAbandonedOrders } from '../../../../services/orderLifecycle';
+import { processProductAlerts } from '../../../../services/pushNotifications';
+
+/**
+ * Fulfillment worker entry point. Call on a schedule (e.g. a cron every
+ * minute) to process due jobs, poll tracking for open shipments, release
+ * expired stock reservations, cancel abandoned unpaid orders and send
+ * back-in-stock and price-drop alerts.
+ * The request must carry FULFILLMENT_WORKER_SECRET as a bearer token.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.FULFILLMENT_WORKER_SECRET;
+  if (!secret) {
+    console.error('FULFILLMENT_WORKER_SECRET is not set; refusing worker run');
+    return NextResponse.json({ error: 'Worker not configured' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || undefined;
+    const result = await runFulfillmentWorker({ limit });
+    const shipmentsSynced = await syncOpenShipments();
+    const reservationsExpired = await expireInventoryReservations();
+    const abandonedOrdersCancelled = await cancelAbandonedOrders();
+    const productAlertsSent = await processProductAlerts();
+
+    return NextResponse.json({ success: true, ...result, shipmentsSynced, reservationsExpired, abandonedOrdersCancelled, productAlertsSent });
+  } catch (error) {
+    console.error('Fulfillment worker run failed:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Worker run failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { activateLicense } from '../../../../services/licenses';
+import { getRequestIP } from '../../../../lib/adminAuth';
+
+const LICENSE_ERROR_STATUS: Record<string, number> = {
+  'License not found': 404,
+  'License has been revoked': 403,
+  'License has expired': 410,
+  'No seats left on this license': 409
+};
+
+/**
+ * Body: { licenseKey, deviceId, deviceName? }. Called by the software on
+ * first launch and periodically after; activating a device that already
+ * holds a seat just refreshes it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { licenseKey, deviceId, deviceName } = await request.json();
+
+    if (typeof licenseKey !== 'string' || !licenseKey || typeof deviceId !== 'string' || !deviceId || deviceId.length > 255) {
+      return NextResponse.json(
+        { success: false, error: 'licenseKey and deviceId are required' },
+        { status: 400 }
+      );
+    }
+
+    const activation = await activateLicense(licenseKey.trim(), {
+      deviceId,
+      deviceName: typeof deviceName === 'string' ? deviceName : null,
+      ipAddress: getRequestIP(request)
+    });
+
+    return NextResponse.json({ success: true, data: activation });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    const status = LICENSE_ERROR_STATUS[message];
+    if (!status) {
+      console.error('Error activating license:', error);
+    }
+    return NextResponse.json(
+      { success: false, error: status ? message : 'Failed to activate license' },
+      { status: status || 500 }
+    );
+  }
+}
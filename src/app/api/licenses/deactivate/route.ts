@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deactivateLicense } from '../../../../services/licenses';
+
+/**
+ * Body: { licenseKey, deviceId }. Frees the device's seat so the key can
+ * be activated elsewhere.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { licenseKey, deviceId } = await request.json();
+
+    if (typeof licenseKey !== 'string' || !licenseKey || typeof deviceId !== 'string' || !deviceId) {
+      return NextResponse.json(
+        { success: false, error: 'licenseKey and deviceId are required' },
+        { status: 400 }
+      );
+    }
+
+    const deactivated = await deactivateLicense(licenseKey.trim(), deviceId);
+    if (!deactivated) {
+      return NextResponse.json(
+        { success: false, error: 'This device is not activated' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'License not found') {
+      return NextResponse.json({ success: false, error: message }, { status: 404 });
+    }
+    console.error('Error deactivating license:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to deactivate license' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getLicensePublicKey } from '../../../../services/licenses';
+
+/**
+ * PEM public key that verifies store-generated license keys offline
+ */
+export async function GET() {
+  try {
+    return new NextResponse(getLicensePublicKey(), {
+      headers: {
+        'Content-Type': 'application/x-pem-file',
+        'Cache-Control': 'public, max-age=86400'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error exporting license public key:', error);
+    return NextResponse.json(
+      { success: false, error: 'License signing is not configured' },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1 @@
+export { GET, POST } from '../../../../analytics/track/route';
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MobileSession, signInMobile } from '../../../../../../lib/mobileAuth';
+import { mobileError } from '../../../../../../lib/mobileApi';
+
+/**
+ * Body: { email, password }. Responds with the user, an access token and
+ * the refresh token to swap for a new one when it expires.
+ */
+export async function POST(request: NextRequest) {
+  const { email, password } = (await request.json().catch(() => null)) ?? {};
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+    return mobileError('Email and password are required', 400);
+  }
+
+  try {
+    const session = await signInMobile(email, password);
+    return NextResponse.json<MobileSession>(session);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Invalid email or password') {
+      return mobileError(message, 401);
+    }
+    console.error('Error signing in:', error);
+    return mobileError('Sign-in failed', message === 'Supabase configuration missing' ? 503 : 500);
+  }
+}
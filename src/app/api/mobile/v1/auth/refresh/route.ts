@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MobileSession, refreshMobileSession } from '../../../../../../lib/mobileAuth';
+import { mobileError } from '../../../../../../lib/mobileApi';
+
+/**
+ * Body: { refreshToken }. Responds with a new session; the old refresh
+ * token can't be used again.
+ */
+export async function POST(request: NextRequest) {
+  const { refreshToken } = (await request.json().catch(() => null)) ?? {};
+  if (typeof refreshToken !== 'string' || !refreshToken) {
+    return mobileError('refreshToken is required', 400);
+  }
+
+  try {
+    const session = await refreshMobileSession(refreshToken);
+    return NextResponse.json<MobileSession>(session);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'Supabase configuration missing') {
+      return mobileError('Sign-in is not available', 503);
+    }
+    return mobileError('Session expired, please sign in again', 401);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MobileSession, MobileUser, registerMobile } from '../../../../../../lib/mobileAuth';
+import { mobileError } from '../../../../../../lib/mobileApi';
+
+/**
+ * Body: { email, password, name? }. Responds 201 with a session like
+ * /auth/login, or 202 with { user, needsConfirmation: true } when the
+ * account must be confirmed by email before signing in.
+ */
+export async function POST(request: NextRequest) {
+  const { email, password, name } = (await request.json().catch(() => null)) ?? {};
+  if (typeof email !== 'string' || !email.includes('@')) {
+    return mobileError('A valid email is required', 400);
+  }
+  if (typeof password !== 'string' || password.length < 8) {
+    return mobileError('Password must be at least 8 characters', 400);
+  }
+
+  try {
+    const { session, user } = await registerMobile(email, password, typeof name === 'string' ? name : undefined);
+    if (!session) {
+      return NextResponse.json<{ user: MobileUser; needsConfirmation: true }>(
+        { user, needsConfirmation: true },
+        { status: 202 }
+      );
+    }
+    return NextResponse.json<MobileSession>(session, { status: 201 });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create account';
+    if (message === 'Supabase configuration missing') {
+      return mobileError('Sign-up is not available', 503);
+    }
+    // Supabase's messages (email taken, weak password) are meant for the user
+    return mobileError(message, 400);
+  }
+}
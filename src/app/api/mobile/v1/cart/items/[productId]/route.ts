@@ -0,0 +1 @@
+export { PATCH, DELETE } from '../../../../../cart/items/[productId]/route';
@@ -0,0 +1 @@
+export { POST } from '../../../../cart/items/route';
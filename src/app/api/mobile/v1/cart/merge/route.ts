@@ -0,0 +1 @@
+export { POST } from '../../../../cart/merge/route';
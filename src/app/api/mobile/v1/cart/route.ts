@@ -0,0 +1,2 @@
+// Served by the web cart API; see /api/cart
+export { GET, DELETE } from '../../../cart/route';
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../../../../lib/customerAuth';
+import { mobileError } from '../../../../../../../lib/mobileApi';
+import { deleteProductAlert } from '../../../../../../../services/pushNotifications';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return mobileError('Sign in to manage alerts', 401);
+  }
+
+  try {
+    const deleted = await deleteProductAlert(customer.userId, params.id);
+    if (!deleted) {
+      return mobileError('Alert not found', 404);
+    }
+    return NextResponse.json({ deleted: true });
+
+  } catch (error) {
+    console.error('Error deleting product alert:', error);
+    return mobileError('Failed to delete alert', 500);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../../../lib/customerAuth';
+import { mobileError } from '../../../../../../lib/mobileApi';
+import { ProductAlert, createProductAlert, listProductAlerts } from '../../../../../../services/pushNotifications';
+
+const ALERT_ERROR_STATUS: Record<string, number> = {
+  'Product not found': 404,
+  'Product is in stock': 409,
+  'Supabase configuration missing': 503
+};
+
+/**
+ * The signed-in user's back-in-stock and price-drop alerts that haven't fired yet
+ */
+export async function GET(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return mobileError('Sign in to manage alerts', 401);
+  }
+
+  try {
+    const alerts = await listProductAlerts(customer.userId);
+    return NextResponse.json<{ alerts: ProductAlert[] }>({ alerts });
+
+  } catch (error) {
+    console.error('Error fetching product alerts:', error);
+    return mobileError('Failed to fetch alerts', 500);
+  }
+}
+
+/**
+ * Body: { productId, type: 'back_in_stock' | 'price_drop' }. A price-drop
+ * alert fires when the price falls below today's.
+ */
+export async function POST(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return mobileError('Sign in to get alerts', 401);
+  }
+
+  const { productId, type } = (await request.json().catch(() => null)) ?? {};
+  if (typeof productId !== 'string' || !productId) {
+    return mobileError('productId is required', 400);
+  }
+  if (type !== 'back_in_stock' && type !== 'price_drop') {
+    return mobileError("type must be 'back_in_stock' or 'price_drop'", 400);
+  }
+
+  try {
+    const alert = await createProductAlert(customer.userId, productId, type);
+    return NextResponse.json<ProductAlert>(alert, { status: 201 });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    const status = ALERT_ERROR_STATUS[message];
+    if (!status) {
+      console.error('Error creating product alert:', error);
+    }
+    return mobileError(status ? message : 'Failed to create alert', status || 500);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../../../lib/customerAuth';
+import { mobileError } from '../../../../../../lib/mobileApi';
+import {
+  NOTIFICATION_CATEGORIES,
+  NotificationPreferences,
+  getNotificationPreferences,
+  updateNotificationPreferences
+} from '../../../../../../services/pushNotifications';
+
+/**
+ * Which notification categories the signed-in user receives
+ */
+export async function GET(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return mobileError('Sign in to manage notifications', 401);
+  }
+
+  try {
+    const preferences = await getNotificationPreferences(customer.userId);
+    return NextResponse.json<NotificationPreferences>(preferences);
+
+  } catch (error) {
+    console.error('Error loading notification preferences:', error);
+    return mobileError('Failed to load notification preferences', 500);
+  }
+}
+
+/**
+ * Body: any of { order_updates, shipping, back_in_stock, price_drop } as
+ * booleans; categories left out keep their setting
+ */
+export async function PUT(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return mobileError('Sign in to manage notifications', 401);
+  }
+
+  const body = (await request.json().catch(() => null)) ?? {};
+  const changes: Partial<NotificationPreferences> = {};
+  for (const category of NOTIFICATION_CATEGORIES) {
+    if (body[category] === undefined) continue;
+    if (typeof body[category] !== 'boolean') {
+      return mobileError(`${category} must be true or false`, 400);
+    }
+    changes[category] = body[category];
+  }
+
+  try {
+    const preferences = await updateNotificationPreferences(customer.userId, changes);
+    return NextResponse.json<NotificationPreferences>(preferences);
+
+  } catch (error) {
+    console.error('Error saving notification preferences:', error);
+    return mobileError('Failed to save notification preferences', 500);
+  }
+}
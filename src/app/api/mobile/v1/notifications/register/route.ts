@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../../../lib/customerAuth';
+import { mobileError } from '../../../../../../lib/mobileApi';
+import { isDevicePlatform, registerDeviceToken, unregisterDeviceToken } from '../../../../../../services/deviceTokens';
+
+/**
+ * Body: { token, platform: 'ios' | 'android', appVersion? } - registers the
+ * device for push notifications to the signed-in user
+ */
+export async function POST(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return mobileError('Sign in to receive notifications', 401);
+  }
+
+  const { token, platform, appVersion } = (await request.json().catch(() => null)) ?? {};
+  if (typeof token !== 'string' || !token) {
+    return mobileError('token is required', 400);
+  }
+  if (!isDevicePlatform(platform)) {
+    return mobileError("platform must be 'ios' or 'android'", 400);
+  }
+
+  try {
+    await registerDeviceToken(customer.userId, token, platform, typeof appVersion === 'string' ? appVersion : undefined);
+    return NextResponse.json({ registered: true }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error registering device token:', error);
+    return mobileError('Failed to register device', 500);
+  }
+}
+
+/**
+ * Body: { token } - called on sign-out so the device stops receiving the
+ * user's notifications
+ */
+export async function DELETE(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return mobileError('Sign in to manage notifications', 401);
+  }
+
+  const { token } = (await request.json().catch(() => null)) ?? {};
+  if (typeof token !== 'string' || !token) {
+    return mobileError('token is required', 400);
+  }
+
+  try {
+    await unregisterDeviceToken(customer.userId, token);
+    return NextResponse.json({ registered: false });
+
+  } catch (error) {
+    console.error('Error unregistering device token:', error);
+    return mobileError('Failed to unregister device', 500);
+  }
+}
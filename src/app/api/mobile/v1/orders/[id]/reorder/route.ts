@@ -0,0 +1 @@
+export { POST } from '../../../../../orders/[id]/reorder/route';
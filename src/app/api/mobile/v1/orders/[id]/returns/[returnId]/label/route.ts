@@ -0,0 +1 @@
+export { GET } from '../../../../../../../orders/[id]/returns/[returnId]/label/route';
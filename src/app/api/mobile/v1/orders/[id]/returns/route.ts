@@ -0,0 +1 @@
+export { GET, POST } from '../../../../../orders/[id]/returns/route';
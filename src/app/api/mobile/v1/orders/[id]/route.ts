@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../../../lib/customerAuth';
+import { MobileOrder, getMobileOrder, mobileError } from '../../../../../../lib/mobileApi';
+
+/**
+ * One of the signed-in user's orders, with its shipments and tracking events
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return mobileError('Sign in to see your orders', 401);
+  }
+
+  try {
+    const order = await getMobileOrder(customer, params.id);
+    if (!order) {
+      return mobileError('Order not found', 404);
+    }
+    return NextResponse.json<MobileOrder>(order);
+
+  } catch (error) {
+    console.error('Error fetching mobile order:', error);
+    return mobileError('Failed to fetch order', 500);
+  }
+}
@@ -0,0 +1 @@
+export { GET } from '../../../../../orders/[id]/tracking/route';
@@ -0,0 +1,3 @@
+// Creates the pending order the app then pays for with /payments/saved-card
+// or the PaymentSheet; see /api/orders/create-draft
+export { POST } from '../../../../orders/create-draft/route';
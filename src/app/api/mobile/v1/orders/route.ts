@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../../lib/customerAuth';
+import { MobileOrdersResponse, listMobileOrders, mobileError } from '../../../../../lib/mobileApi';
+
+/**
+ * The signed-in user's orders, newest first
+ */
+export async function GET(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return mobileError('Sign in to see your orders', 401);
+  }
+
+  try {
+    const orders = await listMobileOrders(customer);
+    return NextResponse.json<MobileOrdersResponse>(orders);
+
+  } catch (error) {
+    console.error('Error fetching mobile orders:', error);
+    return mobileError('Failed to fetch orders', 500);
+  }
+}
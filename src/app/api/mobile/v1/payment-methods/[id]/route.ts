@@ -0,0 +1 @@
+export { PATCH, DELETE } from '../../../../payment-methods/[id]/route';
@@ -0,0 +1 @@
+export { GET, POST } from '../../../payment-methods/route';
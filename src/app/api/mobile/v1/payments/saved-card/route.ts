@@ -0,0 +1 @@
+export { POST } from '../../../../payments/saved-card/route';
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MobileProduct, getMobileProduct, mobileError } from '../../../../../../lib/mobileApi';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const product = await getMobileProduct(params.id, request.nextUrl.origin);
+    if (!product) {
+      return mobileError('Product not found', 404);
+    }
+    return NextResponse.json<MobileProduct>(product);
+
+  } catch (error) {
+    console.error('Error fetching mobile product:', error);
+    return mobileError('Failed to fetch product', 500);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MobileProductsResponse, listMobileProducts, mobileError } from '../../../../../lib/mobileApi';
+
+/**
+ * Query: category?, limit?. `featured` is only filled for the unfiltered list.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl;
+  const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit') as string, 10) : undefined;
+
+  try {
+    const products = await listMobileProducts(origin, {
+      category: searchParams.get('category') || undefined,
+      limit: limit && limit > 0 ? limit : undefined
+    });
+    return NextResponse.json<MobileProductsResponse>(products);
+
+  } catch (error) {
+    console.error('Error fetching mobile products:', error);
+    return mobileError('Failed to fetch products', 500);
+  }
+}
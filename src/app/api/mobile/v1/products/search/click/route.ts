@@ -0,0 +1,2 @@
+// Result taps from the app's search screen; see /api/search/click
+export { POST } from '../../../../../search/click/route';
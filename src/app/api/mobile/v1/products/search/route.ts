@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MobileSearchResponse, mobileError, searchMobileProducts } from '../../../../../../lib/mobileApi';
+import { getSessionUser } from '../../../../../../lib/customerAuth';
+import { getCartSessionId } from '../../../../../../lib/cartSession';
+import { parseSearchOptions } from '../../../../../../services/productSearch';
+import { logSearch } from '../../../../../../services/searchAnalytics';
+
+/**
+ * Query: q, category?, minPrice?, maxPrice?, minRating?, inStock?, sort?,
+ * limit? (default 20), offset?. An empty query lists the products that pass
+ * the filters. Searches are logged like the storefront's (see
+ * /api/search).
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl;
+
+  try {
+    const query = (searchParams.get('q') || '').slice(0, 200).trim();
+    const options = parseSearchOptions(searchParams, 20);
+    const [{ allTermsMatched, ...results }, customer] = await Promise.all([
+      searchMobileProducts(query, origin, options),
+      getSessionUser(request)
+    ]);
+
+    if (query && !options.offset) {
+      results.searchId = await logSearch({
+        query,
+        resultCount: results.total,
+        allTermsMatched,
+        filters: {
+          categories: options.categories,
+          minPrice: options.minPrice,
+          maxPrice: options.maxPrice,
+          minRating: options.minRating,
+          inStock: options.inStock
+        },
+        source: 'mobile',
+        userId: customer?.userId,
+        sessionId: getCartSessionId(request)
+      });
+    }
+
+    return NextResponse.json<MobileSearchResponse>(results);
+
+  } catch (error) {
+    console.error('Error searching mobile products:', error);
+    return mobileError('Failed to search products', 500);
+  }
+}
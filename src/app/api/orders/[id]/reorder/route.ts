@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../../lib/customerAuth';
+import { reorder } from '../../../../../services/reorder';
+
+/**
+ * "Buy again": places a new order with this order's items at current
+ * prices and charges a saved card off-session.
+ * Body: { paymentMethodId? } - the default card when omitted.
+ *
+ * Responds with the new order id and { status: 'paid' | 'processing' }, or
+ * { status: 'requires_action', clientSecret } when the bank asks the
+ * customer to authenticate the payment.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in to buy again' },
+      { status: 401 }
+    );
+  }
+
+  const { paymentMethodId } = (await request.json().catch(() => null)) ?? {};
+
+  try {
+    const result = await reorder(customer, params.id, { paymentMethodId });
+    return NextResponse.json({ success: true, data: result }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error placing reorder:', error);
+    const message = error instanceof Error ? error.message : 'Failed to place order';
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: message === 'Order not found' ? 404 : 409 }
+    );
+  }
+}
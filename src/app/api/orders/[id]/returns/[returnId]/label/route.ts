@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../../../../lib/customerAuth';
+import { isCustomerOrder } from '../../../../../../../services/paymentMethods';
+import { getReturn } from '../../../../../../../services/returns';
+
+/**
+ * The prepaid return label linked from the return_approved email
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; returnId: string } }
+) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in to download your return label' },
+      { status: 401 }
+    );
+  }
+  if (!(await isCustomerOrder(params.id, customer))) {
+    return NextResponse.json(
+      { success: false, error: 'Order not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const rma = await getReturn(params.returnId);
+
+    if (!rma || rma.order_id !== params.id || !rma.label_id) {
+      return NextResponse.json(
+        { success: false, error: 'Return label not found' },
+        { status: 404 }
+      );
+    }
+
+    if (rma.label_url) {
+      return NextResponse.redirect(rma.label_url);
+    }
+
+    const isPdf = rma.label_format === 'PDF';
+    return new NextResponse(rma.label_data || '', {
+      headers: {
+        'Content-Type': isPdf ? 'application/pdf' : 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${rma.rma_number}.${isPdf ? 'pdf' : 'zpl'}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error fetching return label:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch return label' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../../lib/customerAuth';
+import { isCustomerOrder } from '../../../../../services/paymentMethods';
+import {
+  ReturnItemInput,
+  ReturnPhotoInput,
+  createReturnRequest,
+  getOrderReturns,
+  getReturnEligibility
+} from '../../../../../services/returns';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in to see returns for this order' },
+      { status: 401 }
+    );
+  }
+  if (!(await isCustomerOrder(params.id, customer))) {
+    return NextResponse.json(
+      { success: false, error: 'Order not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const eligibility = await getReturnEligibility(params.id);
+
+    if (!eligibility) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...eligibility,
+        returns: await getOrderReturns(params.id),
+      },
+    });
+
+  } catch (error) {
+    console.error('Error fetching order returns:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch order returns' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Accepts JSON `{ items, comments }` or multipart/form-data with an `items`
+ * JSON field, `comments` and up to five `photos` files
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in to return items from this order' },
+      { status: 401 }
+    );
+  }
+  if (!(await isCustomerOrder(params.id, customer))) {
+    return NextResponse.json(
+      { success: false, error: 'Order not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    let items: ReturnItemInput[];
+    let comments: string | undefined;
+    const photos: ReturnPhotoInput[] = [];
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await request.formData();
+      items = JSON.parse(String(form.get('items') || '[]'));
+      comments = form.get('comments')?.toString() || undefined;
+
+      for (const entry of form.getAll('photos')) {
+        if (typeof entry === 'string') continue;
+        photos.push({ name: entry.name, type: entry.type, data: await entry.arrayBuffer() });
+      }
+    } else {
+      ({ items, comments } = await request.json());
+    }
+
+    if (!Array.isArray(items) || !items.every(item =>
+      item.productId && Number.isInteger(item.quantity) && item.quantity >= 0 && item.reason
+    )) {
+      return NextResponse.json(
+        { success: false, error: 'items must be a list of { productId, quantity, reason, details? }' },
+        { status: 400 }
+      );
+    }
+
+    const result = await createReturnRequest(params.id, { items, comments, photos, userId: customer.userId });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Order not found' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result.returnRequest });
+
+  } catch (error) {
+    console.error('Error creating return request:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create return request' },
+      { status: 500 }
+    );
+  }
+}
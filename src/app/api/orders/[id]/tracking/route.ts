@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../../lib/customerAuth';
+import { isCustomerOrder } from '../../../../../services/paymentMethods';
+import { getOrderTracking } from '../../../../../services/tracking';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in to track this order' },
+      { status: 401 }
+    );
+  }
+  if (!(await isCustomerOrder(params.id, customer))) {
+    return NextResponse.json(
+      { success: false, error: 'Order not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const tracking = await getOrderTracking(params.id);
+
+    if (!tracking) {
+      return NextResponse.json(
+        { success: false, error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: tracking,
+    });
+
+  } catch (error) {
+    console.error('Error fetching order tracking:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch order tracking' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { validateCoupon, createOrderWithCoupon } from '../../../../services/coupons'
+import { enrichCartItemsWithPrice, getProductById } from '../../../../services/productService'
+import { applyCustomPricingRules } from '../../../../services/pricing'
+import { getCustomerTier, loadActivePromotions } from '../../../../services/promotions'
+import { getVariant, hasVariants } from '../../../../services/productVariants'
+import { calculateOrderTax, pricesIncludeTax } from '../../../../services/tax'
+import { BASE_CURRENCY, convertFromBase, convertToBase, getExchangeRate, resolveCurrency, roundForCurrency } from '../../../../services/currency'
+import { loadExchangeRates } from '../../../../services/exchangeRates'
+import { releaseOrderInventory, reserveOrderInventory } from '../../../../services/inventory'
+import { recordOrderEvent } from '../../../../services/orderLifecycle'
+import { getSessionUser } from '../../../../lib/customerAuth'
+import { getCartSessionId } from '../../../../lib/cartSession'
 // Use built-in crypto.randomUUID() (Node 18+/V8). Avoid adding a dependency.
 
 // Order types for validation
@@ -9,6 +21,10 @@ interface OrderItem {
   price: number;
   quantity: number;
   productId?: string;
+  variantId?: string; // Required for products with variants
+  sku?: string;
+  variantTitle?: string;
+  isDigital?: boolean;
 }
 
 interface CustomerInfo {
@@ -16,6 +32,7 @@ interface CustomerInfo {
   email: string;
   address?: string;
   city?: string;
+  state?: string;
   postalCode?: string;
   country?: string;
 }
@@ -23,7 +40,9 @@ interface CustomerInfo {
 interface CreateOrderRequest {
   items: OrderItem[];
   customer: CustomerInfo;
-  total: number;
+  total: number; // In the catalogue base currency
+  currency?: string; // Presentment currency the customer pays in
+  couponCode?: string;
   metadata?: Record<string, any>;
 }
 
@@ -55,7 +74,7 @@ function validateCustomer(customer: any): boolean {
 export async function POST(req: NextRequest) {
   try {
     const body: CreateOrderRequest = await req.json()
-    const { items, customer, total, metadata = {} } = body
+    const { items, customer, total, currency, couponCode, metadata = {} } = body
 
     // Input validation
     if (!validateOrderItems(items)) {
@@ -76,14 +95,98 @@ export async function POST(req: NextRequest) {
       }, { status: 400 })
     }
 
-    // Calculate expected total to verify client calculation
-    const calculatedTotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
+    // Every line must be a product we sell; lines of products with variants
+    // must name one the product sells
+    const unknownItem = items.find(item => !getProductById(item.productId || item.id || ''))
+    if (unknownItem) {
+      return NextResponse.json({
+        error: `Invalid items: ${unknownItem.name} is no longer available`
+      }, { status: 400 })
+    }
+    const unknownVariant = items.find(item => {
+      const product = getProductById(item.productId || item.id || '')!
+      return (hasVariants(product) || item.variantId) && !getVariant(product, item.variantId)
+    })
+    if (unknownVariant) {
+      return NextResponse.json({
+        error: `Invalid items: choose an available option for ${unknownVariant.name}`
+      }, { status: 400 })
+    }
+
+    // Lines are priced from the catalogue; the client's prices only have to match
+    const pricedItems = enrichCartItemsWithPrice(items.map(item => ({
+      ...item,
+      productId: item.productId || item.id || ''
+    })))
+    const changedItem = items.find((item, index) => Math.abs(item.price - pricedItems[index].price) > 0.01)
+    if (changedItem) {
+      return NextResponse.json({
+        error: `The price of ${changedItem.name} has changed, please review your cart`
+      }, { status: 409 })
+    }
+
+    // Guests can check out too; signed-in customers' orders go on their account
+    const sessionUser = await getSessionUser(req)
+
+    // Priced like /api/checkout: automatic promotions, the customer's tier and
+    // the discount code, if any
+    const [promotions, customerTier] = await Promise.all([
+      loadActivePromotions(),
+      sessionUser ? getCustomerTier(sessionUser.email) : undefined
+    ])
+    const pricingContext = { promotions, customerTier }
+    let pricing = applyCustomPricingRules(pricedItems, pricingContext)
+
+    let appliedCouponCode: string | undefined
+    if (couponCode) {
+      const couponResult = await validateCoupon(couponCode, pricedItems, sessionUser?.email || customer.email, pricingContext)
+      if (!couponResult.valid || !couponResult.pricing) {
+        return NextResponse.json({ error: couponResult.error || 'Invalid discount code' }, { status: 400 })
+      }
+      pricing = couponResult.pricing
+      appliedCouponCode = couponResult.code
+    }
+    const couponDiscount = pricing.couponDiscount
+    const promotionDiscount = pricing.totalDiscount - couponDiscount
+
+    // The client total is what the customer was shown: catalogue prices less
+    // the discount code. Automatic promotions only lower what is charged
+    const calculatedTotal = pricing.subtotal - couponDiscount
     if (Math.abs(calculatedTotal - total) > 0.01) {
       return NextResponse.json({ 
         error: `Total mismatch: expected ${calculatedTotal.toFixed(2)}, got ${total.toFixed(2)}` 
       }, { status: 400 })
     }
 
+    // Amounts so far are in the base currency; the customer is charged in their
+    // presentment currency at the stored FX rate
+    const presentmentCurrency = resolveCurrency(currency)
+    const rates = await loadExchangeRates()
+    const exchangeRate = getExchangeRate(presentmentCurrency, rates)
+    const presentmentItems = pricedItems.map(item => ({
+      ...item,
+      price: convertFromBase(item.price, presentmentCurrency, rates)
+    }))
+    const presentmentDiscount = convertFromBase(pricing.totalDiscount, presentmentCurrency, rates)
+    const presentmentSubtotal = presentmentItems.reduce((sum, item) => sum + item.price * item.quantity, 0) - presentmentDiscount
+
+    // Tax is calculated server-side on the discounted total and added to the order
+    const taxResult = await calculateOrderTax({
+      items: presentmentItems,
+      shippingAddress: {
+        country: customer.country || '',
+        state: customer.state,
+        postalCode: customer.postalCode
+      },
+      discount: presentmentDiscount,
+      pricesIncludeTax: pricesIncludeTax(),
+      currency: presentmentCurrency
+    })
+    const orderTotal = roundForCurrency(
+      presentmentSubtotal + (taxResult.pricesIncludeTax ? 0 : taxResult.totalTax),
+      presentmentCurrency
+    )
+
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
     const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || ''
     if (!supabaseUrl || !supabaseServiceKey) {
@@ -95,22 +198,75 @@ export async function POST(req: NextRequest) {
     const id = typeof crypto !== 'undefined' && (crypto as any).randomUUID ? (crypto as any).randomUUID() : Date.now().toString(36) + Math.random().toString(36).slice(2,8)
     const record = {
       id,
+      user_id: sessionUser?.userId || null,
       customer_name: customer?.name || null,
       customer_email: customer?.email || null,
-      items: JSON.stringify(items || []),
-      total: total ?? 0,
+      items: JSON.stringify(pricedItems),
+      shipping_address: customer.address ? {
+        street: customer.address,
+        city: customer.city || '',
+        state: customer.state,
+        postalCode: customer.postalCode || '',
+        country: customer.country || ''
+      } : null,
+      total: orderTotal,
+      currency: presentmentCurrency,
+      settlement_currency: BASE_CURRENCY,
+      exchange_rate: exchangeRate,
+      settlement_total: convertToBase(orderTotal, presentmentCurrency, rates),
       status: 'pending',
       created_at: new Date().toISOString(),
-      metadata: JSON.stringify(metadata),
+      metadata: JSON.stringify({
+        ...metadata,
+        // Lets guest searches be credited with the order once it is paid
+        cart_session_id: getCartSessionId(req),
+        ...(appliedCouponCode ? { coupon_code: appliedCouponCode, coupon_discount: couponDiscount } : {}),
+        // Charged as part of the order's Stripe discount
+        promotion_discount: promotionDiscount,
+        tax_amount: taxResult.totalTax,
+        tax_lines: taxResult.lines,
+        prices_include_tax: taxResult.pricesIncludeTax
+      }),
+    }
+
+    // Hold stock while the customer pays; released if the Stripe session expires
+    const reservation = await reserveOrderInventory(id, pricedItems, { destinationCountry: customer.country })
+    if (!reservation.success) {
+      return NextResponse.json({
+        error: reservation.error || 'Insufficient stock',
+        shortfalls: reservation.shortfalls
+      }, { status: 409 })
+    }
+
+    const taxSummary = {
+      tax: taxResult.totalTax,
+      taxLines: taxResult.lines,
+      pricesIncludeTax: taxResult.pricesIncludeTax,
+      total: orderTotal,
+      currency: presentmentCurrency
+    }
+
+    // Redeem the discount code in the same transaction as the order insert
+    if (appliedCouponCode) {
+      const redemption = await createOrderWithCoupon(record, appliedCouponCode, sessionUser?.email || customer.email, couponDiscount)
+      if (!redemption.success) {
+        await releaseOrderInventory(id)
+        console.error('Error redeeming coupon for draft order:', redemption.error)
+        return NextResponse.json({ error: redemption.error || 'Discount code could not be redeemed' }, { status: 409 })
+      }
+      await recordOrderEvent(id, { type: 'created', toStatus: 'pending', actor: 'customer' })
+      return NextResponse.json({ orderId: id, couponCode: appliedCouponCode, discount: couponDiscount, ...taxSummary })
     }
 
     const { error } = await supabase.from('orders').insert(record)
     if (error) {
+      await releaseOrderInventory(id)
       console.error('Error inserting draft order:', error)
       return NextResponse.json({ error: 'Failed to create draft order' }, { status: 500 })
     }
 
-    return NextResponse.json({ orderId: id })
+    await recordOrderEvent(id, { type: 'created', toStatus: 'pending', actor: 'customer' })
+    return NextResponse.json({ orderId: id, ...taxSummary })
   } catch (err: any) {
     console.error('create-draft order error', err)
     return NextResponse.json({ error: err?.message || 'Server error' }, { status: 500 })
@@ -1,22 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { applyCustomPricingRules } from '../../../services/pricing';
+import { loadActivePromotions, getCustomerTier } from '../../../services/promotions';
+import { getExchangeRate, resolveCurrency } from '../../../services/currency';
+import { loadExchangeRates } from '../../../services/exchangeRates';
 import { processExternalFulfillment } from '../../../services/fulfillment';
-import { enrichCartItemsWithPrice, validateCartItems, generateOrderId } from '../../../services/productService';
+import { enrichCartItemsWithPrice, validateCartItems, generateOrderId, getProductById } from '../../../services/productService';
 import { CartItem, CheckoutForm } from '../../../types';
+import { getSessionUser } from '../../../lib/customerAuth';
 
 export interface OrderRequest {
   cartItems: CartItem[];
   customerInfo: CheckoutForm;
   shippingMethod: 'standard' | 'express' | 'overnight';
+  currency?: string;
 }
 
 export interface OrderResponse {
   success: boolean;
   orderId: string;
   pricing: {
+    currency: string;
     subtotal: number;
     totalDiscount: number;
     finalTotal: number;
+    freeShipping: boolean;
     rulesApplied: any[];
   };
   fulfillment: {
@@ -64,7 +71,20 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     // Step 3: Apply custom pricing rules
     console.log('🎯 Step 3: Applying custom pricing rules...');
-    const pricingResult = applyCustomPricingRules(enrichedItems);
+    // Loyalty tiers belong to the signed-in account; guests get none
+    const customer = await getSessionUser(request);
+    const [promotions, customerTier, rates] = await Promise.all([
+      loadActivePromotions(),
+      customer ? getCustomerTier(customer.email) : undefined,
+      loadExchangeRates()
+    ]);
+    const currency = resolveCurrency(body.currency);
+    const pricingResult = applyCustomPricingRules(enrichedItems, {
+      promotions,
+      customerTier,
+      currency,
+      exchangeRate: getExchangeRate(currency, rates)
+    });
     
     console.log('Pricing calculation result:', {
       subtotal: pricingResult.subtotal,
@@ -90,12 +110,17 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           country: customerInfo.country
         }
       },
-      items: enrichedItems.map(item => ({
-        productId: item.productId,
-        name: item.name,
-        quantity: item.quantity,
-        price: item.price
-      })),
+      items: enrichedItems.map(item => {
+        const product = getProductById(item.productId);
+        return {
+          productId: item.productId,
+          name: item.name,
+          quantity: item.quantity,
+          price: item.price,
+          weight: product?.weight,
+          dimensions: product?.dimensions
+        };
+      }),
       orderTotal: pricingResult.finalTotal,
       shippingMethod,
       paymentMethod: customerInfo.paymentMethod,
@@ -111,9 +136,11 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       success: fulfillmentResult.success,
       orderId,
       pricing: {
+        currency: pricingResult.currency,
         subtotal: pricingResult.subtotal,
         totalDiscount: pricingResult.totalDiscount,
         finalTotal: pricingResult.finalTotal,
+        freeShipping: pricingResult.freeShipping,
         rulesApplied: pricingResult.rulesApplied.filter(rule => rule.applied)
       },
       fulfillment: {
@@ -168,7 +195,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     // Mock order lookup - in a real app, this would query a database
     const mockOrder = {
       orderId,
-      status: 'confirmed',
+      status: 'paid',
       trackingId: `MOCK-${orderId.substring(4)}`,
       estimatedDelivery: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000), // 3 days from now
       carrier: 'UPS',
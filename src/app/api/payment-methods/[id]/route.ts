@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../../lib/customerAuth';
+import { removeSavedCard, setDefaultCard } from '../../../../services/paymentMethods';
+
+const SIGN_IN_REQUIRED = { success: false, error: 'Sign in to manage saved cards' };
+
+/**
+ * Body: { action: 'set_default' }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(SIGN_IN_REQUIRED, { status: 401 });
+  }
+
+  const { action } = (await request.json().catch(() => null)) ?? {};
+  if (action !== 'set_default') {
+    return NextResponse.json(
+      { success: false, error: 'Invalid action' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({ success: true, data: await setDefaultCard(customer, params.id) });
+
+  } catch (error) {
+    console.error('Error setting default card:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to set default card' },
+      { status: error instanceof Error && error.message === 'Saved card not found' ? 404 : 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(SIGN_IN_REQUIRED, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ success: true, data: await removeSavedCard(customer, params.id) });
+
+  } catch (error) {
+    console.error('Error removing saved card:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to remove card' },
+      { status: error instanceof Error && error.message === 'Saved card not found' ? 404 : 500 }
+    );
+  }
+}
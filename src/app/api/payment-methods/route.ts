@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '../../../lib/customerAuth';
+import { createCardSetupIntent, listSavedCards } from '../../../services/paymentMethods';
+
+const SIGN_IN_REQUIRED = { success: false, error: 'Sign in to manage saved cards' };
+
+export async function GET(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(SIGN_IN_REQUIRED, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ success: true, data: await listSavedCards(customer) });
+
+  } catch (error) {
+    console.error('Error fetching saved cards:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch saved cards' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Starts saving a new card: returns { clientSecret, customerId } of a
+ * SetupIntent for Stripe.js confirmCardSetup or the mobile PaymentSheet
+ */
+export async function POST(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(SIGN_IN_REQUIRED, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ success: true, data: await createCardSetupIntent(customer) });
+
+  } catch (error) {
+    console.error('Error creating setup intent:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start saving the card' },
+      { status: 500 }
+    );
+  }
+}
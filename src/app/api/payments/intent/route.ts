@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { StripeService } from '@/lib/stripe';
+import { resolveCurrency } from '@/services/currency';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { amount, currency = 'usd', customerEmail, customerName, orderId, items } = body;
+    const { amount, customerEmail, customerName, orderId, items } = body;
+    const currency = resolveCurrency(body.currency);
 
     // Validate required fields
     if (!amount || amount <= 0) {
@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
+import { createClient } from '@supabase/supabase-js'
+import { CustomerIdentity, getSessionUser } from '../../../lib/customerAuth'
+import { getCartSessionId } from '../../../lib/cartSession'
+import { customerOwnsOrder } from '../../../services/paymentMethods'
+import { getOrderRedemption } from '../../../services/coupons'
+import { TaxLine, formatTaxRate } from '../../../services/tax'
+import { BASE_CURRENCY, resolveCurrency, roundForCurrency, toMinorUnits } from '../../../services/currency'
+import { attachReservationsToSession, getReservationTtlMinutes } from '../../../services/inventory'
 
 // Instantiate Stripe using the library default API version to avoid
 // TypeScript apiVersion literal mismatches between installed types.
@@ -7,6 +15,48 @@ const stripe = process.env.STRIPE_SECRET_KEY
   ? new Stripe(process.env.STRIPE_SECRET_KEY)
   : null
 
+/**
+ * Signed-in customers pay their own orders; guest orders belong to the cart
+ * session they were created from
+ */
+function ownsDraftOrder(
+  order: { user_id?: string | null; customer_email?: string | null },
+  orderMetadata: Record<string, any>,
+  customer: CustomerIdentity | null,
+  cartSessionId: string | null
+): boolean {
+  if (customer && customerOwnsOrder(order, customer)) return true
+  if (order.user_id) return false
+  return !!orderMetadata.cart_session_id && orderMetadata.cart_session_id === cartSessionId
+}
+
+/**
+ * One Stripe coupon per order for its discount code and promotions, reused
+ * when the customer opens a new checkout session for the same order
+ */
+async function getOrderDiscountCoupon(
+  stripe: Stripe,
+  orderId: string,
+  discount: { name: string; amountOff: number },
+  currency: string
+): Promise<Stripe.Coupon> {
+  const id = `discount-${orderId}`
+  try {
+    return await stripe.coupons.retrieve(id)
+  } catch (error) {
+    if (!(error instanceof Stripe.errors.StripeInvalidRequestError) || error.statusCode !== 404) throw error
+  }
+
+  return stripe.coupons.create({
+    id,
+    amount_off: discount.amountOff,
+    currency: currency.toLowerCase(),
+    duration: 'once',
+    max_redemptions: 1,
+    name: discount.name,
+  })
+}
+
 export async function POST(req: NextRequest) {
   try {
     if (!stripe) {
@@ -16,32 +66,131 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    const body = await req.json()
-    const { items, customerEmail, metadata } = body
+    const { metadata } = (await req.json().catch(() => null)) ?? {}
+    const orderId = metadata?.order_id
+    if (!orderId || typeof orderId !== 'string') {
+      return NextResponse.json({ error: 'order_id is required' }, { status: 400 })
+    }
+
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      return NextResponse.json({ error: 'Supabase configuration missing' }, { status: 500 })
+    }
+
+    // The session is built from the stored draft order, never from client prices.
+    // The draft also records the presentment currency, FX rate and tax lines
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+    const { data: draftOrder } = await supabase
+      .from('orders')
+      .select('id, user_id, customer_email, status, items, total, currency, exchange_rate, metadata')
+      .eq('id', orderId)
+      .maybeSingle()
+
+    const orderMetadata = typeof draftOrder?.metadata === 'string'
+      ? JSON.parse(draftOrder.metadata)
+      : draftOrder?.metadata || {}
+    if (!draftOrder || !ownsDraftOrder(draftOrder, orderMetadata, await getSessionUser(req), getCartSessionId(req))) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+    if (draftOrder.status !== 'pending') {
+      return NextResponse.json({ error: `Order is ${draftOrder.status} and cannot be paid again` }, { status: 409 })
+    }
 
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      return NextResponse.json({ error: 'No items provided' }, { status: 400 })
+    const items: Array<{ name?: string; price?: number; quantity?: number }> =
+      typeof draftOrder.items === 'string' ? JSON.parse(draftOrder.items) : draftOrder.items || []
+    if (items.length === 0) {
+      return NextResponse.json({ error: 'Order has no items' }, { status: 400 })
     }
 
-    const line_items = items.map((it: any) => ({
+    const currency = resolveCurrency(draftOrder.currency)
+    const exchangeRate = Number(draftOrder.exchange_rate) || 1
+    const stripeCurrency = currency.toLowerCase()
+
+    // Item prices are in the base currency; charge them in the presentment currency
+    let line_items = items.map(it => ({
       price_data: {
-        currency: 'usd',
+        currency: stripeCurrency,
         product_data: { name: it.name || 'Item' },
-        unit_amount: Math.round((it.price || 0) * 100),
+        unit_amount: toMinorUnits(roundForCurrency((Number(it.price) || 0) * exchangeRate, currency), currency),
       },
-      quantity: it.quantity || 1,
+      quantity: Number(it.quantity) || 1,
     }))
 
+    // Tax is calculated when the draft order is created; add each tax line
+    // to the session unless prices already include it
+    if (!orderMetadata.prices_include_tax) {
+      const taxLines: TaxLine[] = orderMetadata.tax_lines || []
+      taxLines
+        .filter(line => line.amount > 0)
+        .forEach(line => line_items.push({
+          price_data: {
+            currency: stripeCurrency,
+            product_data: { name: `${line.name} (${formatTaxRate(line.rate)})` },
+            unit_amount: toMinorUnits(line.amount, currency),
+          },
+          quantity: 1,
+        }))
+    }
+
+    // Discount codes are redeemed and promotions priced when the draft order is
+    // created; charge the recorded discount rather than anything sent by the client
+    const sessionMetadata: Record<string, string> = {
+      ...metadata,
+      order_id: draftOrder.id,
+      presentment_currency: currency,
+      settlement_currency: BASE_CURRENCY,
+      exchange_rate: String(exchangeRate),
+    }
+    let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined
+    const redemption = await getOrderRedemption(draftOrder.id)
+    if (redemption) {
+      sessionMetadata.coupon_code = redemption.code
+    }
+    const discountAmount = (redemption?.discountAmount || 0) + (Number(orderMetadata.promotion_discount) || 0)
+    const discountMinor = toMinorUnits(roundForCurrency(discountAmount * exchangeRate, currency), currency)
+
+    // Lines are rounded one by one and can drift from the stored order total;
+    // when they do, charge the total as a single line so the customer pays
+    // exactly what the order records
+    const orderTotalMinor = toMinorUnits(Number(draftOrder.total), currency)
+    const linesTotalMinor = line_items.reduce((sum, line) => sum + line.price_data.unit_amount * line.quantity, 0)
+    if (linesTotalMinor - discountMinor !== orderTotalMinor) {
+      line_items = [{
+        price_data: {
+          currency: stripeCurrency,
+          product_data: { name: `Order ${draftOrder.id}` },
+          unit_amount: orderTotalMinor,
+        },
+        quantity: 1,
+      }]
+    } else if (discountMinor > 0) {
+      const stripeCoupon = await getOrderDiscountCoupon(stripe, draftOrder.id, {
+        name: redemption?.code || 'Promotions',
+        amountOff: discountMinor
+      }, currency)
+      discounts = [{ coupon: stripeCoupon.id }]
+    }
+
+    // Stock reserved for the draft order is held for as long as the session
+    // is open (Stripe allows 30 minutes to 24 hours) and released when it expires
+    const sessionTtlMinutes = Math.min(Math.max(getReservationTtlMinutes(), 30), 24 * 60)
+    const expiresAt = new Date(Date.now() + sessionTtlMinutes * 60 * 1000)
+
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
       line_items,
       mode: 'payment',
       success_url: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3002'}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3002'}/checkout/cancel`,
-      customer_email: customerEmail,
-      metadata: metadata || {},
+      customer_email: draftOrder.customer_email || undefined,
+      metadata: sessionMetadata,
+      // Copied to the PaymentIntent so payment and refund events find the order
+      payment_intent_data: { metadata: sessionMetadata },
+      discounts,
+      expires_at: Math.floor(expiresAt.getTime() / 1000),
     })
 
+    await attachReservationsToSession(draftOrder.id, session.id, expiresAt)
+
     return NextResponse.json({ url: session.url })
   } catch (err: any) {
     console.error('Error creating Stripe session', err)
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/customerAuth';
+import { payOrderWithSavedCard } from '@/services/paymentMethods';
+
+/**
+ * Pay a draft order (from /api/orders/create-draft) with a saved card.
+ * Body: { orderId, paymentMethodId? } - the default card when omitted.
+ *
+ * Responds with { status: 'paid' | 'processing' } or, when the bank asks
+ * for 3D Secure, { status: 'requires_action', clientSecret } for the client
+ * to confirm with Stripe.js.
+ */
+export async function POST(request: NextRequest) {
+  const customer = await getSessionUser(request);
+  if (!customer) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in to pay with a saved card' },
+      { status: 401 }
+    );
+  }
+
+  const { orderId, paymentMethodId } = (await request.json().catch(() => null)) ?? {};
+  if (!orderId) {
+    return NextResponse.json(
+      { success: false, error: 'orderId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await payOrderWithSavedCard(customer, orderId, { paymentMethodId });
+    return NextResponse.json({ success: true, data: result });
+
+  } catch (error) {
+    console.error('Error paying with saved card:', error);
+    const message = error instanceof Error ? error.message : 'Payment failed';
+    return NextResponse.json(
+      { success: false, error: message },
+      {
+        status: message === 'Order not found' ? 404
+          : message === 'Order already has a payment in progress' ? 409
+          : 402
+      }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ReviewSubmission } from '../../../types';
+import { getSessionUser } from '../../../lib/customerAuth';
 
 // Initialize Supabase client only if credentials are available
 let supabase: any = null;
@@ -79,8 +80,17 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const body: ReviewSubmission = await request.json();
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Sign in to write a review' },
+        { status: 401 }
+      );
+    }
+
+    const body: ReviewSubmission & { name?: string } = await request.json();
     const { product_id, rating, review_text } = body;
+    const reviewerName = user.name || body.name?.trim() || user.email.split('@')[0];
 
     // Validate input
     if (!product_id || !rating || rating < 1 || rating > 5) {
@@ -90,9 +100,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // For demo purposes, we'll simulate user authentication
-    const mockUserId = 'demo-user-' + Date.now();
-
     // If Supabase is configured, try to insert into database
     if (supabase) {
       try {
@@ -100,7 +107,9 @@ export async function POST(request: NextRequest) {
           .from('product_reviews')
           .insert({
             product_id,
-            user_id: mockUserId,
+            user_id: user.userId,
+            reviewer_name: reviewerName,
+            reviewer_email: user.email,
             rating,
             review_text: review_text || null,
           })
@@ -126,14 +135,14 @@ export async function POST(request: NextRequest) {
       review: {
         id: 'demo-' + Date.now(),
         product_id,
-        user_id: mockUserId,
+        user_id: user.userId,
         rating,
         review_text,
         helpful_votes: 0,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
         user_profile: {
-          display_name: 'Demo User',
+          display_name: reviewerName,
           avatar_url: null
         }
       },
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordSearchClick } from '@/services/searchAnalytics';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SEARCH_CLICK_ERROR_STATUS: Record<string, number> = {
+  'Search not found': 404,
+  'Supabase configuration missing': 503
+};
+
+/**
+ * Body: { searchId, productId, position? }. Records that a result was
+ * opened from a search (searchId from GET /api/search); position is 1-based.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchId, productId, position } = await request.json();
+
+    if (typeof searchId !== 'string' || !UUID_PATTERN.test(searchId) || !productId) {
+      return NextResponse.json(
+        { success: false, error: 'searchId and productId are required' },
+        { status: 400 }
+      );
+    }
+
+    await recordSearchClick(searchId, String(productId), Number(position) || undefined);
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    const status = SEARCH_CLICK_ERROR_STATUS[message];
+    if (!status) {
+      console.error('Error recording search click:', error);
+    }
+    return NextResponse.json(
+      { success: false, error: status ? message : 'Failed to record search click' },
+      { status: status || 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorefrontSearchIndex } from '@/lib/searchCatalogue';
+import { SearchSuggestions, suggestSearches } from '@/services/productSearch';
+import { getPopularSearches } from '@/services/searchAnalytics';
+
+/**
+ * Query: q (what has been typed so far; a trailing space ends the last
+ * word), limit? (default 6). Completions from popular searches and the
+ * catalogue, matching categories and brands, and a spelling correction.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const input = (searchParams.get('q') || '').slice(0, 200);
+  const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 6, 1), 20);
+
+  try {
+    const [index, popular] = await Promise.all([getStorefrontSearchIndex(), getPopularSearches()]);
+    return NextResponse.json<SearchSuggestions>(suggestSearches(index, input, popular, limit));
+  } catch (error) {
+    console.error('Error loading search suggestions:', error);
+    return NextResponse.json({ error: 'Failed to load suggestions' }, { status: 500 });
+  }
+}
@@ -6,6 +6,24 @@ import {
   LegalBasis 
 } from '../../../lib/security/gdpr';
 import { FraudDetection } from '../../../lib/security/fraud';
+import { getSessionUser } from '../../../lib/customerAuth';
+import { StaffUser, auditStaffAction, authorizeStaff } from '../../../lib/adminAuth';
+
+// Consent and data subject actions always apply to the signed-in user
+const CUSTOMER_ACTIONS = ['consent-status', 'export-data', 'grant-consent', 'withdraw-consent', 'submit-data-request'];
+
+// Everything else needs the security:manage permission
+const STAFF_ACTIONS = [
+  'data-requests', 'fraud-stats', 'security-events',
+  'process-data-request', 'assess-fraud', 'block-entity', 'report-breach'
+];
+
+function signInRequired() {
+  return NextResponse.json(
+    { success: false, error: 'Sign in to manage your privacy settings' },
+    { status: 401 }
+  );
+}
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -13,15 +31,23 @@ export async function GET(request: NextRequest) {
   const userId = searchParams.get('userId');
 
   try {
+    const user = action && CUSTOMER_ACTIONS.includes(action) ? await getSessionUser(request) : null;
+    if (action && STAFF_ACTIONS.includes(action)) {
+      const { staff, response } = await authorizeStaff(request, 'security:manage');
+      if (!staff) return response;
+    }
+
     switch (action) {
       case 'consent-status':
-        return await getConsentStatus(userId!);
+        if (!user) return signInRequired();
+        return await getConsentStatus(user.userId);
       
       case 'data-requests':
         return await getDataSubjectRequests(userId || undefined);
       
       case 'export-data':
-        return await exportUserData(userId!);
+        if (!user) return signInRequired();
+        return await exportUserData(user.userId);
       
       case 'fraud-stats':
         return await getFraudStatistics();
@@ -47,28 +73,38 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
+    const user = action && CUSTOMER_ACTIONS.includes(action) ? await getSessionUser(request) : null;
+    let staff: StaffUser | undefined;
+    if (action && STAFF_ACTIONS.includes(action)) {
+      const authorization = await authorizeStaff(request, 'security:manage');
+      if (!authorization.staff) return authorization.response;
+      staff = authorization.staff;
+    }
 
     switch (action) {
       case 'grant-consent':
-        return await grantConsent(body, request);
+        if (!user) return signInRequired();
+        return await grantConsent({ ...body, userId: user.userId }, request);
       
       case 'withdraw-consent':
-        return await withdrawConsent(body);
+        if (!user) return signInRequired();
+        return await withdrawConsent({ ...body, userId: user.userId });
       
       case 'submit-data-request':
-        return await submitDataRequest(body);
+        if (!user) return signInRequired();
+        return await submitDataRequest({ ...body, userId: user.userId, email: user.email });
       
       case 'process-data-request':
-        return await processDataRequest(body);
+        return await auditSecurityAction(request, staff!, action, await processDataRequest({ ...body, processedBy: staff!.email }), body.requestId);
       
       case 'assess-fraud':
         return await assessFraudRisk(body, request);
       
       case 'block-entity':
-        return await blockEntity(body);
+        return await auditSecurityAction(request, staff!, action, await blockEntity(body), body.identifier);
       
       case 'report-breach':
-        return await reportDataBreach(body);
+        return await auditSecurityAction(request, staff!, action, await reportDataBreach({ ...body, reportedBy: staff!.email }));
       
       default:
         return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
@@ -82,6 +118,19 @@ export async function POST(request: NextRequest) {
   }
 }
 
+async function auditSecurityAction(
+  request: NextRequest,
+  staff: StaffUser,
+  action: string,
+  response: NextResponse,
+  resourceId?: string
+) {
+  if (response.status < 400) {
+    await auditStaffAction(request, staff, `security.${action}`, 'security', resourceId);
+  }
+  return response;
+}
+
 // GDPR Consent Management
 async function grantConsent(body: {
   userId: string;
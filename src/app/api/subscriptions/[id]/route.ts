@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  SubscriptionAction,
+  manageSubscription,
+  verifyManageToken
+} from '../../../../services/subscriptions';
+
+const ACTIONS: SubscriptionAction[] = ['pause', 'resume', 'skip', 'cancel', 'change_plan', 'update_card'];
+
+/**
+ * Body: { token, action, planId? }
+ * Actions: pause, resume, skip, cancel, change_plan (with planId) and
+ * update_card (returns { url } of the Stripe page to redirect to)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { token, action, planId } = (await request.json().catch(() => null)) ?? {};
+
+  const email = verifyManageToken(token);
+  if (!email) {
+    return NextResponse.json(
+      { success: false, error: 'This link is invalid or has expired' },
+      { status: 401 }
+    );
+  }
+
+  if (!ACTIONS.includes(action)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid action' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await manageSubscription(email, params.id, action, { planId });
+    return NextResponse.json({ success: true, data: result });
+
+  } catch (error) {
+    console.error('Error updating subscription:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to update subscription' },
+      { status: 409 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidEmail } from '../../../../services/productService';
+import { createSubscriptionCheckout } from '../../../../services/subscriptions';
+
+/**
+ * Body: { planId, quantity?, customerEmail?, currency? }
+ * Returns the Stripe Checkout URL to redirect the customer to
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { planId, quantity, customerEmail, currency } = await request.json();
+
+    if (!planId) {
+      return NextResponse.json(
+        { success: false, error: 'planId is required' },
+        { status: 400 }
+      );
+    }
+    if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 1 || quantity > 99)) {
+      return NextResponse.json(
+        { success: false, error: 'quantity must be between 1 and 99' },
+        { status: 400 }
+      );
+    }
+    if (customerEmail && !isValidEmail(customerEmail)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid email address' },
+        { status: 400 }
+      );
+    }
+
+    const result = await createSubscriptionCheckout({ planId, quantity, customerEmail, currency });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { url: result.url } });
+
+  } catch (error) {
+    console.error('Error starting subscription checkout:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start subscription checkout' },
+      { status: 500 }
+    );
+  }
+}
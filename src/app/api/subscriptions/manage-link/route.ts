@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidEmail } from '../../../../services/productService';
+import { sendSubscriptionManageLink } from '../../../../services/subscriptions';
+
+/**
+ * Body: { email }. Always succeeds for a valid address so the response
+ * doesn't reveal whether it has subscriptions.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { email } = await request.json();
+
+    if (!email || !isValidEmail(email)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid email address' },
+        { status: 400 }
+      );
+    }
+
+    await sendSubscriptionManageLink(email);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error sending subscription link:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send subscription link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProductById } from '../../../services/productService';
+import {
+  getProductPlans,
+  listCustomerSubscriptions,
+  verifyManageToken
+} from '../../../services/subscriptions';
+
+/**
+ * The subscriptions of the customer a manage link (`?token=`) was sent to,
+ * with the plans each one can switch to
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const email = verifyManageToken(new URL(request.url).searchParams.get('token'));
+    if (!email) {
+      return NextResponse.json(
+        { success: false, error: 'This link is invalid or has expired' },
+        { status: 401 }
+      );
+    }
+
+    const subscriptions = await listCustomerSubscriptions(email);
+    const productIds = Array.from(new Set(subscriptions.map(subscription => subscription.product_id).filter(Boolean))) as string[];
+
+    const products = await Promise.all(productIds.map(async productId => ({
+      id: productId,
+      name: getProductById(productId)?.name || productId,
+      plans: await getProductPlans(productId),
+    })));
+
+    return NextResponse.json({
+      success: true,
+      data: { email, subscriptions, products },
+    });
+
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch subscriptions' },
+      { status: 500 }
+    );
+  }
+}
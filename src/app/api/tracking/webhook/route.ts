@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { parseTrackingWebhook, recordTrackingUpdate } from '../../../../services/tracking';
+
+/**
+ * Inbound carrier tracking webhook. The body must be signed with
+ * TRACKING_WEBHOOK_SECRET: X-Tracking-Signature = hex HMAC-SHA256 of the raw body.
+ */
+function verifySignature(payload: string, signature: string | null, secret: string): boolean {
+  if (!signature) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(payload).digest('hex');
+  const received = signature.replace(/^(sha256=|hmac-sha256=)/i, '');
+
+  return expected.length === received.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+}
+
+export async function POST(request: NextRequest) {
+  const payload = await request.text();
+
+  const secret = process.env.TRACKING_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('TRACKING_WEBHOOK_SECRET is not set; rejecting tracking webhook');
+    return NextResponse.json({ error: 'Tracking webhook not configured' }, { status: 503 });
+  }
+
+  if (!verifySignature(payload, request.headers.get('x-tracking-signature'), secret)) {
+    console.error('Tracking webhook signature verification failed');
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(payload);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const update = parseTrackingWebhook(body);
+  if (!update) {
+    return NextResponse.json({ error: 'Unrecognised tracking payload' }, { status: 400 });
+  }
+
+  const result = await recordTrackingUpdate(update);
+  if (!result.success) {
+    console.warn('Tracking update not recorded:', { trackingNumber: update.trackingNumber, error: result.error });
+    // Unknown tracking numbers are acknowledged so the carrier stops retrying
+    return NextResponse.json({ received: true, recorded: false, error: result.error });
+  }
+
+  console.log(`📍 Tracking update for ${update.trackingNumber}: ${result.shipmentStatus} (${result.stored} events)`);
+  return NextResponse.json({ received: true, recorded: true, status: result.shipmentStatus });
+}
@@ -1,8 +1,10 @@
 'use client';
 
 import React, { useState } from 'react';
-import { useCartStore, useCartItems, useCartTotal, useCartItemCount } from '../../lib/store/cartStore';
-import { applyCustomPricingRules, CartItemWithPrice } from '../../services/pricing';
+import { useCartStore, useCartItems, useCartTotal, useCartItemCount, cartLineKey } from '../../lib/store/cartStore';
+import { applyCustomPricingRules, CartItemWithPrice, STANDARD_SHIPPING_COST } from '../../services/pricing';
+import { formatMoney, getExchangeRate, convertFromBase } from '../../services/currency';
+import { useCurrencyStore, useFormatPrice } from '../../lib/store/currencyStore';
 import { measurePageLoad } from '../../lib/performance';
 
 // Cart Performance Client Component for monitoring
@@ -22,22 +24,29 @@ export default function CartPage() {
   const { updateQuantity, removeItem } = useCartStore();
   const [removingItems, setRemovingItems] = useState<Set<string>>(new Set());
   const [updatingQuantities, setUpdatingQuantities] = useState<Set<string>>(new Set());
+  const currency = useCurrencyStore(state => state.currency);
+  const rates = useCurrencyStore(state => state.rates);
+  const formatPrice = useFormatPrice();
 
   // Convert cart items to pricing format
   const cartItemsWithPrice: CartItemWithPrice[] = cartItems.map(item => ({
     productId: item.id,
+    variantId: item.variantId,
     quantity: item.quantity,
     price: item.price,
     name: item.name
   }));
 
-  // Apply custom pricing rules
-  const pricingResults = applyCustomPricingRules(cartItemsWithPrice);
+  // Apply custom pricing rules in the selected currency
+  const pricingResults = applyCustomPricingRules(cartItemsWithPrice, {
+    currency,
+    exchangeRate: getExchangeRate(currency, rates)
+  });
   
-  const standardShipping = pricingResults.subtotal > 0 ? 15.99 : 0;
+  const standardShipping = pricingResults.subtotal > 0 ? convertFromBase(STANDARD_SHIPPING_COST, currency, rates) : 0;
   
   // Check if free shipping is applied
-  const freeShippingApplied = pricingResults.rulesApplied.some(rule => rule.id.includes('free-shipping'));
+  const freeShippingApplied = pricingResults.freeShipping;
   const shippingCost = freeShippingApplied ? 0 : standardShipping;
   const finalTotal = pricingResults.finalTotal + shippingCost;
 
@@ -137,12 +146,13 @@ export default function CartPage() {
           <div className="lg:col-span-2">
             <div className="bg-white rounded-lg shadow-md">
               {cartItems.map((item) => {
-                const isRemoving = removingItems.has(item.id);
-                const isUpdating = updatingQuantities.has(item.id);
+                const lineKey = cartLineKey(item);
+                const isRemoving = removingItems.has(lineKey);
+                const isUpdating = updatingQuantities.has(lineKey);
                 
                 return (
                   <div 
-                    key={item.id} 
+                    key={lineKey} 
                     className={`flex items-center gap-4 p-6 border-b border-gray-200 last:border-b-0 transition-all duration-500 ${
                       isRemoving ? 'opacity-0 transform translate-x-full' : 'opacity-100 transform translate-x-0'
                     }`}
@@ -161,8 +171,11 @@ export default function CartPage() {
                       <h3 className="text-lg font-semibold text-gray-900 truncate">
                         {item.name}
                       </h3>
+                      {item.variantTitle && (
+                        <p className="text-sm text-gray-500">{item.variantTitle}</p>
+                      )}
                       <p className="text-gray-600 mt-1">
-                        ${item.price.toFixed(2)} each
+                        {formatPrice(item.price)} each
                       </p>
                       {item.isDigital && (
                         <div className="flex items-center gap-2 mt-2">
@@ -187,7 +200,7 @@ export default function CartPage() {
                     <div className="flex items-center gap-3">
                       <div className="flex items-center border border-gray-300 rounded-md">
                         <button
-                          onClick={() => handleQuantityUpdate(item.id, item.quantity - 1)}
+                          onClick={() => handleQuantityUpdate(lineKey, item.quantity - 1)}
                           className="p-2 hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                           disabled={item.quantity <= 1 || isUpdating}
                         >
@@ -205,7 +218,7 @@ export default function CartPage() {
                           )}
                         </span>
                         <button
-                          onClick={() => handleQuantityUpdate(item.id, item.quantity + 1)}
+                          onClick={() => handleQuantityUpdate(lineKey, item.quantity + 1)}
                           className="p-2 hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                           disabled={isUpdating}
                         >
@@ -217,10 +230,10 @@ export default function CartPage() {
                     {/* Item Total */}
                     <div className="text-right">
                       <p className="text-lg font-semibold text-gray-900">
-                        ${(item.price * item.quantity).toFixed(2)}
+                        {formatPrice(item.price * item.quantity)}
                       </p>
                       <button
-                        onClick={() => handleRemoveItem(item.id)}
+                        onClick={() => handleRemoveItem(lineKey)}
                         className="text-red-600 hover:text-red-800 text-sm mt-1 transition-colors flex items-center space-x-1 disabled:opacity-50"
                         disabled={isRemoving}
                       >
@@ -282,12 +295,12 @@ export default function CartPage() {
               <div className="space-y-3 mb-6" style={{ minHeight: '200px' }}>
                 <div className="flex justify-between text-gray-600">
                   <span>Subtotal ({itemCount} items)</span>
-                  <span>${pricingResults.subtotal.toFixed(2)}</span>
+                  <span>{formatMoney(pricingResults.subtotal, currency)}</span>
                 </div>
                 
                 {/* Applied discounts section with reserved space */}
                 <div style={{ minHeight: '60px' }}>
-                  {pricingResults.rulesApplied.filter(rule => rule.applied && rule.savings > 0).map((rule, index) => (
+                  {pricingResults.rulesApplied.filter(rule => rule.applied && rule.savings > 0 && rule.type !== 'free_shipping').map((rule, index) => (
                     <div key={index} className="flex justify-between text-green-600 mb-1">
                       <span className="flex items-center space-x-1">
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -295,7 +308,7 @@ export default function CartPage() {
                         </svg>
                         <span>{rule.description}</span>
                       </span>
-                      <span>-${rule.savings.toFixed(2)}</span>
+                      <span>-{formatMoney(rule.savings, currency)}</span>
                     </div>
                   ))}
                 </div>
@@ -303,7 +316,7 @@ export default function CartPage() {
                 <div className="flex justify-between text-gray-600">
                   <span>Shipping</span>
                   <span className={shippingCost === 0 ? 'text-green-600 font-medium' : ''}>
-                    {shippingCost === 0 ? 'FREE' : `$${shippingCost.toFixed(2)}`}
+                    {shippingCost === 0 ? 'FREE' : formatMoney(shippingCost, currency)}
                   </span>
                 </div>
                 
@@ -322,7 +335,7 @@ export default function CartPage() {
                 <div className="border-t pt-3">
                   <div className="flex justify-between text-lg font-bold text-gray-900">
                     <span>Total</span>
-                    <span>${finalTotal.toFixed(2)}</span>
+                    <span>{formatMoney(finalTotal, currency)}</span>
                   </div>
                 </div>
               </div>
@@ -341,7 +354,12 @@ export default function CartPage() {
                       {pricingResults.rulesApplied.map((rule, index) => (
                         <li key={index} className="flex items-start space-x-1">
                           <span>•</span>
-                          <span>{rule.description}</span>
+                          <span>
+                            {rule.description}
+                            {rule.explanation && (
+                              <span className="block text-xs text-green-600">{rule.explanation}</span>
+                            )}
+                          </span>
                         </li>
                       ))}
                     </ul>
@@ -1,37 +1,14 @@
 import React from 'react';
 import { Metadata } from 'next';
-import DigitalDownload from '../../components/DigitalDownload';
-import { Product } from '../../types';
+import MyDownloads from '../../components/MyDownloads';
 
 export const metadata: Metadata = {
   title: 'Download Your Digital Products | Aurora Commerce',
   description: 'Access and download your purchased digital products instantly.',
-};
-
-// Mock digital product for demo
-const mockDigitalProduct: Product = {
-  id: '7',
-  name: 'Complete Web Design Course',
-  description: 'Master modern web design with this comprehensive course covering HTML5, CSS3, JavaScript, React, and responsive design.',
-  price: 149.99,
-  category: 'Digital Courses',
-  imageUrl: 'https://images.unsplash.com/photo-1516321318423-f06f85e504b3?w=600&h=600&fit=crop',
-  stock: 999,
-  tags: ['web-design', 'course', 'html', 'css', 'javascript', 'react'],
-  isDigital: true,
-  downloadUrl: '/api/download/web-design-course',
-  fileSize: "8GB",
-  fileFormat: 'ZIP',
-  licenseType: 'personal',
-  instantDownload: true,
-  digitalDeliveryInfo: 'Download link sent instantly after purchase',
-  previewUrl: '/preview/web-design-course',
-  systemRequirements: [
-    'Any modern web browser',
-    'Text editor (VS Code recommended)',
-    '8GB free storage space',
-    'Internet connection for video content'
-  ]
+  robots: {
+    index: false,
+    follow: false,
+  },
 };
 
 export default function DownloadPage() {
@@ -46,27 +23,7 @@ export default function DownloadPage() {
           </p>
         </div>
 
-        {/* Demo Notice */}
-        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-8">
-          <div className="flex items-center gap-2 text-blue-800 font-medium mb-2">
-            <span>💡</span>
-            <span>Demo Page</span>
-          </div>
-          <p className="text-blue-700 text-sm">
-            This is a demonstration of how digital product downloads would work. 
-            In a real implementation, this page would be protected and show actual purchased products.
-          </p>
-        </div>
-
-        {/* Digital Download Component */}
-        <DigitalDownload
-          product={mockDigitalProduct}
-          orderId="ORDER123456789"
-          downloadToken="demo-token-12345"
-          purchaseDate="2024-10-30T10:00:00Z"
-          downloadCount={0}
-          maxDownloads={10}
-        />
+        <MyDownloads />
 
         {/* Additional Information */}
         <div className="mt-8 bg-white rounded-lg shadow-md p-6">
@@ -96,7 +53,7 @@ export default function DownloadPage() {
               </div>
               <h3 className="font-medium text-gray-900 mb-2">3. Download</h3>
               <p className="text-sm text-gray-600">
-                Download your products with secure, tracked download links
+                Download with secure links that expire after a short time and count towards your download limit
               </p>
             </div>
           </div>
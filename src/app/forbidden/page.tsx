@@ -0,0 +1,28 @@
+import React from 'react';
+import Link from 'next/link';
+import { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Access Denied | Aurora Commerce',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+// Shown by src/middleware.ts when a signed-in user lacks the role for an admin page
+export default function ForbiddenPage() {
+  return (
+    <main className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-lg shadow p-8 max-w-md text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Access denied</h1>
+        <p className="text-gray-600 mb-6">
+          Your account doesn&apos;t have permission to open this page. Ask a store owner to give you the right role.
+        </p>
+        <Link href="/" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+          Back to the store
+        </Link>
+      </div>
+    </main>
+  );
+}
@@ -7,6 +7,7 @@ import Header from '../components/Header';
 import Footer from '../components/Footer';
 import MobileNavBar from '../components/MobileNavBar';
 import CartNotifications from '../components/CartNotifications';
+import CartSync from '../components/CartSync';
 import WebVitalsReporter from '../components/WebVitalsReporter';
 import PerformanceDashboard from '../components/PerformanceDashboard';
 import ErrorBoundary from '../components/ErrorBoundary';
@@ -169,6 +170,7 @@ export default function RootLayout({
             <Footer />
             <MobileNavBar />
             <CartNotifications />
+            <CartSync />
             <WebVitalsReporter />
             <PerformanceDashboard />
             <ChatWidget 
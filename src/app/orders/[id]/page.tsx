@@ -0,0 +1,71 @@
+import React from 'react';
+import { Metadata } from 'next';
+import { headers } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import BuyAgainButton from '../../../components/BuyAgainButton';
+import ReturnRequestForm from '../../../components/ReturnRequestForm';
+import TrackingTimeline from '../../../components/TrackingTimeline';
+import { getSessionUser } from '../../../lib/customerAuth';
+import { ORDER_STATUS_LABELS, normalizeOrderStatus } from '../../../services/orderStatus';
+import { isCustomerOrder } from '../../../services/paymentMethods';
+import { getOrderTracking } from '../../../services/tracking';
+
+export const metadata: Metadata = {
+  title: 'Order Tracking | Aurora Commerce',
+  description: 'Track the delivery of your Aurora Commerce order.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+// Tracking changes as carrier events arrive
+export const dynamic = 'force-dynamic';
+
+export default async function OrderPage({ params }: { params: { id: string } }) {
+  const customer = await getSessionUser({ headers: headers() });
+  if (!customer) {
+    redirect(`/account/sign-in?next=${encodeURIComponent(`/orders/${params.id}`)}`);
+  }
+  if (!(await isCustomerOrder(params.id, customer))) {
+    notFound();
+  }
+
+  const tracking = await getOrderTracking(params.id);
+
+  if (!tracking) {
+    notFound();
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Order {tracking.orderId}</h1>
+          <p className="text-gray-600">
+            Status: <span className="font-medium">{ORDER_STATUS_LABELS[normalizeOrderStatus(tracking.orderStatus)]}</span>
+          </p>
+        </div>
+
+        {tracking.shipments.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-6 text-center">
+            <h3 className="text-sm font-medium text-gray-900">Not shipped yet</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Tracking details will appear here once your order has been handed to the carrier.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {tracking.shipments.map((shipment) => (
+              <TrackingTimeline key={shipment.id} shipment={shipment} />
+            ))}
+          </div>
+        )}
+
+        <ReturnRequestForm orderId={tracking.orderId} />
+
+        <BuyAgainButton orderId={tracking.orderId} />
+      </div>
+    </main>
+  );
+}
@@ -6,9 +6,14 @@ import { Product } from '../../../types';
 import { generateSEOMetadata, generateProductStructuredData, generateBreadcrumbStructuredData, generateMetaDescription as createMetaDescription, generateProductKeywords } from '../../../lib/seo';
 import AddToCartButton from '../../../components/AddToCartButton';
 import ProductImage from '../../../components/ProductImage';
+import Price from '../../../components/Price';
 import ReviewDisplay from '../../../components/ReviewDisplay';
 import ReviewSection from '../../../components/ReviewSection';
 import ProductStarRating from '../../../components/ProductStarRating';
+import SubscribeOptions from '../../../components/SubscribeOptions';
+import ProductVariantPicker from '../../../components/ProductVariantPicker';
+import { getProductPlans } from '../../../services/subscriptions';
+import { hasVariants, variantPriceRange } from '../../../services/productVariants';
 
 // Mock data for development
 const mockProducts: Product[] = [
@@ -59,8 +64,22 @@ const mockProducts: Product[] = [
     price: 29.99,
     category: 'Clothing',
     imageUrl: 'https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=600&h=600&fit=crop',
-    stock: 100,
-    tags: ['organic', 'cotton', 'sustainable', 'eco-friendly']
+    stock: 83,
+    tags: ['organic', 'cotton', 'sustainable', 'eco-friendly'],
+    options: [
+      { name: 'Colour', values: ['White', 'Navy'] },
+      { name: 'Size', values: ['S', 'M', 'L', 'XL'] }
+    ],
+    variants: [
+      { id: '5-white-s', sku: 'TEE-ORG-WHT-S', options: { Colour: 'White', Size: 'S' }, price: 29.99, stock: 12, imageUrl: 'https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=600&h=600&fit=crop' },
+      { id: '5-white-m', sku: 'TEE-ORG-WHT-M', options: { Colour: 'White', Size: 'M' }, price: 29.99, stock: 20, imageUrl: 'https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=600&h=600&fit=crop' },
+      { id: '5-white-l', sku: 'TEE-ORG-WHT-L', options: { Colour: 'White', Size: 'L' }, price: 29.99, stock: 18, imageUrl: 'https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=600&h=600&fit=crop' },
+      { id: '5-white-xl', sku: 'TEE-ORG-WHT-XL', options: { Colour: 'White', Size: 'XL' }, price: 32.99, stock: 6, imageUrl: 'https://images.unsplash.com/photo-1521572163474-6864f9cf17ab?w=600&h=600&fit=crop' },
+      { id: '5-navy-s', sku: 'TEE-ORG-NVY-S', options: { Colour: 'Navy', Size: 'S' }, price: 29.99, stock: 8, imageUrl: 'https://images.unsplash.com/photo-1583743814966-8936f5b7be1a?w=600&h=600&fit=crop' },
+      { id: '5-navy-m', sku: 'TEE-ORG-NVY-M', options: { Colour: 'Navy', Size: 'M' }, price: 29.99, stock: 15, imageUrl: 'https://images.unsplash.com/photo-1583743814966-8936f5b7be1a?w=600&h=600&fit=crop' },
+      { id: '5-navy-l', sku: 'TEE-ORG-NVY-L', options: { Colour: 'Navy', Size: 'L' }, price: 29.99, stock: 4, imageUrl: 'https://images.unsplash.com/photo-1583743814966-8936f5b7be1a?w=600&h=600&fit=crop' },
+      { id: '5-navy-xl', sku: 'TEE-ORG-NVY-XL', options: { Colour: 'Navy', Size: 'XL' }, price: 32.99, stock: 0, imageUrl: 'https://images.unsplash.com/photo-1583743814966-8936f5b7be1a?w=600&h=600&fit=crop' }
+    ]
   },
   {
     id: '6',
@@ -274,6 +293,9 @@ export default async function ProductPage({ params }: ProductPageProps) {
   }
 
   const relatedProducts = await getRelatedProducts(product.category, product.id);
+  const subscriptionPlans = product.subscriptionPlans || await getProductPlans(product.id);
+  const withVariants = hasVariants(product);
+  const priceRange = variantPriceRange(product);
 
   // Generate structured data for SEO
   const productStructuredData = generateProductStructuredData(product);
@@ -359,7 +381,8 @@ export default async function ProductPage({ params }: ProductPageProps) {
                 </div>
                 
                 <p className="text-4xl font-bold text-green-600 mb-6">
-                  ${product.price.toFixed(2)}
+                  {priceRange.min < priceRange.max && <span className="text-2xl">From </span>}
+                  <Price amount={priceRange.min} />
                 </p>
               </div>
 
@@ -439,8 +462,8 @@ export default async function ProductPage({ params }: ProductPageProps) {
                 </div>
               )}
 
-              {/* Physical Product Stock Status */}
-              {!product.isDigital && (
+              {/* Physical Product Stock Status (per variant in the picker) */}
+              {!product.isDigital && !withVariants && (
                 <div className="flex items-center gap-2">
                   <span className="text-sm font-medium text-gray-700">Stock:</span>
                   <span className={`text-sm font-medium ${
@@ -479,32 +502,45 @@ export default async function ProductPage({ params }: ProductPageProps) {
 
               {/* Add to Cart Section */}
               <div className="border-t pt-6">
-                <div className="flex gap-4">
-                  <AddToCartButton
-                    productId={product.id}
-                    productName={product.name}
-                    productPrice={product.price}
-                    productImage={product.imageUrl}
-                    isDigital={product.isDigital}
-                    fileFormat={product.fileFormat}
-                    licenseType={product.licenseType}
+                {withVariants ? (
+                  <ProductVariantPicker
                     product={product}
-                    disabled={!product.isDigital && product.stock === 0}
                     className="flex-1 bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
                   >
-                    {product.isDigital 
-                      ? '💾 Buy & Download Now' 
-                      : product.stock === 0 
-                      ? 'Out of Stock' 
-                      : 'Add to Cart'
-                    }
-                  </AddToCartButton>
-                  <button className="bg-gray-100 text-gray-700 px-6 py-3 rounded-lg font-semibold hover:bg-gray-200 transition-colors">
-                    Add to Wishlist
-                  </button>
-                </div>
+                    <button className="bg-gray-100 text-gray-700 px-6 py-3 rounded-lg font-semibold hover:bg-gray-200 transition-colors">
+                      Add to Wishlist
+                    </button>
+                  </ProductVariantPicker>
+                ) : (
+                  <div className="flex gap-4">
+                    <AddToCartButton
+                      productId={product.id}
+                      productName={product.name}
+                      productPrice={product.price}
+                      productImage={product.imageUrl}
+                      isDigital={product.isDigital}
+                      fileFormat={product.fileFormat}
+                      licenseType={product.licenseType}
+                      product={product}
+                      disabled={!product.isDigital && product.stock === 0}
+                      className="flex-1 bg-blue-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                      {product.isDigital 
+                        ? '💾 Buy & Download Now' 
+                        : product.stock === 0 
+                        ? 'Out of Stock' 
+                        : 'Add to Cart'
+                      }
+                    </AddToCartButton>
+                    <button className="bg-gray-100 text-gray-700 px-6 py-3 rounded-lg font-semibold hover:bg-gray-200 transition-colors">
+                      Add to Wishlist
+                    </button>
+                  </div>
+                )}
               </div>
 
+              <SubscribeOptions plans={subscriptionPlans} />
+
               {/* Additional Features */}
               <div className="border-t pt-6 space-y-3">
                 {product.isDigital ? (
@@ -587,7 +623,7 @@ export default async function ProductPage({ params }: ProductPageProps) {
                     </p>
                     <div className="flex items-center justify-between">
                       <span className="text-xl font-bold text-green-600">
-                        ${relatedProduct.price.toFixed(2)}
+                        <Price amount={relatedProduct.price} />
                       </span>
                       <a
                         href={`/product/${relatedProduct.id}`}
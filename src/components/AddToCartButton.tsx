@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { useCartStore } from '../lib/store/cartStore';
+import { useCartStore, cartLineKey } from '../lib/store/cartStore';
 import { ShoppingCart, CheckCircle, Plus } from 'lucide-react';
 
 interface AddToCartButtonProps {
@@ -9,6 +9,10 @@ interface AddToCartButtonProps {
   productName: string;
   productPrice: number;
   productImage: string;
+  // The chosen variant, for products with variants (see ProductVariantPicker)
+  variantId?: string;
+  variantTitle?: string;
+  sku?: string;
   className?: string;
   disabled?: boolean;
   children?: React.ReactNode;
@@ -25,6 +29,9 @@ export default function AddToCartButton({
   productName,
   productPrice,
   productImage,
+  variantId,
+  variantTitle,
+  sku,
   className = '',
   disabled = false,
   children,
@@ -38,14 +45,16 @@ export default function AddToCartButton({
   const [justAdded, setJustAdded] = useState(false);
   
   // Use proper Zustand selectors to avoid infinite re-renders
+  const lineKey = cartLineKey({ id: productId, variantId });
   const addItem = useCartStore((state) => state.addItem);
   const currentQuantity = useCartStore((state) => {
-    const item = state.items.find(item => item.id === productId);
+    const item = state.items.find(item => cartLineKey(item) === lineKey);
     return item ? item.quantity : 0;
   });
   const inCart = useCartStore((state) => 
-    state.items.some(item => item.id === productId)
+    state.items.some(item => cartLineKey(item) === lineKey)
   );
+  const displayName = variantTitle ? `${productName} (${variantTitle})` : productName;
 
   const handleAddToCart = async () => {
     if (disabled || isLoading) return;
@@ -56,6 +65,9 @@ export default function AddToCartButton({
       // Add item to Zustand store immediately for instant feedback
       addItem({
         id: productId,
+        variantId,
+        variantTitle,
+        sku,
         name: productName,
         price: productPrice,
         imageUrl: productImage,
@@ -181,7 +193,7 @@ export default function AddToCartButton({
       disabled={disabled || isLoading}
       className={getButtonClasses()}
       type="button"
-      title={inCart ? `Add another ${productName} to cart` : `Add ${productName} to cart`}
+      title={inCart ? `Add another ${displayName} to cart` : `Add ${displayName} to cart`}
     >
       {getButtonContent()}
     </button>
@@ -1,6 +1,8 @@
 'use client';
 
 import React, { useState } from 'react';
+import OrderTimeline from './OrderTimeline';
+import OrderDownloads from './OrderDownloads';
 
 interface Order {
   id: string;
@@ -28,15 +30,18 @@ interface AdminOrdersDashboardProps {
   loading: boolean;
   onUpdatePriority: (orderId: string, newPriority: number) => void;
   onBulkUpdatePriority: (orderIds: string[], newPriority: number) => void;
+  onStatusChanged?: () => void;
 }
 
 const AdminOrdersDashboard: React.FC<AdminOrdersDashboardProps> = ({
   orders,
   loading,
   onUpdatePriority,
-  onBulkUpdatePriority
+  onBulkUpdatePriority,
+  onStatusChanged
 }) => {
   const [selectedOrders, setSelectedOrders] = useState<Set<string>>(new Set());
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
 
   const getPriorityColor = (priority: number): string => {
     switch (priority) {
@@ -197,7 +202,8 @@ const AdminOrdersDashboard: React.FC<AdminOrdersDashboardProps> = ({
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {orders.map((order) => (
-              <tr key={order.id} className="hover:bg-gray-50">
+              <React.Fragment key={order.id}>
+              <tr className="hover:bg-gray-50">
                 <td className="px-6 py-4 whitespace-nowrap">
                   <input
                     type="checkbox"
@@ -257,12 +263,16 @@ const AdminOrdersDashboard: React.FC<AdminOrdersDashboardProps> = ({
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                     order.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+                    order.status === 'paid' ? 'bg-indigo-100 text-indigo-800' :
                     order.status === 'processing' ? 'bg-blue-100 text-blue-800' :
+                    order.status === 'partially_shipped' ? 'bg-teal-100 text-teal-800' :
                     order.status === 'shipped' ? 'bg-green-100 text-green-800' :
                     order.status === 'delivered' ? 'bg-purple-100 text-purple-800' :
+                    order.status === 'returned' ? 'bg-orange-100 text-orange-800' :
+                    order.status === 'refunded' ? 'bg-red-100 text-red-800' :
                     'bg-gray-100 text-gray-800'
                   }`}>
-                    {order.status}
+                    {order.status.replace('_', ' ')}
                   </span>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
@@ -306,9 +316,26 @@ const AdminOrdersDashboard: React.FC<AdminOrdersDashboardProps> = ({
                         {priority}
                       </button>
                     ))}
+                    <button
+                      onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                      className="ml-2 px-2 py-0.5 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                    >
+                      {expandedOrderId === order.id ? 'Hide' : 'Timeline'}
+                    </button>
                   </div>
                 </td>
               </tr>
+              {expandedOrderId === order.id && (
+                <tr>
+                  <td colSpan={10} className="px-6 py-4 bg-gray-50">
+                    <OrderTimeline orderId={order.id} onStatusChanged={onStatusChanged} />
+                    <div className="mt-4">
+                      <OrderDownloads orderId={order.id} />
+                    </div>
+                  </td>
+                </tr>
+              )}
+              </React.Fragment>
             ))}
           </tbody>
         </table>
@@ -1,131 +1,139 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
 
 interface InventoryItem {
   id: string;
-  sku: string;
+  product_id: string;
   product_name: string;
-  current_stock: number;
-  reserved_stock: number;
-  available_stock: number;
+  sku: string | null;
+  warehouse_id: string;
+  warehouse_name: string;
+  on_hand: number;
+  reserved: number;
+  available: number;
   reorder_point: number;
-  warehouse_location: string;
-  supplier_name: string;
-  lead_time_days: number;
+  reorder_quantity: number | null;
   stock_status: 'normal' | 'low' | 'critical' | 'out_of_stock';
-  last_sale_date: string | null;
-  last_restock_date: string | null;
-  cost_price: number;
+  updated_at: string;
 }
 
-interface DashboardSummary {
-  total_products: number;
-  products_in_stock: number;
-  products_low_stock: number;
-  products_out_of_stock: number;
-  total_inventory_value: number;
-  active_products_30d: number;
+interface Warehouse {
+  id: string;
+  name: string;
+  country: string;
+  priority: number;
+  is_active: boolean;
 }
 
 interface StockMovement {
   id: string;
   created_at: string;
-  sku: string;
-  product_name: string;
+  product_id: string;
+  warehouse_id: string;
   movement_type: string;
-  quantity_change: number;
-  previous_stock: number;
-  new_stock: number;
-  reference_type: string;
-  reference_id: string;
-  notes: string;
-  warehouse_location: string;
+  on_hand_change: number;
+  reserved_change: number;
+  on_hand_after: number;
+  reserved_after: number;
+  reference_type: string | null;
+  reference_id: string | null;
+  notes: string | null;
 }
 
 const AdvancedInventoryDashboard: React.FC = () => {
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
-  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [movements, setMovements] = useState<StockMovement[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<'all' | 'low' | 'critical' | 'out_of_stock'>('all');
+  const [warehouseFilter, setWarehouseFilter] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [showMovements, setShowMovements] = useState(false);
 
-  const supabase = createClientComponentClient();
-
   useEffect(() => {
     fetchInventoryData();
-    fetchDashboardSummary();
-    fetchStockMovements();
   }, []);
 
   const fetchInventoryData = async () => {
     try {
-      const { data, error } = await supabase
-        .from('low_stock_summary')
-        .select('*')
-        .order('available_stock', { ascending: true });
+      setError(null);
 
-      if (error) throw error;
-      setInventory(data || []);
-    } catch (error) {
-      console.error('Error fetching inventory:', error);
-    }
-  };
+      const response = await fetch('/api/admin/inventory');
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
 
-  const fetchDashboardSummary = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('inventory_dashboard_summary')
-        .select('*')
-        .single();
-
-      if (error) throw error;
-      setSummary(data);
+      setInventory(result.data.levels);
+      setWarehouses(result.data.warehouses);
+      setMovements(result.data.movements);
     } catch (error) {
-      console.error('Error fetching dashboard summary:', error);
+      console.error('Error fetching inventory:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load inventory');
     } finally {
       setLoading(false);
     }
   };
 
-  const fetchStockMovements = async () => {
+  const updateStock = async (item: InventoryItem, quantityChange: number, movementType: string, notes: string) => {
     try {
-      const { data, error } = await supabase
-        .from('stock_movement_history')
-        .select('*')
-        .limit(50);
+      const response = await fetch('/api/admin/inventory', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          productId: item.product_id,
+          warehouseId: item.warehouse_id,
+          quantityChange,
+          movementType,
+          notes
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
 
-      if (error) throw error;
-      setMovements(data || []);
+      // Refresh data
+      await fetchInventoryData();
+
+      alert('Stock updated successfully!');
     } catch (error) {
-      console.error('Error fetching stock movements:', error);
+      console.error('Error updating stock:', error);
+      alert('Error updating stock. Please try again.');
     }
   };
 
-  const updateStock = async (inventoryId: string, quantityChange: number, movementType: string, notes: string) => {
+  const updateReorderSettings = async (item: InventoryItem) => {
+    const reorderPoint = prompt('Reorder when available stock drops to:', String(item.reorder_point));
+    if (reorderPoint === null || !Number.isInteger(Number(reorderPoint)) || Number(reorderPoint) < 0) return;
+
+    const reorderQuantity = prompt('Quantity to order (leave empty to order up to twice the reorder point):', item.reorder_quantity ? String(item.reorder_quantity) : '');
+    if (reorderQuantity === null) return;
+
     try {
-      const { error } = await supabase.rpc('update_inventory_stock', {
-        p_inventory_id: inventoryId,
-        p_quantity_change: quantityChange,
-        p_movement_type: movementType,
-        p_reference_type: 'manual_adjustment',
-        p_notes: notes
+      const response = await fetch('/api/admin/inventory', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          productId: item.product_id,
+          warehouseId: item.warehouse_id,
+          reorderPoint: Number(reorderPoint),
+          reorderQuantity: reorderQuantity ? Number(reorderQuantity) : null
+        }),
       });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
 
-      if (error) throw error;
-      
-      // Refresh data
       await fetchInventoryData();
-      await fetchDashboardSummary();
-      await fetchStockMovements();
-      
-      alert('Stock updated successfully!');
     } catch (error) {
-      console.error('Error updating stock:', error);
-      alert('Error updating stock. Please try again.');
+      console.error('Error updating reorder settings:', error);
+      alert('Error updating reorder settings. Please try again.');
+    }
+  };
+
+  const describeReference = (movement: StockMovement) => {
+    switch (movement.reference_type) {
+      case 'order': return `Order ${movement.reference_id}`;
+      case 'purchase_order': return `PO ${movement.reference_id}${movement.notes ? ` · ${movement.notes}` : ''}`;
+      default: return movement.notes || movement.reference_type;
     }
   };
 
@@ -136,9 +144,9 @@ const AdvancedInventoryDashboard: React.FC = () => {
       critical: { className: 'bg-orange-100 text-orange-800', label: '🔥 Critical' },
       out_of_stock: { className: 'bg-red-100 text-red-800 animate-pulse', label: '🚨 Out of Stock' }
     };
-    
+
     const config = configs[status as keyof typeof configs] || configs.normal;
-    
+
     return (
       <span className={`px-2 py-1 text-xs font-medium rounded-full ${config.className}`}>
         {config.label}
@@ -148,8 +156,8 @@ const AdvancedInventoryDashboard: React.FC = () => {
 
   const getMovementIcon = (type: string) => {
     const icons = {
-      purchase: '📦',
-      sale: '🛒',
+      receipt: '📦',
+      commit: '🛒',
       adjustment: '⚙️',
       return: '↩️',
       transfer: '🔄',
@@ -159,11 +167,33 @@ const AdvancedInventoryDashboard: React.FC = () => {
     return icons[type as keyof typeof icons] || '📝';
   };
 
+  const productNames = new Map(inventory.map(item => [item.product_id, item.product_name]));
+  const warehouseNames = new Map(warehouses.map(warehouse => [warehouse.id, warehouse.name]));
+
+  // Totals across locations, per product
+  const productTotals = new Map<string, { available: number; reorderPoint: number }>();
+  inventory.forEach(item => {
+    const totals = productTotals.get(item.product_id) || { available: 0, reorderPoint: 0 };
+    totals.available += item.available;
+    totals.reorderPoint += item.reorder_point;
+    productTotals.set(item.product_id, totals);
+  });
+  const productTotalValues = Array.from(productTotals.values());
+  const summary = {
+    total_products: productTotals.size,
+    products_in_stock: productTotalValues.filter(totals => totals.available > totals.reorderPoint).length,
+    products_low_stock: productTotalValues.filter(totals => totals.available > 0 && totals.available <= totals.reorderPoint).length,
+    products_out_of_stock: productTotalValues.filter(totals => totals.available <= 0).length,
+    units_reserved: inventory.reduce((sum, item) => sum + item.reserved, 0),
+    locations: warehouses.filter(warehouse => warehouse.is_active).length
+  };
+
   const filteredInventory = inventory.filter(item => {
     const matchesFilter = filter === 'all' || item.stock_status === filter;
-    const matchesSearch = item.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    const matchesWarehouse = warehouseFilter === 'all' || item.warehouse_id === warehouseFilter;
+    const matchesSearch = (item.sku || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.product_name.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesFilter && matchesSearch;
+    return matchesFilter && matchesWarehouse && matchesSearch;
   });
 
   if (loading) {
@@ -180,41 +210,43 @@ const AdvancedInventoryDashboard: React.FC = () => {
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900">📦 Advanced Inventory Management</h1>
-          <p className="text-gray-600 mt-2">Real-time stock tracking, movement history, and warehouse management</p>
+          <p className="text-gray-600 mt-2">Available, reserved and on-hand stock per warehouse location</p>
         </div>
 
-        {/* Dashboard Summary */}
-        {summary && (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-6 mb-8">
-            <div className="bg-white rounded-lg shadow p-6">
-              <div className="text-2xl font-bold text-blue-600">{summary.total_products}</div>
-              <div className="text-sm text-gray-600">Total Products</div>
-            </div>
-            <div className="bg-white rounded-lg shadow p-6">
-              <div className="text-2xl font-bold text-green-600">{summary.products_in_stock}</div>
-              <div className="text-sm text-gray-600">In Stock</div>
-            </div>
-            <div className="bg-white rounded-lg shadow p-6">
-              <div className="text-2xl font-bold text-yellow-600">{summary.products_low_stock}</div>
-              <div className="text-sm text-gray-600">Low Stock</div>
-            </div>
-            <div className="bg-white rounded-lg shadow p-6">
-              <div className="text-2xl font-bold text-red-600">{summary.products_out_of_stock}</div>
-              <div className="text-sm text-gray-600">Out of Stock</div>
-            </div>
-            <div className="bg-white rounded-lg shadow p-6">
-              <div className="text-2xl font-bold text-purple-600">
-                ${summary.total_inventory_value?.toLocaleString() || '0'}
-              </div>
-              <div className="text-sm text-gray-600">Inventory Value</div>
-            </div>
-            <div className="bg-white rounded-lg shadow p-6">
-              <div className="text-2xl font-bold text-indigo-600">{summary.active_products_30d}</div>
-              <div className="text-sm text-gray-600">Active (30d)</div>
-            </div>
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm text-red-700">
+            {error}
           </div>
         )}
 
+        {/* Dashboard Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-6 mb-8">
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-2xl font-bold text-blue-600">{summary.total_products}</div>
+            <div className="text-sm text-gray-600">Total Products</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-2xl font-bold text-green-600">{summary.products_in_stock}</div>
+            <div className="text-sm text-gray-600">In Stock</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-2xl font-bold text-yellow-600">{summary.products_low_stock}</div>
+            <div className="text-sm text-gray-600">Low Stock</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-2xl font-bold text-red-600">{summary.products_out_of_stock}</div>
+            <div className="text-sm text-gray-600">Out of Stock</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-2xl font-bold text-orange-600">{summary.units_reserved}</div>
+            <div className="text-sm text-gray-600">Units Reserved</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-2xl font-bold text-indigo-600">{summary.locations}</div>
+            <div className="text-sm text-gray-600">Locations</div>
+          </div>
+        </div>
+
         {/* Controls */}
         <div className="bg-white rounded-lg shadow p-6 mb-6">
           <div className="flex flex-col md:flex-row gap-4">
@@ -227,6 +259,16 @@ const AdvancedInventoryDashboard: React.FC = () => {
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
             </div>
+            <select
+              value={warehouseFilter}
+              onChange={(e) => setWarehouseFilter(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All locations</option>
+              {warehouses.map((warehouse) => (
+                <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+              ))}
+            </select>
             <div className="flex gap-2">
               {['all', 'low', 'critical', 'out_of_stock'].map((filterOption) => (
                 <button
@@ -264,34 +306,46 @@ const AdvancedInventoryDashboard: React.FC = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Change</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Stock</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">On Hand</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Reserved</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {movements.slice(0, 10).map((movement) => (
+                  {movements.slice(0, 20).map((movement) => (
                     <tr key={movement.id} className="hover:bg-gray-50">
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {new Date(movement.created_at).toLocaleDateString()}
+                        {new Date(movement.created_at).toLocaleString()}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-gray-900">{movement.product_name}</div>
-                        <div className="text-sm text-gray-500">{movement.sku}</div>
+                        <div className="text-sm font-medium text-gray-900">
+                          {productNames.get(movement.product_id) || movement.product_id}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {warehouseNames.get(movement.warehouse_id) || movement.warehouse_id}
+                        </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {getMovementIcon(movement.movement_type)} {movement.movement_type}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`text-sm font-medium ${movement.quantity_change > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                          {movement.quantity_change > 0 ? '+' : ''}{movement.quantity_change}
-                        </span>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {movement.on_hand_change !== 0 && (
+                          <span className={`font-medium ${movement.on_hand_change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {movement.on_hand_change > 0 ? '+' : ''}{movement.on_hand_change}{' '}
+                          </span>
+                        )}
+                        <span className="text-gray-500">→ {movement.on_hand_after}</span>
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {movement.previous_stock} → {movement.new_stock}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {movement.reserved_change !== 0 && (
+                          <span className="font-medium text-orange-600">
+                            {movement.reserved_change > 0 ? '+' : ''}{movement.reserved_change}{' '}
+                          </span>
+                        )}
+                        <span className="text-gray-500">→ {movement.reserved_after}</span>
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
-                        {movement.notes}
+                        {describeReference(movement)}
                       </td>
                     </tr>
                   ))}
@@ -304,17 +358,17 @@ const AdvancedInventoryDashboard: React.FC = () => {
         {/* Inventory Table */}
         <div className="bg-white rounded-lg shadow">
           <div className="p-6 border-b border-gray-200">
-            <h2 className="text-xl font-semibold text-gray-900">📊 Inventory Status</h2>
-            <p className="text-gray-600">Showing {filteredInventory.length} products</p>
+            <h2 className="text-xl font-semibold text-gray-900">📊 Inventory by Location</h2>
+            <p className="text-gray-600">Showing {filteredInventory.length} product locations</p>
           </div>
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock Levels</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Activity</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                 </tr>
@@ -324,46 +378,46 @@ const AdvancedInventoryDashboard: React.FC = () => {
                   <tr key={item.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">{item.product_name}</div>
-                      <div className="text-sm text-gray-500">{item.sku}</div>
-                      <div className="text-xs text-gray-400">{item.warehouse_location}</div>
+                      <div className="text-sm text-gray-500">{item.sku || item.product_id}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{item.warehouse_name}</div>
+                      <div className="text-xs text-gray-400">{item.warehouse_id}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">
-                        <div>Current: <span className="font-medium">{item.current_stock}</span></div>
-                        <div>Reserved: <span className="text-orange-600">{item.reserved_stock}</span></div>
-                        <div>Available: <span className="font-bold text-green-600">{item.available_stock}</span></div>
-                        <div className="text-xs text-gray-500">Reorder at: {item.reorder_point}</div>
+                        <div>On hand: <span className="font-medium">{item.on_hand}</span></div>
+                        <div>Reserved: <span className="text-orange-600">{item.reserved}</span></div>
+                        <div>Available: <span className="font-bold text-green-600">{item.available}</span></div>
+                        <div className="text-xs text-gray-500">
+                          Reorder at: {item.reorder_point}{item.reorder_quantity ? ` (order ${item.reorder_quantity})` : ''}
+                        </div>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getStatusBadge(item.stock_status)}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">{item.supplier_name || 'N/A'}</div>
-                      <div className="text-xs text-gray-500">Lead time: {item.lead_time_days}d</div>
-                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      <div>Sale: {item.last_sale_date ? new Date(item.last_sale_date).toLocaleDateString() : 'Never'}</div>
-                      <div>Restock: {item.last_restock_date ? new Date(item.last_restock_date).toLocaleDateString() : 'Never'}</div>
+                      {new Date(item.updated_at).toLocaleString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex gap-2">
                         <button
                           onClick={() => {
-                            const quantity = prompt('Enter quantity to add:');
-                            if (quantity && !isNaN(Number(quantity))) {
-                              updateStock(item.id, Number(quantity), 'purchase', 'Manual stock increase');
+                            const quantity = prompt('Enter quantity received:');
+                            if (quantity && Number.isInteger(Number(quantity)) && Number(quantity) > 0) {
+                              updateStock(item, Number(quantity), 'receipt', 'Manual stock receipt');
                             }
                           }}
                           className="text-green-600 hover:text-green-900"
                         >
-                          ➕ Add
+                          ➕ Receive
                         </button>
                         <button
                           onClick={() => {
                             const quantity = prompt('Enter quantity to remove:');
-                            if (quantity && !isNaN(Number(quantity))) {
-                              updateStock(item.id, -Number(quantity), 'adjustment', 'Manual stock decrease');
+                            if (quantity && Number.isInteger(Number(quantity)) && Number(quantity) > 0) {
+                              updateStock(item, -Number(quantity), 'adjustment', 'Manual stock decrease');
                             }
                           }}
                           className="text-red-600 hover:text-red-900"
@@ -371,16 +425,10 @@ const AdvancedInventoryDashboard: React.FC = () => {
                           ➖ Remove
                         </button>
                         <button
-                          onClick={() => {
-                            const quantity = prompt('Enter new reorder point:');
-                            if (quantity && !isNaN(Number(quantity))) {
-                              // This would need a separate function to update reorder points
-                              alert('Reorder point update feature coming soon!');
-                            }
-                          }}
+                          onClick={() => updateReorderSettings(item)}
                           className="text-blue-600 hover:text-blue-900"
                         >
-                          ⚙️ Configure
+                          ⚙️ Reorder
                         </button>
                       </div>
                     </td>
@@ -395,4 +443,4 @@ const AdvancedInventoryDashboard: React.FC = () => {
   );
 };
 
-export default AdvancedInventoryDashboard;
\ No newline at end of file
+export default AdvancedInventoryDashboard;
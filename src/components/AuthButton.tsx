@@ -1,13 +1,51 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AuthUser, getCurrentUser, onAuthChange, signOut } from '../lib/auth';
 
 interface AuthButtonProps {
   className?: string;
 }
 
 export default function AuthButton({ className = '' }: AuthButtonProps) {
-  // For now, we'll show a disabled state or remove the button entirely
-  // This can be replaced with proper authentication later
-  return null;
-}
\ No newline at end of file
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [signingOut, setSigningOut] = useState(false);
+
+  useEffect(() => {
+    getCurrentUser().then(setUser);
+    return onAuthChange(setUser);
+  }, []);
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    await signOut();
+    setSigningOut(false);
+  };
+
+  if (!user) {
+    return (
+      <Link
+        href="/account/sign-in"
+        className={`text-gray-600 hover:text-blue-600 font-medium transition-colors ${className}`}
+      >
+        Sign in
+      </Link>
+    );
+  }
+
+  return (
+    <div className={`flex items-center space-x-3 ${className}`}>
+      <span className="text-sm text-gray-700 truncate max-w-[10rem]" title={user.email}>
+        {user.name || user.email}
+      </span>
+      <button
+        onClick={handleSignOut}
+        disabled={signingOut}
+        className="text-sm text-gray-600 hover:text-blue-600 transition-colors disabled:opacity-50"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
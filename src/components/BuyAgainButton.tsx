@@ -0,0 +1,106 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { getAuthHeaders } from '../lib/auth';
+import { getStripe } from '../lib/stripeClient';
+import { SavedCard, formatCardLabel } from './SavedCards';
+
+interface BuyAgainButtonProps {
+  orderId: string;
+}
+
+/**
+ * One-click reorder with a saved card. Hidden for guests and customers
+ * without a saved card.
+ */
+const BuyAgainButton: React.FC<BuyAgainButtonProps> = ({ orderId }) => {
+  const [cards, setCards] = useState<SavedCard[]>([]);
+  const [cardId, setCardId] = useState('');
+  const [placing, setPlacing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCards();
+  }, []);
+
+  const loadCards = async () => {
+    try {
+      const response = await fetch('/api/payment-methods', { headers: await getAuthHeaders() });
+      const result = await response.json();
+      if (!result.success) return;
+      setCards(result.data);
+      setCardId(result.data.find((card: SavedCard) => card.isDefault)?.id || '');
+    } catch (err) {
+      console.error('Error loading saved cards:', err);
+    }
+  };
+
+  const buyAgain = async () => {
+    setPlacing(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/orders/${orderId}/reorder`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ paymentMethodId: cardId || undefined }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      const { orderId: newOrderId, status, clientSecret, paymentMethodId, unavailable } = result.data;
+
+      // The bank wants the customer to authenticate this payment
+      if (status === 'requires_action') {
+        const stripe = await getStripe();
+        if (!stripe) throw new Error('Card authentication is not available');
+        const confirmation = await stripe.confirmCardPayment(clientSecret, { payment_method: paymentMethodId });
+        if (confirmation.error) throw new Error(confirmation.error.message || 'Payment was not authenticated');
+      }
+
+      if (unavailable?.length) {
+        alert(`Not included because they are no longer sold: ${unavailable.map((item: { name: string }) => item.name).join(', ')}`);
+      }
+      window.location.href = `/orders/${newOrderId}`;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to place order');
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  if (cards.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2">Buy again</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Order the same items at today&apos;s prices, shipped to the same address.
+      </p>
+      <div className="flex flex-wrap items-center gap-3">
+        {cards.length > 1 && (
+          <select
+            value={cardId}
+            onChange={(e) => setCardId(e.target.value)}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            {cards.map((card) => (
+              <option key={card.id} value={card.id}>{formatCardLabel(card)}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={buyAgain}
+          disabled={placing}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {placing ? 'Placing order...' : cards.length === 1 ? `Buy again with ${formatCardLabel(cards[0])}` : 'Buy again'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  );
+};
+
+export default BuyAgainButton;
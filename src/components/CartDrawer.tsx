@@ -1,7 +1,8 @@
 'use client';
 
 import React, { useEffect } from 'react';
-import { useCartStore, useCartDrawer } from '../lib/store/cartStore';
+import { useCartStore, useCartDrawer, cartLineKey } from '../lib/store/cartStore';
+import { useFormatPrice } from '../lib/store/currencyStore';
 import { X, Plus, Minus, ShoppingBag, CheckCircle, ArrowRight } from 'lucide-react';
 import Link from 'next/link';
 import Image from 'next/image';
@@ -23,18 +24,13 @@ export default function CartDrawer() {
     };
   }, [isOpen]);
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(price);
-  };
+  const formatPrice = useFormatPrice();
 
-  const handleQuantityChange = (id: string, newQuantity: number) => {
+  const handleQuantityChange = (lineKey: string, newQuantity: number) => {
     if (newQuantity < 1) {
-      removeItem(id);
+      removeItem(lineKey);
     } else {
-      updateQuantity(id, newQuantity);
+      updateQuantity(lineKey, newQuantity);
     }
   };
 
@@ -104,7 +100,7 @@ export default function CartDrawer() {
               <div className="flex-1 overflow-y-auto p-4 space-y-3">
                 {items.map((item, index) => (
                   <div 
-                    key={item.id} 
+                    key={cartLineKey(item)} 
                     className="bg-gradient-to-r from-gray-50 to-white rounded-lg p-4 border border-gray-100 hover:shadow-sm transition-all duration-200"
                     style={{
                       animationDelay: `${index * 100}ms`,
@@ -129,6 +125,9 @@ export default function CartDrawer() {
                         <h4 className="text-sm font-medium text-gray-900 truncate mb-1">
                           {item.name}
                         </h4>
+                        {item.variantTitle && (
+                          <p className="text-xs text-gray-500 mb-1">{item.variantTitle}</p>
+                        )}
                         <p className="text-sm text-gray-500">
                           {formatPrice(item.price)} each
                         </p>
@@ -137,7 +136,7 @@ export default function CartDrawer() {
                         <div className="flex items-center justify-between mt-3">
                           <div className="flex items-center space-x-1 bg-white rounded-lg border border-gray-200 p-1">
                             <button
-                              onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                              onClick={() => handleQuantityChange(cartLineKey(item), item.quantity - 1)}
                               className="p-1 hover:bg-red-50 hover:text-red-600 rounded transition-colors"
                             >
                               <Minus className="h-3 w-3" />
@@ -146,7 +145,7 @@ export default function CartDrawer() {
                               {item.quantity}
                             </span>
                             <button
-                              onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
+                              onClick={() => handleQuantityChange(cartLineKey(item), item.quantity + 1)}
                               className="p-1 hover:bg-green-50 hover:text-green-600 rounded transition-colors"
                             >
                               <Plus className="h-3 w-3" />
@@ -163,7 +162,7 @@ export default function CartDrawer() {
                         
                         {/* Remove Button */}
                         <button
-                          onClick={() => removeItem(item.id)}
+                          onClick={() => removeItem(cartLineKey(item))}
                           className="text-xs text-red-500 hover:text-red-700 mt-2 transition-colors"
                         >
                           Remove item
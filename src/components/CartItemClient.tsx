@@ -3,6 +3,7 @@
 import React from 'react';
 import { CartItem } from '../types';
 import ProductImage from './ProductImage';
+import Price from './Price';
 
 interface CartItemClientProps {
   item: CartItem;
@@ -34,7 +35,7 @@ export default function CartItemClient({ item, onUpdateQuantity, onRemoveItem }:
         </h3>
         <p className="text-sm text-gray-500 mb-1">{product.category}</p>
         <p className="text-lg font-bold text-green-600">
-          ${product.price.toFixed(2)}
+          <Price amount={product.price} />
         </p>
       </div>
 
@@ -59,7 +60,7 @@ export default function CartItemClient({ item, onUpdateQuantity, onRemoveItem }:
         
         <div className="text-right min-w-20">
           <p className="text-lg font-bold text-gray-900">
-            ${itemTotal.toFixed(2)}
+            <Price amount={itemTotal} />
           </p>
         </div>
         
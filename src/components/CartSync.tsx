@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useCartStore } from '../lib/store/cartStore';
+import { useToast } from './ToastProvider';
+
+/**
+ * Keeps the cart store in step with the server cart: loads it on page load,
+ * merges the guest cart on sign-in and reports price or stock changes.
+ */
+export default function CartSync() {
+  const syncCart = useCartStore(state => state.syncCart);
+  const mergeGuestCart = useCartStore(state => state.mergeGuestCart);
+  const adjustments = useCartStore(state => state.adjustments);
+  const dismissAdjustments = useCartStore(state => state.dismissAdjustments);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    syncCart();
+
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+      return;
+    }
+
+    let unsubscribe: (() => void) | undefined;
+    import('../lib/supabase/client').then(({ supabase }) => {
+      const { data } = supabase.auth.onAuthStateChange((event) => {
+        if (event === 'SIGNED_IN') {
+          mergeGuestCart();
+        } else if (event === 'SIGNED_OUT') {
+          syncCart();
+        }
+      });
+      unsubscribe = () => data.subscription.unsubscribe();
+    });
+
+    return () => unsubscribe?.();
+  }, [syncCart, mergeGuestCart]);
+
+  useEffect(() => {
+    if (adjustments.length === 0) return;
+
+    adjustments.forEach(adjustment => {
+      addToast({
+        type: adjustment.type === 'price_changed' ? 'info' : 'warning',
+        title: 'Your cart was updated',
+        message: adjustment.message,
+      });
+    });
+    dismissAdjustments();
+  }, [adjustments, addToast, dismissAdjustments]);
+
+  return null;
+}
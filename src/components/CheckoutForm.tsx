@@ -1,5 +1,10 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useCartStore, useHasDigitalProducts, useHasPhysicalProducts, useDigitalCartItems, usePhysicalCartItems, useIsDigitalOnly } from '../lib/store/cartStore';
+import CouponCodeInput, { AppliedCoupon } from './CouponCodeInput';
+import { useFormatPrice, useSelectedCurrency } from '../lib/store/currencyStore';
+import { getAuthHeaders } from '../lib/auth';
+import { getStripe } from '../lib/stripeClient';
+import { SavedCard, formatCardLabel } from './SavedCards';
 
 const CheckoutForm: React.FC = () => {
     const [formData, setFormData] = useState({
@@ -7,6 +12,7 @@ const CheckoutForm: React.FC = () => {
         email: '',
         address: '',
         city: '',
+        state: '',
         postalCode: '',
         country: '',
         cardNumber: '',
@@ -23,6 +29,31 @@ const CheckoutForm: React.FC = () => {
     const items = useCartStore(state => state.items);
     const total = useCartStore(state => state.total);
     const clearCart = useCartStore(state => state.clearCart);
+
+    const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+
+    // Signed-in customers can pay with a saved card instead of Stripe Checkout
+    const [savedCards, setSavedCards] = useState<SavedCard[]>([]);
+    const [savedCardId, setSavedCardId] = useState('');
+
+    useEffect(() => {
+        const loadSavedCards = async () => {
+            try {
+                const res = await fetch('/api/payment-methods', { headers: await getAuthHeaders() })
+                const json = await res.json()
+                if (!json.success) return
+                setSavedCards(json.data)
+                setSavedCardId(json.data.find((card: SavedCard) => card.isDefault)?.id || '')
+            } catch (err) {
+                console.error('Failed to load saved cards', err)
+            }
+        }
+        loadSavedCards()
+    }, []);
+
+    const currency = useSelectedCurrency();
+    const formatPrice = useFormatPrice();
+    const orderTotal = Math.max(0, total - (appliedCoupon?.discount || 0));
     
     // Digital product analysis using Zustand selectors
     const hasDigitalProducts = useHasDigitalProducts();
@@ -55,8 +86,18 @@ const CheckoutForm: React.FC = () => {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ 
                     items, 
-                    customer: { name: formData.name, email: formData.email }, 
-                    total,
+                    customer: {
+                        name: formData.name,
+                        email: formData.email,
+                        address: formData.address,
+                        city: formData.city,
+                        state: formData.state,
+                        postalCode: formData.postalCode,
+                        country: formData.country
+                    },
+                    total: orderTotal,
+                    currency,
+                    couponCode: appliedCoupon?.code,
                     isDigitalOnly: cartAnalysis.isDigitalOnly,
                     digitalItems: cartAnalysis.digitalItems,
                     physicalItems: cartAnalysis.physicalItems
@@ -65,24 +106,23 @@ const CheckoutForm: React.FC = () => {
             const draftJson = await draftRes.json()
             if (!draftRes.ok) {
                 console.error('Draft order creation failed', draftJson)
-                alert('Failed to create order. Try again.')
+                alert(draftJson.error || 'Failed to create order. Try again.')
                 return
             }
 
             const orderId = draftJson.orderId
 
+            if (savedCardId) {
+                await payWithSavedCard(orderId)
+                return
+            }
+
             // Request a Stripe Checkout session and redirect
             const paymentRes = await fetch('/api/payments', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
+                // Items, prices and the customer come from the stored draft order
                 body: JSON.stringify({
-                    items: items.map(i => ({ 
-                        name: i.name, 
-                        price: i.price, 
-                        quantity: i.quantity,
-                        isDigital: i.isDigital || false
-                    })),
-                    customerEmail: formData.email,
                     metadata: { 
                         order_id: orderId,
                         is_digital_only: cartAnalysis.isDigitalOnly,
@@ -108,6 +148,34 @@ const CheckoutForm: React.FC = () => {
         }
     };
 
+    // Charge the saved card; 3D Secure runs here if the bank asks for it
+    const payWithSavedCard = async (orderId: string) => {
+        const payRes = await fetch('/api/payments/saved-card', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+            body: JSON.stringify({ orderId, paymentMethodId: savedCardId })
+        })
+        const payJson = await payRes.json()
+        if (!payJson.success) {
+            alert(payJson.error || 'Your card was declined')
+            return
+        }
+
+        if (payJson.data.status === 'requires_action') {
+            const stripe = await getStripe()
+            const confirmation = stripe
+                ? await stripe.confirmCardPayment(payJson.data.clientSecret, { payment_method: savedCardId })
+                : null
+            if (!confirmation || confirmation.error) {
+                alert(confirmation?.error?.message || 'Payment could not be authenticated')
+                return
+            }
+        }
+
+        clearCart()
+        window.location.href = `/orders/${orderId}`
+    };
+
     return (
         <div className="max-w-4xl mx-auto">
             {/* Cart Summary */}
@@ -134,7 +202,7 @@ const CheckoutForm: React.FC = () => {
                                         </div>
                                     </div>
                                     <span className="font-medium">
-                                        ${(item.price * item.quantity).toFixed(2)}
+                                        {formatPrice(item.price * item.quantity)}
                                     </span>
                                 </div>
                             ))}
@@ -159,7 +227,7 @@ const CheckoutForm: React.FC = () => {
                                         <span className="text-gray-500 ml-2">x{item.quantity}</span>
                                     </div>
                                     <span className="font-medium">
-                                        ${(item.price * item.quantity).toFixed(2)}
+                                        {formatPrice(item.price * item.quantity)}
                                     </span>
                                 </div>
                             ))}
@@ -167,11 +235,33 @@ const CheckoutForm: React.FC = () => {
                     </div>
                 )}
 
+                <div className="mb-4">
+                    <CouponCodeInput
+                        items={items}
+                        customerEmail={formData.email}
+                        appliedCoupon={appliedCoupon}
+                        onChange={setAppliedCoupon}
+                    />
+                </div>
+
                 <div className="border-t pt-4">
+                    {appliedCoupon && appliedCoupon.discount > 0 && (
+                        <>
+                            <div className="flex justify-between items-center text-sm mb-1">
+                                <span>Subtotal:</span>
+                                <span>{formatPrice(total)}</span>
+                            </div>
+                            <div className="flex justify-between items-center text-sm text-green-600 mb-2">
+                                <span>Discount ({appliedCoupon.code}):</span>
+                                <span>-{formatPrice(appliedCoupon.discount)}</span>
+                            </div>
+                        </>
+                    )}
                     <div className="flex justify-between items-center text-xl font-bold">
                         <span>Total:</span>
-                        <span>${total.toFixed(2)}</span>
+                        <span>{formatPrice(orderTotal)}</span>
                     </div>
+                    <p className="text-sm text-gray-500 mt-1">Tax is calculated from your address at payment</p>
                 </div>
             </div>
 
@@ -236,6 +326,16 @@ const CheckoutForm: React.FC = () => {
                                     className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
                                 />
                             </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">State / Region</label>
+                                <input
+                                    type="text"
+                                    name="state"
+                                    value={formData.state}
+                                    onChange={handleChange}
+                                    className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">Postal Code *</label>
                                 <input
@@ -247,7 +347,7 @@ const CheckoutForm: React.FC = () => {
                                     className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
                                 />
                             </div>
-                            <div className="md:col-span-2">
+                            <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">Country *</label>
                                 <input
                                     type="text"
@@ -281,44 +381,73 @@ const CheckoutForm: React.FC = () => {
                 {/* Payment Information */}
                 <div className="bg-white rounded-lg shadow-md p-6">
                     <h2 className="text-xl font-bold mb-4">Payment Information</h2>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <div className="md:col-span-2">
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Card Number *</label>
-                            <input
-                                type="text"
-                                name="cardNumber"
-                                value={formData.cardNumber}
-                                onChange={handleChange}
-                                required
-                                placeholder="1234 5678 9012 3456"
-                                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            />
-                        </div>
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Expiry Date *</label>
-                            <input
-                                type="text"
-                                name="cardExpiry"
-                                value={formData.cardExpiry}
-                                onChange={handleChange}
-                                required
-                                placeholder="MM/YY"
-                                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            />
+                    {savedCards.length > 0 && (
+                        <div className="space-y-2 mb-4">
+                            {savedCards.map(card => (
+                                <label key={card.id} className="flex items-center gap-3 text-sm">
+                                    <input
+                                        type="radio"
+                                        name="savedCard"
+                                        checked={savedCardId === card.id}
+                                        onChange={() => setSavedCardId(card.id)}
+                                    />
+                                    <span className="font-medium">{formatCardLabel(card)}</span>
+                                    <span className="text-gray-500">
+                                        Expires {String(card.expMonth).padStart(2, '0')}/{card.expYear}
+                                    </span>
+                                </label>
+                            ))}
+                            <label className="flex items-center gap-3 text-sm">
+                                <input
+                                    type="radio"
+                                    name="savedCard"
+                                    checked={savedCardId === ''}
+                                    onChange={() => setSavedCardId('')}
+                                />
+                                <span className="font-medium">Use a new card</span>
+                            </label>
                         </div>
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">CVC *</label>
-                            <input
-                                type="text"
-                                name="cardCvc"
-                                value={formData.cardCvc}
-                                onChange={handleChange}
-                                required
-                                placeholder="123"
-                                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            />
+                    )}
+                    {!savedCardId && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="md:col-span-2">
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Card Number *</label>
+                                <input
+                                    type="text"
+                                    name="cardNumber"
+                                    value={formData.cardNumber}
+                                    onChange={handleChange}
+                                    required
+                                    placeholder="1234 5678 9012 3456"
+                                    className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Expiry Date *</label>
+                                <input
+                                    type="text"
+                                    name="cardExpiry"
+                                    value={formData.cardExpiry}
+                                    onChange={handleChange}
+                                    required
+                                    placeholder="MM/YY"
+                                    className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">CVC *</label>
+                                <input
+                                    type="text"
+                                    name="cardCvc"
+                                    value={formData.cardCvc}
+                                    onChange={handleChange}
+                                    required
+                                    placeholder="123"
+                                    className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
                         </div>
-                    </div>
+                    )}
                 </div>
 
                 <button 
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { useCartStore } from '../lib/store/cartStore';
 import { useToastHelpers } from './ToastProvider';
+import CouponCodeInput, { AppliedCoupon } from './CouponCodeInput';
+import { useFormatPrice } from '../lib/store/currencyStore';
 
 const CheckoutFormSimple: React.FC = () => {
     const { success, error, info } = useToastHelpers();
@@ -54,6 +56,10 @@ const CheckoutFormSimple: React.FC = () => {
     const total = useCartStore(state => state.total);
     const clearCart = useCartStore(state => state.clearCart);
 
+    const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+    const formatPrice = useFormatPrice();
+    const orderTotal = Math.max(0, total - (appliedCoupon?.discount || 0));
+
     const validateStep = (step: number): boolean => {
         const newErrors: Record<string, string> = {};
 
@@ -127,6 +133,7 @@ const CheckoutFormSimple: React.FC = () => {
             
             // Just clear cart for now - simplified
             clearCart();
+            setAppliedCoupon(null);
             success('Order Successful!', 'Your order has been submitted successfully. You will receive a confirmation email shortly.');
             
             // Reset form
@@ -571,17 +578,32 @@ const CheckoutFormSimple: React.FC = () => {
                                         <div className="text-gray-500 text-xs">Qty: {item.quantity}</div>
                                     </div>
                                     <span className="font-medium text-sm">
-                                        ${(item.price * item.quantity).toFixed(2)}
+                                        {formatPrice(item.price * item.quantity)}
                                     </span>
                                 </div>
                             ))}
                         </div>
 
+                        <div className="mb-4">
+                            <CouponCodeInput
+                                items={items}
+                                customerEmail={formData.email}
+                                appliedCoupon={appliedCoupon}
+                                onChange={setAppliedCoupon}
+                            />
+                        </div>
+
                         <div className="space-y-2 pb-4 border-b border-gray-200">
                             <div className="flex justify-between text-sm">
                                 <span>Subtotal</span>
-                                <span>${total.toFixed(2)}</span>
+                                <span>{formatPrice(total)}</span>
                             </div>
+                            {appliedCoupon && appliedCoupon.discount > 0 && (
+                                <div className="flex justify-between text-sm text-green-600">
+                                    <span>Discount ({appliedCoupon.code})</span>
+                                    <span>-{formatPrice(appliedCoupon.discount)}</span>
+                                </div>
+                            )}
                             <div className="flex justify-between text-sm">
                                 <span>Shipping</span>
                                 <span>FREE</span>
@@ -595,7 +617,7 @@ const CheckoutFormSimple: React.FC = () => {
                         <div className="pt-4">
                             <div className="flex justify-between items-center text-xl font-bold">
                                 <span>Total</span>
-                                <span>${total.toFixed(2)}</span>
+                                <span>{formatPrice(orderTotal)}</span>
                             </div>
                         </div>
 
@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CartItem } from '../lib/store/cartStore';
+
+export interface AppliedCoupon {
+  code: string;
+  description?: string;
+  discount: number;
+  freeShipping: boolean;
+}
+
+interface CouponCodeInputProps {
+  items: CartItem[];
+  customerEmail?: string;
+  appliedCoupon: AppliedCoupon | null;
+  onChange: (coupon: AppliedCoupon | null) => void;
+}
+
+/**
+ * Discount code field for the checkout summary.
+ * Codes are checked with /api/coupons/validate; the server re-validates
+ * and redeems the code when the order is created.
+ */
+export default function CouponCodeInput({ items, customerEmail, appliedCoupon, onChange }: CouponCodeInputProps) {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const applyCode = async () => {
+    if (!code.trim()) return;
+
+    setIsApplying(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/coupons/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code,
+          customerEmail: customerEmail || undefined,
+          items: items.map(item => ({
+            productId: item.id,
+            name: item.name,
+            price: item.price,
+            quantity: item.quantity
+          }))
+        })
+      });
+      const json = await res.json();
+
+      if (!res.ok || !json.valid) {
+        setError(json.error || 'This discount code is not valid');
+        onChange(null);
+        return;
+      }
+
+      onChange({
+        code: json.code,
+        description: json.description,
+        discount: json.discount,
+        freeShipping: json.freeShipping
+      });
+      setCode('');
+    } catch (err) {
+      console.error('Failed to apply discount code', err);
+      setError('Failed to apply discount code');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (appliedCoupon) {
+    return (
+      <div className="flex justify-between items-center bg-green-50 border border-green-200 rounded-md px-3 py-2 text-sm">
+        <div>
+          <span className="font-medium text-green-800">{appliedCoupon.code}</span>
+          {appliedCoupon.description && (
+            <span className="text-green-700 ml-2">{appliedCoupon.description}</span>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              applyCode();
+            }
+          }}
+          placeholder="Discount code"
+          className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          onClick={applyCode}
+          disabled={isApplying || !code.trim()}
+          className="px-4 py-2 bg-gray-800 text-white text-sm rounded-md hover:bg-gray-900 disabled:opacity-50"
+        >
+          {isApplying ? 'Applying...' : 'Apply'}
+        </button>
+      </div>
+      {error && <p className="text-red-600 text-sm mt-1">{error}</p>}
+    </div>
+  );
+}
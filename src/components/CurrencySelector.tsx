@@ -0,0 +1,34 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { CURRENCIES } from '../services/currency';
+import { useCurrencyStore } from '../lib/store/currencyStore';
+
+interface CurrencySelectorProps {
+  className?: string;
+}
+
+export default function CurrencySelector({ className = '' }: CurrencySelectorProps) {
+  const currency = useCurrencyStore(state => state.currency);
+  const setCurrency = useCurrencyStore(state => state.setCurrency);
+  const loadRates = useCurrencyStore(state => state.loadRates);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value)}
+      aria-label="Currency"
+      className={`border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${className}`}
+    >
+      {Object.values(CURRENCIES).map(info => (
+        <option key={info.code} value={info.code}>
+          {info.code} ({info.symbol})
+        </option>
+      ))}
+    </select>
+  );
+}
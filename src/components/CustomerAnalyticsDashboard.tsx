@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
+import SearchAnalyticsReport from './SearchAnalyticsReport'
 
 interface DashboardData {
   summary: {
@@ -274,6 +275,9 @@ const CustomerAnalyticsDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Search */}
+      <SearchAnalyticsReport days={period} />
+
       {/* Recent Activity */}
       <div className="bg-white rounded-lg shadow border">
         <div className="p-6 border-b">
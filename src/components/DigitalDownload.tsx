@@ -1,17 +1,28 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Product } from '../types';
+import type { CustomerDownload, DownloadStatus } from '../services/digitalDownloads';
+import type { LicenseStatus } from '../services/licenses';
 
 interface DigitalDownloadProps {
-  product: Product;
-  orderId?: string;
-  downloadToken?: string;
-  purchaseDate?: string;
-  downloadCount?: number;
-  maxDownloads?: number;
+  download: CustomerDownload;
+  // Called after a download starts so the count can be refreshed
+  onDownloaded?: () => void;
 }
 
+const DOWNLOAD_STATUS_LABELS: Record<DownloadStatus, string> = {
+  active: 'Available',
+  limit_reached: 'Download limit reached',
+  expired: 'Access expired',
+  revoked: 'Access revoked'
+};
+
+const LICENSE_STATUS_LABELS: Record<LicenseStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked'
+};
+
 const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
@@ -52,37 +63,32 @@ const getDigitalTypeIcon = (fileFormat?: string) => {
 };
 
 export default function DigitalDownload({
-  product,
-  orderId,
-  downloadToken,
-  purchaseDate,
-  downloadCount = 0,
-  maxDownloads = 10
+  download,
+  onDownloaded
 }: DigitalDownloadProps) {
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [keyCopied, setKeyCopied] = useState(false);
+
+  const { orderId, purchasedAt, downloadCount, maxDownloads, product, license } = download;
+  const remaining = Math.max(0, maxDownloads - downloadCount);
+  const available = download.status === 'active' && !!download.downloadUrl;
 
   const handleDownload = async () => {
-    if (!product.downloadUrl || isDownloading) return;
+    if (!download.downloadUrl || isDownloading) return;
 
     setIsDownloading(true);
     setDownloadError(null);
 
     try {
-      // In a real implementation, this would validate the download token and track downloads
-      const downloadUrl = `${product.downloadUrl}?token=${downloadToken}&order=${orderId}`;
-      
-      // Create a temporary link to trigger download
+      // The signed link counts the download and redirects to the file
       const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = `${product.name.replace(/\s+/g, '_')}.${product.fileFormat?.toLowerCase()}`;
+      link.href = download.downloadUrl;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
 
-      // In a real app, you'd track the download on the server
-      console.log(`Download initiated for product ${product.id}`);
-      
+      setTimeout(() => onDownloaded?.(), 2000);
     } catch (error) {
       console.error('Download failed:', error);
       setDownloadError('Download failed. Please try again or contact support.');
@@ -91,25 +97,34 @@ export default function DigitalDownload({
     }
   };
 
+  const copyLicenseKey = async () => {
+    if (!license) return;
+    try {
+      await navigator.clipboard.writeText(license.licenseKey);
+      setKeyCopied(true);
+      setTimeout(() => setKeyCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy failed:', error);
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
       {/* Header */}
       <div className="bg-gradient-to-r from-blue-500 to-blue-600 text-white p-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <span className="text-2xl">{getDigitalTypeIcon(product.fileFormat)}</span>
+            <span className="text-2xl">{getDigitalTypeIcon(product?.fileFormat)}</span>
             <div>
-              <h2 className="text-lg font-semibold">{product.name}</h2>
+              <h2 className="text-lg font-semibold">{download.productName}</h2>
               <p className="text-blue-100 text-sm">Digital Product - Ready for Download</p>
             </div>
           </div>
           <div className="text-right">
-            <div className="text-sm text-blue-100">Order #{orderId?.slice(-8).toUpperCase()}</div>
-            {purchaseDate && (
-              <div className="text-xs text-blue-200">
-                Purchased: {new Date(purchaseDate).toLocaleDateString()}
-              </div>
-            )}
+            <div className="text-sm text-blue-100">Order #{orderId.slice(-8).toUpperCase()}</div>
+            <div className="text-xs text-blue-200">
+              Purchased: {new Date(purchasedAt).toLocaleDateString()}
+            </div>
           </div>
         </div>
       </div>
@@ -118,42 +133,54 @@ export default function DigitalDownload({
       <div className="p-6">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
           {/* Product Image */}
-          <div className="aspect-square max-w-xs mx-auto">
-            <img
-              src={product.imageUrl}
-              alt={product.name}
-              className="w-full h-full object-cover rounded-lg"
-            />
-          </div>
+          {product && (
+            <div className="aspect-square max-w-xs mx-auto">
+              <img
+                src={product.imageUrl}
+                alt={product.name}
+                className="w-full h-full object-cover rounded-lg"
+              />
+            </div>
+          )}
 
           {/* Product Info */}
           <div className="space-y-4">
             <div>
               <h3 className="text-sm font-medium text-gray-700 mb-2">Product Details</h3>
               <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Format:</span>
-                  <span className="font-medium">{product.fileFormat}</span>
-                </div>
-                {product.fileSize && (
+                {product?.fileFormat && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Format:</span>
+                    <span className="font-medium">{product.fileFormat}</span>
+                  </div>
+                )}
+                {product?.fileSize && (
                   <div className="flex justify-between">
                     <span className="text-gray-600">Size:</span>
                     <span className="font-medium">{product.fileSize}</span>
                   </div>
                 )}
-                <div className="flex justify-between">
-                  <span className="text-gray-600">License:</span>
-                  <span className="font-medium capitalize">{product.licenseType}</span>
-                </div>
+                {product?.licenseType && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">License:</span>
+                    <span className="font-medium capitalize">{product.licenseType}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-600">Downloads:</span>
                   <span className="font-medium">{downloadCount} / {maxDownloads}</span>
                 </div>
+                {download.expiresAt && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Available until:</span>
+                    <span className="font-medium">{new Date(download.expiresAt).toLocaleDateString()}</span>
+                  </div>
+                )}
               </div>
             </div>
 
             {/* System Requirements */}
-            {product.systemRequirements && product.systemRequirements.length > 0 && (
+            {product?.systemRequirements && product.systemRequirements.length > 0 && (
               <div>
                 <h3 className="text-sm font-medium text-gray-700 mb-2">System Requirements</h3>
                 <ul className="text-sm text-gray-600 space-y-1">
@@ -175,14 +202,15 @@ export default function DigitalDownload({
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-1">Download Your Product</h3>
               <p className="text-sm text-gray-600">
-                Click the button below to download your digital product. 
-                {maxDownloads && ` You have ${maxDownloads - downloadCount} downloads remaining.`}
+                {available
+                  ? `Click the button below to download your digital product. You have ${remaining} download${remaining !== 1 ? 's' : ''} remaining.`
+                  : `${DOWNLOAD_STATUS_LABELS[download.status]}. Contact support if you need to download this product again.`}
               </p>
             </div>
             
             <div className="flex flex-col sm:flex-row gap-3">
               {/* Preview/Demo Links */}
-              {product.previewUrl && (
+              {product?.previewUrl && (
                 <a
                   href={product.previewUrl}
                   target="_blank"
@@ -196,7 +224,7 @@ export default function DigitalDownload({
               {/* Main Download Button */}
               <button
                 onClick={handleDownload}
-                disabled={isDownloading || downloadCount >= maxDownloads}
+                disabled={isDownloading || !available}
                 className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors font-medium inline-flex items-center gap-2"
               >
                 {isDownloading ? (
@@ -204,9 +232,9 @@ export default function DigitalDownload({
                     <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
                     Downloading...
                   </>
-                ) : downloadCount >= maxDownloads ? (
+                ) : !available ? (
                   <>
-                    🚫 Download Limit Reached
+                    🚫 {DOWNLOAD_STATUS_LABELS[download.status]}
                   </>
                 ) : (
                   <>
@@ -224,11 +252,39 @@ export default function DigitalDownload({
             </div>
           )}
 
+          {/* License Key */}
+          {license && (
+            <div className="mt-6 p-4 border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-700">License Key</h4>
+                <span className={`text-xs px-2 py-0.5 rounded-full ${
+                  license.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                }`}>
+                  {LICENSE_STATUS_LABELS[license.status]}
+                </span>
+              </div>
+              <div className="flex gap-2 items-start">
+                <code className="flex-1 text-xs bg-gray-50 p-2 rounded break-all">{license.licenseKey}</code>
+                <button
+                  onClick={copyLicenseKey}
+                  className="px-3 py-2 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+                >
+                  {keyCopied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-600 mt-2">
+                Activated on {license.seatsUsed} of {license.seats} device{license.seats !== 1 ? 's' : ''}
+                {license.expiresAt && ` · valid until ${new Date(license.expiresAt).toLocaleDateString()}`}.
+                Deactivate the app on a device to free its seat.
+              </p>
+            </div>
+          )}
+
           {/* License Information */}
           <div className="mt-6 p-4 bg-gray-50 rounded-lg">
             <h4 className="text-sm font-medium text-gray-700 mb-2">License Information</h4>
             <p className="text-xs text-gray-600">
-              This product is licensed under a {product.licenseType} license. 
+              This product is licensed under a {product?.licenseType || 'personal'} license. 
               Please read the full license terms included with your download. 
               Redistribution or resale is prohibited unless specified in your license agreement.
             </p>
@@ -237,7 +293,7 @@ export default function DigitalDownload({
           {/* Support Information */}
           <div className="mt-4 text-center">
             <p className="text-xs text-gray-500">
-              Need help? Contact our support team with your order number #{orderId?.slice(-8).toUpperCase()}
+              Need help? Contact our support team with your order number #{orderId.slice(-8).toUpperCase()}
             </p>
           </div>
         </div>
@@ -5,6 +5,7 @@ import { Product } from '../types';
 import AddToCartButton from './AddToCartButton';
 import StarRating from './StarRating';
 import ProductImage from './ProductImage';
+import Price from './Price';
 import { getOptimizedImageProps, reportTiming } from '../lib/performance';
 
 interface DigitalProductCardProps {
@@ -199,7 +200,7 @@ export default function DigitalProductCard({ product, priority = false }: Digita
         {/* Price and Add to Cart */}
         <div className="flex items-center justify-between mb-4 h-8">
           <span className="text-xl font-bold text-green-600">
-            ${product.price.toFixed(2)}
+            <Price amount={product.price} />
           </span>
           {product.tags && product.tags.length > 0 && (
             <div className="flex gap-1">
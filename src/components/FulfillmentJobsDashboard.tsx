@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'dead';
+
+interface FulfillmentJob {
+  id: string;
+  order_id: string;
+  job_type: 'reserve_inventory' | 'plan_shipments' | 'notify_erp' | 'purchase_label';
+  shipment_id: string | null;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+const STATUS_TABS: Array<{ id: JobStatus | 'all'; label: string }> = [
+  { id: 'dead', label: 'Dead Letter' },
+  { id: 'failed', label: 'Retrying' },
+  { id: 'pending', label: 'Pending' },
+  { id: 'running', label: 'Running' },
+  { id: 'succeeded', label: 'Succeeded' },
+  { id: 'all', label: 'All' },
+];
+
+const JOB_TYPE_LABELS: Record<FulfillmentJob['job_type'], string> = {
+  reserve_inventory: 'Reserve inventory',
+  plan_shipments: 'Plan shipments',
+  notify_erp: 'Notify ERP',
+  purchase_label: 'Purchase label',
+};
+
+const FulfillmentJobsDashboard: React.FC = () => {
+  const [jobs, setJobs] = useState<FulfillmentJob[]>([]);
+  const [counts, setCounts] = useState<Record<JobStatus, number> | null>(null);
+  const [activeTab, setActiveTab] = useState<JobStatus | 'all'>('dead');
+  const [loading, setLoading] = useState(true);
+  const [requeueing, setRequeueing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadJobs();
+  }, [activeTab]);
+
+  const loadJobs = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (activeTab !== 'all') params.append('status', activeTab);
+
+      const response = await fetch(`/api/admin/fulfillment-jobs?${params}`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setJobs(result.data.jobs);
+      setCounts(result.data.counts);
+    } catch (err) {
+      console.error('Error loading fulfillment jobs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load fulfillment jobs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const requeueJob = async (jobId: string) => {
+    try {
+      setRequeueing(jobId);
+      const response = await fetch(`/api/admin/fulfillment-jobs/${jobId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'requeue' }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      await loadJobs();
+    } catch (err) {
+      console.error('Error requeueing job:', err);
+      setError(err instanceof Error ? err.message : 'Failed to requeue job');
+    } finally {
+      setRequeueing(null);
+    }
+  };
+
+  const getStatusColor = (status: JobStatus) => {
+    switch (status) {
+      case 'dead': return 'bg-red-100 text-red-800';
+      case 'failed': return 'bg-orange-100 text-orange-800';
+      case 'running': return 'bg-blue-100 text-blue-800';
+      case 'succeeded': return 'bg-green-100 text-green-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Fulfillment Jobs</h1>
+          <p className="text-gray-600 mt-2">Monitor the fulfillment queue and requeue failed jobs</p>
+        </div>
+
+        <button
+          onClick={loadJobs}
+          disabled={loading}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 mb-6">
+        <nav className="-mb-px flex space-x-8">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.label}{counts && tab.id !== 'all' ? ` (${counts[tab.id]})` : ''}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading && jobs.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : jobs.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-sm font-medium text-gray-900">No jobs</h3>
+            <p className="mt-1 text-sm text-gray-500">There are no fulfillment jobs with this status.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Step</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Error</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Run</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {jobs.map((job) => (
+                <tr key={job.id}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{job.order_id}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{JOB_TYPE_LABELS[job.job_type]}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(job.status)}`}>
+                      {job.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{job.attempts} / {job.max_attempts}</td>
+                  <td className="px-6 py-4 text-sm text-red-600 max-w-xs truncate" title={job.last_error || ''}>
+                    {job.last_error || '—'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {job.status === 'pending' || job.status === 'failed'
+                      ? new Date(job.run_after).toLocaleString()
+                      : '—'}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    {(job.status === 'failed' || job.status === 'dead') && (
+                      <button
+                        onClick={() => requeueJob(job.id)}
+                        disabled={requeueing === job.id}
+                        className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                      >
+                        {requeueing === job.id ? 'Requeueing...' : 'Requeue'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FulfillmentJobsDashboard;
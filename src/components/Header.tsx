@@ -7,6 +7,7 @@ import { ShoppingCart, Menu } from 'lucide-react';
 import AuthButton from './AuthButton';
 import CartDrawer from './CartDrawer';
 import SearchInput from './SearchInput';
+import CurrencySelector from './CurrencySelector';
 import { useCartItemCount, useCartDrawer } from '../lib/store/cartStore';
 
 export default function Header() {
@@ -70,6 +71,8 @@ export default function Header() {
 
             {/* Action buttons */}
             <div className="flex items-center space-x-4">
+              <CurrencySelector />
+
               <div className="hidden md:block">
                 <AuthButton />
               </div>
@@ -0,0 +1,281 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { LicensePoolSummary, LicenseWithActivations } from '../services/licenses';
+
+const getLicenseState = (license: LicenseWithActivations) => {
+  if (license.revoked_at) return { label: 'Revoked', color: 'bg-red-100 text-red-800' };
+  if (license.expires_at && new Date(license.expires_at).getTime() <= Date.now()) {
+    return { label: 'Expired', color: 'bg-gray-100 text-gray-800' };
+  }
+  return { label: 'Active', color: 'bg-green-100 text-green-800' };
+};
+
+const LicensesDashboard: React.FC = () => {
+  const [licenses, setLicenses] = useState<LicenseWithActivations[]>([]);
+  // Null when the staff member can't manage the catalogue
+  const [pools, setPools] = useState<LicensePoolSummary[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadLicenses();
+    loadPools();
+  }, []);
+
+  const loadLicenses = async (search: string = query) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (search.trim()) params.append('q', search.trim());
+
+      const response = await fetch(`/api/admin/licenses?${params}`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setLicenses(result.data);
+    } catch (err) {
+      console.error('Error loading licenses:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load licenses');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadPools = async () => {
+    const response = await fetch('/api/admin/licenses/pool');
+    const result = await response.json().catch(() => null);
+    setPools(result?.success ? result.data : null);
+  };
+
+  const updateLicense = async (licenseId: string, body: Record<string, any>) => {
+    try {
+      setUpdating(licenseId);
+      setError(null);
+      setMessage(null);
+      const response = await fetch(`/api/admin/licenses/${licenseId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      if (body.action === 'reissue') setMessage(`New key emailed to ${result.data.customer_email || 'the customer'}`);
+      await loadLicenses();
+    } catch (err) {
+      console.error('Error updating license:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update license');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const revokeLicense = (license: LicenseWithActivations) => {
+    const reason = prompt('Why is this license being revoked?');
+    if (reason !== null) updateLicense(license.id, { action: 'revoke', reason: reason || undefined });
+  };
+
+  const reissueLicense = (license: LicenseWithActivations) => {
+    const reason = prompt('Re-issue a new key and email it to the customer? Reason (optional):');
+    if (reason !== null) updateLicense(license.id, { action: 'reissue', reason: reason || undefined });
+  };
+
+  const addPoolKeys = async (productId: string) => {
+    const input = prompt(`Paste the license keys for product ${productId}, one per line or comma-separated:`);
+    if (!input) return;
+
+    try {
+      setUpdating(productId);
+      setError(null);
+      const response = await fetch('/api/admin/licenses/pool', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId, keys: input.split(/[\n,]/) }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setMessage(`Added ${result.data.added} key(s) to product ${productId}`);
+      await loadPools();
+    } catch (err) {
+      console.error('Error adding license keys:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add license keys');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Licenses</h1>
+          <p className="text-gray-600 mt-2">Look up software license keys, free device seats, revoke and re-issue keys</p>
+        </div>
+
+        <form
+          onSubmit={(e) => { e.preventDefault(); loadLicenses(); }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Order id, key or email"
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm w-64"
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+          >
+            Search
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-6">
+          {message}
+        </div>
+      )}
+
+      {pools && pools.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Licensed products</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {pools.map((pool) => (
+              <div key={pool.productId} className="border border-gray-200 rounded p-3 text-sm">
+                <div className="font-medium text-gray-900">Product {pool.productId}</div>
+                <div className="text-gray-600">
+                  {pool.seats} seat{pool.seats !== 1 ? 's' : ''} per copy
+                  {pool.validDays ? ` · ${pool.validDays} days` : ' · perpetual'}
+                </div>
+                {pool.keySource === 'pool' ? (
+                  <div className="flex items-center justify-between mt-2">
+                    <span className={pool.available === 0 ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                      {pool.available} free · {pool.assigned} assigned
+                    </span>
+                    <button
+                      onClick={() => addPoolKeys(pool.productId)}
+                      disabled={updating !== null}
+                      className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      Add keys
+                    </button>
+                  </div>
+                ) : (
+                  <div className="text-gray-500 mt-2">Signed keys generated on purchase</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading && licenses.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : licenses.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-sm font-medium text-gray-900">No licenses</h3>
+            <p className="mt-1 text-sm text-gray-500">No licenses match this search.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">License</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Key</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Devices</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {licenses.map((license) => {
+                const state = getLicenseState(license);
+                const activeDevices = license.license_activations.filter((activation) => !activation.deactivated_at);
+                return (
+                  <tr key={license.id} className="align-top">
+                    <td className="px-6 py-4 text-sm">
+                      <div className="text-gray-900">{license.product_name || license.product_id}</div>
+                      <div className="text-gray-500">Order #{license.order_id}</div>
+                      <div className="text-gray-500">{license.customer_email}</div>
+                      <div className="text-xs text-gray-400">{new Date(license.created_at).toLocaleString()}</div>
+                    </td>
+                    <td className="px-6 py-4 text-xs text-gray-600 max-w-xs">
+                      <code className="break-all">{license.license_key}</code>
+                      <div className="text-gray-400 mt-1">{license.key_source === 'pool' ? 'Pool key' : 'Signed key'}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      <div>{activeDevices.length} / {license.seats}</div>
+                      {activeDevices.map((activation) => (
+                        <div key={activation.id} className="text-xs text-gray-500">
+                          {activation.device_name || activation.device_id}
+                          <span className="text-gray-400"> · seen {new Date(activation.last_seen_at).toLocaleDateString()}</span>
+                          <button
+                            onClick={() => updateLicense(license.id, { action: 'deactivate_device', activationId: activation.id })}
+                            disabled={updating === license.id}
+                            className="ml-2 text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            Free seat
+                          </button>
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${state.color}`}>{state.label}</span>
+                      {license.revoked_reason && (
+                        <div className="text-xs text-red-600 mt-1">{license.revoked_reason}</div>
+                      )}
+                      {license.expires_at && (
+                        <div className="text-xs text-gray-500 mt-1">Until {new Date(license.expires_at).toLocaleDateString()}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm font-medium space-x-3 whitespace-nowrap">
+                      {!license.revoked_at && (
+                        <button
+                          onClick={() => revokeLicense(license)}
+                          disabled={updating === license.id}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                      {/* A revoked key that was already replaced has nothing to re-issue */}
+                      {!licenses.some((other) => other.replaces_license_id === license.id) && (
+                        <button
+                          onClick={() => reissueLicense(license)}
+                          disabled={updating === license.id}
+                          className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          Re-issue
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LicensesDashboard;
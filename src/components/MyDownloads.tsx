@@ -0,0 +1,74 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import DigitalDownload from './DigitalDownload';
+import { getAuthHeaders } from '../lib/auth';
+import type { CustomerDownload } from '../services/digitalDownloads';
+
+/**
+ * The signed-in customer's digital purchases. Links are signed for a short
+ * time, so the list is reloaded after each download.
+ */
+export default function MyDownloads() {
+  const [downloads, setDownloads] = useState<CustomerDownload[]>([]);
+  const [signedIn, setSignedIn] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDownloads();
+  }, []);
+
+  const loadDownloads = async () => {
+    try {
+      const response = await fetch('/api/downloads', { headers: await getAuthHeaders() });
+      if (response.status === 401) {
+        setSignedIn(false);
+        return;
+      }
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setDownloads(result.data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your downloads');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-gray-500">Loading your downloads...</p>;
+  }
+
+  if (!signedIn) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 text-center">
+        <p className="text-gray-600">
+          <a href="/account/sign-in?next=/downloads" className="text-blue-600 hover:underline">Sign in</a> to
+          download your purchases, or use the links in your order email.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{error}</div>
+      )}
+
+      {downloads.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-center">
+          <p className="text-gray-600">
+            You have no digital purchases yet. <a href="/digital-products" className="text-blue-600 hover:underline">Browse digital products</a>
+          </p>
+        </div>
+      ) : (
+        downloads.map((download) => (
+          <DigitalDownload key={download.id} download={download} onDownloaded={loadDownloads} />
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { SubscriptionPlan } from '../types';
+import { formatBillingInterval } from './SubscribeOptions';
+
+interface Subscription {
+  id: string;
+  status: string;
+  plan_id: string | null;
+  product_id: string | null;
+  quantity: number;
+  current_period_end: string | null;
+  trial_end: string | null;
+  cancel_at_period_end: boolean;
+  pause_collection: { behavior: string; resumes_at: number | null } | null;
+  last_payment_error: string | null;
+}
+
+interface SubscribedProduct {
+  id: string;
+  name: string;
+  plans: SubscriptionPlan[];
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  trialing: 'Free trial',
+  active: 'Active',
+  past_due: 'Payment overdue',
+  paused: 'Paused',
+  canceled: 'Cancelled',
+  unpaid: 'Unpaid',
+  incomplete: 'Awaiting payment',
+  incomplete_expired: 'Expired',
+};
+
+interface MySubscriptionsProps {
+  token?: string;
+  justSubscribed?: boolean;
+}
+
+const MySubscriptions: React.FC<MySubscriptionsProps> = ({ token, justSubscribed }) => {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [products, setProducts] = useState<SubscribedProduct[]>([]);
+  const [loading, setLoading] = useState(!!token);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [linkSent, setLinkSent] = useState(false);
+
+  useEffect(() => {
+    if (token) loadSubscriptions();
+  }, [token]);
+
+  const loadSubscriptions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/subscriptions?token=${encodeURIComponent(token || '')}`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setSubscriptions(result.data.subscriptions);
+      setProducts(result.data.products);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load subscriptions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const requestLink = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setError(null);
+      const response = await fetch('/api/subscriptions/manage-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setLinkSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send link');
+    }
+  };
+
+  const updateSubscription = async (subscriptionId: string, action: string, planId?: string) => {
+    if (action === 'cancel' && !confirm('Cancel this subscription at the end of the current period?')) return;
+
+    try {
+      setUpdating(subscriptionId);
+      setError(null);
+
+      const response = await fetch(`/api/subscriptions/${subscriptionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, action, planId }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      if (result.data.url) {
+        window.location.href = result.data.url;
+        return;
+      }
+      await loadSubscriptions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update subscription');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const formatDate = (value: string | number | null) =>
+    value ? new Date(typeof value === 'number' ? value * 1000 : value).toLocaleDateString() : '—';
+
+  if (!token) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        {justSubscribed && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg mb-6">
+            Thanks for subscribing! We&apos;ve emailed you a link to manage your subscription.
+          </div>
+        )}
+        {linkSent ? (
+          <p className="text-gray-700">
+            If {email} has any subscriptions, a link to manage them is on its way.
+          </p>
+        ) : (
+          <form onSubmit={requestLink} className="space-y-3">
+            <p className="text-gray-600">Enter the email you subscribed with and we&apos;ll send you a link to manage your subscriptions.</p>
+            <input
+              type="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2"
+              placeholder="you@example.com"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg">
+              Email me a link
+            </button>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  if (loading && subscriptions.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {subscriptions.length === 0 && !error && (
+        <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">You have no subscriptions.</div>
+      )}
+
+      {subscriptions.map((subscription) => {
+        const product = products.find((candidate) => candidate.id === subscription.product_id);
+        const plan = product?.plans.find((candidate) => candidate.id === subscription.plan_id);
+        const otherPlans = (product?.plans || []).filter((candidate) => candidate.id !== subscription.plan_id);
+        const manageable = ['trialing', 'active', 'past_due', 'paused'].includes(subscription.status);
+        const paused = !!subscription.pause_collection;
+        const busy = updating === subscription.id;
+
+        return (
+          <div key={subscription.id} className="bg-white rounded-lg shadow p-6">
+            <div className="flex items-start justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {product?.name || 'Subscription'}{subscription.quantity > 1 && ` × ${subscription.quantity}`}
+                </h2>
+                {plan && (
+                  <p className="text-sm text-gray-500">
+                    {plan.name} · billed {formatBillingInterval(plan.interval, plan.intervalCount)}
+                  </p>
+                )}
+              </div>
+              <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                {paused ? 'Paused' : STATUS_LABELS[subscription.status] || subscription.status}
+              </span>
+            </div>
+
+            <div className="mt-4 text-sm text-gray-600 space-y-1">
+              {subscription.status === 'trialing' && <p>Free trial ends {formatDate(subscription.trial_end)}</p>}
+              {subscription.pause_collection?.resumes_at ? (
+                <p>Next delivery skipped; billing resumes {formatDate(subscription.pause_collection.resumes_at)}</p>
+              ) : paused ? (
+                <p>Paused until you resume it</p>
+              ) : subscription.cancel_at_period_end ? (
+                <p>Ends on {formatDate(subscription.current_period_end)}</p>
+              ) : manageable && (
+                <p>Renews on {formatDate(subscription.current_period_end)}</p>
+              )}
+              {subscription.last_payment_error && <p className="text-red-600">{subscription.last_payment_error}</p>}
+            </div>
+
+            {manageable && (
+              <div className="mt-4 flex flex-wrap gap-3 text-sm font-medium">
+                {paused || subscription.cancel_at_period_end ? (
+                  <button onClick={() => updateSubscription(subscription.id, 'resume')} disabled={busy} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+                    Resume
+                  </button>
+                ) : (
+                  <>
+                    <button onClick={() => updateSubscription(subscription.id, 'skip')} disabled={busy} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+                      Skip next delivery
+                    </button>
+                    <button onClick={() => updateSubscription(subscription.id, 'pause')} disabled={busy} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+                      Pause
+                    </button>
+                    <button onClick={() => updateSubscription(subscription.id, 'cancel')} disabled={busy} className="text-red-600 hover:text-red-800 disabled:opacity-50">
+                      Cancel
+                    </button>
+                  </>
+                )}
+                <button onClick={() => updateSubscription(subscription.id, 'update_card')} disabled={busy} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+                  Update card
+                </button>
+                {otherPlans.length > 0 && (
+                  <select
+                    value=""
+                    disabled={busy}
+                    onChange={(e) => e.target.value && updateSubscription(subscription.id, 'change_plan', e.target.value)}
+                    className="border border-gray-300 rounded px-2 py-1"
+                  >
+                    <option value="">Change plan...</option>
+                    {otherPlans.map((candidate) => (
+                      <option key={candidate.id} value={candidate.id}>
+                        {candidate.name} ({formatBillingInterval(candidate.interval, candidate.intervalCount)})
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MySubscriptions;
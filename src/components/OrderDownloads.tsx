@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { EntitlementWithLog } from '../services/digitalDownloads';
+
+interface OrderDownloadsProps {
+  orderId: string;
+}
+
+/**
+ * Support view of an order's digital downloads: usage, recent downloads
+ * (IP and browser) and controls to reset the count, revoke or restore
+ * access and resend the links
+ */
+export default function OrderDownloads({ orderId }: OrderDownloadsProps) {
+  const [entitlements, setEntitlements] = useState<EntitlementWithLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDownloads();
+  }, [orderId]);
+
+  const loadDownloads = async () => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/admin/orders/${orderId}/downloads`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setEntitlements(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load downloads');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateEntitlement = async (entitlementId: string, action: 'reset' | 'revoke' | 'restore') => {
+    let reason: string | undefined;
+    if (action === 'revoke') {
+      const answer = prompt('Why is access being revoked?');
+      if (answer === null) return;
+      reason = answer || undefined;
+    }
+
+    try {
+      setBusy(entitlementId);
+      setError(null);
+      setMessage(null);
+      const response = await fetch(`/api/admin/downloads/${entitlementId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      await loadDownloads();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update download');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const resendLinks = async () => {
+    try {
+      setBusy('resend');
+      setError(null);
+      const response = await fetch(`/api/admin/orders/${orderId}/downloads`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'resend' }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setMessage(result.data.sent > 0 ? `Emailed ${result.data.sent} download link(s)` : 'No usable downloads to send');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resend links');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading downloads...</p>;
+  }
+
+  if (entitlements.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900">Digital downloads</h4>
+        <button
+          onClick={resendLinks}
+          disabled={busy !== null}
+          className="px-3 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+        >
+          Resend links
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded px-3 py-2">{error}</div>
+      )}
+      {message && <p className="text-sm text-green-700">{message}</p>}
+
+      {entitlements.map((entitlement) => (
+        <div key={entitlement.id} className="border border-gray-200 rounded p-3 bg-white">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm">
+              <span className="font-medium text-gray-900">{entitlement.product_name || entitlement.product_id}</span>
+              <span className="text-gray-600 ml-2">
+                {entitlement.download_count} / {entitlement.max_downloads} downloads
+              </span>
+              {entitlement.expires_at && (
+                <span className="text-gray-500 ml-2">
+                  · until {new Date(entitlement.expires_at).toLocaleDateString()}
+                </span>
+              )}
+              {entitlement.revoked_at && (
+                <span className="ml-2 bg-red-100 text-red-800 text-xs px-2 py-0.5 rounded-full">
+                  Revoked{entitlement.revoked_reason ? `: ${entitlement.revoked_reason}` : ''}
+                </span>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => updateEntitlement(entitlement.id, 'reset')}
+                disabled={busy !== null}
+                className="px-2 py-0.5 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+              >
+                Reset count
+              </button>
+              {entitlement.revoked_at ? (
+                <button
+                  onClick={() => updateEntitlement(entitlement.id, 'restore')}
+                  disabled={busy !== null}
+                  className="px-2 py-0.5 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Restore
+                </button>
+              ) : (
+                <button
+                  onClick={() => updateEntitlement(entitlement.id, 'revoke')}
+                  disabled={busy !== null}
+                  className="px-2 py-0.5 text-xs rounded border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                >
+                  Revoke
+                </button>
+              )}
+            </div>
+          </div>
+
+          {entitlement.download_log.length > 0 && (
+            <ul className="mt-2 text-xs text-gray-500 space-y-0.5">
+              {entitlement.download_log.map((entry) => (
+                <li key={entry.id}>
+                  {new Date(entry.created_at).toLocaleString()} · {entry.ip_address || 'unknown IP'} · {entry.user_agent || 'unknown browser'}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import type { OrderEvent, OrderTimeline as OrderTimelineData } from '../services/orderLifecycle';
+import { ORDER_STATUS_LABELS, OrderStatus } from '../services/orderStatus';
+
+interface OrderTimelineProps {
+  orderId: string;
+  onStatusChanged?: () => void;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  created: 'Order placed',
+  payment_failed: 'Payment failed',
+  partially_refunded: 'Partially refunded',
+  dispute_opened: 'Dispute opened',
+  dispute_updated: 'Dispute updated',
+};
+
+const describeEvent = (event: OrderEvent): string => {
+  if (event.event_type === 'status_changed' && event.to_status) {
+    return `${event.from_status ? `${ORDER_STATUS_LABELS[event.from_status]} → ` : ''}${ORDER_STATUS_LABELS[event.to_status]}`;
+  }
+  return EVENT_LABELS[event.event_type] || event.event_type.replace(/_/g, ' ');
+};
+
+/**
+ * An order's status history, newest first, with a control for moving it to
+ * one of the statuses the lifecycle allows next
+ */
+export default function OrderTimeline({ orderId, onStatusChanged }: OrderTimelineProps) {
+  const [timeline, setTimeline] = useState<OrderTimelineData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [nextStatus, setNextStatus] = useState<OrderStatus | ''>('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    loadTimeline();
+  }, [orderId]);
+
+  const loadTimeline = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/admin/orders/${orderId}/events`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setTimeline(result.data);
+      setNextStatus('');
+    } catch (err) {
+      console.error('Error loading order history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load order history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeStatus = async () => {
+    if (!nextStatus) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetch(`/api/admin/orders/${orderId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'update_status', status: nextStatus, reason: reason || undefined }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setReason('');
+      await loadTimeline();
+      onStatusChanged?.();
+    } catch (err) {
+      console.error('Error updating order status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update order status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !timeline) {
+    return <p className="text-sm text-gray-500">Loading order history...</p>;
+  }
+
+  const events = timeline ? [...timeline.events].reverse() : [];
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded px-3 py-2">{error}</div>
+      )}
+
+      {timeline && timeline.nextStatuses.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={nextStatus}
+            onChange={(e) => setNextStatus(e.target.value as OrderStatus | '')}
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            <option value="">Move to...</option>
+            {timeline.nextStatuses.map((status) => (
+              <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className="border border-gray-300 rounded px-2 py-1 text-sm flex-1 min-w-[12rem]"
+          />
+          <button
+            onClick={changeStatus}
+            disabled={!nextStatus || saving}
+            className="px-3 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Update status'}
+          </button>
+        </div>
+      )}
+
+      {events.length === 0 ? (
+        <p className="text-sm text-gray-500">No history recorded for this order yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2">
+          {events.map((event, index) => (
+            <li key={event.id} className="mb-4 ml-6 last:mb-0">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ring-4 ring-white ${
+                  index === 0 ? 'bg-blue-500' : 'bg-gray-300'
+                }`}
+              />
+              <p className={`text-sm font-medium ${index === 0 ? 'text-gray-900' : 'text-gray-600'}`}>
+                {describeEvent(event)}
+              </p>
+              {event.reason && <p className="text-sm text-gray-600">{event.reason}</p>}
+              <p className="text-xs text-gray-500">
+                {new Date(event.created_at).toLocaleString()} · {event.actor}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
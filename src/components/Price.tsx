@@ -0,0 +1,18 @@
+'use client';
+
+import React from 'react';
+import { useFormatPrice } from '../lib/store/currencyStore';
+
+interface PriceProps {
+  amount: number; // In the catalogue base currency
+  className?: string;
+}
+
+/**
+ * Catalogue price shown in the customer's selected currency.
+ * Usable from server components.
+ */
+export default function Price({ amount, className }: PriceProps) {
+  const formatPrice = useFormatPrice();
+  return <span className={className}>{formatPrice(amount)}</span>;
+}
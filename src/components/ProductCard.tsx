@@ -5,6 +5,7 @@ import { Product } from '../types';
 import AddToCartButton from './AddToCartButton';
 import StarRating from './StarRating';
 import ProductImage from './ProductImage';
+import Price from './Price';
 import DigitalProductCard from './DigitalProductCard';
 import { getOptimizedImageProps, reportTiming } from '../lib/performance';
 
@@ -121,7 +122,7 @@ export default function ProductCard({ product, priority = false }: ProductCardPr
         {/* Price and tags section - Fixed height */}
         <div className="flex items-center justify-between mb-4 h-8">
           <span className="text-xl font-bold text-green-600">
-            ${product.price.toFixed(2)}
+            <Price amount={product.price} />
           </span>
           {/* Tags Display */}
           {product.tags && product.tags.length > 0 && (
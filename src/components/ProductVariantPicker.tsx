@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Product } from '../types';
+import AddToCartButton from './AddToCartButton';
+import ProductImage from './ProductImage';
+import Price from './Price';
+import {
+  defaultVariant,
+  findVariant,
+  isOptionValueAvailable,
+  variantImage,
+  variantTitle
+} from '../services/productVariants';
+
+interface ProductVariantPickerProps {
+  product: Product;
+  className?: string; // For the add to cart button
+  children?: React.ReactNode; // Shown beside the add to cart button
+}
+
+/**
+ * Option choices (e.g. colour and size) for a product with variants, with
+ * the chosen variant's price, stock and images and its add to cart button
+ */
+export default function ProductVariantPicker({ product, className, children }: ProductVariantPickerProps) {
+  const options = product.options || [];
+  const [selection, setSelection] = useState<Record<string, string>>(
+    () => ({ ...defaultVariant(product)?.options })
+  );
+
+  const variant = findVariant(product, selection);
+  const images = variant
+    ? [variantImage(product, variant), ...(variant.images || [])]
+    : [product.imageUrl];
+  const soldOut = !variant || variant.stock <= 0;
+
+  const choose = (optionName: string, value: string) =>
+    setSelection(current => ({ ...current, [optionName]: value }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {images.map((src, index) => (
+          <ProductImage
+            key={`${src}-${index}`}
+            src={src}
+            alt={variant ? `${product.name} - ${variantTitle(product, variant)}` : product.name}
+            width={64}
+            height={64}
+            className="w-16 h-16 object-cover rounded border border-gray-200"
+          />
+        ))}
+      </div>
+
+      {options.map(option => (
+        <div key={option.name}>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">
+            {option.name}: <span className="text-gray-900">{selection[option.name] || 'Choose'}</span>
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map(value => {
+              const selected = selection[option.name] === value;
+              const available = isOptionValueAvailable(product, selection, option.name, value);
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => choose(option.name, value)}
+                  aria-pressed={selected}
+                  title={available ? value : `${value} - out of stock`}
+                  className={`px-3 py-1.5 text-sm rounded border transition-colors ${
+                    selected
+                      ? 'border-blue-600 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                  } ${available ? '' : 'line-through text-gray-400'}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {variant ? (
+        <div className="flex items-center gap-4 text-sm">
+          <span className="text-2xl font-bold text-green-600">
+            <Price amount={variant.price} />
+          </span>
+          <span className={`font-medium ${
+            variant.stock > 10 ? 'text-green-600' : variant.stock > 0 ? 'text-yellow-600' : 'text-red-600'
+          }`}>
+            {variant.stock > 10
+              ? 'In Stock'
+              : variant.stock > 0
+              ? `Only ${variant.stock} left`
+              : 'Out of Stock'}
+          </span>
+          <span className="text-gray-400">SKU {variant.sku}</span>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">This combination isn&apos;t available</p>
+      )}
+
+      <div className="flex gap-4">
+        <AddToCartButton
+          productId={product.id}
+          productName={product.name}
+          productPrice={variant ? variant.price : product.price}
+          productImage={variantImage(product, variant)}
+          variantId={variant?.id}
+          variantTitle={variant ? variantTitle(product, variant) : undefined}
+          sku={variant?.sku}
+          product={product}
+          disabled={soldOut}
+          className={className}
+        >
+          {soldOut ? 'Out of Stock' : 'Add to Cart'}
+        </AddToCartButton>
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+interface PurchaseOrderLine {
+  id: string;
+  product_id: string;
+  supplier_sku: string | null;
+  description: string | null;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  warehouse_id: string;
+  status: PurchaseOrderStatus;
+  source: 'manual' | 'auto';
+  currency: string;
+  subtotal: number;
+  expected_at: string | null;
+  created_at: string;
+  supplier: { id: string; name: string; email: string | null } | null;
+  purchase_order_lines: PurchaseOrderLine[];
+}
+
+interface ReplenishmentResult {
+  created: string[];
+  updated: string[];
+  skipped: Array<{ productId: string; warehouseId?: string; reason: string }>;
+}
+
+const STATUS_TABS: Array<{ id: PurchaseOrderStatus | 'all'; label: string }> = [
+  { id: 'draft', label: 'Drafts' },
+  { id: 'sent', label: 'Sent' },
+  { id: 'partially_received', label: 'Partially Received' },
+  { id: 'received', label: 'Received' },
+  { id: 'cancelled', label: 'Cancelled' },
+  { id: 'all', label: 'All' },
+];
+
+const PurchaseOrdersDashboard: React.FC = () => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [activeTab, setActiveTab] = useState<PurchaseOrderStatus | 'all'>('draft');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [receiving, setReceiving] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [replenishment, setReplenishment] = useState<ReplenishmentResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadOrders();
+  }, [activeTab]);
+
+  const loadOrders = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (activeTab !== 'all') params.append('status', activeTab);
+
+      const response = await fetch(`/api/admin/purchase-orders?${params}`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setOrders(result.data.orders);
+    } catch (err) {
+      console.error('Error loading purchase orders:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load purchase orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runReplenishment = async () => {
+    try {
+      setUpdating('replenish');
+      const response = await fetch('/api/admin/purchase-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'replenish' }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setReplenishment(result.data);
+      await loadOrders();
+    } catch (err) {
+      console.error('Error drafting purchase orders:', err);
+      setError(err instanceof Error ? err.message : 'Failed to draft purchase orders');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const updateOrder = async (order: PurchaseOrder, body: Record<string, any>) => {
+    try {
+      setUpdating(order.id);
+      const response = await fetch(`/api/admin/purchase-orders/${order.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setOrders(prev => prev.map(existing => existing.id === order.id ? result.data : existing));
+      setReceiving({});
+    } catch (err) {
+      console.error('Error updating purchase order:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update purchase order');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const receiveEntered = (order: PurchaseOrder) => {
+    const lines = order.purchase_order_lines
+      .map(line => ({ lineId: line.id, quantity: receiving[line.id] || 0 }))
+      .filter(line => line.quantity > 0);
+
+    if (lines.length === 0) {
+      setError('Enter the quantities that arrived');
+      return;
+    }
+
+    updateOrder(order, { action: 'receive', lines });
+  };
+
+  const getStatusColor = (status: PurchaseOrderStatus) => {
+    switch (status) {
+      case 'draft': return 'bg-gray-100 text-gray-800';
+      case 'sent': return 'bg-blue-100 text-blue-800';
+      case 'partially_received': return 'bg-yellow-100 text-yellow-800';
+      case 'received': return 'bg-green-100 text-green-800';
+      case 'cancelled': return 'bg-red-100 text-red-800';
+    }
+  };
+
+  const formatMoney = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(amount));
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Purchase Orders</h1>
+          <p className="text-gray-600 mt-2">Reorder stock from suppliers and receive deliveries into inventory</p>
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            onClick={runReplenishment}
+            disabled={updating === 'replenish'}
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+          >
+            {updating === 'replenish' ? 'Drafting...' : 'Draft from Stock Alerts'}
+          </button>
+          <button
+            onClick={loadOrders}
+            disabled={loading}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {replenishment && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg mb-6 text-sm">
+          <p>
+            {replenishment.created.length} purchase order(s) created, {replenishment.updated.length} draft(s) updated.
+          </p>
+          {replenishment.skipped.length > 0 && (
+            <ul className="mt-2 list-disc list-inside text-blue-700">
+              {replenishment.skipped.map((skip, index) => (
+                <li key={index}>
+                  {skip.productId}{skip.warehouseId ? ` @ ${skip.warehouseId}` : ''}: {skip.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 mb-6">
+        <nav className="-mb-px flex space-x-8">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {loading && orders.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="bg-white rounded-lg shadow text-center py-12">
+          <h3 className="text-sm font-medium text-gray-900">No purchase orders</h3>
+          <p className="mt-1 text-sm text-gray-500">There are no purchase orders with this status.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => {
+            const receivable = order.status === 'sent' || order.status === 'partially_received';
+
+            return (
+              <div key={order.id} className="bg-white rounded-lg shadow">
+                <div
+                  className="flex items-center justify-between px-6 py-4 cursor-pointer"
+                  onClick={() => setExpanded(expanded === order.id ? null : order.id)}
+                >
+                  <div>
+                    <div className="flex items-center space-x-3">
+                      <span className="font-semibold text-gray-900">{order.po_number}</span>
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(order.status)}`}>
+                        {order.status.replace('_', ' ')}
+                      </span>
+                      {order.source === 'auto' && (
+                        <span className="px-2 py-1 rounded text-xs font-medium bg-purple-100 text-purple-800">auto</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {order.supplier?.name || 'Unknown supplier'} → {order.warehouse_id}
+                      {order.expected_at && ` · expected ${new Date(order.expected_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-gray-900">{formatMoney(order.subtotal, order.currency)}</p>
+                    <p className="text-sm text-gray-500">{order.purchase_order_lines.length} line(s)</p>
+                  </div>
+                </div>
+
+                {expanded === order.id && (
+                  <div className="border-t border-gray-200 px-6 py-4">
+                    <table className="min-w-full divide-y divide-gray-200 mb-4">
+                      <thead>
+                        <tr>
+                          <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                          <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Supplier SKU</th>
+                          <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                          <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                          <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                          {receivable && <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase">Arrived</th>}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {order.purchase_order_lines.map((line) => (
+                          <tr key={line.id}>
+                            <td className="py-2 text-sm text-gray-900">
+                              {line.description || line.product_id}
+                              {line.description && <span className="block text-xs text-gray-500">{line.product_id}</span>}
+                            </td>
+                            <td className="py-2 text-sm text-gray-600">{line.supplier_sku || '—'}</td>
+                            <td className="py-2 text-sm text-right">
+                              {order.status === 'draft' ? (
+                                <input
+                                  type="number"
+                                  min={0}
+                                  defaultValue={line.quantity_ordered}
+                                  onBlur={(e) => {
+                                    const quantity = parseInt(e.target.value);
+                                    if (Number.isInteger(quantity) && quantity !== line.quantity_ordered) {
+                                      updateOrder(order, { action: 'update_line', lineId: line.id, quantity });
+                                    }
+                                  }}
+                                  className="w-20 border border-gray-300 rounded px-2 py-1 text-right"
+                                />
+                              ) : line.quantity_ordered}
+                            </td>
+                            <td className="py-2 text-sm text-right text-gray-600">{line.quantity_received}</td>
+                            <td className="py-2 text-sm text-right text-gray-600">{formatMoney(line.unit_cost, order.currency)}</td>
+                            {receivable && (
+                              <td className="py-2 text-sm text-right">
+                                <input
+                                  type="number"
+                                  min={0}
+                                  max={line.quantity_ordered - line.quantity_received}
+                                  value={receiving[line.id] || ''}
+                                  disabled={line.quantity_received >= line.quantity_ordered}
+                                  onChange={(e) => setReceiving(prev => ({ ...prev, [line.id]: parseInt(e.target.value) || 0 }))}
+                                  className="w-20 border border-gray-300 rounded px-2 py-1 text-right disabled:bg-gray-100"
+                                />
+                              </td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-x-4 text-sm">
+                        <a href={`/api/admin/purchase-orders/${order.id}/export?format=pdf`} className="text-blue-600 hover:text-blue-800">
+                          Download PDF
+                        </a>
+                        <a href={`/api/admin/purchase-orders/${order.id}/export?format=csv`} className="text-blue-600 hover:text-blue-800">
+                          Download CSV
+                        </a>
+                      </div>
+
+                      <div className="space-x-2">
+                        {order.status === 'draft' && (
+                          <button
+                            onClick={() => updateOrder(order, { action: 'send' })}
+                            disabled={updating === order.id}
+                            className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded text-sm disabled:opacity-50"
+                          >
+                            Mark as Sent
+                          </button>
+                        )}
+                        {receivable && (
+                          <>
+                            <button
+                              onClick={() => receiveEntered(order)}
+                              disabled={updating === order.id}
+                              className="bg-yellow-500 hover:bg-yellow-600 text-white px-3 py-1.5 rounded text-sm disabled:opacity-50"
+                            >
+                              Receive Entered
+                            </button>
+                            <button
+                              onClick={() => updateOrder(order, { action: 'receive' })}
+                              disabled={updating === order.id}
+                              className="bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded text-sm disabled:opacity-50"
+                            >
+                              Receive All
+                            </button>
+                          </>
+                        )}
+                        {(order.status === 'draft' || order.status === 'sent') && (
+                          <button
+                            onClick={() => updateOrder(order, { action: 'cancel' })}
+                            disabled={updating === order.id}
+                            className="bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded text-sm disabled:opacity-50"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PurchaseOrdersDashboard;
@@ -0,0 +1,248 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+type ReturnReason = 'damaged' | 'defective' | 'wrong_item' | 'not_as_described' | 'no_longer_needed' | 'other';
+
+interface ReturnableItem {
+  productId: string;
+  name: string;
+  orderedQuantity: number;
+  returnableQuantity: number;
+}
+
+interface ExistingReturn {
+  id: string;
+  rma_number: string;
+  status: string;
+  tracking_number: string | null;
+  label_id: string | null;
+  return_items: Array<{ id: string; product_name: string | null; quantity: number }>;
+}
+
+interface ReturnsData {
+  eligible: boolean;
+  reason?: string;
+  returnBy?: string;
+  items: ReturnableItem[];
+  returns: ExistingReturn[];
+}
+
+const REASONS: Array<{ id: ReturnReason; label: string }> = [
+  { id: 'damaged', label: 'Arrived damaged' },
+  { id: 'defective', label: 'Defective or doesn\'t work' },
+  { id: 'wrong_item', label: 'Wrong item sent' },
+  { id: 'not_as_described', label: 'Not as described' },
+  { id: 'no_longer_needed', label: 'No longer needed' },
+  { id: 'other', label: 'Other' },
+];
+
+const RETURN_STATUS_LABELS: Record<string, string> = {
+  requested: 'Being reviewed',
+  approved: 'Approved - send your parcel',
+  rejected: 'Not approved',
+  received: 'Received - refund pending',
+  refunded: 'Refunded',
+  cancelled: 'Cancelled',
+};
+
+interface ReturnRequestFormProps {
+  orderId: string;
+}
+
+const ReturnRequestForm: React.FC<ReturnRequestFormProps> = ({ orderId }) => {
+  const [data, setData] = useState<ReturnsData | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [selection, setSelection] = useState<Record<string, { quantity: number; reason: ReturnReason; details: string }>>({});
+  const [comments, setComments] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReturns();
+  }, [orderId]);
+
+  const loadReturns = async () => {
+    try {
+      const response = await fetch(`/api/orders/${orderId}/returns`);
+      const result = await response.json();
+      if (result.success) setData(result.data);
+    } catch (err) {
+      console.error('Error loading returns:', err);
+    }
+  };
+
+  const updateSelection = (productId: string, changes: Partial<{ quantity: number; reason: ReturnReason; details: string }>) => {
+    setSelection((current) => ({
+      ...current,
+      [productId]: { ...(current[productId] || { quantity: 0, reason: 'no_longer_needed', details: '' }), ...changes },
+    }));
+  };
+
+  const submitReturn = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const items = Object.entries(selection)
+      .filter(([, item]) => item.quantity > 0)
+      .map(([productId, item]) => ({ productId, quantity: item.quantity, reason: item.reason, details: item.details || undefined }));
+
+    if (items.length === 0) {
+      setError('Choose at least one item to return');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const form = new FormData();
+      form.append('items', JSON.stringify(items));
+      if (comments) form.append('comments', comments);
+      photos.forEach((photo) => form.append('photos', photo));
+
+      const response = await fetch(`/api/orders/${orderId}/returns`, { method: 'POST', body: form });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setShowForm(false);
+      setSelection({});
+      setComments('');
+      setPhotos([]);
+      await loadReturns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request return');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!data) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Returns</h2>
+          {data.eligible && data.returnBy && (
+            <p className="text-sm text-gray-500">Return by {new Date(data.returnBy).toLocaleDateString()}</p>
+          )}
+          {!data.eligible && data.reason && <p className="text-sm text-gray-500">{data.reason}</p>}
+        </div>
+        {data.eligible && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm"
+          >
+            Request a return
+          </button>
+        )}
+      </div>
+
+      {data.returns.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-100">
+          {data.returns.map((rma) => (
+            <li key={rma.id} className="py-3 text-sm">
+              <div className="flex justify-between">
+                <span className="font-mono text-gray-900">{rma.rma_number}</span>
+                <span className="text-gray-600">{RETURN_STATUS_LABELS[rma.status] || rma.status}</span>
+              </div>
+              <div className="text-gray-500">
+                {rma.return_items.map((item) => `${item.quantity} × ${item.product_name}`).join(', ')}
+              </div>
+              {rma.status === 'approved' && rma.label_id && (
+                <a
+                  href={`/api/orders/${orderId}/returns/${rma.id}/label`}
+                  className="text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  Download return label
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showForm && (
+        <form onSubmit={submitReturn} className="mt-6 space-y-4">
+          {data.items.filter((item) => item.returnableQuantity > 0).map((item) => (
+            <div key={item.productId} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900">{item.name}</span>
+                <select
+                  value={selection[item.productId]?.quantity || 0}
+                  onChange={(e) => updateSelection(item.productId, { quantity: parseInt(e.target.value) })}
+                  className="border border-gray-300 rounded px-2 py-1 text-sm"
+                >
+                  {Array.from({ length: item.returnableQuantity + 1 }, (_, quantity) => (
+                    <option key={quantity} value={quantity}>{quantity === 0 ? 'Keep' : `Return ${quantity}`}</option>
+                  ))}
+                </select>
+              </div>
+              {(selection[item.productId]?.quantity || 0) > 0 && (
+                <div className="mt-3 space-y-2">
+                  <select
+                    value={selection[item.productId].reason}
+                    onChange={(e) => updateSelection(item.productId, { reason: e.target.value as ReturnReason })}
+                    className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                  >
+                    {REASONS.map((reason) => (
+                      <option key={reason.id} value={reason.id}>{reason.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Tell us more (optional)"
+                    value={selection[item.productId].details}
+                    onChange={(e) => updateSelection(item.productId, { details: e.target.value })}
+                    className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+
+          <textarea
+            placeholder="Anything else we should know?"
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            rows={3}
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+          />
+
+          <div>
+            <label className="block text-sm text-gray-700 mb-1">Photos (up to 5)</label>
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, 5))}
+              className="text-sm"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+            >
+              {submitting ? 'Submitting...' : 'Submit return request'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ReturnRequestForm;
@@ -0,0 +1,294 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded' | 'cancelled';
+
+interface ReturnItem {
+  id: string;
+  product_id: string;
+  product_name: string | null;
+  quantity: number;
+  unit_price: number;
+  reason: string;
+  reason_details: string | null;
+  quantity_received: number;
+  quantity_restocked: number;
+}
+
+interface ReturnRequest {
+  id: string;
+  rma_number: string;
+  order_id: string;
+  customer_email: string | null;
+  status: ReturnStatus;
+  customer_comments: string | null;
+  photo_urls: string[];
+  carrier: string | null;
+  tracking_number: string | null;
+  refund_amount: number | null;
+  refund_currency: string | null;
+  rejection_reason: string | null;
+  created_at: string;
+  return_items: ReturnItem[];
+}
+
+const STATUS_TABS: Array<{ id: ReturnStatus | 'all'; label: string }> = [
+  { id: 'requested', label: 'Requested' },
+  { id: 'approved', label: 'Awaiting Parcel' },
+  { id: 'received', label: 'Received' },
+  { id: 'refunded', label: 'Refunded' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: 'all', label: 'All' },
+];
+
+const ReturnsDashboard: React.FC = () => {
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [counts, setCounts] = useState<Record<ReturnStatus, number> | null>(null);
+  const [activeTab, setActiveTab] = useState<ReturnStatus | 'all'>('requested');
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReturns();
+  }, [activeTab]);
+
+  const loadReturns = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (activeTab !== 'all') params.append('status', activeTab);
+
+      const response = await fetch(`/api/admin/returns?${params}`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setReturns(result.data.returns);
+      setCounts(result.data.counts);
+    } catch (err) {
+      console.error('Error loading returns:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load returns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateReturn = async (returnId: string, body: Record<string, any>) => {
+    try {
+      setUpdating(returnId);
+      setError(null);
+      const response = await fetch(`/api/admin/returns/${returnId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      await loadReturns();
+    } catch (err) {
+      console.error('Error updating return:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update return');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const rejectReturn = (rma: ReturnRequest) => {
+    const reason = prompt(`Why is ${rma.rma_number} rejected? This is sent to the customer.`);
+    if (reason) updateReturn(rma.id, { action: 'reject', reason });
+  };
+
+  const receiveReturn = (rma: ReturnRequest) => {
+    const items = [];
+    for (const item of rma.return_items) {
+      const name = item.product_name || item.product_id;
+      const received = prompt(`${name}: how many of ${item.quantity} arrived?`, String(item.quantity));
+      if (received === null) return;
+      const restocked = prompt(`${name}: how many of ${received} can be resold?`, received);
+      if (restocked === null) return;
+      items.push({ itemId: item.id, quantityReceived: parseInt(received), quantityRestocked: parseInt(restocked) });
+    }
+    updateReturn(rma.id, { action: 'receive', items });
+  };
+
+  const refundReturn = (rma: ReturnRequest) => {
+    const amount = prompt('Refund amount in the order currency (leave empty to refund the received items):');
+    if (amount === null) return;
+    updateReturn(rma.id, { action: 'refund', ...(amount ? { amount: parseFloat(amount) } : {}) });
+  };
+
+  const getStatusColor = (status: ReturnStatus) => {
+    switch (status) {
+      case 'requested': return 'bg-yellow-100 text-yellow-800';
+      case 'approved': return 'bg-blue-100 text-blue-800';
+      case 'received': return 'bg-purple-100 text-purple-800';
+      case 'refunded': return 'bg-green-100 text-green-800';
+      case 'rejected': return 'bg-red-100 text-red-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Returns</h1>
+          <p className="text-gray-600 mt-2">Approve return requests, book parcels in and refund customers</p>
+        </div>
+
+        <button
+          onClick={loadReturns}
+          disabled={loading}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 mb-6">
+        <nav className="-mb-px flex space-x-8">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.label}{counts && tab.id !== 'all' ? ` (${counts[tab.id]})` : ''}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading && returns.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : returns.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-sm font-medium text-gray-900">No returns</h3>
+            <p className="mt-1 text-sm text-gray-500">There are no returns with this status.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">RMA</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer Notes</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {returns.map((rma) => (
+                <tr key={rma.id} className="align-top">
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-mono text-gray-900">{rma.rma_number}</div>
+                    <div className="text-gray-500">Order #{rma.order_id}</div>
+                    <div className="text-gray-500">{rma.customer_email}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {rma.return_items.map((item) => (
+                      <div key={item.id}>
+                        {item.quantity} × {item.product_name || item.product_id}
+                        <span className="text-gray-400"> — {item.reason.replace(/_/g, ' ')}</span>
+                        {rma.status !== 'requested' && rma.status !== 'approved' && (
+                          <span className="text-gray-400"> ({item.quantity_received} received, {item.quantity_restocked} restocked)</span>
+                        )}
+                        {item.reason_details && <div className="text-xs text-gray-500">{item.reason_details}</div>}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600 max-w-xs">
+                    {rma.customer_comments || '—'}
+                    {rma.photo_urls.length > 0 && (
+                      <div className="flex gap-2 mt-2">
+                        {rma.photo_urls.map((url, index) => (
+                          <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt={`Photo ${index + 1}`} className="h-12 w-12 object-cover rounded" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(rma.status)}`}>
+                      {rma.status}
+                    </span>
+                    {rma.tracking_number && (
+                      <div className="text-xs text-gray-500 mt-1">{rma.carrier} {rma.tracking_number}</div>
+                    )}
+                    {rma.refund_amount !== null && (
+                      <div className="text-xs text-gray-500 mt-1">{rma.refund_amount} {rma.refund_currency}</div>
+                    )}
+                    {rma.rejection_reason && (
+                      <div className="text-xs text-red-600 mt-1">{rma.rejection_reason}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{new Date(rma.created_at).toLocaleString()}</td>
+                  <td className="px-6 py-4 text-right text-sm font-medium space-x-3 whitespace-nowrap">
+                    {rma.status === 'requested' && (
+                      <>
+                        <button
+                          onClick={() => updateReturn(rma.id, { action: 'approve' })}
+                          disabled={updating === rma.id}
+                          className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => rejectReturn(rma)}
+                          disabled={updating === rma.id}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                      </>
+                    )}
+                    {rma.status === 'approved' && (
+                      <button
+                        onClick={() => receiveReturn(rma)}
+                        disabled={updating === rma.id}
+                        className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        Receive
+                      </button>
+                    )}
+                    {rma.status === 'received' && (
+                      <button
+                        onClick={() => refundReturn(rma)}
+                        disabled={updating === rma.id}
+                        className="text-green-600 hover:text-green-800 disabled:opacity-50"
+                      >
+                        Refund
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReturnsDashboard;
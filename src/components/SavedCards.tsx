@@ -0,0 +1,218 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CardElement, Elements, useElements, useStripe } from '@stripe/react-stripe-js';
+import { getAuthHeaders } from '../lib/auth';
+import { getStripe } from '../lib/stripeClient';
+
+export interface SavedCard {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  isDefault: boolean;
+}
+
+export const formatCardLabel = (card: SavedCard) =>
+  `${card.brand.charAt(0).toUpperCase()}${card.brand.slice(1)} •••• ${card.last4}`;
+
+interface AddCardFormProps {
+  clientSecret: string;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const AddCardForm: React.FC<AddCardFormProps> = ({ clientSecret, onSaved, onCancel }) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const saveCard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const card = elements?.getElement(CardElement);
+    if (!stripe || !card) return;
+
+    setSaving(true);
+    setError(null);
+    const result = await stripe.confirmCardSetup(clientSecret, { payment_method: { card } });
+    setSaving(false);
+
+    if (result.error) {
+      setError(result.error.message || 'Your card could not be saved');
+      return;
+    }
+    onSaved();
+  };
+
+  return (
+    <form onSubmit={saveCard} className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="border border-gray-300 rounded-md px-3 py-3">
+        <CardElement options={{ hidePostalCode: false }} />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!stripe || saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save card'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const SavedCards: React.FC = () => {
+  const [cards, setCards] = useState<SavedCard[]>([]);
+  const [signedIn, setSignedIn] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [setupSecret, setSetupSecret] = useState<string | null>(null);
+  const [busyCardId, setBusyCardId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCards();
+  }, []);
+
+  const loadCards = async () => {
+    try {
+      const response = await fetch('/api/payment-methods', { headers: await getAuthHeaders() });
+      if (response.status === 401) {
+        setSignedIn(false);
+        return;
+      }
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setCards(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load saved cards');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startAddCard = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/payment-methods', { method: 'POST', headers: await getAuthHeaders() });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setSetupSecret(result.data.clientSecret);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start saving the card');
+    }
+  };
+
+  const updateCard = async (cardId: string, method: 'PATCH' | 'DELETE') => {
+    if (method === 'DELETE' && !confirm('Remove this card?')) return;
+
+    setBusyCardId(cardId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/payment-methods/${cardId}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: method === 'PATCH' ? JSON.stringify({ action: 'set_default' }) : undefined,
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+      setCards(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update card');
+    } finally {
+      setBusyCardId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-gray-500">Loading saved cards...</p>;
+  }
+
+  if (!signedIn) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 text-center">
+        <p className="text-gray-600">
+          <a href="/account/sign-in?next=/account/payment-methods" className="text-blue-600 hover:underline">Sign in</a> to save cards for faster checkout and one-click reorders.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{error}</div>
+      )}
+
+      {cards.length === 0 ? (
+        <p className="text-gray-500">You have no saved cards yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {cards.map((card) => (
+            <li key={card.id} className="flex items-center justify-between py-3">
+              <div>
+                <span className="font-medium text-gray-900">{formatCardLabel(card)}</span>
+                <span className="text-sm text-gray-500 ml-3">
+                  Expires {String(card.expMonth).padStart(2, '0')}/{card.expYear}
+                </span>
+                {card.isDefault && (
+                  <span className="ml-3 bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">Default</span>
+                )}
+              </div>
+              <div className="flex gap-3 text-sm">
+                {!card.isDefault && (
+                  <button
+                    onClick={() => updateCard(card.id, 'PATCH')}
+                    disabled={busyCardId === card.id}
+                    className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    Make default
+                  </button>
+                )}
+                <button
+                  onClick={() => updateCard(card.id, 'DELETE')}
+                  disabled={busyCardId === card.id}
+                  className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {setupSecret ? (
+        <Elements stripe={getStripe()} options={{ clientSecret: setupSecret }}>
+          <AddCardForm
+            clientSecret={setupSecret}
+            onSaved={() => {
+              setSetupSecret(null);
+              loadCards();
+            }}
+            onCancel={() => setSetupSecret(null)}
+          />
+        </Elements>
+      ) : (
+        <button
+          onClick={startAddCard}
+          className="px-4 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50"
+        >
+          Add a card
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SavedCards;
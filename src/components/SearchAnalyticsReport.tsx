@@ -0,0 +1,148 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import type { SearchReport } from '../services/searchAnalytics'
+
+interface SearchAnalyticsReportProps {
+  days: number
+}
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`
+
+/**
+ * Top searches, searches that found nothing and how often searching led to
+ * a purchase, for merchandising to spot catalogue gaps
+ */
+const SearchAnalyticsReport: React.FC<SearchAnalyticsReportProps> = ({ days }) => {
+  const [report, setReport] = useState<SearchReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchReport = async () => {
+      try {
+        const response = await fetch(`/api/analytics/search?days=${days}`)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to fetch search analytics')
+        }
+        if (!cancelled) {
+          setReport(result)
+          setError(null)
+        }
+      } catch (err: any) {
+        console.error('Search analytics fetch error:', err)
+        if (!cancelled) setError(err.message || 'Failed to load search analytics')
+      }
+    }
+
+    fetchReport()
+    return () => { cancelled = true }
+  }, [days])
+
+  return (
+    <div className="bg-white rounded-lg shadow border">
+      <div className="p-6 border-b">
+        <h2 className="text-xl font-semibold">Search</h2>
+      </div>
+
+      {error ? (
+        <p className="p-6 text-sm text-red-700">Error: {error}</p>
+      ) : !report ? (
+        <div className="p-6 animate-pulse">
+          <div className="bg-gray-200 h-24 rounded-lg"></div>
+        </div>
+      ) : (
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">Searches</h3>
+              <p className="text-2xl font-bold text-blue-600">{report.summary.searches}</p>
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">No Results</h3>
+              <p className="text-2xl font-bold text-red-600">{formatRate(report.summary.zeroResultRate)}</p>
+              <p className="text-xs text-gray-400">{report.summary.zeroResultSearches} searches</p>
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">Click-through</h3>
+              <p className="text-2xl font-bold text-purple-600">{formatRate(report.summary.clickThroughRate)}</p>
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-gray-500">Search to Purchase</h3>
+              <p className="text-2xl font-bold text-green-600">{formatRate(report.summary.conversionRate)}</p>
+              <p className="text-xs text-gray-400">{report.summary.orders} orders</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="overflow-x-auto">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Top Searches</h3>
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Query</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Searches</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Results</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">CTR</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Conversion</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {report.topQueries.map((query) => (
+                    <tr key={query.query} className="hover:bg-gray-50">
+                      <td className="px-4 py-2 text-sm font-medium text-gray-900">{query.query}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{query.searches}</td>
+                      <td className={`px-4 py-2 text-sm ${query.avgResults === 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {query.avgResults}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{formatRate(query.clickThroughRate)}</td>
+                      <td className="px-4 py-2 text-sm text-green-600">{formatRate(query.conversionRate)}</td>
+                    </tr>
+                  ))}
+                  {report.topQueries.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-4 text-sm text-gray-500 text-center">No searches yet</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="overflow-x-auto">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Searches With No Results</h3>
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Query</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Searches</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last Searched</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {report.zeroResultQueries.map((query) => (
+                    <tr key={query.query} className="hover:bg-gray-50">
+                      <td className="px-4 py-2 text-sm font-medium text-red-700">{query.query}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{query.searches}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {new Date(query.lastSearchedAt).toLocaleDateString()}
+                      </td>
+                    </tr>
+                  ))}
+                  {report.zeroResultQueries.length === 0 && (
+                    <tr>
+                      <td colSpan={3} className="px-4 py-4 text-sm text-gray-500 text-center">Every search found something</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SearchAnalyticsReport
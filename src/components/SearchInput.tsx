@@ -3,6 +3,8 @@
 import React, { useRef, useEffect, useCallback } from 'react';
 import { Search, X, Loader2 } from 'lucide-react';
 import { useSearch } from '../lib/hooks/useSearch';
+import { useFormatPrice } from '../lib/store/currencyStore';
+import type { FacetCount, HighlightSegment, SearchSort } from '../services/productSearch';
 
 interface SearchInputProps {
   placeholder?: string;
@@ -10,6 +12,33 @@ interface SearchInputProps {
   onResultSelect?: (productId: string) => void;
 }
 
+const SORT_OPTIONS: Array<{ value: SearchSort; label: string }> = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'rating', label: 'Top rated' }
+];
+
+// Matched words in bold
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) => segment.highlight ? (
+        <mark key={index} className="bg-yellow-100 text-inherit font-semibold rounded-sm">{segment.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ))}
+    </>
+  );
+}
+
+// Price facet values are "<min>-<max>", max empty for the top bucket
+const parsePriceFacet = (value: string) => {
+  const [min, max] = value.split('-');
+  return { minPrice: Number(min), maxPrice: max ? Number(max) : undefined };
+};
+
 export default function SearchInput({ 
   placeholder = "Search products...",
   className = "",
@@ -19,10 +48,19 @@ export default function SearchInput({
   const {
     query,
     results,
+    facets,
+    total,
+    filters,
+    sort,
+    suggestions,
     isLoading,
     error,
     isOpen,
     setQuery,
+    setFilters,
+    setSort,
+    applySuggestion,
+    recordClick,
     openSearch,
     closeSearch
   } = useSearch({
@@ -74,18 +112,50 @@ export default function SearchInput({
     inputRef.current?.focus();
   }, [setQuery, closeSearch]);
 
-  const handleResultClick = useCallback((productId: string) => {
+  const handleResultClick = useCallback((productId: string, position: number) => {
+    recordClick(productId, position);
     closeSearch();
     onResultSelect?.(productId);
-  }, [closeSearch, onResultSelect]);
+  }, [recordClick, closeSearch, onResultSelect]);
+
+  const formatPrice = useFormatPrice();
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(price);
+  const toggleCategory = useCallback((category: string) => {
+    const categories = filters.categories || [];
+    setFilters({
+      ...filters,
+      categories: categories.includes(category)
+        ? categories.filter((selected) => selected !== category)
+        : [...categories, category]
+    });
+  }, [filters, setFilters]);
+
+  const togglePrice = useCallback((facet: FacetCount) => {
+    const range = parsePriceFacet(facet.value);
+    const selected = filters.minPrice === range.minPrice && filters.maxPrice === range.maxPrice;
+    setFilters({
+      ...filters,
+      minPrice: selected ? undefined : range.minPrice,
+      maxPrice: selected ? undefined : range.maxPrice
+    });
+  }, [filters, setFilters]);
+
+  const isPriceSelected = (facet: FacetCount) => {
+    const range = parsePriceFacet(facet.value);
+    return filters.minPrice === range.minPrice && filters.maxPrice === range.maxPrice;
   };
 
+  const showCategory = useCallback((category: string) => {
+    setFilters({ ...filters, categories: [category] });
+  }, [filters, setFilters]);
+
+  const hasFilters = Boolean(filters.categories?.length || filters.minPrice !== undefined || filters.minRating || filters.inStock);
+
+  const chipClass = (selected: boolean) => `
+    px-2 py-0.5 rounded-full text-xs border transition-colors
+    ${selected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}
+  `;
+
   return (
     <div className={`relative ${className}`}>
       {/* Search Input */}
@@ -141,16 +211,126 @@ export default function SearchInput({
           
           {/* Results Panel */}
           <div className="absolute top-full left-0 right-0 mt-2 bg-white rounded-lg shadow-xl border border-gray-200 z-50 max-h-96 overflow-y-auto">
+            {/* Suggestions */}
+            {suggestions && (suggestions.didYouMean || suggestions.completions.length > 0
+              || suggestions.categories.length > 0 || suggestions.brands.length > 0) && (
+              <div className="px-4 py-2 border-b border-gray-100 text-sm space-y-1">
+                {suggestions.didYouMean && (
+                  <p className="text-gray-600">
+                    Did you mean{' '}
+                    <button
+                      onClick={() => applySuggestion(suggestions.didYouMean!)}
+                      className="font-semibold text-blue-600 hover:underline"
+                    >
+                      {suggestions.didYouMean}
+                    </button>
+                    ?
+                  </p>
+                )}
+                {suggestions.completions.map((completion) => (
+                  <button
+                    key={completion.query}
+                    onClick={() => applySuggestion(completion.query)}
+                    className="flex items-center w-full text-left text-gray-700 hover:text-blue-600"
+                  >
+                    <Search className="h-3 w-3 mr-2 text-gray-400 flex-shrink-0" />
+                    <span className="truncate">
+                      {completion.segments.map((segment, index) => (
+                        <span key={index} className={segment.highlight ? 'font-semibold' : undefined}>{segment.text}</span>
+                      ))}
+                    </span>
+                  </button>
+                ))}
+                {(suggestions.categories.length > 0 || suggestions.brands.length > 0) && (
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {suggestions.categories.map((category) => (
+                      <button
+                        key={`category-${category.value}`}
+                        onClick={() => showCategory(category.value)}
+                        className={chipClass(false)}
+                      >
+                        in {category.label} ({category.count})
+                      </button>
+                    ))}
+                    {suggestions.brands.map((brand) => (
+                      <button
+                        key={`brand-${brand.value}`}
+                        onClick={() => applySuggestion(brand.value)}
+                        className={chipClass(false)}
+                      >
+                        {brand.label} ({brand.count})
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Facets and sort */}
+            {facets && (results.length > 0 || hasFilters) && (
+              <div className="px-4 py-3 border-b border-gray-100 space-y-2">
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span>{total} result{total !== 1 ? 's' : ''}</span>
+                  <select
+                    value={sort}
+                    onChange={(e) => setSort(e.target.value as SearchSort)}
+                    className="border border-gray-300 rounded px-1 py-0.5 text-xs text-gray-700"
+                    aria-label="Sort results"
+                  >
+                    {SORT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {facets.category.map((facet) => (
+                    <button
+                      key={facet.value}
+                      onClick={() => toggleCategory(facet.value)}
+                      className={chipClass(!!filters.categories?.includes(facet.value))}
+                    >
+                      {facet.label} ({facet.count})
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {facets.price.map((facet) => (
+                    <button
+                      key={facet.value}
+                      onClick={() => togglePrice(facet)}
+                      className={chipClass(isPriceSelected(facet))}
+                    >
+                      {facet.label} ({facet.count})
+                    </button>
+                  ))}
+                  {facets.rating[0] && (
+                    <button
+                      onClick={() => setFilters({ ...filters, minRating: filters.minRating ? undefined : Number(facets.rating[0].value) })}
+                      className={chipClass(!!filters.minRating)}
+                    >
+                      {facets.rating[0].label} ({facets.rating[0].count})
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setFilters({ ...filters, inStock: !filters.inStock || undefined })}
+                    className={chipClass(!!filters.inStock)}
+                  >
+                    In stock ({facets.inStock})
+                  </button>
+                </div>
+              </div>
+            )}
+
             {error ? (
               <div className="p-4 text-center text-red-600">
                 <p>{error}</p>
               </div>
             ) : results.length > 0 ? (
               <div className="py-2">
-                {results.map((product) => (
+                {results.map(({ product, highlights, inStock }, index) => (
                   <button
                     key={product.id}
-                    onClick={() => handleResultClick(product.id)}
+                    onClick={() => handleResultClick(product.id, index + 1)}
                     className="
                       w-full px-4 py-3 text-left hover:bg-gray-50 
                       focus:bg-gray-50 focus:outline-none
@@ -171,10 +351,13 @@ export default function SearchInput({
                       {/* Product Details */}
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium text-gray-900 truncate">
-                          {product.name}
+                          <Highlighted segments={highlights.name} />
+                        </p>
+                        <p className="text-xs text-gray-500 line-clamp-2">
+                          <Highlighted segments={highlights.description} />
                         </p>
-                        <p className="text-sm text-gray-500 truncate">
-                          {product.category}
+                        <p className="text-xs text-gray-400">
+                          {product.category}{!inStock && ' · Out of stock'}
                         </p>
                       </div>
                       
@@ -192,7 +375,7 @@ export default function SearchInput({
               <div className="p-4 text-center text-gray-500">
                 <Search className="mx-auto h-8 w-8 text-gray-300 mb-2" />
                 <p>No products found for "{query}"</p>
-                <p className="text-sm mt-1">Try different keywords</p>
+                <p className="text-sm mt-1">{hasFilters ? 'Try removing some filters' : 'Try different keywords'}</p>
               </div>
             ) : null}
           </div>
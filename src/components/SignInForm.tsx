@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { signIn, signUp } from '../lib/auth';
+
+const SignInForm: React.FC = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [mode, setMode] = useState<'sign_in' | 'sign_up'>('sign_in');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Only same-site paths, so the link can't send people elsewhere
+  const next = searchParams.get('next');
+  const redirectTo = next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setMessage(null);
+
+    if (mode === 'sign_in') {
+      const result = await signIn(email.trim(), password);
+      setSubmitting(false);
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      router.push(redirectTo);
+      router.refresh();
+      return;
+    }
+
+    const result = await signUp(email.trim(), password, name.trim() || undefined);
+    setSubmitting(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    if (result.needsConfirmation) {
+      setMessage('Check your email for a link to confirm your account, then sign in.');
+      setMode('sign_in');
+      return;
+    }
+    router.push(redirectTo);
+    router.refresh();
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-8">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">
+        {mode === 'sign_in' ? 'Sign in' : 'Create an account'}
+      </h1>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {mode === 'sign_up' && (
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              id="name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoComplete="name"
+              className="w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <input
+            id="email"
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            className="w-full border border-gray-300 rounded-md px-3 py-2"
+          />
+        </div>
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+          <input
+            id="password"
+            type="password"
+            required
+            minLength={8}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'sign_in' ? 'current-password' : 'new-password'}
+            className="w-full border border-gray-300 rounded-md px-3 py-2"
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-700">{message}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {submitting ? 'Please wait...' : mode === 'sign_in' ? 'Sign in' : 'Create account'}
+        </button>
+      </form>
+
+      <p className="mt-6 text-sm text-gray-600 text-center">
+        {mode === 'sign_in' ? "Don't have an account? " : 'Already have an account? '}
+        <button
+          onClick={() => {
+            setMode(mode === 'sign_in' ? 'sign_up' : 'sign_in');
+            setError(null);
+          }}
+          className="text-blue-600 hover:underline"
+        >
+          {mode === 'sign_in' ? 'Create one' : 'Sign in'}
+        </button>
+      </p>
+    </div>
+  );
+};
+
+export default SignInForm;
@@ -0,0 +1,194 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+
+type EventStatus = 'processing' | 'processed' | 'failed' | 'ignored';
+
+interface StripeEvent {
+  id: string;
+  event_type: string;
+  status: EventStatus;
+  attempts: number;
+  last_error: string | null;
+  livemode: boolean;
+  received_at: string;
+  processed_at: string | null;
+}
+
+const STATUS_TABS: Array<{ id: EventStatus | 'all'; label: string }> = [
+  { id: 'failed', label: 'Failed' },
+  { id: 'processing', label: 'Processing' },
+  { id: 'processed', label: 'Processed' },
+  { id: 'ignored', label: 'Ignored' },
+  { id: 'all', label: 'All' },
+];
+
+const StripeEventsDashboard: React.FC = () => {
+  const [events, setEvents] = useState<StripeEvent[]>([]);
+  const [counts, setCounts] = useState<Record<EventStatus, number> | null>(null);
+  const [activeTab, setActiveTab] = useState<EventStatus | 'all'>('failed');
+  const [loading, setLoading] = useState(true);
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEvents();
+  }, [activeTab]);
+
+  const loadEvents = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (activeTab !== 'all') params.append('status', activeTab);
+
+      const response = await fetch(`/api/admin/stripe-events?${params}`);
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      setEvents(result.data.events);
+      setCounts(result.data.counts);
+    } catch (err) {
+      console.error('Error loading Stripe events:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load Stripe events');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replayEvent = async (eventId: string) => {
+    try {
+      setReplaying(eventId);
+      const response = await fetch(`/api/admin/stripe-events/${eventId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'replay' }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      await loadEvents();
+    } catch (err) {
+      console.error('Error replaying event:', err);
+      setError(err instanceof Error ? err.message : 'Failed to replay event');
+      await loadEvents();
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const getStatusColor = (status: EventStatus) => {
+    switch (status) {
+      case 'failed': return 'bg-red-100 text-red-800';
+      case 'processing': return 'bg-blue-100 text-blue-800';
+      case 'processed': return 'bg-green-100 text-green-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Stripe Events</h1>
+          <p className="text-gray-600 mt-2">Webhook deliveries from Stripe; replay events whose handler failed</p>
+        </div>
+
+        <button
+          onClick={loadEvents}
+          disabled={loading}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200 mb-6">
+        <nav className="-mb-px flex space-x-8">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.label}{counts && tab.id !== 'all' ? ` (${counts[tab.id]})` : ''}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading && events.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-sm font-medium text-gray-900">No events</h3>
+            <p className="mt-1 text-sm text-gray-500">There are no Stripe events with this status.</p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Error</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {events.map((event) => (
+                <tr key={event.id}>
+                  <td className="px-6 py-4 text-sm font-mono text-gray-900">
+                    {event.id}
+                    {!event.livemode && <span className="ml-2 text-xs text-orange-600">test</span>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{event.event_type}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(event.status)}`}>
+                      {event.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{event.attempts}</td>
+                  <td className="px-6 py-4 text-sm text-red-600 max-w-xs truncate" title={event.last_error || ''}>
+                    {event.last_error || '—'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{new Date(event.received_at).toLocaleString()}</td>
+                  <td className="px-6 py-4 text-right">
+                    {(event.status === 'failed' || event.status === 'ignored') && (
+                      <button
+                        onClick={() => replayEvent(event.id)}
+                        disabled={replaying === event.id}
+                        className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                      >
+                        {replaying === event.id ? 'Replaying...' : 'Replay'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StripeEventsDashboard;
@@ -0,0 +1,106 @@
+'use client';
+
+import React, { useState } from 'react';
+import { BillingInterval, SubscriptionPlan } from '../types';
+import { useFormatPrice, useSelectedCurrency } from '../lib/store/currencyStore';
+
+/**
+ * "month" → "monthly", 3 × "month" → "every 3 months"
+ */
+export function formatBillingInterval(interval: BillingInterval, intervalCount: number = 1): string {
+  if (intervalCount === 1) {
+    return interval === 'day' ? 'daily' : `${interval}ly`;
+  }
+  return `every ${intervalCount} ${interval}s`;
+}
+
+interface SubscribeOptionsProps {
+  plans: SubscriptionPlan[];
+}
+
+/**
+ * Subscription plans for a product; subscribing goes straight to Stripe Checkout
+ */
+export default function SubscribeOptions({ plans }: SubscribeOptionsProps) {
+  const formatPrice = useFormatPrice();
+  const currency = useSelectedCurrency();
+  const [selectedPlanId, setSelectedPlanId] = useState(plans[0]?.id);
+  const [email, setEmail] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (plans.length === 0) return null;
+
+  const subscribe = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+
+      const response = await fetch('/api/subscriptions/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ planId: selectedPlanId, customerEmail: email || undefined, currency }),
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.error);
+
+      window.location.href = result.data.url;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start checkout');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={subscribe} className="border-t pt-6 space-y-3">
+      <h3 className="text-lg font-semibold text-gray-900">Or subscribe</h3>
+
+      {plans.map((plan) => (
+        <label
+          key={plan.id}
+          className={`flex items-center justify-between border rounded-lg p-3 cursor-pointer ${
+            selectedPlanId === plan.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+          }`}
+        >
+          <span className="flex items-center gap-3">
+            <input
+              type="radio"
+              name="subscription-plan"
+              checked={selectedPlanId === plan.id}
+              onChange={() => setSelectedPlanId(plan.id)}
+            />
+            <span>
+              <span className="font-medium text-gray-900">{plan.name}</span>
+              <span className="block text-sm text-gray-500">
+                Billed {formatBillingInterval(plan.interval, plan.intervalCount)}
+                {plan.trialDays > 0 && ` after a ${plan.trialDays}-day free trial`}
+              </span>
+            </span>
+          </span>
+          <span className="font-semibold text-gray-900">{formatPrice(plan.price)}</span>
+        </label>
+      ))}
+
+      <input
+        type="email"
+        placeholder="Email for your subscription"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={submitting || !selectedPlanId}
+        className="w-full bg-gray-900 text-white px-8 py-3 rounded-lg font-semibold hover:bg-gray-800 transition-colors disabled:opacity-50"
+      >
+        {submitting ? 'Redirecting...' : 'Subscribe'}
+      </button>
+      <p className="text-xs text-gray-500">Pause, skip or cancel any time from the link we email you.</p>
+    </form>
+  );
+}
@@ -0,0 +1,88 @@
+import React from 'react';
+import type { ShipmentTracking } from '../services/tracking';
+import type { ShipmentStatus } from '../services/shipments';
+
+interface TrackingTimelineProps {
+  shipment: ShipmentTracking;
+}
+
+const STATUS_STYLES: Record<ShipmentStatus, { dot: string; badge: string; label: string }> = {
+  pending: { dot: 'bg-gray-300', badge: 'bg-yellow-100 text-yellow-800', label: 'Awaiting shipment' },
+  label_created: { dot: 'bg-gray-400', badge: 'bg-gray-100 text-gray-800', label: 'Label created' },
+  in_transit: { dot: 'bg-blue-500', badge: 'bg-blue-100 text-blue-800', label: 'In transit' },
+  out_for_delivery: { dot: 'bg-indigo-500', badge: 'bg-indigo-100 text-indigo-800', label: 'Out for delivery' },
+  delivered: { dot: 'bg-green-500', badge: 'bg-green-100 text-green-800', label: 'Delivered' },
+  exception: { dot: 'bg-red-500', badge: 'bg-red-100 text-red-800', label: 'Delivery exception' },
+};
+
+/**
+ * Tracking history for one shipment, newest event first
+ */
+export default function TrackingTimeline({ shipment }: TrackingTimelineProps) {
+  const events = [...shipment.events].reverse();
+  const digital = shipment.fulfillmentType === 'digital';
+  const status = digital && shipment.status === 'delivered'
+    ? { ...STATUS_STYLES.delivered, label: 'Available' }
+    : STATUS_STYLES[shipment.status];
+  const title = digital
+    ? 'Digital delivery'
+    : shipment.carrier
+      ? `${shipment.carrier}${shipment.service ? ` ${shipment.service}` : ''}`
+      : 'Shipment';
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">{title}</h3>
+          {shipment.trackingNumber && (
+            <p className="text-sm text-gray-500">Tracking number: {shipment.trackingNumber}</p>
+          )}
+          {shipment.status !== 'delivered' && shipment.estimatedDelivery && (
+            <p className="text-sm text-gray-500">
+              Estimated delivery: {new Date(shipment.estimatedDelivery).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+        <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${status.badge}`}>
+          {status.label}
+        </span>
+      </div>
+
+      {shipment.items.length > 0 && (
+        <ul className="mb-6 text-sm text-gray-700 space-y-1">
+          {shipment.items.map((item) => (
+            <li key={item.productId}>
+              {item.quantity} × {item.name}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {events.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {shipment.status === 'pending' ? 'Tracking details will appear once this shipment leaves the warehouse.' : 'No tracking updates yet.'}
+        </p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2">
+          {events.map((event, index) => (
+            <li key={`${event.status}-${event.occurredAt}`} className="mb-6 ml-6 last:mb-0">
+              <span
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ring-4 ring-white ${
+                  index === 0 ? STATUS_STYLES[event.status].dot : 'bg-gray-300'
+                }`}
+              />
+              <p className={`text-sm font-medium ${index === 0 ? 'text-gray-900' : 'text-gray-600'}`}>
+                {event.description}
+              </p>
+              <p className="text-xs text-gray-500">
+                {new Date(event.occurredAt).toLocaleString()}
+                {event.location ? ` · ${event.location}` : ''}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
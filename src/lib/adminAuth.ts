@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUser } from './customerAuth'
+import { Permission, StaffRole, getRolePermissions, getUserRoles, hasPermission } from '../services/roles'
+import { recordAuditEvent } from '../services/auditLog'
+
+export interface StaffUser {
+  userId: string
+  email: string
+  roles: StaffRole[]
+  permissions: Permission[]
+}
+
+export interface PermissionOptions {
+  // Resource type for the audit log; successful non-GET requests are recorded when set
+  audit?: string
+}
+
+/**
+ * The signed-in user with their staff roles, or null when nobody is signed in
+ */
+export async function getStaffUser(request: Request): Promise<StaffUser | null> {
+  const user = await getSessionUser(request)
+  if (!user) {
+    return null
+  }
+
+  const roles = await getUserRoles(user.userId)
+  return { userId: user.userId, email: user.email, roles, permissions: getRolePermissions(roles) }
+}
+
+/**
+ * Checks the request's user has `permission`. Returns the staff user, or the
+ * 401/403 response to send back.
+ */
+export async function authorizeStaff(
+  request: Request,
+  permission: Permission
+): Promise<{ staff: StaffUser; response?: undefined } | { staff?: undefined; response: NextResponse }> {
+  const staff = await getStaffUser(request)
+  if (!staff) {
+    return {
+      response: NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 })
+    }
+  }
+
+  if (!hasPermission(staff.roles, permission)) {
+    return {
+      response: NextResponse.json({ success: false, error: 'You do not have permission to do this' }, { status: 403 })
+    }
+  }
+
+  return { staff }
+}
+
+export function getRequestIP(request: Request): string | null {
+  const forwarded = request.headers.get('x-forwarded-for')
+  return forwarded ? forwarded.split(',')[0].trim() : request.headers.get('x-real-ip')
+}
+
+/**
+ * Audit entry for a privileged action taken by `staff`
+ */
+export async function auditStaffAction(
+  request: Request,
+  staff: StaffUser,
+  action: string,
+  resourceType: string,
+  resourceId?: string | null,
+  metadata: Record<string, any> = {}
+): Promise<void> {
+  await recordAuditEvent({
+    actorId: staff.userId,
+    actorEmail: staff.email,
+    action,
+    resourceType,
+    resourceId,
+    metadata: { method: request.method, path: new URL(request.url).pathname, ...metadata },
+    ipAddress: getRequestIP(request)
+  })
+}
+
+/**
+ * Route wrapper for staff-only API routes:
+ *
+ *   export const PATCH = withPermission('orders:write', { audit: 'order' })(updateOrder)
+ *
+ * Replies 401 without a session and 403 without the permission. With
+ * `audit`, successful non-GET requests are recorded as `<audit>.<action>`
+ * (the body's or query's `action`, or the HTTP method). The handler gets
+ * the staff user as its third argument.
+ */
+export function withPermission(permission: Permission, options: PermissionOptions = {}) {
+  return function <C>(handler: (request: NextRequest, context: C, staff: StaffUser) => Promise<Response>) {
+    return async function authorizedHandler(request: NextRequest, context: C): Promise<Response> {
+      const { staff, response } = await authorizeStaff(request, permission)
+      if (!staff) {
+        return response
+      }
+
+      const audited = options.audit && request.method !== 'GET'
+      const body = audited ? await request.clone().json().catch(() => null) : null
+
+      const result = await handler(request, context, staff)
+
+      if (audited && result.status < 400) {
+        const params = (context as { params?: Record<string, string> } | undefined)?.params
+        const action = (typeof body?.action === 'string' && body.action)
+          || request.nextUrl.searchParams.get('action')
+          || request.method.toLowerCase()
+        await auditStaffAction(request, staff, `${options.audit}.${action}`, options.audit as string, params?.id || null, {
+          status: result.status,
+          ...(params && { params })
+        })
+      }
+
+      return result
+    }
+  }
+}
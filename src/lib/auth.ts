@@ -1,70 +1,110 @@
-// Simple demo authentication system
-// In a real app, you would use Supabase Auth or another auth provider
-
-// Mock user for demo purposes
-export const mockUser = {
-  id: 'demo-user-12345',
-  email: 'demo@auroracommerce.com',
-  name: 'Demo User',
-  avatar_url: null
-};
-
-// Demo authentication functions
-export async function signInDemo() {
-  // In a real app, this would handle actual authentication
-  if (typeof window !== 'undefined') {
-    localStorage.setItem('demo_auth', JSON.stringify(mockUser));
-    window.dispatchEvent(new CustomEvent('authChange', { detail: mockUser }));
-  }
-  return { user: mockUser, error: null };
+// Customer sign-in with Supabase Auth. The browser client keeps the session
+// in cookies, so API routes find the user with getSessionUser (./customerAuth).
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
 }
 
-export async function signOutDemo() {
-  if (typeof window !== 'undefined') {
-    localStorage.removeItem('demo_auth');
-    window.dispatchEvent(new CustomEvent('authChange', { detail: null }));
-  }
-  return { error: null };
+function isAuthConfigured(): boolean {
+  return !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 }
 
-export function getCurrentUser() {
-  if (typeof window === 'undefined') return null;
-  
-  try {
-    const stored = localStorage.getItem('demo_auth');
-    return stored ? JSON.parse(stored) : null;
-  } catch {
-    return null;
-  }
+async function getAuthClient() {
+  const { supabase } = await import('./supabase/client');
+  return supabase.auth;
+}
+
+function toAuthUser(user: { id: string; email?: string; user_metadata?: Record<string, any> } | null): AuthUser | null {
+  if (!user) return null;
+  return {
+    id: user.id,
+    email: user.email || '',
+    name: user.user_metadata?.full_name || user.user_metadata?.name || null
+  };
 }
 
-// In a real app, you would use Supabase auth:
-/*
-import { createBrowserClient } from '@supabase/ssr';
+export async function signIn(email: string, password: string): Promise<{ user: AuthUser | null; error: string | null }> {
+  if (!isAuthConfigured()) {
+    return { user: null, error: 'Sign-in is not available' };
+  }
+
+  const auth = await getAuthClient();
+  const { data, error } = await auth.signInWithPassword({ email, password });
+  return { user: toAuthUser(data.user), error: error?.message || null };
+}
 
-export const supabaseAuth = createBrowserClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
-);
+/**
+ * Creates an account. When email confirmation is on, `user` is returned but
+ * there is no session until the link in the confirmation email is followed.
+ */
+export async function signUp(
+  email: string,
+  password: string,
+  name?: string
+): Promise<{ user: AuthUser | null; needsConfirmation: boolean; error: string | null }> {
+  if (!isAuthConfigured()) {
+    return { user: null, needsConfirmation: false, error: 'Sign-up is not available' };
+  }
 
-export async function signIn(email: string, password: string) {
-  const { data, error } = await supabaseAuth.auth.signInWithPassword({
+  const auth = await getAuthClient();
+  const { data, error } = await auth.signUp({
     email,
     password,
+    options: { data: name ? { full_name: name } : undefined }
   });
-  return { user: data.user, error };
+  return { user: toAuthUser(data.user), needsConfirmation: !!data.user && !data.session, error: error?.message || null };
 }
 
-export async function signUp(email: string, password: string) {
-  const { data, error } = await supabaseAuth.auth.signUp({
-    email,
-    password,
+export async function signOut(): Promise<{ error: string | null }> {
+  if (!isAuthConfigured()) {
+    return { error: null };
+  }
+
+  const auth = await getAuthClient();
+  const { error } = await auth.signOut();
+  return { error: error?.message || null };
+}
+
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  if (!isAuthConfigured()) return null;
+
+  const auth = await getAuthClient();
+  const { data } = await auth.getUser();
+  return toAuthUser(data.user);
+}
+
+/**
+ * Calls back with the user on every sign-in and sign-out; returns the unsubscribe function
+ */
+export function onAuthChange(callback: (user: AuthUser | null) => void): () => void {
+  if (!isAuthConfigured()) return () => {};
+
+  let unsubscribe: (() => void) | undefined;
+  let cancelled = false;
+  getAuthClient().then(auth => {
+    if (cancelled) return;
+    const { data } = auth.onAuthStateChange((_event, session) => callback(toAuthUser(session?.user || null)));
+    unsubscribe = () => data.subscription.unsubscribe();
   });
-  return { user: data.user, error };
+
+  return () => {
+    cancelled = true;
+    unsubscribe?.();
+  };
 }
 
-export async function signOut() {
-  const { error } = await supabaseAuth.auth.signOut();
-  return { error };
+// Headers for API routes that act on the signed-in customer's account
+// (saved cards, buy again). The session cookie already identifies the user;
+// the Bearer token also covers requests that don't carry cookies.
+// Empty when there is no Supabase session.
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  if (!isAuthConfigured()) {
+    return {};
+  }
+
+  const { supabase } = await import('./supabase/client');
+  const { data } = await supabase.auth.getSession();
+  return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {};
 }
-*/
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CustomerIdentity, getSessionUser } from './customerAuth'
+import type { CartOwner } from '../services/cart'
+
+export const CART_SESSION_COOKIE = 'aurora_cart_session'
+
+// Mobile guests can't keep cookies between launches, so they send their id in a header
+export const CART_SESSION_HEADER = 'x-cart-session'
+
+const CART_SESSION_MAX_AGE = 60 * 60 * 24 * 30
+
+export interface CartSession {
+  owner: CartOwner
+  customer: CustomerIdentity | null
+  // Guest session id from the request, if any
+  sessionId: string | null
+  // Set when a guest session was started by this request and needs a cookie
+  newSessionId: string | null
+}
+
+/**
+ * The guest session id from the cookie or header, without starting one
+ */
+export function getCartSessionId(request: NextRequest): string | null {
+  return request.cookies.get(CART_SESSION_COOKIE)?.value
+    || request.headers.get(CART_SESSION_HEADER)
+    || null
+}
+
+/**
+ * Works out whose cart a request is for: the signed-in customer, otherwise
+ * the guest session from the cookie or header, otherwise a new guest session
+ */
+export async function getCartSession(request: NextRequest): Promise<CartSession> {
+  const customer = await getSessionUser(request)
+  const sessionId = getCartSessionId(request)
+
+  if (customer) {
+    return { owner: { userId: customer.userId }, customer, sessionId, newSessionId: null }
+  }
+
+  if (sessionId) {
+    return { owner: { sessionId }, customer: null, sessionId, newSessionId: null }
+  }
+
+  const newSessionId = crypto.randomUUID()
+  return { owner: { sessionId: newSessionId }, customer: null, sessionId: null, newSessionId }
+}
+
+/**
+ * Adds the guest session cookie (and header, for mobile) to a response when
+ * the request started a new guest session
+ */
+export function withCartSession<T>(response: NextResponse<T>, session: CartSession): NextResponse<T> {
+  if (session.newSessionId) {
+    response.cookies.set(CART_SESSION_COOKIE, session.newSessionId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: CART_SESSION_MAX_AGE
+    })
+    response.headers.set(CART_SESSION_HEADER, session.newSessionId)
+  }
+  return response
+}
+
+/**
+ * Drops the guest session once its cart has been merged into the user's
+ */
+export function clearCartSession<T>(response: NextResponse<T>): NextResponse<T> {
+  response.cookies.delete(CART_SESSION_COOKIE)
+  return response
+}
+
+const CART_ERROR_STATUS: Record<string, number> = {
+  'Product not found': 404,
+  'Variant not found': 404,
+  'Choose an option before adding this product': 400,
+  'Item is not in the cart': 404,
+  'Quantity must be a positive whole number': 400,
+  'Quantity must be zero or a positive whole number': 400,
+  'Cart was changed by another request, please try again': 409,
+  'Supabase configuration missing': 503
+}
+
+/**
+ * Error response for a failed cart operation, with the status the error maps to
+ */
+export function cartErrorResponse(error: unknown, fallback: string): NextResponse {
+  const message = error instanceof Error ? error.message : ''
+  const status = CART_ERROR_STATUS[message]
+  if (!status) {
+    console.error(`${fallback}:`, error)
+  }
+  return NextResponse.json(
+    { success: false, error: status ? message : fallback },
+    { status: status || 500 }
+  )
+}
@@ -0,0 +1,66 @@
+import { createClient, User } from '@supabase/supabase-js'
+import { createServerClient, parseCookieHeader } from '@supabase/ssr'
+
+export interface CustomerIdentity {
+  userId: string
+  email: string
+  emailConfirmed: boolean
+  name?: string
+}
+
+function toCustomerIdentity(user: User | null): CustomerIdentity | null {
+  if (!user?.email) {
+    return null
+  }
+
+  return {
+    userId: user.id,
+    email: user.email,
+    emailConfirmed: !!user.email_confirmed_at,
+    name: user.user_metadata?.full_name || user.user_metadata?.name
+  }
+}
+
+/**
+ * The signed-in user making an API request, or null for guests.
+ * The web app's session lives in Supabase Auth cookies (kept fresh by
+ * src/middleware.ts); the mobile app and other API clients send their access
+ * token as `Authorization: Bearer <token>`. Either way the token is verified
+ * with Supabase Auth, never just decoded. Server components pass
+ * `{ headers: headers() }`.
+ */
+export async function getSessionUser(request: { headers: Pick<Headers, 'get'> }): Promise<CustomerIdentity | null> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return null
+  }
+
+  const header = request.headers.get('authorization') || ''
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : ''
+
+  if (token) {
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: false }
+    })
+    const { data, error } = await supabase.auth.getUser(token)
+    return error ? null : toCustomerIdentity(data.user)
+  }
+
+  const cookies = parseCookieHeader(request.headers.get('cookie') || '')
+  if (cookies.length === 0) {
+    return null
+  }
+
+  // Route handlers can't refresh the request's cookies; the middleware does
+  const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return cookies
+      },
+      setAll() {}
+    }
+  })
+  const { data, error } = await supabase.auth.getUser()
+  return error ? null : toCustomerIdentity(data.user)
+}
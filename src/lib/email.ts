@@ -1,4 +1,6 @@
 import nodemailer from 'nodemailer'
+import { TaxLine, formatTaxRate } from '../services/tax'
+import { BASE_CURRENCY, formatMoney, roundForCurrency } from '../services/currency'
 
 // Email service configuration
 const createTransporter = () => {
@@ -98,25 +100,115 @@ export const sendTemplateEmail = async (
           <div style="background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0;">
             <h2>Order Details</h2>
             <p><strong>Order ID:</strong> \${variables.order_id}</p>
-            <p><strong>Total:</strong> $\${variables.order_total}</p>
+            {{tax_lines_html}}
+            <p><strong>Total:</strong> {{order_total_formatted}}</p>
             <p><strong>Email:</strong> \${variables.customer_email}</p>
           </div>
           <p>Thank you for shopping with us!</p>
         `
       },
+      order_shipped: {
+        subject: 'Your order #{{order_id}} is on its way',
+        html: `
+          <h1>Your order has shipped</h1>
+          <p>Hi {{customer_name}},</p>
+          <p>Good news: order #{{order_id}} has left our warehouse.</p>
+          <p><strong>Tracking number:</strong> {{tracking_number}}</p>
+        `
+      },
+      order_cancelled: {
+        subject: 'Order #{{order_id}} has been cancelled',
+        html: `
+          <h1>Your order was cancelled</h1>
+          <p>Hi {{customer_name}},</p>
+          <p style="background: #f3f4f6; padding: 15px; border-radius: 8px;">{{cancellation_reason}}</p>
+          <p>If you were charged, the payment will be refunded to your original payment method.</p>
+        `
+      },
       abandoned_cart_reminder: {
         subject: 'Don\'t forget your items! Complete your order',
         html: `
           <h1>Don't miss out!</h1>
           <p>You left some great items in your cart. Complete your purchase before they're gone!</p>
           <div style="background: #fef2f2; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <h2>Your Cart ($\${variables.cart_total})</h2>
+            <h2>Your Cart ({{cart_total_formatted}})</h2>
             \${variables.cart_items_html || 'Your cart items'}
           </div>
           <a href="\${variables.checkout_url || '#'}" style="background: #2563eb; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px;">
             Complete Your Order
           </a>
         `
+      },
+      return_requested: {
+        subject: 'Return {{rma_number}} received - Order #{{order_id}}',
+        html: `
+          <h1>We've got your return request</h1>
+          <p>Hi {{customer_name}},</p>
+          <p>Your return <strong>{{rma_number}}</strong> for order #{{order_id}} is being reviewed. We'll email you a prepaid return label once it's approved.</p>
+          <ul>{{return_items_html}}</ul>
+        `
+      },
+      return_approved: {
+        subject: 'Return {{rma_number}} approved - your return label',
+        html: `
+          <h1>Your return is approved</h1>
+          <p>Hi {{customer_name}},</p>
+          <p>Please pack these items and attach the prepaid {{carrier}} label (tracking {{tracking_number}}):</p>
+          <ul>{{return_items_html}}</ul>
+          <a href="{{label_link}}" style="background: #2563eb; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px;">
+            Download Return Label
+          </a>
+          <p>We'll refund you as soon as your parcel arrives.</p>
+        `
+      },
+      return_rejected: {
+        subject: 'Update on return {{rma_number}}',
+        html: `
+          <h1>We couldn't approve your return</h1>
+          <p>Your return {{rma_number}} for order #{{order_id}} was not approved:</p>
+          <p style="background: #f3f4f6; padding: 15px; border-radius: 8px;">{{rejection_reason}}</p>
+          <p>Reply to this email or contact support if you have any questions.</p>
+        `
+      },
+      return_refunded: {
+        subject: 'Refund issued for return {{rma_number}}',
+        html: `
+          <h1>Your refund is on its way</h1>
+          <p>Hi {{customer_name}},</p>
+          <p>We received your return {{rma_number}} and refunded <strong>{{refund_amount_formatted}}</strong> to your original payment method. It can take 5-10 business days to appear on your statement.</p>
+          <ul>{{return_items_html}}</ul>
+        `
+      },
+      subscription_manage_link: {
+        subject: 'Manage your Aurora Commerce subscriptions',
+        html: `
+          <h1>Your subscriptions</h1>
+          <p>Use the link below to pause, skip a delivery, change plan, update your card or cancel.</p>
+          <a href="{{manage_url}}" style="background: #2563eb; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px;">
+            Manage Subscriptions
+          </a>
+          <p>The link works for {{link_ttl_days}} days. You can request a new one on the subscriptions page at any time.</p>
+        `
+      },
+      digital_downloads_ready: {
+        subject: 'Your downloads for order #{{order_id}} are ready',
+        html: `
+          <h1>Your downloads are ready</h1>
+          <p>Hi {{customer_name}},</p>
+          <p>Thanks for your order #{{order_id}}. Download your files here:</p>
+          <ul>{{download_links_html}}</ul>
+          {{license_keys_html}}
+          <p>These links work for {{link_ttl_hours}} hours and are for your use only. After that, signed-in customers can download again from <a href="{{downloads_url}}">your downloads</a>, or reply to this email for new links.</p>
+        `
+      },
+      license_key_reissued: {
+        subject: 'Your new license key for {{product_name}}',
+        html: `
+          <h1>Here is your new license key</h1>
+          <p>We've issued a new license key for {{product_name}} (order #{{order_id}}). Your previous key no longer works.</p>
+          <p style="background: #f3f4f6; padding: 15px; border-radius: 8px; font-family: monospace; word-break: break-all;">{{license_key}}</p>
+          <p>Enter it in the app to activate it on up to {{seats}} device(s).</p>
+        `
       }
     }
 
@@ -125,6 +217,14 @@ export const sendTemplateEmail = async (
       throw new Error(`Template ${templateName} not found`)
     }
 
+    // Totals are shown in the order's currency (variables.currency, default BASE_CURRENCY)
+    const currency = variables.currency || BASE_CURRENCY
+    variables = {
+      order_total_formatted: formatMoney(Number(variables.order_total) || 0, currency),
+      cart_total_formatted: formatMoney(Number(variables.cart_total) || 0, currency),
+      ...variables,
+    }
+
     // Replace template variables
     let subject = template.subject
     let html = template.html
@@ -146,21 +246,47 @@ export const sendTemplateEmail = async (
   }
 }
 
-// Helper to format order items for email templates
-export const formatOrderItemsForEmail = (items: any[]): { html: string; text: string } => {
+// Helper to format order items for email templates.
+// Item prices are in the base currency and converted with `exchangeRate`.
+export const formatOrderItemsForEmail = (
+  items: any[],
+  currency: string = BASE_CURRENCY,
+  exchangeRate: number = 1
+): { html: string; text: string } => {
+  const lineTotal = (item: any) =>
+    formatMoney(roundForCurrency(item.price * item.quantity * exchangeRate, currency), currency)
+
   const html = items
     .map(item => `
       <div style="border-bottom: 1px solid #e5e7eb; padding: 10px 0;">
         <strong>${item.name}</strong><br>
         Quantity: ${item.quantity}<br>
-        Price: $${(item.price * item.quantity).toFixed(2)}
+        Price: ${lineTotal(item)}
       </div>
     `)
     .join('')
 
   const text = items
-    .map(item => `- ${item.name} (Qty: ${item.quantity}) - $${(item.price * item.quantity).toFixed(2)}`)
+    .map(item => `- ${item.name} (Qty: ${item.quantity}) - ${lineTotal(item)}`)
+    .join('\n')
+
+  return { html, text }
+}
+
+// Helper to format itemised tax lines for email templates
+export const formatTaxLinesForEmail = (
+  lines: TaxLine[],
+  currency: string = BASE_CURRENCY
+): { html: string; text: string } => {
+  const html = lines
+    .map(line => `
+      <p style="margin: 4px 0;">${line.name} (${formatTaxRate(line.rate)}): ${formatMoney(line.amount, currency)}</p>
+    `)
+    .join('')
+
+  const text = lines
+    .map(line => `${line.name} (${formatTaxRate(line.rate)}): ${formatMoney(line.amount, currency)}`)
     .join('\n')
 
   return { html, text }
-}
\ No newline at end of file
+}
@@ -1,5 +1,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Product } from '@/types';
+import type {
+  SearchFacets,
+  SearchFilters,
+  SearchHit,
+  SearchResponse,
+  SearchSort,
+  SearchSuggestions
+} from '@/services/productSearch';
 
 interface UseSearchOptions {
   delay?: number;
@@ -16,17 +23,32 @@ export function useSearch(options: UseSearchOptions = {}) {
 
   // Use separate state variables instead of a single object
   const [query, setQueryState] = useState('');
-  const [results, setResults] = useState<Product[]>([]);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [total, setTotal] = useState(0);
+  const [filters, setFiltersState] = useState<SearchFilters>({});
+  const [sort, setSortState] = useState<SearchSort>('relevance');
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
+  // Id of the logged search the results came from, sent with clicks
+  const [searchId, setSearchId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isOpen, setIsOpen] = useState(false);
 
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const suggestAbortRef = useRef<AbortController | null>(null);
 
-  const performSearch = useCallback(async (searchQuery: string) => {
+  const performSearch = useCallback(async (
+    searchQuery: string,
+    searchFilters: SearchFilters = {},
+    searchSort: SearchSort = 'relevance'
+  ) => {
     if (searchQuery.length < minLength) {
       setResults([]);
+      setFacets(null);
+      setTotal(0);
+      setSearchId(null);
       setIsLoading(false);
       setError(null);
       return;
@@ -43,9 +65,16 @@ export function useSearch(options: UseSearchOptions = {}) {
     setIsLoading(true);
     setError(null);
 
+    const params = new URLSearchParams({ q: searchQuery, limit: String(maxResults), sort: searchSort });
+    if (searchFilters.categories?.length) params.set('category', searchFilters.categories.join(','));
+    if (searchFilters.minPrice !== undefined) params.set('minPrice', String(searchFilters.minPrice));
+    if (searchFilters.maxPrice !== undefined) params.set('maxPrice', String(searchFilters.maxPrice));
+    if (searchFilters.minRating) params.set('minRating', String(searchFilters.minRating));
+    if (searchFilters.inStock) params.set('inStock', 'true');
+
     try {
       const response = await fetch(
-        `/api/search?q=${encodeURIComponent(searchQuery)}&limit=${maxResults}`,
+        `/api/search?${params}`,
         {
           signal: abortControllerRef.current.signal
         }
@@ -55,21 +84,54 @@ export function useSearch(options: UseSearchOptions = {}) {
         throw new Error('Search failed');
       }
 
-      const searchResults = await response.json();
+      const searchResults: SearchResponse = await response.json();
 
-      setResults(searchResults);
+      setResults(searchResults.results);
+      setFacets(searchResults.facets);
+      setTotal(searchResults.total);
+      setSearchId(searchResults.searchId || null);
       setIsLoading(false);
       setError(null);
     } catch (error: any) {
       // Don't set error state if request was aborted
       if (error.name !== 'AbortError') {
         setResults([]);
+        setFacets(null);
+        setTotal(0);
+        setSearchId(null);
         setIsLoading(false);
         setError('Search failed. Please try again.');
       }
     }
   }, [minLength, maxResults]);
 
+  // Completions, category and brand matches and "did you mean"; the search
+  // box works without them, so failures just hide them
+  const fetchSuggestions = useCallback(async (input: string) => {
+    if (suggestAbortRef.current) {
+      suggestAbortRef.current.abort();
+    }
+
+    if (input.trim().length < minLength) {
+      setSuggestions(null);
+      return;
+    }
+
+    suggestAbortRef.current = new AbortController();
+
+    try {
+      const response = await fetch(
+        `/api/search/suggest?${new URLSearchParams({ q: input })}`,
+        { signal: suggestAbortRef.current.signal }
+      );
+      setSuggestions(response.ok ? await response.json() : null);
+    } catch (error: any) {
+      if (error.name !== 'AbortError') {
+        setSuggestions(null);
+      }
+    }
+  }, [minLength]);
+
   const setQuery = useCallback((newQuery: string) => {
     setQueryState(newQuery);
     setIsOpen(newQuery.length >= minLength);
@@ -81,9 +143,46 @@ export function useSearch(options: UseSearchOptions = {}) {
 
     // Set new debounce
     debounceRef.current = setTimeout(() => {
-      performSearch(newQuery);
+      performSearch(newQuery, filters, sort);
+      fetchSuggestions(newQuery);
     }, delay);
-  }, [delay, minLength, performSearch]);
+  }, [delay, minLength, performSearch, fetchSuggestions, filters, sort]);
+
+  // Picking a suggestion searches for it straight away
+  const applySuggestion = useCallback((suggestion: string) => {
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+    setQueryState(suggestion);
+    setIsOpen(true);
+    performSearch(suggestion, filters, sort);
+    fetchSuggestions(suggestion);
+  }, [performSearch, fetchSuggestions, filters, sort]);
+
+  // Tell search analytics which result was opened (position is 1-based)
+  const recordClick = useCallback((productId: string, position: number) => {
+    if (!searchId) return;
+    fetch('/api/search/click', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ searchId, productId, position }),
+      // The page usually navigates away straight after
+      keepalive: true
+    }).catch(() => {
+      // Analytics only
+    });
+  }, [searchId]);
+
+  // Filters and sort apply straight away to the current query
+  const setFilters = useCallback((newFilters: SearchFilters) => {
+    setFiltersState(newFilters);
+    performSearch(query, newFilters, sort);
+  }, [performSearch, query, sort]);
+
+  const setSort = useCallback((newSort: SearchSort) => {
+    setSortState(newSort);
+    performSearch(query, filters, newSort);
+  }, [performSearch, query, filters]);
 
   const openSearch = useCallback(() => {
     setIsOpen(true);
@@ -93,6 +192,12 @@ export function useSearch(options: UseSearchOptions = {}) {
     setIsOpen(false);
     setQueryState('');
     setResults([]);
+    setFacets(null);
+    setTotal(0);
+    setFiltersState({});
+    setSortState('relevance');
+    setSuggestions(null);
+    setSearchId(null);
     setError(null);
 
     // Clear any pending search
@@ -104,10 +209,16 @@ export function useSearch(options: UseSearchOptions = {}) {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
+    if (suggestAbortRef.current) {
+      suggestAbortRef.current.abort();
+    }
   }, []);
 
   const clearResults = useCallback(() => {
     setResults([]);
+    setFacets(null);
+    setTotal(0);
+    setSuggestions(null);
     setError(null);
   }, []);
 
@@ -120,16 +231,28 @@ export function useSearch(options: UseSearchOptions = {}) {
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
+      if (suggestAbortRef.current) {
+        suggestAbortRef.current.abort();
+      }
     };
   }, []);
 
   return {
     query,
     results,
+    facets,
+    total,
+    filters,
+    sort,
+    suggestions,
     isLoading,
     error,
     isOpen,
     setQuery,
+    setFilters,
+    setSort,
+    applySuggestion,
+    recordClick,
     openSearch,
     closeSearch,
     clearResults
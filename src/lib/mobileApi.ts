@@ -0,0 +1,273 @@
+import { NextResponse } from 'next/server'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { Product, ProductOption, ProductVariant } from '../types'
+import { getAllProducts, getFeaturedProducts, getProductById, getProductsByCategory } from '../services/productService'
+import { getAvailableStock } from '../services/inventory'
+import {
+  SearchFacets,
+  SearchHighlights,
+  SearchOptions,
+  getProductRatings,
+  getSearchIndex,
+  searchIndex
+} from '../services/productSearch'
+import { OrderStatus, normalizeOrderStatus } from '../services/orderStatus'
+import { ShipmentTracking, getOrderTracking } from '../services/tracking'
+import { customerOwnsOrder } from '../services/paymentMethods'
+import { CustomerIdentity } from './customerAuth'
+
+// Response shapes of /api/mobile/v1, matching the types in aurora-mobile's
+// store slices. Change them together with the app, or add a v2.
+
+export interface MobileProduct {
+  id: string
+  name: string
+  description: string
+  price: number
+  imageUrl: string
+  category: string
+  stock: number
+  rating: number
+  reviews: number
+  isActive: boolean
+  // Present for products with variants; one must be chosen to add to cart
+  options?: ProductOption[]
+  variants?: ProductVariant[]
+}
+
+export interface MobileProductsResponse {
+  products: MobileProduct[]
+  featured: MobileProduct[]
+}
+
+export interface MobileSearchResponse {
+  products: MobileProduct[]
+  // Matched words per product id, for bolding in the results list
+  highlights: Record<string, SearchHighlights>
+  facets: SearchFacets
+  total: number
+  // Sent back with result taps (POST /api/mobile/v1/products/search/click)
+  searchId: string | null
+}
+
+export interface MobileOrderItem {
+  id: string
+  variantId?: string
+  variantTitle?: string
+  name: string
+  quantity: number
+  price: number
+}
+
+export interface MobileOrder {
+  id: string
+  status: OrderStatus
+  total: number
+  currency: string
+  items: MobileOrderItem[]
+  createdAt: string
+  estimatedDelivery?: string
+  trackingNumber?: string
+  shipments?: ShipmentTracking[]
+}
+
+export interface MobileOrdersResponse {
+  orders: MobileOrder[]
+}
+
+export interface MobileErrorResponse {
+  error: string
+}
+
+export function mobileError(error: string, status: number): NextResponse<MobileErrorResponse> {
+  return NextResponse.json({ error }, { status })
+}
+
+function createMobileClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+/**
+ * Catalogue products as the app shows them: stock from the inventory ledger
+ * where it tracks the product (or variant), ratings from approved reviews
+ * and absolute image URLs (the app has no origin to resolve `/images/...`
+ * against)
+ */
+export async function toMobileProducts(products: Product[], origin: string): Promise<MobileProduct[]> {
+  const productIds = products.map(product => product.id)
+  const variantIds = products.flatMap(product => (product.variants || []).map(variant => variant.id))
+  const [stock, ratings] = await Promise.all([
+    getAvailableStock([...productIds, ...variantIds]).catch(error => {
+      console.error('Error loading stock levels:', error)
+      return null
+    }),
+    getProductRatings(productIds)
+  ])
+
+  return products.map(product => {
+    const variants = product.variants?.map(variant => ({
+      ...variant,
+      stock: stock?.get(variant.id) ?? variant.stock,
+      imageUrl: variant.imageUrl ? new URL(variant.imageUrl, origin).toString() : undefined,
+      images: variant.images?.map(image => new URL(image, origin).toString())
+    }))
+
+    return {
+      id: product.id,
+      name: product.name,
+      description: product.description,
+      price: product.price,
+      imageUrl: new URL(product.imageUrl, origin).toString(),
+      category: product.category,
+      // Products with variants are stocked per variant
+      stock: variants?.length
+        ? variants.reduce((sum, variant) => sum + variant.stock, 0)
+        : stock?.get(product.id) ?? product.stock,
+      rating: ratings.get(product.id)?.rating ?? 0,
+      reviews: ratings.get(product.id)?.reviews ?? 0,
+      isActive: true,
+      ...(variants?.length ? { options: product.options || [], variants } : {})
+    }
+  })
+}
+
+export async function listMobileProducts(
+  origin: string,
+  options: { category?: string; limit?: number } = {}
+): Promise<MobileProductsResponse> {
+  const catalogue = options.category ? getProductsByCategory(options.category) : getAllProducts()
+  const products = options.limit ? catalogue.slice(0, options.limit) : catalogue
+
+  return {
+    products: await toMobileProducts(products, origin),
+    featured: options.category ? [] : await toMobileProducts(getFeaturedProducts(), origin)
+  }
+}
+
+export async function getMobileProduct(productId: string, origin: string): Promise<MobileProduct | null> {
+  const product = getProductById(productId)
+  if (!product) return null
+
+  const [mobileProduct] = await toMobileProducts([product], origin)
+  return mobileProduct
+}
+
+/**
+ * Ranked catalogue search (see productSearch.ts) with the app's filters
+ */
+export async function searchMobileProducts(
+  query: string,
+  origin: string,
+  options: SearchOptions = {}
+): Promise<MobileSearchResponse & { allTermsMatched: boolean }> {
+  const index = await getSearchIndex('catalogue', async () => getAllProducts())
+  const { results, facets, total, allTermsMatched = true } = searchIndex(index, query.trim(), options)
+
+  return {
+    allTermsMatched,
+    products: await toMobileProducts(results.map(hit => hit.product), origin),
+    highlights: Object.fromEntries(results.map(hit => [hit.product.id, hit.highlights])),
+    facets,
+    total,
+    searchId: null
+  }
+}
+
+function parseOrderItems(items: any): any[] {
+  return typeof items === 'string' ? JSON.parse(items) : items || []
+}
+
+function toMobileOrder(order: any, orderItems: any[]): MobileOrder {
+  const items: MobileOrderItem[] = orderItems.length
+    ? orderItems.map(item => ({
+        id: String(item.product_id || item.id),
+        variantId: item.variant_id || undefined,
+        variantTitle: item.variant_title || undefined,
+        name: item.product_name,
+        quantity: item.quantity,
+        price: Number(item.price)
+      }))
+    : parseOrderItems(order.items).map((item: any) => ({
+        id: String(item.productId || item.id),
+        variantId: item.variantId || undefined,
+        variantTitle: item.variantTitle || undefined,
+        name: item.name,
+        quantity: item.quantity,
+        price: Number(item.price)
+      }))
+
+  return {
+    id: order.id,
+    status: normalizeOrderStatus(order.status),
+    total: Number(order.total ?? order.total_amount) || 0,
+    currency: order.currency || 'USD',
+    items,
+    createdAt: order.created_at
+  }
+}
+
+/**
+ * The customer's orders, newest first. Like saved-card payments, guest
+ * checkouts with the customer's email count as theirs.
+ */
+export async function listMobileOrders(customer: CustomerIdentity, limit: number = 50): Promise<MobileOrdersResponse> {
+  const supabase = createMobileClient()
+  if (!supabase) throw new Error('Supabase configuration missing')
+
+  const columns = '*, order_items(product_id, variant_id, variant_title, product_name, quantity, price)'
+  // Guest orders keep the email as typed: match it case-insensitively, wildcards escaped
+  const emailPattern = customer.email.replace(/[\\%_]/g, match => `\\${match}`)
+  const [byUser, byEmail] = await Promise.all([
+    supabase.from('orders').select(columns).eq('user_id', customer.userId)
+      .order('created_at', { ascending: false }).limit(limit),
+    supabase.from('orders').select(columns).is('user_id', null).ilike('customer_email', emailPattern)
+      .order('created_at', { ascending: false }).limit(limit)
+  ])
+
+  const error = byUser.error || byEmail.error
+  if (error) throw new Error(`Failed to fetch orders: ${error.message}`)
+
+  return {
+    orders: [...(byUser.data || []), ...(byEmail.data || [])]
+      .filter(order => customerOwnsOrder(order, customer))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit)
+      .map(order => toMobileOrder(order, order.order_items || []))
+  }
+}
+
+/**
+ * One of the customer's orders with its shipments. Orders of other
+ * customers are reported as not found.
+ */
+export async function getMobileOrder(customer: CustomerIdentity, orderId: string): Promise<MobileOrder | null> {
+  const supabase = createMobileClient()
+  if (!supabase) throw new Error('Supabase configuration missing')
+
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('*, order_items(product_id, variant_id, variant_title, product_name, quantity, price)')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to fetch order: ${error.message}`)
+  if (!order || !customerOwnsOrder(order, customer)) return null
+
+  const tracking = await getOrderTracking(orderId)
+  const shipments = tracking?.shipments || []
+  const latest = shipments.find(shipment => shipment.trackingNumber) || shipments[0]
+
+  return {
+    ...toMobileOrder(order, order.order_items || []),
+    estimatedDelivery: latest?.estimatedDelivery || undefined,
+    trackingNumber: latest?.trackingNumber || undefined,
+    shipments
+  }
+}
@@ -0,0 +1,101 @@
+import { createClient, Session, User } from '@supabase/supabase-js'
+
+// Signed-in user as aurora-mobile's authSlice stores it
+export interface MobileUser {
+  id: string
+  email: string
+  name: string
+  avatar?: string
+}
+
+/**
+ * Tokens for the mobile app. `token` is a Supabase access token, sent back
+ * as `Authorization: Bearer <token>` and verified by getSessionUser
+ * (./customerAuth). It expires at `expiresAt` (Unix seconds); the app then
+ * swaps `refreshToken` for a new pair. Each refresh token works once.
+ */
+export interface MobileSession {
+  user: MobileUser
+  token: string
+  refreshToken: string
+  expiresAt: number
+}
+
+function createMobileAuthClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return null
+  }
+
+  // Nothing is kept on the server; the tokens go back to the app
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+}
+
+function toMobileUser(user: User): MobileUser {
+  return {
+    id: user.id,
+    email: user.email || '',
+    name: user.user_metadata?.full_name || user.user_metadata?.name || user.email || '',
+    avatar: user.user_metadata?.avatar_url || undefined
+  }
+}
+
+function toMobileSession(session: Session): MobileSession {
+  return {
+    user: toMobileUser(session.user),
+    token: session.access_token,
+    refreshToken: session.refresh_token,
+    expiresAt: session.expires_at || Math.floor(Date.now() / 1000) + session.expires_in
+  }
+}
+
+export async function signInMobile(email: string, password: string): Promise<MobileSession> {
+  const supabase = createMobileAuthClient()
+  if (!supabase) throw new Error('Supabase configuration missing')
+
+  const { data, error } = await supabase.auth.signInWithPassword({ email: email.trim(), password })
+  if (error || !data.session) throw new Error('Invalid email or password')
+
+  return toMobileSession(data.session)
+}
+
+/**
+ * Creates an account. With email confirmation on there is no session yet,
+ * only the user; they sign in once the confirmation link has been followed.
+ */
+export async function registerMobile(
+  email: string,
+  password: string,
+  name?: string
+): Promise<{ session: MobileSession | null; user: MobileUser }> {
+  const supabase = createMobileAuthClient()
+  if (!supabase) throw new Error('Supabase configuration missing')
+
+  const { data, error } = await supabase.auth.signUp({
+    email: email.trim(),
+    password,
+    options: { data: name ? { full_name: name } : undefined }
+  })
+
+  if (error) throw new Error(error.message)
+  if (!data.user) throw new Error('Failed to create account')
+
+  return {
+    session: data.session ? toMobileSession(data.session) : null,
+    user: toMobileUser(data.user)
+  }
+}
+
+export async function refreshMobileSession(refreshToken: string): Promise<MobileSession> {
+  const supabase = createMobileAuthClient()
+  if (!supabase) throw new Error('Supabase configuration missing')
+
+  const { data, error } = await supabase.auth.refreshSession({ refresh_token: refreshToken })
+  if (error || !data.session) throw new Error('Session expired, please sign in again')
+
+  return toMobileSession(data.session)
+}
@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
+import type { ShipmentWithItems } from '../services/shipments';
+import type { OrderStatus } from '../types/orders';
+import { transitionOrder } from '../services/orderLifecycle';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -38,7 +41,8 @@ export interface Order {
   order_number: string;
   customer_id?: string;
   customer_email: string;
-  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
+  fulfillment_status?: 'unfulfilled' | 'partial' | 'fulfilled';
   total_amount: number;
   subtotal: number;
   tax_amount: number;
@@ -57,7 +61,8 @@ export interface Order {
   is_express_shipping: boolean;
   estimated_ship_date?: string;
   estimated_delivery_date?: string;
-  tracking_number?: string;
+  tracking_number?: string; // Latest label bought; see shipments for the full set
+  shipments?: ShipmentWithItems[];
   
   // Customer classification
   is_repeat_customer: boolean;
@@ -430,7 +435,7 @@ export class OrderPrioritizationService {
       const { data: orders } = await supabase
         .from('orders')
         .select('*')
-        .in('status', ['pending', 'confirmed', 'processing'])
+        .in('status', ['pending', 'paid', 'processing'])
         .eq('manual_priority_override', false);
 
       if (!orders) return { updated: 0, errors: 0 };
@@ -593,61 +598,17 @@ export class OrderPrioritizationService {
   }
 
   /**
-   * Update order status with history tracking
+   * Move an order through the lifecycle (see services/orderLifecycle.ts);
+   * the change is recorded in order_events
    */
   static async updateOrderStatus(
     orderId: string, 
-    newStatus: string, 
+    newStatus: OrderStatus, 
     changedBy: string = 'system',
     reason?: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      // Get current order
-      const { data: currentOrder } = await supabase
-        .from('orders')
-        .select('status, priority_level')
-        .eq('id', orderId)
-        .single();
-
-      if (!currentOrder) {
-        return { success: false, error: 'Order not found' };
-      }
-
-      // Update order status
-      const updateData: any = {
-        status: newStatus,
-        updated_at: new Date().toISOString(),
-      };
-
-      // Set status-specific timestamps
-      if (newStatus === 'confirmed') {
-        updateData.confirmed_at = new Date().toISOString();
-      } else if (newStatus === 'shipped') {
-        updateData.shipped_at = new Date().toISOString();
-      } else if (newStatus === 'delivered') {
-        updateData.delivered_at = new Date().toISOString();
-      }
-
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update(updateData)
-        .eq('id', orderId);
-
-      if (updateError) throw updateError;
-
-      // Log status change
-      await supabase
-        .from('order_status_history')
-        .insert({
-          order_id: orderId,
-          previous_status: currentOrder.status,
-          new_status: newStatus,
-          changed_by: changedBy,
-          change_reason: reason,
-          priority_before: currentOrder.priority_level,
-          priority_after: currentOrder.priority_level,
-        });
-
+      await transitionOrder(orderId, newStatus, { actor: changedBy, reason });
       return { success: true };
 
     } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { FraudDetection } from './fraud';
+import { getSessionUser } from '../customerAuth';
 
 // Security middleware for API routes
 export function withSecurity(options: {
@@ -38,8 +39,8 @@ export function withSecurity(options: {
         }
 
         // Authentication check
+        const authResult = await checkAuthentication(req);
         if (requireAuth) {
-          const authResult = await checkAuthentication(req);
           if (!authResult.authenticated) {
             return NextResponse.json(
               { error: 'Authentication required' },
@@ -50,7 +51,7 @@ export function withSecurity(options: {
 
         // Fraud detection
         if (checkFraud) {
-          const userId = getUserIdFromRequest(req);
+          const userId = authResult.userId;
           const fraudResult = await FraudDetection.assessFraudRisk(req, userId);
           
           if (fraudResult.action === 'block') {
@@ -76,7 +77,7 @@ export function withSecurity(options: {
         }
 
         // Block check
-        const userId = getUserIdFromRequest(req);
+        const userId = authResult.userId;
         const ipAddress = getClientIP(req);
         const isBlocked = await FraudDetection.isBlocked(userId, ipAddress);
         
@@ -142,25 +143,14 @@ async function incrementRateLimitCount(key: string): Promise<void> {
   console.log(`Rate limit incremented for ${key}`);
 }
 
-// Authentication check
+// Authentication check: a Supabase session cookie or Bearer token, verified
+// with Supabase Auth (see getSessionUser)
 async function checkAuthentication(req: NextRequest): Promise<{ authenticated: boolean; userId?: string }> {
   try {
-    const authHeader = req.headers.get('authorization');
-    const sessionCookie = req.cookies.get('session')?.value;
-    
-    if (!authHeader && !sessionCookie) {
-      return { authenticated: false };
-    }
-    
-    // Simplified auth check - in production, verify JWT or session
-    if (authHeader?.startsWith('Bearer ') || sessionCookie) {
-      return { 
-        authenticated: true, 
-        userId: 'user_123' // Extract from token/session
-      };
-    }
-    
-    return { authenticated: false };
+    const user = await getSessionUser(req);
+    return user
+      ? { authenticated: true, userId: user.userId }
+      : { authenticated: false };
   } catch (error) {
     console.error('Authentication check failed:', error);
     return { authenticated: false };
@@ -192,16 +182,6 @@ function addSecurityHeaders(response: NextResponse): NextResponse {
 }
 
 // Utility functions
-function getUserIdFromRequest(req: NextRequest): string | undefined {
-  // Extract from JWT, session, or auth header
-  const authHeader = req.headers.get('authorization');
-  if (authHeader?.startsWith('Bearer ')) {
-    // In real implementation, decode JWT to get user ID
-    return 'user_123';
-  }
-  return undefined;
-}
-
 function getClientIP(req: NextRequest): string {
   const forwarded = req.headers.get('x-forwarded-for');
   const real = req.headers.get('x-real-ip');
@@ -2,9 +2,13 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { getAuthHeaders } from '../auth';
 
 export interface CartItem {
   id: string;
+  variantId?: string;
+  variantTitle?: string; // e.g. 'Navy / M'
+  sku?: string;
   name: string;
   price: number;
   quantity: number;
@@ -16,27 +20,72 @@ export interface CartItem {
   downloadUrl?: string;
 }
 
+// Mirrors the server cart from /api/cart (src/services/cart.ts)
+interface ServerCartLine {
+  productId: string;
+  variantId?: string;
+  variantTitle?: string;
+  sku?: string;
+  name: string;
+  price: number;
+  quantity: number;
+  imageUrl: string;
+  isDigital: boolean;
+}
+
+export interface CartAdjustment {
+  productId: string;
+  variantId?: string;
+  name: string;
+  type: 'price_changed' | 'quantity_reduced' | 'removed';
+  previous?: number;
+  current?: number;
+  message: string;
+}
+
+interface ServerCart {
+  items: ServerCartLine[];
+  adjustments: CartAdjustment[];
+}
+
 interface CartStore {
   // State
   items: CartItem[];
   isDrawerOpen: boolean;
   total: number;
   itemCount: number;
+  // Changes the server made while re-validating prices and stock
+  adjustments: CartAdjustment[];
   
-  // Actions
+  // Actions (lines are identified by cartLineKey)
   addItem: (item: Omit<CartItem, 'quantity'>) => void;
-  removeItem: (id: string) => void;
-  updateQuantity: (id: string, quantity: number) => void;
+  removeItem: (lineKey: string) => void;
+  updateQuantity: (lineKey: string, quantity: number) => void;
   clearCart: () => void;
   openDrawer: () => void;
   closeDrawer: () => void;
   toggleDrawer: () => void;
+  syncCart: () => Promise<void>;
+  mergeGuestCart: () => Promise<void>;
+  dismissAdjustments: () => void;
   
   // Helpers
-  getItemQuantity: (id: string) => number;
-  isItemInCart: (id: string) => boolean;
+  getItemQuantity: (lineKey: string) => number;
+  isItemInCart: (lineKey: string) => boolean;
 }
 
+/**
+ * Identifies a cart line: the product id, plus the variant for products
+ * that have variants (each variant is its own line)
+ */
+export const cartLineKey = (item: { id: string; variantId?: string }) =>
+  item.variantId ? `${item.id}:${item.variantId}` : item.id;
+
+// Server path of a line, addressed by product id (and variant)
+const cartItemPath = (item: { id: string; variantId?: string }) =>
+  `/api/cart/items/${encodeURIComponent(item.id)}` +
+  (item.variantId ? `?variantId=${encodeURIComponent(item.variantId)}` : '');
+
 // Helper function to calculate totals
 const calculateTotals = (items: CartItem[]) => {
   const total = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
@@ -44,23 +93,70 @@ const calculateTotals = (items: CartItem[]) => {
   return { total, itemCount };
 };
 
+/**
+ * Sends a cart change to the server. The local cart has already been updated
+ * optimistically; if the server can't be reached it stays client-only.
+ */
+const requestCart = async (path: string, init: RequestInit = {}): Promise<ServerCart | null> => {
+  try {
+    const response = await fetch(path, {
+      ...init,
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()), ...init.headers },
+    });
+    const result = await response.json();
+    if (!result.success) {
+      console.warn('Cart sync failed:', result.error);
+      return null;
+    }
+    return result.data;
+  } catch (error) {
+    console.warn('Cart sync failed:', error);
+    return null;
+  }
+};
+
+// The server's prices and quantities win; digital file details only live on the client
+const fromServerCart = (cart: ServerCart, localItems: CartItem[]) => {
+  const items: CartItem[] = cart.items.map(line => {
+    const key = cartLineKey({ id: line.productId, variantId: line.variantId });
+    const local = localItems.find(item => cartLineKey(item) === key);
+    return {
+      ...local,
+      id: line.productId,
+      variantId: line.variantId,
+      variantTitle: line.variantTitle,
+      sku: line.sku,
+      name: line.name,
+      price: line.price,
+      quantity: line.quantity,
+      imageUrl: line.imageUrl,
+      isDigital: line.isDigital,
+    };
+  });
+
+  return { items, ...calculateTotals(items), adjustments: cart.adjustments };
+};
+
 export const useCartStore = create<CartStore>()((set, get) => ({
   // Initial state
   items: [],
   isDrawerOpen: false,
   total: 0,
   itemCount: 0,
+  adjustments: [],
 
   // Add item to cart
   addItem: (newItem) => {
+    const key = cartLineKey(newItem);
     set((state) => {
-      const existingItem = state.items.find(item => item.id === newItem.id);
+      const existingItem = state.items.find(item => cartLineKey(item) === key);
       
       let updatedItems: CartItem[];
       if (existingItem) {
         // Update quantity if item exists
         updatedItems = state.items.map(item =>
-          item.id === newItem.id
+          cartLineKey(item) === key
             ? { ...item, quantity: item.quantity + 1 }
             : item
         );
@@ -86,12 +182,18 @@ export const useCartStore = create<CartStore>()((set, get) => ({
         isDrawerOpen: true, // Automatically open drawer when item is added
       };
     });
+
+    requestCart('/api/cart/items', {
+      method: 'POST',
+      body: JSON.stringify({ productId: newItem.id, variantId: newItem.variantId, quantity: 1 }),
+    }).then(cart => cart && set(fromServerCart(cart, get().items)));
   },
 
   // Remove item from cart
-  removeItem: (id) => {
+  removeItem: (lineKey) => {
+    const line = get().items.find(item => cartLineKey(item) === lineKey);
     set((state) => {
-      const updatedItems = state.items.filter(item => item.id !== id);
+      const updatedItems = state.items.filter(item => cartLineKey(item) !== lineKey);
       const { total, itemCount } = calculateTotals(updatedItems);
       
       return {
@@ -100,14 +202,19 @@ export const useCartStore = create<CartStore>()((set, get) => ({
         itemCount,
       };
     });
+
+    if (!line) return;
+    requestCart(cartItemPath(line), { method: 'DELETE' })
+      .then(cart => cart && set(fromServerCart(cart, get().items)));
   },
 
   // Update item quantity
-  updateQuantity: (id, quantity) => {
+  updateQuantity: (lineKey, quantity) => {
+    const line = get().items.find(item => cartLineKey(item) === lineKey);
     set((state) => {
       if (quantity <= 0) {
         // Remove item if quantity is 0 or less
-        const updatedItems = state.items.filter(item => item.id !== id);
+        const updatedItems = state.items.filter(item => cartLineKey(item) !== lineKey);
         const { total, itemCount } = calculateTotals(updatedItems);
         
         return {
@@ -118,7 +225,7 @@ export const useCartStore = create<CartStore>()((set, get) => ({
       }
       
       const updatedItems = state.items.map(item =>
-        item.id === id ? { ...item, quantity } : item
+        cartLineKey(item) === lineKey ? { ...item, quantity } : item
       );
       
       const { total, itemCount } = calculateTotals(updatedItems);
@@ -129,6 +236,12 @@ export const useCartStore = create<CartStore>()((set, get) => ({
         itemCount,
       };
     });
+
+    if (!line) return;
+    requestCart(cartItemPath(line), {
+      method: 'PATCH',
+      body: JSON.stringify({ quantity: Math.max(0, quantity) }),
+    }).then(cart => cart && set(fromServerCart(cart, get().items)));
   },
 
   // Clear all items from cart
@@ -137,23 +250,55 @@ export const useCartStore = create<CartStore>()((set, get) => ({
       items: [],
       total: 0,
       itemCount: 0,
+      adjustments: [],
       isDrawerOpen: false,
     });
+
+    requestCart('/api/cart', { method: 'DELETE' });
+  },
+
+  // Load the server cart (on page load, or after another tab/device changed it)
+  syncCart: async () => {
+    const cart = await requestCart('/api/cart');
+    if (cart) {
+      set(fromServerCart(cart, get().items));
+    }
   },
 
+  // After sign-in: move the guest cart into the customer's cart
+  mergeGuestCart: async () => {
+    const cart = await requestCart('/api/cart/merge', {
+      method: 'POST',
+      body: JSON.stringify({
+        items: get().items.map(item => ({
+          productId: item.id,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          price: item.price,
+          name: item.name,
+        })),
+      }),
+    });
+    if (cart) {
+      set(fromServerCart(cart, get().items));
+    }
+  },
+
+  dismissAdjustments: () => set({ adjustments: [] }),
+
   // Drawer controls
   openDrawer: () => set({ isDrawerOpen: true }),
   closeDrawer: () => set({ isDrawerOpen: false }),
   toggleDrawer: () => set((state) => ({ isDrawerOpen: !state.isDrawerOpen })),
 
   // Helper functions
-  getItemQuantity: (id) => {
-    const item = get().items.find(item => item.id === id);
+  getItemQuantity: (lineKey) => {
+    const item = get().items.find(item => cartLineKey(item) === lineKey);
     return item ? item.quantity : 0;
   },
 
-  isItemInCart: (id) => {
-    return get().items.some(item => item.id === id);
+  isItemInCart: (lineKey) => {
+    return get().items.some(item => cartLineKey(item) === lineKey);
   },
 }));
 
@@ -0,0 +1,73 @@
+'use client';
+
+import { useCallback } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  BASE_CURRENCY,
+  DEFAULT_EXCHANGE_RATES,
+  ExchangeRates,
+  SupportedCurrency,
+  convertFromBase,
+  formatMoney,
+  resolveCurrency
+} from '../../services/currency';
+
+interface CurrencyStore {
+  // State
+  currency: SupportedCurrency;
+  rates: ExchangeRates;
+  ratesLoaded: boolean;
+
+  // Actions
+  setCurrency: (currency: string) => void;
+  loadRates: () => Promise<void>;
+}
+
+export const useCurrencyStore = create<CurrencyStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      currency: BASE_CURRENCY,
+      rates: DEFAULT_EXCHANGE_RATES,
+      ratesLoaded: false,
+
+      setCurrency: (currency) => set({ currency: resolveCurrency(currency) }),
+
+      // Fetch the stored FX rates once per page load
+      loadRates: async () => {
+        if (get().ratesLoaded) return;
+        try {
+          const res = await fetch('/api/currency/rates');
+          if (!res.ok) return;
+          const json = await res.json();
+          set({ rates: { ...DEFAULT_EXCHANGE_RATES, ...json.rates }, ratesLoaded: true });
+        } catch (error) {
+          console.warn('Failed to load exchange rates:', error);
+        }
+      },
+    }),
+    {
+      name: 'aurora-currency-store',
+      partialize: (state) => ({
+        currency: state.currency,
+      }),
+    }
+  )
+);
+
+// Selectors
+export const useSelectedCurrency = () => useCurrencyStore(state => state.currency);
+
+/**
+ * Formatter for catalogue (base currency) amounts in the selected currency
+ */
+export const useFormatPrice = () => {
+  const currency = useCurrencyStore(state => state.currency);
+  const rates = useCurrencyStore(state => state.rates);
+
+  return useCallback(
+    (amount: number) => formatMoney(convertFromBase(amount, currency, rates), currency),
+    [currency, rates]
+  );
+};
@@ -1,5 +1,6 @@
 // Stripe Payment Service
 import Stripe from 'stripe';
+import { BASE_CURRENCY, resolveCurrency, toMinorUnits } from '../services/currency';
 
 // Initialize Stripe with secret key
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_...', {
@@ -31,23 +32,33 @@ export interface PaymentMethod {
   };
 }
 
+export interface SavedCardCharge extends PaymentIntent {
+  requires_authentication: boolean;
+  decline_message?: string;
+}
+
 export class StripeService {
   /**
-   * Create a payment intent for processing payment
+   * Create a payment intent for processing payment.
+   * `amount` is in the presentment `currency`; Stripe settles in the account's
+   * settlement currency (BASE_CURRENCY).
    */
   static async createPaymentIntent(
     amount: number,
-    currency: string = 'usd',
+    currency: string = BASE_CURRENCY,
     customerId?: string,
     metadata?: Record<string, string>
   ): Promise<PaymentIntent> {
     try {
+      const presentmentCurrency = resolveCurrency(currency);
       const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount * 100), // Convert to cents
-        currency,
+        amount: toMinorUnits(amount, presentmentCurrency), // Smallest currency unit (cents, yen)
+        currency: presentmentCurrency.toLowerCase(),
         customer: customerId,
         metadata: {
           integration_check: 'accept_a_payment',
+          presentment_currency: presentmentCurrency,
+          settlement_currency: BASE_CURRENCY,
           ...metadata,
         },
         automatic_payment_methods: {
@@ -185,19 +196,155 @@ export class StripeService {
   }
 
   /**
-   * Process refund
+   * Start saving a card for later: the client confirms the SetupIntent with
+   * Stripe.js (or the mobile PaymentSheet) and the card is attached to the customer
+   */
+  static async createSetupIntent(
+    customerId: string,
+    metadata?: Record<string, string>
+  ): Promise<{ id: string; client_secret: string }> {
+    try {
+      const setupIntent = await stripe.setupIntents.create({
+        customer: customerId,
+        payment_method_types: ['card'],
+        usage: 'off_session',
+        metadata,
+      });
+
+      return { id: setupIntent.id, client_secret: setupIntent.client_secret! };
+    } catch (error) {
+      console.error('Error creating setup intent:', error);
+      throw new Error('Failed to create setup intent');
+    }
+  }
+
+  /**
+   * The card a customer is charged with when none is chosen
+   */
+  static async getDefaultPaymentMethodId(customerId: string): Promise<string | null> {
+    try {
+      const customer = await stripe.customers.retrieve(customerId);
+      if (customer.deleted) return null;
+
+      const defaultMethod = customer.invoice_settings?.default_payment_method;
+      if (!defaultMethod) return null;
+      return typeof defaultMethod === 'string' ? defaultMethod : defaultMethod.id;
+    } catch (error) {
+      console.error('Error retrieving customer:', error);
+      throw new Error('Failed to retrieve customer');
+    }
+  }
+
+  /**
+   * Make a saved card the customer's default
+   */
+  static async setDefaultPaymentMethod(customerId: string, paymentMethodId: string): Promise<void> {
+    try {
+      await stripe.customers.update(customerId, {
+        invoice_settings: { default_payment_method: paymentMethodId },
+      });
+    } catch (error) {
+      console.error('Error setting default payment method:', error);
+      throw new Error('Failed to set default payment method');
+    }
+  }
+
+  /**
+   * Remove a saved card from its customer
+   */
+  static async detachPaymentMethod(paymentMethodId: string): Promise<void> {
+    try {
+      await stripe.paymentMethods.detach(paymentMethodId);
+    } catch (error) {
+      console.error('Error detaching payment method:', error);
+      throw new Error('Failed to remove payment method');
+    }
+  }
+
+  /**
+   * Charge a saved card. With `offSession` the customer is not present
+   * (one-click reorder); otherwise they are on the checkout page.
+   *
+   * Cards the bank wants to authenticate come back with
+   * `requires_authentication` and the client confirms the PaymentIntent with
+   * its client secret (3D Secure). Declines come back with `decline_message`
+   * rather than throwing. Retries with the same `idempotencyKey` return the
+   * original PaymentIntent instead of charging again.
+   */
+  static async chargeSavedPaymentMethod(params: {
+    amount: number;
+    currency: string;
+    customerId: string;
+    paymentMethodId: string;
+    offSession: boolean;
+    metadata?: Record<string, string>;
+    idempotencyKey?: string;
+  }): Promise<SavedCardCharge> {
+    const presentmentCurrency = resolveCurrency(params.currency);
+
+    try {
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: toMinorUnits(params.amount, presentmentCurrency),
+        currency: presentmentCurrency.toLowerCase(),
+        customer: params.customerId,
+        payment_method: params.paymentMethodId,
+        payment_method_types: ['card'],
+        off_session: params.offSession,
+        confirm: true,
+        metadata: {
+          presentment_currency: presentmentCurrency,
+          settlement_currency: BASE_CURRENCY,
+          ...params.metadata,
+        },
+      }, params.idempotencyKey ? { idempotencyKey: params.idempotencyKey } : undefined);
+
+      return {
+        id: paymentIntent.id,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        status: paymentIntent.status,
+        client_secret: paymentIntent.client_secret!,
+        requires_authentication: paymentIntent.status === 'requires_action',
+      };
+    } catch (error) {
+      // Card errors carry the PaymentIntent they happened on
+      const paymentIntent = error instanceof Stripe.errors.StripeCardError ? error.payment_intent : undefined;
+      if (!paymentIntent) {
+        console.error('Error charging saved payment method:', error);
+        throw new Error('Failed to charge saved payment method');
+      }
+
+      const cardError = error as InstanceType<typeof Stripe.errors.StripeCardError>;
+      const requiresAuthentication = cardError.code === 'authentication_required';
+      return {
+        id: paymentIntent.id,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        status: paymentIntent.status,
+        client_secret: paymentIntent.client_secret!,
+        requires_authentication: requiresAuthentication,
+        decline_message: requiresAuthentication ? undefined : cardError.message,
+      };
+    }
+  }
+
+  /**
+   * Process refund (`amount` is in the payment's presentment currency). Retries
+   * with the same `idempotencyKey` return the original refund.
    */
   static async processRefund(
     paymentIntentId: string,
     amount?: number,
-    reason?: string
+    reason?: string,
+    currency: string = BASE_CURRENCY,
+    idempotencyKey?: string
   ): Promise<{ id: string; amount: number; status: string }> {
     try {
       const refund = await stripe.refunds.create({
         payment_intent: paymentIntentId,
-        amount: amount ? Math.round(amount * 100) : undefined,
+        amount: amount ? toMinorUnits(amount, currency) : undefined,
         reason: reason as any,
-      });
+      }, idempotencyKey ? { idempotencyKey } : undefined);
 
       return {
         id: refund.id,
@@ -239,6 +386,91 @@ export class StripeService {
     }
   }
 
+  /**
+   * Start a Checkout session in subscription mode. The subscription is
+   * created by Stripe when the customer completes checkout.
+   */
+  static async createSubscriptionCheckoutSession(params: {
+    lineItem: Stripe.Checkout.SessionCreateParams.LineItem;
+    customerEmail?: string;
+    trialDays?: number;
+    metadata: Record<string, string>;
+    shippingCountries?: Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[];
+    successUrl: string;
+    cancelUrl: string;
+  }): Promise<{ id: string; url: string | null }> {
+    try {
+      const session = await stripe.checkout.sessions.create({
+        mode: 'subscription',
+        line_items: [params.lineItem],
+        customer_email: params.customerEmail,
+        metadata: params.metadata,
+        subscription_data: {
+          metadata: params.metadata,
+          trial_period_days: params.trialDays || undefined,
+        },
+        shipping_address_collection: params.shippingCountries
+          ? { allowed_countries: params.shippingCountries }
+          : undefined,
+        success_url: params.successUrl,
+        cancel_url: params.cancelUrl,
+      });
+
+      return { id: session.id, url: session.url };
+    } catch (error) {
+      console.error('Error creating subscription checkout session:', error);
+      throw new Error('Failed to create subscription checkout session');
+    }
+  }
+
+  /**
+   * Retrieve a subscription with its items
+   */
+  static async getSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    try {
+      return await stripe.subscriptions.retrieve(subscriptionId);
+    } catch (error) {
+      console.error('Error retrieving subscription:', error);
+      throw new Error('Failed to retrieve subscription');
+    }
+  }
+
+  /**
+   * Update a subscription (pause collection, cancel at period end, change price)
+   */
+  static async updateSubscription(
+    subscriptionId: string,
+    params: Stripe.SubscriptionUpdateParams
+  ): Promise<Stripe.Subscription> {
+    try {
+      return await stripe.subscriptions.update(subscriptionId, params);
+    } catch (error) {
+      console.error('Error updating subscription:', error);
+      throw new Error('Failed to update subscription');
+    }
+  }
+
+  /**
+   * Hosted page where the customer replaces the card a subscription is billed to
+   */
+  static async createPaymentMethodUpdateSession(
+    customerId: string,
+    returnUrl: string
+  ): Promise<{ url: string }> {
+    try {
+      const session = await stripe.billingPortal.sessions.create({
+        customer: customerId,
+        return_url: returnUrl,
+        flow_data: { type: 'payment_method_update' },
+      });
+
+      return { url: session.url };
+    } catch (error) {
+      console.error('Error creating billing portal session:', error);
+      throw new Error('Failed to create card update session');
+    }
+  }
+
   /**
    * Webhook signature verification
    */
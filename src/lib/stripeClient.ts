@@ -0,0 +1,13 @@
+import { loadStripe, Stripe } from '@stripe/stripe-js'
+
+let stripePromise: Promise<Stripe | null> | null = null
+
+// Stripe.js for confirming card setups and 3D Secure in the browser.
+// Loaded once, on first use.
+export function getStripe(): Promise<Stripe | null> {
+  if (!stripePromise) {
+    const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY
+    stripePromise = publishableKey ? loadStripe(publishableKey) : Promise.resolve(null)
+  }
+  return stripePromise
+}
@@ -1,11 +1,13 @@
-import { createClient } from '@supabase/supabase-js'
+import { createBrowserClient as createSupabaseBrowserClient } from '@supabase/ssr'
 
+// The session is kept in cookies so API routes and the middleware can read it
+// (see getSessionUser in ../customerAuth)
 export function createBrowserClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
   const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
   
-  return createClient(supabaseUrl, supabaseAnonKey)
+  return createSupabaseBrowserClient(supabaseUrl, supabaseAnonKey)
 }
 
 // Export a default instance for convenience
-export const supabase = createBrowserClient()
\ No newline at end of file
+export const supabase = createBrowserClient()
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import type { User } from '@supabase/supabase-js'
+
+/**
+ * Refreshes the Supabase session cookies on the way through, so route
+ * handlers (which can't write the request's cookies) always see a valid
+ * access token. Returns the response carrying the cookies and the signed-in
+ * user, if any.
+ */
+export async function updateSession(request: NextRequest): Promise<{ response: NextResponse; user: User | null }> {
+  let response = NextResponse.next({ request })
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return { response, user: null }
+  }
+
+  const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll()
+      },
+      setAll(cookiesToSet) {
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+        response = NextResponse.next({ request })
+        cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+      }
+    }
+  })
+
+  // getUser() (not getSession()) so an expired access token is refreshed
+  const { data } = await supabase.auth.getUser()
+
+  return { response, user: data.user }
+}
@@ -3,6 +3,7 @@
  */
 
 export interface TestOrderItem {
+  productId: string; // Draft orders are priced from the catalogue
   name: string;
   price: number;
   quantity: number;
@@ -14,7 +15,7 @@ export interface TestCustomer {
 }
 
 export const createTestOrder = async (
-  items: TestOrderItem[] = [{ name: 'Test Product', price: 29.99, quantity: 1 }],
+  items: TestOrderItem[] = [{ productId: '1', name: 'Wireless Headphones', price: 199.99, quantity: 1 }],
   customer: TestCustomer = { name: 'Test User', email: 'test@example.com' }
 ) => {
   const total = items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
@@ -28,17 +29,12 @@ export const createTestOrder = async (
   return await response.json()
 }
 
-export const createTestCheckoutSession = async (
-  items: TestOrderItem[] = [{ name: 'Test Product', price: 29.99, quantity: 1 }],
-  customerEmail: string = 'test@example.com',
-  orderId?: string
-) => {
-  const metadata = orderId ? { order_id: orderId } : {}
-  
+// The session is priced from the stored draft order
+export const createTestCheckoutSession = async (orderId: string) => {
   const response = await fetch('/api/payments', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ items, customerEmail, metadata })
+    body: JSON.stringify({ metadata: { order_id: orderId } })
   })
   
   return await response.json()
@@ -58,11 +54,7 @@ export const testCompleteFlow = async () => {
   console.log('✅ Draft order created:', orderResult.orderId)
   
   // Step 2: Create checkout session
-  const sessionResult = await createTestCheckoutSession(
-    [{ name: 'Test Product', price: 29.99, quantity: 1 }],
-    'test@example.com',
-    orderResult.orderId
-  )
+  const sessionResult = await createTestCheckoutSession(orderResult.orderId)
   
   if (sessionResult.error || !sessionResult.url) {
     console.error('❌ Checkout session creation failed:', sessionResult.error)
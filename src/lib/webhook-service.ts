@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import { createDraftPurchaseOrdersForAlerts } from '../services/purchaseOrders'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -146,6 +147,17 @@ class InventoryWebhookServiceImpl implements InventoryWebhookService {
   }
 
   async sendInventoryAlert(alerts: any[], webhookId?: string): Promise<{ success: boolean; results: any[] }> {
+    // Low and critical stock alerts reorder from the preferred supplier,
+    // whether or not anyone is listening for them
+    try {
+      const replenishment = await createDraftPurchaseOrdersForAlerts(alerts);
+      if (replenishment.created.length > 0 || replenishment.updated.length > 0) {
+        console.log('Draft purchase orders from inventory alerts:', replenishment);
+      }
+    } catch (error) {
+      console.error('Failed to draft purchase orders for inventory alerts:', error);
+    }
+
     let webhooks: WebhookConfig[];
 
     if (webhookId) {
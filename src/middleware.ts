@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { updateSession } from './lib/supabase/middleware'
+import { Permission, getUserRoles, hasPermission } from './services/roles'
+
+// Permission needed to open each admin dashboard; other /admin pages need any staff role
+const ADMIN_PAGE_PERMISSIONS: Array<[string, Permission]> = [
+  ['/admin/orders', 'orders:read'],
+  ['/admin/inventory', 'inventory:read'],
+  ['/admin/fulfillment', 'fulfillment:manage'],
+  ['/admin/returns', 'returns:manage'],
+  ['/admin/licenses', 'orders:read'],
+  ['/admin/purchase-orders', 'purchasing:manage'],
+  ['/admin/stripe-events', 'payments:manage'],
+  ['/admin/email', 'marketing:manage'],
+  ['/admin/analytics', 'analytics:read']
+]
+
+// Keeps refreshed session cookies on a redirect or rewrite
+function withSessionCookies(target: NextResponse, session: NextResponse): NextResponse {
+  session.cookies.getAll().forEach(cookie => target.cookies.set(cookie))
+  return target
+}
+
+export async function middleware(request: NextRequest) {
+  const { response, user } = await updateSession(request)
+
+  const { pathname } = request.nextUrl
+  if (pathname !== '/admin' && !pathname.startsWith('/admin/')) {
+    return response
+  }
+
+  if (!user) {
+    const signIn = new URL('/account/sign-in', request.url)
+    signIn.searchParams.set('next', pathname)
+    return withSessionCookies(NextResponse.redirect(signIn), response)
+  }
+
+  const roles = await getUserRoles(user.id)
+  const permission = ADMIN_PAGE_PERMISSIONS.find(([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`))?.[1]
+  const allowed = permission ? hasPermission(roles, permission) : roles.length > 0
+
+  if (!allowed) {
+    return withSessionCookies(NextResponse.rewrite(new URL('/forbidden', request.url), { status: 403 }), response)
+  }
+
+  return response
+}
+
+export const config = {
+  // Everything except static assets and the Stripe/carrier webhooks
+  matcher: [
+    '/((?!_next/static|_next/image|favicon.ico|api/stripe/webhook|api/tracking/webhook|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'
+  ]
+}
@@ -0,0 +1,90 @@
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Row shape of the append-only `audit_log` table (see database/rbac-setup.sql)
+ */
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: string;
+  resource_type: string;
+  resource_id: string | null;
+  metadata: Record<string, any>;
+  ip_address: string | null;
+  created_at: string;
+}
+
+export interface AuditEventInput {
+  actorId?: string | null;
+  actorEmail?: string | null;
+  // What was done, e.g. 'order.update_status', 'staff.grant', 'cache.purge-cdn'
+  action: string;
+  resourceType: string;
+  resourceId?: string | null;
+  metadata?: Record<string, any>;
+  ipAddress?: string | null;
+}
+
+function createAuditClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Records a privileged action. Failures are logged, not thrown: the action
+ * has already been carried out.
+ */
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  const supabase = createAuditClient();
+  if (!supabase) return;
+
+  const { error } = await supabase
+    .from('audit_log')
+    .insert({
+      actor_id: event.actorId || null,
+      actor_email: event.actorEmail || null,
+      action: event.action,
+      resource_type: event.resourceType,
+      resource_id: event.resourceId || null,
+      metadata: event.metadata || {},
+      ip_address: event.ipAddress || null
+    });
+
+  if (error) {
+    console.error(`Error recording audit event ${event.action}:`, error);
+  }
+}
+
+/**
+ * Audit entries, newest first
+ */
+export async function listAuditLog(filters: {
+  actorId?: string;
+  resourceType?: string;
+  resourceId?: string;
+  limit?: number;
+} = {}): Promise<AuditLogEntry[]> {
+  const supabase = createAuditClient();
+  if (!supabase) return [];
+
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(filters.limit || 100);
+
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.resourceType) query = query.eq('resource_type', filters.resourceType);
+  if (filters.resourceId) query = query.eq('resource_id', filters.resourceId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to fetch audit log: ${error.message}`);
+  return (data || []) as AuditLogEntry[];
+}
@@ -0,0 +1,420 @@
+import { BASE_CURRENCY } from './currency';
+
+export type ServiceLevel = 'standard' | 'express' | 'overnight';
+
+export interface ShippingAddress {
+  name?: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  postalCode: string;
+  country: string;
+}
+
+/**
+ * A package to ship. Weight in kg, dimensions in cm.
+ */
+export interface Parcel {
+  weight: number;
+  length: number;
+  width: number;
+  height: number;
+}
+
+export interface ShipmentRequest {
+  reference?: string; // Order ID, printed on the label
+  idempotencyKey?: string; // Retried label purchases return the original label
+  from: ShippingAddress;
+  to: ShippingAddress;
+  parcels: Parcel[];
+  serviceLevel?: ServiceLevel; // Only quote this level when set
+}
+
+export interface RateQuote {
+  id: string;
+  carrier: string;
+  service: string;
+  serviceLevel: ServiceLevel;
+  amount: number;
+  currency: string;
+  estimatedDays: number;
+  billableWeight: number;
+}
+
+export interface ShippingLabel {
+  id: string;
+  carrier: string;
+  service: string;
+  trackingNumber: string;
+  rate: RateQuote;
+  format: 'ZPL' | 'PDF';
+  labelData?: string; // Label document returned inline (ZPL)
+  labelUrl?: string; // Or a link to it (PDF)
+  estimatedDelivery: string;
+  createdAt: string;
+}
+
+export type TrackingStatus = 'pre_transit' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception' | 'voided';
+
+export interface TrackingEvent {
+  timestamp: string;
+  status: TrackingStatus;
+  description: string;
+  location: string;
+}
+
+export interface TrackingInfo {
+  trackingNumber: string;
+  carrier: string;
+  status: TrackingStatus;
+  estimatedDelivery?: string;
+  events: TrackingEvent[];
+}
+
+export interface CarrierAdapter {
+  name: string;
+  getRates(request: ShipmentRequest): Promise<RateQuote[]>;
+  purchaseLabel(request: ShipmentRequest, rate: RateQuote): Promise<ShippingLabel>;
+  voidLabel(label: ShippingLabel): Promise<boolean>;
+  track(trackingNumber: string): Promise<TrackingInfo>;
+}
+
+/**
+ * Default parcel values for products without shipping data
+ */
+export const DEFAULT_ITEM_WEIGHT = 0.5;
+export const DEFAULT_PARCEL: Parcel = { weight: DEFAULT_ITEM_WEIGHT, length: 30, width: 20, height: 10 };
+
+/**
+ * Divisor for dimensional weight in cm/kg (L x W x H / 5000)
+ */
+export const DIMENSIONAL_WEIGHT_DIVISOR = 5000;
+
+/**
+ * Warehouse address labels are shipped from (SHIP_FROM_* environment variables)
+ */
+export function getShipFromAddress(): ShippingAddress {
+  return {
+    name: process.env.SHIP_FROM_NAME || 'Aurora Commerce',
+    street: process.env.SHIP_FROM_STREET || '100 Commerce Way',
+    city: process.env.SHIP_FROM_CITY || 'Reno',
+    state: process.env.SHIP_FROM_STATE || 'NV',
+    postalCode: process.env.SHIP_FROM_POSTAL_CODE || '89501',
+    country: process.env.SHIP_FROM_COUNTRY || 'US'
+  };
+}
+
+/**
+ * Pack items into a single parcel: total weight, the largest footprint,
+ * and heights stacked.
+ */
+export function buildParcel(items: Array<{
+  quantity: number;
+  weight?: number;
+  dimensions?: { length: number; width: number; height: number };
+}>): Parcel {
+  const parcel: Parcel = { weight: 0, length: 0, width: 0, height: 0 };
+
+  for (const item of items) {
+    const dimensions = item.dimensions || DEFAULT_PARCEL;
+    parcel.weight += (item.weight ?? DEFAULT_ITEM_WEIGHT) * item.quantity;
+    parcel.length = Math.max(parcel.length, dimensions.length);
+    parcel.width = Math.max(parcel.width, dimensions.width);
+    parcel.height += dimensions.height * item.quantity;
+  }
+
+  return parcel.weight > 0 ? parcel : { ...DEFAULT_PARCEL };
+}
+
+/**
+ * Greater of actual and dimensional weight, rounded up to the next 0.5 kg
+ */
+export function calculateBillableWeight(parcel: Parcel): number {
+  const dimensionalWeight = (parcel.length * parcel.width * parcel.height) / DIMENSIONAL_WEIGHT_DIVISOR;
+  return Math.ceil(Math.max(parcel.weight, dimensionalWeight) * 2) / 2;
+}
+
+/**
+ * Cheapest quote, breaking ties on transit time
+ */
+export function selectCheapestRate(rates: RateQuote[]): RateQuote | undefined {
+  return [...rates].sort((a, b) => a.amount - b.amount || a.estimatedDays - b.estimatedDays)[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// FNV-1a, so sandbox identifiers are stable for the same input
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36).toUpperCase().padStart(7, '0');
+}
+
+interface SandboxService {
+  code: string;
+  carrier: string;
+  service: string;
+  serviceLevel: ServiceLevel;
+  baseRate: number;
+  perKg: number;
+  estimatedDays: number;
+  internationalDays: number;
+}
+
+/**
+ * Rate card for the sandbox: base rate plus a per-kg charge on billable weight
+ */
+export const SANDBOX_SERVICES: SandboxService[] = [
+  { code: 'A', carrier: 'USPS', service: 'Ground Advantage', serviceLevel: 'standard', baseRate: 5.5, perKg: 1.8, estimatedDays: 5, internationalDays: 10 },
+  { code: 'B', carrier: 'UPS', service: 'Ground', serviceLevel: 'standard', baseRate: 8.25, perKg: 1.35, estimatedDays: 4, internationalDays: 8 },
+  { code: 'C', carrier: 'FedEx', service: '2Day', serviceLevel: 'express', baseRate: 14.5, perKg: 2.6, estimatedDays: 2, internationalDays: 5 },
+  { code: 'D', carrier: 'UPS', service: '2nd Day Air', serviceLevel: 'express', baseRate: 15.75, perKg: 2.3, estimatedDays: 2, internationalDays: 5 },
+  { code: 'E', carrier: 'DHL', service: 'Express Worldwide', serviceLevel: 'express', baseRate: 21, perKg: 3.1, estimatedDays: 3, internationalDays: 3 },
+  { code: 'F', carrier: 'FedEx', service: 'Priority Overnight', serviceLevel: 'overnight', baseRate: 27.5, perKg: 4.2, estimatedDays: 1, internationalDays: 2 }
+];
+
+const SANDBOX_INTERNATIONAL_SURCHARGE = 15;
+
+const TRACKING_PREFIXES: Record<string, string> = {
+  UPS: '1Z',
+  FedEx: 'FX',
+  DHL: 'DH',
+  USPS: '94'
+};
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Deterministic local carrier for development and tests.
+ * Rates come from SANDBOX_SERVICES, and tracking numbers encode the service
+ * and purchase time so tracking works without any stored state. Pass a
+ * fixed `clock` to make labels and tracking fully reproducible.
+ */
+export class SandboxCarrierAdapter implements CarrierAdapter {
+  name = 'sandbox';
+
+  private voided = new Set<string>();
+  private purchased = new Map<string, ShippingLabel>(); // By idempotency key
+
+  constructor(
+    private services: SandboxService[] = SANDBOX_SERVICES,
+    private clock: () => Date = () => new Date()
+  ) {}
+
+  async getRates(request: ShipmentRequest): Promise<RateQuote[]> {
+    const international = request.from.country !== request.to.country;
+    const billableWeight = request.parcels
+      .reduce((sum, parcel) => sum + calculateBillableWeight(parcel), 0);
+
+    return this.services
+      .filter(service => !request.serviceLevel || service.serviceLevel === request.serviceLevel)
+      .map(service => ({
+        id: `rate_${service.code}_${hashString(`${service.code}:${billableWeight}:${request.to.country}:${request.to.postalCode}`)}`,
+        carrier: service.carrier,
+        service: service.service,
+        serviceLevel: service.serviceLevel,
+        amount: roundCurrency(
+          service.baseRate * request.parcels.length +
+          service.perKg * billableWeight +
+          (international ? SANDBOX_INTERNATIONAL_SURCHARGE : 0)
+        ),
+        currency: BASE_CURRENCY,
+        estimatedDays: international ? service.internationalDays : service.estimatedDays,
+        billableWeight
+      }));
+  }
+
+  async purchaseLabel(request: ShipmentRequest, rate: RateQuote): Promise<ShippingLabel> {
+    const service = this.services.find(s => rate.id.startsWith(`rate_${s.code}_`));
+    if (!service) {
+      throw new Error(`Unknown sandbox rate: ${rate.id}`);
+    }
+
+    const existing = request.idempotencyKey && this.purchased.get(request.idempotencyKey);
+    if (existing) {
+      return existing;
+    }
+
+    // Whole seconds, matching the purchase time encoded in the tracking number
+    const createdAt = new Date(Math.floor(this.clock().getTime() / 1000) * 1000);
+    const trackingNumber = [
+      TRACKING_PREFIXES[service.carrier] || 'SB',
+      service.code,
+      rate.estimatedDays,
+      Math.floor(createdAt.getTime() / 1000).toString(36).toUpperCase().padStart(7, '0'),
+      hashString(`${request.reference || ''}:${rate.id}`)
+    ].join('');
+
+    const label: ShippingLabel = {
+      id: `lbl_${hashString(trackingNumber)}`,
+      carrier: rate.carrier,
+      service: rate.service,
+      trackingNumber,
+      rate,
+      format: 'ZPL',
+      labelData: this.renderLabel(request, rate, trackingNumber),
+      estimatedDelivery: addDays(createdAt, rate.estimatedDays).toISOString(),
+      createdAt: createdAt.toISOString()
+    };
+
+    if (request.idempotencyKey) {
+      this.purchased.set(request.idempotencyKey, label);
+    }
+    return label;
+  }
+
+  async voidLabel(label: ShippingLabel): Promise<boolean> {
+    this.voided.add(label.trackingNumber);
+    return true;
+  }
+
+  async track(trackingNumber: string): Promise<TrackingInfo> {
+    const match = /^(1Z|FX|DH|94|SB)([A-Z])(\d+)([0-9A-Z]{7})[0-9A-Z]{7}$/.exec(trackingNumber);
+    const service = match && this.services.find(s => s.code === match[2]);
+    if (!match || !service) {
+      throw new Error(`Unknown tracking number: ${trackingNumber}`);
+    }
+
+    const createdAt = new Date(parseInt(match[4], 36) * 1000);
+    const estimatedDelivery = addDays(createdAt, Number(match[3]));
+    const info = {
+      trackingNumber,
+      carrier: service.carrier,
+      estimatedDelivery: estimatedDelivery.toISOString()
+    };
+
+    const created: TrackingEvent = {
+      timestamp: createdAt.toISOString(),
+      status: 'pre_transit',
+      description: 'Shipping label created',
+      location: 'Origin Facility'
+    };
+
+    if (this.voided.has(trackingNumber)) {
+      return { ...info, status: 'voided', events: [created] };
+    }
+
+    // Scans at fixed offsets from label creation, up to the current time
+    const transit = estimatedDelivery.getTime() - createdAt.getTime();
+    const schedule: Array<[number, TrackingStatus, string, string]> = [
+      [0, 'pre_transit', 'Shipping label created', 'Origin Facility'],
+      [Math.min(6 * HOUR, transit / 4), 'in_transit', 'Picked up by carrier', 'Origin Facility'],
+      [transit / 2, 'in_transit', 'Arrived at carrier facility', 'Regional Hub'],
+      [transit - 4 * HOUR, 'out_for_delivery', 'Out for delivery', 'Local Facility'],
+      [transit, 'delivered', 'Delivered', 'Destination']
+    ];
+
+    const now = this.clock().getTime();
+    const events = schedule
+      .filter(([offset]) => createdAt.getTime() + offset <= now)
+      .map(([offset, status, description, location]) => ({
+        timestamp: new Date(createdAt.getTime() + offset).toISOString(),
+        status,
+        description,
+        location
+      }));
+
+    return {
+      ...info,
+      status: events[events.length - 1].status,
+      events
+    };
+  }
+
+  private renderLabel(request: ShipmentRequest, rate: RateQuote, trackingNumber: string): string {
+    const { to } = request;
+    return [
+      '^XA',
+      `^FO50,50^A0N,40,40^FD${rate.carrier} ${rate.service}^FS`,
+      `^FO50,120^A0N,30,30^FD${to.name || ''}^FS`,
+      `^FO50,160^A0N,30,30^FD${to.street || ''}^FS`,
+      `^FO50,200^A0N,30,30^FD${[to.city, to.state, to.postalCode].filter(Boolean).join(' ')}^FS`,
+      `^FO50,240^A0N,30,30^FD${to.country}^FS`,
+      `^FO50,300^A0N,25,25^FDREF ${request.reference || '-'}  WT ${rate.billableWeight} KG^FS`,
+      `^FO50,360^BCN,120,Y,N,N^FD${trackingNumber}^FS`,
+      '^XZ'
+    ].join('\n');
+  }
+}
+
+/**
+ * Adapter for a hosted multi-carrier API (EasyPost, Shippo, ShipEngine, ...)
+ * behind a thin proxy that speaks the CarrierAdapter request/response shapes:
+ * POST {CARRIER_API_URL}/rates, /labels and /labels/void, GET /tracking/:number.
+ */
+export class ExternalCarrierAdapter implements CarrierAdapter {
+  name = 'external';
+
+  constructor(
+    private apiUrl: string | undefined = process.env.CARRIER_API_URL,
+    private apiKey: string | undefined = process.env.CARRIER_API_KEY
+  ) {}
+
+  async getRates(request: ShipmentRequest): Promise<RateQuote[]> {
+    const result = await this.request('/rates', { method: 'POST', body: JSON.stringify(request) });
+    return result.rates || [];
+  }
+
+  async purchaseLabel(request: ShipmentRequest, rate: RateQuote): Promise<ShippingLabel> {
+    return this.request(
+      '/labels',
+      { method: 'POST', body: JSON.stringify({ shipment: request, rateId: rate.id }) },
+      request.idempotencyKey
+    );
+  }
+
+  async voidLabel(label: ShippingLabel): Promise<boolean> {
+    const result = await this.request('/labels/void', { method: 'POST', body: JSON.stringify({ labelId: label.id }) });
+    return !!result.voided;
+  }
+
+  async track(trackingNumber: string): Promise<TrackingInfo> {
+    return this.request(`/tracking/${encodeURIComponent(trackingNumber)}`, { method: 'GET' });
+  }
+
+  private async request(path: string, init: RequestInit, idempotencyKey?: string): Promise<any> {
+    if (!this.apiUrl) {
+      throw new Error('CARRIER_API_URL is not configured');
+    }
+
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Carrier API request failed with status ${response.status}`);
+    }
+
+    return response.json();
+  }
+}
+
+let sandboxAdapter: SandboxCarrierAdapter | null = null;
+
+/**
+ * Adapter selected by CARRIER_ADAPTER ('sandbox' by default, or 'external').
+ * The sandbox instance is shared so voided labels are remembered.
+ */
+export function getCarrierAdapter(): CarrierAdapter {
+  if (process.env.CARRIER_ADAPTER === 'external') {
+    return new ExternalCarrierAdapter();
+  }
+  sandboxAdapter = sandboxAdapter || new SandboxCarrierAdapter();
+  return sandboxAdapter;
+}
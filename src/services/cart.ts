@@ -0,0 +1,425 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getProductById } from './productService';
+import { getAvailableStock } from './inventory';
+import { getVariant, hasVariants, isSameLine, stockKey, variantTitle, VariantLine } from './productVariants';
+import { BASE_CURRENCY, roundForCurrency } from './currency';
+
+export const MAX_LINE_QUANTITY = 99;
+
+// Writers that lose a version race re-read the cart and try again
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * Whose cart a request works on: the signed-in user, or a guest identified by
+ * the cart session cookie (see src/lib/cartSession.ts)
+ */
+export interface CartOwner {
+  userId?: string;
+  sessionId?: string;
+}
+
+/**
+ * One line of a stored cart, priced in the base currency
+ */
+export interface CartLine {
+  productId: string;
+  variantId?: string;
+  variantTitle?: string; // e.g. 'Navy / M'
+  sku?: string;
+  name: string;
+  price: number;
+  quantity: number;
+  imageUrl: string;
+  isDigital: boolean;
+}
+
+export type CartAdjustmentType = 'price_changed' | 'quantity_reduced' | 'removed';
+
+/**
+ * A change the server made to the requested lines while re-validating them
+ */
+export interface CartAdjustment {
+  productId: string;
+  variantId?: string;
+  name: string;
+  type: CartAdjustmentType;
+  previous?: number;
+  current?: number;
+  message: string;
+}
+
+export interface ServerCart {
+  id: string | null;
+  items: CartLine[];
+  subtotal: number;
+  itemCount: number;
+  currency: string;
+  version: number;
+  adjustments: CartAdjustment[];
+}
+
+/**
+ * What callers ask for; price and name are only known for lines already stored
+ */
+export interface CartLineInput {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  price?: number;
+  name?: string;
+}
+
+interface CartRow {
+  id: string;
+  items: CartLine[] | null;
+  version: number;
+}
+
+function createCartClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function requireCartClient(): SupabaseClient {
+  const supabase = createCartClient();
+  if (!supabase) {
+    throw new Error('Supabase configuration missing');
+  }
+  return supabase;
+}
+
+function assertOwner(owner: CartOwner): void {
+  if (!owner.userId && !owner.sessionId) {
+    throw new Error('Cart owner is required');
+  }
+}
+
+/**
+ * Re-prices the lines from the catalogue (at their variant's price for
+ * products with variants) and caps quantities at the stock that can still
+ * be sold. Unknown and sold-out products and variants are dropped.
+ */
+export async function validateCartLines(lines: CartLineInput[]): Promise<{ items: CartLine[]; adjustments: CartAdjustment[] }> {
+  const items: CartLine[] = [];
+  const adjustments: CartAdjustment[] = [];
+
+  // Ledger stock where the warehouse ledger tracks the product, catalogue stock otherwise
+  const ledgerStock = await getAvailableStock(lines.map(stockKey));
+
+  for (const line of lines) {
+    const product = getProductById(line.productId);
+    const variant = product ? getVariant(product, line.variantId) : null;
+    const title = product && variant ? variantTitle(product, variant) : undefined;
+    const name = title ? `${product!.name} (${title})` : product?.name || line.name || line.productId;
+
+    // Variant lines need a variant the product still sells
+    if (!product || ((line.variantId || hasVariants(product)) && !variant)) {
+      adjustments.push({
+        productId: line.productId,
+        variantId: line.variantId,
+        name,
+        type: 'removed',
+        message: `${name} is no longer available and was removed from your cart`
+      });
+      continue;
+    }
+
+    const catalogueStock = variant ? variant.stock : product.stock;
+    const available = product.isDigital
+      ? MAX_LINE_QUANTITY
+      : Math.min(MAX_LINE_QUANTITY, ledgerStock?.get(stockKey(line)) ?? catalogueStock);
+    const price = variant ? variant.price : product.price;
+
+    if (available <= 0) {
+      adjustments.push({
+        productId: product.id,
+        variantId: variant?.id,
+        name,
+        type: 'removed',
+        message: `${name} is out of stock and was removed from your cart`
+      });
+      continue;
+    }
+
+    const requested = Math.max(1, Math.floor(line.quantity));
+    const quantity = Math.min(requested, available);
+    if (quantity < requested) {
+      adjustments.push({
+        productId: product.id,
+        variantId: variant?.id,
+        name,
+        type: 'quantity_reduced',
+        previous: requested,
+        current: quantity,
+        message: `Only ${quantity} of ${name} can be ordered`
+      });
+    }
+
+    if (line.price !== undefined && line.price !== price) {
+      adjustments.push({
+        productId: product.id,
+        variantId: variant?.id,
+        name,
+        type: 'price_changed',
+        previous: line.price,
+        current: price,
+        message: `The price of ${name} changed`
+      });
+    }
+
+    items.push({
+      productId: product.id,
+      ...(variant ? { variantId: variant.id, variantTitle: title, sku: variant.sku } : {}),
+      name: product.name,
+      price,
+      quantity,
+      imageUrl: variant?.imageUrl || product.imageUrl,
+      isDigital: product.isDigital === true
+    });
+  }
+
+  return { items, adjustments };
+}
+
+function toServerCart(id: string | null, version: number, items: CartLine[], adjustments: CartAdjustment[]): ServerCart {
+  return {
+    id,
+    items,
+    subtotal: roundForCurrency(items.reduce((sum, item) => sum + item.price * item.quantity, 0), BASE_CURRENCY),
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    currency: BASE_CURRENCY,
+    version,
+    adjustments
+  };
+}
+
+async function readCart(supabase: SupabaseClient, owner: CartOwner): Promise<CartRow | null> {
+  let query = supabase.from('carts').select('id, items, version');
+  query = owner.userId
+    ? query.eq('user_id', owner.userId)
+    : query.eq('session_id', owner.sessionId as string).is('user_id', null);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load cart: ${error.message}`);
+  }
+  return data as CartRow | null;
+}
+
+/**
+ * Stores the lines, creating the row on first write. Returns null when
+ * another request changed the cart since it was read.
+ */
+async function writeCart(
+  supabase: SupabaseClient,
+  owner: CartOwner,
+  row: CartRow | null,
+  items: CartLine[]
+): Promise<CartRow | null> {
+  const subtotal = roundForCurrency(items.reduce((sum, item) => sum + item.price * item.quantity, 0), BASE_CURRENCY);
+  const now = new Date().toISOString();
+
+  if (!row) {
+    const { data, error } = await supabase
+      .from('carts')
+      .insert({
+        user_id: owner.userId || null,
+        session_id: owner.userId ? null : owner.sessionId,
+        items,
+        subtotal,
+        total_amount: subtotal,
+        currency: BASE_CURRENCY,
+        version: 1,
+        updated_at: now
+      })
+      .select('id, items, version')
+      .single();
+
+    // Unique violation: the cart was created concurrently
+    if (error?.code === '23505') return null;
+    if (error) {
+      throw new Error(`Failed to save cart: ${error.message}`);
+    }
+    return data as CartRow;
+  }
+
+  const { data, error } = await supabase
+    .from('carts')
+    .update({
+      items,
+      subtotal,
+      total_amount: subtotal,
+      version: row.version + 1,
+      abandoned_at: null,
+      updated_at: now
+    })
+    .eq('id', row.id)
+    .eq('version', row.version)
+    .select('id, items, version');
+
+  if (error) {
+    throw new Error(`Failed to save cart: ${error.message}`);
+  }
+  return data && data.length > 0 ? (data[0] as CartRow) : null;
+}
+
+/**
+ * Read-modify-write with re-validation and optimistic concurrency
+ */
+async function changeCart(owner: CartOwner, change: (lines: CartLineInput[]) => CartLineInput[]): Promise<ServerCart> {
+  assertOwner(owner);
+  const supabase = requireCartClient();
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const row = await readCart(supabase, owner);
+    const { items, adjustments } = await validateCartLines(change(row?.items || []));
+    const saved = await writeCart(supabase, owner, row, items);
+    if (saved) {
+      return toServerCart(saved.id, saved.version, items, adjustments);
+    }
+  }
+
+  throw new Error('Cart was changed by another request, please try again');
+}
+
+/**
+ * The owner's cart, re-validated against current prices and stock. Changes
+ * found on the way are saved so the next read doesn't report them again.
+ */
+export async function getCart(owner: CartOwner): Promise<ServerCart> {
+  assertOwner(owner);
+  const supabase = requireCartClient();
+
+  const row = await readCart(supabase, owner);
+  if (!row) {
+    return toServerCart(null, 0, [], []);
+  }
+
+  const { items, adjustments } = await validateCartLines(row.items || []);
+  if (adjustments.length === 0) {
+    return toServerCart(row.id, row.version, items, adjustments);
+  }
+
+  // Losing this race is harmless: the other writer validated the cart too
+  const saved = await writeCart(supabase, owner, row, items);
+  return toServerCart(row.id, saved?.version ?? row.version, items, adjustments);
+}
+
+/**
+ * Adds `quantity` of a product, on top of what's already in the cart.
+ * Products with variants need the variant being bought.
+ */
+export async function addCartItem(
+  owner: CartOwner,
+  productId: string,
+  quantity: number = 1,
+  variantId?: string
+): Promise<ServerCart> {
+  const product = getProductById(productId);
+  if (!product) {
+    throw new Error('Product not found');
+  }
+  if (hasVariants(product) && !variantId) {
+    throw new Error('Choose an option before adding this product');
+  }
+  if (variantId && !getVariant(product, variantId)) {
+    throw new Error('Variant not found');
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new Error('Quantity must be a positive whole number');
+  }
+
+  const target: VariantLine = { productId, variantId };
+  return changeCart(owner, lines => {
+    const existing = lines.find(line => isSameLine(line, target));
+    if (!existing) {
+      return [...lines, { productId, ...(variantId ? { variantId } : {}), quantity }];
+    }
+    return lines.map(line => isSameLine(line, target) ? { ...line, quantity: line.quantity + quantity } : line);
+  });
+}
+
+/**
+ * Sets a line's quantity; zero removes the line
+ */
+export async function updateCartItem(
+  owner: CartOwner,
+  productId: string,
+  quantity: number,
+  variantId?: string
+): Promise<ServerCart> {
+  if (!Number.isInteger(quantity) || quantity < 0) {
+    throw new Error('Quantity must be zero or a positive whole number');
+  }
+  if (quantity === 0) {
+    return removeCartItem(owner, productId, variantId);
+  }
+
+  const target: VariantLine = { productId, variantId };
+  return changeCart(owner, lines => {
+    if (!lines.some(line => isSameLine(line, target))) {
+      throw new Error('Item is not in the cart');
+    }
+    return lines.map(line => isSameLine(line, target) ? { ...line, quantity } : line);
+  });
+}
+
+export async function removeCartItem(owner: CartOwner, productId: string, variantId?: string): Promise<ServerCart> {
+  return changeCart(owner, lines => lines.filter(line => !isSameLine(line, { productId, variantId })));
+}
+
+export async function clearCart(owner: CartOwner): Promise<ServerCart> {
+  return changeCart(owner, () => []);
+}
+
+/**
+ * Moves a guest cart onto the user's cart when they sign in. Quantities of
+ * products (and variants) in both carts are added up (then capped at stock). `items` are
+ * lines the client held locally; they are only used when there is no stored
+ * guest cart, since a synced client holds the same lines.
+ */
+export async function mergeCarts(
+  userId: string,
+  guest: { sessionId?: string; items?: CartLineInput[] }
+): Promise<ServerCart> {
+  const supabase = requireCartClient();
+
+  const guestRow = guest.sessionId ? await readCart(supabase, { sessionId: guest.sessionId }) : null;
+  const incoming: CartLineInput[] = guestRow?.items?.length
+    ? guestRow.items
+    : (guest.items || []).filter(item => item.productId && item.quantity > 0);
+
+  const cart = await changeCart({ userId }, lines => {
+    const merged = lines.map(line => ({ ...line }));
+    for (const item of incoming) {
+      const existing = merged.find(line => isSameLine(line, item));
+      if (existing) {
+        existing.quantity += item.quantity;
+      } else {
+        merged.push({
+          productId: item.productId,
+          ...(item.variantId ? { variantId: item.variantId } : {}),
+          quantity: item.quantity,
+          price: item.price,
+          name: item.name
+        });
+      }
+    }
+    return merged;
+  });
+
+  if (guestRow) {
+    const { error } = await supabase.from('carts').delete().eq('id', guestRow.id);
+    if (error) {
+      console.error('Error deleting merged guest cart:', error);
+    }
+  }
+
+  return cart;
+}
@@ -0,0 +1,239 @@
+import { createClient } from '@supabase/supabase-js';
+import { applyCustomPricingRules, CartItemWithPrice, Coupon, PricingContext, PricingResult } from './pricing';
+import { BASE_CURRENCY, formatMoney, roundForCurrency } from './currency';
+
+/**
+ * Row shape of the `coupons` table (see database/coupons-setup.sql)
+ */
+export interface CouponRow {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: Coupon['discountType'];
+  discount_value: number;
+  min_subtotal: number | null;
+  product_ids: string[] | null;
+  categories: string[] | null;
+  usage_limit: number | null;
+  usage_count: number;
+  per_customer_limit: number | null;
+  starts_at: string | null;
+  expires_at: string | null;
+  is_active: boolean;
+}
+
+export interface CouponValidationResult {
+  valid: boolean;
+  code: string;
+  error?: string;
+  coupon?: Coupon;
+  discount: number;
+  pricing?: PricingResult;
+}
+
+/**
+ * Error codes raised by the create_order_with_coupon database function
+ */
+const REDEMPTION_ERRORS: Record<string, string> = {
+  COUPON_INVALID: 'This discount code is not valid',
+  COUPON_EXPIRED: 'This discount code has expired',
+  COUPON_USAGE_LIMIT_REACHED: 'This discount code has already been used',
+  COUPON_CUSTOMER_LIMIT_REACHED: 'You have already used this discount code'
+};
+
+function createCouponsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Codes are stored and compared upper-case
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function mapCouponRow(row: CouponRow): Coupon {
+  return {
+    code: row.code,
+    description: row.description || undefined,
+    discountType: row.discount_type,
+    discountValue: Number(row.discount_value) || 0,
+    minSubtotal: row.min_subtotal ?? undefined,
+    productIds: row.product_ids || undefined,
+    categories: row.categories || undefined
+  };
+}
+
+/**
+ * Validate a coupon code for a cart and customer.
+ * Checks the code exists, is active and inside its date window, has uses left
+ * (overall and for this customer), meets its minimum spend and matches at
+ * least one line in the cart. On success the priced cart is returned.
+ */
+export async function validateCoupon(
+  code: string,
+  items: CartItemWithPrice[],
+  customerEmail?: string,
+  context: Omit<PricingContext, 'coupon'> = {}
+): Promise<CouponValidationResult> {
+  const normalizedCode = normalizeCouponCode(code || '');
+  const invalid = (error: string): CouponValidationResult => ({ valid: false, code: normalizedCode, error, discount: 0 });
+
+  if (!normalizedCode) {
+    return invalid('Please enter a discount code');
+  }
+
+  const supabase = createCouponsClient();
+  if (!supabase) {
+    return invalid('Discount codes are currently unavailable');
+  }
+
+  const { data: row, error } = await supabase
+    .from('coupons')
+    .select('*')
+    .eq('code', normalizedCode)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error looking up coupon:', error);
+    return invalid('Unable to validate discount code');
+  }
+
+  const couponRow = row as CouponRow | null;
+  if (!couponRow || !couponRow.is_active) {
+    return invalid(REDEMPTION_ERRORS.COUPON_INVALID);
+  }
+
+  const now = context.now || new Date();
+  if (couponRow.starts_at && now < new Date(couponRow.starts_at)) {
+    return invalid(REDEMPTION_ERRORS.COUPON_INVALID);
+  }
+  if (couponRow.expires_at && now > new Date(couponRow.expires_at)) {
+    return invalid(REDEMPTION_ERRORS.COUPON_EXPIRED);
+  }
+
+  if (couponRow.usage_limit !== null && couponRow.usage_count >= couponRow.usage_limit) {
+    return invalid(REDEMPTION_ERRORS.COUPON_USAGE_LIMIT_REACHED);
+  }
+
+  if (couponRow.per_customer_limit !== null && customerEmail) {
+    const { count, error: countError } = await supabase
+      .from('coupon_redemptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('coupon_id', couponRow.id)
+      .eq('customer_email', customerEmail.toLowerCase());
+
+    if (countError) {
+      console.error('Error counting coupon redemptions:', countError);
+      return invalid('Unable to validate discount code');
+    }
+
+    if ((count || 0) >= couponRow.per_customer_limit) {
+      return invalid(REDEMPTION_ERRORS.COUPON_CUSTOMER_LIMIT_REACHED);
+    }
+  }
+
+  const coupon = mapCouponRow(couponRow);
+  const pricing = applyCustomPricingRules(items, { ...context, coupon });
+
+  if (!pricing.couponCode) {
+    if (coupon.productIds?.length || coupon.categories?.length) {
+      return invalid('This discount code does not apply to the items in your cart');
+    }
+    return invalid(
+      coupon.minSubtotal
+        ? `Spend at least ${formatMoney(
+            roundForCurrency(coupon.minSubtotal * (context.exchangeRate ?? 1), context.currency),
+            context.currency || BASE_CURRENCY
+          )} to use this discount code`
+        : 'This discount code does not apply to your order'
+    );
+  }
+
+  return {
+    valid: true,
+    code: normalizedCode,
+    coupon,
+    discount: pricing.couponDiscount,
+    pricing
+  };
+}
+
+/**
+ * Insert an order and record the coupon redemption in a single transaction.
+ * Usage limits are re-checked under a row lock, so concurrent checkouts
+ * cannot exceed them.
+ */
+export async function createOrderWithCoupon(
+  order: Record<string, any>,
+  code: string,
+  customerEmail: string,
+  discountAmount: number
+): Promise<{ success: boolean; orderId?: string; error?: string }> {
+  const supabase = createCouponsClient();
+  if (!supabase) {
+    return { success: false, error: 'Supabase configuration missing' };
+  }
+
+  const { data, error } = await supabase.rpc('create_order_with_coupon', {
+    p_order: order,
+    p_coupon_code: normalizeCouponCode(code),
+    p_customer_email: customerEmail,
+    p_discount_amount: discountAmount
+  });
+
+  if (error) {
+    const known = Object.keys(REDEMPTION_ERRORS).find(key => error.message.includes(key));
+    return { success: false, error: known ? REDEMPTION_ERRORS[known] : error.message };
+  }
+
+  return { success: true, orderId: data as string };
+}
+
+/**
+ * Give an order's coupon use back to the code's usage limits; returns the
+ * number of redemptions released. Called when the order is cancelled.
+ */
+export async function releaseCouponRedemption(orderId: string): Promise<number> {
+  const supabase = createCouponsClient();
+  if (!supabase) return 0;
+
+  const { data, error } = await supabase.rpc('release_coupon_redemption', { p_order_id: orderId });
+  if (error) throw new Error(`Failed to release coupon for order ${orderId}: ${error.message}`);
+
+  return (data as number) || 0;
+}
+
+/**
+ * Look up the coupon redeemed for an order, if any.
+ * Payment sessions use this so the discount charged always matches the
+ * redemption recorded when the order was created.
+ */
+export async function getOrderRedemption(
+  orderId: string
+): Promise<{ code: string; discountAmount: number } | null> {
+  const supabase = createCouponsClient();
+  if (!supabase) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('coupon_redemptions')
+    .select('code, discount_amount')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('Error looking up coupon redemption:', error);
+    return null;
+  }
+
+  return { code: data.code, discountAmount: Number(data.discount_amount) || 0 };
+}
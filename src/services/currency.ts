@@ -0,0 +1,123 @@
+/**
+ * Currency definitions and conversion helpers.
+ * Catalogue prices are stored in BASE_CURRENCY, which is also the currency
+ * Stripe settles in. Customers can browse and pay in any supported
+ * presentment currency; amounts are converted with a locally stored rate
+ * table (see database/currency-setup.sql).
+ */
+
+export type SupportedCurrency = 'USD' | 'EUR' | 'GBP' | 'CAD' | 'AUD' | 'JPY';
+
+export interface CurrencyInfo {
+  code: SupportedCurrency;
+  name: string;
+  symbol: string;
+  locale: string;
+  decimals: number; // Minor unit digits (JPY has none)
+}
+
+/**
+ * Units of each currency per one unit of BASE_CURRENCY
+ */
+export type ExchangeRates = Record<string, number>;
+
+export const BASE_CURRENCY: SupportedCurrency = 'USD';
+
+export const CURRENCIES: Record<SupportedCurrency, CurrencyInfo> = {
+  USD: { code: 'USD', name: 'US Dollar', symbol: '$', locale: 'en-US', decimals: 2 },
+  EUR: { code: 'EUR', name: 'Euro', symbol: '€', locale: 'de-DE', decimals: 2 },
+  GBP: { code: 'GBP', name: 'British Pound', symbol: '£', locale: 'en-GB', decimals: 2 },
+  CAD: { code: 'CAD', name: 'Canadian Dollar', symbol: 'CA$', locale: 'en-CA', decimals: 2 },
+  AUD: { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', locale: 'en-AU', decimals: 2 },
+  JPY: { code: 'JPY', name: 'Japanese Yen', symbol: '¥', locale: 'ja-JP', decimals: 0 }
+};
+
+/**
+ * Fallback rates, used until the exchange_rates table has been loaded
+ */
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  AUD: 1.52,
+  JPY: 150
+};
+
+export function isSupportedCurrency(code: string | undefined | null): code is SupportedCurrency {
+  return !!code && Object.prototype.hasOwnProperty.call(CURRENCIES, code);
+}
+
+/**
+ * Normalise a requested currency code, falling back to BASE_CURRENCY
+ */
+export function resolveCurrency(code: string | undefined | null): SupportedCurrency {
+  const upper = (code || '').toUpperCase();
+  return isSupportedCurrency(upper) ? upper : BASE_CURRENCY;
+}
+
+function getDecimals(currency: string): number {
+  return CURRENCIES[resolveCurrency(currency)].decimals;
+}
+
+/**
+ * Round to the currency's minor unit
+ */
+export function roundForCurrency(amount: number, currency: string = BASE_CURRENCY): number {
+  const factor = Math.pow(10, getDecimals(currency));
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Amount in the smallest currency unit, as Stripe expects (cents, or yen)
+ */
+export function toMinorUnits(amount: number, currency: string = BASE_CURRENCY): number {
+  return Math.round(amount * Math.pow(10, getDecimals(currency)));
+}
+
+/**
+ * Amount from Stripe's smallest currency unit back to a decimal amount
+ */
+export function fromMinorUnits(amount: number, currency: string = BASE_CURRENCY): number {
+  return amount / Math.pow(10, getDecimals(currency));
+}
+
+export function getExchangeRate(currency: string, rates: ExchangeRates = DEFAULT_EXCHANGE_RATES): number {
+  const code = resolveCurrency(currency);
+  return rates[code] ?? DEFAULT_EXCHANGE_RATES[code] ?? 1;
+}
+
+/**
+ * Convert a BASE_CURRENCY amount into another currency
+ */
+export function convertFromBase(
+  amount: number,
+  currency: string,
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): number {
+  return roundForCurrency(amount * getExchangeRate(currency, rates), currency);
+}
+
+/**
+ * Convert an amount in another currency back into BASE_CURRENCY
+ */
+export function convertToBase(
+  amount: number,
+  currency: string,
+  rates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+): number {
+  return roundForCurrency(amount / getExchangeRate(currency, rates), BASE_CURRENCY);
+}
+
+/**
+ * Format an amount that is already in `currency`
+ */
+export function formatMoney(amount: number, currency: string = BASE_CURRENCY): string {
+  const info = CURRENCIES[resolveCurrency(currency)];
+  return new Intl.NumberFormat(info.locale, {
+    style: 'currency',
+    currency: info.code,
+    minimumFractionDigits: info.decimals,
+    maximumFractionDigits: info.decimals
+  }).format(amount);
+}
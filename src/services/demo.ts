@@ -159,7 +159,7 @@ export async function demoFulfillmentProcessing() {
         { country: orderData.customerInfo.address.country, postalCode: orderData.customerInfo.address.postalCode }
       );
       
-      console.log(`  ${method}: ${formatCurrency(estimate.cost)} (${estimate.estimatedDays} days)`);
+      console.log(`  ${method}: ${formatCurrency(estimate.cost)} (${estimate.estimatedDays} days, ${estimate.carrier} ${estimate.service})`);
     }
     
     // Demo order tracking
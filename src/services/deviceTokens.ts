@@ -0,0 +1,87 @@
+import { createClient } from '@supabase/supabase-js';
+
+export type DevicePlatform = 'ios' | 'android';
+
+/**
+ * Row shape of the `device_tokens` table (see database/mobile-api-setup.sql)
+ */
+export interface DeviceToken {
+  token: string;
+  user_id: string;
+  platform: DevicePlatform;
+  app_version: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function createDeviceTokensClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+export function isDevicePlatform(value: unknown): value is DevicePlatform {
+  return value === 'ios' || value === 'android';
+}
+
+/**
+ * Stores the push token of the app installation the user is signed in on.
+ * A token already registered to someone else moves to this user.
+ */
+export async function registerDeviceToken(
+  userId: string,
+  token: string,
+  platform: DevicePlatform,
+  appVersion?: string
+): Promise<DeviceToken> {
+  const supabase = createDeviceTokensClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase
+    .from('device_tokens')
+    .upsert({
+      token,
+      user_id: userId,
+      platform,
+      app_version: appVersion || null
+    }, { onConflict: 'token' })
+    .select('*')
+    .single();
+
+  if (error) throw new Error(`Failed to register device: ${error.message}`);
+  return data as DeviceToken;
+}
+
+/**
+ * Forgets a token, e.g. when the user signs out on that device
+ */
+export async function unregisterDeviceToken(userId: string, token: string): Promise<void> {
+  const supabase = createDeviceTokensClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { error } = await supabase
+    .from('device_tokens')
+    .delete()
+    .eq('token', token)
+    .eq('user_id', userId);
+
+  if (error) throw new Error(`Failed to unregister device: ${error.message}`);
+}
+
+export async function getUserDeviceTokens(userId: string): Promise<DeviceToken[]> {
+  const supabase = createDeviceTokensClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('device_tokens')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw new Error(`Failed to fetch device tokens: ${error.message}`);
+  return (data || []) as DeviceToken[];
+}
@@ -0,0 +1,446 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import type { FulfillmentOrderData } from './fulfillment';
+import { getProductById } from './productService';
+import {
+  CustomerLicense,
+  getLicenseStatus,
+  getOrderLicenses,
+  LicenseWithActivations,
+  listCustomerLicenses,
+  toCustomerLicense
+} from './licenses';
+import { Product } from '../types';
+import type { CustomerIdentity } from '../lib/customerAuth';
+
+export type DownloadStatus = 'active' | 'limit_reached' | 'expired' | 'revoked';
+
+export const DEFAULT_MAX_DOWNLOADS = 5;
+export const DEFAULT_DOWNLOAD_ACCESS_DAYS = 365;
+export const DIGITAL_DOWNLOADS_BUCKET = 'digital-downloads';
+
+// Links shown on the downloads page are fetched fresh each visit; emailed
+// links have to survive until the customer reads the email
+const PAGE_LINK_TTL_MS = 15 * 60 * 1000;
+const EMAIL_LINK_TTL_MS = 72 * 60 * 60 * 1000;
+// The storage URL the download route redirects to
+const FILE_URL_TTL_SECONDS = 60;
+
+/**
+ * Row shape of the `download_entitlements` table (see
+ * database/digital-downloads-setup.sql). One per digital line of a paid order.
+ */
+export interface DownloadEntitlement {
+  id: string;
+  order_id: string;
+  product_id: string;
+  product_name: string | null;
+  user_id: string | null;
+  customer_email: string | null;
+  download_count: number;
+  max_downloads: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  revoked_reason: string | null;
+  last_downloaded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Row shape of the `download_log` table
+ */
+export interface DownloadLogEntry {
+  id: string;
+  entitlement_id: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export type EntitlementWithLog = DownloadEntitlement & { download_log: DownloadLogEntry[] };
+
+/**
+ * A download as the customer sees it. `downloadUrl` is a signed link to
+ * /api/downloads/[token], null when the entitlement can't be used.
+ */
+export interface CustomerDownload {
+  id: string;
+  orderId: string;
+  productId: string;
+  productName: string;
+  status: DownloadStatus;
+  downloadCount: number;
+  maxDownloads: number;
+  expiresAt: string | null;
+  purchasedAt: string;
+  downloadUrl: string | null;
+  // Catalogue details (format, size, requirements) when the product is listed
+  product: Product | null;
+  // License key for software (see licenses.ts)
+  license: CustomerLicense | null;
+}
+
+function createDownloadsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+function getDownloadLinkSecret(): string {
+  const secret = process.env.DOWNLOAD_LINK_SECRET;
+  if (!secret) throw new Error('DOWNLOAD_LINK_SECRET is not configured');
+  return secret;
+}
+
+function getDownloadsBucket(): string {
+  return process.env.DIGITAL_DOWNLOADS_BUCKET || DIGITAL_DOWNLOADS_BUCKET;
+}
+
+/**
+ * Signed token for one entitlement (format: base64url(id:expiresAt).signature)
+ */
+export function createDownloadToken(entitlementId: string, ttlMs: number = PAGE_LINK_TTL_MS): string {
+  const payload = Buffer.from(`${entitlementId}:${Date.now() + ttlMs}`).toString('base64url');
+  const signature = crypto.createHmac('sha256', getDownloadLinkSecret()).update(payload).digest('base64url');
+  return `${payload}.${signature}`;
+}
+
+/**
+ * The entitlement a download token was issued for, or null when it is
+ * invalid or expired
+ */
+export function verifyDownloadToken(token: string | null | undefined): string | null {
+  if (!token) return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = crypto.createHmac('sha256', getDownloadLinkSecret()).update(payload).digest('base64url');
+  if (expected.length !== signature.length || !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+    return null;
+  }
+
+  const decoded = Buffer.from(payload, 'base64url').toString();
+  const separator = decoded.lastIndexOf(':');
+  const expiresAt = Number(decoded.slice(separator + 1));
+  if (!expiresAt || expiresAt < Date.now()) return null;
+
+  return decoded.slice(0, separator);
+}
+
+export function getDownloadPath(entitlementId: string, ttlMs: number = PAGE_LINK_TTL_MS): string {
+  return `/api/downloads/${createDownloadToken(entitlementId, ttlMs)}`;
+}
+
+export function getEntitlementStatus(
+  entitlement: Pick<DownloadEntitlement, 'download_count' | 'max_downloads' | 'expires_at' | 'revoked_at'>
+): DownloadStatus {
+  if (entitlement.revoked_at) return 'revoked';
+  if (entitlement.expires_at && new Date(entitlement.expires_at).getTime() <= Date.now()) return 'expired';
+  if (entitlement.download_count >= entitlement.max_downloads) return 'limit_reached';
+  return 'active';
+}
+
+function toCustomerDownload(entitlement: DownloadEntitlement, license?: LicenseWithActivations): CustomerDownload {
+  const status = getEntitlementStatus(entitlement);
+  return {
+    id: entitlement.id,
+    orderId: entitlement.order_id,
+    productId: entitlement.product_id,
+    productName: entitlement.product_name || entitlement.product_id,
+    status,
+    downloadCount: entitlement.download_count,
+    maxDownloads: entitlement.max_downloads,
+    expiresAt: entitlement.expires_at,
+    purchasedAt: entitlement.created_at,
+    downloadUrl: status === 'active' ? getDownloadPath(entitlement.id) : null,
+    product: getProductById(entitlement.product_id),
+    license: license ? toCustomerLicense(license) : null
+  };
+}
+
+/**
+ * Create an entitlement for each digital line of a paid order and email the
+ * links for the new ones. Safe to retry: lines that already have an
+ * entitlement are skipped. Returns the entitlements created.
+ */
+export async function createDownloadEntitlements(orderData: FulfillmentOrderData): Promise<DownloadEntitlement[]> {
+  const supabase = createDownloadsClient();
+  const digitalItems = orderData.items.filter(item => item.isDigital && item.quantity > 0);
+  if (!supabase || digitalItems.length === 0) return [];
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select('user_id, customer_email')
+    .eq('id', orderData.orderId)
+    .maybeSingle();
+
+  const maxDownloads = Number(process.env.DOWNLOAD_MAX_COUNT) || DEFAULT_MAX_DOWNLOADS;
+  const accessDays = Number(process.env.DOWNLOAD_ACCESS_DAYS) || DEFAULT_DOWNLOAD_ACCESS_DAYS;
+  const expiresAt = new Date(Date.now() + accessDays * 24 * 60 * 60 * 1000).toISOString();
+
+  // Only newly inserted rows come back
+  const { data, error } = await supabase
+    .from('download_entitlements')
+    .upsert(digitalItems.map(item => ({
+      order_id: orderData.orderId,
+      product_id: item.productId,
+      product_name: item.name,
+      user_id: order?.user_id || null,
+      customer_email: (order?.customer_email || orderData.customerInfo.email)?.toLowerCase() || null,
+      max_downloads: maxDownloads,
+      expires_at: expiresAt
+    })), { onConflict: 'order_id,product_id', ignoreDuplicates: true })
+    .select();
+
+  if (error) throw new Error(`Failed to create download entitlements: ${error.message}`);
+
+  const created = (data || []) as DownloadEntitlement[];
+  if (created.length > 0) {
+    await sendDownloadEmail(orderData.orderId, created, orderData.customerInfo.name);
+  }
+  return created;
+}
+
+async function sendDownloadEmail(orderId: string, entitlements: DownloadEntitlement[], customerName?: string): Promise<void> {
+  const email = entitlements[0]?.customer_email;
+  if (!email) return;
+
+  try {
+    const licenses = (await getOrderLicenses(orderId))
+      .filter(license => getLicenseStatus(license) === 'active');
+
+    const { sendTemplateEmail } = await import('../lib/email');
+    await sendTemplateEmail('digital_downloads_ready', email, {
+      order_id: orderId,
+      customer_name: customerName || 'there',
+      download_links_html: entitlements
+        .map(entitlement => `<li><a href="${getAppUrl()}${getDownloadPath(entitlement.id, EMAIL_LINK_TTL_MS)}">${entitlement.product_name || entitlement.product_id}</a> (${entitlement.max_downloads} downloads)</li>`)
+        .join(''),
+      license_keys_html: licenses.length > 0
+        ? `<p>Your license keys:</p><ul>${licenses
+          .map(license => `<li>${license.product_name || license.product_id} (${license.seats} device${license.seats !== 1 ? 's' : ''}): <code>${license.license_key}</code></li>`)
+          .join('')}</ul>`
+        : '',
+      downloads_url: `${getAppUrl()}/downloads`,
+      link_ttl_hours: EMAIL_LINK_TTL_MS / (60 * 60 * 1000)
+    });
+  } catch (error) {
+    console.error(`Error sending download email for order ${orderId}:`, error);
+  }
+}
+
+/**
+ * The customer's downloads, newest first, with the license key of software
+ * products. Like orders, guest purchases with the customer's email count as
+ * theirs.
+ */
+export async function listCustomerDownloads(customer: CustomerIdentity): Promise<CustomerDownload[]> {
+  const supabase = createDownloadsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const [byUser, byEmail] = await Promise.all([
+    supabase.from('download_entitlements').select('*').eq('user_id', customer.userId),
+    // Guest purchases only count once the customer has confirmed the email
+    customer.emailConfirmed
+      ? supabase.from('download_entitlements').select('*').is('user_id', null).eq('customer_email', customer.email.toLowerCase())
+      : { data: [], error: null }
+  ]);
+
+  const error = byUser.error || byEmail.error;
+  if (error) throw new Error(`Failed to fetch downloads: ${error.message}`);
+
+  // Newest first, so a re-issued key wins over the one it replaced
+  const licenses = await listCustomerLicenses(customer);
+
+  return ([...(byUser.data || []), ...(byEmail.data || [])] as DownloadEntitlement[])
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(entitlement => toCustomerDownload(entitlement, licenses.find(license =>
+      license.order_id === entitlement.order_id && license.product_id === entitlement.product_id)));
+}
+
+async function getEntitlement(entitlementId: string): Promise<DownloadEntitlement | null> {
+  const supabase = createDownloadsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data } = await supabase
+    .from('download_entitlements')
+    .select('*')
+    .eq('id', entitlementId)
+    .maybeSingle();
+
+  return data || null;
+}
+
+const DOWNLOAD_REFUSED: Record<Exclude<DownloadStatus, 'active'>, string> = {
+  limit_reached: 'Download limit reached',
+  expired: 'Download access has expired',
+  revoked: 'Download access has been revoked'
+};
+
+/**
+ * The file of a product: the newest object in the `<productId>/` folder of
+ * the private downloads bucket, as a short-lived storage URL
+ */
+async function getProductFileUrl(productId: string): Promise<string | null> {
+  const supabase = createDownloadsClient();
+  if (!supabase) return null;
+
+  const bucket = getDownloadsBucket();
+  const { data: files } = await supabase.storage
+    .from(bucket)
+    .list(productId, { sortBy: { column: 'created_at', order: 'desc' } });
+
+  const file = (files || []).find(candidate => candidate.id && !candidate.name.startsWith('.'));
+  if (!file) return null;
+
+  const { data } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(`${productId}/${file.name}`, FILE_URL_TTL_SECONDS, { download: file.name });
+
+  return data?.signedUrl || null;
+}
+
+/**
+ * Count and log a download and return the storage URL to send the client
+ * to. Throws when the entitlement can't be used; the limit is enforced in
+ * the database so parallel requests can't go over it.
+ */
+export async function startDownload(
+  entitlementId: string,
+  client: { ipAddress: string | null; userAgent: string | null }
+): Promise<string> {
+  const entitlement = await getEntitlement(entitlementId);
+  if (!entitlement) throw new Error('Download not found');
+
+  const status = getEntitlementStatus(entitlement);
+  if (status !== 'active') throw new Error(DOWNLOAD_REFUSED[status]);
+
+  const fileUrl = await getProductFileUrl(entitlement.product_id);
+  if (!fileUrl) {
+    console.error(`No file uploaded for product ${entitlement.product_id} in bucket ${getDownloadsBucket()}`);
+    throw new Error('This file is not available right now');
+  }
+
+  const supabase = createDownloadsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data: counted, error } = await supabase.rpc('record_download', {
+    p_entitlement_id: entitlementId,
+    p_ip_address: client.ipAddress,
+    p_user_agent: client.userAgent?.slice(0, 500) || null
+  });
+
+  if (error) throw new Error(`Failed to record download: ${error.message}`);
+  if (!counted) {
+    // Another request used the last download (or access changed) meanwhile
+    const current = await getEntitlement(entitlementId);
+    const currentStatus = current ? getEntitlementStatus(current) : 'revoked';
+    throw new Error(DOWNLOAD_REFUSED[currentStatus === 'active' ? 'limit_reached' : currentStatus]);
+  }
+
+  return fileUrl;
+}
+
+/**
+ * An order's entitlements with their recent downloads, for support
+ */
+export async function getOrderDownloads(orderId: string): Promise<EntitlementWithLog[]> {
+  const supabase = createDownloadsClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('download_entitlements')
+    .select('*, download_log(*)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true })
+    .order('created_at', { ascending: false, referencedTable: 'download_log' })
+    .limit(20, { referencedTable: 'download_log' });
+
+  if (error) throw new Error(`Failed to fetch downloads: ${error.message}`);
+  return (data || []) as EntitlementWithLog[];
+}
+
+async function updateEntitlement(entitlementId: string, updates: Partial<DownloadEntitlement>): Promise<DownloadEntitlement> {
+  const supabase = createDownloadsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase
+    .from('download_entitlements')
+    .update(updates)
+    .eq('id', entitlementId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to update download: ${error.message}`);
+  if (!data) throw new Error('Download not found');
+  return data as DownloadEntitlement;
+}
+
+/**
+ * Give the customer their full download allowance again. Expired access is
+ * extended by the default access period.
+ */
+export async function resetDownloadCount(entitlementId: string): Promise<DownloadEntitlement> {
+  const entitlement = await getEntitlement(entitlementId);
+  if (!entitlement) throw new Error('Download not found');
+
+  const updates: Partial<DownloadEntitlement> = { download_count: 0 };
+  if (getEntitlementStatus(entitlement) === 'expired') {
+    const accessDays = Number(process.env.DOWNLOAD_ACCESS_DAYS) || DEFAULT_DOWNLOAD_ACCESS_DAYS;
+    updates.expires_at = new Date(Date.now() + accessDays * 24 * 60 * 60 * 1000).toISOString();
+  }
+  return updateEntitlement(entitlementId, updates);
+}
+
+export async function revokeDownloadAccess(entitlementId: string, reason?: string): Promise<DownloadEntitlement> {
+  return updateEntitlement(entitlementId, {
+    revoked_at: new Date().toISOString(),
+    revoked_reason: reason || null
+  });
+}
+
+export async function restoreDownloadAccess(entitlementId: string): Promise<DownloadEntitlement> {
+  return updateEntitlement(entitlementId, { revoked_at: null, revoked_reason: null });
+}
+
+/**
+ * Revoke every download of an order, e.g. once it is refunded. Returns the
+ * number of entitlements revoked.
+ */
+export async function revokeOrderDownloads(orderId: string, reason: string): Promise<number> {
+  const supabase = createDownloadsClient();
+  if (!supabase) return 0;
+
+  const { data, error } = await supabase
+    .from('download_entitlements')
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq('order_id', orderId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) throw new Error(`Failed to revoke downloads for order ${orderId}: ${error.message}`);
+  return (data || []).length;
+}
+
+/**
+ * Email fresh links for an order's usable downloads. Returns how many were sent.
+ */
+export async function resendDownloadLinks(orderId: string): Promise<number> {
+  const entitlements = (await getOrderDownloads(orderId))
+    .filter(entitlement => getEntitlementStatus(entitlement) === 'active');
+  if (entitlements.length > 0) {
+    await sendDownloadEmail(orderId, entitlements);
+  }
+  return entitlements.length;
+}
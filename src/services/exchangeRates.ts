@@ -0,0 +1,57 @@
+import { createClient } from '@supabase/supabase-js';
+import { BASE_CURRENCY, CURRENCIES, DEFAULT_EXCHANGE_RATES, ExchangeRates } from './currency';
+
+/**
+ * Row shape of the `exchange_rates` table (see database/currency-setup.sql)
+ */
+export interface ExchangeRateRow {
+  currency: string;
+  rate: number;
+  updated_at: string;
+}
+
+function createRatesClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+/**
+ * Load FX rates (units per one BASE_CURRENCY) from the `exchange_rates` table.
+ * Currencies missing from the table, or all of them when Supabase is not
+ * configured, use DEFAULT_EXCHANGE_RATES.
+ */
+export async function loadExchangeRates(): Promise<ExchangeRates> {
+  const supabase = createRatesClient();
+  if (!supabase) {
+    return DEFAULT_EXCHANGE_RATES;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('currency, rate, updated_at')
+      .in('currency', Object.keys(CURRENCIES));
+
+    if (error) {
+      console.warn('Failed to load exchange rates, using defaults:', error.message);
+      return DEFAULT_EXCHANGE_RATES;
+    }
+
+    const rates: ExchangeRates = { ...DEFAULT_EXCHANGE_RATES };
+    (data as ExchangeRateRow[] || []).forEach(row => {
+      const rate = Number(row.rate);
+      if (rate > 0) rates[row.currency] = rate;
+    });
+    rates[BASE_CURRENCY] = 1;
+    return rates;
+  } catch (error) {
+    console.warn('Failed to load exchange rates, using defaults:', error);
+    return DEFAULT_EXCHANGE_RATES;
+  }
+}
@@ -1,3 +1,15 @@
+import {
+  RateQuote,
+  ShipmentRequest,
+  ShippingLabel,
+  TrackingStatus,
+  buildParcel,
+  getCarrierAdapter,
+  getShipFromAddress,
+  selectCheapestRate
+} from './carriers';
+import { ensureOrderInventoryCommitted } from './inventory';
+
 export interface FulfillmentOrderData {
   orderId: string;
   customerInfo: {
@@ -6,15 +18,23 @@ export interface FulfillmentOrderData {
     address: {
       street: string;
       city: string;
+      state?: string;
       postalCode: string;
       country: string;
     };
   };
   items: Array<{
     productId: string;
+    variantId?: string;
+    sku?: string;
+    variantTitle?: string; // e.g. 'Navy / M', for packing slips
     name: string;
     quantity: number;
     price: number;
+    weight?: number; // kg
+    dimensions?: { length: number; width: number; height: number }; // cm
+    isDigital?: boolean; // Delivered instantly, never put in a parcel
+    warehouseId?: string; // Warehouse the line ships from (defaults to DEFAULT_WAREHOUSE_ID)
   }>;
   orderTotal: number;
   shippingMethod: 'standard' | 'express' | 'overnight';
@@ -28,63 +48,81 @@ export interface FulfillmentResult {
   estimatedDelivery?: Date;
   carrier?: string;
   shippingCost?: number;
+  service?: string;
+  label?: ShippingLabel;
   error?: string;
 }
 
-export interface ExternalAPIResponse {
-  status: 'success' | 'error' | 'pending';
-  trackingNumber: string;
-  carrier: string;
-  estimatedDelivery: string;
-  shippingCost: number;
-}
-
 /**
- * Simulate external shipping API call
+ * Rate-shop the order's physical lines with the configured carrier adapter
+ * and buy a label for the cheapest quote at the requested service level
  */
-async function callExternalShippingAPI(orderData: FulfillmentOrderData): Promise<ExternalAPIResponse> {
-  // Simulate API latency
-  await new Promise(resolve => setTimeout(resolve, Math.random() * 2000 + 1000));
-  
-  // Simulate occasional API failures (5% chance)
-  if (Math.random() < 0.05) {
-    throw new Error('External shipping API temporarily unavailable');
+export async function purchaseShipment(
+  orderData: FulfillmentOrderData,
+  idempotencyKey?: string
+): Promise<{ rate: RateQuote; label: ShippingLabel }> {
+  const carrier = getCarrierAdapter();
+  const { address } = orderData.customerInfo;
+  const physicalItems = orderData.items.filter(item => !item.isDigital);
+  if (physicalItems.length === 0) {
+    throw new Error(`Order ${orderData.orderId} has no physical items to ship`);
   }
 
-  // Mock shipping carriers
-  const carriers = ['UPS', 'FedEx', 'DHL', 'USPS'];
-  const carrier = carriers[Math.floor(Math.random() * carriers.length)];
-  
-  // Generate mock tracking number
-  const trackingPrefix = carrier === 'UPS' ? '1Z' : 
-                        carrier === 'FedEx' ? 'FX' : 
-                        carrier === 'DHL' ? 'DH' : 'US';
-  const trackingNumber = `${trackingPrefix}${Math.random().toString(36).substring(2, 15).toUpperCase()}`;
-  
-  // Calculate estimated delivery based on shipping method
-  const deliveryDays = orderData.shippingMethod === 'overnight' ? 1 :
-                      orderData.shippingMethod === 'express' ? 2 : 5;
-  const estimatedDelivery = new Date();
-  estimatedDelivery.setDate(estimatedDelivery.getDate() + deliveryDays);
-  
-  // Calculate shipping cost
-  const baseCost = orderData.shippingMethod === 'overnight' ? 29.99 :
-                   orderData.shippingMethod === 'express' ? 19.99 : 9.99;
-  const shippingCost = baseCost + (orderData.items.length * 2.50); // Additional cost per item
+  const request: ShipmentRequest = {
+    reference: orderData.orderId,
+    idempotencyKey,
+    from: getShipFromAddress(),
+    to: { name: orderData.customerInfo.name, ...address },
+    parcels: [buildParcel(physicalItems)],
+    serviceLevel: orderData.shippingMethod
+  };
 
-  return {
-    status: 'success',
-    trackingNumber,
-    carrier,
-    estimatedDelivery: estimatedDelivery.toISOString(),
-    shippingCost
+  const rate = selectCheapestRate(await carrier.getRates(request));
+  if (!rate) {
+    throw new Error(`No ${orderData.shippingMethod} rates available for ${address.country}`);
+  }
+
+  const label = await carrier.purchaseLabel(request, rate);
+  return { rate, label };
+}
+
+/**
+ * Buy a prepaid return label: from the customer's address back to the
+ * warehouse, for the items being returned
+ */
+export async function purchaseReturnLabel(
+  returnData: {
+    reference: string; // RMA number, printed on the label
+    customerName: string;
+    address: FulfillmentOrderData['customerInfo']['address'];
+    items: Array<{ quantity: number; weight?: number; dimensions?: { length: number; width: number; height: number } }>;
+  },
+  idempotencyKey?: string
+): Promise<{ rate: RateQuote; label: ShippingLabel }> {
+  const carrier = getCarrierAdapter();
+
+  const request: ShipmentRequest = {
+    reference: returnData.reference,
+    idempotencyKey,
+    from: { name: returnData.customerName, ...returnData.address },
+    to: getShipFromAddress(),
+    parcels: [buildParcel(returnData.items)],
+    serviceLevel: 'standard'
   };
+
+  const rate = selectCheapestRate(await carrier.getRates(request));
+  if (!rate) {
+    throw new Error(`No return rates available from ${returnData.address.country}`);
+  }
+
+  const label = await carrier.purchaseLabel(request, rate);
+  return { rate, label };
 }
 
 /**
  * Simulate ERP system integration
  */
-async function notifyERPSystem(orderData: FulfillmentOrderData): Promise<boolean> {
+export async function notifyERPSystem(orderData: FulfillmentOrderData): Promise<boolean> {
   console.log('📦 Notifying ERP System:', {
     orderId: orderData.orderId,
     items: orderData.items.map(item => ({
@@ -102,24 +140,25 @@ async function notifyERPSystem(orderData: FulfillmentOrderData): Promise<boolean
 }
 
 /**
- * Simulate inventory management system update
+ * Reserve (if not already reserved at checkout) and commit the order's
+ * stock in the inventory ledger (see inventory.ts)
  */
-async function updateInventorySystem(orderData: FulfillmentOrderData): Promise<boolean> {
+export async function updateInventorySystem(orderData: FulfillmentOrderData): Promise<boolean> {
+  const result = await ensureOrderInventoryCommitted(orderData);
+
   console.log('📊 Updating Inventory System:', {
     orderId: orderData.orderId,
-    inventoryUpdates: orderData.items.map(item => ({
-      productId: item.productId,
-      quantityReserved: item.quantity,
-      action: 'RESERVE'
-    })),
+    tracked: result.tracked,
+    allocations: result.allocations,
+    shortfalls: result.shortfalls,
     timestamp: new Date().toISOString()
   });
 
-  // Simulate inventory system processing
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  // Simulate 98% success rate (inventory usually available)
-  return Math.random() > 0.02;
+  if (!result.success) {
+    console.error('Inventory could not be committed:', { orderId: orderData.orderId, error: result.error });
+  }
+
+  return result.success;
 }
 
 /**
@@ -134,7 +173,9 @@ function generateTrackingId(): string {
 
 /**
  * Main fulfillment processing function
- * This simulates integration with external shipping providers and ERP systems
+ * Commits stock in the inventory ledger (see inventory.ts) and buys a carrier
+ * label through the CarrierAdapter (see carriers.ts); the ERP integration is
+ * still simulated
  */
 export async function processExternalFulfillment(orderData: FulfillmentOrderData): Promise<FulfillmentResult> {
   try {
@@ -160,30 +201,38 @@ export async function processExternalFulfillment(orderData: FulfillmentOrderData
       throw new Error('Failed to notify ERP system');
     }
 
-    // Step 3: Process shipping through external API
-    console.log('📦 Step 3: Processing shipping through external carrier...');
-    const shippingResponse = await callExternalShippingAPI(orderData);
-    
-    if (shippingResponse.status !== 'success') {
-      throw new Error('External shipping API returned error status');
+    // Digital-only orders have nothing to ship
+    if (orderData.items.every(item => item.isDigital)) {
+      console.log('✅ Fulfillment Process Completed Successfully (digital only):', {
+        orderId: orderData.orderId,
+        completedAt: new Date().toISOString()
+      });
+      return { success: true, trackingId: '' };
     }
 
+    // Step 3: Buy a shipping label from the carrier
+    console.log('📦 Step 3: Purchasing shipping label from carrier...');
+    const { rate, label } = await purchaseShipment(orderData);
+
     // Step 4: Log successful fulfillment
     console.log('✅ Fulfillment Process Completed Successfully:', {
       orderId: orderData.orderId,
-      trackingId: shippingResponse.trackingNumber,
-      carrier: shippingResponse.carrier,
-      estimatedDelivery: shippingResponse.estimatedDelivery,
-      shippingCost: shippingResponse.shippingCost,
+      trackingId: label.trackingNumber,
+      carrier: label.carrier,
+      service: label.service,
+      estimatedDelivery: label.estimatedDelivery,
+      shippingCost: rate.amount,
       completedAt: new Date().toISOString()
     });
 
     return {
       success: true,
-      trackingId: shippingResponse.trackingNumber,
-      estimatedDelivery: new Date(shippingResponse.estimatedDelivery),
-      carrier: shippingResponse.carrier,
-      shippingCost: shippingResponse.shippingCost
+      trackingId: label.trackingNumber,
+      estimatedDelivery: new Date(label.estimatedDelivery),
+      carrier: label.carrier,
+      shippingCost: rate.amount,
+      service: label.service,
+      label
     };
 
   } catch (error) {
@@ -205,13 +254,14 @@ export async function processExternalFulfillment(orderData: FulfillmentOrderData
 }
 
 /**
- * Get shipping cost estimate (can be called before order placement)
+ * Get shipping cost estimate (can be called before order placement).
+ * Returns the cheapest carrier quote for the method plus all quotes.
  */
 export async function getShippingEstimate(
-  items: Array<{ quantity: number; weight?: number }>,
+  items: Array<{ quantity: number; weight?: number; dimensions?: { length: number; width: number; height: number } }>,
   shippingMethod: 'standard' | 'express' | 'overnight',
-  destination: { country: string; postalCode: string }
-): Promise<{ cost: number; estimatedDays: number }> {
+  destination: { country: string; postalCode: string; state?: string }
+): Promise<{ cost: number; estimatedDays: number; carrier?: string; service?: string; quotes: RateQuote[] }> {
   
   console.log('💰 Calculating shipping estimate:', {
     itemCount: items.length,
@@ -219,28 +269,44 @@ export async function getShippingEstimate(
     destination
   });
 
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 500));
+  const quotes = await getCarrierAdapter().getRates({
+    from: getShipFromAddress(),
+    to: destination,
+    parcels: [buildParcel(items)],
+    serviceLevel: shippingMethod
+  });
 
-  const baseCost = shippingMethod === 'overnight' ? 29.99 :
-                   shippingMethod === 'express' ? 19.99 : 9.99;
-  
-  const itemCost = items.reduce((total, item) => total + (item.quantity * 2.50), 0);
-  
-  // International shipping surcharge
-  const internationalSurcharge = destination.country !== 'US' ? 15.00 : 0;
-  
-  const totalCost = baseCost + itemCost + internationalSurcharge;
-  
-  const estimatedDays = shippingMethod === 'overnight' ? 1 :
-                       shippingMethod === 'express' ? 2 : 5;
+  const cheapest = selectCheapestRate(quotes);
+  if (!cheapest) {
+    throw new Error(`No ${shippingMethod} rates available for ${destination.country}`);
+  }
 
   return {
-    cost: Math.round(totalCost * 100) / 100,
-    estimatedDays
+    cost: cheapest.amount,
+    estimatedDays: cheapest.estimatedDays,
+    carrier: cheapest.carrier,
+    service: cheapest.service,
+    quotes
   };
 }
 
+/**
+ * Void an unused shipping label (e.g. when an order is cancelled before dispatch)
+ */
+export async function voidShipment(label: ShippingLabel): Promise<boolean> {
+  console.log('🗑️ Voiding shipping label:', { labelId: label.id, trackingNumber: label.trackingNumber });
+  return getCarrierAdapter().voidLabel(label);
+}
+
+const TRACKING_STATUS_MAP: Record<TrackingStatus, 'in_transit' | 'delivered' | 'pending' | 'exception'> = {
+  pre_transit: 'pending',
+  in_transit: 'in_transit',
+  out_for_delivery: 'in_transit',
+  delivered: 'delivered',
+  exception: 'exception',
+  voided: 'exception'
+};
+
 /**
  * Track an existing order
  */
@@ -252,35 +318,17 @@ export async function trackOrder(trackingId: string): Promise<{
 }> {
   console.log('📍 Tracking order:', trackingId);
   
-  // Simulate tracking API call
-  await new Promise(resolve => setTimeout(resolve, 800));
-  
-  const statuses = ['pending', 'in_transit', 'delivered'] as const;
-  const locations = ['Origin Facility', 'In Transit', 'Local Facility', 'Out for Delivery'];
-  
-  const currentStatus = statuses[Math.floor(Math.random() * statuses.length)];
-  const currentLocation = locations[Math.floor(Math.random() * locations.length)];
+  const tracking = await getCarrierAdapter().track(trackingId);
+  const latest = tracking.events[tracking.events.length - 1];
   
   return {
-    status: currentStatus,
-    location: currentLocation,
-    estimatedDelivery: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000), // 2 days from now
-    updates: [
-      {
-        timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000), // 1 day ago
-        status: 'Order Processed',
-        location: 'Origin Facility'
-      },
-      {
-        timestamp: new Date(Date.now() - 12 * 60 * 60 * 1000), // 12 hours ago
-        status: 'In Transit',
-        location: 'Regional Hub'
-      },
-      {
-        timestamp: new Date(),
-        status: currentStatus === 'delivered' ? 'Delivered' : 'In Transit',
-        location: currentLocation
-      }
-    ]
+    status: TRACKING_STATUS_MAP[tracking.status],
+    location: latest?.location || 'Unknown',
+    estimatedDelivery: new Date(tracking.estimatedDelivery || Date.now()),
+    updates: tracking.events.map(event => ({
+      timestamp: new Date(event.timestamp),
+      status: event.description,
+      location: event.location
+    }))
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,412 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  FulfillmentOrderData,
+  notifyERPSystem,
+  purchaseShipment,
+  updateInventorySystem
+} from './fulfillment';
+import { applyAllocations, getOrderAllocations } from './inventory';
+import {
+  attachShipmentLabel,
+  createPlannedShipments,
+  getOrderShipments,
+  getShipment,
+  orderDataForShipment,
+  planShipments
+} from './shipments';
+import { transitionOrder } from './orderLifecycle';
+import { createDownloadEntitlements } from './digitalDownloads';
+import { issueOrderLicenses } from './licenses';
+
+export type FulfillmentJobType = 'plan_shipments' | 'reserve_inventory' | 'notify_erp' | 'purchase_label';
+
+export type FulfillmentJobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'dead';
+
+/**
+ * Row shape of the `fulfillment_jobs` table (see database/fulfillment-jobs-setup.sql)
+ */
+export interface FulfillmentJob {
+  id: string;
+  order_id: string;
+  job_type: FulfillmentJobType;
+  shipment_id: string | null;
+  idempotency_key: string;
+  payload: FulfillmentOrderData;
+  status: FulfillmentJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  locked_by: string | null;
+  last_error: string | null;
+  result: Record<string, any> | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface WorkerRunResult {
+  workerId: string;
+  claimed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+}
+
+/**
+ * Steps run in this order; each succeeded job queues the next one.
+ * reserve_inventory commits the stock held at checkout, plan_shipments
+ * splits the order by the warehouses that stock was allocated from and
+ * delivers digital lines straight away (issuing license keys for software
+ * and creating download entitlements, see licenses.ts and
+ * digitalDownloads.ts); the remaining steps only run when
+ * there is something to ship, and purchase_label runs once per physical
+ * shipment.
+ */
+export const FULFILLMENT_JOB_SEQUENCE: FulfillmentJobType[] = ['reserve_inventory', 'plan_shipments', 'notify_erp', 'purchase_label'];
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+function createQueueClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m ... capped at one hour
+ */
+export function calculateBackoff(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)), BACKOFF_MAX_MS);
+}
+
+export function getIdempotencyKey(orderId: string, jobType: FulfillmentJobType, shipmentId?: string | null): string {
+  return shipmentId ? `${orderId}:${jobType}:${shipmentId}` : `${orderId}:${jobType}`;
+}
+
+/**
+ * Queue a fulfillment step. Enqueueing the same order and step (and
+ * shipment) twice is a no-op. Returns false when the queue database is
+ * not configured.
+ */
+export async function enqueueFulfillmentJob(
+  jobType: FulfillmentJobType,
+  orderData: FulfillmentOrderData,
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS,
+  shipmentId: string | null = null
+): Promise<boolean> {
+  const supabase = createQueueClient();
+  if (!supabase) {
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('fulfillment_jobs')
+    .upsert({
+      order_id: orderData.orderId,
+      job_type: jobType,
+      shipment_id: shipmentId,
+      idempotency_key: getIdempotencyKey(orderData.orderId, jobType, shipmentId),
+      payload: orderData,
+      max_attempts: maxAttempts
+    }, { onConflict: 'idempotency_key', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('Error enqueueing fulfillment job:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Start fulfillment for an order by queueing its first step
+ */
+export async function enqueueFulfillment(orderData: FulfillmentOrderData): Promise<boolean> {
+  return enqueueFulfillmentJob(FULFILLMENT_JOB_SEQUENCE[0], orderData);
+}
+
+async function updateOrder(orderId: string, updates: Record<string, any>): Promise<void> {
+  const supabase = createQueueClient();
+  if (!supabase) return;
+
+  const { error } = await supabase
+    .from('orders')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', orderId);
+
+  if (error) {
+    // Surface as a job failure so the status change is retried
+    throw new Error(`Failed to update order ${orderId}: ${error.message}`);
+  }
+}
+
+/**
+ * Run one job. Throws on failure so the worker can schedule a retry.
+ * Order status only moves forward once the step has actually succeeded.
+ */
+async function runJob(job: FulfillmentJob): Promise<Record<string, any>> {
+  const orderData: FulfillmentOrderData = {
+    ...job.payload,
+    orderDate: new Date(job.payload.orderDate)
+  };
+
+  switch (job.job_type) {
+    case 'reserve_inventory': {
+      if (!await updateInventorySystem(orderData)) {
+        throw new Error('Failed to update inventory system');
+      }
+      return { reserved: orderData.items.length };
+    }
+
+    case 'plan_shipments': {
+      const items = applyAllocations(orderData.items, await getOrderAllocations(job.order_id));
+      const shipments = await createPlannedShipments(job.order_id, planShipments(items));
+      // Licenses first so their keys go out in the download email
+      const licenses = await issueOrderLicenses(orderData);
+      const downloads = await createDownloadEntitlements(orderData);
+      return {
+        downloadsCreated: downloads.length,
+        licensesIssued: licenses.length,
+        shipments: shipments.map(shipment => ({
+          id: shipment.id,
+          fulfillmentType: shipment.fulfillment_type,
+          warehouseId: shipment.warehouse_id,
+          items: shipment.shipment_items.length
+        })),
+        physicalShipments: shipments.filter(shipment => shipment.fulfillment_type === 'physical').length
+      };
+    }
+
+    case 'notify_erp': {
+      if (!await notifyERPSystem(orderData)) {
+        throw new Error('Failed to notify ERP system');
+      }
+      // Orders whose shipments already moved them on keep their status
+      await transitionOrder(job.order_id, 'processing', { actor: 'fulfillment', from: ['paid'] });
+      return { notified: true };
+    }
+
+    case 'purchase_label': {
+      // The order moves to partially_shipped/shipped/delivered from carrier
+      // tracking events (see shipments.ts)
+      const shipment = job.shipment_id ? await getShipment(job.shipment_id) : null;
+      if (job.shipment_id && !shipment) {
+        throw new Error(`Shipment ${job.shipment_id} not found`);
+      }
+
+      const { rate, label } = await purchaseShipment(
+        shipment ? orderDataForShipment(orderData, shipment) : orderData,
+        job.idempotency_key
+      );
+      if (shipment) {
+        await attachShipmentLabel(shipment.id, label);
+      }
+      await updateOrder(job.order_id, { tracking_number: label.trackingNumber });
+      return { shipmentId: job.shipment_id, carrier: label.carrier, service: label.service, trackingNumber: label.trackingNumber, shippingCost: rate.amount, label };
+    }
+
+    default:
+      throw new Error(`Unknown fulfillment job type: ${job.job_type}`);
+  }
+}
+
+/**
+ * Queue whatever follows a succeeded job. Returns the number of jobs queued
+ * and throws if any of them could not be, so the job is retried.
+ */
+async function enqueueNextJobs(job: FulfillmentJob, output: Record<string, any>): Promise<number> {
+  let next = FULFILLMENT_JOB_SEQUENCE[FULFILLMENT_JOB_SEQUENCE.indexOf(job.job_type) + 1];
+
+  // Digital-only orders are complete once their shipments are planned
+  if (job.job_type === 'plan_shipments' && output.physicalShipments === 0) {
+    return 0;
+  }
+  if (!next) {
+    return 0;
+  }
+
+  if (next !== 'purchase_label') {
+    if (!await enqueueFulfillmentJob(next, job.payload, job.max_attempts)) {
+      throw new Error(`Failed to queue ${next} job`);
+    }
+    return 1;
+  }
+
+  // Orders queued before shipments were planned get their plan now
+  let shipments = await getOrderShipments(job.order_id);
+  if (shipments.length === 0) {
+    const items = applyAllocations(job.payload.items, await getOrderAllocations(job.order_id));
+    shipments = await createPlannedShipments(job.order_id, planShipments(items));
+  }
+
+  // One label per physical shipment that doesn't have one yet
+  shipments = shipments.filter(shipment => shipment.fulfillment_type === 'physical' && shipment.status === 'pending');
+
+  for (const shipment of shipments) {
+    if (!await enqueueFulfillmentJob(next, job.payload, job.max_attempts, shipment.id)) {
+      throw new Error(`Failed to queue ${next} job for shipment ${shipment.id}`);
+    }
+  }
+  return shipments.length;
+}
+
+/**
+ * Worker entry point: claim due jobs, run them, and record the outcome.
+ * Failed jobs are retried with exponential backoff and move to the
+ * dead-letter list (status 'dead') after max_attempts.
+ */
+export async function runFulfillmentWorker(options: {
+  workerId?: string;
+  limit?: number;
+} = {}): Promise<WorkerRunResult> {
+  const workerId = options.workerId || `worker-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+  const result: WorkerRunResult = { workerId, claimed: 0, succeeded: 0, retried: 0, dead: 0 };
+
+  const supabase = createQueueClient();
+  if (!supabase) {
+    console.warn('Fulfillment worker: Supabase configuration missing, nothing to do');
+    return result;
+  }
+
+  const { data: jobs, error } = await supabase.rpc('claim_fulfillment_jobs', {
+    p_worker_id: workerId,
+    p_limit: options.limit || 10
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim fulfillment jobs: ${error.message}`);
+  }
+
+  result.claimed = (jobs || []).length;
+
+  for (const job of (jobs || []) as FulfillmentJob[]) {
+    try {
+      const output = await runJob(job);
+
+      await enqueueNextJobs(job, output);
+
+      await supabase
+        .from('fulfillment_jobs')
+        .update({
+          status: 'succeeded',
+          result: output,
+          last_error: null,
+          locked_at: null,
+          locked_by: null,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', job.id);
+
+      result.succeeded++;
+      console.log('✅ Fulfillment job succeeded:', { jobId: job.id, orderId: job.order_id, jobType: job.job_type });
+    } catch (jobError) {
+      const message = jobError instanceof Error ? jobError.message : 'Unknown fulfillment error';
+      const dead = job.attempts >= job.max_attempts;
+
+      await supabase
+        .from('fulfillment_jobs')
+        .update({
+          status: dead ? 'dead' : 'failed',
+          last_error: message,
+          locked_at: null,
+          locked_by: null,
+          run_after: new Date(Date.now() + calculateBackoff(job.attempts)).toISOString()
+        })
+        .eq('id', job.id);
+
+      if (dead) {
+        result.dead++;
+        console.error('💀 Fulfillment job moved to dead-letter list:', { jobId: job.id, orderId: job.order_id, jobType: job.job_type, attempts: job.attempts, error: message });
+      } else {
+        result.retried++;
+        console.warn('🔁 Fulfillment job failed, will retry:', { jobId: job.id, orderId: job.order_id, jobType: job.job_type, attempts: job.attempts, error: message });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Jobs for the admin dashboard, newest first
+ */
+export async function listFulfillmentJobs(options: {
+  status?: FulfillmentJobStatus;
+  orderId?: string;
+  limit?: number;
+} = {}): Promise<FulfillmentJob[]> {
+  const supabase = createQueueClient();
+  if (!supabase) return [];
+
+  let query = supabase
+    .from('fulfillment_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(options.limit || 100);
+
+  if (options.status) query = query.eq('status', options.status);
+  if (options.orderId) query = query.eq('order_id', options.orderId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to fetch fulfillment jobs: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Job counts by status
+ */
+export async function getFulfillmentJobCounts(): Promise<Record<FulfillmentJobStatus, number>> {
+  const counts: Record<FulfillmentJobStatus, number> = { pending: 0, running: 0, succeeded: 0, failed: 0, dead: 0 };
+  const supabase = createQueueClient();
+  if (!supabase) return counts;
+
+  await Promise.all((Object.keys(counts) as FulfillmentJobStatus[]).map(async status => {
+    const { count } = await supabase
+      .from('fulfillment_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', status);
+    counts[status] = count || 0;
+  }));
+
+  return counts;
+}
+
+/**
+ * Put a failed or dead job back on the queue with a fresh set of attempts
+ */
+export async function requeueFulfillmentJob(jobId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = createQueueClient();
+  if (!supabase) {
+    return { success: false, error: 'Supabase configuration missing' };
+  }
+
+  const { data, error } = await supabase
+    .from('fulfillment_jobs')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      run_after: new Date().toISOString(),
+      locked_at: null,
+      locked_by: null
+    })
+    .eq('id', jobId)
+    .in('status', ['failed', 'dead'])
+    .select('id');
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Only failed or dead jobs can be requeued' };
+  }
+
+  return { success: true };
+}
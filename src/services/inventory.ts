@@ -0,0 +1,511 @@
+import { createClient } from '@supabase/supabase-js';
+import type { FulfillmentOrderData } from './fulfillment';
+import { stockKey } from './productVariants';
+
+export type ReservationStatus = 'active' | 'committed' | 'released' | 'expired';
+
+export type MovementType = 'receipt' | 'adjustment' | 'reservation' | 'release' | 'commit' | 'return' | 'transfer';
+
+export type StockStatus = 'normal' | 'low' | 'critical' | 'out_of_stock';
+
+/**
+ * Row shape of the `warehouses` table (see database/inventory-setup.sql)
+ */
+export interface Warehouse {
+  id: string;
+  name: string;
+  country: string;
+  priority: number;
+  is_active: boolean;
+}
+
+/**
+ * Row shape of the `inventory_levels` table
+ */
+export interface InventoryLevel {
+  product_id: string;
+  warehouse_id: string;
+  on_hand: number;
+  reserved: number;
+  available: number;
+  reorder_point: number;
+  reorder_quantity?: number | null;
+}
+
+/**
+ * Row shape of the `inventory_by_location` view
+ */
+export interface InventoryLocationRow extends InventoryLevel {
+  id: string;
+  product_name: string;
+  sku: string | null;
+  warehouse_name: string;
+  stock_status: StockStatus;
+  updated_at: string;
+}
+
+/**
+ * Row shape of the `inventory_movements` ledger
+ */
+export interface InventoryMovement {
+  id: string;
+  product_id: string;
+  warehouse_id: string;
+  movement_type: MovementType;
+  on_hand_change: number;
+  reserved_change: number;
+  on_hand_after: number;
+  reserved_after: number;
+  reference_type: string | null;
+  reference_id: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+// Ledger rows are keyed by product id, or by variant id for products with
+// variants (see stockKey)
+export interface StockLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  isDigital?: boolean;
+}
+
+export interface StockAllocation {
+  productId: string; // Stock key: the variant id for variant lines
+  warehouseId: string;
+  quantity: number;
+}
+
+export interface AllocationResult {
+  allocations: StockAllocation[];
+  shortfalls: Array<{ productId: string; quantity: number }>;
+}
+
+export interface ReservationResult {
+  success: boolean;
+  tracked: boolean; // false when there is no inventory database to reserve against
+  allocations: StockAllocation[];
+  shortfalls?: Array<{ productId: string; quantity: number }>;
+  error?: string;
+}
+
+export const DEFAULT_RESERVATION_TTL_MINUTES = 30;
+
+function createInventoryClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * How long checkout reservations hold stock (INVENTORY_RESERVATION_TTL_MINUTES)
+ */
+export function getReservationTtlMinutes(): number {
+  const ttl = Number(process.env.INVENTORY_RESERVATION_TTL_MINUTES);
+  return ttl > 0 ? ttl : DEFAULT_RESERVATION_TTL_MINUTES;
+}
+
+/**
+ * Rank warehouses for an order: active warehouses in the destination
+ * country first, then by priority (lowest first), then by id
+ */
+export function rankWarehouses(warehouses: Warehouse[], destinationCountry?: string): Warehouse[] {
+  const country = destinationCountry?.toUpperCase();
+  return warehouses
+    .filter(warehouse => warehouse.is_active)
+    .sort((a, b) => {
+      const domesticA = country && a.country === country ? 0 : 1;
+      const domesticB = country && b.country === country ? 0 : 1;
+      return domesticA - domesticB || a.priority - b.priority || a.id.localeCompare(b.id);
+    });
+}
+
+/**
+ * Pick the warehouse(s) each order line ships from:
+ *
+ * 1. Digital lines and products without inventory records are not allocated
+ * 2. The highest-ranked warehouse that can fill every line on its own is
+ *    used for the whole order, so it ships as one parcel
+ * 3. Otherwise each line is filled from warehouses in rank order, splitting
+ *    a line across warehouses when one location runs short
+ *
+ * Quantities no warehouse can cover are returned as shortfalls.
+ */
+export function allocateStock(
+  lines: StockLine[],
+  levels: InventoryLevel[],
+  warehouses: Warehouse[],
+  destinationCountry?: string
+): AllocationResult {
+  const ranked = rankWarehouses(warehouses, destinationCountry);
+  const trackedProducts = new Set(levels.map(level => level.product_id));
+
+  // Merge duplicate lines so availability is checked against the total
+  const demand = new Map<string, number>();
+  for (const line of lines) {
+    const key = stockKey(line);
+    if (line.isDigital || line.quantity <= 0 || !trackedProducts.has(key)) continue;
+    demand.set(key, (demand.get(key) || 0) + line.quantity);
+  }
+
+  const available = (productId: string, warehouseId: string) =>
+    levels.find(level => level.product_id === productId && level.warehouse_id === warehouseId)?.available || 0;
+
+  const single = ranked.find(warehouse =>
+    Array.from(demand.entries()).every(([productId, quantity]) => available(productId, warehouse.id) >= quantity)
+  );
+
+  if (single) {
+    return {
+      allocations: Array.from(demand.entries()).map(([productId, quantity]) => ({ productId, warehouseId: single.id, quantity })),
+      shortfalls: []
+    };
+  }
+
+  const result: AllocationResult = { allocations: [], shortfalls: [] };
+
+  demand.forEach((quantity, productId) => {
+    let remaining = quantity;
+    for (const warehouse of ranked) {
+      if (remaining === 0) break;
+      const take = Math.min(remaining, Math.max(0, available(productId, warehouse.id)));
+      if (take > 0) {
+        result.allocations.push({ productId, warehouseId: warehouse.id, quantity: take });
+        remaining -= take;
+      }
+    }
+    if (remaining > 0) {
+      result.shortfalls.push({ productId, quantity: remaining });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Allocate and reserve stock for an order. All lines are reserved in one
+ * transaction, so a failure leaves nothing held. Reserving an order that
+ * already has reservations is a no-op that returns the existing allocation.
+ */
+export async function reserveOrderInventory(
+  orderId: string,
+  lines: StockLine[],
+  options: { destinationCountry?: string; ttlMinutes?: number } = {}
+): Promise<ReservationResult> {
+  const supabase = createInventoryClient();
+  if (!supabase) {
+    return { success: true, tracked: false, allocations: [] };
+  }
+
+  const existing = await getOrderAllocations(orderId);
+  if (existing.length > 0) {
+    return { success: true, tracked: true, allocations: existing };
+  }
+
+  const productIds = Array.from(new Set(lines.filter(line => !line.isDigital).map(stockKey)));
+  if (productIds.length === 0) {
+    return { success: true, tracked: true, allocations: [] };
+  }
+
+  const [{ data: levels, error: levelsError }, { data: warehouses, error: warehousesError }] = await Promise.all([
+    supabase.from('inventory_levels').select('product_id, warehouse_id, on_hand, reserved, available, reorder_point').in('product_id', productIds),
+    supabase.from('warehouses').select('id, name, country, priority, is_active')
+  ]);
+
+  if (levelsError || warehousesError) {
+    return { success: false, tracked: true, allocations: [], error: (levelsError || warehousesError)!.message };
+  }
+
+  const { allocations, shortfalls } = allocateStock(lines, levels || [], warehouses || [], options.destinationCountry);
+
+  if (shortfalls.length > 0) {
+    return { success: false, tracked: true, allocations: [], shortfalls, error: 'Insufficient stock' };
+  }
+  if (allocations.length === 0) {
+    return { success: true, tracked: true, allocations: [] };
+  }
+
+  const expiresAt = new Date(Date.now() + (options.ttlMinutes || getReservationTtlMinutes()) * 60 * 1000);
+  const { error } = await supabase.rpc('reserve_order_inventory', {
+    p_order_id: orderId,
+    p_allocations: allocations.map(allocation => ({
+      product_id: allocation.productId,
+      warehouse_id: allocation.warehouseId,
+      quantity: allocation.quantity
+    })),
+    p_expires_at: expiresAt.toISOString()
+  });
+
+  if (error) {
+    // Another checkout took the stock between reading levels and reserving
+    const insufficient = error.message.includes('insufficient_stock');
+    return { success: false, tracked: true, allocations: [], error: insufficient ? 'Insufficient stock' : error.message };
+  }
+
+  return { success: true, tracked: true, allocations };
+}
+
+/**
+ * Turn an order's active reservations into sold stock (on payment)
+ */
+export async function commitOrderInventory(orderId: string): Promise<number> {
+  const supabase = createInventoryClient();
+  if (!supabase) return 0;
+
+  const { data, error } = await supabase.rpc('commit_order_inventory', { p_order_id: orderId });
+  if (error) throw new Error(`Failed to commit inventory for order ${orderId}: ${error.message}`);
+  return data || 0;
+}
+
+/**
+ * Give an order's active reservations back (cancellation or checkout expiry)
+ */
+export async function releaseOrderInventory(
+  orderId: string,
+  status: 'released' | 'expired' = 'released'
+): Promise<number> {
+  const supabase = createInventoryClient();
+  if (!supabase) return 0;
+
+  const { data, error } = await supabase.rpc('release_order_inventory', { p_order_id: orderId, p_status: status });
+  if (error) throw new Error(`Failed to release inventory for order ${orderId}: ${error.message}`);
+  return data || 0;
+}
+
+/**
+ * Release reservations whose TTL has passed. Returns the number of orders released.
+ */
+export async function expireInventoryReservations(): Promise<number> {
+  const supabase = createInventoryClient();
+  if (!supabase) return 0;
+
+  const { data, error } = await supabase.rpc('expire_inventory_reservations');
+  if (error) throw new Error(`Failed to expire inventory reservations: ${error.message}`);
+  return data || 0;
+}
+
+/**
+ * Keep an order's reservations until its Stripe Checkout session expires
+ */
+export async function attachReservationsToSession(
+  orderId: string,
+  sessionId: string,
+  expiresAt: Date
+): Promise<void> {
+  const supabase = createInventoryClient();
+  if (!supabase) return;
+
+  await supabase
+    .from('inventory_reservations')
+    .update({ stripe_session_id: sessionId, expires_at: expiresAt.toISOString() })
+    .eq('order_id', orderId)
+    .eq('status', 'active');
+}
+
+/**
+ * Where an order's stock is held: active and committed reservations
+ */
+export async function getOrderAllocations(orderId: string): Promise<StockAllocation[]> {
+  const supabase = createInventoryClient();
+  if (!supabase) return [];
+
+  const { data } = await supabase
+    .from('inventory_reservations')
+    .select('product_id, warehouse_id, quantity')
+    .eq('order_id', orderId)
+    .in('status', ['active', 'committed']);
+
+  return (data || []).map(row => ({
+    productId: row.product_id,
+    warehouseId: row.warehouse_id,
+    quantity: row.quantity
+  }));
+}
+
+/**
+ * Split order lines by the warehouse their stock was allocated from, so
+ * shipments are planned per location. Lines without an allocation keep
+ * whatever warehouse they had.
+ */
+export function applyAllocations(
+  items: FulfillmentOrderData['items'],
+  allocations: StockAllocation[]
+): FulfillmentOrderData['items'] {
+  const remaining = allocations.map(allocation => ({ ...allocation }));
+  const result: FulfillmentOrderData['items'] = [];
+
+  for (const item of items) {
+    let quantity = item.quantity;
+    for (const allocation of remaining) {
+      if (quantity === 0) break;
+      if (item.isDigital || allocation.productId !== stockKey(item) || allocation.quantity === 0) continue;
+      const take = Math.min(quantity, allocation.quantity);
+      result.push({ ...item, quantity: take, warehouseId: allocation.warehouseId });
+      allocation.quantity -= take;
+      quantity -= take;
+    }
+    if (quantity > 0) {
+      result.push({ ...item, quantity });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reserve (if the order has no reservations yet) and commit an order's
+ * stock. Used by fulfillment for orders that were paid at checkout.
+ */
+export async function ensureOrderInventoryCommitted(orderData: FulfillmentOrderData): Promise<ReservationResult> {
+  const reservation = await reserveOrderInventory(orderData.orderId, orderData.items, {
+    destinationCountry: orderData.customerInfo.address.country
+  });
+  if (!reservation.success || !reservation.tracked) {
+    return reservation;
+  }
+
+  await commitOrderInventory(orderData.orderId);
+  return reservation;
+}
+
+/**
+ * Available stock per product (or variant id), summed across warehouses.
+ * Products the ledger doesn't track are left out of the map; null without
+ * a database.
+ */
+export async function getAvailableStock(productIds: string[]): Promise<Map<string, number> | null> {
+  const supabase = createInventoryClient();
+  if (!supabase) return null;
+
+  const available = new Map<string, number>();
+  if (productIds.length === 0) return available;
+
+  const { data, error } = await supabase
+    .from('inventory_levels')
+    .select('product_id, available')
+    .in('product_id', productIds);
+
+  if (error) throw new Error(`Failed to fetch stock levels: ${error.message}`);
+
+  for (const level of data || []) {
+    available.set(level.product_id, (available.get(level.product_id) || 0) + Math.max(0, level.available));
+  }
+  return available;
+}
+
+/**
+ * Stock per product and warehouse for the inventory dashboard
+ */
+export async function getInventoryByLocation(options: {
+  warehouseId?: string;
+  productId?: string;
+} = {}): Promise<InventoryLocationRow[]> {
+  const supabase = createInventoryClient();
+  if (!supabase) return [];
+
+  let query = supabase
+    .from('inventory_by_location')
+    .select('*')
+    .order('available', { ascending: true });
+
+  if (options.warehouseId) query = query.eq('warehouse_id', options.warehouseId);
+  if (options.productId) query = query.eq('product_id', options.productId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to fetch inventory: ${error.message}`);
+  return data || [];
+}
+
+export async function listWarehouses(): Promise<Warehouse[]> {
+  const supabase = createInventoryClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('warehouses')
+    .select('id, name, country, priority, is_active')
+    .order('priority', { ascending: true });
+
+  if (error) throw new Error(`Failed to fetch warehouses: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Most recent ledger entries, newest first
+ */
+export async function listInventoryMovements(limit: number = 50): Promise<InventoryMovement[]> {
+  const supabase = createInventoryClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('inventory_movements')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to fetch inventory movements: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Receive, count or write off stock at one warehouse
+ */
+export async function adjustInventory(
+  productId: string,
+  warehouseId: string,
+  quantityChange: number,
+  movementType: 'receipt' | 'adjustment' | 'return' | 'transfer' = 'adjustment',
+  notes?: string
+): Promise<{ success: boolean; level?: InventoryLevel; error?: string }> {
+  const supabase = createInventoryClient();
+  if (!supabase) {
+    return { success: false, error: 'Supabase configuration missing' };
+  }
+
+  const { data, error } = await supabase.rpc('adjust_inventory', {
+    p_product_id: productId,
+    p_warehouse_id: warehouseId,
+    p_quantity_change: quantityChange,
+    p_movement_type: movementType,
+    p_notes: notes || null
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, level: data };
+}
+
+/**
+ * Set when a location should be restocked and how much to order
+ * (a null reorder quantity orders up to twice the reorder point)
+ */
+export async function updateReorderSettings(
+  productId: string,
+  warehouseId: string,
+  reorderPoint: number,
+  reorderQuantity: number | null = null
+): Promise<InventoryLevel> {
+  const supabase = createInventoryClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase
+    .from('inventory_levels')
+    .upsert({
+      product_id: productId,
+      warehouse_id: warehouseId,
+      reorder_point: reorderPoint,
+      reorder_quantity: reorderQuantity
+    }, { onConflict: 'product_id,warehouse_id' })
+    .select('product_id, warehouse_id, on_hand, reserved, available, reorder_point, reorder_quantity')
+    .single();
+
+  if (error) throw new Error(`Failed to update reorder settings: ${error.message}`);
+  return data;
+}
@@ -0,0 +1,581 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import type { FulfillmentOrderData } from './fulfillment';
+import type { CustomerIdentity } from '../lib/customerAuth';
+
+export type LicenseKeySource = 'generated' | 'pool';
+
+export type LicenseStatus = 'active' | 'expired' | 'revoked';
+
+// Prefix of store-generated keys; pool keys use the vendor's format
+export const LICENSE_KEY_PREFIX = 'AURORA-';
+
+/**
+ * Row shape of the `license_products` table (see database/licenses-setup.sql)
+ */
+export interface LicenseProduct {
+  product_id: string;
+  key_source: LicenseKeySource;
+  seats: number;
+  valid_days: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Row shape of the `licenses` table. One live license per software line of
+ * a paid order.
+ */
+export interface License {
+  id: string;
+  order_id: string;
+  product_id: string;
+  product_name: string | null;
+  user_id: string | null;
+  customer_email: string | null;
+  license_key: string;
+  key_source: LicenseKeySource;
+  seats: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  revoked_reason: string | null;
+  replaces_license_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Row shape of the `license_activations` table
+ */
+export interface LicenseActivation {
+  id: string;
+  license_id: string;
+  device_id: string;
+  device_name: string | null;
+  ip_address: string | null;
+  activated_at: string;
+  last_seen_at: string;
+  deactivated_at: string | null;
+}
+
+export type LicenseWithActivations = License & { license_activations: LicenseActivation[] };
+
+/**
+ * What a generated key carries, so the software can check it offline
+ * against the public key from /api/licenses/public-key
+ */
+export interface LicenseKeyPayload {
+  id: string; // License id
+  pid: string; // Product id
+  seats: number;
+  exp: number | null; // Expiry (ms since epoch), null for perpetual
+  iat: number;
+}
+
+/**
+ * A license as the customer sees it on the downloads page
+ */
+export interface CustomerLicense {
+  id: string;
+  licenseKey: string;
+  status: LicenseStatus;
+  seats: number;
+  seatsUsed: number;
+  expiresAt: string | null;
+}
+
+export interface LicenseActivationResult {
+  activationId: string;
+  licenseId: string;
+  productId: string;
+  seats: number;
+  seatsUsed: number;
+  expiresAt: string | null;
+}
+
+export interface LicensePoolSummary {
+  productId: string;
+  keySource: LicenseKeySource;
+  seats: number;
+  validDays: number | null;
+  available: number;
+  assigned: number;
+}
+
+// Raised by the activate_license function (see database/licenses-setup.sql)
+const ACTIVATION_ERRORS = [
+  'License not found',
+  'License has been revoked',
+  'License has expired',
+  'No seats left on this license'
+];
+
+function createLicensesClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function getSigningKey(): crypto.KeyObject {
+  const pem = process.env.LICENSE_SIGNING_PRIVATE_KEY;
+  if (!pem) throw new Error('LICENSE_SIGNING_PRIVATE_KEY is not configured');
+  return crypto.createPrivateKey(pem.replace(/\\n/g, '\n'));
+}
+
+/**
+ * PEM public key that verifies generated keys. Ship it with the software.
+ */
+export function getLicensePublicKey(): string {
+  return crypto.createPublicKey(getSigningKey()).export({ type: 'spki', format: 'pem' }).toString();
+}
+
+/**
+ * Ed25519-signed key (format: AURORA-base64url(payload).signature)
+ */
+export function signLicenseKey(payload: LicenseKeyPayload): string {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = crypto.sign(null, Buffer.from(encoded), getSigningKey()).toString('base64url');
+  return `${LICENSE_KEY_PREFIX}${encoded}.${signature}`;
+}
+
+/**
+ * The payload of a generated key, or null when the signature doesn't match.
+ * Doesn't check expiry or revocation; pool keys always return null.
+ */
+export function verifyLicenseKey(licenseKey: string): LicenseKeyPayload | null {
+  if (!licenseKey.startsWith(LICENSE_KEY_PREFIX)) return null;
+
+  const [encoded, signature] = licenseKey.slice(LICENSE_KEY_PREFIX.length).split('.');
+  if (!encoded || !signature) return null;
+
+  try {
+    const publicKey = crypto.createPublicKey(getSigningKey());
+    if (!crypto.verify(null, Buffer.from(encoded), publicKey, Buffer.from(signature, 'base64url'))) {
+      return null;
+    }
+    return JSON.parse(Buffer.from(encoded, 'base64url').toString()) as LicenseKeyPayload;
+  } catch {
+    return null;
+  }
+}
+
+export function getLicenseStatus(license: Pick<License, 'expires_at' | 'revoked_at'>): LicenseStatus {
+  if (license.revoked_at) return 'revoked';
+  if (license.expires_at && new Date(license.expires_at).getTime() <= Date.now()) return 'expired';
+  return 'active';
+}
+
+export function toCustomerLicense(license: LicenseWithActivations): CustomerLicense {
+  return {
+    id: license.id,
+    licenseKey: license.license_key,
+    status: getLicenseStatus(license),
+    seats: license.seats,
+    seatsUsed: (license.license_activations || []).filter(activation => !activation.deactivated_at).length,
+    expiresAt: license.expires_at
+  };
+}
+
+async function getLicenseProducts(productIds: string[]): Promise<LicenseProduct[]> {
+  const supabase = createLicensesClient();
+  if (!supabase || productIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('license_products')
+    .select('*')
+    .in('product_id', productIds);
+
+  if (error) throw new Error(`Failed to fetch license products: ${error.message}`);
+  return (data || []) as LicenseProduct[];
+}
+
+/**
+ * Insert a license for an order line, taking a key from the pool or
+ * signing a new one. Throws when the pool is empty.
+ */
+async function createLicense(
+  details: Pick<License, 'order_id' | 'product_id' | 'product_name' | 'user_id' | 'customer_email' | 'seats' | 'expires_at'>
+    & { replaces_license_id?: string | null },
+  keySource: LicenseKeySource
+): Promise<License> {
+  const supabase = createLicensesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const id = crypto.randomUUID();
+  let licenseKey: string;
+
+  if (keySource === 'pool') {
+    const { data: claimed, error } = await supabase.rpc('claim_license_key', {
+      p_product_id: details.product_id,
+      p_order_id: details.order_id
+    });
+    if (error) throw new Error(`Failed to claim license key: ${error.message}`);
+    if (!claimed) throw new Error(`No license keys left in the pool for product ${details.product_id}`);
+    licenseKey = claimed;
+  } else {
+    licenseKey = signLicenseKey({
+      id,
+      pid: details.product_id,
+      seats: details.seats,
+      exp: details.expires_at ? new Date(details.expires_at).getTime() : null,
+      iat: Date.now()
+    });
+  }
+
+  const { data, error } = await supabase
+    .from('licenses')
+    .insert({ id, ...details, license_key: licenseKey, key_source: keySource })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to create license: ${error.message}`);
+  return data as License;
+}
+
+/**
+ * Issue a license for each software line of a paid order. Seats are the
+ * product's seats times the quantity bought. Safe to retry: lines that
+ * already have a license are skipped. Returns the licenses created.
+ */
+export async function issueOrderLicenses(orderData: FulfillmentOrderData): Promise<License[]> {
+  const supabase = createLicensesClient();
+  const digitalItems = orderData.items.filter(item => item.isDigital && item.quantity > 0);
+  if (!supabase || digitalItems.length === 0) return [];
+
+  const licenseProducts = await getLicenseProducts(digitalItems.map(item => item.productId));
+  if (licenseProducts.length === 0) return [];
+
+  const [{ data: order }, existing] = await Promise.all([
+    supabase.from('orders').select('user_id, customer_email').eq('id', orderData.orderId).maybeSingle(),
+    getOrderLicenses(orderData.orderId)
+  ]);
+
+  const created: License[] = [];
+  for (const item of digitalItems) {
+    const config = licenseProducts.find(product => product.product_id === item.productId);
+    if (!config || existing.some(license => license.product_id === item.productId)) continue;
+
+    created.push(await createLicense({
+      order_id: orderData.orderId,
+      product_id: item.productId,
+      product_name: item.name,
+      user_id: order?.user_id || null,
+      customer_email: (order?.customer_email || orderData.customerInfo.email)?.toLowerCase() || null,
+      seats: config.seats * item.quantity,
+      expires_at: config.valid_days
+        ? new Date(Date.now() + config.valid_days * 24 * 60 * 60 * 1000).toISOString()
+        : null
+    }, config.key_source));
+  }
+
+  return created;
+}
+
+/**
+ * An order's licenses, including revoked and replaced ones, with their
+ * activations
+ */
+export async function getOrderLicenses(orderId: string): Promise<LicenseWithActivations[]> {
+  const supabase = createLicensesClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('licenses')
+    .select('*, license_activations(*)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to fetch licenses: ${error.message}`);
+  return (data || []) as LicenseWithActivations[];
+}
+
+/**
+ * The customer's licenses, newest first. Guest purchases with the
+ * customer's email count as theirs.
+ */
+export async function listCustomerLicenses(customer: CustomerIdentity): Promise<LicenseWithActivations[]> {
+  const supabase = createLicensesClient();
+  if (!supabase) return [];
+
+  const [byUser, byEmail] = await Promise.all([
+    supabase.from('licenses').select('*, license_activations(*)').eq('user_id', customer.userId),
+    // Guest purchases only count once the customer has confirmed the email
+    customer.emailConfirmed
+      ? supabase.from('licenses').select('*, license_activations(*)').is('user_id', null).eq('customer_email', customer.email.toLowerCase())
+      : { data: [], error: null }
+  ]);
+
+  const error = byUser.error || byEmail.error;
+  if (error) throw new Error(`Failed to fetch licenses: ${error.message}`);
+
+  return ([...(byUser.data || []), ...(byEmail.data || [])] as LicenseWithActivations[])
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Licenses for support, matched by order id, exact key or customer email
+ */
+export async function searchLicenses(query: string, limit: number = 50): Promise<LicenseWithActivations[]> {
+  const supabase = createLicensesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  let request = supabase
+    .from('licenses')
+    .select('*, license_activations(*)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  const term = query.trim();
+  if (term) {
+    const quoted = term.replace(/"/g, '');
+    request = request.or(`order_id.eq."${quoted}",license_key.eq."${quoted}",customer_email.ilike."%${quoted}%"`);
+  }
+
+  const { data, error } = await request;
+  if (error) throw new Error(`Failed to fetch licenses: ${error.message}`);
+  return (data || []) as LicenseWithActivations[];
+}
+
+/**
+ * Take a seat on the license for a device, or refresh the device's
+ * existing activation. Throws one of ACTIVATION_ERRORS when the key can't
+ * be used.
+ */
+export async function activateLicense(
+  licenseKey: string,
+  device: { deviceId: string; deviceName?: string | null; ipAddress: string | null }
+): Promise<LicenseActivationResult> {
+  // Forged generated keys never reach the database
+  if (licenseKey.startsWith(LICENSE_KEY_PREFIX) && !verifyLicenseKey(licenseKey)) {
+    throw new Error('License not found');
+  }
+
+  const supabase = createLicensesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase.rpc('activate_license', {
+    p_license_key: licenseKey,
+    p_device_id: device.deviceId,
+    p_device_name: device.deviceName?.slice(0, 255) || null,
+    p_ip_address: device.ipAddress
+  });
+
+  if (error) {
+    throw new Error(ACTIVATION_ERRORS.includes(error.message) ? error.message : `Failed to activate license: ${error.message}`);
+  }
+
+  return {
+    activationId: data.activation_id,
+    licenseId: data.license_id,
+    productId: data.product_id,
+    seats: data.seats,
+    seatsUsed: data.seats_used,
+    expiresAt: data.expires_at
+  };
+}
+
+/**
+ * Free the seat a device holds. Returns false when the device wasn't
+ * activated.
+ */
+export async function deactivateLicense(licenseKey: string, deviceId: string): Promise<boolean> {
+  const supabase = createLicensesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data: license } = await supabase
+    .from('licenses')
+    .select('id')
+    .eq('license_key', licenseKey)
+    .maybeSingle();
+
+  if (!license) throw new Error('License not found');
+
+  const { data, error } = await supabase
+    .from('license_activations')
+    .update({ deactivated_at: new Date().toISOString() })
+    .eq('license_id', license.id)
+    .eq('device_id', deviceId)
+    .is('deactivated_at', null)
+    .select('id');
+
+  if (error) throw new Error(`Failed to deactivate license: ${error.message}`);
+  return (data || []).length > 0;
+}
+
+/**
+ * Free a seat from the admin view, e.g. for a device the customer lost
+ */
+export async function deactivateActivation(activationId: string): Promise<LicenseActivation> {
+  const supabase = createLicensesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase
+    .from('license_activations')
+    .update({ deactivated_at: new Date().toISOString() })
+    .eq('id', activationId)
+    .is('deactivated_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to deactivate device: ${error.message}`);
+  if (!data) throw new Error('Activation not found');
+  return data as LicenseActivation;
+}
+
+async function getLicense(licenseId: string): Promise<License | null> {
+  const supabase = createLicensesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data } = await supabase
+    .from('licenses')
+    .select('*')
+    .eq('id', licenseId)
+    .maybeSingle();
+
+  return data || null;
+}
+
+export async function revokeLicense(licenseId: string, reason?: string): Promise<License> {
+  const supabase = createLicensesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase
+    .from('licenses')
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason || null })
+    .eq('id', licenseId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to revoke license: ${error.message}`);
+  if (!data) throw new Error('License not found');
+  return data as License;
+}
+
+/**
+ * Revoke every live license of an order, e.g. once it is refunded. Returns
+ * the number of licenses revoked.
+ */
+export async function revokeOrderLicenses(orderId: string, reason: string): Promise<number> {
+  const supabase = createLicensesClient();
+  if (!supabase) return 0;
+
+  const { data, error } = await supabase
+    .from('licenses')
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq('order_id', orderId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) throw new Error(`Failed to revoke licenses for order ${orderId}: ${error.message}`);
+  return (data || []).length;
+}
+
+/**
+ * Replace a license with a new key (same order line and seats) and email it
+ * to the customer. Used after a refund is reversed or when a key leaks; the
+ * old key is revoked if it isn't already and its devices have to activate
+ * again.
+ */
+export async function reissueLicense(licenseId: string, reason?: string): Promise<License> {
+  const license = await getLicense(licenseId);
+  if (!license) throw new Error('License not found');
+
+  if (!license.revoked_at) {
+    await revokeLicense(licenseId, reason || 'Re-issued');
+  }
+
+  const [config] = await getLicenseProducts([license.product_id]);
+  const replacement = await createLicense({
+    order_id: license.order_id,
+    product_id: license.product_id,
+    product_name: license.product_name,
+    user_id: license.user_id,
+    customer_email: license.customer_email,
+    seats: license.seats,
+    expires_at: license.expires_at,
+    replaces_license_id: license.id
+  }, config?.key_source || license.key_source);
+
+  await sendReissuedEmail(replacement);
+  return replacement;
+}
+
+async function sendReissuedEmail(license: License): Promise<void> {
+  if (!license.customer_email) return;
+
+  try {
+    const { sendTemplateEmail } = await import('../lib/email');
+    await sendTemplateEmail('license_key_reissued', license.customer_email, {
+      order_id: license.order_id,
+      product_name: license.product_name || license.product_id,
+      license_key: license.license_key,
+      seats: license.seats
+    });
+  } catch (error) {
+    console.error(`Error sending re-issued license ${license.id}:`, error);
+  }
+}
+
+/**
+ * Add vendor keys to a product's pool. Keys already in the pool are
+ * ignored. Returns the number added.
+ */
+export async function addPoolKeys(productId: string, keys: string[]): Promise<number> {
+  const supabase = createLicensesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const [config] = await getLicenseProducts([productId]);
+  if (!config) throw new Error(`Product ${productId} is not set up for license keys`);
+
+  const uniqueKeys = Array.from(new Set(keys.map(key => key.trim()).filter(Boolean)));
+  if (uniqueKeys.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('license_key_pool')
+    .upsert(uniqueKeys.map(key => ({ product_id: productId, license_key: key })), {
+      onConflict: 'license_key',
+      ignoreDuplicates: true
+    })
+    .select('id');
+
+  if (error) throw new Error(`Failed to add license keys: ${error.message}`);
+  return (data || []).length;
+}
+
+/**
+ * Licensed products with the free and assigned keys in their pools
+ */
+export async function getPoolSummary(): Promise<LicensePoolSummary[]> {
+  const supabase = createLicensesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data: products, error } = await supabase
+    .from('license_products')
+    .select('*')
+    .order('product_id');
+
+  if (error) throw new Error(`Failed to fetch license products: ${error.message}`);
+
+  return Promise.all(((products || []) as LicenseProduct[]).map(async product => {
+    const [{ count: available }, { count: assigned }] = await Promise.all([
+      supabase.from('license_key_pool').select('id', { count: 'exact', head: true })
+        .eq('product_id', product.product_id).is('assigned_at', null),
+      supabase.from('license_key_pool').select('id', { count: 'exact', head: true })
+        .eq('product_id', product.product_id).not('assigned_at', 'is', null)
+    ]);
+
+    return {
+      productId: product.product_id,
+      keySource: product.key_source,
+      seats: product.seats,
+      validDays: product.valid_days,
+      available: available || 0,
+      assigned: assigned || 0
+    };
+  }));
+}
@@ -0,0 +1,530 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { commitOrderInventory, releaseOrderInventory } from './inventory';
+import { releaseCouponRedemption } from './coupons';
+import { enqueueFulfillment } from './fulfillmentQueue';
+import { notifyOrderStatusChange } from './pushNotifications';
+import { revokeOrderDownloads } from './digitalDownloads';
+import { revokeOrderLicenses } from './licenses';
+import { attributeSearchConversions } from './searchAnalytics';
+import { canTransition, getNextStatuses, normalizeOrderStatus, ORDER_STATUS_LABELS, OrderStatus } from './orderStatus';
+
+/**
+ * Row shape of the append-only `order_events` table (see
+ * database/order-lifecycle-setup.sql)
+ */
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  event_type: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus | null;
+  actor: string;
+  reason: string | null;
+  metadata: Record<string, any>;
+  created_at: string;
+}
+
+export interface OrderEventInput {
+  type: string;
+  fromStatus?: OrderStatus;
+  toStatus?: OrderStatus;
+  actor?: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface OrderTransitionOptions {
+  // Who made the change: 'stripe', 'fulfillment', 'customer', a staff member's email ...
+  actor?: string;
+  reason?: string;
+  // Other order columns written together with the status
+  updates?: Record<string, any>;
+  // Stored on the status_changed event
+  metadata?: Record<string, any>;
+  // Only move orders currently in one of these statuses; others are left alone (returns null)
+  from?: OrderStatus[];
+  // Automatic moves (webhooks, shipment sync) return null instead of throwing when the move isn't allowed
+  skipIfNotAllowed?: boolean;
+}
+
+export interface OrderTransitionContext {
+  order: Record<string, any>;
+  from: OrderStatus;
+  to: OrderStatus;
+  actor: string;
+  reason?: string;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Returns why the move is not allowed, or null to allow it. Guards see the
+ * order as it would be after the move (status and `updates` applied).
+ */
+export type OrderTransitionGuard = (
+  context: OrderTransitionContext,
+  supabase: SupabaseClient
+) => Promise<string | null> | string | null;
+
+/**
+ * Runs after the order has moved. Hooks log their own failures; a failing
+ * hook never undoes the status change.
+ */
+export type OrderTransitionHook = (context: OrderTransitionContext) => Promise<void>;
+
+export interface OrderTimeline {
+  orderId: string;
+  status: OrderStatus;
+  nextStatuses: OrderStatus[];
+  events: OrderEvent[];
+}
+
+export interface OrderTransitionResult {
+  order: Record<string, any>;
+  from: OrderStatus;
+  to: OrderStatus;
+}
+
+// Payment states in which goods may leave the warehouse
+const PAID_FINANCIAL_STATUSES = ['paid', 'partially_refunded'];
+
+// Unpaid orders are abandoned once older than the longest a Stripe Checkout
+// session stays open (24 hours)
+const ABANDONED_ORDER_HOURS = 25;
+
+// Timestamp column stamped when an order enters a status
+const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, string>> = {
+  paid: 'confirmed_at',
+  shipped: 'shipped_at',
+  delivered: 'delivered_at',
+  cancelled: 'cancelled_at'
+};
+
+function createLifecycleClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function parseJson(value: any, fallback: any) {
+  return typeof value === 'string' ? JSON.parse(value) : value || fallback;
+}
+
+const requirePayment: OrderTransitionGuard = ({ order, to }) => {
+  // Orders from before financial_status was tracked have none
+  if (!order.financial_status || PAID_FINANCIAL_STATUSES.includes(order.financial_status)) return null;
+  return `Order can't be marked ${ORDER_STATUS_LABELS[to].toLowerCase()} while its payment is ${order.financial_status}`;
+};
+
+const requireNothingShipped: OrderTransitionGuard = async ({ order }, supabase) => {
+  const { data } = await supabase
+    .from('shipments')
+    .select('id')
+    .eq('order_id', order.id)
+    .not('shipped_at', 'is', null)
+    .limit(1);
+
+  return data && data.length > 0 ? 'Order has already shipped; use a return instead' : null;
+};
+
+const requireRefundRecorded: OrderTransitionGuard = ({ order }) =>
+  order.financial_status === 'refunded'
+    ? null
+    : 'Refund the payment first; the order becomes refunded once the refund is recorded';
+
+const TRANSITION_GUARDS: Partial<Record<OrderStatus, OrderTransitionGuard[]>> = {
+  processing: [requirePayment],
+  partially_shipped: [requirePayment],
+  shipped: [requirePayment],
+  delivered: [requirePayment],
+  cancelled: [requireNothingShipped],
+  refunded: [requireRefundRecorded]
+};
+
+async function sendOrderEmail(
+  template: 'order_confirmation' | 'order_shipped' | 'order_cancelled',
+  order: Record<string, any>,
+  variables: Record<string, any> = {}
+): Promise<void> {
+  if (!order.customer_email) return;
+
+  try {
+    const { sendTemplateEmail } = await import('../lib/email');
+    await sendTemplateEmail(template, order.customer_email, {
+      customer_name: order.customer_name || 'Customer',
+      customer_email: order.customer_email,
+      order_id: order.id,
+      ...variables
+    });
+    console.log(`📧 ${template} email sent to ${order.customer_email}`);
+  } catch (error) {
+    console.error(`Error sending ${template} email for order ${order.id}:`, error);
+  }
+}
+
+/**
+ * Post-payment steps: commit the reserved stock, queue fulfillment and send
+ * the confirmation email
+ */
+const fulfilPaidOrder: OrderTransitionHook = async ({ order }) => {
+  const orderId = order.id;
+
+  // Stock reserved at checkout is now sold
+  try {
+    const committed = await commitOrderInventory(orderId);
+    console.log(`📦 Committed ${committed} inventory reservation(s) for order ${orderId}`);
+  } catch (inventoryError) {
+    // The fulfillment queue's reserve_inventory step commits it again
+    console.error('Error committing inventory:', inventoryError);
+  }
+
+  const items = parseJson(order.items, []);
+  const metadata = parseJson(order.metadata, {});
+
+  // Queue fulfillment now that payment has cleared; the worker moves the
+  // order to processing and its shipments move it to shipped
+  try {
+    // Digital lines are delivered by the plan_shipments step; physical
+    // lines need somewhere to ship to
+    const fulfillableItems = order.shipping_address
+      ? items
+      : items.filter((item: any) => item.isDigital);
+
+    if (fulfillableItems.length > 0) {
+      const queued = await enqueueFulfillment({
+        orderId,
+        customerInfo: {
+          name: order.customer_name || '',
+          email: order.customer_email,
+          address: order.shipping_address || { street: '', city: '', postalCode: '', country: '' }
+        },
+        items: fulfillableItems.map((item: any) => ({
+          productId: item.productId || item.id,
+          variantId: item.variantId || undefined,
+          sku: item.sku || undefined,
+          variantTitle: item.variantTitle || undefined,
+          name: item.name,
+          quantity: item.quantity,
+          price: item.price,
+          isDigital: !!item.isDigital
+        })),
+        orderTotal: Number(order.settlement_total ?? order.total) || 0,
+        shippingMethod: metadata.shipping_method || 'standard',
+        paymentMethod: 'stripe',
+        orderDate: new Date(order.created_at || Date.now())
+      });
+      console.log(queued
+        ? `📦 Fulfillment queued for order ${orderId}`
+        : `⚠️ Fulfillment could not be queued for order ${orderId}`);
+    }
+  } catch (fulfillmentError) {
+    console.error('Error queueing fulfillment:', fulfillmentError);
+  }
+
+  try {
+    const { formatOrderItemsForEmail, formatTaxLinesForEmail } = await import('../lib/email');
+    const currency = order.currency || 'USD';
+    const formatted = formatOrderItemsForEmail(items, currency, Number(order.exchange_rate) || 1);
+    const taxLines = formatTaxLinesForEmail(metadata.tax_lines || [], currency);
+
+    await sendOrderEmail('order_confirmation', order, {
+      order_total: order.total?.toString() || '0',
+      currency,
+      order_items_html: formatted.html,
+      order_items_text: formatted.text,
+      tax_lines_html: taxLines.html,
+      tax_lines_text: taxLines.text
+    });
+  } catch (emailError) {
+    console.error('Error sending order confirmation email:', emailError);
+  }
+};
+
+// Stock that is still only reserved goes back on sale
+const releaseReservedStock: OrderTransitionHook = async ({ order }) => {
+  try {
+    const released = await releaseOrderInventory(order.id);
+    if (released > 0) {
+      console.log(`📦 Released ${released} inventory reservation(s) for order ${order.id}`);
+    }
+  } catch (error) {
+    console.error(`Error releasing inventory for order ${order.id}:`, error);
+  }
+};
+
+// A cancelled order (or abandoned checkout) no longer counts against the code's limits
+const releaseCoupon: OrderTransitionHook = async ({ order }) => {
+  try {
+    const released = await releaseCouponRedemption(order.id);
+    if (released > 0) {
+      console.log(`🏷️ Released the discount code used by order ${order.id}`);
+    }
+  } catch (error) {
+    console.error(`Error releasing discount code for order ${order.id}:`, error);
+  }
+};
+
+const sendShippedEmail: OrderTransitionHook = async ({ order }) => {
+  await sendOrderEmail('order_shipped', order, {
+    tracking_number: order.tracking_number || 'available in your account'
+  });
+};
+
+// Unpaid orders that lapse (abandoned checkouts) are cancelled silently
+const sendCancelledEmail: OrderTransitionHook = async ({ order, from, reason }) => {
+  if (from === 'pending') return;
+  await sendOrderEmail('order_cancelled', order, {
+    cancellation_reason: reason || 'Your order was cancelled.'
+  });
+};
+
+// A refunded purchase no longer entitles the customer to its files
+const revokeDownloads: OrderTransitionHook = async ({ order }) => {
+  const revoked = await revokeOrderDownloads(order.id, 'Order refunded');
+  if (revoked > 0) {
+    console.log(`🔒 Revoked ${revoked} download(s) for refunded order ${order.id}`);
+  }
+};
+
+// Refunded software stops activating; support can re-issue keys
+const revokeLicenses: OrderTransitionHook = async ({ order }) => {
+  const revoked = await revokeOrderLicenses(order.id, 'Order refunded');
+  if (revoked > 0) {
+    console.log(`🔒 Revoked ${revoked} license(s) for refunded order ${order.id}`);
+  }
+};
+
+// Searches whose clicked results were bought count as converted
+const creditSearches: OrderTransitionHook = async ({ order }) => {
+  const metadata = parseJson(order.metadata, {});
+  await attributeSearchConversions({
+    orderId: order.id,
+    userId: order.user_id,
+    sessionId: metadata.cart_session_id,
+    productIds: parseJson(order.items, []).map((item: any) => String(item.productId || item.id))
+  });
+};
+
+// Push notification to the customer's devices (see pushNotifications.ts)
+const sendStatusPush: OrderTransitionHook = async ({ order, from, to }) => {
+  await notifyOrderStatusChange(order, from, to);
+};
+
+const transitionHooks: Partial<Record<OrderStatus, OrderTransitionHook[]>> = {
+  paid: [fulfilPaidOrder, creditSearches, sendStatusPush],
+  partially_shipped: [sendStatusPush],
+  shipped: [sendShippedEmail, sendStatusPush],
+  cancelled: [releaseReservedStock, releaseCoupon, sendCancelledEmail, sendStatusPush],
+  returned: [sendStatusPush],
+  refunded: [releaseReservedStock, revokeDownloads, revokeLicenses, sendStatusPush]
+};
+
+/**
+ * Run `hook` whenever an order enters `status` (after the built-in hooks)
+ */
+export function registerOrderTransitionHook(status: OrderStatus, hook: OrderTransitionHook): void {
+  transitionHooks[status] = [...(transitionHooks[status] || []), hook];
+}
+
+/**
+ * Append an entry to the order's history. Failures are logged, not thrown:
+ * the change the event describes has already happened.
+ */
+export async function recordOrderEvent(orderId: string, event: OrderEventInput): Promise<void> {
+  const supabase = createLifecycleClient();
+  if (!supabase) return;
+
+  const { error } = await supabase
+    .from('order_events')
+    .insert({
+      order_id: orderId,
+      event_type: event.type,
+      from_status: event.fromStatus || null,
+      to_status: event.toStatus || null,
+      actor: event.actor || 'system',
+      reason: event.reason || null,
+      metadata: event.metadata || {}
+    });
+
+  if (error) {
+    console.error(`Error recording ${event.type} event for order ${orderId}:`, error);
+  }
+}
+
+/**
+ * The order's history, oldest first
+ */
+export async function getOrderEvents(orderId: string): Promise<OrderEvent[]> {
+  const supabase = createLifecycleClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('order_events')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to fetch order events: ${error.message}`);
+  return (data || []) as OrderEvent[];
+}
+
+/**
+ * Current status, the moves available from it and the full history, for
+ * the admin order timeline. Returns null when the order does not exist.
+ */
+export async function getOrderTimeline(orderId: string): Promise<OrderTimeline | null> {
+  const supabase = createLifecycleClient();
+  if (!supabase) return null;
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select('id, status')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (!order) return null;
+
+  return {
+    orderId,
+    status: normalizeOrderStatus(order.status),
+    nextStatuses: getNextStatuses(order.status),
+    events: await getOrderEvents(orderId)
+  };
+}
+
+/**
+ * Move an order to `to`: checks the move is allowed by ORDER_TRANSITIONS and
+ * its guards, writes the status only if nobody changed it since it was read,
+ * records a status_changed event and runs the status's hooks.
+ * Returns null when the order was left alone (see `from` and `skipIfNotAllowed`).
+ */
+export async function transitionOrder(
+  orderId: string,
+  to: OrderStatus,
+  options: OrderTransitionOptions = {}
+): Promise<OrderTransitionResult | null> {
+  const supabase = createLifecycleClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load order ${orderId}: ${error.message}`);
+  if (!order) throw new Error('Order not found');
+
+  const from = normalizeOrderStatus(order.status);
+  if (options.from && !options.from.includes(from)) return null;
+
+  const context: OrderTransitionContext = {
+    order: { ...order, ...options.updates, status: to },
+    from,
+    to,
+    actor: options.actor || 'system',
+    reason: options.reason,
+    metadata: options.metadata || {}
+  };
+
+  let refusal = canTransition(from, to)
+    ? null
+    : `Order can't move from ${ORDER_STATUS_LABELS[from].toLowerCase()} to ${ORDER_STATUS_LABELS[to].toLowerCase()}`;
+
+  for (const guard of TRANSITION_GUARDS[to] || []) {
+    if (refusal) break;
+    refusal = await guard(context, supabase);
+  }
+
+  if (refusal) {
+    if (options.skipIfNotAllowed) {
+      console.log(`Order ${orderId} left ${from}: ${refusal}`);
+      return null;
+    }
+    throw new Error(refusal);
+  }
+
+  const now = new Date().toISOString();
+  const timestampColumn = STATUS_TIMESTAMPS[to];
+  const { data: updated, error: updateError } = await supabase
+    .from('orders')
+    .update({
+      ...(timestampColumn && { [timestampColumn]: now }),
+      ...options.updates,
+      status: to,
+      updated_at: now
+    })
+    .eq('id', orderId)
+    .eq('status', order.status)
+    .select('*');
+
+  if (updateError) throw new Error(`Failed to update order ${orderId}: ${updateError.message}`);
+
+  const saved = updated?.[0];
+  if (!saved) {
+    // Another request moved the order first
+    if (options.from || options.skipIfNotAllowed) return null;
+    throw new Error('Order was updated by another request, please try again');
+  }
+
+  await recordOrderEvent(orderId, {
+    type: 'status_changed',
+    fromStatus: from,
+    toStatus: to,
+    actor: context.actor,
+    reason: options.reason,
+    metadata: options.metadata
+  });
+
+  context.order = saved;
+  for (const hook of transitionHooks[to] || []) {
+    try {
+      await hook(context);
+    } catch (hookError) {
+      console.error(`Order ${orderId} ${to} hook failed:`, hookError);
+    }
+  }
+
+  return { order: saved, from, to };
+}
+
+/**
+ * Cancel pending orders nobody paid for within ABANDONED_ORDER_HOURS, which
+ * releases their stock and discount code use. Orders with a payment still in
+ * progress (a payment intent that has not failed) are left alone. Returns the
+ * number of orders cancelled.
+ */
+export async function cancelAbandonedOrders(limit: number = 100): Promise<number> {
+  const supabase = createLifecycleClient();
+  if (!supabase) return 0;
+
+  const cutoff = new Date(Date.now() - ABANDONED_ORDER_HOURS * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('status', 'pending')
+    .lt('created_at', cutoff)
+    .or('payment_intent.is.null,payment_error.not.is.null')
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to fetch abandoned orders: ${error.message}`);
+
+  let cancelled = 0;
+  for (const { id } of data || []) {
+    try {
+      const result = await transitionOrder(id, 'cancelled', {
+        from: ['pending'],
+        reason: 'Checkout abandoned'
+      });
+      if (result) cancelled++;
+    } catch (cancelError) {
+      console.error(`Error cancelling abandoned order ${id}:`, cancelError);
+    }
+  }
+  return cancelled;
+}
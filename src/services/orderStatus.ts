@@ -0,0 +1,77 @@
+/**
+ * The order lifecycle: which statuses exist and which moves between them
+ * are allowed. Client-safe; transitions are applied (with their guards and
+ * side effects) by transitionOrder in ./orderLifecycle.
+ */
+
+import type { OrderStatus } from '../types/orders';
+
+export type { OrderStatus };
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'paid',
+  'processing',
+  'partially_shipped',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'returned',
+  'refunded'
+];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Awaiting payment',
+  paid: 'Paid',
+  processing: 'Processing',
+  partially_shipped: 'Partially shipped',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  returned: 'Returned',
+  refunded: 'Refunded'
+};
+
+/**
+ * Allowed moves from each status. Digital-only orders can go straight from
+ * paid to delivered; a cancelled order that had been paid is then refunded.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled', 'refunded'],
+  processing: ['partially_shipped', 'shipped', 'delivered', 'cancelled', 'refunded'],
+  partially_shipped: ['shipped', 'delivered', 'returned', 'refunded'],
+  shipped: ['delivered', 'returned', 'refunded'],
+  delivered: ['returned', 'refunded'],
+  returned: ['refunded'],
+  cancelled: ['refunded'],
+  refunded: []
+};
+
+// Statuses written before the lifecycle was unified
+const LEGACY_ORDER_STATUSES: Record<string, OrderStatus> = {
+  confirmed: 'paid'
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as string[]).includes(value);
+}
+
+/**
+ * A stored status as a lifecycle status; unknown values are treated as pending
+ */
+export function normalizeOrderStatus(status: string | null | undefined): OrderStatus {
+  if (isOrderStatus(status)) return status;
+  return (status && LEGACY_ORDER_STATUSES[status]) || 'pending';
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Statuses an order in `status` could move to next
+ */
+export function getNextStatuses(status: string): OrderStatus[] {
+  return ORDER_TRANSITIONS[normalizeOrderStatus(status)];
+}
@@ -0,0 +1,236 @@
+import { createClient } from '@supabase/supabase-js';
+import { StripeService } from '../lib/stripe';
+import { CustomerIdentity } from '../lib/customerAuth';
+import { markOrderPaid } from './stripeWebhookHandlers';
+
+/**
+ * A card saved on the customer's Stripe customer
+ */
+export interface SavedCard {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+  isDefault: boolean;
+}
+
+export interface SavedCardPaymentResult {
+  orderId: string;
+  paymentIntentId: string;
+  paymentMethodId: string;
+  status: 'paid' | 'processing' | 'requires_action';
+  clientSecret?: string; // Set for requires_action: confirm it with Stripe.js to run 3D Secure
+}
+
+function createPaymentMethodsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Orders placed while signed in carry the user id; guest checkouts that
+ * used the customer's email also count as theirs once they have confirmed it
+ */
+export function customerOwnsOrder(
+  order: { user_id?: string | null; customer_email?: string | null },
+  customer: CustomerIdentity
+): boolean {
+  if (order.user_id) return order.user_id === customer.userId;
+  return customer.emailConfirmed && !!order.customer_email && order.customer_email.toLowerCase() === customer.email.toLowerCase();
+}
+
+/**
+ * Whether the order exists and belongs to the customer; routes report other
+ * customers' orders as not found
+ */
+export async function isCustomerOrder(orderId: string, customer: CustomerIdentity): Promise<boolean> {
+  const supabase = createPaymentMethodsClient();
+  if (!supabase) return false;
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select('user_id, customer_email')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  return !!order && customerOwnsOrder(order, customer);
+}
+
+/**
+ * The Stripe customer a user's cards are saved on. With `create` a customer
+ * is found or created by email and linked to the user the first time.
+ */
+export async function getStripeCustomerId(
+  customer: CustomerIdentity,
+  options: { create?: boolean } = {}
+): Promise<string | null> {
+  const supabase = createPaymentMethodsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase
+    .from('stripe_customers')
+    .select('stripe_customer_id')
+    .eq('user_id', customer.userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load Stripe customer: ${error.message}`);
+  if (data) return data.stripe_customer_id;
+  if (!options.create) return null;
+
+  const stripeCustomer = await StripeService.createOrUpdateCustomer(customer.email, customer.name, {
+    user_id: customer.userId
+  });
+
+  const { error: insertError } = await supabase
+    .from('stripe_customers')
+    .upsert({
+      user_id: customer.userId,
+      stripe_customer_id: stripeCustomer.id,
+      email: customer.email
+    }, { onConflict: 'user_id', ignoreDuplicates: true });
+
+  if (insertError) throw new Error(`Failed to link Stripe customer: ${insertError.message}`);
+
+  // A concurrent request may have linked a different customer first
+  return (await getStripeCustomerId(customer)) || stripeCustomer.id;
+}
+
+export async function listSavedCards(customer: CustomerIdentity): Promise<SavedCard[]> {
+  const customerId = await getStripeCustomerId(customer);
+  if (!customerId) return [];
+
+  const [methods, defaultId] = await Promise.all([
+    StripeService.getCustomerPaymentMethods(customerId),
+    StripeService.getDefaultPaymentMethodId(customerId)
+  ]);
+
+  return methods
+    .filter(method => method.card)
+    .map(method => ({
+      id: method.id,
+      brand: method.card!.brand,
+      last4: method.card!.last4,
+      expMonth: method.card!.exp_month,
+      expYear: method.card!.exp_year,
+      // Without an explicit default the most recently saved card is used
+      isDefault: defaultId ? method.id === defaultId : method.id === methods[0].id
+    }));
+}
+
+/**
+ * Client secret for saving a new card with Stripe.js or the mobile PaymentSheet
+ */
+export async function createCardSetupIntent(customer: CustomerIdentity): Promise<{ clientSecret: string; customerId: string }> {
+  const customerId = (await getStripeCustomerId(customer, { create: true }))!;
+  const setupIntent = await StripeService.createSetupIntent(customerId, { user_id: customer.userId });
+  return { clientSecret: setupIntent.client_secret, customerId };
+}
+
+async function getCustomerCard(customer: CustomerIdentity, paymentMethodId: string): Promise<{ customerId: string; card: SavedCard }> {
+  const customerId = await getStripeCustomerId(customer);
+  const card = customerId ? (await listSavedCards(customer)).find(saved => saved.id === paymentMethodId) : undefined;
+  if (!customerId || !card) throw new Error('Saved card not found');
+  return { customerId, card };
+}
+
+export async function setDefaultCard(customer: CustomerIdentity, paymentMethodId: string): Promise<SavedCard[]> {
+  const { customerId } = await getCustomerCard(customer, paymentMethodId);
+  await StripeService.setDefaultPaymentMethod(customerId, paymentMethodId);
+  return listSavedCards(customer);
+}
+
+export async function removeSavedCard(customer: CustomerIdentity, paymentMethodId: string): Promise<SavedCard[]> {
+  await getCustomerCard(customer, paymentMethodId);
+  await StripeService.detachPaymentMethod(paymentMethodId);
+  return listSavedCards(customer);
+}
+
+/**
+ * Pay a pending order with one of the customer's saved cards (the default
+ * when `paymentMethodId` is omitted).
+ *
+ * Successful charges mark the order paid straight away; the
+ * payment_intent.succeeded webhook finds it already paid. When the bank
+ * asks for authentication the order stays pending and the client confirms
+ * the returned client secret, after which the webhook completes the order.
+ * Declines are recorded on the order and thrown.
+ */
+export async function payOrderWithSavedCard(
+  customer: CustomerIdentity,
+  orderId: string,
+  options: { paymentMethodId?: string; offSession?: boolean; metadata?: Record<string, string> } = {}
+): Promise<SavedCardPaymentResult> {
+  const supabase = createPaymentMethodsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('id, user_id, customer_email, status, total, currency, payment_intent, payment_error')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load order ${orderId}: ${error.message}`);
+  if (!order || !customerOwnsOrder(order, customer)) throw new Error('Order not found');
+  if (order.status !== 'pending') throw new Error(`Order is ${order.status} and cannot be paid again`);
+  // A declined attempt records payment_error; anything else is still being paid
+  if (order.payment_intent && !order.payment_error) throw new Error('Order already has a payment in progress');
+
+  const cards = await listSavedCards(customer);
+  const card = options.paymentMethodId
+    ? cards.find(saved => saved.id === options.paymentMethodId)
+    : cards.find(saved => saved.isDefault);
+  if (!card) throw new Error(options.paymentMethodId ? 'Saved card not found' : 'No saved card on file');
+
+  const charge = await StripeService.chargeSavedPaymentMethod({
+    amount: Number(order.total),
+    currency: order.currency,
+    customerId: (await getStripeCustomerId(customer))!,
+    paymentMethodId: card.id,
+    offSession: !!options.offSession,
+    // Keyed on the declined intent so a retry after a decline gets a new charge
+    idempotencyKey: `order-${orderId}-${card.id}-${order.payment_intent || 'first'}`,
+    metadata: {
+      ...options.metadata,
+      order_id: orderId,
+      customer_email: customer.email
+    }
+  });
+
+  await supabase
+    .from('orders')
+    .update({
+      user_id: customer.userId,
+      payment_intent: charge.id,
+      payment_error: charge.decline_message || null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', orderId);
+
+  if (charge.decline_message) {
+    throw new Error(charge.decline_message);
+  }
+
+  if (charge.requires_authentication) {
+    return {
+      orderId,
+      paymentIntentId: charge.id,
+      paymentMethodId: card.id,
+      status: 'requires_action',
+      clientSecret: charge.client_secret
+    };
+  }
+
+  if (charge.status === 'succeeded') {
+    await markOrderPaid(orderId, { paymentIntentId: charge.id });
+    return { orderId, paymentIntentId: charge.id, paymentMethodId: card.id, status: 'paid' };
+  }
+
+  return { orderId, paymentIntentId: charge.id, paymentMethodId: card.id, status: 'processing' };
+}
@@ -1,28 +1,153 @@
-import { CartItem, Product } from '../types';
+import { CartItem, Product, TaxCategory } from '../types';
+import { BASE_CURRENCY, formatMoney, roundForCurrency } from './currency';
 
 export interface CartItemWithPrice extends CartItem {
   price: number;
   name: string;
+  sku?: string;
+  variantTitle?: string; // e.g. 'Navy / M'
+  category?: string;
+  tags?: string[];
+  taxCategory?: TaxCategory;
 }
 
 export interface PricingRule {
   id: string;
   name: string;
   description: string;
-  type: 'percentage' | 'fixed_amount' | 'buy_x_get_y';
+  type: 'percentage' | 'fixed_amount' | 'buy_x_get_y' | 'free_shipping';
   threshold?: number;
   discountValue: number;
+  priority?: number;
+  exclusive?: boolean;
   applied: boolean;
   savings: number;
+  explanation?: string;
 }
 
 export interface PricingResult {
   subtotal: number;
   totalDiscount: number;
   finalTotal: number;
+  freeShipping: boolean;
+  couponCode?: string;
+  couponDiscount: number;
+  currency: string;
   rulesApplied: PricingRule[];
 }
 
+export type CustomerTier = 'bronze' | 'silver' | 'gold' | 'platinum';
+
+/**
+ * Conditions a cart must satisfy before a promotion applies.
+ * Category and tag filters also scope which lines the effect is applied to.
+ */
+export interface PromotionConditions {
+  minSubtotal?: number;
+  minQuantity?: number;
+  productIds?: string[];
+  categories?: string[];
+  tags?: string[];
+  customerTiers?: CustomerTier[];
+  startsAt?: string;
+  endsAt?: string;
+}
+
+export type PromotionEffect =
+  | { type: 'percentage'; value: number }
+  | { type: 'fixed_amount'; value: number }
+  | { type: 'buy_x_get_y'; buyQuantity: number; getQuantity: number; discountPercent?: number }
+  | { type: 'free_shipping' };
+
+/**
+ * Promotion definition as loaded from the `promotions` table.
+ * Higher priority promotions are evaluated first; an exclusive promotion
+ * can only be applied on its own.
+ */
+export interface Promotion {
+  id: string;
+  name: string;
+  description: string;
+  conditions: PromotionConditions;
+  effect: PromotionEffect;
+  priority: number;
+  exclusive: boolean;
+  isActive: boolean;
+}
+
+/**
+ * Discount code entered by the customer. Usage limits are enforced by
+ * services/coupons.ts; the pricing engine only applies the discount.
+ */
+export interface Coupon {
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'fixed_amount' | 'free_shipping';
+  discountValue: number;
+  minSubtotal?: number;
+  productIds?: string[];
+  categories?: string[];
+}
+
+export interface PricingContext {
+  customerTier?: CustomerTier;
+  shippingCost?: number;
+  now?: Date;
+  promotions?: Promotion[];
+  coupon?: Coupon;
+  currency?: string; // Presentment currency; item prices and promotion amounts are in BASE_CURRENCY
+  exchangeRate?: number; // Units of `currency` per unit of BASE_CURRENCY
+}
+
+export const STANDARD_SHIPPING_COST = 15.99;
+
+/**
+ * Built-in promotions, used when the promotions table is unavailable.
+ * All four are exclusive with equal priority so only the best one applies.
+ */
+export const DEFAULT_PROMOTIONS: Promotion[] = [
+  {
+    id: 'bulk-discount-200',
+    name: 'Bulk Order Discount',
+    description: 'Get 10% off orders over $200',
+    conditions: { minSubtotal: 200 },
+    effect: { type: 'percentage', value: 10 },
+    priority: 0,
+    exclusive: true,
+    isActive: true
+  },
+  {
+    id: 'loyalty-discount-100',
+    name: 'Loyalty Customer Discount',
+    description: 'Get 5% off orders over $100 (loyalty members)',
+    conditions: { minSubtotal: 100, customerTiers: ['silver', 'gold', 'platinum'] },
+    effect: { type: 'percentage', value: 5 },
+    priority: 0,
+    exclusive: true,
+    isActive: true
+  },
+  {
+    id: 'free-shipping-150',
+    name: 'Free Shipping',
+    description: 'Free shipping on orders over $150',
+    conditions: { minSubtotal: 150 },
+    effect: { type: 'free_shipping' },
+    priority: 0,
+    exclusive: true,
+    isActive: true
+  },
+  {
+    id: 'quantity-discount-3',
+    name: 'Volume Discount',
+    description: 'Buy 3+ items and get 15% off',
+    conditions: { minQuantity: 3 },
+    effect: { type: 'percentage', value: 15 },
+    priority: 0,
+    exclusive: true,
+    isActive: true
+  }
+];
+
 /**
  * Calculate subtotal from cart items with price information
  */
@@ -32,138 +157,299 @@ function calculateSubtotal(items: CartItemWithPrice[]): number {
   }, 0);
 }
 
+function formatAmount(amount: number, context: PricingContext): string {
+  return formatMoney(amount, context.currency || BASE_CURRENCY);
+}
+
 /**
- * Apply bulk discount rule: 10% off if cart total exceeds $200
+ * Express a base-currency promotion in the presentment currency
  */
-function applyBulkDiscountRule(subtotal: number): PricingRule {
-  const rule: PricingRule = {
-    id: 'bulk-discount-200',
-    name: 'Bulk Order Discount',
-    description: 'Get 10% off orders over $200',
-    type: 'percentage',
-    threshold: 200,
-    discountValue: 10,
-    applied: false,
-    savings: 0
+function convertPromotion(promotion: Promotion, rate: number): Promotion {
+  const { conditions, effect } = promotion;
+  return {
+    ...promotion,
+    conditions: {
+      ...conditions,
+      minSubtotal: conditions.minSubtotal !== undefined ? conditions.minSubtotal * rate : undefined
+    },
+    effect: effect.type === 'fixed_amount' ? { ...effect, value: effect.value * rate } : effect
   };
+}
 
-  if (subtotal >= (rule.threshold || 0)) {
-    rule.applied = true;
-    rule.savings = subtotal * (rule.discountValue / 100);
+/**
+ * Lines a promotion targets: every line unless the promotion is scoped
+ * to specific products, categories or tags
+ */
+function getEligibleItems(items: CartItemWithPrice[], conditions: PromotionConditions): CartItemWithPrice[] {
+  const productIds = conditions.productIds || [];
+  const categories = conditions.categories?.map(c => c.toLowerCase()) || [];
+  const tags = conditions.tags?.map(t => t.toLowerCase()) || [];
+
+  if (productIds.length === 0 && categories.length === 0 && tags.length === 0) {
+    return items;
   }
 
-  return rule;
+  return items.filter(item => {
+    const matchesProduct = productIds.length === 0 || productIds.includes(item.productId);
+    const matchesCategory = categories.length === 0 ||
+      (!!item.category && categories.includes(item.category.toLowerCase()));
+    const matchesTags = tags.length === 0 ||
+      (item.tags || []).some(tag => tags.includes(tag.toLowerCase()));
+    return matchesProduct && matchesCategory && matchesTags;
+  });
 }
 
 /**
- * Apply loyalty customer rule: 5% off for orders over $100
+ * Check promotion conditions. Returns a description of each condition that
+ * was met, or null when the cart does not qualify.
  */
-function applyLoyaltyDiscountRule(subtotal: number): PricingRule {
-  const rule: PricingRule = {
-    id: 'loyalty-discount-100',
-    name: 'Loyalty Customer Discount',
-    description: 'Get 5% off orders over $100 (loyalty members)',
-    type: 'percentage',
-    threshold: 100,
-    discountValue: 5,
-    applied: false,
-    savings: 0
-  };
+function checkConditions(
+  promotion: Promotion,
+  eligibleItems: CartItemWithPrice[],
+  context: PricingContext
+): string[] | null {
+  const { conditions } = promotion;
+  const now = context.now || new Date();
+  const reasons: string[] = [];
+
+  if (conditions.startsAt && now < new Date(conditions.startsAt)) {
+    return null;
+  }
+  if (conditions.endsAt && now > new Date(conditions.endsAt)) {
+    return null;
+  }
+
+  if (eligibleItems.length === 0) {
+    return null;
+  }
+  if (conditions.productIds?.length || conditions.categories?.length || conditions.tags?.length) {
+    reasons.push(`${eligibleItems.length} qualifying line(s)`);
+  }
 
-  // Simulate loyalty check (in real app, this would check user status)
-  const isLoyaltyMember = Math.random() > 0.5; // 50% chance for demo
+  if (conditions.customerTiers && conditions.customerTiers.length > 0) {
+    if (!context.customerTier || !conditions.customerTiers.includes(context.customerTier)) {
+      return null;
+    }
+    reasons.push(`${context.customerTier} tier customer`);
+  }
 
-  if (isLoyaltyMember && subtotal >= (rule.threshold || 0)) {
-    rule.applied = true;
-    rule.savings = subtotal * (rule.discountValue / 100);
+  const eligibleSubtotal = calculateSubtotal(eligibleItems);
+  if (conditions.minSubtotal !== undefined) {
+    if (eligibleSubtotal < conditions.minSubtotal) {
+      return null;
+    }
+    reasons.push(`subtotal ${formatAmount(eligibleSubtotal, context)} meets ${formatAmount(conditions.minSubtotal, context)} minimum`);
+  }
+
+  const eligibleQuantity = eligibleItems.reduce((total, item) => total + item.quantity, 0);
+  if (conditions.minQuantity !== undefined) {
+    if (eligibleQuantity < conditions.minQuantity) {
+      return null;
+    }
+    reasons.push(`${eligibleQuantity} items meets ${conditions.minQuantity} item minimum`);
   }
 
-  return rule;
+  return reasons;
 }
 
 /**
- * Apply free shipping rule: Free shipping for orders over $150
+ * Buy X get Y: within every group of (X + Y) units the cheapest Y units are discounted
  */
-function applyFreeShippingRule(subtotal: number): PricingRule {
-  const shippingCost = 15.99; // Standard shipping cost
-  
-  const rule: PricingRule = {
-    id: 'free-shipping-150',
-    name: 'Free Shipping',
-    description: 'Free shipping on orders over $150',
-    type: 'fixed_amount',
-    threshold: 150,
-    discountValue: shippingCost,
-    applied: false,
-    savings: 0
-  };
+function calculateBuyXGetYSavings(
+  eligibleItems: CartItemWithPrice[],
+  buyQuantity: number,
+  getQuantity: number,
+  discountPercent: number
+): number {
+  const groupSize = buyQuantity + getQuantity;
+  if (groupSize <= 0 || getQuantity <= 0) return 0;
 
-  if (subtotal >= (rule.threshold || 0)) {
-    rule.applied = true;
-    rule.savings = shippingCost;
-  }
+  const unitPrices = eligibleItems
+    .flatMap(item => Array.from({ length: item.quantity }, () => item.price))
+    .sort((a, b) => a - b);
 
-  return rule;
+  const discountedUnits = Math.floor(unitPrices.length / groupSize) * getQuantity;
+  return unitPrices
+    .slice(0, discountedUnits)
+    .reduce((total, price) => total + price * (discountPercent / 100), 0);
 }
 
 /**
- * Apply quantity-based discount: Buy 3 or more items, get 15% off
+ * Express a coupon as a promotion so it shares the engine's condition and effect handling
  */
-function applyQuantityDiscountRule(items: CartItemWithPrice[], subtotal: number): PricingRule {
-  const totalQuantity = items.reduce((total, item) => total + item.quantity, 0);
-  
-  const rule: PricingRule = {
-    id: 'quantity-discount-3',
-    name: 'Volume Discount',
-    description: 'Buy 3+ items and get 15% off',
-    type: 'percentage',
-    threshold: 3,
-    discountValue: 15,
-    applied: false,
-    savings: 0
+function couponToPromotion(coupon: Coupon): Promotion {
+  return {
+    id: `coupon-${coupon.code}`,
+    name: `Coupon ${coupon.code}`,
+    description: coupon.description || `Discount code ${coupon.code}`,
+    conditions: {
+      minSubtotal: coupon.minSubtotal,
+      productIds: coupon.productIds,
+      categories: coupon.categories
+    },
+    effect: coupon.discountType === 'free_shipping'
+      ? { type: 'free_shipping' }
+      : { type: coupon.discountType, value: coupon.discountValue },
+    priority: 0,
+    exclusive: false,
+    isActive: true
   };
+}
 
-  if (totalQuantity >= (rule.threshold || 0)) {
-    rule.applied = true;
-    rule.savings = subtotal * (rule.discountValue / 100);
+/**
+ * Evaluate a single promotion against the cart. Returns null when the
+ * promotion does not qualify.
+ */
+function evaluatePromotion(
+  promotion: Promotion,
+  items: CartItemWithPrice[],
+  context: PricingContext
+): PricingRule | null {
+  const eligibleItems = getEligibleItems(items, promotion.conditions);
+  const reasons = checkConditions(promotion, eligibleItems, context);
+  if (!reasons) return null;
+
+  const eligibleSubtotal = calculateSubtotal(eligibleItems);
+  const { effect } = promotion;
+  let savings = 0;
+  let discountValue = 0;
+  let effectText = '';
+
+  switch (effect.type) {
+    case 'percentage':
+      discountValue = effect.value;
+      savings = eligibleSubtotal * (effect.value / 100);
+      effectText = `${effect.value}% off ${formatAmount(eligibleSubtotal, context)}`;
+      break;
+    case 'fixed_amount':
+      discountValue = effect.value;
+      savings = Math.min(effect.value, eligibleSubtotal);
+      effectText = `${formatAmount(savings, context)} off`;
+      break;
+    case 'buy_x_get_y': {
+      const discountPercent = effect.discountPercent ?? 100;
+      discountValue = discountPercent;
+      savings = calculateBuyXGetYSavings(eligibleItems, effect.buyQuantity, effect.getQuantity, discountPercent);
+      effectText = `buy ${effect.buyQuantity} get ${effect.getQuantity} ${discountPercent === 100 ? 'free' : `${discountPercent}% off`}`;
+      break;
+    }
+    case 'free_shipping':
+      discountValue = context.shippingCost ?? STANDARD_SHIPPING_COST;
+      savings = discountValue;
+      effectText = `free shipping (saves ${formatAmount(savings, context)})`;
+      break;
   }
 
-  return rule;
+  if (savings <= 0) return null;
+
+  return {
+    id: promotion.id,
+    name: promotion.name,
+    description: promotion.description,
+    type: effect.type,
+    threshold: promotion.conditions.minSubtotal ?? promotion.conditions.minQuantity,
+    discountValue,
+    priority: promotion.priority,
+    exclusive: promotion.exclusive,
+    applied: false,
+    savings,
+    explanation: [...reasons, effectText].join('; ')
+  };
 }
 
 /**
  * Main function to apply all custom pricing rules
  * This is the primary export that API routes will use
+ *
+ * Promotions are taken from `context.promotions` (see loadActivePromotions in
+ * ./promotions) and fall back to DEFAULT_PROMOTIONS. Qualifying promotions are
+ * applied in priority order, ties broken by the largest saving. Stackable
+ * promotions combine; an exclusive promotion is only applied when nothing else
+ * has been, and stops any further promotions from applying.
+ *
+ * A coupon in `context.coupon` is applied last, on top of any automatic
+ * promotions, to whatever subtotal remains.
+ *
+ * With `context.currency` and `context.exchangeRate` set, prices, thresholds
+ * and fixed amounts are converted and the result is in that currency.
  */
-export function applyCustomPricingRules(items: CartItemWithPrice[]): PricingResult {
+export function applyCustomPricingRules(
+  baseItems: CartItemWithPrice[],
+  baseContext: PricingContext = {}
+): PricingResult {
+  const currency = baseContext.currency || BASE_CURRENCY;
+  const rate = baseContext.exchangeRate ?? 1;
+  const items = rate === 1
+    ? baseItems
+    : baseItems.map(item => ({ ...item, price: roundForCurrency(item.price * rate, currency) }));
+  const context: PricingContext = {
+    ...baseContext,
+    currency,
+    shippingCost: (baseContext.shippingCost ?? STANDARD_SHIPPING_COST) * rate,
+    coupon: baseContext.coupon && {
+      ...baseContext.coupon,
+      minSubtotal: baseContext.coupon.minSubtotal !== undefined ? baseContext.coupon.minSubtotal * rate : undefined,
+      discountValue: baseContext.coupon.discountType === 'fixed_amount'
+        ? baseContext.coupon.discountValue * rate
+        : baseContext.coupon.discountValue
+    }
+  };
+
   // Calculate base subtotal
   const subtotal = calculateSubtotal(items);
-  
-  // Apply all available rules
-  const allRules = [
-    applyBulkDiscountRule(subtotal),
-    applyLoyaltyDiscountRule(subtotal),
-    applyFreeShippingRule(subtotal),
-    applyQuantityDiscountRule(items, subtotal)
-  ];
-
-  // Filter only applied rules
-  const rulesApplied = allRules.filter(rule => rule.applied);
-  
-  // Calculate total discount (only apply the best discount to avoid stacking)
+  const promotions = (context.promotions || DEFAULT_PROMOTIONS)
+    .filter(promotion => promotion.isActive)
+    .map(promotion => rate === 1 ? promotion : convertPromotion(promotion, rate));
+
+  // Evaluate every promotion; keep the ones the cart qualifies for
+  const rulesApplied = promotions
+    .map(promotion => evaluatePromotion(promotion, items, context))
+    .filter((rule): rule is PricingRule => rule !== null)
+    .sort((a, b) => (b.priority || 0) - (a.priority || 0) || b.savings - a.savings);
+
   let totalDiscount = 0;
-  if (rulesApplied.length > 0) {
-    // Apply the rule with highest savings
-    const bestRule = rulesApplied.reduce((best, current) => 
-      current.savings > best.savings ? current : best
-    );
-    totalDiscount = bestRule.savings;
-    
-    // Mark only the best rule as applied for final calculation
-    rulesApplied.forEach(rule => {
-      rule.applied = rule.id === bestRule.id;
-      rule.savings = rule.id === bestRule.id ? rule.savings : 0;
-    });
+  let freeShipping = false;
+  let exclusiveRule: PricingRule | null = null;
+  let appliedCount = 0;
+
+  for (const rule of rulesApplied) {
+    if (exclusiveRule) {
+      rule.explanation = `Not applied: cannot be combined with ${exclusiveRule.name}`;
+    } else if (rule.exclusive && appliedCount > 0) {
+      rule.explanation = 'Not applied: exclusive offer cannot be combined with promotions already applied';
+    } else {
+      rule.applied = true;
+      appliedCount++;
+      if (rule.exclusive) exclusiveRule = rule;
+      if (rule.type === 'free_shipping') {
+        freeShipping = true;
+      } else {
+        // Never discount below zero
+        rule.savings = Math.min(rule.savings, subtotal - totalDiscount);
+        totalDiscount += rule.savings;
+      }
+      continue;
+    }
+    rule.savings = 0;
+  }
+
+  // Apply the customer's coupon after automatic promotions
+  let couponDiscount = 0;
+  let appliedCouponCode: string | undefined;
+  if (context.coupon) {
+    const couponRule = evaluatePromotion(couponToPromotion(context.coupon), items, context);
+    if (couponRule) {
+      couponRule.applied = true;
+      appliedCouponCode = context.coupon.code;
+      if (couponRule.type === 'free_shipping') {
+        freeShipping = true;
+      } else {
+        couponRule.savings = Math.min(couponRule.savings, subtotal - totalDiscount);
+        couponDiscount = couponRule.savings;
+        totalDiscount += couponDiscount;
+      }
+      rulesApplied.push(couponRule);
+    }
   }
 
   // Calculate final total
@@ -174,17 +460,31 @@ export function applyCustomPricingRules(items: CartItemWithPrice[]): PricingResu
     subtotal: subtotal.toFixed(2),
     totalDiscount: totalDiscount.toFixed(2),
     finalTotal: finalTotal.toFixed(2),
+    freeShipping,
+    couponCode: appliedCouponCode,
     rulesApplied: rulesApplied.map(rule => ({
       name: rule.name,
       applied: rule.applied,
-      savings: rule.savings.toFixed(2)
+      savings: rule.savings.toFixed(2),
+      explanation: rule.explanation
     }))
   });
 
+  rulesApplied.forEach(rule => {
+    rule.savings = roundForCurrency(rule.savings, currency);
+    rule.discountValue = rule.type === 'fixed_amount' || rule.type === 'free_shipping'
+      ? roundForCurrency(rule.discountValue, currency)
+      : rule.discountValue;
+  });
+
   return {
-    subtotal: Math.round(subtotal * 100) / 100,
-    totalDiscount: Math.round(totalDiscount * 100) / 100,
-    finalTotal: Math.round(finalTotal * 100) / 100,
+    subtotal: roundForCurrency(subtotal, currency),
+    totalDiscount: roundForCurrency(totalDiscount, currency),
+    finalTotal: roundForCurrency(finalTotal, currency),
+    freeShipping,
+    couponCode: appliedCouponCode,
+    couponDiscount: roundForCurrency(couponDiscount, currency),
+    currency,
     rulesApplied
   };
 }
@@ -192,45 +492,31 @@ export function applyCustomPricingRules(items: CartItemWithPrice[]): PricingResu
 /**
  * Get all available pricing rules (for UI display)
  */
-export function getAvailablePricingRules(): Omit<PricingRule, 'applied' | 'savings'>[] {
-  return [
-    {
-      id: 'bulk-discount-200',
-      name: 'Bulk Order Discount',
-      description: 'Get 10% off orders over $200',
-      type: 'percentage',
-      threshold: 200,
-      discountValue: 10
-    },
-    {
-      id: 'loyalty-discount-100',
-      name: 'Loyalty Customer Discount',
-      description: 'Get 5% off orders over $100 (loyalty members)',
-      type: 'percentage',
-      threshold: 100,
-      discountValue: 5
-    },
-    {
-      id: 'free-shipping-150',
-      name: 'Free Shipping',
-      description: 'Free shipping on orders over $150',
-      type: 'fixed_amount',
-      threshold: 150,
-      discountValue: 15.99
-    },
-    {
-      id: 'quantity-discount-3',
-      name: 'Volume Discount',
-      description: 'Buy 3+ items and get 15% off',
-      type: 'percentage',
-      threshold: 3,
-      discountValue: 15
-    }
-  ];
+export function getAvailablePricingRules(
+  promotions: Promotion[] = DEFAULT_PROMOTIONS
+): Omit<PricingRule, 'applied' | 'savings'>[] {
+  return promotions
+    .filter(promotion => promotion.isActive)
+    .map(promotion => ({
+      id: promotion.id,
+      name: promotion.name,
+      description: promotion.description,
+      type: promotion.effect.type,
+      threshold: promotion.conditions.minSubtotal ?? promotion.conditions.minQuantity,
+      discountValue: promotion.effect.type === 'free_shipping'
+        ? STANDARD_SHIPPING_COST
+        : promotion.effect.type === 'buy_x_get_y'
+          ? promotion.effect.discountPercent ?? 100
+          : promotion.effect.value,
+      priority: promotion.priority,
+      exclusive: promotion.exclusive
+    }));
 }
 
 /**
- * Calculate tax amount (can be customized per region)
+ * Calculate tax at a single flat rate.
+ * Checkout uses the region-aware TaxProvider in tax.ts; this remains for
+ * quick client-side estimates.
  */
 export function calculateTax(subtotal: number, taxRate: number = 0.08): number {
   return Math.round(subtotal * taxRate * 100) / 100;
@@ -239,9 +525,6 @@ export function calculateTax(subtotal: number, taxRate: number = 0.08): number {
 /**
  * Format currency for display
  */
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount);
-}
\ No newline at end of file
+export function formatCurrency(amount: number, currency: string = BASE_CURRENCY): string {
+  return formatMoney(amount, currency);
+}
@@ -0,0 +1,785 @@
+import { createClient } from '@supabase/supabase-js';
+import { Product } from '../types';
+import { getAvailableStock } from './inventory';
+
+export type SearchSort = 'relevance' | 'price_asc' | 'price_desc' | 'newest' | 'rating';
+
+export type SearchField = 'name' | 'brand' | 'tags' | 'category' | 'description';
+
+// How much a match in each field counts towards relevance
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  brand: 2,
+  tags: 2,
+  category: 2,
+  description: 1
+};
+
+// How much each kind of match counts compared with the exact term
+const MATCH_WEIGHTS = {
+  exact: 1,
+  synonym: 0.8,
+  prefix: 0.7,
+  fuzzy: 0.6
+};
+
+// Indexes are rebuilt from the catalogue at most this often
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+const DESCRIPTION_SNIPPET_LENGTH = 160;
+
+// Category and brand suggestions shown at most
+const MAX_GROUP_SUGGESTIONS = 3;
+
+// Letters (including accented Latin) and digits
+const WORD_PATTERN = /[a-z0-9\u00c0-\u024f]+/gi;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'this', 'to', 'with', 'your', 'you'
+]);
+
+// Words customers use interchangeably; every word of a group finds the others
+const SYNONYM_GROUPS: string[][] = [
+  ['headphone', 'headset', 'earphone', 'earbud'],
+  ['tshirt', 'tee', 'shirt'],
+  ['speaker', 'soundbar'],
+  ['smartwatch', 'watch', 'wearable'],
+  ['laptop', 'notebook'],
+  ['camera', 'photo', 'photography'],
+  ['cheap', 'budget', 'affordable'],
+  ['course', 'class', 'tutorial', 'lesson'],
+  ['ebook', 'book'],
+  ['bag', 'backpack', 'rucksack'],
+  ['phone', 'smartphone', 'mobile'],
+  ['wireless', 'cordless', 'bluetooth'],
+  ['sofa', 'couch'],
+  ['app', 'software', 'application']
+];
+
+export const PRICE_BUCKETS: Array<{ min: number; max: number | null }> = [
+  { min: 0, max: 25 },
+  { min: 25, max: 50 },
+  { min: 50, max: 100 },
+  { min: 100, max: 250 },
+  { min: 250, max: 500 },
+  { min: 500, max: null }
+];
+
+export const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+/**
+ * A piece of a field as shown in results; matched words have `highlight` set
+ */
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHighlights {
+  name: HighlightSegment[];
+  // Snippet around the first match (or the start of the description)
+  description: HighlightSegment[];
+}
+
+export interface SearchHit {
+  product: Product;
+  score: number;
+  rating: number;
+  reviews: number;
+  inStock: boolean;
+  highlights: SearchHighlights;
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * Result counts per filter value. Each facet is counted with the other
+ * filters applied but not its own, so picking a category still shows how
+ * many results the other categories have.
+ */
+export interface SearchFacets {
+  category: FacetCount[];
+  price: FacetCount[];
+  rating: FacetCount[];
+  inStock: number;
+}
+
+export interface SearchFilters {
+  categories?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  inStock?: boolean;
+}
+
+export interface SearchOptions extends SearchFilters {
+  sort?: SearchSort;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  total: number;
+  results: SearchHit[];
+  facets: SearchFacets;
+  // False when no product matched every word and the results are partial matches
+  allTermsMatched?: boolean;
+  // Set by routes that log the search; sent back with result clicks
+  searchId?: string | null;
+}
+
+/**
+ * A query customers ran that found results, with how many of them ran it
+ */
+export interface PopularSearch {
+  query: string;
+  searches: number;
+}
+
+export interface QuerySuggestion {
+  query: string;
+  // What was typed plain, the completion highlighted
+  segments: HighlightSegment[];
+  source: 'popular' | 'catalogue';
+}
+
+export interface SearchSuggestions {
+  query: string;
+  completions: QuerySuggestion[];
+  categories: FacetCount[];
+  brands: FacetCount[];
+  // The query with misspelt words corrected, when it has any
+  didYouMean: string | null;
+}
+
+/**
+ * A product with what search needs to rank and filter it
+ */
+export interface SearchDocument {
+  product: Product;
+  brand?: string | null;
+  rating: number;
+  reviews: number;
+  inStock: boolean;
+  createdAt?: string | null;
+}
+
+interface IndexedDocument extends SearchDocument {
+  fields: Record<SearchField, string>;
+  // Stemmed term -> occurrences per field
+  terms: Map<string, Partial<Record<SearchField, number>>>;
+}
+
+export interface SearchIndex {
+  documents: IndexedDocument[];
+  // Stemmed term -> indexes into `documents`
+  postings: Map<string, number[]>;
+  vocabulary: string[];
+  // Unstemmed words of names, brands, tags and categories -> products using
+  // them, for completions and spelling corrections
+  words: Map<string, number>;
+  builtAt: number;
+}
+
+// Query term expanded to the index terms it matches
+interface TermExpansion {
+  term: string;
+  weight: number;
+}
+
+function createSearchClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Light English stemmer: strips plural, -ing, -ed, -ly and -ness endings so
+ * "chairs", "charging" and "charged" meet "chair" and "charge". It only has
+ * to be consistent between indexing and querying, not linguistically exact.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+
+  let base = word;
+  if (base.endsWith('sses')) {
+    base = base.slice(0, -2);
+  } else if (/(?:[sxz]|ch|sh)es$/.test(base)) {
+    base = base.slice(0, -2);
+  } else if (base.endsWith('s') && !/(?:ss|us|is)$/.test(base)) {
+    base = base.slice(0, -1);
+  }
+
+  if (base.endsWith('ness') && base.length > 6) base = base.slice(0, -4);
+  else if (base.endsWith('ly') && base.length > 5) base = base.slice(0, -2);
+
+  for (const suffix of ['ing', 'ed']) {
+    if (base.endsWith(suffix) && base.length - suffix.length >= 3) {
+      base = base.slice(0, -suffix.length);
+      // running -> run
+      const last = base[base.length - 1];
+      if (base.length > 3 && last === base[base.length - 2] && !'lsz'.includes(last)) base = base.slice(0, -1);
+      break;
+    }
+  }
+
+  // charge, charged and charging all end up as "charg"
+  return base.endsWith('e') && base.length > 4 ? base.slice(0, -1) : base;
+}
+
+/**
+ * Lowercased words of a text; hyphenated words are also indexed joined
+ * ("t-shirt" -> "t", "shirt", "tshirt")
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const chunk of text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+(?:-[a-z0-9\u00c0-\u024f]+)*/g) || []) {
+    const parts = chunk.split('-');
+    tokens.push(...parts);
+    if (parts.length > 1) tokens.push(parts.join(''));
+  }
+  return tokens.filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+function analyze(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+const SYNONYMS = new Map<string, string[]>();
+for (const group of SYNONYM_GROUPS) {
+  const stems = group.map(stem);
+  for (const term of stems) {
+    SYNONYMS.set(term, [...(SYNONYMS.get(term) || []), ...stems.filter(other => other !== term)]);
+  }
+}
+
+/**
+ * Optimal string alignment distance (insertions, deletions, substitutions
+ * and swapped neighbours), giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, number[]>();
+  const words = new Map<string, number>();
+
+  const indexed = documents.map((document, position) => {
+    const { product } = document;
+    const fields: Record<SearchField, string> = {
+      name: product.name,
+      brand: document.brand || '',
+      tags: (product.tags || []).join(' '),
+      category: product.category,
+      description: product.description || ''
+    };
+
+    const terms = new Map<string, Partial<Record<SearchField, number>>>();
+    (Object.keys(fields) as SearchField[]).forEach(field => {
+      for (const term of analyze(fields[field])) {
+        const counts = terms.get(term) || {};
+        counts[field] = (counts[field] || 0) + 1;
+        terms.set(term, counts);
+      }
+    });
+
+    terms.forEach((_, term) => postings.set(term, [...(postings.get(term) || []), position]));
+    new Set(tokenize([fields.name, fields.brand, fields.tags, fields.category].join(' ')))
+      .forEach(word => words.set(word, (words.get(word) || 0) + 1));
+    return { ...document, fields, terms };
+  });
+
+  return {
+    documents: indexed,
+    postings,
+    vocabulary: Array.from(postings.keys()),
+    words,
+    builtAt: Date.now()
+  };
+}
+
+/**
+ * Index terms a query word can match: itself, synonyms, completions of the
+ * word being typed and, for unknown words, near spellings
+ */
+function expandTerm(index: SearchIndex, word: string, isLast: boolean): TermExpansion[] {
+  const term = stem(word);
+  const expansions = new Map<string, number>();
+  const add = (candidate: string, weight: number) => {
+    if (index.postings.has(candidate) && weight > (expansions.get(candidate) || 0)) {
+      expansions.set(candidate, weight);
+    }
+  };
+
+  add(term, MATCH_WEIGHTS.exact);
+  for (const synonym of SYNONYMS.get(term) || []) add(synonym, MATCH_WEIGHTS.synonym);
+
+  if (isLast && word.length >= 2) {
+    for (const candidate of index.vocabulary) {
+      if (candidate.startsWith(word) && candidate !== term) add(candidate, MATCH_WEIGHTS.prefix);
+    }
+  }
+
+  if (!index.postings.has(term) && word.length >= 4) {
+    const maxDistance = word.length >= 8 ? 2 : 1;
+    for (const candidate of index.vocabulary) {
+      if (editDistance(term, candidate, maxDistance) <= maxDistance) add(candidate, MATCH_WEIGHTS.fuzzy);
+    }
+  }
+
+  return Array.from(expansions, ([candidate, weight]) => ({ term: candidate, weight }));
+}
+
+function scoreTerm(index: SearchIndex, document: IndexedDocument, expansion: TermExpansion): number {
+  const counts = document.terms.get(expansion.term);
+  if (!counts) return 0;
+
+  const documentFrequency = index.postings.get(expansion.term)?.length || 0;
+  const idf = Math.log(1 + (index.documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+  let fieldScore = 0;
+  (Object.keys(counts) as SearchField[]).forEach(field => {
+    const frequency = counts[field] || 0;
+    fieldScore += FIELD_WEIGHTS[field] * (frequency / (frequency + 1));
+  });
+
+  return expansion.weight * idf * fieldScore;
+}
+
+function highlight(text: string, matched: Set<string>): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  for (const match of Array.from(text.matchAll(WORD_PATTERN))) {
+    const word = match[0];
+    if (!matched.has(stem(word.toLowerCase()))) continue;
+
+    const start = match.index || 0;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), highlight: false });
+    segments.push({ text: word, highlight: true });
+    cursor = start + word.length;
+  }
+
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), highlight: false });
+  return segments;
+}
+
+function snippet(text: string, matched: Set<string>): HighlightSegment[] {
+  if (text.length <= DESCRIPTION_SNIPPET_LENGTH) return highlight(text, matched);
+
+  const firstMatch = Array.from(text.matchAll(WORD_PATTERN))
+    .find(match => matched.has(stem(match[0].toLowerCase())));
+
+  let start = 0;
+  if (firstMatch && (firstMatch.index || 0) > DESCRIPTION_SNIPPET_LENGTH / 3) {
+    start = text.lastIndexOf(' ', (firstMatch.index || 0) - DESCRIPTION_SNIPPET_LENGTH / 3) + 1;
+  }
+  let end = Math.min(text.length, start + DESCRIPTION_SNIPPET_LENGTH);
+  if (end < text.length) end = Math.max(text.lastIndexOf(' ', end), start + 1);
+
+  const segments = highlight(text.slice(start, end), matched);
+  if (start > 0) segments.unshift({ text: '…', highlight: false });
+  if (end < text.length) segments.push({ text: '…', highlight: false });
+  return segments;
+}
+
+function matchesPrice(price: number, min?: number, max?: number): boolean {
+  return (min === undefined || price >= min) && (max === undefined || price < max);
+}
+
+function formatBucket(bucket: { min: number; max: number | null }): string {
+  return bucket.max === null ? `$${bucket.min}+` : `$${bucket.min} - $${bucket.max}`;
+}
+
+type FilterName = 'category' | 'price' | 'rating' | 'inStock';
+
+function passesFilters(document: IndexedDocument, filters: SearchFilters, skip?: FilterName): boolean {
+  const { product } = document;
+  if (skip !== 'category' && filters.categories?.length
+    && !filters.categories.some(category => category.toLowerCase() === product.category.toLowerCase())) {
+    return false;
+  }
+  if (skip !== 'price' && !matchesPrice(product.price, filters.minPrice, filters.maxPrice)) return false;
+  if (skip !== 'rating' && filters.minRating && document.rating < filters.minRating) return false;
+  if (skip !== 'inStock' && filters.inStock && !document.inStock) return false;
+  return true;
+}
+
+function countFacets(matches: IndexedDocument[], filters: SearchFilters): SearchFacets {
+  const categories = new Map<string, number>();
+  for (const document of matches.filter(match => passesFilters(match, filters, 'category'))) {
+    categories.set(document.product.category, (categories.get(document.product.category) || 0) + 1);
+  }
+
+  const byPrice = matches.filter(match => passesFilters(match, filters, 'price'));
+  const byRating = matches.filter(match => passesFilters(match, filters, 'rating'));
+
+  return {
+    category: Array.from(categories, ([value, count]) => ({ value, label: value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+    price: PRICE_BUCKETS
+      .map(bucket => ({
+        value: `${bucket.min}-${bucket.max ?? ''}`,
+        label: formatBucket(bucket),
+        count: byPrice.filter(match => matchesPrice(match.product.price, bucket.min, bucket.max ?? undefined)).length
+      }))
+      .filter(facet => facet.count > 0),
+    rating: RATING_THRESHOLDS
+      .map(threshold => ({
+        value: String(threshold),
+        label: `${threshold}★ & up`,
+        count: byRating.filter(match => match.rating >= threshold).length
+      }))
+      .filter(facet => facet.count > 0),
+    inStock: matches.filter(match => passesFilters(match, filters, 'inStock') && match.inStock).length
+  };
+}
+
+/**
+ * Rank the index against a query. Every query word has to match (through
+ * a synonym, completion or near spelling if need be); when nothing matches
+ * them all, products matching any word are returned, fewest misses first.
+ * An empty query lists everything that passes the filters.
+ */
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResponse {
+  const { sort = 'relevance', limit = 20, offset = 0 } = options;
+  // Hyphenated query words are matched by their parts
+  const words = tokenize(query.replace(/-/g, ' '));
+  const expansions = words.map((word, i) => expandTerm(index, word, i === words.length - 1));
+
+  type Candidate = { document: IndexedDocument; score: number; matchedWords: number; matchedTerms: Set<string> };
+  const candidates = new Map<number, Candidate>();
+
+  if (words.length === 0) {
+    index.documents.forEach((document, position) => {
+      candidates.set(position, { document, score: 0, matchedWords: 0, matchedTerms: new Set() });
+    });
+  } else {
+    expansions.forEach(termExpansions => {
+      const best = new Map<number, { score: number; term: string }>();
+      for (const expansion of termExpansions) {
+        for (const position of index.postings.get(expansion.term) || []) {
+          const score = scoreTerm(index, index.documents[position], expansion);
+          if (score > (best.get(position)?.score || 0)) best.set(position, { score, term: expansion.term });
+        }
+      }
+      best.forEach(({ score, term }, position) => {
+        const candidate = candidates.get(position)
+          || { document: index.documents[position], score: 0, matchedWords: 0, matchedTerms: new Set<string>() };
+        candidate.score += score;
+        candidate.matchedWords += 1;
+        candidate.matchedTerms.add(term);
+        candidates.set(position, candidate);
+      });
+    });
+  }
+
+  let matches = Array.from(candidates.values());
+  let allTermsMatched = true;
+  if (words.length > 0) {
+    const complete = matches.filter(candidate => candidate.matchedWords === words.length);
+    allTermsMatched = complete.length > 0;
+    if (allTermsMatched) {
+      matches = complete;
+    } else {
+      matches.forEach(candidate => { candidate.score *= candidate.matchedWords / words.length; });
+    }
+
+    // The query as typed appearing in the name beats scattered matches
+    const phrase = query.trim().toLowerCase();
+    matches.forEach(candidate => {
+      if (candidate.document.product.name.toLowerCase().includes(phrase)) candidate.score *= 1.5;
+    });
+  }
+
+  const facets = countFacets(matches.map(candidate => candidate.document), options);
+  const filtered = matches.filter(candidate => passesFilters(candidate.document, options));
+
+  const compare: Record<SearchSort, (a: Candidate, b: Candidate) => number> = {
+    relevance: (a, b) => b.score - a.score,
+    price_asc: (a, b) => a.document.product.price - b.document.product.price,
+    price_desc: (a, b) => b.document.product.price - a.document.product.price,
+    newest: (a, b) => (b.document.createdAt || '').localeCompare(a.document.createdAt || '')
+      || Number(b.document.product.id) - Number(a.document.product.id),
+    rating: (a, b) => b.document.rating - a.document.rating || b.document.reviews - a.document.reviews
+  };
+  // Ties keep relevance order, then catalogue order
+  filtered.sort((a, b) => compare[sort](a, b) || b.score - a.score);
+
+  return {
+    query,
+    total: filtered.length,
+    facets,
+    allTermsMatched,
+    results: filtered.slice(offset, offset + limit).map(({ document, score, matchedTerms }) => ({
+      product: document.product,
+      score: Math.round(score * 1000) / 1000,
+      rating: document.rating,
+      reviews: document.reviews,
+      inStock: document.inStock,
+      highlights: {
+        name: highlight(document.product.name, matchedTerms),
+        description: snippet(document.product.description || '', matchedTerms)
+      }
+    }))
+  };
+}
+
+function completion(typed: string, query: string, source: QuerySuggestion['source']): QuerySuggestion {
+  return {
+    query,
+    segments: [
+      { text: typed, highlight: false },
+      { text: query.slice(typed.length), highlight: true }
+    ].filter(segment => segment.text),
+    source
+  };
+}
+
+// Categories or brands with a word starting with the one being typed
+function matchGroups(values: Array<string | null | undefined>, typed: string, lastWord: string): FacetCount[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (!value) continue;
+    const lower = value.toLowerCase();
+    if (lower.startsWith(typed) || tokenize(lower).some(word => word.startsWith(lastWord))) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+  }
+  return Array.from(counts, ([value, count]) => ({ value, label: value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, MAX_GROUP_SUGGESTIONS);
+}
+
+/**
+ * The query with words the catalogue doesn't know replaced by the closest
+ * catalogue word, or null when nothing needed correcting. The word still
+ * being typed is left alone while it completes to something.
+ */
+function correctSpelling(index: SearchIndex, typed: string, typing: boolean): string | null {
+  const words = typed.split(' ');
+  let corrected = false;
+
+  const fixed = words.map((word, i) => {
+    const term = stem(word);
+    if (word.length < 4 || !/^[a-z\u00c0-\u024f]+$/.test(word) || STOP_WORDS.has(word)) return word;
+    if (index.postings.has(term) || (SYNONYMS.get(term) || []).some(synonym => index.postings.has(synonym))) return word;
+    if (typing && i === words.length - 1 && index.vocabulary.some(candidate => candidate.startsWith(word))) return word;
+
+    const maxDistance = word.length >= 8 ? 2 : 1;
+    let best: { word: string; distance: number; count: number } | null = null;
+    for (const [candidate, count] of Array.from(index.words)) {
+      const distance = editDistance(word, candidate, maxDistance);
+      if (distance <= maxDistance && (!best || distance < best.distance || (distance === best.distance && count > best.count))) {
+        best = { word: candidate, distance, count };
+      }
+    }
+
+    if (!best) return word;
+    corrected = true;
+    return best.word;
+  });
+
+  return corrected ? fixed.join(' ') : null;
+}
+
+/**
+ * Search box suggestions for what has been typed so far: completions from
+ * popular searches and catalogue words, matching categories and brands, and
+ * a spelling correction. With nothing typed the popular searches are
+ * returned as they are.
+ */
+export function suggestSearches(
+  index: SearchIndex,
+  input: string,
+  popular: PopularSearch[] = [],
+  limit: number = 6
+): SearchSuggestions {
+  const typed = input.toLowerCase().replace(/\s+/g, ' ').trim();
+  // A trailing space means the last word is finished
+  const typing = !/\s$/.test(input);
+
+  if (!typed) {
+    return {
+      query: typed,
+      completions: popular.slice(0, limit).map(search => completion('', search.query, 'popular')),
+      categories: [],
+      brands: [],
+      didYouMean: null
+    };
+  }
+
+  const completions: QuerySuggestion[] = popular
+    .filter(search => search.query.startsWith(typed) && search.query !== typed)
+    .slice(0, limit)
+    .map(search => completion(typed, search.query, 'popular'));
+
+  const words = typed.split(' ');
+  const lastWord = words[words.length - 1];
+  if (typing && completions.length < limit) {
+    const head = words.slice(0, -1).join(' ');
+    const candidates = Array.from(index.words)
+      .filter(([word]) => word.startsWith(lastWord) && word !== lastWord)
+      .sort((a, b) => b[1] - a[1] || a[0].length - b[0].length)
+      .map(([word]) => (head ? `${head} ${word}` : word))
+      .filter(query => !completions.some(existing => existing.query === query))
+      .slice(0, limit * 2);
+
+    // Only completions that find something once the rest of the query is applied
+    for (const query of candidates) {
+      if (completions.length >= limit) break;
+      if (searchIndex(index, query, { limit: 0 }).total > 0) completions.push(completion(typed, query, 'catalogue'));
+    }
+  }
+
+  return {
+    query: typed,
+    completions,
+    categories: matchGroups(index.documents.map(document => document.product.category), typed, lastWord),
+    brands: matchGroups(index.documents.map(document => document.brand), typed, lastWord),
+    didYouMean: correctSpelling(index, typed, typing)
+  };
+}
+
+/**
+ * Average approved rating and review count per product
+ */
+export async function getProductRatings(productIds: string[]): Promise<Map<string, { rating: number; reviews: number }>> {
+  const ratings = new Map<string, { rating: number; reviews: number }>();
+  const supabase = createSearchClient();
+  if (!supabase || productIds.length === 0) return ratings;
+
+  const { data, error } = await supabase
+    .from('product_reviews')
+    .select('product_id, rating')
+    .eq('status', 'approved')
+    .in('product_id', productIds);
+
+  if (error) {
+    console.error('Error loading product ratings:', error);
+    return ratings;
+  }
+
+  const totals = new Map<string, { sum: number; count: number }>();
+  for (const review of data || []) {
+    const total = totals.get(String(review.product_id)) || { sum: 0, count: 0 };
+    totals.set(String(review.product_id), { sum: total.sum + review.rating, count: total.count + 1 });
+  }
+  totals.forEach(({ sum, count }, productId) => {
+    ratings.set(productId, { rating: Math.round((sum / count) * 10) / 10, reviews: count });
+  });
+  return ratings;
+}
+
+/**
+ * Search documents for a catalogue: ratings from approved reviews and
+ * stock from the inventory ledger where it tracks the product
+ */
+export async function toSearchDocuments(products: Product[]): Promise<SearchDocument[]> {
+  const productIds = products.map(product => product.id);
+  const [stock, ratings] = await Promise.all([
+    getAvailableStock(productIds).catch(error => {
+      console.error('Error loading stock levels:', error);
+      return null;
+    }),
+    getProductRatings(productIds)
+  ]);
+
+  return products.map(product => ({
+    product,
+    // Catalogue rows from the products table carry the brand as `vendor`
+    brand: product.brand || (product as Product & { vendor?: string }).vendor || null,
+    rating: ratings.get(product.id)?.rating ?? 0,
+    reviews: ratings.get(product.id)?.reviews ?? 0,
+    inStock: (stock?.get(product.id) ?? product.stock) > 0,
+    createdAt: (product as Product & { created_at?: string }).created_at || null
+  }));
+}
+
+const indexCache = new Map<string, Promise<SearchIndex>>();
+
+/**
+ * The index for a catalogue, built on first use and rebuilt once it is
+ * INDEX_TTL_MS old. `name` keeps separate catalogues (web, mobile) apart.
+ */
+export async function getSearchIndex(name: string, loadProducts: () => Promise<Product[]>): Promise<SearchIndex> {
+  const cached = indexCache.get(name);
+  if (cached) {
+    const index = await cached.catch(() => null);
+    if (index && Date.now() - index.builtAt < INDEX_TTL_MS) return index;
+  }
+
+  const building = loadProducts().then(toSearchDocuments).then(buildSearchIndex);
+  indexCache.set(name, building);
+  building.catch(() => indexCache.delete(name));
+  return building;
+}
+
+/**
+ * Drop cached indexes so the next search sees catalogue changes straight away
+ */
+export function invalidateSearchIndex(name?: string): void {
+  if (name) {
+    indexCache.delete(name);
+  } else {
+    indexCache.clear();
+  }
+}
+
+/**
+ * Read search options from query parameters: category (repeatable or
+ * comma-separated), minPrice, maxPrice, minRating, inStock, sort, limit, offset
+ */
+export function parseSearchOptions(params: URLSearchParams, defaultLimit: number = 20): SearchOptions {
+  const number = (name: string) => {
+    const value = params.get(name);
+    return value !== null && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+  };
+  const sort = params.get('sort') as SearchSort | null;
+  const limit = number('limit');
+
+  return {
+    categories: params.getAll('category').flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean),
+    minPrice: number('minPrice'),
+    maxPrice: number('maxPrice'),
+    minRating: number('minRating'),
+    inStock: params.get('inStock') === 'true' || undefined,
+    sort: sort && ['relevance', 'price_asc', 'price_desc', 'newest', 'rating'].includes(sort) ? sort : 'relevance',
+    limit: limit && limit > 0 ? Math.min(limit, 100) : defaultLimit,
+    offset: Math.max(0, number('offset') || 0)
+  };
+}
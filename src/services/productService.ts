@@ -1,5 +1,7 @@
 import { CartItem, Product } from '../types';
 import { CartItemWithPrice } from './pricing';
+import { BASE_CURRENCY, ExchangeRates, convertFromBase, formatMoney } from './currency';
+import { getVariant, hasVariants, variantTitle } from './productVariants';
 
 /**
  * Mock product database - in a real app, this would come from a database
@@ -13,7 +15,9 @@ const PRODUCTS_DB: Product[] = [
     imageUrl: '/images/headphones.jpg',
     category: 'Electronics',
     stock: 25,
-    tags: ['wireless', 'audio', 'noise-cancellation']
+    tags: ['wireless', 'audio', 'noise-cancellation'],
+    weight: 0.35,
+    dimensions: { length: 22, width: 19, height: 9 }
   },
   {
     id: '2',
@@ -23,7 +27,9 @@ const PRODUCTS_DB: Product[] = [
     imageUrl: '/images/smartwatch.jpg',
     category: 'Electronics',
     stock: 15,
-    tags: ['smartwatch', 'fitness', 'wearable']
+    tags: ['smartwatch', 'fitness', 'wearable'],
+    weight: 0.15,
+    dimensions: { length: 12, width: 10, height: 8 }
   },
   {
     id: '3',
@@ -33,7 +39,9 @@ const PRODUCTS_DB: Product[] = [
     imageUrl: '/images/backpack.jpg',
     category: 'Accessories',
     stock: 40,
-    tags: ['backpack', 'laptop', 'travel']
+    tags: ['backpack', 'laptop', 'travel'],
+    weight: 0.9,
+    dimensions: { length: 48, width: 32, height: 12 }
   },
   {
     id: '4',
@@ -43,7 +51,9 @@ const PRODUCTS_DB: Product[] = [
     imageUrl: '/images/speaker.jpg',
     category: 'Electronics',
     stock: 30,
-    tags: ['bluetooth', 'speaker', 'portable']
+    tags: ['bluetooth', 'speaker', 'portable'],
+    weight: 0.6,
+    dimensions: { length: 20, width: 10, height: 10 }
   },
   {
     id: '5',
@@ -53,7 +63,36 @@ const PRODUCTS_DB: Product[] = [
     imageUrl: '/images/mouse.jpg',
     category: 'Electronics',
     stock: 50,
-    tags: ['mouse', 'wireless', 'ergonomic']
+    tags: ['mouse', 'wireless', 'ergonomic'],
+    weight: 0.12,
+    dimensions: { length: 14, width: 9, height: 6 }
+  },
+  {
+    id: '6',
+    name: 'Organic Cotton T-Shirt',
+    description: 'Soft, breathable t-shirt made from 100% certified organic cotton',
+    price: 29.99,
+    imageUrl: '/images/tshirt-white.jpg',
+    category: 'Clothing',
+    stock: 83, // Sum of the variants' stock
+    tags: ['organic', 'cotton', 'sustainable', 't-shirt'],
+    taxCategory: 'clothing',
+    weight: 0.2,
+    dimensions: { length: 30, width: 25, height: 3 },
+    options: [
+      { name: 'Colour', values: ['White', 'Navy'] },
+      { name: 'Size', values: ['S', 'M', 'L', 'XL'] }
+    ],
+    variants: [
+      { id: '6-white-s', sku: 'TEE-ORG-WHT-S', options: { Colour: 'White', Size: 'S' }, price: 29.99, stock: 12, imageUrl: '/images/tshirt-white.jpg' },
+      { id: '6-white-m', sku: 'TEE-ORG-WHT-M', options: { Colour: 'White', Size: 'M' }, price: 29.99, stock: 20, imageUrl: '/images/tshirt-white.jpg' },
+      { id: '6-white-l', sku: 'TEE-ORG-WHT-L', options: { Colour: 'White', Size: 'L' }, price: 29.99, stock: 18, imageUrl: '/images/tshirt-white.jpg' },
+      { id: '6-white-xl', sku: 'TEE-ORG-WHT-XL', options: { Colour: 'White', Size: 'XL' }, price: 32.99, stock: 6, imageUrl: '/images/tshirt-white.jpg' },
+      { id: '6-navy-s', sku: 'TEE-ORG-NVY-S', options: { Colour: 'Navy', Size: 'S' }, price: 29.99, stock: 8, imageUrl: '/images/tshirt-navy.jpg' },
+      { id: '6-navy-m', sku: 'TEE-ORG-NVY-M', options: { Colour: 'Navy', Size: 'M' }, price: 29.99, stock: 15, imageUrl: '/images/tshirt-navy.jpg' },
+      { id: '6-navy-l', sku: 'TEE-ORG-NVY-L', options: { Colour: 'Navy', Size: 'L' }, price: 29.99, stock: 4, imageUrl: '/images/tshirt-navy.jpg' },
+      { id: '6-navy-xl', sku: 'TEE-ORG-NVY-XL', options: { Colour: 'Navy', Size: 'XL' }, price: 32.99, stock: 0, imageUrl: '/images/tshirt-navy.jpg' }
+    ]
   }
 ];
 
@@ -72,7 +111,8 @@ export function getAllProducts(): Product[] {
 }
 
 /**
- * Convert CartItem array to CartItemWithPrice array by looking up product information
+ * Convert CartItem array to CartItemWithPrice array by looking up product information.
+ * Lines of products with variants are priced at their variant.
  */
 export function enrichCartItemsWithPrice(cartItems: CartItem[]): CartItemWithPrice[] {
   return cartItems.map(item => {
@@ -80,11 +120,23 @@ export function enrichCartItemsWithPrice(cartItems: CartItem[]): CartItemWithPri
     if (!product) {
       throw new Error(`Product not found: ${item.productId}`);
     }
-    
+
+    const variant = getVariant(product, item.variantId);
+    if (hasVariants(product) && !variant) {
+      throw new Error(`Variant not found for ${product.name}: ${item.variantId || 'none chosen'}`);
+    }
+
     return {
       ...item,
-      price: product.price,
-      name: product.name
+      variantId: variant?.id,
+      sku: variant?.sku,
+      variantTitle: variant ? variantTitle(product, variant) : undefined,
+      price: variant ? variant.price : product.price,
+      name: product.name,
+      category: product.category,
+      tags: product.tags,
+      taxCategory: product.taxCategory,
+      isDigital: product.isDigital
     };
   });
 }
@@ -115,7 +167,14 @@ export function validateCartItems(cartItems: CartItem[]): {
       errors.push(`Product not found: ${item.productId}`);
       continue;
     }
-    
+
+    if (hasVariants(product) && !getVariant(product, item.variantId)) {
+      errors.push(item.variantId
+        ? `Variant not found for ${product.name}: ${item.variantId}`
+        : `Choose an option for ${product.name}`);
+      continue;
+    }
+
     // Check quantity
     if (item.quantity <= 0) {
       errors.push(`Invalid quantity for ${product.name}: ${item.quantity}`);
@@ -161,13 +220,10 @@ export function getFeaturedProducts(limit: number = 4): Product[] {
 }
 
 /**
- * Format price for display
+ * Format a catalogue (base currency) price for display, converted into `currency`
  */
-export function formatPrice(price: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(price);
+export function formatPrice(price: number, currency: string = BASE_CURRENCY, rates?: ExchangeRates): string {
+  return formatMoney(convertFromBase(price, currency, rates), currency);
 }
 
 /**
@@ -0,0 +1,95 @@
+import type { Product, ProductVariant } from '../types';
+
+// Safe to import from client components: no server dependencies
+
+type VariantProduct = Pick<Product, 'imageUrl' | 'options' | 'variants'>;
+
+/**
+ * A cart or order line: the product, and the variant for products that have them
+ */
+export interface VariantLine {
+  productId: string;
+  variantId?: string | null;
+}
+
+export function hasVariants(product: Pick<Product, 'variants'>): boolean {
+  return !!product.variants && product.variants.length > 0;
+}
+
+export function getVariant(product: Pick<Product, 'variants'>, variantId?: string | null): ProductVariant | null {
+  if (!variantId) return null;
+  return product.variants?.find(variant => variant.id === variantId) || null;
+}
+
+/**
+ * The variant with exactly these option values, or null until a value is
+ * chosen for every option
+ */
+export function findVariant(product: VariantProduct, selection: Record<string, string>): ProductVariant | null {
+  const options = product.options || [];
+  if (options.some(option => !selection[option.name])) return null;
+
+  return product.variants?.find(variant =>
+    options.every(option => variant.options[option.name] === selection[option.name])
+  ) || null;
+}
+
+/**
+ * Whether picking `value` for `optionName`, keeping the other choices, leads
+ * to a variant that is in stock
+ */
+export function isOptionValueAvailable(
+  product: VariantProduct,
+  selection: Record<string, string>,
+  optionName: string,
+  value: string
+): boolean {
+  return (product.variants || []).some(variant =>
+    variant.stock > 0 &&
+    variant.options[optionName] === value &&
+    Object.entries(selection).every(([name, selected]) => name === optionName || !selected || variant.options[name] === selected)
+  );
+}
+
+/**
+ * The variant a product page opens on: the first one in stock
+ */
+export function defaultVariant(product: Pick<Product, 'variants'>): ProductVariant | null {
+  const variants = product.variants || [];
+  return variants.find(variant => variant.stock > 0) || variants[0] || null;
+}
+
+/**
+ * Option values in the product's option order, e.g. "Navy / M"
+ */
+export function variantTitle(product: VariantProduct, variant: ProductVariant): string {
+  const names = product.options?.length
+    ? product.options.map(option => option.name)
+    : Object.keys(variant.options);
+  return names.map(name => variant.options[name]).filter(Boolean).join(' / ');
+}
+
+export function variantImage(product: VariantProduct, variant: ProductVariant | null): string {
+  return variant?.imageUrl || product.imageUrl;
+}
+
+/**
+ * Lowest and highest variant price, or the product price without variants
+ */
+export function variantPriceRange(product: Pick<Product, 'price' | 'variants'>): { min: number; max: number } {
+  if (!hasVariants(product)) return { min: product.price, max: product.price };
+  const prices = product.variants!.map(variant => variant.price);
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+}
+
+/**
+ * What the inventory ledger tracks a line's stock under: variants are
+ * stocked individually, under their variant id
+ */
+export function stockKey(line: VariantLine): string {
+  return line.variantId || line.productId;
+}
+
+export function isSameLine(a: VariantLine, b: VariantLine): boolean {
+  return a.productId === b.productId && (a.variantId || null) === (b.variantId || null);
+}
@@ -0,0 +1,131 @@
+import { createClient } from '@supabase/supabase-js';
+import { CustomerTier, DEFAULT_PROMOTIONS, Promotion, PromotionEffect } from './pricing';
+
+/**
+ * Row shape of the `promotions` table (see database/promotions-setup.sql)
+ */
+export interface PromotionRow {
+  id: string;
+  name: string;
+  description: string | null;
+  effect_type: PromotionEffect['type'];
+  effect_value: number | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  min_subtotal: number | null;
+  min_quantity: number | null;
+  categories: string[] | null;
+  tags: string[] | null;
+  customer_tiers: CustomerTier[] | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  priority: number;
+  is_exclusive: boolean;
+  is_active: boolean;
+}
+
+function createPromotionsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+function toPromotionEffect(row: PromotionRow): PromotionEffect {
+  switch (row.effect_type) {
+    case 'buy_x_get_y':
+      return {
+        type: 'buy_x_get_y',
+        buyQuantity: row.buy_quantity || 1,
+        getQuantity: row.get_quantity || 1,
+        discountPercent: row.effect_value ?? 100
+      };
+    case 'free_shipping':
+      return { type: 'free_shipping' };
+    default:
+      return { type: row.effect_type, value: Number(row.effect_value) || 0 };
+  }
+}
+
+/**
+ * Map a database row to the pricing engine's Promotion definition
+ */
+export function mapPromotionRow(row: PromotionRow): Promotion {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || row.name,
+    conditions: {
+      minSubtotal: row.min_subtotal ?? undefined,
+      minQuantity: row.min_quantity ?? undefined,
+      categories: row.categories || undefined,
+      tags: row.tags || undefined,
+      customerTiers: row.customer_tiers || undefined,
+      startsAt: row.starts_at || undefined,
+      endsAt: row.ends_at || undefined
+    },
+    effect: toPromotionEffect(row),
+    priority: row.priority || 0,
+    exclusive: row.is_exclusive,
+    isActive: row.is_active
+  };
+}
+
+/**
+ * Load active promotions from the `promotions` table.
+ * Falls back to the built-in promotions when Supabase is not configured or the query fails.
+ */
+export async function loadActivePromotions(now: Date = new Date()): Promise<Promotion[]> {
+  const supabase = createPromotionsClient();
+  if (!supabase) {
+    return DEFAULT_PROMOTIONS;
+  }
+
+  try {
+    const nowIso = now.toISOString();
+    const { data, error } = await supabase
+      .from('promotions')
+      .select('*')
+      .eq('is_active', true)
+      .or(`starts_at.is.null,starts_at.lte.${nowIso}`)
+      .or(`ends_at.is.null,ends_at.gte.${nowIso}`)
+      .order('priority', { ascending: false });
+
+    if (error) {
+      console.warn('Failed to load promotions, using defaults:', error.message);
+      return DEFAULT_PROMOTIONS;
+    }
+
+    return (data as PromotionRow[] || []).map(mapPromotionRow);
+  } catch (error) {
+    console.warn('Failed to load promotions, using defaults:', error);
+    return DEFAULT_PROMOTIONS;
+  }
+}
+
+/**
+ * Look up a customer's loyalty tier by email for tier-restricted promotions
+ */
+export async function getCustomerTier(email: string): Promise<CustomerTier | undefined> {
+  const supabase = createPromotionsClient();
+  if (!supabase || !email) {
+    return undefined;
+  }
+
+  try {
+    const { data } = await supabase
+      .from('customers')
+      .select('loyalty_tier')
+      .eq('email', email)
+      .maybeSingle();
+
+    return data?.loyalty_tier || undefined;
+  } catch (error) {
+    console.warn('Failed to look up customer tier:', error);
+    return undefined;
+  }
+}
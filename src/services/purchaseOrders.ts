@@ -0,0 +1,659 @@
+import { createClient } from '@supabase/supabase-js';
+import { createTextPdf } from '../lib/pdf';
+import type { InventoryLevel } from './inventory';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+// Alert types that should trigger a reorder (out_of_stock products are
+// covered by their earlier low/critical alerts)
+export const REPLENISH_ALERT_TYPES = ['low_stock', 'critical_stock'];
+
+// POs in these states still count as stock on order
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received'];
+
+const STATUS_TRANSITIONS: Partial<Record<PurchaseOrderStatus, PurchaseOrderStatus[]>> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['cancelled']
+};
+
+/**
+ * Row shape of the `suppliers` table (see database/purchasing-setup.sql)
+ */
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  currency: string;
+  default_lead_time_days: number;
+  is_active: boolean;
+  notes: string | null;
+}
+
+/**
+ * Row shape of the `product_suppliers` table
+ */
+export interface ProductSupplier {
+  id: string;
+  product_id: string;
+  supplier_id: string;
+  supplier_sku: string | null;
+  unit_cost: number;
+  lead_time_days: number | null;
+  min_order_quantity: number;
+  is_preferred: boolean;
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  supplier_sku: string | null;
+  description: string | null;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  warehouse_id: string;
+  status: PurchaseOrderStatus;
+  source: 'manual' | 'auto';
+  currency: string;
+  subtotal: number;
+  expected_at: string | null;
+  notes: string | null;
+  sent_at: string | null;
+  received_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PurchaseOrderWithLines = PurchaseOrder & {
+  supplier: Supplier | null;
+  purchase_order_lines: PurchaseOrderLine[];
+};
+
+/**
+ * Minimal shape of an `inventory_alerts` row as sent to
+ * webhookService.sendInventoryAlert
+ */
+export interface InventoryAlertInput {
+  product_id: string;
+  product_name?: string;
+  alert_type: string;
+}
+
+export interface ReplenishmentResult {
+  created: string[]; // PO numbers
+  updated: string[]; // existing auto drafts that gained lines
+  skipped: Array<{ productId: string; warehouseId?: string; reason: string }>;
+}
+
+export interface PurchaseOrderLineInput {
+  productId: string;
+  quantity: number;
+  unitCost?: number;
+  description?: string;
+}
+
+const PO_SELECT = '*, supplier:suppliers(*), purchase_order_lines(*)';
+
+function createPurchasingClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function generatePoNumber(): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  const suffix = Math.random().toString(36).slice(2, 6).toUpperCase();
+  return `PO-${date}-${suffix}`;
+}
+
+function expectedAt(leadTimeDays: number): string {
+  return new Date(Date.now() + leadTimeDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * How many units to order for a location at or below its reorder point:
+ * the configured reorder quantity, or enough to bring available stock back
+ * up to twice the reorder point. Never less than the supplier's minimum.
+ */
+export function calculateReorderQuantity(
+  level: Pick<InventoryLevel, 'available' | 'reorder_point'> & { reorder_quantity?: number | null },
+  minOrderQuantity: number = 1
+): number {
+  const quantity = level.reorder_quantity || level.reorder_point * 2 - level.available;
+  return Math.max(quantity, minOrderQuantity, 1);
+}
+
+/**
+ * Draft purchase orders for the products behind low_stock / critical_stock
+ * alerts. Every location at or below its reorder point is ordered from the
+ * product's preferred supplier, one PO per supplier and warehouse. Lines are
+ * added to an existing auto-generated draft for the same supplier and
+ * warehouse rather than opening a new PO, and products already on an open
+ * PO for that warehouse are skipped.
+ */
+export async function createDraftPurchaseOrdersForAlerts(
+  alerts: InventoryAlertInput[]
+): Promise<ReplenishmentResult> {
+  const result: ReplenishmentResult = { created: [], updated: [], skipped: [] };
+  const supabase = createPurchasingClient();
+  if (!supabase) return result;
+
+  const productIds = Array.from(new Set(
+    alerts.filter(alert => REPLENISH_ALERT_TYPES.includes(alert.alert_type)).map(alert => alert.product_id)
+  ));
+  if (productIds.length === 0) return result;
+
+  const [levelsResult, linksResult, openLinesResult] = await Promise.all([
+    supabase
+      .from('inventory_levels')
+      .select('product_id, warehouse_id, available, reorder_point, reorder_quantity')
+      .in('product_id', productIds),
+    supabase
+      .from('product_suppliers')
+      .select('*, supplier:suppliers(*)')
+      .in('product_id', productIds)
+      .eq('is_preferred', true),
+    supabase
+      .from('purchase_order_lines')
+      .select('product_id, purchase_orders!inner(warehouse_id, status)')
+      .in('product_id', productIds)
+      .in('purchase_orders.status', OPEN_STATUSES)
+  ]);
+
+  const queryError = levelsResult.error || linksResult.error || openLinesResult.error;
+  if (queryError) {
+    throw new Error(`Failed to load replenishment data: ${queryError.message}`);
+  }
+
+  const onOrder = new Set(
+    (openLinesResult.data || []).map((line: any) => {
+      const po = Array.isArray(line.purchase_orders) ? line.purchase_orders[0] : line.purchase_orders;
+      return `${line.product_id}:${po?.warehouse_id}`;
+    })
+  );
+
+  const names = new Map(alerts.map(alert => [alert.product_id, alert.product_name]));
+  type DraftGroup = {
+    supplier: Supplier;
+    warehouseId: string;
+    lines: Array<PurchaseOrderLineInput & { supplierSku: string | null; leadTimeDays: number }>;
+  };
+  const groups = new Map<string, DraftGroup>();
+
+  for (const productId of productIds) {
+    const link = (linksResult.data || []).find(candidate => candidate.product_id === productId);
+    const levels = (levelsResult.data || []).filter(level => level.product_id === productId);
+
+    if (!link || !link.supplier?.is_active) {
+      result.skipped.push({ productId, reason: 'No active preferred supplier' });
+      continue;
+    }
+    if (levels.length === 0) {
+      result.skipped.push({ productId, reason: 'Stock is not tracked for this product' });
+      continue;
+    }
+
+    for (const level of levels) {
+      if (level.available > level.reorder_point) continue;
+
+      if (onOrder.has(`${productId}:${level.warehouse_id}`)) {
+        result.skipped.push({ productId, warehouseId: level.warehouse_id, reason: 'Already on an open purchase order' });
+        continue;
+      }
+
+      const key = `${link.supplier_id}:${level.warehouse_id}`;
+      const group: DraftGroup = groups.get(key) || { supplier: link.supplier, warehouseId: level.warehouse_id, lines: [] };
+      group.lines.push({
+        productId,
+        quantity: calculateReorderQuantity(level, link.min_order_quantity),
+        unitCost: link.unit_cost,
+        description: names.get(productId) || undefined,
+        supplierSku: link.supplier_sku,
+        leadTimeDays: link.lead_time_days ?? link.supplier.default_lead_time_days
+      });
+      groups.set(key, group);
+    }
+  }
+
+  for (const group of Array.from(groups.values())) {
+    const leadTimeDays = Math.max(...group.lines.map(line => line.leadTimeDays));
+
+    const { data: draft } = await supabase
+      .from('purchase_orders')
+      .select('id, po_number')
+      .eq('supplier_id', group.supplier.id)
+      .eq('warehouse_id', group.warehouseId)
+      .eq('status', 'draft')
+      .eq('source', 'auto')
+      .limit(1)
+      .maybeSingle();
+
+    let po = draft;
+    if (!po) {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .insert({
+          po_number: generatePoNumber(),
+          supplier_id: group.supplier.id,
+          warehouse_id: group.warehouseId,
+          source: 'auto',
+          currency: group.supplier.currency,
+          expected_at: expectedAt(leadTimeDays),
+          notes: 'Generated from inventory alerts'
+        })
+        .select('id, po_number')
+        .single();
+
+      if (error) throw new Error(`Failed to create purchase order: ${error.message}`);
+      po = data;
+    }
+
+    const poId = po!.id;
+    const { error: linesError } = await supabase
+      .from('purchase_order_lines')
+      .upsert(group.lines.map(line => ({
+        purchase_order_id: poId,
+        product_id: line.productId,
+        supplier_sku: line.supplierSku,
+        description: line.description || null,
+        quantity_ordered: line.quantity,
+        unit_cost: line.unitCost || 0
+      })), { onConflict: 'purchase_order_id,product_id', ignoreDuplicates: true });
+
+    if (linesError) throw new Error(`Failed to add purchase order lines: ${linesError.message}`);
+
+    await refreshSubtotal(poId);
+    (draft ? result.updated : result.created).push(po!.po_number);
+  }
+
+  return result;
+}
+
+/**
+ * Draft POs for every unresolved low_stock / critical_stock alert
+ */
+export async function replenishFromOpenAlerts(): Promise<ReplenishmentResult> {
+  const supabase = createPurchasingClient();
+  if (!supabase) return { created: [], updated: [], skipped: [] };
+
+  const { data, error } = await supabase
+    .from('inventory_alerts')
+    .select('product_id, product_name, alert_type')
+    .eq('is_resolved', false)
+    .in('alert_type', REPLENISH_ALERT_TYPES);
+
+  if (error) throw new Error(`Failed to fetch inventory alerts: ${error.message}`);
+  return createDraftPurchaseOrdersForAlerts(data || []);
+}
+
+/**
+ * Create a draft PO by hand. Unit costs default to the product's terms with
+ * this supplier.
+ */
+export async function createPurchaseOrder(input: {
+  supplierId: string;
+  warehouseId: string;
+  lines: PurchaseOrderLineInput[];
+  notes?: string;
+}): Promise<PurchaseOrderWithLines> {
+  const supabase = createPurchasingClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const [{ data: supplier, error: supplierError }, { data: links }] = await Promise.all([
+    supabase.from('suppliers').select('*').eq('id', input.supplierId).single(),
+    supabase
+      .from('product_suppliers')
+      .select('*')
+      .eq('supplier_id', input.supplierId)
+      .in('product_id', input.lines.map(line => line.productId))
+  ]);
+
+  if (supplierError || !supplier) throw new Error(`Supplier ${input.supplierId} not found`);
+
+  const terms = (productId: string) => (links || []).find(link => link.product_id === productId);
+  const leadTimeDays = Math.max(
+    supplier.default_lead_time_days,
+    ...input.lines.map(line => terms(line.productId)?.lead_time_days ?? 0)
+  );
+
+  const { data: po, error } = await supabase
+    .from('purchase_orders')
+    .insert({
+      po_number: generatePoNumber(),
+      supplier_id: supplier.id,
+      warehouse_id: input.warehouseId,
+      currency: supplier.currency,
+      expected_at: expectedAt(leadTimeDays),
+      notes: input.notes || null
+    })
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to create purchase order: ${error.message}`);
+
+  const { error: linesError } = await supabase
+    .from('purchase_order_lines')
+    .insert(input.lines.map(line => ({
+      purchase_order_id: po.id,
+      product_id: line.productId,
+      supplier_sku: terms(line.productId)?.supplier_sku || null,
+      description: line.description || null,
+      quantity_ordered: line.quantity,
+      unit_cost: line.unitCost ?? terms(line.productId)?.unit_cost ?? 0
+    })));
+
+  if (linesError) {
+    await supabase.from('purchase_orders').delete().eq('id', po.id);
+    throw new Error(`Failed to add purchase order lines: ${linesError.message}`);
+  }
+
+  await refreshSubtotal(po.id);
+  return (await getPurchaseOrder(po.id))!;
+}
+
+async function refreshSubtotal(purchaseOrderId: string): Promise<void> {
+  const supabase = createPurchasingClient();
+  if (!supabase) return;
+
+  const { data: lines } = await supabase
+    .from('purchase_order_lines')
+    .select('quantity_ordered, unit_cost')
+    .eq('purchase_order_id', purchaseOrderId);
+
+  const subtotal = (lines || []).reduce((sum, line) => sum + line.quantity_ordered * Number(line.unit_cost), 0);
+
+  await supabase
+    .from('purchase_orders')
+    .update({ subtotal: Math.round(subtotal * 100) / 100 })
+    .eq('id', purchaseOrderId);
+}
+
+export async function getPurchaseOrder(purchaseOrderId: string): Promise<PurchaseOrderWithLines | null> {
+  const supabase = createPurchasingClient();
+  if (!supabase) return null;
+
+  const { data } = await supabase
+    .from('purchase_orders')
+    .select(PO_SELECT)
+    .eq('id', purchaseOrderId)
+    .single();
+
+  return data || null;
+}
+
+export async function listPurchaseOrders(options: {
+  status?: PurchaseOrderStatus;
+  supplierId?: string;
+  limit?: number;
+} = {}): Promise<PurchaseOrderWithLines[]> {
+  const supabase = createPurchasingClient();
+  if (!supabase) return [];
+
+  let query = supabase
+    .from('purchase_orders')
+    .select(PO_SELECT)
+    .order('created_at', { ascending: false })
+    .limit(options.limit || 100);
+
+  if (options.status) query = query.eq('status', options.status);
+  if (options.supplierId) query = query.eq('supplier_id', options.supplierId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to fetch purchase orders: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Mark a draft as sent to the supplier, or cancel a PO nothing has been
+ * received against yet
+ */
+export async function updatePurchaseOrderStatus(
+  purchaseOrderId: string,
+  status: 'sent' | 'cancelled'
+): Promise<PurchaseOrderWithLines> {
+  const supabase = createPurchasingClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const po = await getPurchaseOrder(purchaseOrderId);
+  if (!po) throw new Error(`Purchase order ${purchaseOrderId} not found`);
+
+  if (!STATUS_TRANSITIONS[po.status]?.includes(status)) {
+    throw new Error(`Cannot change ${po.po_number} from ${po.status} to ${status}`);
+  }
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({ status, ...(status === 'sent' && { sent_at: new Date().toISOString() }) })
+    .eq('id', purchaseOrderId)
+    .eq('status', po.status);
+
+  if (error) throw new Error(`Failed to update purchase order: ${error.message}`);
+  return (await getPurchaseOrder(purchaseOrderId))!;
+}
+
+/**
+ * Change the quantity of a line while the PO is still a draft
+ */
+export async function updateDraftLineQuantity(
+  purchaseOrderId: string,
+  lineId: string,
+  quantity: number
+): Promise<PurchaseOrderWithLines> {
+  const supabase = createPurchasingClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const po = await getPurchaseOrder(purchaseOrderId);
+  if (!po) throw new Error(`Purchase order ${purchaseOrderId} not found`);
+  if (po.status !== 'draft') throw new Error(`${po.po_number} has been sent and can no longer be edited`);
+
+  const { error } = quantity > 0
+    ? await supabase.from('purchase_order_lines').update({ quantity_ordered: quantity }).eq('id', lineId).eq('purchase_order_id', purchaseOrderId)
+    : await supabase.from('purchase_order_lines').delete().eq('id', lineId).eq('purchase_order_id', purchaseOrderId);
+
+  if (error) throw new Error(`Failed to update purchase order line: ${error.message}`);
+
+  await refreshSubtotal(purchaseOrderId);
+  return (await getPurchaseOrder(purchaseOrderId))!;
+}
+
+/**
+ * Book received stock against a PO. Without `lines`, everything still
+ * outstanding is received. Each received quantity is added to on-hand stock
+ * at the PO's warehouse and written to the inventory ledger as a receipt.
+ */
+export async function receivePurchaseOrder(
+  purchaseOrderId: string,
+  lines?: Array<{ lineId: string; quantity: number }>,
+  notes?: string
+): Promise<PurchaseOrderWithLines> {
+  const supabase = createPurchasingClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  let received = lines;
+  if (!received) {
+    const po = await getPurchaseOrder(purchaseOrderId);
+    if (!po) throw new Error(`Purchase order ${purchaseOrderId} not found`);
+    received = po.purchase_order_lines.map(line => ({
+      lineId: line.id,
+      quantity: line.quantity_ordered - line.quantity_received
+    }));
+  }
+
+  const { error } = await supabase.rpc('receive_purchase_order', {
+    p_purchase_order_id: purchaseOrderId,
+    p_lines: received
+      .filter(line => line.quantity > 0)
+      .map(line => ({ line_id: line.lineId, quantity: line.quantity })),
+    p_notes: notes || null
+  });
+
+  if (error) throw new Error(`Failed to receive purchase order: ${error.message}`);
+  return (await getPurchaseOrder(purchaseOrderId))!;
+}
+
+export async function listSuppliers(): Promise<Supplier[]> {
+  const supabase = createPurchasingClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw new Error(`Failed to fetch suppliers: ${error.message}`);
+  return data || [];
+}
+
+export async function createSupplier(
+  supplier: Pick<Supplier, 'name'> & Partial<Omit<Supplier, 'id' | 'name'>>
+): Promise<Supplier> {
+  const supabase = createPurchasingClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase
+    .from('suppliers')
+    .insert(supplier)
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to create supplier: ${error.message}`);
+  return data;
+}
+
+export async function listProductSuppliers(supplierId: string): Promise<ProductSupplier[]> {
+  const supabase = createPurchasingClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('product_suppliers')
+    .select('*')
+    .eq('supplier_id', supplierId)
+    .order('product_id', { ascending: true });
+
+  if (error) throw new Error(`Failed to fetch supplier products: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Set a supplier's cost, lead time and minimum order quantity for a
+ * product. Making it preferred demotes the product's previous preferred
+ * supplier.
+ */
+export async function upsertProductSupplier(
+  terms: Pick<ProductSupplier, 'product_id' | 'supplier_id'> & Partial<Omit<ProductSupplier, 'id' | 'product_id' | 'supplier_id'>>
+): Promise<ProductSupplier> {
+  const supabase = createPurchasingClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  if (terms.is_preferred) {
+    await supabase
+      .from('product_suppliers')
+      .update({ is_preferred: false })
+      .eq('product_id', terms.product_id)
+      .neq('supplier_id', terms.supplier_id);
+  }
+
+  const { data, error } = await supabase
+    .from('product_suppliers')
+    .upsert(terms, { onConflict: 'product_id,supplier_id' })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to save supplier terms: ${error.message}`);
+  return data;
+}
+
+function escapeCsv(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per line, with the PO header repeated so the file imports cleanly
+ * into supplier systems and spreadsheets
+ */
+export function purchaseOrderToCsv(po: PurchaseOrderWithLines): string {
+  const header = [
+    'PO Number', 'Supplier', 'Ship To', 'Expected', 'Product ID', 'Supplier SKU', 'Description',
+    'Quantity Ordered', 'Quantity Received', 'Unit Cost', 'Line Total', 'Currency'
+  ];
+
+  const rows = po.purchase_order_lines.map(line => [
+    po.po_number,
+    po.supplier?.name,
+    po.warehouse_id,
+    po.expected_at?.slice(0, 10),
+    line.product_id,
+    line.supplier_sku,
+    line.description,
+    line.quantity_ordered,
+    line.quantity_received,
+    Number(line.unit_cost).toFixed(2),
+    (line.quantity_ordered * Number(line.unit_cost)).toFixed(2),
+    po.currency
+  ]);
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+export function purchaseOrderToPdf(po: PurchaseOrderWithLines): Buffer {
+  const column = (text: string | number | null | undefined, width: number, alignRight = false) => {
+    const value = String(text ?? '').slice(0, width);
+    return alignRight ? value.padStart(width) : value.padEnd(width);
+  };
+  const rule = '-'.repeat(86);
+
+  const lines = [
+    'AURORA COMMERCE',
+    `PURCHASE ORDER ${po.po_number}`,
+    '',
+    `Supplier:   ${po.supplier?.name || po.supplier_id}`,
+    ...(po.supplier?.contact_name ? [`Attention:  ${po.supplier.contact_name}`] : []),
+    ...(po.supplier?.email ? [`Email:      ${po.supplier.email}`] : []),
+    ...(po.supplier?.address ? po.supplier.address.split('\n').map(line => `            ${line}`) : []),
+    `Ship to:    Warehouse ${po.warehouse_id}`,
+    `Order date: ${(po.sent_at || po.created_at).slice(0, 10)}`,
+    ...(po.expected_at ? [`Expected:   ${po.expected_at.slice(0, 10)}`] : []),
+    `Status:     ${PURCHASE_ORDER_STATUS_LABELS[po.status]}`,
+    '',
+    rule,
+    `${column('Product', 16)} ${column('Supplier SKU', 14)} ${column('Description', 24)} ${column('Qty', 6, true)} ${column('Unit', 10, true)} ${column('Total', 11, true)}`,
+    rule,
+    ...po.purchase_order_lines.map(line => [
+      column(line.product_id, 16),
+      column(line.supplier_sku, 14),
+      column(line.description, 24),
+      column(line.quantity_ordered, 6, true),
+      column(Number(line.unit_cost).toFixed(2), 10, true),
+      column((line.quantity_ordered * Number(line.unit_cost)).toFixed(2), 11, true)
+    ].join(' ')),
+    rule,
+    `${column('Subtotal', 74)} ${column(`${Number(po.subtotal).toFixed(2)} ${po.currency}`, 11, true)}`,
+    ...(po.notes ? ['', 'Notes:', ...po.notes.split('\n')] : [])
+  ];
+
+  return createTextPdf(lines, { title: `Purchase Order ${po.po_number}`, fontSize: 9 });
+}
@@ -0,0 +1,414 @@
+import { createClient } from '@supabase/supabase-js';
+import { DeviceToken, getUserDeviceTokens } from './deviceTokens';
+import { getAvailableStock } from './inventory';
+import { getProductById } from './productService';
+import { formatMoney } from './currency';
+import { ORDER_STATUS_LABELS, OrderStatus } from './orderStatus';
+import { SHIPMENT_STATUS_LABELS, ShipmentStatus } from './shipments';
+
+/**
+ * What a notification is about. Users turn each category on or off in the
+ * app's settings (see `notification_preferences`).
+ */
+export type NotificationCategory = 'order_updates' | 'shipping' | 'back_in_stock' | 'price_drop';
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = ['order_updates', 'shipping', 'back_in_stock', 'price_drop'];
+
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+// Everything is on until the user turns it off
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  order_updates: true,
+  shipping: true,
+  back_in_stock: true,
+  price_drop: true
+};
+
+export interface PushMessage {
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  // Delivered with the notification, e.g. { orderId } or { productId } for the app to open
+  data?: Record<string, string>;
+}
+
+export interface PushDeliveryResult {
+  token: string;
+  success: boolean;
+  // The push service no longer knows the token (app uninstalled, token rotated)
+  invalidToken?: boolean;
+  error?: string;
+}
+
+export interface PushTransport {
+  name: string;
+  send(devices: DeviceToken[], message: PushMessage): Promise<PushDeliveryResult[]>;
+}
+
+export type ProductAlertType = 'back_in_stock' | 'price_drop';
+
+/**
+ * Row shape of the `product_alerts` table (see database/push-notifications-setup.sql)
+ */
+export interface ProductAlert {
+  id: string;
+  user_id: string;
+  product_id: string;
+  alert_type: ProductAlertType;
+  price_at_signup: number | null;
+  notified_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Keeps messages in memory instead of sending them. Used in development and
+ * tests; `sent` holds everything "delivered" since the process started.
+ */
+export class LocalPushTransport implements PushTransport {
+  name = 'local';
+  sent: Array<{ token: string; platform: string; message: PushMessage; sentAt: string }> = [];
+
+  async send(devices: DeviceToken[], message: PushMessage): Promise<PushDeliveryResult[]> {
+    return devices.map(device => {
+      this.sent.push({ token: device.token, platform: device.platform, message, sentAt: new Date().toISOString() });
+      console.log(`📱 [local push] ${device.platform} ${device.token.slice(0, 12)}…: ${message.title} - ${message.body}`);
+      return { token: device.token, success: true };
+    });
+  }
+}
+
+/**
+ * Transport for a hosted push service (FCM, APNs via a relay, OneSignal, ...)
+ * behind a thin proxy: POST {PUSH_API_URL}/send with
+ * { devices: [{ token, platform }], notification: { title, body }, data }
+ * and a { results: PushDeliveryResult[] } reply.
+ */
+export class ExternalPushTransport implements PushTransport {
+  name = 'external';
+
+  constructor(
+    private apiUrl: string | undefined = process.env.PUSH_API_URL,
+    private apiKey: string | undefined = process.env.PUSH_API_KEY
+  ) {}
+
+  async send(devices: DeviceToken[], message: PushMessage): Promise<PushDeliveryResult[]> {
+    if (!this.apiUrl) {
+      throw new Error('PUSH_API_URL is not configured');
+    }
+
+    const response = await fetch(`${this.apiUrl}/send`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        devices: devices.map(device => ({ token: device.token, platform: device.platform })),
+        notification: { title: message.title, body: message.body },
+        data: { ...message.data, category: message.category }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Push API request failed with status ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.results || [];
+  }
+}
+
+let localTransport: LocalPushTransport | null = null;
+
+/**
+ * Transport selected by PUSH_TRANSPORT ('local' by default, or 'external').
+ * The local instance is shared so sent messages can be inspected.
+ */
+export function getPushTransport(): PushTransport {
+  if (process.env.PUSH_TRANSPORT === 'external') {
+    return new ExternalPushTransport();
+  }
+  localTransport = localTransport || new LocalPushTransport();
+  return localTransport;
+}
+
+function createNotificationsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+export function isNotificationCategory(value: unknown): value is NotificationCategory {
+  return typeof value === 'string' && (NOTIFICATION_CATEGORIES as string[]).includes(value);
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const supabase = createNotificationsClient();
+  if (!supabase) return { ...DEFAULT_NOTIFICATION_PREFERENCES };
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('order_updates, shipping, back_in_stock, price_drop')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load notification preferences: ${error.message}`);
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...(data || {}) };
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  changes: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+  const supabase = createNotificationsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const preferences = { ...(await getNotificationPreferences(userId)), ...changes };
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, ...preferences }, { onConflict: 'user_id' });
+
+  if (error) throw new Error(`Failed to save notification preferences: ${error.message}`);
+  return preferences;
+}
+
+/**
+ * Pushes a message to every device of the user, unless they turned its
+ * category off. Tokens the push service rejects as unknown are removed.
+ * Returns how many devices it was delivered to; failures are logged, not
+ * thrown, so callers never fail because a notification didn't go out.
+ */
+export async function sendPushToUser(userId: string, message: PushMessage): Promise<number> {
+  try {
+    const preferences = await getNotificationPreferences(userId);
+    if (!preferences[message.category]) return 0;
+
+    const devices = await getUserDeviceTokens(userId);
+    if (devices.length === 0) return 0;
+
+    const results = await getPushTransport().send(devices, message);
+
+    const invalidTokens = results.filter(result => result.invalidToken).map(result => result.token);
+    if (invalidTokens.length > 0) {
+      await createNotificationsClient()
+        ?.from('device_tokens')
+        .delete()
+        .in('token', invalidTokens);
+    }
+
+    return results.filter(result => result.success).length;
+  } catch (error) {
+    console.error(`Error sending ${message.category} notification to user ${userId}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * The account an order belongs to; guest orders have nobody to notify
+ */
+async function getOrderUserId(orderId: string): Promise<string | null> {
+  const supabase = createNotificationsClient();
+  if (!supabase) return null;
+
+  const { data } = await supabase
+    .from('orders')
+    .select('user_id')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  return data?.user_id || null;
+}
+
+const ORDER_STATUS_MESSAGES: Partial<Record<OrderStatus, { category: NotificationCategory; body: string }>> = {
+  paid: { category: 'order_updates', body: 'Thanks! Your payment went through and we are preparing your order.' },
+  partially_shipped: { category: 'shipping', body: 'Part of your order is on its way.' },
+  shipped: { category: 'shipping', body: 'Your order is on its way.' },
+  cancelled: { category: 'order_updates', body: 'Your order was cancelled.' },
+  returned: { category: 'order_updates', body: 'We have received your return.' },
+  refunded: { category: 'order_updates', body: 'Your refund has been issued.' }
+};
+
+/**
+ * Order lifecycle hook (see orderLifecycle.ts). Deliveries are announced by
+ * the shipment's tracking instead, and unpaid checkouts that lapse are
+ * cancelled silently.
+ */
+export async function notifyOrderStatusChange(order: Record<string, any>, from: OrderStatus, to: OrderStatus): Promise<void> {
+  const message = ORDER_STATUS_MESSAGES[to];
+  if (!message || (to === 'cancelled' && from === 'pending')) return;
+
+  const userId = order.user_id || await getOrderUserId(order.id);
+  if (!userId) return;
+
+  await sendPushToUser(userId, {
+    category: message.category,
+    title: `Order ${ORDER_STATUS_LABELS[to].toLowerCase()}`,
+    body: message.body,
+    data: { orderId: String(order.id), status: to }
+  });
+}
+
+// Tracking scans worth interrupting someone for
+const NOTIFIED_SHIPMENT_STATUSES: ShipmentStatus[] = ['out_for_delivery', 'delivered', 'exception'];
+
+/**
+ * Called when a shipment's tracking moves it to a new status
+ */
+export async function notifyShipmentStatusChange(
+  orderId: string,
+  status: ShipmentStatus,
+  shipment: { id: string; carrier?: string | null; tracking_number?: string | null }
+): Promise<void> {
+  if (!NOTIFIED_SHIPMENT_STATUSES.includes(status)) return;
+
+  const userId = await getOrderUserId(orderId);
+  if (!userId) return;
+
+  const bodies: Partial<Record<ShipmentStatus, string>> = {
+    out_for_delivery: 'Your package is out for delivery today.',
+    delivered: 'Your package has been delivered.',
+    exception: 'There is a problem with your delivery. Check the tracking for details.'
+  };
+
+  await sendPushToUser(userId, {
+    category: 'shipping',
+    title: SHIPMENT_STATUS_LABELS[status],
+    body: bodies[status] as string,
+    data: {
+      orderId,
+      shipmentId: shipment.id,
+      ...(shipment.tracking_number ? { trackingNumber: shipment.tracking_number } : {})
+    }
+  });
+}
+
+/**
+ * Asks to be told when a product is back in stock or gets cheaper than it
+ * is now. Signing up again for the same alert re-arms it.
+ */
+export async function createProductAlert(userId: string, productId: string, type: ProductAlertType): Promise<ProductAlert> {
+  const supabase = createNotificationsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const product = getProductById(productId);
+  if (!product) throw new Error('Product not found');
+
+  if (type === 'back_in_stock') {
+    const stock = await getAvailableStock([productId]);
+    if ((stock?.get(productId) ?? product.stock) > 0) throw new Error('Product is in stock');
+  }
+
+  const { data, error } = await supabase
+    .from('product_alerts')
+    .upsert({
+      user_id: userId,
+      product_id: productId,
+      alert_type: type,
+      price_at_signup: product.price,
+      notified_at: null
+    }, { onConflict: 'user_id,product_id,alert_type' })
+    .select('*')
+    .single();
+
+  if (error) throw new Error(`Failed to create alert: ${error.message}`);
+  return data as ProductAlert;
+}
+
+export async function listProductAlerts(userId: string): Promise<ProductAlert[]> {
+  const supabase = createNotificationsClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('product_alerts')
+    .select('*')
+    .eq('user_id', userId)
+    .is('notified_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to fetch alerts: ${error.message}`);
+  return (data || []) as ProductAlert[];
+}
+
+export async function deleteProductAlert(userId: string, alertId: string): Promise<boolean> {
+  const supabase = createNotificationsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase
+    .from('product_alerts')
+    .delete()
+    .eq('id', alertId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw new Error(`Failed to delete alert: ${error.message}`);
+  return !!data && data.length > 0;
+}
+
+/**
+ * Sends the back-in-stock and price-drop alerts whose condition is now met.
+ * Each alert fires once. Run by the fulfillment worker.
+ */
+export async function processProductAlerts(limit: number = 500): Promise<number> {
+  const supabase = createNotificationsClient();
+  if (!supabase) return 0;
+
+  const { data: alerts, error } = await supabase
+    .from('product_alerts')
+    .select('*')
+    .is('notified_at', null)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to fetch product alerts: ${error.message}`);
+  if (!alerts || alerts.length === 0) return 0;
+
+  const productIds = Array.from(new Set(alerts.map(alert => alert.product_id as string)));
+  const stock = await getAvailableStock(productIds);
+
+  let sent = 0;
+  for (const alert of alerts as ProductAlert[]) {
+    const product = getProductById(alert.product_id);
+    if (!product) continue;
+
+    const inStock = (stock?.get(product.id) ?? product.stock) > 0;
+    const priceDropped = alert.price_at_signup != null && product.price < Number(alert.price_at_signup);
+
+    let message: PushMessage | null = null;
+    if (alert.alert_type === 'back_in_stock' && inStock) {
+      message = {
+        category: 'back_in_stock',
+        title: 'Back in stock',
+        body: `${product.name} is available again.`,
+        data: { productId: product.id }
+      };
+    } else if (alert.alert_type === 'price_drop' && priceDropped) {
+      message = {
+        category: 'price_drop',
+        title: 'Price drop',
+        body: `${product.name} is now ${formatMoney(product.price)} (was ${formatMoney(Number(alert.price_at_signup))}).`,
+        data: { productId: product.id }
+      };
+    }
+    if (!message) continue;
+
+    // Marked first so a slow or failing push is never sent twice
+    const { data: claimed } = await supabase
+      .from('product_alerts')
+      .update({ notified_at: new Date().toISOString() })
+      .eq('id', alert.id)
+      .is('notified_at', null)
+      .select('id');
+
+    if (claimed && claimed.length > 0) {
+      await sendPushToUser(alert.user_id, message);
+      sent++;
+    }
+  }
+
+  return sent;
+}
@@ -0,0 +1,250 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { CustomerIdentity } from '../lib/customerAuth';
+import { applyCustomPricingRules, CartItemWithPrice, PricingResult, STANDARD_SHIPPING_COST } from './pricing';
+import { enrichCartItemsWithPrice, getProductById } from './productService';
+import { getVariant, hasVariants, stockKey } from './productVariants';
+import { getCustomerTier, loadActivePromotions } from './promotions';
+import { calculateOrderTax, pricesIncludeTax, TaxResult } from './tax';
+import { BASE_CURRENCY, convertFromBase, convertToBase, getExchangeRate, resolveCurrency, roundForCurrency } from './currency';
+import { loadExchangeRates } from './exchangeRates';
+import { releaseOrderInventory, reserveOrderInventory } from './inventory';
+import { customerOwnsOrder, payOrderWithSavedCard, SavedCardPaymentResult } from './paymentMethods';
+import { recordOrderEvent, transitionOrder } from './orderLifecycle';
+
+export interface ReorderCart {
+  items: CartItemWithPrice[];
+  unavailable: Array<{ productId: string; variantId?: string; name: string }>; // No longer sold, left out of the new order
+}
+
+export interface ReorderResult extends SavedCardPaymentResult {
+  sourceOrderId: string;
+  total: number;
+  currency: string;
+  pricing: PricingResult;
+  tax: TaxResult;
+  shippingCost: number;
+  unavailable: ReorderCart['unavailable'];
+}
+
+function createReorderClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function parseOrderItems(items: any): any[] {
+  return typeof items === 'string' ? JSON.parse(items) : items || [];
+}
+
+/**
+ * Rebuild the cart of a past order at today's catalogue prices. Lines come
+ * from `order_items`, or from the order's `items` JSON for orders created
+ * as checkout drafts.
+ */
+async function buildReorderCart(supabase: SupabaseClient, order: { id: string; items?: any }): Promise<ReorderCart> {
+  const { data: orderItems, error } = await supabase
+    .from('order_items')
+    .select('product_id, variant_id, product_name, quantity')
+    .eq('order_id', order.id);
+
+  if (error) throw new Error(`Failed to load items for order ${order.id}: ${error.message}`);
+
+  const lines = orderItems?.length
+    ? orderItems.map(item => ({
+        productId: String(item.product_id),
+        variantId: item.variant_id ? String(item.variant_id) : undefined,
+        name: item.product_name,
+        quantity: item.quantity
+      }))
+    : parseOrderItems(order.items).map((item: any) => ({
+        productId: String(item.productId || item.id),
+        variantId: item.variantId ? String(item.variantId) : undefined,
+        name: item.name,
+        quantity: item.quantity
+      }));
+
+  // Merge repeated lines for the same product (and variant)
+  const quantities = new Map<string, { productId: string; variantId?: string; name: string; quantity: number }>();
+  for (const line of lines) {
+    const key = stockKey(line);
+    const existing = quantities.get(key);
+    quantities.set(key, { ...line, quantity: (existing?.quantity || 0) + line.quantity });
+  }
+
+  const cart: ReorderCart = { items: [], unavailable: [] };
+  quantities.forEach(({ productId, variantId, name, quantity }) => {
+    const product = getProductById(productId);
+    // Variants that are no longer sold can't be re-bought either
+    const sold = product && ((!variantId && !hasVariants(product)) || getVariant(product, variantId));
+    if (sold) {
+      cart.items.push(...enrichCartItemsWithPrice([{ productId, variantId, quantity }]));
+    } else {
+      cart.unavailable.push({ productId, variantId, name });
+    }
+  });
+
+  return cart;
+}
+
+/**
+ * "Buy again": place a new order with the items of a past order, priced
+ * through the pricing service (current prices, promotions and the
+ * customer's tier, no coupons), shipped to the same address and paid
+ * off-session with a saved card.
+ *
+ * If the bank requires authentication the new order stays pending and the
+ * result carries the client secret to confirm. A declined card cancels the
+ * new order and releases its stock.
+ */
+export async function reorder(
+  customer: CustomerIdentity,
+  sourceOrderId: string,
+  options: { paymentMethodId?: string } = {}
+): Promise<ReorderResult> {
+  const supabase = createReorderClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data: source, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', sourceOrderId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load order ${sourceOrderId}: ${error.message}`);
+  if (!source || !customerOwnsOrder(source, customer)) throw new Error('Order not found');
+
+  const cart = await buildReorderCart(supabase, source);
+  if (cart.items.length === 0) throw new Error('None of the items on this order are available any more');
+
+  const hasPhysicalItems = cart.items.some(item => !item.isDigital);
+  if (hasPhysicalItems && !source.shipping_address) {
+    throw new Error('This order has no shipping address to send a new one to');
+  }
+
+  const [promotions, customerTier, rates] = await Promise.all([
+    loadActivePromotions(),
+    getCustomerTier(customer.email),
+    loadExchangeRates()
+  ]);
+
+  const currency = resolveCurrency(source.currency);
+  const exchangeRate = getExchangeRate(currency, rates);
+  const pricing = applyCustomPricingRules(cart.items, {
+    promotions,
+    customerTier,
+    shippingCost: STANDARD_SHIPPING_COST,
+    currency,
+    exchangeRate
+  });
+
+  const shippingCost = !hasPhysicalItems || pricing.freeShipping
+    ? 0
+    : convertFromBase(STANDARD_SHIPPING_COST, currency, rates);
+  const shippingAddress = source.shipping_address || {};
+
+  const tax = await calculateOrderTax({
+    items: cart.items.map(item => ({ ...item, price: convertFromBase(item.price, currency, rates) })),
+    shippingAddress: {
+      country: shippingAddress.country || '',
+      state: shippingAddress.state,
+      postalCode: shippingAddress.postalCode
+    },
+    shippingCost,
+    discount: pricing.totalDiscount,
+    pricesIncludeTax: pricesIncludeTax(),
+    currency
+  });
+  const total = roundForCurrency(
+    pricing.finalTotal + shippingCost + (tax.pricesIncludeTax ? 0 : tax.totalTax),
+    currency
+  );
+
+  const orderId = crypto.randomUUID();
+  const reservation = await reserveOrderInventory(orderId, cart.items, { destinationCountry: shippingAddress.country });
+  if (!reservation.success) {
+    throw new Error(reservation.error || 'Some items on this order are out of stock');
+  }
+
+  const { error: insertError } = await supabase
+    .from('orders')
+    .insert({
+      id: orderId,
+      user_id: customer.userId,
+      customer_name: source.customer_name,
+      customer_email: customer.email,
+      // Item prices are stored in the base currency
+      items: JSON.stringify(cart.items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        sku: item.sku,
+        variantTitle: item.variantTitle,
+        name: item.name,
+        price: item.price,
+        quantity: item.quantity,
+        isDigital: !!item.isDigital
+      }))),
+      shipping_address: source.shipping_address,
+      total,
+      currency,
+      settlement_currency: BASE_CURRENCY,
+      exchange_rate: exchangeRate,
+      settlement_total: convertToBase(total, currency, rates),
+      status: 'pending',
+      created_at: new Date().toISOString(),
+      metadata: JSON.stringify({
+        reorder_of: sourceOrderId,
+        shipping_method: 'standard',
+        shipping_cost: shippingCost,
+        discount_amount: pricing.totalDiscount,
+        pricing_rules_applied: pricing.rulesApplied.filter(rule => rule.applied).map(rule => rule.name),
+        tax_amount: tax.totalTax,
+        tax_lines: tax.lines,
+        prices_include_tax: tax.pricesIncludeTax
+      })
+    });
+
+  if (insertError) {
+    await releaseOrderInventory(orderId);
+    throw new Error(`Failed to create order: ${insertError.message}`);
+  }
+
+  await recordOrderEvent(orderId, {
+    type: 'created',
+    toStatus: 'pending',
+    actor: 'customer',
+    metadata: { reorder_of: sourceOrderId }
+  });
+
+  let payment: SavedCardPaymentResult;
+  try {
+    payment = await payOrderWithSavedCard(customer, orderId, {
+      paymentMethodId: options.paymentMethodId,
+      offSession: true,
+      metadata: { reorder_of: sourceOrderId }
+    });
+  } catch (paymentError) {
+    // Cancelling releases the reserved stock
+    await transitionOrder(orderId, 'cancelled', {
+      actor: 'customer',
+      from: ['pending'],
+      reason: paymentError instanceof Error ? paymentError.message : 'Payment failed'
+    });
+    throw paymentError;
+  }
+
+  return {
+    ...payment,
+    sourceOrderId,
+    total,
+    currency,
+    pricing,
+    tax,
+    shippingCost,
+    unavailable: cart.unavailable
+  };
+}
@@ -0,0 +1,700 @@
+import { createClient } from '@supabase/supabase-js';
+import { StripeService } from '../lib/stripe';
+import { purchaseReturnLabel } from './fulfillment';
+import { DEFAULT_WAREHOUSE_ID } from './shipments';
+import { recordOrderEvent, transitionOrder } from './orderLifecycle';
+import { BASE_CURRENCY, formatMoney, roundForCurrency } from './currency';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded' | 'cancelled';
+
+export type ReturnReason = 'damaged' | 'defective' | 'wrong_item' | 'not_as_described' | 'no_longer_needed' | 'other';
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Return requested',
+  approved: 'Approved - awaiting your parcel',
+  rejected: 'Rejected',
+  received: 'Received - refund pending',
+  refunded: 'Refunded',
+  cancelled: 'Cancelled'
+};
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: 'Arrived damaged',
+  defective: 'Defective or doesn\'t work',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  no_longer_needed: 'No longer needed',
+  other: 'Other'
+};
+
+// Orders can be returned once something has shipped
+const RETURNABLE_ORDER_STATUSES = ['partially_shipped', 'shipped', 'delivered'];
+
+// Returns in these states no longer hold the items they list
+const CLOSED_RETURN_STATUSES: ReturnStatus[] = ['rejected', 'cancelled'];
+
+export const DEFAULT_RETURN_WINDOW_DAYS = 30;
+export const RETURN_PHOTOS_BUCKET = 'return-photos';
+export const MAX_RETURN_PHOTOS = 5;
+export const MAX_RETURN_PHOTO_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Row shape of the `return_requests` table (see database/returns-setup.sql)
+ */
+export interface ReturnRequest {
+  id: string;
+  rma_number: string;
+  order_id: string;
+  user_id: string | null;
+  customer_email: string | null;
+  status: ReturnStatus;
+  customer_comments: string | null;
+  photo_paths: string[];
+  warehouse_id: string | null;
+  carrier: string | null;
+  service: string | null;
+  tracking_number: string | null;
+  label_id: string | null;
+  label_format: string | null;
+  label_data: string | null;
+  label_url: string | null;
+  refund_amount: number | null;
+  refund_currency: string | null;
+  stripe_refund_id: string | null;
+  admin_notes: string | null;
+  rejection_reason: string | null;
+  approved_at: string | null;
+  received_at: string | null;
+  refunded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Row shape of the `return_items` table
+ */
+export interface ReturnItem {
+  id: string;
+  return_id: string;
+  order_id: string;
+  product_id: string;
+  product_name: string | null;
+  quantity: number;
+  unit_price: number;
+  reason: ReturnReason;
+  reason_details: string | null;
+  quantity_received: number;
+  quantity_restocked: number;
+}
+
+export type ReturnWithItems = ReturnRequest & { return_items: ReturnItem[] };
+
+export interface ReturnableItem {
+  productId: string;
+  name: string;
+  orderedQuantity: number;
+  returnableQuantity: number;
+  unitPrice: number;
+}
+
+export interface ReturnItemInput {
+  productId: string;
+  quantity: number;
+  reason: ReturnReason;
+  details?: string;
+}
+
+export interface ReturnPhotoInput {
+  name: string;
+  type: string;
+  data: ArrayBuffer;
+}
+
+export interface ReturnEligibility {
+  eligible: boolean;
+  reason?: string;
+  returnBy?: string;
+  items: ReturnableItem[];
+}
+
+function createReturnsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Days after delivery a return can be requested (RETURN_WINDOW_DAYS)
+ */
+export function getReturnWindowDays(): number {
+  const days = Number(process.env.RETURN_WINDOW_DAYS);
+  return days > 0 ? days : DEFAULT_RETURN_WINDOW_DAYS;
+}
+
+function generateRmaNumber(): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  const suffix = Math.random().toString(36).slice(2, 6).toUpperCase();
+  return `RMA-${date}-${suffix}`;
+}
+
+function parseOrderItems(items: any): any[] {
+  return typeof items === 'string' ? JSON.parse(items) : items || [];
+}
+
+/**
+ * What is left to return on an order: physical lines minus quantities on
+ * returns that are still open or completed
+ */
+export function getReturnableItems(
+  orderItems: Array<{ productId?: string; id?: string; name: string; quantity: number; price: number; isDigital?: boolean }>,
+  existingReturns: Array<Pick<ReturnWithItems, 'status' | 'return_items'>>
+): ReturnableItem[] {
+  const alreadyReturned = new Map<string, number>();
+  for (const rma of existingReturns) {
+    if (CLOSED_RETURN_STATUSES.includes(rma.status)) continue;
+    for (const item of rma.return_items) {
+      alreadyReturned.set(item.product_id, (alreadyReturned.get(item.product_id) || 0) + item.quantity);
+    }
+  }
+
+  const byProduct = new Map<string, ReturnableItem>();
+  for (const item of orderItems) {
+    if (item.isDigital) continue;
+    const productId = String(item.productId || item.id);
+    const existing = byProduct.get(productId);
+    byProduct.set(productId, {
+      productId,
+      name: item.name,
+      orderedQuantity: (existing?.orderedQuantity || 0) + item.quantity,
+      returnableQuantity: 0,
+      unitPrice: Number(item.price) || 0
+    });
+  }
+
+  return Array.from(byProduct.values()).map(item => ({
+    ...item,
+    returnableQuantity: Math.max(0, item.orderedQuantity - (alreadyReturned.get(item.productId) || 0))
+  }));
+}
+
+/**
+ * Refund for received items in the order's presentment currency. Item
+ * prices are stored in the base currency and converted with the order's
+ * exchange rate; the refund never exceeds what is left of the charge.
+ */
+export function calculateReturnRefund(
+  items: Array<Pick<ReturnItem, 'unit_price' | 'quantity_received'>>,
+  order: { currency?: string | null; exchange_rate?: number | string | null; total?: number | string | null; amount_refunded?: number | string | null }
+): number {
+  const currency = order.currency || BASE_CURRENCY;
+  const exchangeRate = Number(order.exchange_rate) || 1;
+  const merchandise = items.reduce((sum, item) => sum + Number(item.unit_price) * item.quantity_received, 0);
+  const remaining = order.total == null
+    ? Infinity
+    : Math.max(0, Number(order.total) - (Number(order.amount_refunded) || 0));
+
+  return roundForCurrency(Math.min(merchandise * exchangeRate, remaining), currency);
+}
+
+async function getOrder(orderId: string) {
+  const supabase = createReturnsClient();
+  if (!supabase) return null;
+
+  const { data } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .single();
+
+  return data || null;
+}
+
+export async function getOrderReturns(orderId: string): Promise<ReturnWithItems[]> {
+  const supabase = createReturnsClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('return_requests')
+    .select('*, return_items(*)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to fetch returns: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Whether an order can be returned, until when, and which lines
+ */
+export async function getReturnEligibility(orderId: string): Promise<ReturnEligibility | null> {
+  const order = await getOrder(orderId);
+  if (!order) return null;
+
+  const items = getReturnableItems(parseOrderItems(order.items), await getOrderReturns(orderId));
+  const since = order.delivered_at || order.shipped_at || order.created_at;
+
+  if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+    return { eligible: false, reason: 'Returns open once your order has shipped', items };
+  }
+
+  const returnBy = new Date(new Date(since).getTime() + getReturnWindowDays() * 24 * 60 * 60 * 1000);
+  if (returnBy.getTime() < Date.now()) {
+    return { eligible: false, reason: `The ${getReturnWindowDays()}-day return window has closed`, returnBy: returnBy.toISOString(), items };
+  }
+  if (!items.some(item => item.returnableQuantity > 0)) {
+    return { eligible: false, reason: 'Every item on this order is already being returned', returnBy: returnBy.toISOString(), items };
+  }
+
+  return { eligible: true, returnBy: returnBy.toISOString(), items };
+}
+
+async function sendReturnEmail(
+  template: 'return_requested' | 'return_approved' | 'return_rejected' | 'return_refunded',
+  rma: ReturnWithItems,
+  variables: Record<string, any> = {}
+): Promise<void> {
+  if (!rma.customer_email) return;
+
+  try {
+    const { sendTemplateEmail } = await import('../lib/email');
+    await sendTemplateEmail(template, rma.customer_email, {
+      rma_number: rma.rma_number,
+      order_id: rma.order_id,
+      return_items_html: rma.return_items
+        .map(item => `<li>${item.quantity} × ${item.product_name || item.product_id} (${RETURN_REASON_LABELS[item.reason]})</li>`)
+        .join(''),
+      ...variables
+    });
+  } catch (error) {
+    console.error(`Error sending ${template} email for ${rma.rma_number}:`, error);
+  }
+}
+
+/**
+ * Open a return for some of an order's lines. Photos are stored in the
+ * private return-photos bucket.
+ */
+export async function createReturnRequest(
+  orderId: string,
+  request: { items: ReturnItemInput[]; comments?: string; photos?: ReturnPhotoInput[]; userId?: string | null }
+): Promise<{ success: boolean; returnRequest?: ReturnWithItems; error?: string }> {
+  const supabase = createReturnsClient();
+  if (!supabase) {
+    return { success: false, error: 'Supabase configuration missing' };
+  }
+
+  const eligibility = await getReturnEligibility(orderId);
+  if (!eligibility) {
+    return { success: false, error: 'Order not found' };
+  }
+  if (!eligibility.eligible) {
+    return { success: false, error: eligibility.reason };
+  }
+
+  const requested = request.items.filter(item => item.quantity > 0);
+  if (requested.length === 0) {
+    return { success: false, error: 'Choose at least one item to return' };
+  }
+
+  for (const item of requested) {
+    const returnable = eligibility.items.find(candidate => candidate.productId === item.productId);
+    if (!returnable || item.quantity > returnable.returnableQuantity) {
+      return { success: false, error: `Only ${returnable?.returnableQuantity || 0} of ${returnable?.name || item.productId} can be returned` };
+    }
+    if (!(item.reason in RETURN_REASON_LABELS)) {
+      return { success: false, error: `Unknown return reason ${item.reason}` };
+    }
+  }
+
+  const photos = request.photos || [];
+  if (photos.length > MAX_RETURN_PHOTOS) {
+    return { success: false, error: `Attach at most ${MAX_RETURN_PHOTOS} photos` };
+  }
+  if (photos.some(photo => !photo.type.startsWith('image/') || photo.data.byteLength > MAX_RETURN_PHOTO_BYTES)) {
+    return { success: false, error: 'Photos must be images of 5 MB or less' };
+  }
+
+  const order = await getOrder(orderId);
+  const rmaNumber = generateRmaNumber();
+
+  const photoPaths: string[] = [];
+  for (let index = 0; index < photos.length; index++) {
+    const photo = photos[index];
+    const path = `${orderId}/${rmaNumber}/${index + 1}-${photo.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+    const { error } = await supabase.storage
+      .from(RETURN_PHOTOS_BUCKET)
+      .upload(path, photo.data, { contentType: photo.type });
+
+    if (error) {
+      return { success: false, error: `Failed to upload photo ${photo.name}: ${error.message}` };
+    }
+    photoPaths.push(path);
+  }
+
+  const { data: rma, error } = await supabase
+    .from('return_requests')
+    .insert({
+      rma_number: rmaNumber,
+      order_id: orderId,
+      user_id: request.userId || order?.user_id || null,
+      customer_email: order?.customer_email || null,
+      customer_comments: request.comments || null,
+      photo_paths: photoPaths
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return { success: false, error: `Failed to create return: ${error.message}` };
+  }
+
+  const { error: itemsError } = await supabase
+    .from('return_items')
+    .insert(requested.map(item => {
+      const returnable = eligibility.items.find(candidate => candidate.productId === item.productId)!;
+      return {
+        return_id: rma.id,
+        order_id: orderId,
+        product_id: item.productId,
+        product_name: returnable.name,
+        quantity: item.quantity,
+        unit_price: returnable.unitPrice,
+        reason: item.reason,
+        reason_details: item.details || null
+      };
+    }));
+
+  if (itemsError) {
+    await supabase.from('return_requests').delete().eq('id', rma.id);
+    return { success: false, error: `Failed to store return items: ${itemsError.message}` };
+  }
+
+  const returnRequest = (await getReturn(rma.id))!;
+  await sendReturnEmail('return_requested', returnRequest, { customer_name: order?.customer_name || 'Customer' });
+
+  return { success: true, returnRequest };
+}
+
+export async function getReturn(returnId: string): Promise<ReturnWithItems | null> {
+  const supabase = createReturnsClient();
+  if (!supabase) return null;
+
+  const { data } = await supabase
+    .from('return_requests')
+    .select('*, return_items(*)')
+    .eq('id', returnId)
+    .single();
+
+  return data || null;
+}
+
+export async function listReturns(options: {
+  status?: ReturnStatus;
+  limit?: number;
+} = {}): Promise<ReturnWithItems[]> {
+  const supabase = createReturnsClient();
+  if (!supabase) return [];
+
+  let query = supabase
+    .from('return_requests')
+    .select('*, return_items(*)')
+    .order('created_at', { ascending: false })
+    .limit(options.limit || 100);
+
+  if (options.status) query = query.eq('status', options.status);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to fetch returns: ${error.message}`);
+  return data || [];
+}
+
+export async function getReturnCounts(): Promise<Record<ReturnStatus, number>> {
+  const counts: Record<ReturnStatus, number> = { requested: 0, approved: 0, rejected: 0, received: 0, refunded: 0, cancelled: 0 };
+  const supabase = createReturnsClient();
+  if (!supabase) return counts;
+
+  await Promise.all((Object.keys(counts) as ReturnStatus[]).map(async status => {
+    const { count } = await supabase
+      .from('return_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', status);
+    counts[status] = count || 0;
+  }));
+
+  return counts;
+}
+
+/**
+ * Short-lived links to a return's photos for the admin dashboard
+ */
+export async function getReturnPhotoUrls(photoPaths: string[]): Promise<string[]> {
+  const supabase = createReturnsClient();
+  if (!supabase || photoPaths.length === 0) return [];
+
+  const { data } = await supabase.storage
+    .from(RETURN_PHOTOS_BUCKET)
+    .createSignedUrls(photoPaths, 60 * 60);
+
+  return (data || []).map(photo => photo.signedUrl).filter(Boolean) as string[];
+}
+
+/**
+ * Approve a requested return: buy a prepaid return label through the
+ * carrier adapter and email it to the customer
+ */
+export async function approveReturn(
+  returnId: string,
+  options: { warehouseId?: string; notes?: string } = {}
+): Promise<ReturnWithItems> {
+  const supabase = createReturnsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const rma = await getReturn(returnId);
+  if (!rma) throw new Error(`Return ${returnId} not found`);
+  if (rma.status !== 'requested') throw new Error(`${rma.rma_number} is ${rma.status} and cannot be approved`);
+
+  const order = await getOrder(rma.order_id);
+  if (!order?.shipping_address) throw new Error(`Order ${rma.order_id} has no address to collect the return from`);
+
+  const { label } = await purchaseReturnLabel({
+    reference: rma.rma_number,
+    customerName: order.customer_name || '',
+    address: typeof order.shipping_address === 'string' ? JSON.parse(order.shipping_address) : order.shipping_address,
+    items: rma.return_items.map(item => ({ quantity: item.quantity }))
+  }, `return:${rma.id}`);
+
+  const { data: claimed, error } = await supabase
+    .from('return_requests')
+    .update({
+      status: 'approved',
+      warehouse_id: options.warehouseId || DEFAULT_WAREHOUSE_ID,
+      carrier: label.carrier,
+      service: label.service,
+      tracking_number: label.trackingNumber,
+      label_id: label.id,
+      label_format: label.format,
+      label_data: label.labelData || null,
+      label_url: label.labelUrl || null,
+      admin_notes: options.notes || rma.admin_notes,
+      approved_at: new Date().toISOString()
+    })
+    .eq('id', returnId)
+    .eq('status', 'requested')
+    .select('id');
+
+  if (error) throw new Error(`Failed to approve return: ${error.message}`);
+  if (!claimed || claimed.length === 0) throw new Error(`${rma.rma_number} was already handled and cannot be approved`);
+
+  const approved = (await getReturn(returnId))!;
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  await sendReturnEmail('return_approved', approved, {
+    customer_name: order.customer_name || 'Customer',
+    carrier: label.carrier,
+    tracking_number: label.trackingNumber,
+    label_link: label.labelUrl || `${appUrl}/api/orders/${rma.order_id}/returns/${rma.id}/label`
+  });
+
+  return approved;
+}
+
+export async function rejectReturn(returnId: string, reason: string): Promise<ReturnWithItems> {
+  const supabase = createReturnsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const rma = await getReturn(returnId);
+  if (!rma) throw new Error(`Return ${returnId} not found`);
+  if (rma.status !== 'requested') throw new Error(`${rma.rma_number} is ${rma.status} and cannot be rejected`);
+
+  const { error } = await supabase
+    .from('return_requests')
+    .update({ status: 'rejected', rejection_reason: reason })
+    .eq('id', returnId)
+    .eq('status', 'requested');
+
+  if (error) throw new Error(`Failed to reject return: ${error.message}`);
+
+  const rejected = (await getReturn(returnId))!;
+  await sendReturnEmail('return_rejected', rejected, { rejection_reason: reason });
+  return rejected;
+}
+
+/**
+ * Book the parcel in: how many of each item arrived and how many can be
+ * resold. Resellable units go back on hand at the return's warehouse.
+ * Without `items`, everything requested is received and restocked.
+ */
+export async function receiveReturn(
+  returnId: string,
+  items?: Array<{ itemId: string; quantityReceived: number; quantityRestocked: number }>
+): Promise<ReturnWithItems> {
+  const supabase = createReturnsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  let received = items;
+  if (!received) {
+    const rma = await getReturn(returnId);
+    if (!rma) throw new Error(`Return ${returnId} not found`);
+    received = rma.return_items.map(item => ({
+      itemId: item.id,
+      quantityReceived: item.quantity,
+      quantityRestocked: item.quantity
+    }));
+  }
+
+  const { error } = await supabase.rpc('receive_return', {
+    p_return_id: returnId,
+    p_items: received.map(item => ({
+      item_id: item.itemId,
+      quantity_received: item.quantityReceived,
+      quantity_restocked: item.quantityRestocked
+    }))
+  });
+
+  if (error) throw new Error(`Failed to receive return: ${error.message}`);
+  return (await getReturn(returnId))!;
+}
+
+/**
+ * Refund a received return through Stripe (or record an offline refund
+ * with `manual`). Defaults to the value of the received items. The order
+ * becomes `refunded` once its whole total has been refunded, or `returned`
+ * once every shipped unit has come back.
+ */
+export async function refundReturn(
+  returnId: string,
+  options: { amount?: number; manual?: boolean } = {}
+): Promise<ReturnWithItems> {
+  const supabase = createReturnsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const rma = await getReturn(returnId);
+  if (!rma) throw new Error(`Return ${returnId} not found`);
+  if (rma.status !== 'received') throw new Error(`${rma.rma_number} is ${rma.status}; only received returns can be refunded`);
+
+  const order = await getOrder(rma.order_id);
+  if (!order) throw new Error(`Order ${rma.order_id} not found`);
+
+  const currency = order.currency || BASE_CURRENCY;
+  const amount = options.amount ?? calculateReturnRefund(rma.return_items, order);
+  if (amount < 0) throw new Error('Refund amount cannot be negative');
+
+  const refundsStripe = amount > 0 && !options.manual;
+  if (refundsStripe && !order.payment_intent) {
+    throw new Error(`Order ${order.id} has no Stripe payment to refund; record a manual refund instead`);
+  }
+
+  // Claim the return before refunding, so concurrent calls can't refund it twice
+  const now = new Date().toISOString();
+  const { data: claimed, error } = await supabase
+    .from('return_requests')
+    .update({
+      status: 'refunded',
+      refund_amount: amount,
+      refund_currency: currency,
+      refunded_at: now
+    })
+    .eq('id', returnId)
+    .eq('status', 'received')
+    .select('id');
+
+  if (error) throw new Error(`Failed to refund return: ${error.message}`);
+  if (!claimed || claimed.length === 0) throw new Error(`${rma.rma_number} was already refunded`);
+
+  if (refundsStripe) {
+    let stripeRefundId: string;
+    try {
+      const refund = await StripeService.processRefund(
+        order.payment_intent, amount, 'requested_by_customer', currency, `return-refund-${returnId}`
+      );
+      stripeRefundId = refund.id;
+    } catch (refundError) {
+      await supabase
+        .from('return_requests')
+        .update({ status: 'received', refund_amount: null, refund_currency: null, refunded_at: null })
+        .eq('id', returnId)
+        .eq('status', 'refunded');
+      throw refundError;
+    }
+
+    const { error: recordError } = await supabase
+      .from('return_requests')
+      .update({ stripe_refund_id: stripeRefundId })
+      .eq('id', returnId);
+
+    if (recordError) throw new Error(`Refund ${stripeRefundId} issued but not recorded on ${rma.rma_number}: ${recordError.message}`);
+  }
+
+  // charge.refunded later overwrites amount_refunded with Stripe's total
+  const amountRefunded = roundForCurrency((Number(order.amount_refunded) || 0) + amount, currency);
+  const fullyRefunded = amountRefunded >= (Number(order.total) || 0);
+
+  const orderReturns = await getOrderReturns(order.id);
+  const remaining = getReturnableItems(
+    parseOrderItems(order.items),
+    orderReturns.map(existing => ({
+      status: existing.status,
+      return_items: existing.status === 'refunded'
+        ? existing.return_items.map(item => ({ ...item, quantity: item.quantity_received }))
+        : []
+    }))
+  );
+  const fullyReturned = remaining.every(item => item.returnableQuantity === 0);
+
+  const refundUpdates = {
+    amount_refunded: amountRefunded,
+    financial_status: fullyRefunded ? 'refunded' : 'partially_refunded'
+  };
+  const nextStatus = fullyRefunded ? 'refunded' : fullyReturned ? 'returned' : null;
+  const moved = nextStatus && await transitionOrder(order.id, nextStatus, {
+    actor: 'returns',
+    skipIfNotAllowed: true,
+    updates: refundUpdates,
+    metadata: { rma_number: rma.rma_number, refund_amount: amount }
+  });
+
+  if (!moved) {
+    await supabase
+      .from('orders')
+      .update({ ...refundUpdates, updated_at: now })
+      .eq('id', order.id);
+
+    await recordOrderEvent(order.id, {
+      type: 'partially_refunded',
+      actor: 'returns',
+      metadata: { rma_number: rma.rma_number, refund_amount: amount }
+    });
+  }
+
+  const refunded = (await getReturn(returnId))!;
+  await sendReturnEmail('return_refunded', refunded, {
+    customer_name: order.customer_name || 'Customer',
+    refund_amount_formatted: formatMoney(amount, currency)
+  });
+
+  return refunded;
+}
+
+/**
+ * Customers can withdraw a return until its parcel has been received
+ */
+export async function cancelReturn(returnId: string): Promise<ReturnWithItems> {
+  const supabase = createReturnsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase
+    .from('return_requests')
+    .update({ status: 'cancelled' })
+    .eq('id', returnId)
+    .in('status', ['requested', 'approved'])
+    .select('id');
+
+  if (error) throw new Error(`Failed to cancel return: ${error.message}`);
+  if (!data || data.length === 0) throw new Error('Only requested or approved returns can be cancelled');
+
+  return (await getReturn(returnId))!;
+}
@@ -0,0 +1,182 @@
+import { createClient } from '@supabase/supabase-js';
+
+export type StaffRole = 'owner' | 'admin' | 'fulfillment' | 'support' | 'marketing';
+
+export type Permission =
+  | 'orders:read'
+  | 'orders:write'
+  | 'inventory:read'
+  | 'inventory:write'
+  | 'fulfillment:manage'
+  | 'returns:manage'
+  | 'purchasing:manage'
+  | 'payments:manage'
+  | 'catalog:manage'
+  | 'marketing:manage'
+  | 'analytics:read'
+  | 'security:manage'
+  | 'system:manage'
+  | 'audit:read'
+  | 'staff:manage';
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'admin', 'fulfillment', 'support', 'marketing'];
+
+const ALL_PERMISSIONS: Permission[] = [
+  'orders:read',
+  'orders:write',
+  'inventory:read',
+  'inventory:write',
+  'fulfillment:manage',
+  'returns:manage',
+  'purchasing:manage',
+  'payments:manage',
+  'catalog:manage',
+  'marketing:manage',
+  'analytics:read',
+  'security:manage',
+  'system:manage',
+  'audit:read',
+  'staff:manage'
+];
+
+/**
+ * What each role may do. Only owners can grant and revoke roles.
+ */
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS.filter(permission => permission !== 'staff:manage'),
+  fulfillment: [
+    'orders:read',
+    'orders:write',
+    'inventory:read',
+    'inventory:write',
+    'fulfillment:manage',
+    'returns:manage',
+    'purchasing:manage'
+  ],
+  support: ['orders:read', 'orders:write', 'inventory:read', 'returns:manage'],
+  marketing: ['marketing:manage', 'catalog:manage', 'analytics:read']
+};
+
+/**
+ * Row shape of the `staff_roles` table (see database/rbac-setup.sql)
+ */
+export interface StaffRoleAssignment {
+  user_id: string;
+  role: StaffRole;
+  user_email: string | null;
+  granted_by: string | null;
+  created_at: string;
+}
+
+function createRolesClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === 'string' && (STAFF_ROLES as string[]).includes(value);
+}
+
+export function getRolePermissions(roles: StaffRole[]): Permission[] {
+  return Array.from(new Set(roles.flatMap(role => ROLE_PERMISSIONS[role] || [])));
+}
+
+export function hasPermission(roles: StaffRole[], permission: Permission): boolean {
+  return roles.some(role => ROLE_PERMISSIONS[role]?.includes(permission));
+}
+
+/**
+ * The user's staff roles; customers have none
+ */
+export async function getUserRoles(userId: string): Promise<StaffRole[]> {
+  const supabase = createRolesClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('staff_roles')
+    .select('role')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error(`Error loading roles for user ${userId}:`, error);
+    return [];
+  }
+
+  return (data || []).map(row => row.role).filter(isStaffRole);
+}
+
+export async function listStaffRoles(): Promise<StaffRoleAssignment[]> {
+  const supabase = createRolesClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('staff_roles')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to fetch staff roles: ${error.message}`);
+  return (data || []) as StaffRoleAssignment[];
+}
+
+/**
+ * Gives the user with this email a role. The user must have signed up first.
+ */
+export async function grantRole(email: string, role: StaffRole, grantedBy: string): Promise<StaffRoleAssignment> {
+  const supabase = createRolesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data: userId, error: lookupError } = await supabase
+    .rpc('find_user_id_by_email', { p_email: email.trim().toLowerCase() });
+
+  if (lookupError) throw new Error(`Failed to look up user: ${lookupError.message}`);
+  if (!userId) throw new Error('No account exists for this email');
+
+  const { data, error } = await supabase
+    .from('staff_roles')
+    .upsert({
+      user_id: userId,
+      role,
+      user_email: email.trim().toLowerCase(),
+      granted_by: grantedBy
+    }, { onConflict: 'user_id,role' })
+    .select('*')
+    .single();
+
+  if (error) throw new Error(`Failed to grant role: ${error.message}`);
+  return data as StaffRoleAssignment;
+}
+
+/**
+ * Takes a role away. The last owner can't be removed, so the store is never
+ * left without someone who can manage staff.
+ */
+export async function revokeRole(userId: string, role: StaffRole): Promise<boolean> {
+  const supabase = createRolesClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  if (role === 'owner') {
+    const { count } = await supabase
+      .from('staff_roles')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('role', 'owner');
+
+    if ((count || 0) <= 1) throw new Error('The last owner cannot be removed');
+  }
+
+  const { data, error } = await supabase
+    .from('staff_roles')
+    .delete()
+    .eq('user_id', userId)
+    .eq('role', role)
+    .select('user_id');
+
+  if (error) throw new Error(`Failed to revoke role: ${error.message}`);
+  return !!data && data.length > 0;
+}
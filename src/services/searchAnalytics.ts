@@ -0,0 +1,271 @@
+import { createClient } from '@supabase/supabase-js';
+import type { PopularSearch, SearchFilters } from './productSearch';
+
+export type SearchSource = 'web' | 'mobile';
+
+// Orders count as search conversions for this long after the search
+export const SEARCH_ATTRIBUTION_DAYS = 7;
+
+// Popular searches behind the completions are re-read at most this often
+const POPULAR_SEARCHES_TTL_MS = 10 * 60 * 1000;
+const POPULAR_SEARCHES_DAYS = 30;
+// A query is only suggested once this many different customers have run it
+const POPULAR_SEARCH_MIN_SESSIONS = 3;
+
+// Never suggested: links, email addresses and long numbers (order, phone or card numbers)
+const UNSUGGESTIBLE_PATTERN = /https?:|www\.|@|\d{6,}/;
+
+/**
+ * Row shape of the `search_queries` table (see
+ * database/search-analytics-setup.sql)
+ */
+export interface SearchQuery {
+  id: string;
+  query: string;
+  normalized_query: string;
+  result_count: number;
+  all_terms_matched: boolean;
+  filters: SearchFilters;
+  source: SearchSource;
+  user_id: string | null;
+  session_id: string | null;
+  order_id: string | null;
+  converted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SearchLogEntry {
+  query: string;
+  resultCount: number;
+  // False when the results only matched some of the words
+  allTermsMatched?: boolean;
+  filters?: SearchFilters;
+  source: SearchSource;
+  userId?: string | null;
+  // Guest cart session, so guest searches can be matched to their orders
+  sessionId?: string | null;
+}
+
+export interface SearchQueryStats {
+  query: string;
+  searches: number;
+  avgResults: number;
+  clickThroughRate: number;
+  conversionRate: number;
+  lastSearchedAt: string;
+}
+
+export interface ZeroResultQuery {
+  query: string;
+  searches: number;
+  lastSearchedAt: string;
+}
+
+export interface SearchReport {
+  days: number;
+  summary: {
+    searches: number;
+    zeroResultSearches: number;
+    zeroResultRate: number;
+    clickThroughRate: number;
+    // Share of searches followed by an order of a clicked result
+    conversionRate: number;
+    orders: number;
+  };
+  topQueries: SearchQueryStats[];
+  zeroResultQueries: ZeroResultQuery[];
+}
+
+function createSearchAnalyticsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * What searches are grouped by: lowercased with single spaces
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+const rate = (count: number, total: number) => total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
+
+/**
+ * Record a search and return its id (sent back with clicks), or null when
+ * it couldn't be stored. Never throws: search works without analytics.
+ */
+export async function logSearch(entry: SearchLogEntry): Promise<string | null> {
+  const normalized = normalizeSearchQuery(entry.query);
+  const supabase = createSearchAnalyticsClient();
+  if (!supabase || !normalized) return null;
+
+  const { data, error } = await supabase.rpc('log_search_query', {
+    p_query: entry.query.trim().slice(0, 200),
+    p_normalized_query: normalized.slice(0, 200),
+    p_result_count: entry.resultCount,
+    p_all_terms_matched: entry.allTermsMatched ?? true,
+    p_filters: entry.filters || {},
+    p_source: entry.source,
+    p_user_id: entry.userId || null,
+    p_session_id: entry.sessionId || null
+  });
+
+  if (error) {
+    console.error('Error logging search:', error);
+    return null;
+  }
+  return data as string;
+}
+
+/**
+ * Record that a result was opened from a search. Position is 1-based.
+ */
+export async function recordSearchClick(searchId: string, productId: string, position?: number): Promise<void> {
+  const supabase = createSearchAnalyticsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data: search, error: searchError } = await supabase
+    .from('search_queries')
+    .select('id')
+    .eq('id', searchId)
+    .maybeSingle();
+
+  if (searchError) throw new Error(`Failed to load search: ${searchError.message}`);
+  if (!search) throw new Error('Search not found');
+
+  const { error } = await supabase
+    .from('search_clicks')
+    .insert({
+      search_id: searchId,
+      product_id: productId,
+      position: position && position > 0 ? Math.floor(position) : null
+    });
+
+  if (error) throw new Error(`Failed to record search click: ${error.message}`);
+}
+
+/**
+ * Mark the customer's recent searches whose clicked results are in the
+ * order as converted. Returns how many were marked; failures are logged.
+ */
+export async function attributeSearchConversions(order: {
+  orderId: string;
+  userId?: string | null;
+  sessionId?: string | null;
+  productIds: string[];
+}): Promise<number> {
+  const supabase = createSearchAnalyticsClient();
+  if (!supabase || (!order.userId && !order.sessionId) || order.productIds.length === 0) return 0;
+
+  const { data, error } = await supabase.rpc('attribute_search_conversions', {
+    p_order_id: order.orderId,
+    p_user_id: order.userId || null,
+    p_session_id: order.sessionId || null,
+    p_product_ids: order.productIds.map(String),
+    p_window_days: SEARCH_ATTRIBUTION_DAYS
+  });
+
+  if (error) {
+    console.error(`Error attributing searches to order ${order.orderId}:`, error);
+    return 0;
+  }
+  return Number(data) || 0;
+}
+
+/**
+ * Whether a popular query may be shown to other customers: not a link, email
+ * address or long number, and free of the words and phrases listed in
+ * SEARCH_SUGGESTION_BLOCKLIST (comma-separated)
+ */
+export function isSuggestibleSearch(query: string): boolean {
+  if (UNSUGGESTIBLE_PATTERN.test(query)) return false;
+
+  const padded = ` ${normalizeSearchQuery(query)} `;
+  return !(process.env.SEARCH_SUGGESTION_BLOCKLIST || '')
+    .split(',')
+    .map(normalizeSearchQuery)
+    .some(blocked => blocked && padded.includes(` ${blocked} `));
+}
+
+let popularCache: { searches: PopularSearch[]; loadedAt: number } | null = null;
+
+/**
+ * Queries that found results for every word over the last 30 days, run by
+ * at least POPULAR_SEARCH_MIN_SESSIONS customers, most searched first and
+ * without blocked ones. Empty when analytics isn't set up.
+ */
+export async function getPopularSearches(): Promise<PopularSearch[]> {
+  if (popularCache && Date.now() - popularCache.loadedAt < POPULAR_SEARCHES_TTL_MS) {
+    return popularCache.searches;
+  }
+
+  const supabase = createSearchAnalyticsClient();
+  if (!supabase) return [];
+
+  const since = new Date(Date.now() - POPULAR_SEARCHES_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase.rpc('popular_search_queries', {
+    p_since: since,
+    p_min_sessions: POPULAR_SEARCH_MIN_SESSIONS,
+    p_limit: 200
+  });
+
+  if (error) {
+    console.error('Error loading popular searches:', error);
+    return popularCache?.searches || [];
+  }
+
+  const searches = (data || [])
+    .map((row: any) => ({ query: row.query, searches: Number(row.searches) }))
+    .filter((search: PopularSearch) => isSuggestibleSearch(search.query));
+  popularCache = { searches, loadedAt: Date.now() };
+  return searches;
+}
+
+/**
+ * Top searches, zero-result searches and search-to-purchase conversion
+ * over the last `days` days
+ */
+export async function getSearchReport(days: number = 30, limit: number = 20): Promise<SearchReport> {
+  const supabase = createSearchAnalyticsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase.rpc('search_report', { p_since: since, p_limit: limit });
+  if (error) throw new Error(`Failed to load search report: ${error.message}`);
+
+  const summary = data?.summary || {};
+  const searches = Number(summary.searches) || 0;
+  const zeroResultSearches = Number(summary.zero_result_searches) || 0;
+
+  return {
+    days,
+    summary: {
+      searches,
+      zeroResultSearches,
+      zeroResultRate: rate(zeroResultSearches, searches),
+      clickThroughRate: rate(Number(summary.searches_with_clicks) || 0, searches),
+      conversionRate: rate(Number(summary.converted_searches) || 0, searches),
+      orders: Number(summary.orders) || 0
+    },
+    topQueries: (data?.top_queries || []).map((row: any) => ({
+      query: row.query,
+      searches: Number(row.searches),
+      avgResults: Number(row.avg_results) || 0,
+      clickThroughRate: rate(Number(row.searches_with_clicks) || 0, Number(row.searches)),
+      conversionRate: rate(Number(row.converted_searches) || 0, Number(row.searches)),
+      lastSearchedAt: row.last_searched_at
+    })),
+    zeroResultQueries: (data?.zero_result_queries || []).map((row: any) => ({
+      query: row.query,
+      searches: Number(row.searches),
+      lastSearchedAt: row.last_searched_at
+    }))
+  };
+}
@@ -0,0 +1,418 @@
+import { createClient } from '@supabase/supabase-js';
+import type { ShippingLabel } from './carriers';
+import type { FulfillmentOrderData } from './fulfillment';
+import { transitionOrder } from './orderLifecycle';
+import { stockKey } from './productVariants';
+
+/**
+ * Normalized shipment status, whatever the carrier calls it. `pending`
+ * shipments are planned but have no label yet.
+ */
+export type ShipmentStatus = 'pending' | 'label_created' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception';
+
+export type FulfillmentType = 'physical' | 'digital';
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  pending: 'Awaiting shipment',
+  label_created: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery exception'
+};
+
+/**
+ * Order statuses derived from shipments, in the order they progress
+ */
+export type ShipmentDerivedOrderStatus = 'partially_shipped' | 'shipped' | 'delivered';
+
+const ORDER_STATUS_PROGRESS: Record<string, number> = {
+  partially_shipped: 1,
+  shipped: 2,
+  delivered: 3
+};
+
+// Orders in these states are never moved by shipment updates
+const FINAL_ORDER_STATUSES = ['cancelled', 'returned', 'refunded'];
+
+export const DEFAULT_WAREHOUSE_ID = process.env.DEFAULT_WAREHOUSE_ID || 'main';
+
+export interface ShipmentLineItem {
+  productId: string;
+  variantId?: string;
+  sku?: string;
+  variantTitle?: string;
+  name: string;
+  quantity: number;
+  price: number;
+}
+
+/**
+ * One planned shipment: the lines that leave from one warehouse together,
+ * or the order's digital lines
+ */
+export interface ShipmentPlan {
+  fulfillmentType: FulfillmentType;
+  warehouseId: string | null;
+  items: ShipmentLineItem[];
+}
+
+/**
+ * Row shape of the `shipments` table (see database/tracking-setup.sql and
+ * database/split-shipments-setup.sql)
+ */
+export interface ShipmentRow {
+  id: string;
+  order_id: string;
+  fulfillment_type: FulfillmentType;
+  warehouse_id: string | null;
+  carrier: string | null;
+  service: string | null;
+  tracking_number: string | null;
+  label_id: string | null;
+  label_format: string | null;
+  label_data: string | null;
+  label_url: string | null;
+  shipping_cost: number | null;
+  status: ShipmentStatus;
+  estimated_delivery: string | null;
+  shipped_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Row shape of the `shipment_items` table
+ */
+export interface ShipmentItemRow {
+  id: string;
+  shipment_id: string;
+  order_id: string;
+  product_id: string;
+  variant_id: string | null;
+  sku: string | null;
+  variant_title: string | null;
+  product_name: string | null;
+  quantity: number;
+  unit_price: number | null;
+}
+
+export type ShipmentWithItems = ShipmentRow & { shipment_items: ShipmentItemRow[] };
+
+function createShipmentsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Split an order's lines into shipments: all digital lines go together and
+ * are delivered instantly, physical lines are grouped by the warehouse they
+ * ship from so each group can ship (and be tracked) on its own
+ */
+export function planShipments(items: FulfillmentOrderData['items']): ShipmentPlan[] {
+  const plans: ShipmentPlan[] = [];
+  const toLineItem = (item: FulfillmentOrderData['items'][number]): ShipmentLineItem => ({
+    productId: item.productId,
+    variantId: item.variantId,
+    sku: item.sku,
+    variantTitle: item.variantTitle,
+    name: item.name,
+    quantity: item.quantity,
+    price: item.price
+  });
+
+  const digitalItems = items.filter(item => item.isDigital && item.quantity > 0);
+  if (digitalItems.length > 0) {
+    plans.push({ fulfillmentType: 'digital', warehouseId: null, items: digitalItems.map(toLineItem) });
+  }
+
+  const byWarehouse = new Map<string, ShipmentLineItem[]>();
+  for (const item of items) {
+    if (item.isDigital || item.quantity <= 0) continue;
+    const warehouseId = item.warehouseId || DEFAULT_WAREHOUSE_ID;
+    byWarehouse.set(warehouseId, [...(byWarehouse.get(warehouseId) || []), toLineItem(item)]);
+  }
+
+  byWarehouse.forEach((warehouseItems, warehouseId) => {
+    plans.push({ fulfillmentType: 'physical', warehouseId, items: warehouseItems });
+  });
+
+  return plans;
+}
+
+/**
+ * Restrict an order to the lines of one shipment, e.g. to rate and buy
+ * a label for just that parcel
+ */
+export function orderDataForShipment(
+  orderData: FulfillmentOrderData,
+  shipment: ShipmentWithItems
+): FulfillmentOrderData {
+  const remaining = new Map<string, number>();
+  for (const item of shipment.shipment_items) {
+    const key = stockKey({ productId: item.product_id, variantId: item.variant_id });
+    remaining.set(key, (remaining.get(key) || 0) + item.quantity);
+  }
+
+  const items = orderData.items
+    .map(item => {
+      const key = stockKey(item);
+      const quantity = Math.min(item.quantity, remaining.get(key) || 0);
+      remaining.set(key, (remaining.get(key) || 0) - quantity);
+      return { ...item, quantity };
+    })
+    .filter(item => item.quantity > 0);
+
+  return { ...orderData, items };
+}
+
+/**
+ * Store the planned shipments for an order with their line items. Digital
+ * shipments are delivered straight away. Safe to retry: plans that already
+ * have a shipment for the same type and warehouse are not created again.
+ */
+export async function createPlannedShipments(
+  orderId: string,
+  plans: ShipmentPlan[]
+): Promise<ShipmentWithItems[]> {
+  const supabase = createShipmentsClient();
+  if (!supabase) return [];
+
+  const existing = await getOrderShipments(orderId);
+  const now = new Date().toISOString();
+
+  for (const plan of plans) {
+    const digital = plan.fulfillmentType === 'digital';
+    const planned = existing.find(candidate =>
+      candidate.fulfillment_type === plan.fulfillmentType &&
+      (candidate.warehouse_id || null) === plan.warehouseId
+    );
+
+    if (planned && planned.shipment_items.length > 0) continue;
+
+    let shipment: ShipmentRow | undefined = planned;
+
+    if (!shipment) {
+      const { data, error } = await supabase
+        .from('shipments')
+        .insert({
+          order_id: orderId,
+          fulfillment_type: plan.fulfillmentType,
+          warehouse_id: plan.warehouseId,
+          status: digital ? 'delivered' : 'pending',
+          shipped_at: digital ? now : null,
+          delivered_at: digital ? now : null
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create shipment: ${error.message}`);
+      }
+      shipment = data as ShipmentRow;
+    }
+
+    const shipmentId = shipment.id;
+    const { error: itemsError } = await supabase
+      .from('shipment_items')
+      .insert(plan.items.map(item => ({
+        shipment_id: shipmentId,
+        order_id: orderId,
+        product_id: item.productId,
+        variant_id: item.variantId || null,
+        sku: item.sku || null,
+        variant_title: item.variantTitle || null,
+        product_name: item.name,
+        quantity: item.quantity,
+        unit_price: item.price
+      })));
+
+    if (itemsError) {
+      throw new Error(`Failed to store shipment items: ${itemsError.message}`);
+    }
+
+    if (digital) {
+      await supabase
+        .from('tracking_events')
+        .upsert({
+          shipment_id: shipmentId,
+          order_id: orderId,
+          status: 'delivered',
+          description: 'Digital items available for download',
+          occurred_at: shipment.delivered_at || now
+        }, { onConflict: 'shipment_id,status,occurred_at', ignoreDuplicates: true });
+    }
+  }
+
+  await updateOrderFromShipments(orderId);
+
+  return getOrderShipments(orderId);
+}
+
+/**
+ * Attach a bought label to a planned shipment and record its first event
+ */
+export async function attachShipmentLabel(
+  shipmentId: string,
+  label: ShippingLabel
+): Promise<ShipmentRow | null> {
+  const supabase = createShipmentsClient();
+  if (!supabase) return null;
+
+  const { data: shipment, error } = await supabase
+    .from('shipments')
+    .update({
+      carrier: label.carrier,
+      service: label.service,
+      tracking_number: label.trackingNumber,
+      label_id: label.id,
+      label_format: label.format,
+      label_data: label.labelData || null,
+      label_url: label.labelUrl || null,
+      shipping_cost: label.rate.amount,
+      status: 'label_created',
+      estimated_delivery: label.estimatedDelivery
+    })
+    .eq('id', shipmentId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to attach label to shipment ${shipmentId}: ${error.message}`);
+  }
+
+  await supabase
+    .from('tracking_events')
+    .upsert({
+      shipment_id: shipment.id,
+      order_id: shipment.order_id,
+      status: 'label_created',
+      description: `${SHIPMENT_STATUS_LABELS.label_created} (${label.carrier} ${label.service})`,
+      occurred_at: label.createdAt
+    }, { onConflict: 'shipment_id,status,occurred_at', ignoreDuplicates: true });
+
+  await updateOrderFromShipments(shipment.order_id);
+
+  return shipment;
+}
+
+export async function getShipment(shipmentId: string): Promise<ShipmentWithItems | null> {
+  const supabase = createShipmentsClient();
+  if (!supabase) return null;
+
+  const { data } = await supabase
+    .from('shipments')
+    .select('*, shipment_items(*)')
+    .eq('id', shipmentId)
+    .single();
+
+  return data || null;
+}
+
+/**
+ * All shipments of an order with their line items, oldest first
+ */
+export async function getOrderShipments(orderId: string): Promise<ShipmentWithItems[]> {
+  const supabase = createShipmentsClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('shipments')
+    .select('*, shipment_items(*)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to fetch shipments: ${error.message}`);
+  return data || [];
+}
+
+/**
+ * Order status and fulfillment status implied by an order's shipments.
+ * A shipment counts as shipped from its first carrier scan (digital
+ * shipments from the moment they are delivered) and as fulfilled once it
+ * has a label. `status` is null while nothing has shipped.
+ */
+export function deriveOrderStatus(
+  shipments: Array<Pick<ShipmentRow, 'status' | 'shipped_at'>>
+): {
+  status: ShipmentDerivedOrderStatus | null;
+  fulfillmentStatus: 'unfulfilled' | 'partial' | 'fulfilled';
+} {
+  const total = shipments.length;
+  const delivered = shipments.filter(shipment => shipment.status === 'delivered').length;
+  const shipped = shipments.filter(shipment => shipment.status === 'delivered' || shipment.shipped_at).length;
+  const fulfilled = shipments.filter(shipment => shipment.status !== 'pending').length;
+
+  let status: ShipmentDerivedOrderStatus | null = null;
+  if (total > 0 && delivered === total) status = 'delivered';
+  else if (total > 0 && shipped === total) status = 'shipped';
+  else if (shipped > 0) status = 'partially_shipped';
+
+  return {
+    status,
+    fulfillmentStatus: total === 0 || fulfilled === 0 ? 'unfulfilled' : fulfilled === total ? 'fulfilled' : 'partial'
+  };
+}
+
+/**
+ * Move an order forward to the status implied by its shipments. Orders
+ * never move backwards, and cancelled, returned or refunded orders are left
+ * alone.
+ */
+export async function updateOrderFromShipments(orderId: string): Promise<void> {
+  const supabase = createShipmentsClient();
+  if (!supabase) return;
+
+  const [{ data: shipments }, { data: order }] = await Promise.all([
+    supabase.from('shipments').select('status, shipped_at, delivered_at').eq('order_id', orderId),
+    supabase.from('orders').select('status, fulfillment_status, shipped_at').eq('id', orderId).single()
+  ]);
+
+  if (!shipments || shipments.length === 0 || !order || FINAL_ORDER_STATUSES.includes(order.status)) return;
+
+  const { status, fulfillmentStatus } = deriveOrderStatus(shipments);
+  const now = new Date().toISOString();
+  const updates: Record<string, any> = {};
+
+  if (fulfillmentStatus !== order.fulfillment_status) {
+    updates.fulfillment_status = fulfillmentStatus;
+  }
+
+  if (status && ORDER_STATUS_PROGRESS[status] > (ORDER_STATUS_PROGRESS[order.status] || 0)) {
+    const timestamps: Record<string, any> = {
+      shipped_at: order.shipped_at || shipments
+        .map(shipment => shipment.shipped_at as string)
+        .filter(Boolean)
+        .sort()[0] || now
+    };
+    if (status === 'delivered') {
+      timestamps.delivered_at = shipments
+        .map(shipment => shipment.delivered_at as string)
+        .sort()
+        .pop() || now;
+    }
+
+    // Unpaid orders are left where they are (see the lifecycle guards)
+    const moved = await transitionOrder(orderId, status, {
+      actor: 'fulfillment',
+      skipIfNotAllowed: true,
+      updates: { ...updates, ...timestamps },
+      metadata: { shipments: shipments.length }
+    });
+    if (moved) return;
+  }
+
+  if (Object.keys(updates).length === 0) return;
+
+  await supabase
+    .from('orders')
+    .update({ ...updates, updated_at: now })
+    .eq('id', orderId);
+}
@@ -0,0 +1,177 @@
+import type Stripe from 'stripe';
+import { createClient } from '@supabase/supabase-js';
+import { STRIPE_EVENT_HANDLERS } from './stripeWebhookHandlers';
+
+export type StripeEventStatus = 'processing' | 'processed' | 'failed' | 'ignored';
+
+/**
+ * Row shape of the `stripe_events` table (see database/stripe-events-setup.sql)
+ */
+export interface StripeEventRecord {
+  id: string;
+  event_type: string;
+  status: StripeEventStatus;
+  payload: Stripe.Event;
+  attempts: number;
+  last_error: string | null;
+  livemode: boolean;
+  stripe_created_at: string | null;
+  received_at: string;
+  processed_at: string | null;
+}
+
+export interface ProcessEventResult {
+  status: 'processed' | 'ignored' | 'duplicate' | 'failed';
+  error?: string;
+}
+
+function createStripeEventsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Run the handler for a verified Stripe event exactly once:
+ *
+ * 1. The event id is claimed in `stripe_events`; deliveries of an event
+ *    that is processed (or being processed) return `duplicate`
+ * 2. Events without a handler are stored as `ignored`
+ * 3. A handler error stores the event as `failed` with the error, so the
+ *    next delivery from Stripe or a replay from the admin API retries it
+ *
+ * `force` re-runs events that were already processed or ignored (replay).
+ */
+export async function processStripeEvent(
+  event: Stripe.Event,
+  options: { force?: boolean } = {}
+): Promise<ProcessEventResult> {
+  const handler = STRIPE_EVENT_HANDLERS[event.type];
+  const supabase = createStripeEventsClient();
+
+  // Without the event store there is nothing to deduplicate against
+  if (!supabase) {
+    if (!handler) return { status: 'ignored' };
+    try {
+      await handler(event);
+      return { status: 'processed' };
+    } catch (error) {
+      return { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_stripe_event', {
+    p_id: event.id,
+    p_event_type: event.type,
+    p_payload: event,
+    p_livemode: event.livemode,
+    p_stripe_created_at: new Date(event.created * 1000).toISOString(),
+    p_force: options.force || false
+  });
+
+  if (claimError) {
+    throw new Error(`Failed to record Stripe event ${event.id}: ${claimError.message}`);
+  }
+  if (!claimed) {
+    return { status: 'duplicate' };
+  }
+
+  if (!handler) {
+    await supabase
+      .from('stripe_events')
+      .update({ status: 'ignored', processed_at: new Date().toISOString() })
+      .eq('id', event.id);
+    return { status: 'ignored' };
+  }
+
+  try {
+    await handler(event);
+
+    await supabase
+      .from('stripe_events')
+      .update({ status: 'processed', last_error: null, processed_at: new Date().toISOString() })
+      .eq('id', event.id);
+
+    return { status: 'processed' };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Stripe event ${event.id} (${event.type}) failed:`, message);
+
+    await supabase
+      .from('stripe_events')
+      .update({ status: 'failed', last_error: message })
+      .eq('id', event.id);
+
+    return { status: 'failed', error: message };
+  }
+}
+
+/**
+ * Re-run a stored event from its saved payload. Only failed and ignored
+ * events can be replayed; processed events would apply twice.
+ */
+export async function replayStripeEvent(eventId: string): Promise<ProcessEventResult & { success: boolean }> {
+  const supabase = createStripeEventsClient();
+  if (!supabase) {
+    return { success: false, status: 'failed', error: 'Supabase configuration missing' };
+  }
+
+  const { data: record } = await supabase
+    .from('stripe_events')
+    .select('status, payload')
+    .eq('id', eventId)
+    .single();
+
+  if (!record) {
+    return { success: false, status: 'failed', error: 'Event not found' };
+  }
+  if (record.status !== 'failed' && record.status !== 'ignored') {
+    return { success: false, status: 'failed', error: `Event is ${record.status} and cannot be replayed` };
+  }
+
+  const result = await processStripeEvent(record.payload as Stripe.Event, { force: true });
+  return { ...result, success: result.status === 'processed' || result.status === 'ignored' };
+}
+
+export async function listStripeEvents(options: {
+  status?: StripeEventStatus;
+  eventType?: string;
+  limit?: number;
+} = {}): Promise<StripeEventRecord[]> {
+  const supabase = createStripeEventsClient();
+  if (!supabase) return [];
+
+  let query = supabase
+    .from('stripe_events')
+    .select('*')
+    .order('received_at', { ascending: false })
+    .limit(options.limit || 100);
+
+  if (options.status) query = query.eq('status', options.status);
+  if (options.eventType) query = query.eq('event_type', options.eventType);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to fetch Stripe events: ${error.message}`);
+  return data || [];
+}
+
+export async function getStripeEventCounts(): Promise<Record<StripeEventStatus, number>> {
+  const counts: Record<StripeEventStatus, number> = { processing: 0, processed: 0, failed: 0, ignored: 0 };
+  const supabase = createStripeEventsClient();
+  if (!supabase) return counts;
+
+  await Promise.all((Object.keys(counts) as StripeEventStatus[]).map(async status => {
+    const { count } = await supabase
+      .from('stripe_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', status);
+    counts[status] = count || 0;
+  }));
+
+  return counts;
+}
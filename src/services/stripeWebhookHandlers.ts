@@ -0,0 +1,519 @@
+import type Stripe from 'stripe';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { releaseOrderInventory } from './inventory';
+import { recordOrderEvent, transitionOrder } from './orderLifecycle';
+import { BASE_CURRENCY, convertToBase, fromMinorUnits, getExchangeRate } from './currency';
+import { loadExchangeRates } from './exchangeRates';
+import { getProductById } from './productService';
+
+/**
+ * Handlers throw when the event could not be applied, so the event is
+ * stored as failed and can be replayed. Side effects that must not block
+ * the payment update (emails, fulfillment queueing) log their errors instead.
+ */
+export type StripeEventHandler = (event: Stripe.Event) => Promise<void>;
+
+function createWebhookClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase configuration missing');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function toIso(timestamp: number | null | undefined): string | null {
+  return timestamp ? new Date(timestamp * 1000).toISOString() : null;
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+/**
+ * The order a payment belongs to: `order_id` metadata when present,
+ * otherwise the order that stored the PaymentIntent at checkout
+ */
+async function findOrderId(
+  supabase: SupabaseClient,
+  paymentIntentId: string | null,
+  metadata?: Stripe.Metadata | null
+): Promise<string | null> {
+  if (metadata?.order_id) return metadata.order_id;
+  if (!paymentIntentId) return null;
+
+  const { data } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('payment_intent', paymentIntentId)
+    .limit(1)
+    .maybeSingle();
+
+  return data?.id || null;
+}
+
+/**
+ * Move a pending order to paid, which runs the post-payment steps (commit
+ * the reserved stock, queue fulfillment, confirmation email; see
+ * orderLifecycle.ts). Returns false (and does nothing else) when the order
+ * was already paid, so checkout.session.completed and
+ * payment_intent.succeeded for the same order only fulfil it once.
+ */
+export async function markOrderPaid(
+  orderId: string,
+  payment: { paymentIntentId?: string | null; sessionId?: string }
+): Promise<boolean> {
+  const paid = await transitionOrder(orderId, 'paid', {
+    actor: 'stripe',
+    from: ['pending'],
+    updates: {
+      financial_status: 'paid',
+      payment_error: null,
+      ...(payment.paymentIntentId && { payment_intent: payment.paymentIntentId }),
+      ...(payment.sessionId && { stripe_session_id: payment.sessionId })
+    },
+    metadata: {
+      ...(payment.paymentIntentId && { payment_intent: payment.paymentIntentId }),
+      ...(payment.sessionId && { stripe_session_id: payment.sessionId })
+    }
+  });
+
+  if (!paid) {
+    console.log(`Order ${orderId} is not pending, skipping payment side effects`);
+    return false;
+  }
+
+  console.log(`✅ Order ${orderId} marked as paid via webhook`);
+  return true;
+}
+
+const handleCheckoutSessionCompleted: StripeEventHandler = async (event) => {
+  const session = event.data.object as Stripe.Checkout.Session;
+
+  if (session.mode === 'subscription') {
+    await recordSubscriptionCheckout(session);
+    return;
+  }
+
+  const orderId = session.metadata?.order_id;
+  if (!orderId) {
+    console.log('No order_id in session metadata, skipping order update');
+    return;
+  }
+
+  // Delayed payment methods complete the session before the money arrives;
+  // checkout.session.async_payment_succeeded marks those orders paid
+  if (session.payment_status === 'unpaid') {
+    console.log(`Checkout session ${session.id} completed with payment pending for order ${orderId}`);
+    return;
+  }
+
+  await markOrderPaid(orderId, { paymentIntentId: idOf(session.payment_intent), sessionId: session.id });
+};
+
+const handleCheckoutSessionExpired: StripeEventHandler = async (event) => {
+  const session = event.data.object as Stripe.Checkout.Session;
+
+  // The customer never paid: give the reserved stock back and close the draft order
+  const orderId = session.metadata?.order_id;
+  if (!orderId) return;
+
+  const released = await releaseOrderInventory(orderId, 'expired');
+
+  await transitionOrder(orderId, 'cancelled', {
+    actor: 'stripe',
+    from: ['pending'],
+    reason: 'Checkout session expired',
+    metadata: { stripe_session_id: session.id }
+  });
+
+  console.log(`⌛ Checkout session expired for order ${orderId}, released ${released} reservation(s)`);
+};
+
+const handlePaymentIntentSucceeded: StripeEventHandler = async (event) => {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+  const orderId = paymentIntent.metadata?.order_id;
+  if (!orderId) {
+    console.log(`No order_id in payment intent ${paymentIntent.id} metadata, skipping order update`);
+    return;
+  }
+
+  await markOrderPaid(orderId, { paymentIntentId: paymentIntent.id });
+};
+
+const handlePaymentIntentFailed: StripeEventHandler = async (event) => {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent;
+  const supabase = createWebhookClient();
+
+  const orderId = await findOrderId(supabase, paymentIntent.id, paymentIntent.metadata);
+  if (!orderId) return;
+
+  // The customer can still retry while the checkout session is open, so the
+  // order stays pending and keeps its reservations
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      financial_status: 'failed',
+      payment_error: paymentIntent.last_payment_error?.message || 'Payment failed',
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', orderId)
+    .eq('status', 'pending');
+
+  if (error) throw new Error(`Failed to record payment failure for order ${orderId}: ${error.message}`);
+
+  await recordOrderEvent(orderId, {
+    type: 'payment_failed',
+    actor: 'stripe',
+    reason: paymentIntent.last_payment_error?.message || 'Payment failed',
+    metadata: { payment_intent: paymentIntent.id }
+  });
+
+  console.log(`❌ Payment failed for order ${orderId}: ${paymentIntent.last_payment_error?.message || 'unknown reason'}`);
+};
+
+const handleChargeRefunded: StripeEventHandler = async (event) => {
+  const charge = event.data.object as Stripe.Charge;
+  const supabase = createWebhookClient();
+
+  const orderId = await findOrderId(supabase, idOf(charge.payment_intent), charge.metadata);
+  if (!orderId) {
+    console.log(`No order found for refunded charge ${charge.id}`);
+    return;
+  }
+
+  // charge.refunded is only true once the whole charge has been refunded
+  const amountRefunded = fromMinorUnits(charge.amount_refunded, charge.currency.toUpperCase());
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      amount_refunded: amountRefunded,
+      financial_status: charge.refunded ? 'refunded' : 'partially_refunded',
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', orderId);
+
+  if (error) throw new Error(`Failed to record refund for order ${orderId}: ${error.message}`);
+
+  if (charge.refunded) {
+    await transitionOrder(orderId, 'refunded', {
+      actor: 'stripe',
+      skipIfNotAllowed: true,
+      metadata: { charge: charge.id, amount_refunded: amountRefunded }
+    });
+  } else {
+    await recordOrderEvent(orderId, {
+      type: 'partially_refunded',
+      actor: 'stripe',
+      metadata: { charge: charge.id, amount_refunded: amountRefunded }
+    });
+  }
+
+  console.log(`💸 ${charge.refunded ? 'Full' : 'Partial'} refund recorded for order ${orderId}`);
+};
+
+const handleDispute: StripeEventHandler = async (event) => {
+  const dispute = event.data.object as Stripe.Dispute;
+  const supabase = createWebhookClient();
+
+  const orderId = await findOrderId(supabase, idOf(dispute.payment_intent), dispute.metadata);
+  if (!orderId) {
+    console.log(`No order found for dispute ${dispute.id}`);
+    return;
+  }
+
+  const updates: Record<string, any> = {
+    dispute_status: dispute.status,
+    updated_at: new Date().toISOString()
+  };
+
+  if (event.type === 'charge.dispute.created') {
+    updates.financial_status = 'disputed';
+    updates.disputed_at = toIso(dispute.created) || new Date().toISOString();
+  } else if (dispute.status === 'won') {
+    updates.financial_status = 'paid';
+  } else if (dispute.status === 'lost') {
+    updates.financial_status = 'refunded';
+  }
+
+  const { error } = await supabase
+    .from('orders')
+    .update(updates)
+    .eq('id', orderId);
+
+  if (error) throw new Error(`Failed to record dispute for order ${orderId}: ${error.message}`);
+
+  await recordOrderEvent(orderId, {
+    type: event.type === 'charge.dispute.created' ? 'dispute_opened' : 'dispute_updated',
+    actor: 'stripe',
+    reason: dispute.reason,
+    metadata: { dispute: dispute.id, dispute_status: dispute.status }
+  });
+
+  console.log(`⚖️ Dispute ${dispute.id} (${dispute.reason}) is ${dispute.status} for order ${orderId}`);
+};
+
+/**
+ * Mirror a Stripe subscription into the `subscriptions` table. Also used
+ * after customer changes so the account page doesn't wait for the webhook.
+ */
+export async function syncSubscription(subscription: Stripe.Subscription): Promise<void> {
+  const item = subscription.items.data[0];
+  const supabase = createWebhookClient();
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .upsert({
+      stripe_subscription_id: subscription.id,
+      stripe_customer_id: idOf(subscription.customer),
+      user_id: subscription.metadata?.user_id || null,
+      customer_email: subscription.metadata?.customer_email?.toLowerCase() || null,
+      status: subscription.status,
+      stripe_price_id: item?.price.id || null,
+      plan_id: subscription.metadata?.plan_id || null,
+      currency: subscription.currency?.toUpperCase() || null,
+      product_id: subscription.metadata?.product_id || idOf(item?.price.product as string | Stripe.Product | null),
+      quantity: item?.quantity || 1,
+      current_period_start: toIso(item?.current_period_start),
+      current_period_end: toIso(item?.current_period_end),
+      trial_end: toIso(subscription.trial_end),
+      cancel_at_period_end: subscription.cancel_at_period_end,
+      canceled_at: toIso(subscription.canceled_at),
+      pause_collection: subscription.pause_collection,
+      latest_invoice_id: idOf(subscription.latest_invoice),
+      metadata: subscription.metadata || {}
+    }, { onConflict: 'stripe_subscription_id' });
+
+  if (error) throw new Error(`Failed to sync subscription ${subscription.id}: ${error.message}`);
+}
+
+const handleSubscriptionChange: StripeEventHandler = async (event) => {
+  const subscription = event.data.object as Stripe.Subscription;
+  await syncSubscription(subscription);
+
+  console.log(`🔁 Subscription ${subscription.id} is ${subscription.status} (${event.type})`);
+};
+
+/**
+ * Keep the name and shipping address collected by a subscription Checkout
+ * session; recurring orders ship there. The row may not exist yet when
+ * customer.subscription.created arrives later, so a placeholder is
+ * inserted that the subscription sync fills in.
+ */
+async function recordSubscriptionCheckout(session: Stripe.Checkout.Session): Promise<void> {
+  const subscriptionId = idOf(session.subscription);
+  if (!subscriptionId) return;
+
+  const supabase = createWebhookClient();
+  const shipping = session.collected_information?.shipping_details;
+
+  const { error: insertError } = await supabase
+    .from('subscriptions')
+    .upsert({
+      stripe_subscription_id: subscriptionId,
+      stripe_customer_id: idOf(session.customer) || '',
+      status: 'incomplete',
+      customer_email: session.customer_details?.email || session.metadata?.customer_email || null
+    }, { onConflict: 'stripe_subscription_id', ignoreDuplicates: true });
+
+  if (insertError) throw new Error(`Failed to record subscription ${subscriptionId}: ${insertError.message}`);
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      customer_name: shipping?.name || session.customer_details?.name || null,
+      ...(shipping && {
+        shipping_address: {
+          street: [shipping.address.line1, shipping.address.line2].filter(Boolean).join(', '),
+          city: shipping.address.city || '',
+          state: shipping.address.state || undefined,
+          postalCode: shipping.address.postal_code || '',
+          country: shipping.address.country || ''
+        }
+      })
+    })
+    .eq('stripe_subscription_id', subscriptionId);
+
+  if (error) throw new Error(`Failed to record subscription ${subscriptionId}: ${error.message}`);
+
+  // The customer manages the subscription through an emailed link
+  const email = session.customer_details?.email || session.metadata?.customer_email;
+  if (email) {
+    try {
+      const { sendSubscriptionManageLink } = await import('./subscriptions');
+      await sendSubscriptionManageLink(email);
+    } catch (emailError) {
+      console.error('Error sending subscription link:', emailError);
+    }
+  }
+
+  console.log(`🔁 Subscription ${subscriptionId} started from checkout session ${session.id}`);
+}
+
+/**
+ * Create and pay the order for a paid subscription invoice: one order per
+ * invoice (retries find the existing one), which then goes through the
+ * normal paid-order steps (stock, fulfillment queue, confirmation email).
+ * Zero-amount invoices (trials, 100% discounts) don't create an order.
+ */
+async function createRecurringOrder(
+  supabase: SupabaseClient,
+  invoice: Stripe.Invoice,
+  subscriptionId: string
+): Promise<void> {
+  if (invoice.amount_paid <= 0) {
+    console.log(`Invoice ${invoice.id} for subscription ${subscriptionId} is zero-amount, no order created`);
+    return;
+  }
+
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('*, subscription_plans(*)')
+    .eq('stripe_subscription_id', subscriptionId)
+    .maybeSingle();
+
+  // Throwing marks the event failed; Stripe's retry comes after the sync
+  if (!subscription?.product_id) {
+    throw new Error(`Subscription ${subscriptionId} has not been synced yet`);
+  }
+
+  const product = getProductById(subscription.product_id);
+  const plan = subscription.subscription_plans;
+  const isDigital = !!product?.isDigital;
+
+  const invoiceShipping = invoice.customer_shipping?.address;
+  const shippingAddress = subscription.shipping_address || (invoiceShipping ? {
+    street: [invoiceShipping.line1, invoiceShipping.line2].filter(Boolean).join(', '),
+    city: invoiceShipping.city || '',
+    state: invoiceShipping.state || undefined,
+    postalCode: invoiceShipping.postal_code || '',
+    country: invoiceShipping.country || ''
+  } : null);
+
+  if (!isDigital && !shippingAddress) {
+    throw new Error(`No shipping address for subscription ${subscriptionId} yet`);
+  }
+
+  const currency = invoice.currency.toUpperCase();
+  const total = fromMinorUnits(invoice.amount_paid, currency);
+  const rates = await loadExchangeRates();
+  const quantity = subscription.quantity || 1;
+
+  const id = crypto.randomUUID();
+  const { error } = await supabase
+    .from('orders')
+    .insert({
+      id,
+      user_id: subscription.user_id,
+      customer_name: subscription.customer_name,
+      customer_email: invoice.customer_email || subscription.customer_email,
+      items: JSON.stringify([{
+        productId: subscription.product_id,
+        name: product?.name || plan?.name || 'Subscription',
+        // Item prices are stored in the base currency
+        price: plan ? Number(plan.price) : convertToBase(total / quantity, currency, rates),
+        quantity,
+        isDigital
+      }]),
+      shipping_address: shippingAddress,
+      total,
+      currency,
+      settlement_currency: BASE_CURRENCY,
+      exchange_rate: getExchangeRate(currency, rates),
+      settlement_total: convertToBase(total, currency, rates),
+      status: 'pending',
+      subscription_id: subscriptionId,
+      stripe_invoice_id: invoice.id,
+      created_at: new Date().toISOString(),
+      metadata: JSON.stringify({
+        subscription_plan_id: subscription.plan_id,
+        billing_reason: invoice.billing_reason,
+        shipping_method: 'standard'
+      })
+    });
+
+  let orderId = id;
+  if (!error) {
+    await recordOrderEvent(id, {
+      type: 'created',
+      toStatus: 'pending',
+      actor: 'stripe',
+      metadata: { subscription_id: subscriptionId, stripe_invoice_id: invoice.id }
+    });
+  } else {
+    if (error.code !== '23505') {
+      throw new Error(`Failed to create order for invoice ${invoice.id}: ${error.message}`);
+    }
+
+    const { data: existing } = await supabase
+      .from('orders')
+      .select('id')
+      .eq('stripe_invoice_id', invoice.id)
+      .single();
+    orderId = existing!.id;
+  }
+
+  await markOrderPaid(orderId, {});
+  console.log(`🔁 Recurring order ${orderId} created for invoice ${invoice.id}`);
+}
+
+const handleInvoice: StripeEventHandler = async (event) => {
+  const invoice = event.data.object as Stripe.Invoice;
+  const subscriptionId = idOf(invoice.parent?.subscription_details?.subscription);
+  if (!subscriptionId) return;
+
+  const supabase = createWebhookClient();
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      latest_invoice_id: invoice.id,
+      last_payment_error: event.type === 'invoice.payment_failed'
+        ? `Invoice payment failed (attempt ${invoice.attempt_count})`
+        : null
+    })
+    .eq('stripe_subscription_id', subscriptionId);
+
+  if (error) throw new Error(`Failed to record invoice for subscription ${subscriptionId}: ${error.message}`);
+
+  if (event.type === 'invoice.paid') {
+    await createRecurringOrder(supabase, invoice, subscriptionId);
+  }
+};
+
+const handleSetupIntentSucceeded: StripeEventHandler = async (event) => {
+  const setupIntent = event.data.object as Stripe.SetupIntent;
+  const customerId = idOf(setupIntent.customer);
+  const paymentMethodId = idOf(setupIntent.payment_method);
+  if (!customerId || !paymentMethodId) return;
+
+  // A customer's first saved card becomes their default for one-click reorders
+  const { StripeService } = await import('../lib/stripe');
+  if (!(await StripeService.getDefaultPaymentMethodId(customerId))) {
+    await StripeService.setDefaultPaymentMethod(customerId, paymentMethodId);
+    console.log(`💳 Saved card ${paymentMethodId} set as default for customer ${customerId}`);
+  }
+};
+
+export const STRIPE_EVENT_HANDLERS: Partial<Record<Stripe.Event.Type, StripeEventHandler>> = {
+  'checkout.session.completed': handleCheckoutSessionCompleted,
+  'checkout.session.async_payment_succeeded': handleCheckoutSessionCompleted,
+  'checkout.session.expired': handleCheckoutSessionExpired,
+  'payment_intent.succeeded': handlePaymentIntentSucceeded,
+  'payment_intent.payment_failed': handlePaymentIntentFailed,
+  'charge.refunded': handleChargeRefunded,
+  'charge.dispute.created': handleDispute,
+  'charge.dispute.updated': handleDispute,
+  'charge.dispute.closed': handleDispute,
+  'customer.subscription.created': handleSubscriptionChange,
+  'customer.subscription.updated': handleSubscriptionChange,
+  'customer.subscription.deleted': handleSubscriptionChange,
+  'customer.subscription.paused': handleSubscriptionChange,
+  'customer.subscription.resumed': handleSubscriptionChange,
+  'invoice.paid': handleInvoice,
+  'invoice.payment_failed': handleInvoice,
+  'setup_intent.succeeded': handleSetupIntentSucceeded
+};
@@ -0,0 +1,443 @@
+import crypto from 'crypto';
+import type Stripe from 'stripe';
+import { createClient } from '@supabase/supabase-js';
+import { StripeService } from '../lib/stripe';
+import { BillingInterval, SubscriptionPlan } from '../types';
+import { getProductById } from './productService';
+import { convertFromBase, resolveCurrency, toMinorUnits } from './currency';
+import { loadExchangeRates } from './exchangeRates';
+import { syncSubscription } from './stripeWebhookHandlers';
+
+export type SubscriptionStatus =
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'canceled'
+  | 'unpaid'
+  | 'paused';
+
+export type SubscriptionAction = 'pause' | 'resume' | 'skip' | 'cancel' | 'change_plan' | 'update_card';
+
+/**
+ * Row shape of the `subscription_plans` table (see database/subscriptions-setup.sql)
+ */
+export interface SubscriptionPlanRow {
+  id: string;
+  product_id: string;
+  name: string;
+  billing_interval: BillingInterval;
+  interval_count: number;
+  trial_days: number;
+  price: number;
+  stripe_price_id: string | null;
+  active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Row shape of the `subscriptions` table, kept in sync from Stripe events
+ */
+export interface SubscriptionRecord {
+  id: string;
+  stripe_subscription_id: string;
+  stripe_customer_id: string;
+  user_id: string | null;
+  customer_email: string | null;
+  customer_name: string | null;
+  status: SubscriptionStatus;
+  plan_id: string | null;
+  product_id: string | null;
+  stripe_price_id: string | null;
+  currency: string | null;
+  quantity: number;
+  current_period_start: string | null;
+  current_period_end: string | null;
+  trial_end: string | null;
+  cancel_at_period_end: boolean;
+  canceled_at: string | null;
+  pause_collection: { behavior: string; resumes_at: number | null } | null;
+  shipping_address: Record<string, any> | null;
+  last_payment_error: string | null;
+  created_at: string;
+  subscription_plans?: SubscriptionPlanRow | null;
+}
+
+// Countries Checkout collects subscription shipping addresses for
+const SHIPPING_COUNTRIES: Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[] = [
+  'US', 'CA', 'GB', 'IE', 'DE', 'FR', 'ES', 'IT', 'NL', 'AU', 'NZ', 'JP'
+];
+
+// Subscriptions customers can still change
+const MANAGEABLE_STATUSES: SubscriptionStatus[] = ['trialing', 'active', 'past_due', 'paused'];
+
+const MANAGE_LINK_TTL_DAYS = 7;
+
+function createSubscriptionsClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+export function toSubscriptionPlan(row: SubscriptionPlanRow): SubscriptionPlan {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    name: row.name,
+    interval: row.billing_interval,
+    intervalCount: row.interval_count,
+    trialDays: row.trial_days,
+    price: Number(row.price),
+    stripePriceId: row.stripe_price_id || undefined
+  };
+}
+
+export async function getProductPlans(productId: string): Promise<SubscriptionPlan[]> {
+  const supabase = createSubscriptionsClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('subscription_plans')
+    .select('*')
+    .eq('product_id', productId)
+    .eq('active', true)
+    .order('sort_order');
+
+  if (error) {
+    console.error('Error fetching subscription plans:', error);
+    return [];
+  }
+  return (data || []).map(toSubscriptionPlan);
+}
+
+export async function getPlan(planId: string): Promise<SubscriptionPlanRow | null> {
+  const supabase = createSubscriptionsClient();
+  if (!supabase) return null;
+
+  const { data } = await supabase
+    .from('subscription_plans')
+    .select('*')
+    .eq('id', planId)
+    .single();
+
+  return data || null;
+}
+
+export async function listPlans(options: { productId?: string; includeInactive?: boolean } = {}): Promise<SubscriptionPlanRow[]> {
+  const supabase = createSubscriptionsClient();
+  if (!supabase) return [];
+
+  let query = supabase
+    .from('subscription_plans')
+    .select('*')
+    .order('product_id')
+    .order('sort_order');
+
+  if (options.productId) query = query.eq('product_id', options.productId);
+  if (!options.includeInactive) query = query.eq('active', true);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to fetch subscription plans: ${error.message}`);
+  return data || [];
+}
+
+export async function createPlan(plan: {
+  productId: string;
+  name: string;
+  interval: BillingInterval;
+  intervalCount?: number;
+  trialDays?: number;
+  price: number;
+  stripePriceId?: string;
+  sortOrder?: number;
+}): Promise<SubscriptionPlanRow> {
+  const supabase = createSubscriptionsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  if (!getProductById(plan.productId)) {
+    throw new Error(`Product ${plan.productId} not found`);
+  }
+
+  const { data, error } = await supabase
+    .from('subscription_plans')
+    .insert({
+      product_id: plan.productId,
+      name: plan.name,
+      billing_interval: plan.interval,
+      interval_count: plan.intervalCount || 1,
+      trial_days: plan.trialDays || 0,
+      price: plan.price,
+      stripe_price_id: plan.stripePriceId || null,
+      sort_order: plan.sortOrder || 0
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to create subscription plan: ${error.message}`);
+  return data;
+}
+
+/**
+ * Retired plans disappear from product pages; existing subscribers keep them
+ */
+export async function setPlanActive(planId: string, active: boolean): Promise<SubscriptionPlanRow> {
+  const supabase = createSubscriptionsClient();
+  if (!supabase) throw new Error('Supabase configuration missing');
+
+  const { data, error } = await supabase
+    .from('subscription_plans')
+    .update({ active })
+    .eq('id', planId)
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to update subscription plan: ${error.message}`);
+  return data;
+}
+
+/**
+ * The recurring price Stripe bills for a plan: its linked Stripe price, or
+ * the plan price converted into the customer's currency
+ */
+async function getPlanPriceData(plan: SubscriptionPlanRow, productName: string, currency: string) {
+  if (plan.stripe_price_id) {
+    return { price: plan.stripe_price_id };
+  }
+
+  const presentmentCurrency = resolveCurrency(currency);
+  const rates = await loadExchangeRates();
+  const amount = convertFromBase(Number(plan.price), presentmentCurrency, rates);
+
+  return {
+    price_data: {
+      currency: presentmentCurrency.toLowerCase(),
+      product_data: { name: `${productName} (${plan.name})` },
+      unit_amount: toMinorUnits(amount, presentmentCurrency),
+      recurring: { interval: plan.billing_interval, interval_count: plan.interval_count }
+    }
+  };
+}
+
+/**
+ * Stripe Checkout URL for subscribing to a plan. Physical products collect
+ * a shipping address for the recurring orders.
+ */
+export async function createSubscriptionCheckout(request: {
+  planId: string;
+  quantity?: number;
+  customerEmail?: string;
+  currency?: string;
+  userId?: string;
+}): Promise<{ success: boolean; url?: string; error?: string }> {
+  const plan = await getPlan(request.planId);
+  if (!plan || !plan.active) {
+    return { success: false, error: 'Subscription plan not found' };
+  }
+
+  const product = getProductById(plan.product_id);
+  if (!product) {
+    return { success: false, error: 'Product not found' };
+  }
+
+  const metadata: Record<string, string> = {
+    plan_id: plan.id,
+    product_id: plan.product_id,
+    ...(request.customerEmail && { customer_email: request.customerEmail }),
+    ...(request.userId && { user_id: request.userId })
+  };
+
+  const session = await StripeService.createSubscriptionCheckoutSession({
+    lineItem: {
+      ...(await getPlanPriceData(plan, product.name, request.currency || '')),
+      quantity: request.quantity || 1
+    },
+    customerEmail: request.customerEmail,
+    trialDays: plan.trial_days,
+    metadata,
+    shippingCountries: product.isDigital ? undefined : SHIPPING_COUNTRIES,
+    successUrl: `${getAppUrl()}/account/subscriptions?subscribed=1`,
+    cancelUrl: `${getAppUrl()}/product/${plan.product_id}`
+  });
+
+  return session.url
+    ? { success: true, url: session.url }
+    : { success: false, error: 'Stripe did not return a checkout URL' };
+}
+
+function getManageLinkSecret(): string {
+  const secret = process.env.SUBSCRIPTION_LINK_SECRET;
+  if (!secret) throw new Error('SUBSCRIPTION_LINK_SECRET is not configured');
+  return secret;
+}
+
+/**
+ * Signed token that lets the holder manage the subscriptions of `email`
+ * (format: base64url(email:expiresAt).signature)
+ */
+export function createManageToken(email: string, ttlDays: number = MANAGE_LINK_TTL_DAYS): string {
+  const payload = Buffer.from(`${email.toLowerCase()}:${Date.now() + ttlDays * 24 * 60 * 60 * 1000}`).toString('base64url');
+  const signature = crypto.createHmac('sha256', getManageLinkSecret()).update(payload).digest('base64url');
+  return `${payload}.${signature}`;
+}
+
+/**
+ * The email a manage token was issued for, or null when it is invalid or expired
+ */
+export function verifyManageToken(token: string | null | undefined): string | null {
+  if (!token) return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = crypto.createHmac('sha256', getManageLinkSecret()).update(payload).digest('base64url');
+  if (expected.length !== signature.length || !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+    return null;
+  }
+
+  const decoded = Buffer.from(payload, 'base64url').toString();
+  const separator = decoded.lastIndexOf(':');
+  const expiresAt = Number(decoded.slice(separator + 1));
+  if (!expiresAt || expiresAt < Date.now()) return null;
+
+  return decoded.slice(0, separator);
+}
+
+/**
+ * Email a "manage your subscriptions" link. Sent only when the address has
+ * subscriptions, but callers always report success so the endpoint doesn't
+ * reveal who subscribes.
+ */
+export async function sendSubscriptionManageLink(email: string): Promise<void> {
+  const subscriptions = await listCustomerSubscriptions(email);
+  if (subscriptions.length === 0) return;
+
+  const { sendTemplateEmail } = await import('../lib/email');
+  await sendTemplateEmail('subscription_manage_link', email, {
+    manage_url: `${getAppUrl()}/account/subscriptions?token=${encodeURIComponent(createManageToken(email))}`,
+    link_ttl_days: MANAGE_LINK_TTL_DAYS
+  });
+}
+
+export async function listCustomerSubscriptions(email: string): Promise<SubscriptionRecord[]> {
+  const supabase = createSubscriptionsClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select('*, subscription_plans(*)')
+    .eq('customer_email', email.toLowerCase())
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to fetch subscriptions: ${error.message}`);
+  return data || [];
+}
+
+async function getCustomerSubscription(email: string, subscriptionId: string): Promise<SubscriptionRecord> {
+  const subscription = (await listCustomerSubscriptions(email)).find(record => record.id === subscriptionId);
+  if (!subscription) throw new Error('Subscription not found');
+  return subscription;
+}
+
+/**
+ * Apply a customer action to one of their subscriptions:
+ *
+ * - `pause` stops billing (and deliveries) until resumed
+ * - `skip` voids the next renewal only; billing resumes the period after
+ * - `resume` undoes a pause, skip or pending cancellation
+ * - `cancel` ends the subscription at the end of the paid period
+ * - `change_plan` moves to another plan for the same product, prorated
+ * - `update_card` returns a Stripe-hosted page to replace the card
+ */
+export async function manageSubscription(
+  email: string,
+  subscriptionId: string,
+  action: SubscriptionAction,
+  options: { planId?: string } = {}
+): Promise<{ subscription?: SubscriptionRecord; url?: string }> {
+  const record = await getCustomerSubscription(email, subscriptionId);
+
+  if (action === 'update_card') {
+    const session = await StripeService.createPaymentMethodUpdateSession(
+      record.stripe_customer_id,
+      `${getAppUrl()}/account/subscriptions?token=${encodeURIComponent(createManageToken(email))}`
+    );
+    return { url: session.url };
+  }
+
+  if (!MANAGEABLE_STATUSES.includes(record.status)) {
+    throw new Error(`This subscription is ${record.status} and can no longer be changed`);
+  }
+
+  let params: Stripe.SubscriptionUpdateParams;
+  switch (action) {
+    case 'pause':
+      params = { pause_collection: { behavior: 'void' } };
+      break;
+
+    case 'skip': {
+      if (!record.current_period_end) throw new Error('The next renewal date is not known yet');
+      // Renewals invoiced before resumes_at are voided, so only the next one is skipped
+      const resumesAt = Math.floor(new Date(record.current_period_end).getTime() / 1000) + 24 * 60 * 60;
+      params = { pause_collection: { behavior: 'void', resumes_at: resumesAt } };
+      break;
+    }
+
+    case 'resume':
+      params = { pause_collection: '', cancel_at_period_end: false };
+      break;
+
+    case 'cancel':
+      params = { cancel_at_period_end: true };
+      break;
+
+    case 'change_plan': {
+      const plan = options.planId ? await getPlan(options.planId) : null;
+      if (!plan || !plan.active || plan.product_id !== record.product_id) {
+        throw new Error('Choose another plan for the same product');
+      }
+
+      const current = await StripeService.getSubscription(record.stripe_subscription_id);
+      const item = current.items.data[0];
+      const price = plan.stripe_price_id
+        ? { price: plan.stripe_price_id }
+        : {
+            price_data: {
+              currency: current.currency,
+              product: typeof item.price.product === 'string' ? item.price.product : item.price.product.id,
+              unit_amount: toMinorUnits(
+                convertFromBase(Number(plan.price), current.currency.toUpperCase(), await loadExchangeRates()),
+                current.currency
+              ),
+              recurring: { interval: plan.billing_interval, interval_count: plan.interval_count }
+            }
+          };
+
+      params = {
+        items: [{ id: item.id, ...price }],
+        proration_behavior: 'create_prorations',
+        metadata: { ...current.metadata, plan_id: plan.id }
+      };
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown subscription action ${action}`);
+  }
+
+  const updated = await StripeService.updateSubscription(record.stripe_subscription_id, params);
+  await syncSubscription(updated);
+
+  return { subscription: await getCustomerSubscription(email, subscriptionId) };
+}
@@ -0,0 +1,297 @@
+import { TaxCategory } from '../types';
+import { roundForCurrency } from './currency';
+
+export interface TaxAddress {
+  country: string;
+  state?: string;
+  postalCode?: string;
+}
+
+export interface TaxableItem {
+  productId: string;
+  name: string;
+  price: number;
+  quantity: number;
+  category?: string;
+  taxCategory?: TaxCategory;
+  isDigital?: boolean;
+}
+
+export interface TaxRequest {
+  items: TaxableItem[];
+  shippingAddress: TaxAddress;
+  billingAddress?: TaxAddress; // Buyer location for digital goods; defaults to shippingAddress
+  shippingCost?: number;
+  discount?: number; // Order-level discount, allocated across items by value
+  pricesIncludeTax?: boolean;
+  currency?: string; // Currency of the amounts; tax is rounded to its minor unit (BASE_CURRENCY by default)
+}
+
+export interface TaxLine {
+  id: string;
+  jurisdiction: string;
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface TaxResult {
+  provider: string;
+  lines: TaxLine[];
+  totalTax: number;
+  pricesIncludeTax: boolean;
+}
+
+export interface TaxProvider {
+  name: string;
+  calculateTax(request: TaxRequest): Promise<TaxResult>;
+}
+
+export interface TaxRule {
+  id: string;
+  name: string;
+  jurisdiction: string;
+  country: string;
+  state?: string;
+  postalPrefixes?: string[];
+  rate: number;
+  appliesTo?: 'all' | 'physical' | 'digital';
+  categoryRates?: Partial<Record<TaxCategory, number>>; // Reduced or zero rates by product tax category
+  taxShipping?: boolean;
+}
+
+/**
+ * Built-in tax rules. Physical goods are taxed where they ship to,
+ * digital goods where the buyer is (e.g. EU VAT at the buyer's country rate).
+ */
+export const DEFAULT_TAX_RULES: TaxRule[] = [
+  // United States - state and local sales tax
+  { id: 'us-ca', name: 'California Sales Tax', jurisdiction: 'US-CA', country: 'US', state: 'CA', rate: 0.0725, appliesTo: 'physical', categoryRates: { food: 0 } },
+  { id: 'us-ny', name: 'New York State Sales Tax', jurisdiction: 'US-NY', country: 'US', state: 'NY', rate: 0.04, categoryRates: { clothing: 0, food: 0 }, taxShipping: true },
+  {
+    id: 'us-ny-nyc', name: 'New York City Sales Tax', jurisdiction: 'US-NY-NYC', country: 'US', state: 'NY',
+    postalPrefixes: ['100', '101', '102', '103', '104', '111', '112', '113', '114', '116'],
+    rate: 0.045, categoryRates: { clothing: 0, food: 0 }, taxShipping: true
+  },
+  { id: 'us-tx', name: 'Texas Sales Tax', jurisdiction: 'US-TX', country: 'US', state: 'TX', rate: 0.0625, categoryRates: { food: 0 }, taxShipping: true },
+  { id: 'us-wa', name: 'Washington Sales Tax', jurisdiction: 'US-WA', country: 'US', state: 'WA', rate: 0.065, categoryRates: { food: 0 }, taxShipping: true },
+
+  // Canada - federal GST
+  { id: 'ca-gst', name: 'GST', jurisdiction: 'CA', country: 'CA', rate: 0.05, taxShipping: true },
+
+  // United Kingdom and EU - VAT
+  { id: 'gb-vat', name: 'UK VAT', jurisdiction: 'GB', country: 'GB', rate: 0.2, categoryRates: { books: 0, food: 0 }, taxShipping: true },
+  { id: 'de-vat', name: 'Germany VAT', jurisdiction: 'DE', country: 'DE', rate: 0.19, categoryRates: { books: 0.07, food: 0.07 }, taxShipping: true },
+  { id: 'fr-vat', name: 'France VAT', jurisdiction: 'FR', country: 'FR', rate: 0.2, categoryRates: { books: 0.055, food: 0.055 }, taxShipping: true },
+  { id: 'ie-vat', name: 'Ireland VAT', jurisdiction: 'IE', country: 'IE', rate: 0.23, categoryRates: { books: 0, food: 0 }, taxShipping: true },
+  { id: 'nl-vat', name: 'Netherlands VAT', jurisdiction: 'NL', country: 'NL', rate: 0.21, categoryRates: { books: 0.09, food: 0.09 }, taxShipping: true },
+  { id: 'es-vat', name: 'Spain VAT', jurisdiction: 'ES', country: 'ES', rate: 0.21, categoryRates: { books: 0.04, food: 0.1 }, taxShipping: true },
+  { id: 'it-vat', name: 'Italy VAT', jurisdiction: 'IT', country: 'IT', rate: 0.22, categoryRates: { books: 0.04, food: 0.1 }, taxShipping: true }
+];
+
+const COUNTRY_NAMES: Record<string, string> = {
+  'UNITED STATES': 'US',
+  'UNITED STATES OF AMERICA': 'US',
+  'USA': 'US',
+  'CANADA': 'CA',
+  'UNITED KINGDOM': 'GB',
+  'UK': 'GB',
+  'GERMANY': 'DE',
+  'FRANCE': 'FR',
+  'IRELAND': 'IE',
+  'NETHERLANDS': 'NL',
+  'SPAIN': 'ES',
+  'ITALY': 'IT'
+};
+
+const TAX_CATEGORIES: TaxCategory[] = ['standard', 'clothing', 'books', 'food', 'exempt'];
+
+/**
+ * Accepts ISO codes or common country names ("United States" -> "US")
+ */
+export function normalizeCountryCode(country: string | undefined): string {
+  const value = (country || '').trim().toUpperCase();
+  return COUNTRY_NAMES[value] || value;
+}
+
+/**
+ * Product tax category, falling back to the merchandising category
+ */
+export function resolveTaxCategory(item: TaxableItem): TaxCategory {
+  if (item.taxCategory) return item.taxCategory;
+  const category = (item.category || '').toLowerCase() as TaxCategory;
+  return TAX_CATEGORIES.includes(category) ? category : 'standard';
+}
+
+/**
+ * Display a rate as a percentage, e.g. 0.0725 -> "7.25%"
+ */
+export function formatTaxRate(rate: number): string {
+  return `${(rate * 100).toFixed(2).replace(/\.?0+$/, '')}%`;
+}
+
+function matchesAddress(rule: TaxRule, address: TaxAddress): boolean {
+  if (rule.country !== normalizeCountryCode(address.country)) return false;
+  if (rule.state && rule.state !== (address.state || '').trim().toUpperCase()) return false;
+  if (rule.postalPrefixes) {
+    const postalCode = (address.postalCode || '').replace(/\s/g, '').toUpperCase();
+    return rule.postalPrefixes.some(prefix => postalCode.startsWith(prefix));
+  }
+  return true;
+}
+
+/**
+ * Calculates tax from a table of jurisdiction rules.
+ * Each matching rule produces its own tax line, split by rate where a
+ * product category is taxed at a reduced rate.
+ */
+export class RulesTaxProvider implements TaxProvider {
+  name = 'rules';
+
+  constructor(private rules: TaxRule[] = DEFAULT_TAX_RULES) {}
+
+  async calculateTax(request: TaxRequest): Promise<TaxResult> {
+    const pricesIncludeTax = request.pricesIncludeTax ?? false;
+    const lines = new Map<string, TaxLine>();
+
+    const addTax = (rule: TaxRule, rate: number, taxableAmount: number, totalRate: number) => {
+      if (rate <= 0 || taxableAmount <= 0) return;
+
+      // With tax-inclusive prices the tax is backed out of the amount paid
+      const netAmount = pricesIncludeTax ? taxableAmount / (1 + totalRate) : taxableAmount;
+      const key = `${rule.id}:${rate}`;
+      const line = lines.get(key) || {
+        id: key,
+        jurisdiction: rule.jurisdiction,
+        name: rate === rule.rate ? rule.name : `${rule.name} (reduced rate)`,
+        rate,
+        taxableAmount: 0,
+        amount: 0
+      };
+      line.taxableAmount += netAmount;
+      line.amount += netAmount * rate;
+      lines.set(key, line);
+    };
+
+    const rulesFor = (address: TaxAddress, isDigital: boolean) =>
+      this.rules.filter(rule =>
+        matchesAddress(rule, address) &&
+        (rule.appliesTo || 'all') !== (isDigital ? 'physical' : 'digital')
+      );
+
+    const subtotal = request.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const discountRatio = subtotal > 0 ? Math.min(1, (request.discount || 0) / subtotal) : 0;
+
+    for (const item of request.items) {
+      const taxCategory = resolveTaxCategory(item);
+      if (taxCategory === 'exempt') continue;
+
+      const address = item.isDigital
+        ? request.billingAddress || request.shippingAddress
+        : request.shippingAddress;
+      const amount = item.price * item.quantity * (1 - discountRatio);
+      const applicable = rulesFor(address, !!item.isDigital).map(rule => ({
+        rule,
+        rate: rule.categoryRates?.[taxCategory] ?? rule.rate
+      }));
+      const totalRate = applicable.reduce((sum, { rate }) => sum + rate, 0);
+
+      applicable.forEach(({ rule, rate }) => addTax(rule, rate, amount, totalRate));
+    }
+
+    const shippingCost = request.shippingCost || 0;
+    if (shippingCost > 0) {
+      const applicable = rulesFor(request.shippingAddress, false).filter(rule => rule.taxShipping);
+      const totalRate = applicable.reduce((sum, rule) => sum + rule.rate, 0);
+      applicable.forEach(rule => addTax(rule, rule.rate, shippingCost, totalRate));
+    }
+
+    const taxLines = Array.from(lines.values()).map(line => ({
+      ...line,
+      taxableAmount: roundForCurrency(line.taxableAmount, request.currency),
+      amount: roundForCurrency(line.amount, request.currency)
+    }));
+
+    return {
+      provider: this.name,
+      lines: taxLines,
+      totalTax: roundForCurrency(taxLines.reduce((sum, line) => sum + line.amount, 0), request.currency),
+      pricesIncludeTax
+    };
+  }
+}
+
+/**
+ * Slot for a hosted tax service (Avalara, TaxJar, Stripe Tax, ...).
+ * Without TAX_PROVIDER_API_URL it runs as a local stub that simulates the
+ * API call and answers from the built-in rules.
+ */
+export class ExternalTaxProvider implements TaxProvider {
+  name = 'external';
+
+  constructor(
+    private apiUrl: string | undefined = process.env.TAX_PROVIDER_API_URL,
+    private apiKey: string | undefined = process.env.TAX_PROVIDER_API_KEY
+  ) {}
+
+  async calculateTax(request: TaxRequest): Promise<TaxResult> {
+    if (!this.apiUrl) {
+      // Simulate API latency
+      await new Promise(resolve => setTimeout(resolve, 100));
+      const result = await new RulesTaxProvider().calculateTax(request);
+      return { ...result, provider: `${this.name}-stub` };
+    }
+
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify(request)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Tax provider request failed with status ${response.status}`);
+    }
+
+    const result = await response.json();
+    return {
+      provider: this.name,
+      lines: result.lines || [],
+      totalTax: Number(result.totalTax) || 0,
+      pricesIncludeTax: request.pricesIncludeTax ?? false
+    };
+  }
+}
+
+/**
+ * Provider selected by TAX_PROVIDER ('rules' by default, or 'external')
+ */
+export function getTaxProvider(): TaxProvider {
+  return process.env.TAX_PROVIDER === 'external'
+    ? new ExternalTaxProvider()
+    : new RulesTaxProvider();
+}
+
+/**
+ * Whether catalogue prices already include tax (PRICES_INCLUDE_TAX=true)
+ */
+export function pricesIncludeTax(): boolean {
+  return process.env.PRICES_INCLUDE_TAX === 'true';
+}
+
+/**
+ * Calculate tax with the configured provider, falling back to the built-in
+ * rules if the provider is unavailable so checkout is never blocked on it.
+ */
+export async function calculateOrderTax(request: TaxRequest): Promise<TaxResult> {
+  const provider = getTaxProvider();
+  try {
+    return await provider.calculateTax(request);
+  } catch (error) {
+    console.error(`Tax provider "${provider.name}" failed, using built-in rules:`, error);
+    return new RulesTaxProvider().calculateTax(request);
+  }
+}
@@ -0,0 +1,345 @@
+import { createClient } from '@supabase/supabase-js';
+import { getCarrierAdapter, TrackingInfo } from './carriers';
+import {
+  FulfillmentType,
+  SHIPMENT_STATUS_LABELS,
+  ShipmentItemRow,
+  ShipmentRow,
+  ShipmentStatus,
+  updateOrderFromShipments
+} from './shipments';
+import { notifyShipmentStatusChange } from './pushNotifications';
+
+export interface NormalizedTrackingEvent {
+  status: ShipmentStatus;
+  carrierStatus?: string;
+  description: string;
+  location?: string;
+  occurredAt: string;
+}
+
+export interface TrackingUpdate {
+  trackingNumber: string;
+  carrier?: string;
+  estimatedDelivery?: string;
+  events: NormalizedTrackingEvent[];
+}
+
+/**
+ * Row shape of the `tracking_events` table
+ */
+export interface TrackingEventRow {
+  id: string;
+  shipment_id: string;
+  order_id: string;
+  status: ShipmentStatus;
+  carrier_status: string | null;
+  description: string | null;
+  location: string | null;
+  occurred_at: string;
+}
+
+export interface ShipmentTracking {
+  id: string;
+  fulfillmentType: FulfillmentType;
+  warehouseId: string | null;
+  carrier: string | null;
+  service: string | null;
+  trackingNumber: string | null;
+  status: ShipmentStatus;
+  items: Array<{
+    productId: string;
+    variantId?: string;
+    name: string;
+    variantTitle?: string;
+    quantity: number;
+  }>;
+  estimatedDelivery: string | null;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  events: Array<{
+    status: ShipmentStatus;
+    description: string;
+    location: string | null;
+    occurredAt: string;
+  }>;
+}
+
+export interface OrderTracking {
+  orderId: string;
+  orderStatus: string;
+  shipments: ShipmentTracking[];
+}
+
+// Carrier status codes (EasyPost/Shippo style, UPS activity codes and our
+// own CarrierAdapter statuses) mapped to ShipmentStatus
+const CARRIER_STATUS_MAP: Record<string, ShipmentStatus> = {
+  pre_transit: 'label_created',
+  label_created: 'label_created',
+  unknown: 'label_created',
+  m: 'label_created',
+  in_transit: 'in_transit',
+  transit: 'in_transit',
+  accepted: 'in_transit',
+  picked_up: 'in_transit',
+  i: 'in_transit',
+  p: 'in_transit',
+  out_for_delivery: 'out_for_delivery',
+  o: 'out_for_delivery',
+  delivered: 'delivered',
+  d: 'delivered',
+  exception: 'exception',
+  failure: 'exception',
+  return_to_sender: 'exception',
+  returned: 'exception',
+  cancelled: 'exception',
+  voided: 'exception',
+  error: 'exception',
+  x: 'exception'
+};
+
+// Order in which statuses progress; exceptions can happen at any point
+const STATUS_PROGRESS: Record<ShipmentStatus, number> = {
+  pending: 0,
+  label_created: 1,
+  exception: 2,
+  in_transit: 3,
+  out_for_delivery: 4,
+  delivered: 5
+};
+
+function createTrackingClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Map a carrier's status code to a ShipmentStatus (unknown codes count as in transit)
+ */
+export function normalizeTrackingStatus(carrierStatus: string | undefined | null): ShipmentStatus {
+  const key = (carrierStatus || '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return CARRIER_STATUS_MAP[key] || 'in_transit';
+}
+
+function formatLocation(location: any): string | undefined {
+  if (!location) return undefined;
+  if (typeof location === 'string') return location;
+  return [location.city, location.state, location.country].filter(Boolean).join(', ') || undefined;
+}
+
+/**
+ * Normalize an inbound tracking webhook. Accepts EasyPost-style tracker
+ * events ({ result: { tracking_code, tracking_details } }) and the
+ * CarrierAdapter TrackingInfo shape ({ trackingNumber, events }).
+ */
+export function parseTrackingWebhook(body: any): TrackingUpdate | null {
+  const tracker = body?.result && body.result.tracking_code ? body.result : null;
+
+  if (tracker) {
+    return {
+      trackingNumber: tracker.tracking_code,
+      carrier: tracker.carrier,
+      estimatedDelivery: tracker.est_delivery_date || undefined,
+      events: (tracker.tracking_details || []).map((detail: any) => ({
+        status: normalizeTrackingStatus(detail.status),
+        carrierStatus: detail.status,
+        description: detail.message || SHIPMENT_STATUS_LABELS[normalizeTrackingStatus(detail.status)],
+        location: formatLocation(detail.tracking_location),
+        occurredAt: new Date(detail.datetime).toISOString()
+      }))
+    };
+  }
+
+  if (body?.trackingNumber && Array.isArray(body.events)) {
+    return trackingInfoToUpdate(body as TrackingInfo);
+  }
+
+  return null;
+}
+
+export function trackingInfoToUpdate(info: TrackingInfo): TrackingUpdate {
+  return {
+    trackingNumber: info.trackingNumber,
+    carrier: info.carrier,
+    estimatedDelivery: info.estimatedDelivery,
+    events: info.events.map(event => ({
+      status: normalizeTrackingStatus(event.status),
+      carrierStatus: event.status,
+      description: event.description,
+      location: formatLocation(event.location),
+      occurredAt: new Date(event.timestamp).toISOString()
+    }))
+  };
+}
+
+/**
+ * Store tracking events for a shipment and move the shipment and its order
+ * forward (see updateOrderFromShipments for how the order status follows
+ * its shipments)
+ */
+export async function recordTrackingUpdate(update: TrackingUpdate): Promise<{
+  success: boolean;
+  stored: number;
+  shipmentStatus?: ShipmentStatus;
+  error?: string;
+}> {
+  const supabase = createTrackingClient();
+  if (!supabase) {
+    return { success: false, stored: 0, error: 'Supabase configuration missing' };
+  }
+
+  const { data: shipment } = await supabase
+    .from('shipments')
+    .select('*')
+    .eq('tracking_number', update.trackingNumber)
+    .single();
+
+  if (!shipment) {
+    return { success: false, stored: 0, error: `Unknown tracking number: ${update.trackingNumber}` };
+  }
+
+  if (update.events.length > 0) {
+    const { error } = await supabase
+      .from('tracking_events')
+      .upsert(update.events.map(event => ({
+        shipment_id: shipment.id,
+        order_id: shipment.order_id,
+        status: event.status,
+        carrier_status: event.carrierStatus || null,
+        description: event.description,
+        location: event.location || null,
+        occurred_at: event.occurredAt
+      })), { onConflict: 'shipment_id,status,occurred_at', ignoreDuplicates: true });
+
+    if (error) {
+      return { success: false, stored: 0, error: error.message };
+    }
+  }
+
+  // Latest event wins, except that a late duplicate scan never moves a
+  // delivered shipment backwards
+  const { data: events } = await supabase
+    .from('tracking_events')
+    .select('status, occurred_at')
+    .eq('shipment_id', shipment.id)
+    .order('occurred_at', { ascending: true });
+
+  const history = (events || []) as Array<{ status: ShipmentStatus; occurred_at: string }>;
+  const latest = history[history.length - 1];
+  const delivered = history.find(event => event.status === 'delivered');
+  const firstScan = history.find(event => STATUS_PROGRESS[event.status] >= STATUS_PROGRESS.in_transit);
+  const status: ShipmentStatus = delivered ? 'delivered' : latest?.status || shipment.status;
+
+  await supabase
+    .from('shipments')
+    .update({
+      status,
+      estimated_delivery: update.estimatedDelivery || shipment.estimated_delivery,
+      shipped_at: firstScan?.occurred_at || null,
+      delivered_at: delivered?.occurred_at || null
+    })
+    .eq('id', shipment.id);
+
+  await updateOrderFromShipments(shipment.order_id);
+
+  if (status !== shipment.status) {
+    await notifyShipmentStatusChange(shipment.order_id, status, shipment);
+  }
+
+  return { success: true, stored: update.events.length, shipmentStatus: status };
+}
+
+/**
+ * Poll the carrier for shipments that are not delivered yet, for carriers
+ * (and the sandbox) that don't send tracking webhooks
+ */
+export async function syncOpenShipments(limit: number = 25): Promise<number> {
+  const supabase = createTrackingClient();
+  if (!supabase) return 0;
+
+  const { data: shipments } = await supabase
+    .from('shipments')
+    .select('tracking_number')
+    .not('tracking_number', 'is', null)
+    .not('status', 'in', '(pending,delivered)')
+    .order('updated_at', { ascending: true })
+    .limit(limit);
+
+  const carrier = getCarrierAdapter();
+  let synced = 0;
+
+  for (const shipment of shipments || []) {
+    try {
+      const info = await carrier.track(shipment.tracking_number);
+      const result = await recordTrackingUpdate(trackingInfoToUpdate(info));
+      if (result.success) synced++;
+    } catch (error) {
+      console.error('Error syncing tracking for shipment:', shipment.tracking_number, error);
+    }
+  }
+
+  return synced;
+}
+
+/**
+ * Order status with its shipments and tracking history, oldest event first.
+ * Returns null when the order does not exist.
+ */
+export async function getOrderTracking(orderId: string): Promise<OrderTracking | null> {
+  const supabase = createTrackingClient();
+  if (!supabase) return null;
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select('id, status')
+    .eq('id', orderId)
+    .single();
+
+  if (!order) return null;
+
+  const { data: shipments, error } = await supabase
+    .from('shipments')
+    .select('*, tracking_events(*), shipment_items(*)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to fetch tracking: ${error.message}`);
+
+  return {
+    orderId,
+    orderStatus: order.status,
+    shipments: (shipments || []).map((shipment: ShipmentRow & { tracking_events: TrackingEventRow[]; shipment_items: ShipmentItemRow[] }) => ({
+    id: shipment.id,
+    fulfillmentType: shipment.fulfillment_type,
+    warehouseId: shipment.warehouse_id,
+    carrier: shipment.carrier,
+    service: shipment.service,
+    trackingNumber: shipment.tracking_number,
+    status: shipment.status,
+    items: (shipment.shipment_items || []).map(item => ({
+      productId: item.product_id,
+      variantId: item.variant_id || undefined,
+      name: item.product_name || item.product_id,
+      variantTitle: item.variant_title || undefined,
+      quantity: item.quantity
+    })),
+    estimatedDelivery: shipment.estimated_delivery,
+    shippedAt: shipment.shipped_at,
+    deliveredAt: shipment.delivered_at,
+    events: [...(shipment.tracking_events || [])]
+      .sort((a, b) => a.occurred_at.localeCompare(b.occurred_at))
+      .map(event => ({
+        status: event.status,
+        description: event.description || SHIPMENT_STATUS_LABELS[event.status],
+        location: event.location,
+        occurredAt: event.occurred_at
+      }))
+    }))
+  };
+}
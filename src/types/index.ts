@@ -1,5 +1,39 @@
 // This file defines TypeScript types and interfaces used throughout the application.
 
+export type TaxCategory = 'standard' | 'clothing' | 'books' | 'food' | 'exempt';
+
+export type BillingInterval = 'day' | 'week' | 'month' | 'year';
+
+// A recurring purchase option for a product (see subscription_plans)
+export interface SubscriptionPlan {
+    id: string;
+    productId: string;
+    name: string;
+    interval: BillingInterval;
+    intervalCount: number;
+    trialDays: number;
+    price: number; // Base currency, per billing period
+    stripePriceId?: string;
+}
+
+// A way a product varies, e.g. { name: 'Size', values: ['S', 'M', 'L'] }
+export interface ProductOption {
+    name: string;
+    values: string[]; // In display order
+}
+
+// One purchasable combination of option values, with its own SKU, price,
+// stock and images (see products.variants)
+export interface ProductVariant {
+    id: string;
+    sku: string;
+    options: Record<string, string>; // Option name -> value
+    price: number;
+    stock: number;
+    imageUrl?: string; // Falls back to the product image
+    images?: string[];
+}
+
 export interface Product {
     id: string;
     name: string;
@@ -7,9 +41,13 @@ export interface Product {
     price: number;
     imageUrl: string;
     category: string;
+    brand?: string;
     stock: number;
     tags: string[];
+    taxCategory?: TaxCategory;
     isDigital?: boolean;
+    weight?: number; // kg, for carrier rating
+    dimensions?: { length: number; width: number; height: number }; // cm
     fileFormat?: string;
     licenseType?: string;
     fileSize?: string;
@@ -19,10 +57,14 @@ export interface Product {
     previewUrl?: string;
     systemRequirements?: string[];
     demoUrl?: string;
+    subscriptionPlans?: SubscriptionPlan[];
+    options?: ProductOption[];
+    variants?: ProductVariant[]; // When set, one of them must be chosen to buy
 }
 
 export interface CartItem {
     productId: string;
+    variantId?: string;
     quantity: number;
     product?: Product; // Optional populated product data
     // Convenience properties copied from product
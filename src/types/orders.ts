@@ -17,13 +17,25 @@ export interface CustomerInfo {
   country?: string;
 }
 
+// Canonical order lifecycle; allowed moves are in src/services/orderStatus.ts
+export type OrderStatus =
+  | 'pending'
+  | 'paid'
+  | 'processing'
+  | 'partially_shipped'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'returned'
+  | 'refunded';
+
 export interface Order {
   id: string;
   customer_name?: string;
   customer_email?: string;
   items: OrderItem[] | string; // JSON string in DB, array in memory
   total: number;
-  status: 'pending' | 'paid' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   payment_intent?: string;
   stripe_session_id?: string;
   created_at: string;